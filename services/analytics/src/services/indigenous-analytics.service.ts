@@ -2,6 +2,7 @@ import { prisma } from '../config/database';
 import { redis } from '../config/redis';
 import { clickhouse } from '../config/clickhouse';
 import { logger } from '../utils/logger';
+import { CulturalAccessRequester, requireCulturalAccess } from '../utils/cultural-access';
 import {
   IndigenousAnalytics,
   RegionMetrics,
@@ -15,10 +16,38 @@ import dayjs from 'dayjs';
 export class IndigenousAnalyticsService {
   private static readonly CACHE_TTL = 3600; // 1 hour
 
+  // The datasets each query reads, by the names cultural access policies use
+  private static readonly DATASETS = {
+    overview: ['businesses', 'rfq_analytics', 'indigenous_registry', 'business_analytics', 'certifications'],
+    rankings: ['indigenous_business_performance'],
+    patterns: [
+      'businesses',
+      'rfq_analytics',
+      'indigenous_registry',
+      'business_analytics',
+      'certifications',
+      'rfq_category_analysis',
+      'industry_growth_metrics',
+      'regional_analysis',
+    ],
+  };
+
   /**
-   * Get comprehensive Indigenous procurement analytics
+   * Get comprehensive Indigenous procurement analytics, once the cultural
+   * access decision point permits every dataset it reads
    */
   static async getIndigenousAnalytics(
+    requester: CulturalAccessRequester,
+    dateRange?: { start: Date; end: Date }
+  ): Promise<IndigenousAnalytics> {
+    await requireCulturalAccess(requester, this.DATASETS.overview);
+    return this.loadIndigenousAnalytics(dateRange);
+  }
+
+  /**
+   * Helper: Analytics across every dataset, from the cache when held
+   */
+  private static async loadIndigenousAnalytics(
     dateRange?: { start: Date; end: Date }
   ): Promise<IndigenousAnalytics> {
     try {
@@ -392,7 +421,9 @@ export class IndigenousAnalyticsService {
   /**
    * Get Indigenous business rankings
    */
-  static async getIndigenousRankings(category: string): Promise<any[]> {
+  static async getIndigenousRankings(category: string, requester: CulturalAccessRequester): Promise<any[]> {
+    await requireCulturalAccess(requester, this.DATASETS.rankings);
+
     try {
       const query = `
         SELECT
@@ -422,7 +453,9 @@ export class IndigenousAnalyticsService {
   /**
    * Analyze Indigenous procurement patterns
    */
-  static async analyzeIndigenousProcurementPatterns(): Promise<any> {
+  static async analyzeIndigenousProcurementPatterns(requester: CulturalAccessRequester): Promise<any> {
+    await requireCulturalAccess(requester, this.DATASETS.patterns);
+
     try {
       const patterns = await this.detectProcurementPatterns();
       const seasonality = await this.analyzeSeasonality();
@@ -637,7 +670,7 @@ export class IndigenousAnalyticsService {
     const recommendations = [];
 
     // Based on current metrics
-    const metrics = await this.getIndigenousAnalytics();
+    const metrics = await this.loadIndigenousAnalytics();
 
     if (metrics.certificationStats.pendingCertifications > 10) {
       recommendations.push('Streamline certification process to reduce pending applications');
@@ -6,6 +6,7 @@ import { DirectoryService } from '../services/directory-service';
 import { VerificationService } from '../services/verification-service';
 import { SearchService } from '../services/search-service';
 import { logger } from '../utils/logger';
+import { culturalAccess } from '../utils/cultural-access';
 
 const router = Router();
 const businessService = new BusinessService();
@@ -65,7 +66,7 @@ router.post('/register',
 );
 
 // Get business by ID
-router.get('/:businessId', async (req, res) => {
+router.get('/:businessId', culturalAccess(), async (req, res) => {
   try {
     const business = await businessService.getBusinessById(req.params.businessId);
     res.json(business);
@@ -199,6 +200,7 @@ router.post('/:businessId/verify/indigenous',
 // Get verification status
 router.get('/:businessId/verify/status',
   authMiddleware,
+  culturalAccess(),
   async (req, res) => {
     try {
       const status = await verificationService.getVerificationStatus(req.params.businessId);
@@ -242,6 +244,7 @@ router.post('/:businessId/verify/review',
 
 // Get business statistics
 router.get('/:businessId/stats',
+  culturalAccess(),
   async (req, res) => {
     try {
       const stats = await businessService.getBusinessStats(req.params.businessId);
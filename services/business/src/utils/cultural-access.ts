@@ -0,0 +1,130 @@
+import axios from 'axios';
+import { NextFunction, Request, Response } from 'express';
+import { logger } from './logger';
+
+export type CulturalAccessAction = 'read' | 'write' | 'delete' | 'admin';
+
+export interface CulturalAccessRequester {
+  userId: string;
+  roles: string[];
+  businessId?: string;
+  affiliations?: string[];
+  gender?: string;
+  age?: number;
+  location?: string;
+  device?: string;
+  network?: string;
+  riskScore?: number;
+}
+
+export interface CulturalAccessDecision {
+  effect: 'permit' | 'deny' | 'approval_required';
+  reasons: string[];
+  required: { type: string; description: string; approvers: string[]; allOf: boolean }[];
+  approvalRequestId?: string;
+  grantId?: string;
+  expiresAt?: string;
+}
+
+export class CulturalAccessDeniedError extends Error {
+  constructor(message: string, readonly status: number, readonly decision?: CulturalAccessDecision) {
+    super(message);
+    this.name = 'CulturalAccessDeniedError';
+  }
+}
+
+// Unlike notifications, the check must succeed: if the compliance service
+// cannot be reached or answers anything but permit, the record stays closed
+function complianceServiceUrl(): string {
+  return process.env.COMPLIANCE_SERVICE_URL || 'http://compliance-service:3009';
+}
+
+function serviceHeaders() {
+  return {
+    'Content-Type': 'application/json',
+    'X-Service-Token': process.env.INTERNAL_SERVICE_TOKEN
+  };
+}
+
+/**
+ * The requesting user as the compliance service needs them: identity and
+ * cultural attributes from the token, network from the connection
+ */
+export function requesterFrom(req: Request): CulturalAccessRequester {
+  const user = (req as any).user || {};
+  return {
+    userId: user.id || 'anonymous',
+    roles: Array.from(new Set([user.role, ...(user.roles || [])].filter(Boolean))),
+    businessId: user.businessId,
+    affiliations: user.affiliations,
+    gender: user.gender,
+    age: user.age,
+    location: user.location,
+    device: user.device,
+    network: req.ip,
+    riskScore: user.riskScore
+  };
+}
+
+/**
+ * Ask the cultural access decision point about business records before
+ * they are returned. Throws unless every one is permitted
+ */
+export async function requireCulturalAccess(
+  requester: CulturalAccessRequester,
+  businessIds: string[],
+  action: CulturalAccessAction = 'read'
+): Promise<void> {
+  if (businessIds.length === 0) {
+    return;
+  }
+
+  const { location, device, network, riskScore, ...subject } = requester;
+  let decisions: CulturalAccessDecision[];
+  try {
+    const response = await axios.post(
+      `${complianceServiceUrl()}/api/v1/cultural-access/check`,
+      {
+        requests: businessIds.map(resourceId => ({ resourceType: 'business_record', resourceId, action })),
+        subject,
+        context: { location, device, network, riskScore }
+      },
+      { headers: serviceHeaders(), timeout: 5000 }
+    );
+    decisions = response.data.decisions;
+  } catch (error) {
+    logger.error('Cultural access check failed:', error);
+    throw new CulturalAccessDeniedError('Cultural access could not be checked', 503);
+  }
+
+  if (!Array.isArray(decisions) || decisions.length !== businessIds.length) {
+    logger.error('Cultural access check returned an unexpected response');
+    throw new CulturalAccessDeniedError('Cultural access could not be checked', 503);
+  }
+
+  const refused = decisions.find(decision => decision?.effect !== 'permit');
+  if (refused) {
+    throw new CulturalAccessDeniedError(
+      refused.reasons?.join('; ') || 'Access denied by cultural protocol',
+      403,
+      refused
+    );
+  }
+}
+
+/**
+ * Route guard for reads of the business named by :businessId
+ */
+export function culturalAccess(action: CulturalAccessAction = 'read') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await requireCulturalAccess(requesterFrom(req), [req.params.businessId], action);
+      next();
+    } catch (error: any) {
+      if (error instanceof CulturalAccessDeniedError) {
+        return res.status(error.status).json({ error: error.message, decision: error.decision });
+      }
+      next(error);
+    }
+  };
+}
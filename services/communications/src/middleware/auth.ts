@@ -59,4 +59,21 @@ export function requireRole(...roles: string[]) {
   };
 }
 
+// Service-to-service calls carry a shared token instead of a user JWT
+export function requireServiceToken(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const token = req.headers['x-service-token'];
+
+  if (!process.env.INTERNAL_SERVICE_TOKEN || token !== process.env.INTERNAL_SERVICE_TOKEN) {
+    logger.warn('Rejected internal request with invalid service token', { path: req.path });
+    res.status(401).json({ error: 'Invalid service token' });
+    return;
+  }
+
+  next();
+}
+
 export default authMiddleware;
\ No newline at end of file
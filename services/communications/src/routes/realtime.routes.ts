@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { RealtimeService } from '../services/realtime.service';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Rooms other services may publish to; sockets join these on connect
+const PUBLISHABLE_ROOM = /^(user|business):[\w-]+$/;
+
+interface RealtimeEvent {
+  room: string;
+  event: string;
+  data: any;
+}
+
+// Publish live events from other services (e.g. procurement auctions)
+router.post('/events', async (req, res) => {
+  const events: RealtimeEvent[] = Array.isArray(req.body.events) ? req.body.events : [];
+
+  const invalid = events.filter(e => !PUBLISHABLE_ROOM.test(e.room) || typeof e.event !== 'string');
+  if (events.length === 0 || invalid.length > 0) {
+    res.status(400).json({
+      error: 'Events must target a user: or business: room',
+      invalid: invalid.map(e => e.room),
+    });
+    return;
+  }
+
+  try {
+    for (const { room, event, data } of events) {
+      await RealtimeService.broadcast(room, event, data);
+    }
+
+    res.json({ success: true, delivered: events.length });
+  } catch (error: any) {
+    logger.error('Failed to publish realtime events', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -8,7 +8,7 @@ import { Server as SocketIOServer } from 'socket.io';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/error-handler';
 import { requestLogger } from './middleware/request-logger';
-import { authMiddleware } from './middleware/auth';
+import { authMiddleware, requireServiceToken } from './middleware/auth';
 import notificationRoutes from './routes/notification.routes';
 import emailRoutes from './routes/email.routes';
 import smsRoutes from './routes/sms.routes';
@@ -16,6 +16,7 @@ import pushRoutes from './routes/push.routes';
 import preferenceRoutes from './routes/preference.routes';
 import templateRoutes from './routes/template.routes';
 import healthRoutes from './routes/health.routes';
+import realtimeRoutes from './routes/realtime.routes';
 import { initializeDatabase } from './config/database';
 import { initializeRedis } from './config/redis';
 import { initializeQueue } from './config/queue';
@@ -79,6 +80,9 @@ app.use('/api/v1/preferences', authMiddleware, preferenceRoutes);
 app.use('/api/v1/templates', authMiddleware, templateRoutes);
 app.use('/api/v1/bulk', authMiddleware, bulkLimiter, notificationRoutes);
 
+// Internal publishing for other services
+app.use('/api/v1/realtime', requireServiceToken, realtimeRoutes);
+
 // Socket.IO real-time notifications
 setupSocketHandlers(io);
 
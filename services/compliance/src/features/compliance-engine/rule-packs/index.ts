@@ -0,0 +1,10 @@
+/**
+ * Rule packs shipped with the engine. Further packs, or newer versions of
+ * these, can be added at runtime (see services/rule-pack-loader.ts)
+ */
+
+import federalProcurement from './federal/procurement-1.0.0.json'
+
+export const BUNDLED_RULE_PACKS: unknown[] = [
+  federalProcurement
+]
@@ -0,0 +1,62 @@
+/**
+ * Rule Pack Test Harness
+ * Runs the test cases each pack ships with. Run it on a pack before
+ * publishing it; with no arguments it checks the bundled packs
+ *
+ *   npx tsx src/features/compliance-engine/scripts/test-rule-packs.ts [pack-dir-or-file ...]
+ *
+ * Exits 0 when every case passes, 1 on a failing case, 2 on a pack that
+ * does not load
+ */
+
+import { promises as fs } from 'fs'
+import { BUNDLED_RULE_PACKS } from '../rule-packs'
+import { compileRulePack, runRulePackTests, CompiledRulePack } from '../services/rule-packs'
+import { loadRulePackDirectory } from '../services/rule-pack-loader'
+
+async function loadPacks(locations: string[]): Promise<CompiledRulePack[]> {
+  if (locations.length === 0) {
+    return BUNDLED_RULE_PACKS.map(compileRulePack)
+  }
+
+  const packs: CompiledRulePack[] = []
+  for (const location of locations) {
+    if ((await fs.stat(location)).isDirectory()) {
+      packs.push(...await loadRulePackDirectory(location))
+    } else {
+      packs.push(compileRulePack(JSON.parse(await fs.readFile(location, 'utf8'))))
+    }
+  }
+  return packs
+}
+
+async function main(argv: string[]): Promise<void> {
+  let packs: CompiledRulePack[]
+  try {
+    packs = await loadPacks(argv)
+  } catch (error) {
+    console.error((error as Error).message)
+    process.exit(2)
+  }
+
+  let failed = false
+  for (const pack of packs) {
+    const result = runRulePackTests(pack)
+    console.log(`${pack.ref.pack}@${pack.ref.version} (${pack.ref.jurisdiction}): ${result.cases.length} cases`)
+    if (result.cases.length === 0) {
+      console.log('  no test cases')
+    }
+
+    for (const testCase of result.cases) {
+      console.log(`  ${testCase.passed ? 'PASS' : 'FAIL'}  ${testCase.name}`)
+      for (const failure of testCase.failures) {
+        console.log(`        ${failure.ruleId}: expected ${failure.expected}, got ${failure.actual}${failure.message ? ` (${failure.message})` : ''}`)
+      }
+    }
+    failed = failed || !result.passed
+  }
+
+  process.exit(failed ? 1 : 0)
+}
+
+main(process.argv.slice(2))
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest'
+import { compileExpression, compileTemplate, ExpressionError, ExpressionScope } from '../rule-expressions'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function run(source: string, data: any = {}, vars: Record<string, unknown> = {}, registries?: Record<string, Set<string>>): unknown {
+  const scope: ExpressionScope = { data, vars, registries }
+  return compileExpression(source).evaluate(scope)
+}
+
+const submission = {
+  businessNumber: ' 123456789rc0001 ',
+  insuranceCoverage: { amount: 2500000, expiryDate: '2027-03-31' },
+  contractEndDate: '2026-12-31',
+  subcontractors: [
+    { name: 'Northern Build', value: 300000, isIndigenous: true, province: 'ON' },
+    { name: 'Coastal Supply', value: 100000, isIndigenous: false, province: 'BC' },
+    { name: 'Prairie Haul', value: 100000, isIndigenous: true, province: 'MB' }
+  ],
+  certifications: { ccab: true, iso9001: false }
+}
+
+describe('compileExpression', () => {
+  it('reads submission paths, parameters and literals', () => {
+    expect(run('insuranceCoverage.amount', submission)).toBe(2500000)
+    expect(run('$required', submission, { required: 2000000 })).toBe(2000000)
+    expect(run('[1, "two", true, null]')).toEqual([1, 'two', true, null])
+    expect(run("'it\\'s'")).toBe("it's")
+  })
+
+  it('follows operator precedence and parentheses', () => {
+    expect(run('1 + 2 * 3')).toBe(7)
+    expect(run('(1 + 2) * 3')).toBe(9)
+    expect(run('10 % 4 - -1')).toBe(3)
+    expect(run('1 < 2 && 2 < 1 || 3 >= 3')).toBe(true)
+    expect(run('!(1 == 1)')).toBe(false)
+    expect(run('"ON" in ["ON", "QC"]')).toBe(true)
+  })
+
+  it('compares against the pack threshold', () => {
+    const source = 'insuranceCoverage.amount >= $required && date(insuranceCoverage.expiryDate) >= date(contractEndDate)'
+    expect(run(source, submission, { required: 2000000 })).toBe(true)
+    expect(run(source, submission, { required: 5000000 })).toBe(false)
+    expect(run(source, { ...submission, contractEndDate: '2027-06-30' }, { required: 2000000 })).toBe(false)
+  })
+
+  it('makes every comparison with a missing value false', () => {
+    for (const op of ['<', '<=', '>', '>=']) {
+      expect(run(`missing ${op} 5`, submission)).toBe(false)
+      expect(run(`5 ${op} missing`, submission)).toBe(false)
+    }
+    expect(run('insuranceCoverage.deductible.amount', submission)).toBeUndefined()
+    expect(run('missing == null', submission)).toBe(true)
+  })
+
+  it('computes with the list functions', () => {
+    expect(run("sum(where(subcontractors, 'isIndigenous'), 'value') / sum(subcontractors, 'value') * 100", submission)).toBe(80)
+    expect(run("pluck(whereNotIn(subcontractors, 'province', ['ON', 'BC']), 'name')", submission)).toEqual(['Prairie Haul'])
+    expect(run("len(where(subcontractors, 'province', 'BC'))", submission)).toBe(1)
+    expect(run('keys(certifications, true)', submission)).toEqual(['ccab'])
+    expect(run("has(certifications, 'iso9001')", submission)).toBe(true)
+    expect(run("without(['a', 'b', 'c'], ['b'])")).toEqual(['a', 'c'])
+    expect(run('sum(missing)', submission)).toBe(0)
+  })
+
+  it('formats and transforms values', () => {
+    expect(run('upper(trim(businessNumber))', submission)).toBe('123456789RC0001')
+    expect(run("replace('a-b-c', '-', '/')")).toBe('a/b/c')
+    expect(run('round(2.345, 2)')).toBe(2.35)
+    expect(run('fixed(2, 2)')).toBe('2.00')
+    expect(run('min(3, 1, 2) + max(3, 1, 2) + abs(-4)')).toBe(8)
+    expect(run('days(2)')).toBe(2 * DAY_MS)
+    expect(run("if(1 > 2, 'yes', 'no')")).toBe('no')
+    expect(run('tier(500000, [[100000, 2000000], [1000000, 5000000]], 10000000)')).toBe(5000000)
+    expect(run('tier(50000000, [[100000, 2000000], [1000000, 5000000]], 10000000)')).toBe(10000000)
+    expect(run("rank('Gold', ['bronze', 'silver', 'gold'])")).toBe(2)
+    expect(run("matches(businessNumber, '^\\\\d{9}RC\\\\d{4}$')", { businessNumber: '123456789RC0001' })).toBe(true)
+  })
+
+  it('looks values up in the registries it is given', () => {
+    const registries = { indigenousBusinesses: new Set(['CCAB-2024-1234']) }
+    expect(run("inRegistry('indigenousBusinesses', cert)", { cert: 'CCAB-2024-1234' }, {}, registries)).toBe(true)
+    expect(run("inRegistry('indigenousBusinesses', cert)", { cert: 'CCAB-0000' }, {}, registries)).toBe(false)
+    expect(run("inRegistry('indigenousBusinesses', cert)", { cert: 'CCAB-2024-1234' })).toBe(false)
+  })
+
+  it('never reaches a prototype through a path', () => {
+    expect(run('constructor', submission)).toBeUndefined()
+    expect(run('subcontractors.constructor', submission)).toBeUndefined()
+    expect(run('__proto__.polluted', submission)).toBeUndefined()
+    expect(run('$toString', submission)).toBeUndefined()
+  })
+})
+
+describe('compileExpression with bad input', () => {
+  it.each([
+    ['', 'Expression is empty'],
+    ['   ', 'Expression is empty'],
+    ['1 +', 'Unexpected end of expression'],
+    ['(1 + 2', 'Expected ")"'],
+    ['[1, 2', 'Expected "]"'],
+    ['1 2', 'Unexpected "2"'],
+    ['"open', 'Unterminated string'],
+    ['a.', 'Expected a property name after "."'],
+    ['a.1', 'Expected a property name after "."'],
+    ['a = 1', 'Unexpected "="'],
+    ['a; b', 'Unexpected ";"'],
+    ['eval("1")', 'Unknown function eval()'],
+    ["matches(name, '(')", 'Invalid pattern ('],
+    [`matches(name, '${'a'.repeat(201)}')`, 'Pattern is too long']
+  ])('rejects %j', (source, message) => {
+    expect(() => compileExpression(source)).toThrow(ExpressionError)
+    expect(() => compileExpression(source)).toThrow(message)
+  })
+
+  it.each(['constructor', 'toString', 'valueOf', 'hasOwnProperty', '__proto__', '__defineGetter__'])(
+    'rejects %s() as an unknown function',
+    name => {
+      expect(() => compileExpression(`${name}(1)`)).toThrow(`Unknown function ${name}()`)
+    }
+  )
+
+  it('rejects a non-string source', () => {
+    expect(() => compileExpression(undefined as any)).toThrow('Expression is empty')
+    expect(() => compileExpression(42 as any)).toThrow('Expression is empty')
+  })
+
+  it('rejects an overlong pattern that only arrives at evaluation', () => {
+    const expression = compileExpression('matches(name, $pattern)')
+    expect(() => expression.evaluate({ data: { name: 'x' }, vars: { pattern: 'a'.repeat(201) } })).toThrow('Pattern is too long')
+  })
+})
+
+describe('compileTemplate', () => {
+  it('fills placeholders and leaves missing values empty', () => {
+    const template = compileTemplate('Coverage {{ insuranceCoverage.amount }} of {{ $required }}{{ missing }}.')
+    expect(template({ data: submission, vars: { required: 2000000 } })).toBe('Coverage 2500000 of 2000000.')
+  })
+
+  it('rejects a placeholder that does not parse', () => {
+    expect(() => compileTemplate('Bad {{ 1 + }}')).toThrow(ExpressionError)
+    expect(() => compileTemplate('Bad {{ valueOf() }}')).toThrow('Unknown function valueOf()')
+  })
+})
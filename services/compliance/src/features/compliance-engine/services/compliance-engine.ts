@@ -2,24 +2,40 @@
  * Automated Compliance Engine
  * Ensures RFQ submissions meet all government requirements
  * Validates Indigenous business certifications and documentation
+ * Rules come from versioned rule packs per jurisdiction (see rule-packs.ts)
  */
 
 import { supabase } from '@/lib/supabase/client'
 
 import { logger } from '@/lib/monitoring/logger';
+import { BUNDLED_RULE_PACKS } from '../rule-packs'
+import {
+  compileRulePack,
+  isCompiledRulePack,
+  resolveRules,
+  selectRulePacks,
+  CompiledRulePack,
+  Jurisdiction,
+  RuleContext,
+  RulePackError,
+  RulePackRef
+} from './rule-packs'
+
 export interface ComplianceRule {
   id: string
   name: string
   category: 'documentation' | 'certification' | 'financial' | 'technical' | 'indigenous'
   description: string
   severity: 'critical' | 'major' | 'minor' | 'warning'
-  validator: (data: unknown) => ValidationResult
-  autoFix?: (data: unknown) => any
+  validator: (data: unknown, context?: RuleContext) => ValidationResult
+  autoFix?: (data: unknown, context?: RuleContext) => any
   references: string[]
+  pack?: RulePackRef
 }
 
 export interface ValidationResult {
   passed: boolean
+  skipped?: boolean // The rule does not apply to this submission
   message?: string
   details?: string[]
   suggestedFix?: string
@@ -33,6 +49,7 @@ export interface ComplianceReport {
   warnings: ComplianceIssue[]
   suggestions: ComplianceSuggestion[]
   indigenousRequirements: IndigenousCompliance
+  rulePacks: RulePackRef[] // Pack versions the submission was checked against
   timestamp: Date
 }
 
@@ -41,6 +58,8 @@ export interface ComplianceIssue {
   ruleName: string
   severity: string
   message: string
+  details?: string[]
+  rulePack?: RulePackRef // The pack version that produced the finding
   section?: string
   lineNumber?: number
   autoFixAvailable: boolean
@@ -62,340 +81,94 @@ export interface IndigenousCompliance {
   subcontractingCompliant: boolean
 }
 
+export interface ValidationOptions {
+  asOf?: Date // Which pack versions apply; defaults to now
+  jurisdictions?: Array<Pick<Jurisdiction, 'level' | 'code'>> // Defaults to those of the submission
+}
+
 export class ComplianceEngine {
-  private rules: Map<string, ComplianceRule> = new Map()
+  private rulePacks: CompiledRulePack[] = []
   private indigenousRegistry: Set<string> = new Set()
+  private configuredPacks: Promise<unknown>
   
-  constructor() {
-    this.initializeRules()
+  constructor(rulePacks: unknown[] = BUNDLED_RULE_PACKS) {
+    this.initializeRules(rulePacks)
+    this.configuredPacks = this.loadConfiguredPacks()
+      .catch(error => logger.error('Failed to load configured rule packs:', error))
     this.loadIndigenousRegistry()
   }
 
   /**
-   * Initialize compliance rules based on government requirements
+   * Compile the rule packs government requirements are expressed in
    */
-  private initializeRules() {
-    // Documentation Rules
-    this.addRule({
-      id: 'DOC-001',
-      name: 'Mandatory Business Registration',
-      category: 'documentation',
-      description: 'Business must provide valid registration documents',
-      severity: 'critical',
-      validator: (data) => {
-        if (!data.businessRegistration || !data.businessNumber) {
-          return {
-            passed: false,
-            message: 'Missing business registration documentation',
-            suggestedFix: 'Upload your business registration certificate and provide your BN/BN9 number'
-          }
-        }
-        
-        // Validate BN format (9 digits + optional 4-digit program identifier)
-        const bnRegex = /^\d{9}([A-Z]{2}\d{4})?$/
-        if (!bnRegex.test(data.businessNumber)) {
-          return {
-            passed: false,
-            message: 'Invalid Business Number format',
-            details: ['Business Number must be 9 digits, optionally followed by program identifier (e.g., 123456789RC0001)']
-          }
-        }
-        
-        return { passed: true }
-      },
-      references: ['PSPC Supply Manual 3.10.5', 'CRA Business Number Requirements']
-    })
-
-    this.addRule({
-      id: 'DOC-002',
-      name: 'Insurance Coverage',
-      category: 'documentation',
-      description: 'Adequate insurance coverage for contract value',
-      severity: 'critical',
-      validator: (data) => {
-        const requiredCoverage = this.calculateRequiredInsurance(data.contractValue)
-        
-        if (!data.insuranceCoverage) {
-          return {
-            passed: false,
-            message: 'Insurance documentation not provided',
-            suggestedFix: `Upload certificate of insurance showing minimum ${requiredCoverage} coverage`
-          }
-        }
-        
-        if (data.insuranceCoverage.amount < requiredCoverage) {
-          return {
-            passed: false,
-            message: `Insufficient insurance coverage`,
-            details: [
-              `Required: ${this.formatCurrency(requiredCoverage)}`,
-              `Current: ${this.formatCurrency(data.insuranceCoverage.amount)}`
-            ]
-          }
-        }
-        
-        // Check expiry
-        const expiryDate = new Date(data.insuranceCoverage.expiryDate)
-        const contractEnd = new Date(data.contractEndDate)
-        if (expiryDate < contractEnd) {
-          return {
-            passed: false,
-            message: 'Insurance expires before contract completion',
-            suggestedFix: 'Obtain insurance coverage that extends beyond contract end date'
-          }
-        }
-        
-        return { passed: true }
-      },
-      references: ['TB Contracting Policy 12.3.1']
-    })
+  private initializeRules(rulePacks: unknown[]) {
+    for (const pack of rulePacks) {
+      this.addRulePack(pack)
+    }
+  }
 
-    // Indigenous Certification Rules
-    this.addRule({
-      id: 'IND-001',
-      name: 'Indigenous Business Certification',
-      category: 'indigenous',
-      description: 'Valid certification as Indigenous business (51% ownership)',
-      severity: 'critical',
-      validator: (data) => {
-        if (!data.indigenousCertification) {
-          return {
-            passed: false,
-            message: 'Indigenous business certification required',
-            details: [
-              'Must be certified by CCAB, CAMSC, or recognized Indigenous organization',
-              'Business must be at least 51% Indigenous owned and controlled'
-            ],
-            documentationLink: 'https://www.ccab.com/certification'
-          }
-        }
-        
-        // Verify certification is current
-        const certDate = new Date(data.indigenousCertification.expiryDate)
-        if (certDate < new Date()) {
-          return {
-            passed: false,
-            message: 'Indigenous certification has expired',
-            suggestedFix: 'Renew certification with your certifying body'
-          }
-        }
-        
-        // Verify against registry
-        if (!this.indigenousRegistry.has(data.indigenousCertification.number)) {
-          return {
-            passed: false,
-            message: 'Certification number not found in registry',
-            suggestedFix: 'Ensure certification is registered with recognized body'
-          }
-        }
-        
-        return { passed: true }
-      },
-      references: ['Indigenous Procurement Policy', 'CCAB Certification Standards']
-    })
+  /**
+   * Add a pack, or a new version of one, without a deploy. Throws
+   * RulePackError if the pack is invalid or that version is already loaded
+   */
+  addRulePack(source: unknown): CompiledRulePack {
+    const pack = isCompiledRulePack(source) ? source : compileRulePack(source)
+    if (this.hasRulePack(pack.ref)) {
+      throw new RulePackError(`Rule pack ${pack.ref.pack}@${pack.ref.version} is already loaded for ${pack.ref.jurisdiction}`)
+    }
 
-    this.addRule({
-      id: 'IND-002',
-      name: 'Indigenous Employment Commitment',
-      category: 'indigenous',
-      description: 'Commitment to Indigenous employment targets',
-      severity: 'major',
-      validator: (data) => {
-        if (!data.employmentPlan) {
-          return {
-            passed: false,
-            message: 'Indigenous employment plan not provided',
-            suggestedFix: 'Include plan showing how you will achieve Indigenous employment targets'
-          }
-        }
-        
-        const currentPercentage = (data.indigenousEmployees / data.totalEmployees) * 100
-        const targetPercentage = data.employmentPlan.targetPercentage || 25
-        
-        if (currentPercentage < 15 && !data.employmentPlan.growthPlan) {
-          return {
-            passed: false,
-            message: 'Low Indigenous employment without growth plan',
-            details: [
-              `Current: ${currentPercentage.toFixed(1)}% Indigenous employees`,
-              `Expected: Clear plan to reach ${targetPercentage}%`
-            ]
-          }
-        }
-        
-        return { passed: true }
-      },
-      references: ['Indigenous Services Canada Employment Guidelines']
-    })
+    this.rulePacks.push(pack)
+    return pack
+  }
 
-    // Financial Rules
-    this.addRule({
-      id: 'FIN-001',
-      name: 'Financial Capacity',
-      category: 'financial',
-      description: 'Demonstrated financial capacity for contract size',
-      severity: 'critical',
-      validator: (data) => {
-        if (!data.financialStatements) {
-          return {
-            passed: false,
-            message: 'Financial statements required for contracts over $100K',
-            suggestedFix: 'Provide audited financial statements for past 2 years'
-          }
-        }
-        
-        // Check working capital ratio
-        const workingCapital = data.financialStatements.currentAssets - data.financialStatements.currentLiabilities
-        const monthlyContractValue = data.contractValue / data.contractDuration
-        const requiredWorkingCapital = monthlyContractValue * 3 // 3 months coverage
-        
-        if (workingCapital < requiredWorkingCapital) {
-          return {
-            passed: false,
-            message: 'Insufficient working capital for contract size',
-            details: [
-              `Available: ${this.formatCurrency(workingCapital)}`,
-              `Required: ${this.formatCurrency(requiredWorkingCapital)}`,
-              'Consider partnering or obtaining credit facility'
-            ]
-          }
-        }
-        
-        return { passed: true }
-      },
-      references: ['PSPC Financial Capacity Guidelines']
-    })
+  /**
+   * Add the packs this deployment is configured with (COMPLIANCE_RULE_PACK_DIR,
+   * COMPLIANCE_RULE_PACK_URL). The constructor starts this; calling it again
+   * picks up versions published since, skipping those already loaded.
+   * Returns the packs added
+   */
+  async loadConfiguredPacks(): Promise<RulePackRef[]> {
+    if (!process.env.COMPLIANCE_RULE_PACK_DIR && !process.env.COMPLIANCE_RULE_PACK_URL) {
+      return []
+    }
 
-    // Technical Rules
-    this.addRule({
-      id: 'TECH-001',
-      name: 'Technical Specifications Compliance',
-      category: 'technical',
-      description: 'Proposal meets all mandatory technical requirements',
-      severity: 'critical',
-      validator: (data) => {
-        if (!data.technicalProposal) {
-          return {
-            passed: false,
-            message: 'Technical proposal missing',
-            suggestedFix: 'Complete all sections of technical requirements'
-          }
-        }
-        
-        const mandatoryReqs = data.rfq.mandatoryRequirements || []
-        const missing = []
-        
-        for (const req of mandatoryReqs) {
-          if (!data.technicalProposal.responses[req.id]) {
-            missing.push(req.title)
-          }
-        }
-        
-        if (missing.length > 0) {
-          return {
-            passed: false,
-            message: `Missing ${missing.length} mandatory requirements`,
-            details: missing,
-            suggestedFix: 'Address all mandatory requirements marked with "M" in RFQ'
-          }
-        }
-        
-        return { passed: true }
-      },
-      references: ['RFQ Technical Evaluation Guide']
-    })
+    // Loaded on demand: the loader reads the filesystem, which only the server has
+    const { loadConfiguredRulePacks } = await import('./rule-pack-loader')
+    const added: RulePackRef[] = []
+    for (const pack of await loadConfiguredRulePacks()) {
+      if (!this.hasRulePack(pack.ref)) {
+        added.push(this.addRulePack(pack).ref)
+      }
+    }
 
-    // Security Clearance
-    this.addRule({
-      id: 'SEC-001',
-      name: 'Security Clearance Requirements',
-      category: 'documentation',
-      description: 'Required security clearances for sensitive contracts',
-      severity: 'critical',
-      validator: (data) => {
-        if (data.rfq.securityLevel === 'none') {
-          return { passed: true }
-        }
-        
-        if (!data.securityClearances) {
-          return {
-            passed: false,
-            message: `Security clearance required: ${data.rfq.securityLevel}`,
-            suggestedFix: 'Apply for required clearance through PSPC Contract Security Program',
-            documentationLink: 'https://www.tpsgc-pwgsc.gc.ca/esc-src/index-eng.html'
-          }
-        }
-        
-        // Check clearance levels match
-        const requiredLevel = this.getSecurityLevelNumber(data.rfq.securityLevel)
-        const actualLevel = this.getSecurityLevelNumber(data.securityClearances.level)
-        
-        if (actualLevel < requiredLevel) {
-          return {
-            passed: false,
-            message: 'Insufficient security clearance level',
-            details: [
-              `Required: ${data.rfq.securityLevel}`,
-              `Current: ${data.securityClearances.level}`
-            ]
-          }
-        }
-        
-        return { passed: true }
-      },
-      references: ['Industrial Security Manual']
-    })
+    if (added.length > 0) {
+      logger.info('Configured rule packs loaded:', added.map(ref => `${ref.jurisdiction}/${ref.pack}@${ref.version}`))
+    }
+    return added
+  }
 
-    // Subcontracting
-    this.addRule({
-      id: 'SUB-001',
-      name: 'Indigenous Subcontracting',
-      category: 'indigenous',
-      description: 'Subcontracting to Indigenous businesses',
-      severity: 'major',
-      validator: (data) => {
-        if (!data.subcontractors || data.subcontractors.length === 0) {
-          return { passed: true } // No subcontracting
-        }
-        
-        const totalSubcontractValue = data.subcontractors.reduce((sum: number, sub: any) => sum + sub.value, 0)
-        const indigenousSubcontractValue = data.subcontractors
-          .filter((sub: unknown) => sub.isIndigenous)
-          .reduce((sum: number, sub: any) => sum + sub.value, 0)
-        
-        const indigenousPercentage = (indigenousSubcontractValue / totalSubcontractValue) * 100
-        
-        if (indigenousPercentage < 33) {
-          return {
-            passed: false,
-            message: 'Insufficient Indigenous subcontracting',
-            details: [
-              `Current: ${indigenousPercentage.toFixed(1)}% to Indigenous businesses`,
-              'Target: Minimum 33% of subcontract value'
-            ],
-            suggestedFix: 'Partner with Indigenous businesses from the platform directory'
-          }
-        }
-        
-        return { passed: true }
-      },
-      references: ['Indigenous Procurement Transformation']
-    })
+  getRulePacks(): RulePackRef[] {
+    return this.rulePacks.map(pack => pack.ref)
   }
 
   /**
    * Validate a complete RFQ submission
    */
-  async validateSubmission(submission: unknown): Promise<ComplianceReport> {
+  async validateSubmission(submission: any, options: ValidationOptions = {}): Promise<ComplianceReport> {
+    await this.configuredPacks
     const results: Map<string, ValidationResult> = new Map()
     const criticalIssues: ComplianceIssue[] = []
     const warnings: ComplianceIssue[] = []
     const suggestions: ComplianceSuggestion[] = []
+    const context = this.ruleContext(options.asOf)
+    const jurisdictions = options.jurisdictions || this.jurisdictionsFor(submission)
+    const selectedPacks = selectRulePacks(this.rulePacks, jurisdictions, context.asOf)
+    const rules = resolveRules(selectedPacks)
     
     // Run all rules
-    for (const [ruleId, rule] of this.rules) {
+    for (const [ruleId, rule] of rules) {
       try {
-        const result = rule.validator(submission)
+        const result = rule.validator(submission, context)
         results.set(ruleId, result)
         
         if (!result.passed) {
@@ -404,6 +177,8 @@ export class ComplianceEngine {
             ruleName: rule.name,
             severity: rule.severity,
             message: result.message || 'Validation failed',
+            details: result.details,
+            rulePack: rule.pack,
             autoFixAvailable: !!rule.autoFix
           }
           
@@ -422,9 +197,9 @@ export class ComplianceEngine {
     suggestions.push(...this.generateSuggestions(submission, results))
     
     // Calculate overall score
-    const totalRules = this.rules.size
+    const totalRules = rules.size
     const passedRules = Array.from(results.values()).filter(r => r.passed).length
-    const overallScore = (passedRules / totalRules) * 100
+    const overallScore = totalRules > 0 ? (passedRules / totalRules) * 100 : 0
     
     // Check Indigenous requirements
     const indigenousCompliance = await this.checkIndigenousCompliance(submission)
@@ -436,6 +211,7 @@ export class ComplianceEngine {
       warnings,
       suggestions,
       indigenousRequirements: indigenousCompliance,
+      rulePacks: selectedPacks.map(pack => pack.ref),
       timestamp: new Date()
     }
   }
@@ -443,15 +219,21 @@ export class ComplianceEngine {
   /**
    * Auto-fix common compliance issues
    */
-  async autoFixIssues(submission: any, issues: ComplianceIssue[]): Promise<unknown> {
+  async autoFixIssues(submission: any, issues: ComplianceIssue[], asOf?: Date): Promise<unknown> {
+    await this.configuredPacks
     let fixedSubmission = { ...submission }
+    const context = this.ruleContext(asOf)
     
     for (const issue of issues) {
       if (issue.autoFixAvailable) {
-        const rule = this.rules.get(issue.ruleId)
+        // The fix comes from the same pack version that reported the issue
+        const rule = this.rulePacks
+          .find(pack => issue.rulePack && pack.ref.pack === issue.rulePack.pack &&
+            pack.ref.jurisdiction === issue.rulePack.jurisdiction && pack.ref.version === issue.rulePack.version)
+          ?.rules.find(candidate => candidate.id === issue.ruleId)
         if (rule && rule.autoFix) {
           try {
-            fixedSubmission = await rule.autoFix(fixedSubmission)
+            fixedSubmission = await rule.autoFix(fixedSubmission, context)
           } catch (error) {
             logger.error(`Auto-fix failed for ${issue.ruleId}:`, error)
           }
@@ -595,8 +377,37 @@ export class ComplianceEngine {
   }
 
   // Helper methods
-  private addRule(rule: ComplianceRule) {
-    this.rules.set(rule.id, rule)
+  private hasRulePack(ref: RulePackRef): boolean {
+    return this.rulePacks.some(loaded =>
+      loaded.ref.pack === ref.pack &&
+      loaded.ref.jurisdiction === ref.jurisdiction &&
+      loaded.ref.version === ref.version
+    )
+  }
+
+  private ruleContext(asOf: Date = new Date()): RuleContext {
+    return {
+      asOf,
+      registries: { indigenousBusinesses: this.indigenousRegistry }
+    }
+  }
+
+  /**
+   * Federal rules always apply; provincial and First Nation packs apply
+   * where the RFQ says the work is
+   */
+  private jurisdictionsFor(submission: any): Array<Pick<Jurisdiction, 'level' | 'code'>> {
+    const jurisdictions: Array<Pick<Jurisdiction, 'level' | 'code'>> = [{ level: 'federal', code: 'CA' }]
+    const province = submission?.rfq?.province || submission?.province
+    const firstNation = submission?.rfq?.firstNation || submission?.firstNation
+
+    if (province) {
+      jurisdictions.push({ level: 'provincial', code: String(province) })
+    }
+    if (firstNation) {
+      jurisdictions.push({ level: 'first_nation', code: String(firstNation) })
+    }
+    return jurisdictions
   }
   
   private async loadIndigenousRegistry() {
@@ -628,28 +439,4 @@ export class ComplianceEngine {
     
     return (indigenousValue / totalValue) >= 0.33
   }
-  
-  private calculateRequiredInsurance(contractValue: number): number {
-    if (contractValue < 100000) return 2000000
-    if (contractValue < 1000000) return 5000000
-    return 10000000
-  }
-  
-  private formatCurrency(amount: number): string {
-    return new Intl.NumberFormat('en-CA', {
-      style: 'currency',
-      currency: 'CAD'
-    }).format(amount)
-  }
-  
-  private getSecurityLevelNumber(level: string): number {
-    const levels: Record<string, number> = {
-      'none': 0,
-      'reliability': 1,
-      'confidential': 2,
-      'secret': 3,
-      'top-secret': 4
-    }
-    return levels[level.toLowerCase()] || 0
-  }
 }
\ No newline at end of file
@@ -0,0 +1,376 @@
+/**
+ * Rule Pack Expressions
+ * The small expression language rule packs use for conditions, computed
+ * values and message templates. Expressions are parsed once when a pack
+ * loads and can only read the submission, pack parameters and the
+ * whitelisted functions below: no assignment, loops or host access
+ *
+ *   insuranceCoverage.amount >= $required && date(insuranceCoverage.expiryDate) >= date(contractEndDate)
+ *   sum(where(subcontractors, 'isIndigenous'), 'value') / sum(subcontractors, 'value') * 100
+ *   "Required: {{ currency($required) }}"
+ */
+
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly source?: string) {
+    super(source ? `${message} in "${source}"` : message)
+    this.name = 'ExpressionError'
+  }
+}
+
+type Node =
+  | { type: 'literal'; value: unknown }
+  | { type: 'path'; variable: boolean; name: string; path: string[] }
+  | { type: 'array'; items: Node[] }
+  | { type: 'unary'; op: '!' | '-'; arg: Node }
+  | { type: 'binary'; op: string; left: Node; right: Node }
+  | { type: 'call'; name: string; args: Node[] }
+
+export interface ExpressionScope {
+  data: any // The submission
+  vars: Record<string, unknown> // Pack parameters, rule `let` values and $now
+  registries?: Record<string, Set<string>>
+}
+
+export interface CompiledExpression {
+  source: string
+  evaluate(scope: ExpressionScope): unknown
+}
+
+type Token = { kind: 'number' | 'string' | 'ident' | 'var' | 'op'; value: string }
+
+const OPERATORS = ['||', '&&', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', '[', ']', ',', '.']
+
+// Regular expressions from packs run against submitted text
+const MAX_PATTERN_LENGTH = 200
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    if (/\d/.test(char)) {
+      const match = /^\d+(\.\d+)?/.exec(source.slice(i))!
+      tokens.push({ kind: 'number', value: match[0] })
+      i += match[0].length
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      let value = ''
+      let j = i + 1
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          j++
+        }
+        value += source[j]
+        j++
+      }
+      if (j >= source.length) {
+        throw new ExpressionError('Unterminated string', source)
+      }
+      tokens.push({ kind: 'string', value })
+      i = j + 1
+      continue
+    }
+
+    if (char === '$' || /[A-Za-z_]/.test(char)) {
+      const match = /^\$?[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))
+      if (!match) {
+        throw new ExpressionError(`Unexpected "${char}"`, source)
+      }
+      tokens.push({ kind: match[0].startsWith('$') ? 'var' : 'ident', value: match[0].replace(/^\$/, '') })
+      i += match[0].length
+      continue
+    }
+
+    const op = OPERATORS.find(candidate => source.startsWith(candidate, i))
+    if (!op) {
+      throw new ExpressionError(`Unexpected "${char}"`, source)
+    }
+    tokens.push({ kind: 'op', value: op })
+    i += op.length
+  }
+
+  return tokens
+}
+
+function parse(source: string): Node {
+  const tokens = tokenize(source)
+  let position = 0
+
+  const peek = () => tokens[position]
+  const isOp = (...ops: string[]) => peek()?.kind === 'op' && ops.includes(peek().value)
+  const isWord = (word: string) => peek()?.kind === 'ident' && peek().value === word
+  const expect = (op: string) => {
+    if (!isOp(op)) {
+      throw new ExpressionError(`Expected "${op}"`, source)
+    }
+    position++
+  }
+
+  const binary = (next: () => Node, ops: string[], words: string[] = []): (() => Node) => () => {
+    let left = next()
+    while (isOp(...ops) || words.some(isWord)) {
+      const op = tokens[position++].value
+      left = { type: 'binary', op, left, right: next() }
+    }
+    return left
+  }
+
+  const primary = (): Node => {
+    const token = tokens[position++]
+    if (!token) {
+      throw new ExpressionError('Unexpected end of expression', source)
+    }
+
+    if (token.kind === 'number') return { type: 'literal', value: Number(token.value) }
+    if (token.kind === 'string') return { type: 'literal', value: token.value }
+
+    if (token.kind === 'op' && token.value === '(') {
+      const inner = or()
+      expect(')')
+      return inner
+    }
+
+    if (token.kind === 'op' && token.value === '[') {
+      const items: Node[] = []
+      if (!isOp(']')) {
+        do {
+          items.push(or())
+        } while (isOp(',') && ++position)
+      }
+      expect(']')
+      return { type: 'array', items }
+    }
+
+    if (token.kind === 'ident' || token.kind === 'var') {
+      if (token.kind === 'ident' && ['true', 'false', 'null'].includes(token.value)) {
+        return { type: 'literal', value: token.value === 'null' ? null : token.value === 'true' }
+      }
+
+      if (token.kind === 'ident' && isOp('(')) {
+        if (!isFunction(token.value)) {
+          throw new ExpressionError(`Unknown function ${token.value}()`, source)
+        }
+        position++
+        const args: Node[] = []
+        if (!isOp(')')) {
+          do {
+            args.push(or())
+          } while (isOp(',') && ++position)
+        }
+        expect(')')
+        checkLiteralPattern(token.value, args, source)
+        return { type: 'call', name: token.value, args }
+      }
+
+      const path: string[] = []
+      while (isOp('.')) {
+        position++
+        const segment = tokens[position++]
+        if (!segment || segment.kind !== 'ident') {
+          throw new ExpressionError('Expected a property name after "."', source)
+        }
+        path.push(segment.value)
+      }
+      return { type: 'path', variable: token.kind === 'var', name: token.value, path }
+    }
+
+    throw new ExpressionError(`Unexpected "${token.value}"`, source)
+  }
+
+  const unary = (): Node => {
+    if (isOp('!', '-')) {
+      const op = tokens[position++].value as '!' | '-'
+      return { type: 'unary', op, arg: unary() }
+    }
+    return primary()
+  }
+
+  const multiplicative = binary(unary, ['*', '/', '%'])
+  const additive = binary(multiplicative, ['+', '-'])
+  const comparison = binary(additive, ['<', '<=', '>', '>='], ['in'])
+  const equality = binary(comparison, ['==', '!='])
+  const and = binary(equality, ['&&'])
+  const or = binary(and, ['||'])
+
+  const root = or()
+  if (position < tokens.length) {
+    throw new ExpressionError(`Unexpected "${tokens[position].value}"`, source)
+  }
+  return root
+}
+
+function checkLiteralPattern(name: string, args: Node[], source: string) {
+  if (name !== 'matches' || args[1]?.type !== 'literal') return
+  const pattern = String((args[1] as any).value)
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new ExpressionError('Pattern is too long', source)
+  }
+  try {
+    new RegExp(pattern)
+  } catch {
+    throw new ExpressionError(`Invalid pattern ${pattern}`, source)
+  }
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value
+  if (value === null || value === undefined || value === '') return NaN
+  return Number(value)
+}
+
+function list(value: unknown): any[] {
+  return Array.isArray(value) ? value : []
+}
+
+function field(item: any, name?: unknown): any {
+  return name === undefined ? item : item?.[String(name)]
+}
+
+const FUNCTIONS: Record<string, (scope: ExpressionScope, ...args: any[]) => unknown> = {
+  exists: (_, value) => value !== undefined && value !== null && value !== '',
+  len: (_, value) => (Array.isArray(value) || typeof value === 'string' ? value.length : 0),
+  sum: (_, items, name) => list(items).reduce((total, item) => total + (toNumber(field(item, name)) || 0), 0),
+  where: (_, items, name, value) => list(items).filter(item =>
+    value === undefined ? Boolean(field(item, name)) : field(item, name) === value
+  ),
+  whereNotIn: (_, items, name, values) => list(items).filter(item => !list(values).includes(field(item, name))),
+  pluck: (_, items, name) => list(items).map(item => field(item, name)),
+  // keys(obj, true) leaves out keys whose values are empty or false
+  keys: (_, value, onlyTruthy) => (value && typeof value === 'object'
+    ? Object.keys(value).filter(key => !onlyTruthy || Boolean((value as any)[key]))
+    : []),
+  has: (_, value, key) => Boolean(value && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, String(key))),
+  without: (_, items, remove) => list(items).filter(item => !list(remove).includes(item)),
+  matches: (_, value, pattern) => {
+    if (typeof value !== 'string' && typeof value !== 'number') return false
+    if (String(pattern).length > MAX_PATTERN_LENGTH) throw new ExpressionError('Pattern is too long')
+    return new RegExp(String(pattern)).test(String(value))
+  },
+  date: (_, value) => (value === null || value === undefined || value === '' ? NaN : new Date(value as any).getTime()),
+  days: (_, count) => toNumber(count) * DAY_MS,
+  min: (_, ...values) => Math.min(...values.map(toNumber)),
+  max: (_, ...values) => Math.max(...values.map(toNumber)),
+  abs: (_, value) => Math.abs(toNumber(value)),
+  round: (_, value, places = 0) => {
+    const factor = 10 ** toNumber(places)
+    return Math.round(toNumber(value) * factor) / factor
+  },
+  fixed: (_, value, places = 0) => toNumber(value).toFixed(toNumber(places)),
+  currency: (_, value) => new Intl.NumberFormat('en-CA', { style: 'currency', currency: 'CAD' }).format(toNumber(value)),
+  lower: (_, value) => String(value ?? '').toLowerCase(),
+  upper: (_, value) => String(value ?? '').toUpperCase(),
+  trim: (_, value) => String(value ?? '').trim(),
+  replace: (_, value, find, replacement) => String(value ?? '').split(String(find)).join(String(replacement)),
+  // First band the value falls under: tier(x, [[100000, 2000000], [1000000, 5000000]], 10000000)
+  tier: (_, value, bands, otherwise) => {
+    const band = list(bands).find(entry => Array.isArray(entry) && toNumber(value) < toNumber(entry[0]))
+    return band ? band[1] : otherwise
+  },
+  // Position of a value in an ordered scale, ignoring case; -1 if absent
+  rank: (_, value, scale) => list(scale).findIndex(entry => String(entry).toLowerCase() === String(value ?? '').toLowerCase()),
+  if: (_, condition, then, otherwise) => (condition ? then : otherwise),
+  inRegistry: (scope, name, value) => Boolean(scope.registries?.[String(name)]?.has(String(value)))
+}
+
+// Only the table's own entries: not constructor, toString and the like
+function isFunction(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(FUNCTIONS, name)
+}
+
+// Only own properties, so a path can never reach a prototype
+function property(value: any, name: string): unknown {
+  if (value === null || value === undefined || typeof value !== 'object') return undefined
+  return Object.prototype.hasOwnProperty.call(value, name) ? value[name] : undefined
+}
+
+function resolvePath(node: Extract<Node, { type: 'path' }>, scope: ExpressionScope): unknown {
+  let value = property(node.variable ? scope.vars : scope.data, node.name)
+  for (const segment of node.path) {
+    value = property(value, segment)
+  }
+  return value
+}
+
+function evaluate(node: Node, scope: ExpressionScope): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value
+    case 'path':
+      return resolvePath(node, scope)
+    case 'array':
+      return node.items.map(item => evaluate(item, scope))
+    case 'unary': {
+      const value = evaluate(node.arg, scope)
+      return node.op === '!' ? !value : -toNumber(value)
+    }
+    case 'call':
+      if (!isFunction(node.name)) {
+        throw new ExpressionError(`Unknown function ${node.name}()`)
+      }
+      return FUNCTIONS[node.name](scope, ...node.args.map(arg => evaluate(arg, scope)))
+    case 'binary': {
+      if (node.op === '&&') return Boolean(evaluate(node.left, scope)) && Boolean(evaluate(node.right, scope))
+      if (node.op === '||') return Boolean(evaluate(node.left, scope)) || Boolean(evaluate(node.right, scope))
+
+      const left = evaluate(node.left, scope)
+      const right = evaluate(node.right, scope)
+      switch (node.op) {
+        case '==': return left === right || (left == null && right == null)
+        case '!=': return !(left === right || (left == null && right == null))
+        case 'in': return list(right).includes(left)
+        case '<': return compare(left, right) < 0
+        case '<=': return compare(left, right) <= 0
+        case '>': return compare(left, right) > 0
+        case '>=': return compare(left, right) >= 0
+        case '+': return toNumber(left) + toNumber(right)
+        case '-': return toNumber(left) - toNumber(right)
+        case '*': return toNumber(left) * toNumber(right)
+        case '/': return toNumber(left) / toNumber(right)
+        case '%': return toNumber(left) % toNumber(right)
+      }
+    }
+  }
+  throw new ExpressionError(`Cannot evaluate ${(node as any).type}`)
+}
+
+// NaN when either side is missing, so every comparison with it is false
+function compare(left: unknown, right: unknown): number {
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left < right ? -1 : left > right ? 1 : 0
+  }
+  return toNumber(left) - toNumber(right)
+}
+
+export function compileExpression(source: string): CompiledExpression {
+  if (typeof source !== 'string' || source.trim() === '') {
+    throw new ExpressionError('Expression is empty')
+  }
+  const ast = parse(source)
+  return {
+    source,
+    evaluate: (scope: ExpressionScope) => evaluate(ast, scope)
+  }
+}
+
+/**
+ * A message with {{ expression }} placeholders
+ */
+export function compileTemplate(template: string): (scope: ExpressionScope) => string {
+  const parts = template.split(/\{\{([\s\S]*?)\}\}/)
+  const compiled = parts.map((part, index) => (index % 2 === 1 ? compileExpression(part.trim()) : part))
+
+  return (scope: ExpressionScope) => compiled
+    .map(part => (typeof part === 'string' ? part : String(part.evaluate(scope) ?? '')))
+    .join('')
+}
@@ -0,0 +1,75 @@
+/**
+ * Rule Pack Loader
+ * Server-side sources of rule packs beyond the bundled ones: a directory
+ * of pack files (COMPLIANCE_RULE_PACK_DIR) or a policy endpoint
+ * (COMPLIANCE_RULE_PACK_URL), so a jurisdiction's new pack version is picked
+ * up without redeploying the engine
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { logger } from '@/lib/monitoring/logger'
+import { compileRulePack, CompiledRulePack, RulePackError } from './rule-packs'
+
+/**
+ * Every *.json pack under a directory, subdirectories included
+ * (e.g. federal/, provincial/on/, first-nation/<nation>/)
+ */
+export async function loadRulePackDirectory(directory: string): Promise<CompiledRulePack[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true })
+  const packs: CompiledRulePack[] = []
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const location = path.join(directory, entry.name)
+    if (entry.isDirectory()) {
+      packs.push(...await loadRulePackDirectory(location))
+    } else if (entry.name.endsWith('.json')) {
+      try {
+        packs.push(compileRulePack(JSON.parse(await fs.readFile(location, 'utf8'))))
+      } catch (error) {
+        throw new RulePackError(`Could not load ${location}`, [(error as Error).message])
+      }
+    }
+  }
+
+  return packs
+}
+
+/**
+ * Packs published at a URL, either one pack or an array of them
+ */
+export async function fetchRulePacks(url: string): Promise<CompiledRulePack[]> {
+  const response = await fetch(url, { headers: { Accept: 'application/json' } })
+  if (!response.ok) {
+    throw new RulePackError(`Could not fetch rule packs from ${url}`, [`HTTP ${response.status}`])
+  }
+
+  const body = await response.json()
+  return (Array.isArray(body) ? body : [body]).map(compileRulePack)
+}
+
+/**
+ * The packs configured through the environment. A pack that fails to load
+ * is left out and logged rather than taking the engine down
+ */
+export async function loadConfiguredRulePacks(): Promise<CompiledRulePack[]> {
+  const packs: CompiledRulePack[] = []
+
+  if (process.env.COMPLIANCE_RULE_PACK_DIR) {
+    try {
+      packs.push(...await loadRulePackDirectory(process.env.COMPLIANCE_RULE_PACK_DIR))
+    } catch (error) {
+      logger.error('Failed to load rule packs from directory:', error)
+    }
+  }
+
+  if (process.env.COMPLIANCE_RULE_PACK_URL) {
+    try {
+      packs.push(...await fetchRulePacks(process.env.COMPLIANCE_RULE_PACK_URL))
+    } catch (error) {
+      logger.error('Failed to fetch rule packs:', error)
+    }
+  }
+
+  return packs
+}
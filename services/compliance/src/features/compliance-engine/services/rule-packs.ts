@@ -0,0 +1,391 @@
+/**
+ * Compliance Rule Packs
+ * Rules are data, not code: each jurisdiction (federal, a province or an
+ * individual First Nation) publishes versioned packs with effective dates,
+ * and a policy change is a new pack version rather than a deploy. Packs are
+ * validated and their expressions parsed when loaded, so a bad pack is
+ * rejected up front instead of failing mid-validation
+ */
+
+import { z } from 'zod'
+import {
+  compileExpression,
+  compileTemplate,
+  CompiledExpression,
+  ExpressionScope
+} from './rule-expressions'
+import type { ComplianceRule, ValidationResult } from './compliance-engine'
+
+export type JurisdictionLevel = 'federal' | 'provincial' | 'first_nation'
+
+export interface Jurisdiction {
+  level: JurisdictionLevel
+  code: string // CA, a province code (ON, BC) or a First Nation's identifier
+  name?: string
+}
+
+// Which pack version produced a finding
+export interface RulePackRef {
+  pack: string
+  version: string
+  jurisdiction: string
+}
+
+export interface RuleContext {
+  asOf: Date
+  registries: Record<string, Set<string>>
+}
+
+export class RulePackError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message)
+    this.name = 'RulePackError'
+  }
+}
+
+// Federal rules apply first; a province, then a First Nation, can replace
+// a rule by reusing its id
+const LEVEL_ORDER: JurisdictionLevel[] = ['federal', 'provincial', 'first_nation']
+
+const RESERVED_PATH_SEGMENTS = ['__proto__', 'prototype', 'constructor']
+
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'must be an ISO date')
+const identifier = z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'must be a plain identifier')
+
+const checkSchema = z.object({
+  assert: z.string(),
+  message: z.string(),
+  details: z.array(z.string()).optional(),
+  detailsFrom: z.string().optional(), // Expression giving a list of detail lines
+  suggestedFix: z.string().optional(),
+  documentationLink: z.string().url().optional()
+})
+
+const autoFixSchema = z.object({
+  when: z.string().optional(),
+  set: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/, 'must be a property path'),
+  value: z.string()
+})
+
+const ruleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  category: z.enum(['documentation', 'certification', 'financial', 'technical', 'indigenous']),
+  description: z.string(),
+  severity: z.enum(['critical', 'major', 'minor', 'warning']),
+  references: z.array(z.string()).default([]),
+  appliesWhen: z.string().optional(),
+  let: z.record(identifier, z.string()).optional(),
+  checks: z.array(checkSchema).min(1),
+  autoFix: z.array(autoFixSchema).optional()
+})
+
+const testCaseSchema = z.object({
+  name: z.string(),
+  asOf: isoDate.optional(),
+  submission: z.record(z.unknown()).default({}),
+  registries: z.record(z.array(z.string())).optional(),
+  expect: z.record(z.enum(['pass', 'fail', 'skip']))
+})
+
+const rulePackSchema = z.object({
+  pack: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'must be lowercase letters, digits and dashes'),
+  name: z.string().optional(),
+  jurisdiction: z.object({
+    level: z.enum(['federal', 'provincial', 'first_nation']),
+    code: z.string().min(1),
+    name: z.string().optional()
+  }),
+  version: z.string().regex(/^\d+\.\d+\.\d+$/, 'must be major.minor.patch'),
+  effectiveFrom: isoDate,
+  effectiveTo: isoDate.optional(),
+  parameters: z.record(identifier, z.unknown()).default({}),
+  rules: z.array(ruleSchema).min(1),
+  tests: z.object({
+    // Each case's submission is laid over the baseline, key by key
+    baseline: z.record(z.unknown()).default({}),
+    cases: z.array(testCaseSchema).default([])
+  }).optional()
+})
+
+export type RulePackDefinition = z.infer<typeof rulePackSchema>
+export type RuleDefinition = z.infer<typeof ruleSchema>
+export type RuleOutcome = 'pass' | 'fail' | 'skip'
+
+export interface CompiledRule extends ComplianceRule {
+  pack: RulePackRef
+  validator: (data: unknown, context?: RuleContext) => ValidationResult
+  autoFix?: (data: unknown, context?: RuleContext) => any
+}
+
+export interface CompiledRulePack {
+  definition: RulePackDefinition
+  ref: RulePackRef
+  jurisdiction: Jurisdiction
+  effectiveFrom: Date
+  effectiveTo?: Date
+  rules: CompiledRule[]
+}
+
+export interface RulePackTestFailure {
+  ruleId: string
+  expected: RuleOutcome
+  actual: RuleOutcome | 'error'
+  message?: string
+}
+
+export interface RulePackTestResult {
+  pack: RulePackRef
+  passed: boolean
+  cases: Array<{ name: string; passed: boolean; failures: RulePackTestFailure[] }>
+}
+
+export function jurisdictionKey(jurisdiction: Pick<Jurisdiction, 'level' | 'code'>): string {
+  return `${jurisdiction.level}:${jurisdiction.code.toUpperCase()}`
+}
+
+function compileRule(rule: RuleDefinition, pack: RulePackDefinition, ref: RulePackRef): CompiledRule {
+  const at = (field: string) => `${rule.id} ${field}`
+  const expression = (source: string, field: string) => {
+    try {
+      return compileExpression(source)
+    } catch (error) {
+      throw new RulePackError(`Invalid rule pack ${pack.pack}@${pack.version}`, [`${at(field)}: ${(error as Error).message}`])
+    }
+  }
+  const template = (source: string, field: string) => {
+    try {
+      return compileTemplate(source)
+    } catch (error) {
+      throw new RulePackError(`Invalid rule pack ${pack.pack}@${pack.version}`, [`${at(field)}: ${(error as Error).message}`])
+    }
+  }
+
+  const clashes = Object.keys(rule.let || {}).filter(name => name in pack.parameters || name === 'now')
+  if (clashes.length > 0) {
+    throw new RulePackError(`Invalid rule pack ${pack.pack}@${pack.version}`, [`${rule.id} let shadows ${clashes.join(', ')}`])
+  }
+
+  const appliesWhen = rule.appliesWhen ? expression(rule.appliesWhen, 'appliesWhen') : null
+  const lets = Object.entries(rule.let || {}).map(([name, source]) => ({ name, value: expression(source, `let.${name}`) }))
+  const checks = rule.checks.map((check, index) => ({
+    assert: expression(check.assert, `checks[${index}].assert`),
+    message: template(check.message, `checks[${index}].message`),
+    details: (check.details || []).map((detail, line) => template(detail, `checks[${index}].details[${line}]`)),
+    detailsFrom: check.detailsFrom ? expression(check.detailsFrom, `checks[${index}].detailsFrom`) : null,
+    suggestedFix: check.suggestedFix ? template(check.suggestedFix, `checks[${index}].suggestedFix`) : null,
+    documentationLink: check.documentationLink
+  }))
+  const fixes = (rule.autoFix || []).map((fix, index) => {
+    if (fix.set.split('.').some(segment => RESERVED_PATH_SEGMENTS.includes(segment))) {
+      throw new RulePackError(`Invalid rule pack ${pack.pack}@${pack.version}`, [`${at(`autoFix[${index}]`)} cannot set ${fix.set}`])
+    }
+    return {
+      when: fix.when ? expression(fix.when, `autoFix[${index}].when`) : null,
+      path: fix.set.split('.'),
+      value: expression(fix.value, `autoFix[${index}].value`)
+    }
+  })
+
+  const scopeFor = (data: unknown, context?: RuleContext): ExpressionScope => {
+    const scope: ExpressionScope = {
+      data,
+      vars: { ...pack.parameters, now: (context?.asOf || new Date()).getTime() },
+      registries: context?.registries || {}
+    }
+    for (const { name, value } of lets) {
+      scope.vars[name] = value.evaluate(scope)
+    }
+    return scope
+  }
+
+  return {
+    id: rule.id,
+    name: rule.name,
+    category: rule.category,
+    description: rule.description,
+    severity: rule.severity,
+    references: rule.references,
+    pack: ref,
+    validator: (data, context) => {
+      const scope = scopeFor(data, context)
+      if (appliesWhen && !appliesWhen.evaluate(scope)) {
+        return { passed: true, skipped: true }
+      }
+
+      for (const check of checks) {
+        if (check.assert.evaluate(scope)) continue
+
+        const details = [
+          ...check.details.map(detail => detail(scope)),
+          ...(check.detailsFrom ? listOf(check.detailsFrom, scope) : [])
+        ]
+        return {
+          passed: false,
+          message: check.message(scope),
+          ...(details.length > 0 ? { details } : {}),
+          ...(check.suggestedFix ? { suggestedFix: check.suggestedFix(scope) } : {}),
+          ...(check.documentationLink ? { documentationLink: check.documentationLink } : {})
+        }
+      }
+
+      return { passed: true }
+    },
+    autoFix: fixes.length === 0 ? undefined : (data, context) => {
+      const fixed = structuredClone(data) as Record<string, any>
+      for (const fix of fixes) {
+        // Each fix sees the submission as the previous ones left it
+        const scope = scopeFor(fixed, context)
+        if (fix.when && !fix.when.evaluate(scope)) continue
+        setPath(fixed, fix.path, fix.value.evaluate(scope))
+      }
+      return fixed
+    }
+  }
+}
+
+function listOf(expression: CompiledExpression, scope: ExpressionScope): string[] {
+  const value = expression.evaluate(scope)
+  return Array.isArray(value) ? value.map(item => String(item)) : []
+}
+
+function setPath(target: Record<string, any>, path: string[], value: unknown) {
+  let node = target
+  for (const segment of path.slice(0, -1)) {
+    if (node[segment] === null || typeof node[segment] !== 'object') {
+      node[segment] = {}
+    }
+    node = node[segment]
+  }
+  node[path[path.length - 1]] = value
+}
+
+export function isCompiledRulePack(value: unknown): value is CompiledRulePack {
+  return Boolean(value && typeof value === 'object' && 'ref' in value && 'definition' in value && Array.isArray((value as any).rules))
+}
+
+/**
+ * Validate a pack definition (parsed JSON) and compile its rules
+ */
+export function compileRulePack(source: unknown): CompiledRulePack {
+  const parsed = rulePackSchema.safeParse(source)
+  if (!parsed.success) {
+    const name = (source as any)?.pack ? `${(source as any).pack}@${(source as any).version}` : 'rule pack'
+    throw new RulePackError(
+      `Invalid ${name}`,
+      parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    )
+  }
+
+  const definition = parsed.data
+  const effectiveFrom = new Date(definition.effectiveFrom)
+  const effectiveTo = definition.effectiveTo ? new Date(definition.effectiveTo) : undefined
+  if (effectiveTo && effectiveTo <= effectiveFrom) {
+    throw new RulePackError(`Invalid rule pack ${definition.pack}@${definition.version}`, ['effectiveTo must be after effectiveFrom'])
+  }
+
+  const ruleIds = definition.rules.map(rule => rule.id)
+  const duplicates = ruleIds.filter((id, index) => ruleIds.indexOf(id) !== index)
+  if (duplicates.length > 0) {
+    throw new RulePackError(`Invalid rule pack ${definition.pack}@${definition.version}`, [`duplicate rule ids ${duplicates.join(', ')}`])
+  }
+
+  const unknownExpectations = (definition.tests?.cases || []).flatMap(testCase =>
+    Object.keys(testCase.expect).filter(id => !ruleIds.includes(id)).map(id => `test "${testCase.name}" expects unknown rule ${id}`)
+  )
+  if (unknownExpectations.length > 0) {
+    throw new RulePackError(`Invalid rule pack ${definition.pack}@${definition.version}`, unknownExpectations)
+  }
+
+  const jurisdiction: Jurisdiction = { ...definition.jurisdiction, code: definition.jurisdiction.code.toUpperCase() }
+  const ref: RulePackRef = { pack: definition.pack, version: definition.version, jurisdiction: jurisdictionKey(jurisdiction) }
+
+  return {
+    definition,
+    ref,
+    jurisdiction,
+    effectiveFrom,
+    effectiveTo,
+    rules: definition.rules.map(rule => compileRule(rule, definition, ref))
+  }
+}
+
+/**
+ * The packs in force on a date for the given jurisdictions: for each pack,
+ * the version whose effective window contains the date (the most recent
+ * one when windows overlap), ordered federal, provincial, First Nation
+ */
+export function selectRulePacks(
+  packs: CompiledRulePack[],
+  jurisdictions: Array<Pick<Jurisdiction, 'level' | 'code'>>,
+  asOf: Date
+): CompiledRulePack[] {
+  const wanted = new Set(jurisdictions.map(jurisdictionKey))
+  const current = new Map<string, CompiledRulePack>()
+
+  for (const pack of packs) {
+    if (!wanted.has(pack.ref.jurisdiction)) continue
+    if (pack.effectiveFrom > asOf || (pack.effectiveTo && pack.effectiveTo <= asOf)) continue
+
+    const key = `${pack.ref.jurisdiction}/${pack.ref.pack}`
+    const existing = current.get(key)
+    if (!existing || pack.effectiveFrom > existing.effectiveFrom) {
+      current.set(key, pack)
+    }
+  }
+
+  return Array.from(current.values()).sort((a, b) =>
+    LEVEL_ORDER.indexOf(a.jurisdiction.level) - LEVEL_ORDER.indexOf(b.jurisdiction.level)
+  )
+}
+
+/**
+ * Merge the selected packs' rules; a later pack's rule replaces an earlier
+ * rule with the same id
+ */
+export function resolveRules(selected: CompiledRulePack[]): Map<string, CompiledRule> {
+  const rules = new Map<string, CompiledRule>()
+  for (const pack of selected) {
+    for (const rule of pack.rules) {
+      rules.set(rule.id, rule)
+    }
+  }
+  return rules
+}
+
+export function ruleOutcome(result: ValidationResult): RuleOutcome {
+  if (result.skipped) return 'skip'
+  return result.passed ? 'pass' : 'fail'
+}
+
+/**
+ * Run the test cases a pack ships with against its own rules
+ */
+export function runRulePackTests(pack: CompiledRulePack): RulePackTestResult {
+  const tests = pack.definition.tests
+  const rules = new Map(pack.rules.map(rule => [rule.id, rule]))
+
+  const cases = (tests?.cases || []).map(testCase => {
+    const submission = { ...tests!.baseline, ...testCase.submission }
+    const context: RuleContext = {
+      asOf: testCase.asOf ? new Date(testCase.asOf) : pack.effectiveFrom,
+      registries: Object.fromEntries(
+        Object.entries(testCase.registries || {}).map(([name, values]) => [name, new Set(values)])
+      )
+    }
+
+    const failures = Object.entries(testCase.expect).flatMap(([ruleId, expected]): RulePackTestFailure[] => {
+      try {
+        const result = rules.get(ruleId)!.validator(submission, context)
+        const actual = ruleOutcome(result)
+        return actual === expected ? [] : [{ ruleId, expected, actual, message: result.message }]
+      } catch (error) {
+        return [{ ruleId, expected, actual: 'error', message: (error as Error).message }]
+      }
+    })
+
+    return { name: testCase.name, passed: failures.length === 0, failures }
+  })
+
+  return { pack: pack.ref, passed: cases.every(testCase => testCase.passed), cases }
+}
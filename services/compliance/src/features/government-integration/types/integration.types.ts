@@ -60,6 +60,7 @@ export interface GovernmentRFQ {
     naics?: string[]
     keywords: string[]
   }
+  regions?: string[]
   dates: {
     published: string
     closingDate: string
@@ -85,9 +86,19 @@ export interface GovernmentRFQ {
     lastUpdated: string
     syncVersion: number
     tags?: string[]
+    sourceUrl?: string
+    sourceAmendmentNumber?: number
+    // Every system the same tender was found on, the source system first
+    listings?: RFQListing[]
   }
 }
 
+export interface RFQListing {
+  system: GovernmentSystem
+  sourceId: string
+  url?: string
+}
+
 export type ProcurementMethod = 
   | 'open_bidding'
   | 'selective_tendering'
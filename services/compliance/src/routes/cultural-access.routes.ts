@@ -0,0 +1,230 @@
+import { Request, Response, Router } from 'express';
+import { CulturalAccessError, CulturalAccessService } from '../services/cultural-access.service';
+import { AccessRequest, AccessSubject, GovernedResourceType } from '../services/cultural-access/types';
+import { AccessType } from '../features/security-compliance/types/security.types';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+const RESOURCE_TYPES: GovernedResourceType[] = ['document', 'business_record', 'analytics'];
+const ACTIONS: AccessType[] = ['read', 'write', 'delete', 'admin', 'emergency', 'cultural_access'];
+
+// Who may set policies and revoke grants
+const STEWARD_ROLES = ['admin', 'data_steward', 'community_council'];
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    role: string;
+    roles?: string[];
+    businessId?: string;
+    affiliations?: string[];
+    gender?: string;
+    age?: number;
+    // Session attributes the identity provider puts in the token
+    location?: string;
+    device?: string;
+    riskScore?: number;
+  };
+}
+
+function rolesOf(req: AuthenticatedRequest): string[] {
+  return Array.from(new Set([req.user?.role, ...(req.user?.roles || [])].filter((role): role is string => Boolean(role))));
+}
+
+// Session context a service reports for the user it is checking for
+function statedContext(context: any): Pick<AccessSubject, 'location' | 'device' | 'network' | 'riskScore'> {
+  return {
+    location: typeof context?.location === 'string' ? context.location : undefined,
+    device: typeof context?.device === 'string' ? context.device : undefined,
+    network: typeof context?.network === 'string' ? context.network : undefined,
+    riskScore: typeof context?.riskScore === 'number' ? context.riskScore : undefined,
+  };
+}
+
+/**
+ * Who is asking. Identity, cultural attributes, location, device and risk
+ * come from the token and the network from the connection, never from the
+ * body: a condition on them would otherwise be met by claiming the value.
+ * Only other services, checking on behalf of their own users, may state
+ * the subject and its session context
+ */
+function subjectOf(req: AuthenticatedRequest): AccessSubject {
+  const isService = req.user?.role === 'service';
+  if (isService && req.body.subject?.userId) {
+    const subject = req.body.subject;
+    return {
+      ...subject,
+      roles: subject.roles || [],
+      affiliations: subject.affiliations || [],
+      ...statedContext({ ...subject, ...req.body.context }),
+    };
+  }
+
+  const stated = statedContext(isService ? req.body.context : undefined);
+  return {
+    userId: req.user?.id || 'anonymous',
+    businessId: req.user?.businessId,
+    roles: rolesOf(req),
+    affiliations: req.user?.affiliations || [],
+    gender: req.user?.gender,
+    age: req.user?.age,
+    location: stated.location ?? req.user?.location,
+    device: stated.device ?? req.user?.device,
+    network: stated.network ?? req.ip,
+    riskScore: stated.riskScore ?? req.user?.riskScore,
+  };
+}
+
+function accessRequestFrom(req: AuthenticatedRequest, body: any): AccessRequest | string {
+  if (!RESOURCE_TYPES.includes(body.resourceType)) {
+    return `resourceType must be one of ${RESOURCE_TYPES.join(', ')}`;
+  }
+  if (typeof body.resourceId !== 'string' || !body.resourceId) {
+    return 'resourceId is required';
+  }
+  if (!ACTIONS.includes(body.action)) {
+    return `action must be one of ${ACTIONS.join(', ')}`;
+  }
+  if (body.emergency && !body.justification?.trim()) {
+    return 'Emergency access needs a justification';
+  }
+
+  return {
+    resourceType: body.resourceType,
+    resourceId: body.resourceId,
+    action: body.action,
+    subject: subjectOf(req),
+    purpose: body.purpose,
+    emergency: Boolean(body.emergency),
+    justification: body.justification,
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent'),
+  };
+}
+
+function fail(res: Response, error: any, message: string): void {
+  if (error instanceof CulturalAccessError) {
+    res.status(error.status).json({ error: error.message, decision: error.decision });
+    return;
+  }
+  logger.error(message, error);
+  res.status(500).json({ error: error.message });
+}
+
+// Decide one access, or several at once ({ requests: [...] }, e.g. every
+// dataset an analytics query reads)
+router.post('/check', async (req: AuthenticatedRequest, res) => {
+  try {
+    const bodies = Array.isArray(req.body.requests) ? req.body.requests : [req.body];
+    const requests: AccessRequest[] = [];
+    for (const body of bodies) {
+      const request = accessRequestFrom(req, { ...body, subject: req.body.subject, context: req.body.context });
+      if (typeof request === 'string') {
+        res.status(400).json({ error: request });
+        return;
+      }
+      requests.push(request);
+    }
+
+    if (!Array.isArray(req.body.requests)) {
+      res.json({ decision: await CulturalAccessService.checkAccess(requests[0]) });
+      return;
+    }
+    res.json(await CulturalAccessService.checkAll(requests));
+  } catch (error: any) {
+    fail(res, error, 'Cultural access check failed');
+  }
+});
+
+router.get('/policies/:resourceType/:resourceId', async (req, res) => {
+  try {
+    const policy = await CulturalAccessService.getPolicy(req.params.resourceType as GovernedResourceType, req.params.resourceId);
+    if (!policy) {
+      res.status(404).json({ error: 'No cultural access policy for this resource' });
+      return;
+    }
+    res.json({ policy });
+  } catch (error: any) {
+    fail(res, error, 'Failed to get cultural access policy');
+  }
+});
+
+router.put('/policies/:resourceType/:resourceId', async (req: AuthenticatedRequest, res) => {
+  const resourceType = req.params.resourceType as GovernedResourceType;
+  if (!rolesOf(req).some(role => STEWARD_ROLES.includes(role))) {
+    res.status(403).json({ error: 'Only data stewards and community councils can set cultural access policies' });
+    return;
+  }
+  if (!RESOURCE_TYPES.includes(resourceType)) {
+    res.status(400).json({ error: `resourceType must be one of ${RESOURCE_TYPES.join(', ')}` });
+    return;
+  }
+  if (!req.body.policy?.id || !Array.isArray(req.body.policy.permissions) || !Array.isArray(req.body.policy.conditions)) {
+    res.status(400).json({ error: 'policy needs an id, permissions and conditions' });
+    return;
+  }
+
+  try {
+    const result = await CulturalAccessService.setPolicy({
+      resourceType,
+      resourceId: req.params.resourceId,
+      policy: { ...req.body.policy, resource: `${resourceType}:${req.params.resourceId}` },
+      requirements: req.body.requirements,
+      timeZone: req.body.timeZone || 'America/Toronto',
+      ceremonies: req.body.ceremonies || [],
+    }, req.user!.id);
+    res.json(result);
+  } catch (error: any) {
+    fail(res, error, 'Failed to set cultural access policy');
+  }
+});
+
+// Requests waiting on the current user
+router.get('/approvals', async (req: AuthenticatedRequest, res) => {
+  try {
+    const approvals = await CulturalAccessService.listApprovals({ userId: req.user!.id, roles: rolesOf(req) });
+    res.json({ approvals });
+  } catch (error: any) {
+    fail(res, error, 'Failed to list cultural access approvals');
+  }
+});
+
+router.post('/approvals/:id/respond', async (req: AuthenticatedRequest, res) => {
+  if (req.body.decision !== 'approve' && req.body.decision !== 'reject') {
+    res.status(400).json({ error: 'decision must be approve or reject' });
+    return;
+  }
+
+  try {
+    const result = await CulturalAccessService.respondToApproval(
+      req.params.id,
+      { userId: req.user!.id, roles: rolesOf(req) },
+      req.body.decision,
+      req.body.comment
+    );
+    res.json(result);
+  } catch (error: any) {
+    fail(res, error, 'Failed to answer cultural access approval');
+  }
+});
+
+router.post('/grants/:id/revoke', async (req: AuthenticatedRequest, res) => {
+  if (!rolesOf(req).some(role => STEWARD_ROLES.includes(role))) {
+    res.status(403).json({ error: 'Only data stewards and community councils can revoke access grants' });
+    return;
+  }
+  if (!req.body.reason?.trim()) {
+    res.status(400).json({ error: 'A reason is required' });
+    return;
+  }
+
+  try {
+    const grant = await CulturalAccessService.revokeGrant(req.params.id, req.user!.id, req.body.reason);
+    res.json({ grant });
+  } catch (error: any) {
+    fail(res, error, 'Failed to revoke cultural access grant');
+  }
+});
+
+export default router;
@@ -0,0 +1,145 @@
+import { Request, Router } from 'express';
+import { z } from 'zod';
+import { TenderIngestionService } from '../services/tender-ingestion.service';
+import { nextSyncAt } from '../services/tender-ingestion/schedule';
+import { GovernmentSystem } from '../features/government-integration/types/integration.types';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    role: string;
+    roles?: string[];
+  };
+}
+
+function isAdmin(req: AuthenticatedRequest): boolean {
+  return [req.user?.role, ...(req.user?.roles || [])].includes('admin');
+}
+
+const GOVERNMENT_SYSTEMS = ['GETS', 'SAP_ARIBA', 'BUY_AND_SELL', 'MERX', 'BC_BID', 'BIDCENTRAL', 'PSIB', 'ISC'] as const;
+
+// The service posts sync results to these, so only HTTPS endpoints
+const webhookUrl = z.string().url().refine(url => url.startsWith('https://'), 'must be an https:// URL');
+
+// A SyncConfiguration without its system; each section given replaces the current one
+const configurationSchema = z.object({
+  enabled: z.boolean(),
+  schedule: z.object({
+    frequency: z.enum(['realtime', 'hourly', 'daily', 'weekly']),
+    time: z.string().optional(),
+    timezone: z.string().min(1),
+  }).strict().superRefine((schedule, context) => {
+    try {
+      nextSyncAt(schedule);
+    } catch (error) {
+      context.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    }
+  }),
+  filters: z.object({
+    categories: z.array(z.string()).optional(),
+    regions: z.array(z.string()).optional(),
+    valueThreshold: z.object({
+      min: z.number().nonnegative().optional(),
+      max: z.number().nonnegative().optional(),
+    }).strict().optional(),
+    setAsideOnly: z.boolean().optional(),
+    excludeKeywords: z.array(z.string()).optional(),
+  }).strict(),
+  notifications: z.object({
+    email: z.boolean(),
+    sms: z.boolean(),
+    inApp: z.boolean(),
+    webhooks: z.array(webhookUrl).max(10).optional(),
+  }).strict(),
+  retryPolicy: z.object({
+    maxRetries: z.number().int().min(0).max(10),
+    backoffMultiplier: z.number().min(1).max(10),
+    maxBackoffSeconds: z.number().int().min(0).max(3600),
+  }).strict(),
+}).partial().strict();
+
+// Ingested government tenders, soonest closing first
+router.get('/', async (req, res) => {
+  try {
+    const tenders = await TenderIngestionService.listTenders({
+      system: req.query.system as GovernmentSystem | undefined,
+      openOnly: req.query.open !== 'false',
+      limit: req.query.limit ? Math.min(Number(req.query.limit) || 100, 500) : 100,
+    });
+
+    res.json({ tenders });
+  } catch (error: any) {
+    logger.error('Failed to list tenders', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Sync one system (or all) now rather than waiting for its schedule
+router.post('/sync', async (req: AuthenticatedRequest, res) => {
+  if (!isAdmin(req)) {
+    res.status(403).json({ error: 'Only administrators can start a tender sync' });
+    return;
+  }
+
+  try {
+    const system = req.body.system as GovernmentSystem | undefined;
+    if (system && TenderIngestionService.getSources(system).length === 0) {
+      res.status(400).json({ error: `No tender sources configured for ${system}` });
+      return;
+    }
+
+    const results = system
+      ? await TenderIngestionService.syncSystem(system)
+      : await TenderIngestionService.syncAll();
+
+    res.json({
+      success: results.every(result => result.errors.length === 0),
+      results: results.map(result => ({
+        ...result,
+        created: result.created.map(rfq => rfq.id),
+        amended: result.amended.map(rfq => rfq.id),
+      })),
+    });
+  } catch (error: any) {
+    logger.error('Tender sync failed', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Replace sections of a system's SyncConfiguration; the system is
+// rescheduled straight away
+router.put('/configuration/:system', async (req: AuthenticatedRequest, res) => {
+  if (!isAdmin(req)) {
+    res.status(403).json({ error: 'Only administrators can change tender sync configuration' });
+    return;
+  }
+
+  const system = z.enum(GOVERNMENT_SYSTEMS).safeParse(req.params.system);
+  if (!system.success) {
+    res.status(400).json({ error: `system must be one of ${GOVERNMENT_SYSTEMS.join(', ')}` });
+    return;
+  }
+
+  const changes = configurationSchema.safeParse(req.body);
+  if (!changes.success) {
+    res.status(400).json({
+      error: 'Invalid sync configuration',
+      issues: changes.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+    });
+    return;
+  }
+
+  try {
+    const configuration = { ...TenderIngestionService.getConfiguration(system.data), ...changes.data, system: system.data };
+    TenderIngestionService.configure(configuration);
+    res.json({ configuration });
+  } catch (error: any) {
+    logger.error('Failed to configure tender sync', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
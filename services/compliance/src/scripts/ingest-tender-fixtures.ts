@@ -0,0 +1,99 @@
+/**
+ * Offline Tender Ingestion
+ * Replays recorded feeds through the parsers, normalization, dedup and
+ * amendment detection into an in-memory store, with no network or
+ * database. With no arguments, runs the bundled fixtures and checks each
+ * run against its expected outcome.
+ *
+ *   npx tsx src/scripts/ingest-tender-fixtures.ts [--json]
+ *   npx tsx src/scripts/ingest-tender-fixtures.ts <SYSTEM>:<format>:<file> ... [--json]
+ *
+ * Exits 0 when every run goes as expected, 1 when one does not, 2 on bad input
+ */
+
+import { TenderIngestionService } from '../services/tender-ingestion.service';
+import { MemoryTenderStore } from '../services/tender-ingestion/tender-store';
+import { TENDER_PARSERS } from '../services/tender-ingestion/parsers';
+import { TENDER_FIXTURE_RUNS, TenderFixtureRun } from '../services/tender-ingestion/fixtures';
+import { TenderFormat, TenderSource, TenderSyncResult } from '../services/tender-ingestion/types';
+import { GovernmentSystem } from '../features/government-integration/types/integration.types';
+
+function usage(message: string): never {
+  console.error(message);
+  console.error('Usage: ingest-tender-fixtures [<SYSTEM>:<format>:<file> ...] [--json]');
+  process.exit(2);
+}
+
+function sourceFrom(arg: string): TenderSource {
+  const [system, format, ...rest] = arg.split(':');
+  const file = rest.join(':');
+  if (!system || !file || !(format in TENDER_PARSERS)) {
+    usage(`Expected <SYSTEM>:<format>:<file>, got ${arg} (formats: ${Object.keys(TENDER_PARSERS).join(', ')})`);
+  }
+  return { system: system as GovernmentSystem, format: format as TenderFormat, url: file, name: file };
+}
+
+function differences(result: TenderSyncResult, expect: TenderFixtureRun['expect']): string[] {
+  const actual = {
+    created: result.created.length,
+    amended: result.amended.length,
+    crossListed: result.crossListed,
+    unchanged: result.unchanged,
+  };
+  return (Object.keys(expect) as Array<keyof typeof expect>)
+    .filter(field => actual[field] !== expect[field])
+    .map(field => `expected ${expect[field]} ${field}, got ${actual[field]}`);
+}
+
+async function main(argv: string[]): Promise<void> {
+  const json = argv.includes('--json');
+  const files = argv.filter(arg => !arg.startsWith('--'));
+  const runs: Array<{ source: TenderSource; expect?: TenderFixtureRun['expect'] }> =
+    files.length > 0 ? files.map(file => ({ source: sourceFrom(file) })) : TENDER_FIXTURE_RUNS;
+
+  const store = new MemoryTenderStore();
+  TenderIngestionService.useStore(store);
+
+  let failed = false;
+  const report = [];
+  for (const run of runs) {
+    const result = await TenderIngestionService.syncSource(run.source);
+    const problems = [...result.errors, ...(run.expect ? differences(result, run.expect) : [])];
+    failed = failed || problems.length > 0;
+    report.push({ source: run.source.name, system: run.source.system, result, problems });
+
+    if (!json) {
+      console.log(`${run.source.name} (${run.source.system})`);
+      console.log(
+        `  ${result.fetched} notices: ${result.created.length} new, ${result.amended.length} amended, ` +
+        `${result.crossListed} cross-listed, ${result.unchanged} unchanged, ${result.filteredOut} filtered out`
+      );
+      for (const rfq of result.amended) {
+        const amendment = rfq.amendments[rfq.amendments.length - 1];
+        console.log(`  ${rfq.referenceNumber} amendment ${amendment.number}: ${amendment.description}`);
+      }
+      for (const problem of problems) {
+        console.log(`  - ${problem}`);
+      }
+    }
+  }
+
+  const tenders = await store.list();
+  if (json) {
+    console.log(JSON.stringify({ runs: report, tenders }, null, 2));
+  } else {
+    console.log(`\n${tenders.length} tenders held`);
+    for (const rfq of tenders) {
+      const listings = (rfq.metadata.listings || []).map(listing => listing.system).join(', ');
+      console.log(`  ${rfq.referenceNumber.padEnd(16)} ${rfq.title} [${listings}]`);
+    }
+    console.log(failed ? 'FAILED' : 'OK');
+  }
+
+  process.exit(failed ? 1 : 0);
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(error);
+  process.exit(2);
+});
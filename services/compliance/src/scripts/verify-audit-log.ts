@@ -0,0 +1,72 @@
+/**
+ * Offline Audit Log Verification
+ * For auditors: checks an exported or archived audit segment
+ * (AuditService.exportAuditSegment, or a file from AUDIT_ARCHIVE_DIR)
+ * against the checkpoint public key, with nothing but node.
+ *
+ *   npx tsx src/scripts/verify-audit-log.ts <segment.json> --public-key <key.pem> [--json]
+ *
+ * Exits 0 when the segment verifies, 1 when it does not, 2 on bad input
+ */
+
+import fs from 'fs';
+import { verifyAuditSegment, AuditSegment } from '../utils/audit-chain';
+
+function usage(message?: string): never {
+  if (message) {
+    console.error(message);
+  }
+  console.error('Usage: verify-audit-log <segment.json> --public-key <key.pem> [--json]');
+  process.exit(2);
+}
+
+function main(argv: string[]): void {
+  const args = [...argv];
+  const json = args.includes('--json');
+  const keyFlag = args.indexOf('--public-key');
+  if (keyFlag === -1 || !args[keyFlag + 1]) {
+    usage('Missing --public-key');
+  }
+  const keyPath = args[keyFlag + 1];
+  const segmentPath = args.filter((arg, index) => !arg.startsWith('--') && index !== keyFlag + 1)[0];
+  if (!segmentPath) {
+    usage('Missing segment file');
+  }
+
+  let segment: AuditSegment;
+  let publicKey: string;
+  try {
+    segment = JSON.parse(fs.readFileSync(segmentPath, 'utf8'));
+    publicKey = fs.readFileSync(keyPath, 'utf8');
+  } catch (error) {
+    usage(`Could not read input: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(segment?.entries) || !Array.isArray(segment.checkpoints)) {
+    usage('Not an audit segment');
+  }
+
+  const result = verifyAuditSegment(segment, publicKey);
+
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    console.log(`Audit entries ${segment.fromSequence} to ${segment.toSequence}, exported ${segment.exportedAt}`);
+    console.log(`  ${result.entriesChecked} of ${segment.entries.length} entries chain correctly`);
+    console.log(`  ${result.checkpointsChecked} signed checkpoints`);
+    const lastCovered = Math.max(segment.fromSequence - 1, ...segment.checkpoints.map(checkpoint => checkpoint.body.toSequence));
+    if (lastCovered < segment.toSequence) {
+      console.log(`  Entries ${lastCovered + 1} to ${segment.toSequence} are not yet covered by a checkpoint`);
+    }
+    for (const error of result.errors) {
+      console.log(`  - ${error}`);
+    }
+    if (result.broken) {
+      console.log(`First broken entry: ${result.broken.sequence}`);
+    }
+    console.log(result.valid ? 'VALID' : 'NOT VALID');
+  }
+
+  process.exit(result.valid ? 0 : 1);
+}
+
+main(process.argv.slice(2));
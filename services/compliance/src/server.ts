@@ -13,10 +13,13 @@ import complianceRoutes from './routes/compliance.routes';
 import verificationRoutes from './routes/verification.routes';
 import reportRoutes from './routes/report.routes';
 import healthRoutes from './routes/health.routes';
+import tenderRoutes from './routes/tender.routes';
+import culturalAccessRoutes from './routes/cultural-access.routes';
 import { initializeDatabase } from './config/database';
 import { initializeRedis } from './config/redis';
 import { initializeServices } from './config/services';
 import { startComplianceMonitor } from './services/monitoring.service';
+import { TenderIngestionService } from './services/tender-ingestion.service';
 import { startScheduledTasks } from './utils/scheduler';
 import { startMetricsServer } from './utils/metrics';
 
@@ -74,6 +77,9 @@ app.use('/api/v1/audit', authMiddleware, apiLimiter, auditRoutes);
 app.use('/api/v1/compliance', authMiddleware, apiLimiter, complianceRoutes);
 app.use('/api/v1/verification', authMiddleware, verificationLimiter, verificationRoutes);
 app.use('/api/v1/reports', authMiddleware, apiLimiter, reportRoutes);
+app.use('/api/v1/tenders', authMiddleware, apiLimiter, tenderRoutes);
+// Consulted before every read of governed data, so not under the API rate limit
+app.use('/api/v1/cultural-access', authMiddleware, culturalAccessRoutes);
 
 // Public verification endpoint (for external verification)
 app.get('/api/v1/public/verify/:certificationNumber', async (req, res) => {
@@ -122,6 +128,10 @@ async function startServer() {
     await startScheduledTasks();
     logger.info('Scheduled tasks started');
 
+    // Start government tender sync
+    TenderIngestionService.startScheduledSync();
+    logger.info('Tender sync scheduled');
+
     // Start metrics server
     startMetricsServer();
     logger.info('Metrics server started');
@@ -137,6 +147,7 @@ async function startServer() {
     // Graceful shutdown
     process.on('SIGTERM', async () => {
       logger.info('SIGTERM received, shutting down gracefully');
+      TenderIngestionService.stopScheduledSync();
       process.exit(0);
     });
 
@@ -0,0 +1,317 @@
+import { logger } from '../utils/logger';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditService } from './audit.service';
+import {
+  AccessDecision,
+  AccessGrant,
+  AccessRequest,
+  ApprovalRequest,
+  CulturalAccessPolicy,
+  GovernedResourceType,
+  RequiredApproval,
+} from './cultural-access/types';
+import {
+  ApproverIdentity,
+  approvalOutcome,
+  approverMatches,
+  culturalProtocols,
+  decideAccess,
+  grantExpiry,
+  outstandingApprovals,
+} from './cultural-access/decision';
+import { CulturalAccessStore, PrismaCulturalAccessStore } from './cultural-access/access-store';
+import { parseRestrictionWindow, ceremoniesNamedIn } from './cultural-access/windows';
+
+export class CulturalAccessError extends Error {
+  constructor(message: string, readonly status: number, readonly decision?: AccessDecision) {
+    super(message);
+    this.name = 'CulturalAccessError';
+  }
+}
+
+/**
+ * The decision point that documents, business records and analytics
+ * queries consult before access to culturally governed data. Every
+ * decision, approval response, grant and policy change is written to the
+ * audit chain; if that write fails the access is refused
+ */
+export class CulturalAccessService {
+  private static readonly APPROVAL_TTL_DAYS = 30;
+  private static store: CulturalAccessStore = new PrismaCulturalAccessStore();
+
+  /**
+   * Replace the store (the in-memory store for offline runs)
+   */
+  static useStore(store: CulturalAccessStore): void {
+    this.store = store;
+  }
+
+  static async getPolicy(resourceType: GovernedResourceType, resourceId: string): Promise<CulturalAccessPolicy | null> {
+    return this.store.findPolicy(resourceType, resourceId);
+  }
+
+  /**
+   * Set the policy for a resource ('*' for every resource of the type).
+   * Returns the restrictions that cannot be placed on the calendar, which
+   * will be referred to approvers at each access
+   */
+  static async setPolicy(
+    input: Omit<CulturalAccessPolicy, 'updatedBy' | 'updatedAt'>,
+    updatedBy: string
+  ): Promise<{ policy: CulturalAccessPolicy; unplaced: string[] }> {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: input.timeZone });
+    } catch {
+      throw new CulturalAccessError(`Unknown timezone ${input.timeZone}`, 400);
+    }
+    for (const ceremony of input.ceremonies) {
+      if (!ceremony.name?.trim() || Number.isNaN(Date.parse(ceremony.start)) || Number.isNaN(Date.parse(ceremony.end))) {
+        throw new CulturalAccessError(`Ceremony "${ceremony.name}" needs a name and start and end dates`, 400);
+      }
+    }
+
+    const policy: CulturalAccessPolicy = { ...input, updatedBy, updatedAt: new Date().toISOString() };
+    const unplaced = culturalProtocols(policy)
+      .filter(protocol => protocol.type === 'seasonal_restriction' || protocol.type === 'ceremony_restriction')
+      .flatMap(protocol => protocol.restrictions)
+      .filter(restriction => !parseRestrictionWindow(restriction) && ceremoniesNamedIn(restriction, policy.ceremonies).length === 0);
+
+    await this.store.savePolicy(policy);
+    await AuditService.logCulturalAccess({
+      action: 'POLICY_UPDATE',
+      userId: updatedBy,
+      resourceType: policy.resourceType,
+      resourceId: policy.resourceId,
+      details: `Cultural access policy ${policy.policy.id} set`,
+      metadata: { policy: policy.policy, requirements: policy.requirements, ceremonies: policy.ceremonies, unplaced },
+    });
+
+    return { policy, unplaced };
+  }
+
+  /**
+   * Decide one access. An approval_required decision opens an approval
+   * request (or points at the one already open)
+   */
+  static async checkAccess(request: AccessRequest): Promise<AccessDecision> {
+    const at = new Date();
+    const policy = await this.store.findPolicy(request.resourceType, request.resourceId);
+    const key = {
+      resourceType: request.resourceType,
+      resourceId: request.resourceId,
+      action: request.action,
+      userId: request.subject.userId,
+    };
+    const [grant, approval] = policy
+      ? await Promise.all([this.store.findGrant(key), this.store.findApproval(key, at)])
+      : [null, null];
+
+    const decision = decideAccess({ policy, request, grant, approval, at });
+    if (decision.effect === 'approval_required' && !decision.approvalRequestId) {
+      const opened = await this.openApproval(request, decision.required, at);
+      decision.approvalRequestId = opened.id;
+    }
+
+    await AuditService.logCulturalAccess({
+      action: decision.effect.toUpperCase(),
+      userId: request.subject.userId,
+      businessId: request.subject.businessId,
+      resourceType: request.resourceType,
+      resourceId: request.resourceId,
+      details: `${request.action} on ${request.resourceType} ${request.resourceId}: ${decision.effect} (${decision.reasons.join('; ')})`,
+      denied: decision.effect === 'deny',
+      overridden: decision.overridden.length > 0,
+      metadata: {
+        action: request.action,
+        purpose: request.purpose,
+        emergency: request.emergency,
+        justification: request.justification,
+        decision,
+      },
+      ipAddress: request.ipAddress,
+      userAgent: request.userAgent,
+    });
+
+    return decision;
+  }
+
+  /**
+   * checkAccess for callers in this service: the decision if permitted,
+   * otherwise a CulturalAccessError carrying it
+   */
+  static async enforce(request: AccessRequest): Promise<AccessDecision> {
+    const decision = await this.checkAccess(request);
+    if (decision.effect !== 'permit') {
+      const message = decision.effect === 'approval_required'
+        ? `Approval required: ${decision.reasons.join('; ')}`
+        : `Access denied: ${decision.reasons.join('; ')}`;
+      throw new CulturalAccessError(message, 403, decision);
+    }
+    return decision;
+  }
+
+  /**
+   * Several resources at once (an analytics query over several datasets):
+   * permitted only if every one is
+   */
+  static async checkAll(requests: AccessRequest[]): Promise<{ permitted: boolean; decisions: AccessDecision[] }> {
+    const decisions: AccessDecision[] = [];
+    for (const request of requests) {
+      decisions.push(await this.checkAccess(request));
+    }
+    return { permitted: decisions.every(decision => decision.effect === 'permit'), decisions };
+  }
+
+  /**
+   * Pending requests this person could answer
+   */
+  static async listApprovals(approver: ApproverIdentity): Promise<ApprovalRequest[]> {
+    const pending = await this.store.pendingApprovals(new Date());
+    return pending.filter(approval =>
+      approval.userId !== approver.userId &&
+      outstandingApprovals(approval.required, approval.responses)
+        .some(required => required.approvers.some(name => approverMatches(name, approver)))
+    );
+  }
+
+  /**
+   * An approver's answer. The response counts for every outstanding
+   * approver the person stands for; once nothing is outstanding a grant is
+   * issued for the policy's duration
+   */
+  static async respondToApproval(
+    requestId: string,
+    approver: ApproverIdentity,
+    answer: 'approve' | 'reject',
+    comment?: string
+  ): Promise<{ approval: ApprovalRequest; grant?: AccessGrant }> {
+    const approval = await this.store.getApproval(requestId);
+    if (!approval) {
+      throw new CulturalAccessError('Approval request not found', 404);
+    }
+    const now = new Date();
+    if (approval.status !== 'pending' || Date.parse(approval.expiresAt) <= now.getTime()) {
+      throw new CulturalAccessError(`Approval request is ${approval.status === 'pending' ? 'expired' : approval.status}`, 409);
+    }
+    if (approval.userId === approver.userId) {
+      throw new CulturalAccessError('You cannot answer your own access request', 403);
+    }
+
+    const speaksFor = Array.from(new Set(
+      outstandingApprovals(approval.required, approval.responses)
+        .flatMap(required => required.approvers)
+        .filter(name => approverMatches(name, approver))
+    ));
+    if (speaksFor.length === 0) {
+      throw new CulturalAccessError('You are not an approver for this request', 403);
+    }
+
+    const respondedAt = now.toISOString();
+    approval.responses = [
+      ...approval.responses,
+      ...speaksFor.map(name => ({ approverId: approver.userId, approver: name, decision: answer, comment, respondedAt })),
+    ];
+    approval.status = approvalOutcome(approval.required, approval.responses);
+    if (approval.status !== 'pending') {
+      approval.decidedAt = respondedAt;
+    }
+
+    let grant: AccessGrant | undefined;
+    if (approval.status === 'approved') {
+      const policy = await this.store.findPolicy(approval.resourceType, approval.resourceId);
+      if (!policy) {
+        throw new CulturalAccessError('The policy for this resource has been removed', 409);
+      }
+      grant = {
+        id: uuidv4(),
+        requestId: approval.id,
+        resourceType: approval.resourceType,
+        resourceId: approval.resourceId,
+        action: approval.action,
+        userId: approval.userId,
+        issuedAt: respondedAt,
+        expiresAt: grantExpiry(policy, now).toISOString(),
+      };
+    }
+
+    await this.store.saveApproval(approval);
+    if (grant) {
+      await this.store.saveGrant(grant);
+    }
+
+    await AuditService.logCulturalAccess({
+      action: answer === 'approve' ? 'APPROVE' : 'REJECT',
+      userId: approver.userId,
+      businessId: approval.businessId,
+      resourceType: approval.resourceType,
+      resourceId: approval.resourceId,
+      details: `${speaksFor.join(', ')} ${answer === 'approve' ? 'approved' : 'declined'} ${approval.action} for ${approval.userId}`,
+      denied: answer === 'reject',
+      metadata: { requestId: approval.id, speaksFor, comment, status: approval.status },
+    });
+    if (grant) {
+      await AuditService.logCulturalAccess({
+        action: 'GRANT',
+        userId: approval.userId,
+        businessId: approval.businessId,
+        resourceType: grant.resourceType,
+        resourceId: grant.resourceId,
+        details: `${grant.action} granted to ${grant.userId} until ${grant.expiresAt}`,
+        metadata: { grant },
+      });
+    }
+
+    logger.info('Cultural access request answered', { requestId, status: approval.status, grantId: grant?.id });
+    return { approval, grant };
+  }
+
+  static async revokeGrant(grantId: string, revokedBy: string, reason: string): Promise<AccessGrant> {
+    const grant = await this.store.getGrant(grantId);
+    if (!grant) {
+      throw new CulturalAccessError('Grant not found', 404);
+    }
+    if (grant.revokedAt) {
+      return grant;
+    }
+
+    grant.revokedAt = new Date().toISOString();
+    grant.revokedBy = revokedBy;
+    grant.revokeReason = reason;
+    await this.store.saveGrant(grant);
+
+    await AuditService.logCulturalAccess({
+      action: 'REVOKE',
+      userId: revokedBy,
+      resourceType: grant.resourceType,
+      resourceId: grant.resourceId,
+      details: `${grant.action} grant for ${grant.userId} revoked: ${reason}`,
+      metadata: { grant },
+    });
+    return grant;
+  }
+
+  private static async openApproval(request: AccessRequest, required: RequiredApproval[], at: Date): Promise<ApprovalRequest> {
+    const approval: ApprovalRequest = {
+      id: uuidv4(),
+      resourceType: request.resourceType,
+      resourceId: request.resourceId,
+      action: request.action,
+      userId: request.subject.userId,
+      businessId: request.subject.businessId,
+      purpose: request.purpose,
+      required,
+      responses: [],
+      status: 'pending',
+      createdAt: at.toISOString(),
+      expiresAt: new Date(at.getTime() + this.APPROVAL_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    };
+    await this.store.saveApproval(approval);
+
+    logger.info('Cultural access approval requested', {
+      requestId: approval.id,
+      resource: `${request.resourceType}:${request.resourceId}`,
+      approvers: required.flatMap(item => item.approvers),
+    });
+    return approval;
+  }
+}
@@ -0,0 +1,331 @@
+import { describe, it, expect } from 'vitest';
+import {
+  approvalOutcome,
+  approverMatches,
+  culturalProtocols,
+  decideAccess,
+  DEFAULT_GRANT_MINUTES,
+  grantExpiry,
+  outstandingApprovals,
+} from '../decision';
+import { AccessGrant, AccessRequest, ApprovalRequest, ApprovalResponse, CulturalAccessPolicy, RequiredApproval } from '../types';
+import { AccessControlPolicy, CulturalDataRequirements } from '../../../features/security-compliance/types/security.types';
+
+const AT = new Date('2027-03-03T15:00:00Z'); // Wednesday 10:00 in Toronto
+
+function policyWith(
+  overrides: Partial<AccessControlPolicy> = {},
+  requirements?: Partial<CulturalDataRequirements>,
+  extra: Partial<CulturalAccessPolicy> = {}
+): CulturalAccessPolicy {
+  return {
+    resourceType: 'document',
+    resourceId: 'doc-1',
+    policy: {
+      id: 'pol-1',
+      resource: 'document:doc-1',
+      permissions: [{ role: 'member', actions: ['read'], constraints: [], delegation: false, inheritance: false }],
+      conditions: [],
+      culturalProtocols: [],
+      emergency: { enabled: false, conditions: [], approvers: [], duration: 60, audit: true, notification: true },
+      audit: true,
+      temporary: false,
+      ...overrides,
+    },
+    requirements: requirements && {
+      traditionalGovernance: true,
+      elderApproval: false,
+      communityConsent: false,
+      seasonalRestrictions: [],
+      ceremonyRestrictions: [],
+      benefitSharing: false,
+      repatriationRights: false,
+      ...requirements,
+    },
+    timeZone: 'America/Toronto',
+    ceremonies: [],
+    updatedBy: 'steward',
+    updatedAt: '2027-01-01T00:00:00.000Z',
+    ...extra,
+  };
+}
+
+function requestFor(overrides: Partial<AccessRequest> = {}, subject: Partial<AccessRequest['subject']> = {}): AccessRequest {
+  return {
+    resourceType: 'document',
+    resourceId: 'doc-1',
+    action: 'read',
+    subject: { userId: 'u1', roles: ['member'], affiliations: ['Anishinaabe', 'Loon'], riskScore: 20, ...subject },
+    ...overrides,
+  };
+}
+
+const elderApproval = { type: 'elder_approval' as const, description: 'Elder approval for sacred stories', approvers: ['elder'], restrictions: [], override: false };
+const councilConsent = { type: 'community_consent' as const, description: 'Band council consent', approvers: ['council', 'lands_office'], restrictions: [], override: false };
+
+function grantFor(overrides: Partial<AccessGrant> = {}): AccessGrant {
+  return {
+    id: 'grant-1',
+    requestId: 'req-1',
+    resourceType: 'document',
+    resourceId: 'doc-1',
+    action: 'read',
+    userId: 'u1',
+    issuedAt: '2027-03-03T12:00:00.000Z',
+    expiresAt: '2027-03-04T12:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function response(approver: string, decision: ApprovalResponse['decision'], comment?: string): ApprovalResponse {
+  return { approverId: `${approver}-user`, approver, decision, comment, respondedAt: '2027-03-03T14:00:00.000Z' };
+}
+
+describe('decideAccess', () => {
+  it('permits where no policy applies', () => {
+    expect(decideAccess({ policy: null, request: requestFor(), at: AT })).toMatchObject({ effect: 'permit', reasons: ['No cultural access policy applies'] });
+  });
+
+  describe('in order', () => {
+    // A policy that fails every step, so each test can clear the ones before
+    const failing = (): CulturalAccessPolicy => policyWith(
+      {
+        conditions: [{ type: 'risk', operator: 'less', value: 10, description: 'Low risk session' }],
+        culturalProtocols: [elderApproval],
+      },
+      { clanRestrictions: ['Crane'], seasonalRestrictions: ['March'] }
+    );
+
+    it('checks permissions first', () => {
+      const decision = decideAccess({ policy: failing(), request: requestFor({ action: 'write' }), at: AT });
+      expect(decision).toMatchObject({ effect: 'deny', reasons: ['No write permission on document doc-1'], policyId: 'pol-1' });
+    });
+
+    it('then access conditions', () => {
+      const decision = decideAccess({ policy: failing(), request: requestFor(), at: AT });
+      expect(decision).toMatchObject({ effect: 'deny', reasons: ['Low risk session (risk score is 20)'] });
+    });
+
+    it('then the subject restrictions', () => {
+      const policy = failing();
+      policy.policy.conditions = [];
+      expect(decideAccess({ policy, request: requestFor(), at: AT }))
+        .toMatchObject({ effect: 'deny', reasons: ['Restricted to Crane clan members'] });
+    });
+
+    it('then seasonal restrictions, which no grant lifts', () => {
+      const policy = failing();
+      policy.policy.conditions = [];
+      policy.requirements!.clanRestrictions = ['Loon'];
+      expect(decideAccess({ policy, request: requestFor(), grant: grantFor(), at: AT }))
+        .toMatchObject({ effect: 'deny', reasons: ['Restricted: March'] });
+    });
+
+    it('then approvals', () => {
+      const policy = failing();
+      policy.policy.conditions = [];
+      policy.requirements!.clanRestrictions = ['Loon'];
+      policy.requirements!.seasonalRestrictions = ['July'];
+      expect(decideAccess({ policy, request: requestFor(), at: AT })).toMatchObject({
+        effect: 'approval_required',
+        reasons: ['Elder approval for sacred stories'],
+        required: [{ type: 'elder_approval', approvers: ['elder'], allOf: false }],
+      });
+    });
+  });
+
+  it('accepts an admin permission for any action and no permissions list at all', () => {
+    const admin = policyWith({ permissions: [{ role: 'Steward', actions: ['admin'], constraints: [], delegation: false, inheritance: false }] });
+    expect(decideAccess({ policy: admin, request: requestFor({ action: 'delete' }, { roles: ['steward'] }), at: AT }).effect).toBe('permit');
+    expect(decideAccess({ policy: policyWith({ permissions: [] }), request: requestFor({ action: 'write' }), at: AT }).effect).toBe('permit');
+  });
+
+  it('lists every unmet condition', () => {
+    const policy = policyWith({
+      conditions: [
+        { type: 'time', operator: 'in', value: '12:00-17:00', description: 'Afternoons only' },
+        { type: 'location', operator: 'equals', value: 'CA-ON', description: 'In Ontario' },
+        { type: 'cultural', operator: 'in', value: ['anishinaabe'], description: 'Anishinaabe members' },
+      ],
+    });
+    expect(decideAccess({ policy, request: requestFor(), at: AT }).reasons)
+      .toEqual(['Afternoons only (local time is 10:00)', 'In Ontario (location unknown)']);
+  });
+
+  it('refers gender and age restrictions it cannot confirm, and denies those it can', () => {
+    const policy = policyWith({ culturalProtocols: [elderApproval] }, { genderRestrictions: 'Women only', ageRestrictions: '18+' });
+
+    const unknown = decideAccess({ policy, request: requestFor(), at: AT });
+    expect(unknown.effect).toBe('approval_required');
+    expect(unknown.required.map(item => item.description)).toEqual([
+      'Elder approval for sacred stories',
+      'Gender restriction (Women only) cannot be confirmed',
+      'Age restriction (18+) cannot be confirmed',
+    ]);
+
+    expect(decideAccess({ policy, request: requestFor({}, { gender: 'male', age: 30 }), at: AT }))
+      .toMatchObject({ effect: 'deny', reasons: ['Restricted: Women only'] });
+    expect(decideAccess({ policy, request: requestFor({}, { gender: 'F', age: 16 }), at: AT }))
+      .toMatchObject({ effect: 'deny', reasons: ['Restricted: 18+'] });
+  });
+
+  it('refers a restriction it cannot place on the calendar to the approvers', () => {
+    const policy = policyWith({}, { seasonalRestrictions: ['Not during fasting periods'], elderApproval: true });
+    const decision = decideAccess({ policy, request: requestFor(), at: AT });
+    expect(decision.required).toEqual([
+      { type: 'elder_approval', description: 'Elder approval required for this data', approvers: ['elder'], allOf: false },
+      { type: 'elder_approval', description: 'Confirm "Not during fasting periods" is not in effect', approvers: ['elder'], allOf: false },
+    ]);
+  });
+
+  it('applies a ceremony restriction on its calendar dates', () => {
+    const policy = policyWith({}, { ceremonyRestrictions: ['Closed during Spring Feast'] }, {
+      ceremonies: [{ name: 'Spring Feast', start: '2027-03-02', end: '2027-03-04' }],
+    });
+    expect(decideAccess({ policy, request: requestFor(), at: AT })).toMatchObject({ effect: 'deny', reasons: ['Restricted: Closed during Spring Feast'] });
+    expect(decideAccess({ policy, request: requestFor(), at: new Date('2027-03-05T15:00:00Z') }).effect).toBe('permit');
+  });
+
+  describe('grants', () => {
+    const policy = policyWith({ culturalProtocols: [elderApproval] });
+
+    it('permit until they expire', () => {
+      const grant = grantFor();
+      expect(decideAccess({ policy, request: requestFor(), grant, at: AT }))
+        .toMatchObject({ effect: 'permit', grantId: 'grant-1', expiresAt: grant.expiresAt });
+      expect(decideAccess({ policy, request: requestFor(), grant, at: new Date('2027-03-04T12:00:00Z') }).effect)
+        .toBe('approval_required');
+    });
+
+    it('stop permitting once revoked', () => {
+      const grant = grantFor({ revokedAt: '2027-03-03T13:00:00.000Z', revokedBy: 'steward', revokeReason: 'Withdrawn' });
+      expect(decideAccess({ policy, request: requestFor(), grant, at: AT }).effect).toBe('approval_required');
+    });
+  });
+
+  describe('open approval requests', () => {
+    const policy = policyWith({ culturalProtocols: [elderApproval, councilConsent] });
+    const approval = (status: ApprovalRequest['status'], responses: ApprovalResponse[]): ApprovalRequest => ({
+      id: 'req-1',
+      resourceType: 'document',
+      resourceId: 'doc-1',
+      action: 'read',
+      userId: 'u1',
+      required: decideAccess({ policy, request: requestFor(), at: AT }).required,
+      responses,
+      status,
+      createdAt: '2027-03-01T00:00:00.000Z',
+      expiresAt: '2027-03-31T00:00:00.000Z',
+    });
+
+    it('show what is still outstanding', () => {
+      const decision = decideAccess({ policy, request: requestFor(), approval: approval('pending', [response('council', 'approve')]), at: AT });
+      expect(decision).toMatchObject({ effect: 'approval_required', approvalRequestId: 'req-1' });
+      expect(decision.required.map(item => item.approvers)).toEqual([['elder'], ['lands_office']]);
+    });
+
+    it('deny with the refusal once declined', () => {
+      const declined = approval('rejected', [response('elder', 'approve'), response('council', 'reject', 'Not for outside use')]);
+      expect(decideAccess({ policy, request: requestFor(), approval: declined, at: AT }))
+        .toMatchObject({ effect: 'deny', reasons: ['Declined by council: Not for outside use'], approvalRequestId: 'req-1' });
+    });
+
+    it('are ignored once expired', () => {
+      const expired = { ...approval('rejected', [response('council', 'reject')]), expiresAt: '2027-03-02T00:00:00.000Z' };
+      const decision = decideAccess({ policy, request: requestFor(), approval: expired, at: AT });
+      expect(decision.effect).toBe('approval_required');
+      expect(decision.approvalRequestId).toBeUndefined();
+    });
+  });
+
+  describe('emergency access', () => {
+    const overridable = { ...elderApproval, override: true };
+    const emergencyPolicy = (enabled: boolean) => policyWith({
+      culturalProtocols: [overridable],
+      emergency: { enabled, conditions: [], approvers: [], duration: 60, audit: true, notification: true },
+    });
+
+    it('sets aside overridable protocols with a justification', () => {
+      const decision = decideAccess({
+        policy: emergencyPolicy(true),
+        request: requestFor({ emergency: true, justification: 'Search and rescue on the trapline' }),
+        at: AT,
+      });
+      expect(decision).toMatchObject({
+        effect: 'permit',
+        reasons: ['Permitted under emergency access'],
+        overridden: ['elder_approval: Elder approval for sacred stories'],
+      });
+    });
+
+    it('needs the policy to enable it and a justification', () => {
+      expect(decideAccess({ policy: emergencyPolicy(false), request: requestFor({ emergency: true, justification: 'Urgent' }), at: AT }).effect)
+        .toBe('approval_required');
+      expect(decideAccess({ policy: emergencyPolicy(true), request: requestFor({ emergency: true, justification: '  ' }), at: AT }).effect)
+        .toBe('approval_required');
+    });
+
+    it('never sets aside what the classification requires', () => {
+      const policy = emergencyPolicy(true);
+      policy.requirements = policyWith({}, { communityConsent: true, seasonalRestrictions: ['March'] }).requirements;
+      const decision = decideAccess({ policy, request: requestFor({ emergency: true, justification: 'Urgent' }), at: AT });
+      expect(decision).toMatchObject({ effect: 'deny', reasons: ['Restricted: March'] });
+      expect(decision.overridden).toEqual(['elder_approval: Elder approval for sacred stories']);
+    });
+  });
+});
+
+describe('culturalProtocols', () => {
+  it('adds the protocols the requirements imply, with the policy\'s approvers', () => {
+    const policy = policyWith({ culturalProtocols: [{ ...elderApproval, approvers: ['knowledge_keeper'] }] }, {
+      elderApproval: true,
+      communityConsent: true,
+      seasonalRestrictions: ['Dec 21 - Jan 6'],
+    });
+    expect(culturalProtocols(policy).map(protocol => [protocol.type, protocol.approvers, protocol.override])).toEqual([
+      ['elder_approval', ['knowledge_keeper'], false],
+      ['community_consent', ['community_council'], false],
+      ['seasonal_restriction', ['knowledge_keeper'], false],
+    ]);
+  });
+});
+
+describe('approvals', () => {
+  const required: RequiredApproval[] = [
+    { type: 'elder_approval', description: 'Elder approval', approvers: ['elder', 'knowledge_keeper'], allOf: false },
+    { type: 'community_consent', description: 'Council consent', approvers: ['council', 'lands_office'], allOf: true },
+  ];
+
+  it('match approvers by role or user id, ignoring case', () => {
+    expect(approverMatches('Elder', { userId: 'e1', roles: ['elder'] })).toBe(true);
+    expect(approverMatches('e1', { userId: 'E1', roles: [] })).toBe(true);
+    expect(approverMatches('council', { userId: 'e1', roles: ['elder'] })).toBe(false);
+  });
+
+  it('need one Elder and every consenting approver', () => {
+    expect(outstandingApprovals(required, [])).toEqual(required);
+    expect(outstandingApprovals(required, [response('knowledge_keeper', 'approve'), response('council', 'approve')]))
+      .toEqual([{ ...required[1], approvers: ['lands_office'] }]);
+    expect(approvalOutcome(required, [response('elder', 'approve'), response('council', 'approve')])).toBe('pending');
+    expect(approvalOutcome(required, [response('elder', 'approve'), response('Council', 'approve'), response('lands_office', 'approve')]))
+      .toBe('approved');
+  });
+
+  it('stand refused on any refusal', () => {
+    expect(approvalOutcome(required, [
+      response('elder', 'approve'),
+      response('council', 'approve'),
+      response('lands_office', 'approve'),
+      response('knowledge_keeper', 'reject'),
+    ])).toBe('rejected');
+  });
+});
+
+describe('grantExpiry', () => {
+  it('uses the policy duration in minutes, else a day', () => {
+    const issued = new Date('2027-03-03T12:00:00Z');
+    expect(grantExpiry(policyWith({ duration: 120 }), issued).toISOString()).toBe('2027-03-03T14:00:00.000Z');
+    expect(grantExpiry(policyWith({ duration: 0 }), issued).getTime() - issued.getTime()).toBe(DEFAULT_GRANT_MINUTES * 60 * 1000);
+    expect(grantExpiry(policyWith(), issued).toISOString()).toBe('2027-03-04T12:00:00.000Z');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { ceremoniesNamedIn, checkRestriction, inWindow, parseRestrictionWindow } from '../windows';
+
+const TORONTO = 'America/Toronto';
+
+describe('parseRestrictionWindow', () => {
+  it('places month names and month-days said the community way', () => {
+    expect(parseRestrictionWindow('No access during Midwinter Ceremony (January)'))
+      .toEqual({ start: { month: 1, day: 1 }, end: { month: 1, day: 31 } });
+    expect(parseRestrictionWindow('Dec 21 - Jan 6')).toEqual({ start: { month: 12, day: 21 }, end: { month: 1, day: 6 } });
+    expect(parseRestrictionWindow('From June 21st to September'))
+      .toEqual({ start: { month: 6, day: 21 }, end: { month: 9, day: 30 } });
+    expect(parseRestrictionWindow('06-21')).toEqual({ start: { month: 6, day: 21 }, end: { month: 6, day: 21 } });
+    expect(parseRestrictionWindow('Feb')).toEqual({ start: { month: 2, day: 1 }, end: { month: 2, day: 29 } });
+  });
+
+  it('does not read "may" as the month', () => {
+    expect(parseRestrictionWindow('Access may be limited during fasting')).toBeNull();
+    expect(parseRestrictionWindow('Access may be limited in March')).toEqual({ start: { month: 3, day: 1 }, end: { month: 3, day: 31 } });
+  });
+
+  it('leaves what it cannot place', () => {
+    expect(parseRestrictionWindow('Not during fasting periods')).toBeNull();
+    expect(parseRestrictionWindow('Feb 30')).toBeNull();
+    expect(parseRestrictionWindow('13-01')).toBeNull();
+    expect(parseRestrictionWindow('Jan, Mar and May 5')).toBeNull();
+  });
+});
+
+describe('inWindow', () => {
+  const midwinter = { start: { month: 12, day: 21 }, end: { month: 1, day: 6 } };
+
+  it('wraps over the new year', () => {
+    expect(inWindow(midwinter, new Date('2026-12-21T17:00:00Z'), TORONTO)).toBe(true);
+    expect(inWindow(midwinter, new Date('2027-01-06T17:00:00Z'), TORONTO)).toBe(true);
+    expect(inWindow(midwinter, new Date('2027-01-07T17:00:00Z'), TORONTO)).toBe(false);
+    expect(inWindow(midwinter, new Date('2026-12-20T17:00:00Z'), TORONTO)).toBe(false);
+    expect(inWindow(midwinter, new Date('2026-07-01T17:00:00Z'), TORONTO)).toBe(false);
+  });
+
+  it('applies every year', () => {
+    for (const year of [2026, 2031, 2044]) {
+      expect(inWindow(midwinter, new Date(`${year}-12-31T17:00:00Z`), TORONTO)).toBe(true);
+    }
+  });
+
+  it('uses the community timezone for the day', () => {
+    // Still Jan 6 in Toronto, already Jan 7 in UTC
+    const lateEvening = new Date('2027-01-07T03:00:00Z');
+    expect(inWindow(midwinter, lateEvening, TORONTO)).toBe(true);
+    expect(inWindow(midwinter, lateEvening, 'UTC')).toBe(false);
+  });
+});
+
+describe('checkRestriction', () => {
+  const ceremonies = [
+    { name: 'Sun Dance', start: '2027-07-08', end: '2027-07-12' },
+    { name: 'Feast of the Dead', start: '2027-10-30', end: '2027-11-01' },
+  ];
+
+  it('restricts inside a seasonal window and clears outside it', () => {
+    expect(checkRestriction('Dec 21 - Jan 6', new Date('2027-01-03T12:00:00Z'), TORONTO)).toBe('restricted');
+    expect(checkRestriction('Dec 21 - Jan 6', new Date('2027-01-07T12:00:00Z'), TORONTO)).toBe('clear');
+    // 00:30 UTC on Jan 1 is still Dec 31 in Toronto
+    expect(checkRestriction('January', new Date('2027-01-01T00:30:00Z'), TORONTO)).toBe('clear');
+  });
+
+  it('takes a named ceremony\'s dates from the calendar', () => {
+    expect(checkRestriction('No access during Sun Dance', new Date('2027-07-10T12:00:00Z'), 'America/Regina', ceremonies)).toBe('restricted');
+    expect(checkRestriction('No access during Sun Dance', new Date('2027-07-12T23:00:00Z'), 'America/Regina', ceremonies)).toBe('restricted');
+    expect(checkRestriction('No access during Sun Dance', new Date('2027-07-14T12:00:00Z'), 'America/Regina', ceremonies)).toBe('clear');
+  });
+
+  it('prefers the ceremony calendar over a month named alongside it', () => {
+    expect(checkRestriction('Sun Dance (usually July)', new Date('2027-07-20T12:00:00Z'), 'America/Regina', ceremonies)).toBe('clear');
+  });
+
+  it('refers what cannot be placed', () => {
+    expect(checkRestriction('Not during fasting periods', new Date('2027-03-01T12:00:00Z'), TORONTO)).toBe('unplaced');
+    expect(checkRestriction('No access during Sun Dance', new Date('2027-07-10T12:00:00Z'), TORONTO)).toBe('unplaced');
+  });
+});
+
+describe('ceremoniesNamedIn', () => {
+  it('matches names regardless of case and ignores blank names', () => {
+    const calendar = [
+      { name: 'Sun Dance', start: '2027-07-08', end: '2027-07-12' },
+      { name: '  ', start: '2027-01-01', end: '2027-12-31' },
+    ];
+    expect(ceremoniesNamedIn('closed for the SUN DANCE', calendar)).toEqual([calendar[0]]);
+    expect(ceremoniesNamedIn('closed for harvest', calendar)).toEqual([]);
+  });
+});
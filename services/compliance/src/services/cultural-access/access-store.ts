@@ -0,0 +1,239 @@
+import { prisma } from '../../config/database';
+import { AccessType } from '../../features/security-compliance/types/security.types';
+import { AccessGrant, ApprovalRequest, CulturalAccessPolicy, GovernedResourceType } from './types';
+
+/**
+ * Where cultural access policies, approval requests and grants are kept.
+ * Prisma in the service; the in-memory store serves offline runs
+ */
+
+export interface AccessKey {
+  resourceType: GovernedResourceType;
+  resourceId: string;
+  action: AccessType;
+  userId: string;
+}
+
+export interface CulturalAccessStore {
+  // The resource's own policy, else its type's '*' policy
+  findPolicy(resourceType: GovernedResourceType, resourceId: string): Promise<CulturalAccessPolicy | null>;
+  savePolicy(policy: CulturalAccessPolicy): Promise<void>;
+  findGrant(key: AccessKey): Promise<AccessGrant | null>;
+  getGrant(id: string): Promise<AccessGrant | null>;
+  saveGrant(grant: AccessGrant): Promise<void>;
+  findApproval(key: AccessKey, at: Date): Promise<ApprovalRequest | null>;
+  getApproval(id: string): Promise<ApprovalRequest | null>;
+  saveApproval(approval: ApprovalRequest): Promise<void>;
+  pendingApprovals(at: Date): Promise<ApprovalRequest[]>;
+}
+
+function toPolicy(row: any): CulturalAccessPolicy {
+  return {
+    resourceType: row.resourceType,
+    resourceId: row.resourceId,
+    policy: row.policy,
+    requirements: row.requirements ?? undefined,
+    timeZone: row.timeZone,
+    ceremonies: row.ceremonies ?? [],
+    updatedBy: row.updatedBy,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toApproval(row: any): ApprovalRequest {
+  return {
+    id: row.id,
+    resourceType: row.resourceType,
+    resourceId: row.resourceId,
+    action: row.action,
+    userId: row.userId,
+    businessId: row.businessId ?? undefined,
+    purpose: row.purpose ?? undefined,
+    required: row.required,
+    responses: row.responses,
+    status: row.status,
+    createdAt: row.createdAt.toISOString(),
+    decidedAt: row.decidedAt?.toISOString(),
+    expiresAt: row.expiresAt.toISOString(),
+  };
+}
+
+function toGrant(row: any): AccessGrant {
+  return {
+    id: row.id,
+    requestId: row.requestId,
+    resourceType: row.resourceType,
+    resourceId: row.resourceId,
+    action: row.action,
+    userId: row.userId,
+    issuedAt: row.issuedAt.toISOString(),
+    expiresAt: row.expiresAt.toISOString(),
+    revokedAt: row.revokedAt?.toISOString(),
+    revokedBy: row.revokedBy ?? undefined,
+    revokeReason: row.revokeReason ?? undefined,
+  };
+}
+
+export class PrismaCulturalAccessStore implements CulturalAccessStore {
+  async findPolicy(resourceType: GovernedResourceType, resourceId: string): Promise<CulturalAccessPolicy | null> {
+    const rows = await prisma.culturalAccessPolicy.findMany({
+      where: { resourceType, resourceId: { in: [resourceId, '*'] } },
+    });
+    const row = rows.find((candidate: any) => candidate.resourceId === resourceId) || rows[0];
+    return row ? toPolicy(row) : null;
+  }
+
+  async savePolicy(policy: CulturalAccessPolicy): Promise<void> {
+    const data = {
+      policyId: policy.policy.id,
+      policy: policy.policy as any,
+      requirements: (policy.requirements ?? null) as any,
+      timeZone: policy.timeZone,
+      ceremonies: policy.ceremonies as any,
+      updatedBy: policy.updatedBy,
+      updatedAt: new Date(policy.updatedAt),
+    };
+    await prisma.culturalAccessPolicy.upsert({
+      where: { resourceType_resourceId: { resourceType: policy.resourceType, resourceId: policy.resourceId } },
+      create: { resourceType: policy.resourceType, resourceId: policy.resourceId, ...data },
+      update: data,
+    });
+  }
+
+  async findGrant(key: AccessKey): Promise<AccessGrant | null> {
+    const row = await prisma.culturalAccessGrant.findFirst({
+      where: { ...key, revokedAt: null },
+      orderBy: { expiresAt: 'desc' },
+    });
+    return row ? toGrant(row) : null;
+  }
+
+  async getGrant(id: string): Promise<AccessGrant | null> {
+    const row = await prisma.culturalAccessGrant.findUnique({ where: { id } });
+    return row ? toGrant(row) : null;
+  }
+
+  async saveGrant(grant: AccessGrant): Promise<void> {
+    const data = {
+      requestId: grant.requestId,
+      resourceType: grant.resourceType,
+      resourceId: grant.resourceId,
+      action: grant.action,
+      userId: grant.userId,
+      issuedAt: new Date(grant.issuedAt),
+      expiresAt: new Date(grant.expiresAt),
+      revokedAt: grant.revokedAt ? new Date(grant.revokedAt) : null,
+      revokedBy: grant.revokedBy ?? null,
+      revokeReason: grant.revokeReason ?? null,
+    };
+    await prisma.culturalAccessGrant.upsert({
+      where: { id: grant.id },
+      create: { id: grant.id, ...data },
+      update: data,
+    });
+  }
+
+  async findApproval(key: AccessKey, at: Date): Promise<ApprovalRequest | null> {
+    const row = await prisma.culturalAccessRequest.findFirst({
+      where: { ...key, status: { in: ['pending', 'rejected'] }, expiresAt: { gt: at } },
+      orderBy: { createdAt: 'desc' },
+    });
+    return row ? toApproval(row) : null;
+  }
+
+  async getApproval(id: string): Promise<ApprovalRequest | null> {
+    const row = await prisma.culturalAccessRequest.findUnique({ where: { id } });
+    return row ? toApproval(row) : null;
+  }
+
+  async saveApproval(approval: ApprovalRequest): Promise<void> {
+    const data = {
+      resourceType: approval.resourceType,
+      resourceId: approval.resourceId,
+      action: approval.action,
+      userId: approval.userId,
+      businessId: approval.businessId ?? null,
+      purpose: approval.purpose ?? null,
+      required: approval.required as any,
+      responses: approval.responses as any,
+      status: approval.status,
+      createdAt: new Date(approval.createdAt),
+      decidedAt: approval.decidedAt ? new Date(approval.decidedAt) : null,
+      expiresAt: new Date(approval.expiresAt),
+    };
+    await prisma.culturalAccessRequest.upsert({
+      where: { id: approval.id },
+      create: { id: approval.id, ...data },
+      update: data,
+    });
+  }
+
+  async pendingApprovals(at: Date): Promise<ApprovalRequest[]> {
+    const rows = await prisma.culturalAccessRequest.findMany({
+      where: { status: 'pending', expiresAt: { gt: at } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map(toApproval);
+  }
+}
+
+export class MemoryCulturalAccessStore implements CulturalAccessStore {
+  private policies = new Map<string, CulturalAccessPolicy>();
+  private grants = new Map<string, AccessGrant>();
+  private approvals = new Map<string, ApprovalRequest>();
+
+  async findPolicy(resourceType: GovernedResourceType, resourceId: string): Promise<CulturalAccessPolicy | null> {
+    return this.policies.get(`${resourceType}:${resourceId}`) || this.policies.get(`${resourceType}:*`) || null;
+  }
+
+  async savePolicy(policy: CulturalAccessPolicy): Promise<void> {
+    this.policies.set(`${policy.resourceType}:${policy.resourceId}`, policy);
+  }
+
+  async findGrant(key: AccessKey): Promise<AccessGrant | null> {
+    const grants = Array.from(this.grants.values())
+      .filter(grant => matches(grant, key) && !grant.revokedAt)
+      .sort((a, b) => b.expiresAt.localeCompare(a.expiresAt));
+    return grants[0] || null;
+  }
+
+  async getGrant(id: string): Promise<AccessGrant | null> {
+    return this.grants.get(id) || null;
+  }
+
+  async saveGrant(grant: AccessGrant): Promise<void> {
+    this.grants.set(grant.id, grant);
+  }
+
+  async findApproval(key: AccessKey, at: Date): Promise<ApprovalRequest | null> {
+    const approvals = Array.from(this.approvals.values())
+      .filter(approval =>
+        matches(approval, key) &&
+        (approval.status === 'pending' || approval.status === 'rejected') &&
+        Date.parse(approval.expiresAt) > at.getTime()
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return approvals[0] || null;
+  }
+
+  async getApproval(id: string): Promise<ApprovalRequest | null> {
+    return this.approvals.get(id) || null;
+  }
+
+  async saveApproval(approval: ApprovalRequest): Promise<void> {
+    this.approvals.set(approval.id, approval);
+  }
+
+  async pendingApprovals(at: Date): Promise<ApprovalRequest[]> {
+    return Array.from(this.approvals.values())
+      .filter(approval => approval.status === 'pending' && Date.parse(approval.expiresAt) > at.getTime())
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+}
+
+function matches(entry: AccessKey, key: AccessKey): boolean {
+  return entry.resourceType === key.resourceType &&
+    entry.resourceId === key.resourceId &&
+    entry.action === key.action &&
+    entry.userId === key.userId;
+}
@@ -0,0 +1,114 @@
+import { AccessCondition } from '../../features/security-compliance/types/security.types';
+import { WEEKDAYS, ZonedTime, zoned } from '../../utils/zoned-time';
+import { AccessSubject } from './types';
+
+/**
+ * AccessConditions against the subject and the moment of access. A
+ * condition on something we do not know about the subject fails, as does
+ * an ordering on a value that has none (a device greater than another).
+ *
+ *   time      local time in the policy's timezone. Values are "HH:MM",
+ *             a range "08:00-17:00" or a weekday ("sat"); greater and less
+ *             take "HH:MM" or an hour
+ *   location  device  network   as reported for the session
+ *   risk      the session's risk score
+ *   cultural  the subject's affiliations (nation, community, clan, standing)
+ */
+
+export interface ConditionResult {
+  met: boolean;
+  reason?: string;
+}
+
+function listed(value: AccessCondition['value']): string[] {
+  return (Array.isArray(value) ? value : [value]).map(item => String(item).trim().toLowerCase());
+}
+
+function minutesOf(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+function clock(local: ZonedTime): string {
+  return `${String(local.hour).padStart(2, '0')}:${String(local.minute).padStart(2, '0')}`;
+}
+
+// Whether one condition value describes this local moment
+function timeMatches(value: string, local: ZonedTime): boolean {
+  const now = local.hour * 60 + local.minute;
+
+  const range = /^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/.exec(value);
+  if (range) {
+    const from = minutesOf(range[1])!;
+    const to = minutesOf(range[2])!;
+    return from <= to ? now >= from && now < to : now >= from || now < to;
+  }
+  if (/^[a-z]+$/.test(value)) {
+    return WEEKDAYS.indexOf(value.slice(0, 3)) === local.weekday;
+  }
+  return minutesOf(value) === now;
+}
+
+function compare(actual: number, operator: AccessCondition['operator'], value: AccessCondition['value']): boolean {
+  const numbers = (Array.isArray(value) ? value : [value]).map(Number);
+  switch (operator) {
+    case 'equals': return actual === numbers[0];
+    case 'not_equals': return actual !== numbers[0];
+    case 'in': return numbers.includes(actual);
+    case 'not_in': return !numbers.includes(actual);
+    case 'greater': return actual > numbers[0];
+    case 'less': return actual < numbers[0];
+  }
+}
+
+export function evaluateCondition(
+  condition: AccessCondition,
+  subject: AccessSubject,
+  at: Date,
+  timeZone: string
+): ConditionResult {
+  const { type, operator } = condition;
+  const fail = (reason: string): ConditionResult => ({
+    met: false,
+    reason: condition.description ? `${condition.description} (${reason})` : reason,
+  });
+
+  if (type === 'time') {
+    const local = zoned(at, timeZone);
+    const now = local.hour * 60 + local.minute;
+
+    if (operator === 'greater' || operator === 'less') {
+      const bound = typeof condition.value === 'number' ? condition.value * 60 : minutesOf(listed(condition.value)[0] || '');
+      if (bound === null) {
+        return fail(`"${condition.value}" is not a time`);
+      }
+      return (operator === 'greater' ? now > bound : now < bound) ? { met: true } : fail(`local time is ${clock(local)}`);
+    }
+
+    const matches = listed(condition.value).some(value => timeMatches(value, local));
+    const met = operator === 'equals' || operator === 'in' ? matches : !matches;
+    return met ? { met: true } : fail(`local time is ${clock(local)}`);
+  }
+
+  if (type === 'risk') {
+    if (subject.riskScore === undefined) {
+      return fail('risk score unknown');
+    }
+    return compare(subject.riskScore, operator, condition.value) ? { met: true } : fail(`risk score is ${subject.riskScore}`);
+  }
+
+  const actual = (type === 'cultural' ? subject.affiliations : [subject[type]])
+    .filter((value): value is string => typeof value === 'string' && value.trim() !== '')
+    .map(value => value.trim().toLowerCase());
+  if (actual.length === 0) {
+    return fail(`${type} unknown`);
+  }
+  if (operator === 'greater' || operator === 'less') {
+    return fail(`${type} has no order`);
+  }
+
+  const wanted = listed(condition.value);
+  const matches = actual.some(value => wanted.includes(value));
+  const met = operator === 'equals' || operator === 'in' ? matches : !matches;
+  return met ? { met: true } : fail(type === 'cultural' ? 'affiliation does not match' : `${type} is ${actual.join(', ')}`);
+}
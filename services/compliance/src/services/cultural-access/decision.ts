@@ -0,0 +1,286 @@
+import {
+  CulturalAccessProtocol,
+  CulturalDataRequirements,
+} from '../../features/security-compliance/types/security.types';
+import { evaluateCondition } from './conditions';
+import { checkRestriction } from './windows';
+import {
+  AccessDecision,
+  AccessGrant,
+  AccessRequest,
+  AccessSubject,
+  ApprovalProtocolType,
+  ApprovalRequest,
+  ApprovalResponse,
+  ApprovalStatus,
+  CulturalAccessPolicy,
+  RequiredApproval,
+} from './types';
+
+/**
+ * The decision itself, free of storage so that it can be replayed. In order:
+ *
+ *   1. the subject's roles must carry the action in the policy's permissions
+ *   2. every AccessCondition must hold
+ *   3. gender, age and clan restrictions from the CulturalDataRequirements
+ *   4. no seasonal or ceremony restriction may be in force
+ *   5. Elder approval and community consent, met by an unexpired grant
+ *
+ * A protocol marked override may be set aside by emergency access with a
+ * justification, where the policy enables emergency access. Requirements
+ * that come from the data's classification cannot be set aside. A
+ * restriction we cannot place on the calendar, or check against the
+ * subject, is referred to the protocol's approvers
+ */
+
+// Used when the classification asks for approval but the policy names no one
+export const DEFAULT_APPROVERS: Record<ApprovalProtocolType, string[]> = {
+  elder_approval: ['elder'],
+  community_consent: ['community_council'],
+};
+
+// AccessControlPolicy.duration is in minutes
+export const DEFAULT_GRANT_MINUTES = 24 * 60;
+
+export interface DecisionInput {
+  policy: CulturalAccessPolicy | null;
+  request: AccessRequest;
+  grant?: AccessGrant | null; // The subject's latest unrevoked grant for this resource and action
+  approval?: ApprovalRequest | null; // Their latest unexpired approval request
+  at: Date;
+}
+
+export interface ApproverIdentity {
+  userId: string;
+  roles: string[];
+}
+
+function same(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function approverMatches(approver: string, identity: ApproverIdentity): boolean {
+  return same(approver, identity.userId) || identity.roles.some(role => same(approver, role));
+}
+
+/**
+ * The policy's own protocols plus those its CulturalDataRequirements imply,
+ * the latter never overridable
+ */
+export function culturalProtocols(policy: CulturalAccessPolicy): CulturalAccessProtocol[] {
+  const protocols = [...(policy.policy.culturalProtocols || [])];
+  const requirements = policy.requirements;
+  if (!requirements) {
+    return protocols;
+  }
+
+  const approversFor = (type: ApprovalProtocolType) =>
+    protocols.find(protocol => protocol.type === type && protocol.approvers.length > 0)?.approvers || DEFAULT_APPROVERS[type];
+  const implied = (
+    type: CulturalAccessProtocol['type'],
+    description: string,
+    approvers: string[],
+    restrictions: string[] = []
+  ): CulturalAccessProtocol => ({ type, description, approvers, restrictions, override: false });
+
+  if (requirements.elderApproval && !protocols.some(protocol => protocol.type === 'elder_approval')) {
+    protocols.push(implied('elder_approval', 'Elder approval required for this data', approversFor('elder_approval')));
+  }
+  if (requirements.communityConsent && !protocols.some(protocol => protocol.type === 'community_consent')) {
+    protocols.push(implied('community_consent', 'Community consent required for this data', approversFor('community_consent')));
+  }
+  if (requirements.seasonalRestrictions.length > 0) {
+    protocols.push(implied('seasonal_restriction', 'Seasonal restrictions on this data', approversFor('elder_approval'), requirements.seasonalRestrictions));
+  }
+  if (requirements.ceremonyRestrictions.length > 0) {
+    protocols.push(implied('ceremony_restriction', 'Ceremony restrictions on this data', approversFor('elder_approval'), requirements.ceremonyRestrictions));
+  }
+
+  return protocols;
+}
+
+function genderOf(word: string): string {
+  const lower = word.toLowerCase();
+  if (['woman', 'women', 'female', 'f', 'girl', 'girls'].includes(lower)) return 'female';
+  if (['man', 'men', 'male', 'm', 'boy', 'boys'].includes(lower)) return 'male';
+  return lower;
+}
+
+/**
+ * Gender, age and clan restrictions against the subject: reasons to deny,
+ * and restrictions that need someone to confirm them
+ */
+function subjectRestrictions(
+  requirements: CulturalDataRequirements,
+  subject: AccessSubject
+): { denied: string[]; referred: string[] } {
+  const denied: string[] = [];
+  const referred: string[] = [];
+  const affiliations = subject.affiliations.map(affiliation => affiliation.trim().toLowerCase());
+
+  if (requirements.clanRestrictions?.length) {
+    if (!requirements.clanRestrictions.some(clan => affiliations.includes(clan.trim().toLowerCase()))) {
+      denied.push(`Restricted to ${requirements.clanRestrictions.join(', ')} clan members`);
+    }
+  }
+
+  if (requirements.genderRestrictions?.trim()) {
+    const permitted = requirements.genderRestrictions.split(/[^a-z-]+/i).filter(Boolean).map(genderOf);
+    if (!subject.gender) {
+      referred.push(`Gender restriction (${requirements.genderRestrictions}) cannot be confirmed`);
+    } else if (!permitted.includes(genderOf(subject.gender))) {
+      denied.push(`Restricted: ${requirements.genderRestrictions}`);
+    }
+  }
+
+  if (requirements.ageRestrictions?.trim()) {
+    const minimum = /(\d+)/.exec(requirements.ageRestrictions);
+    if (!minimum || subject.age === undefined) {
+      referred.push(`Age restriction (${requirements.ageRestrictions}) cannot be confirmed`);
+    } else if (subject.age < Number(minimum[1])) {
+      denied.push(`Restricted: ${requirements.ageRestrictions}`);
+    }
+  }
+
+  return { denied, referred };
+}
+
+/**
+ * Required approvals not yet given: for community consent the approvers
+ * who have not approved, for Elder approval all of them until one has
+ */
+export function outstandingApprovals(required: RequiredApproval[], responses: ApprovalResponse[]): RequiredApproval[] {
+  const approvedBy = responses.filter(response => response.decision === 'approve').map(response => response.approver);
+
+  return required.flatMap(approval => {
+    const remaining = approval.approvers.filter(approver => !approvedBy.some(given => same(given, approver)));
+    if (approval.allOf) {
+      return remaining.length > 0 ? [{ ...approval, approvers: remaining }] : [];
+    }
+    return remaining.length === approval.approvers.length ? [approval] : [];
+  });
+}
+
+// Any approver's refusal stands: consent withheld is not outweighed
+export function approvalOutcome(required: RequiredApproval[], responses: ApprovalResponse[]): ApprovalStatus {
+  if (responses.some(response => response.decision === 'reject')) {
+    return 'rejected';
+  }
+  return outstandingApprovals(required, responses).length === 0 ? 'approved' : 'pending';
+}
+
+export function grantExpiry(policy: CulturalAccessPolicy, issuedAt: Date): Date {
+  const minutes = policy.policy.duration && policy.policy.duration > 0 ? policy.policy.duration : DEFAULT_GRANT_MINUTES;
+  return new Date(issuedAt.getTime() + minutes * 60 * 1000);
+}
+
+export function decideAccess(input: DecisionInput): AccessDecision {
+  const { policy, request, grant, approval, at } = input;
+  const decidedAt = at.toISOString();
+  const overridden: string[] = [];
+  const decision = (effect: AccessDecision['effect'], reasons: string[], extra: Partial<AccessDecision> = {}): AccessDecision => ({
+    effect,
+    reasons,
+    required: [],
+    overridden,
+    ...(policy && { policyId: policy.policy.id }),
+    ...extra,
+    decidedAt,
+  });
+
+  if (!policy) {
+    return decision('permit', ['No cultural access policy applies']);
+  }
+
+  const subject = request.subject;
+  const roles = subject.roles.map(role => role.trim().toLowerCase());
+  const permitted = policy.policy.permissions.length === 0 || policy.policy.permissions.some(permission =>
+    roles.includes(permission.role.trim().toLowerCase()) &&
+    (permission.actions.includes(request.action) || permission.actions.includes('admin'))
+  );
+  if (!permitted) {
+    return decision('deny', [`No ${request.action} permission on ${request.resourceType} ${request.resourceId}`]);
+  }
+
+  const unmet = policy.policy.conditions
+    .map(condition => evaluateCondition(condition, subject, at, policy.timeZone))
+    .filter(result => !result.met)
+    .map(result => result.reason || 'Access condition not met');
+  if (unmet.length > 0) {
+    return decision('deny', unmet);
+  }
+
+  const fromSubject = policy.requirements
+    ? subjectRestrictions(policy.requirements, subject)
+    : { denied: [], referred: [] };
+  if (fromSubject.denied.length > 0) {
+    return decision('deny', fromSubject.denied);
+  }
+
+  const emergency = Boolean(policy.policy.emergency?.enabled && request.emergency && request.justification?.trim());
+  const protocols = culturalProtocols(policy);
+  const restricted: string[] = [];
+  const required: RequiredApproval[] = [];
+  const refer = (approvers: string[], description: string) => {
+    required.push({ type: 'elder_approval', description, approvers: approvers.length > 0 ? approvers : DEFAULT_APPROVERS.elder_approval, allOf: false });
+  };
+
+  for (const protocol of protocols) {
+    if (protocol.override && emergency) {
+      overridden.push(`${protocol.type}: ${protocol.description}`);
+      continue;
+    }
+
+    if (protocol.type === 'elder_approval' || protocol.type === 'community_consent') {
+      required.push({
+        type: protocol.type,
+        description: protocol.description,
+        approvers: protocol.approvers.length > 0 ? protocol.approvers : DEFAULT_APPROVERS[protocol.type],
+        allOf: protocol.type === 'community_consent',
+      });
+      continue;
+    }
+
+    for (const restriction of protocol.restrictions) {
+      const status = checkRestriction(restriction, at, policy.timeZone, policy.ceremonies);
+      if (status === 'restricted') {
+        restricted.push(`Restricted: ${restriction}`);
+      } else if (status === 'unplaced') {
+        refer(protocol.approvers, `Confirm "${restriction}" is not in effect`);
+      }
+    }
+  }
+  for (const reason of fromSubject.referred) {
+    refer(protocols.find(protocol => protocol.type === 'elder_approval')?.approvers || [], reason);
+  }
+
+  // A grant does not lift a restriction in force: those apply at every access
+  if (restricted.length > 0) {
+    return decision('deny', restricted);
+  }
+  if (required.length === 0) {
+    return decision('permit', overridden.length > 0 ? ['Permitted under emergency access'] : ['All conditions met']);
+  }
+
+  const expiresAt = grant ? Date.parse(grant.expiresAt) : 0;
+  if (grant && !grant.revokedAt && expiresAt > at.getTime()) {
+    return decision('permit', ['Approved access grant'], { grantId: grant.id, expiresAt: grant.expiresAt });
+  }
+
+  if (approval && Date.parse(approval.expiresAt) > at.getTime()) {
+    if (approval.status === 'rejected') {
+      const refusals = approval.responses.filter(response => response.decision === 'reject');
+      return decision('deny', refusals.map(response =>
+        `Declined by ${response.approver}${response.comment ? `: ${response.comment}` : ''}`
+      ), { approvalRequestId: approval.id });
+    }
+    if (approval.status === 'pending') {
+      return decision('approval_required', ['Awaiting approval'], {
+        required: outstandingApprovals(approval.required, approval.responses),
+        approvalRequestId: approval.id,
+      });
+    }
+  }
+
+  return decision('approval_required', required.map(item => item.description), { required });
+}
@@ -0,0 +1,121 @@
+import {
+  AccessControlPolicy,
+  AccessType,
+  CulturalAccessProtocol,
+  CulturalDataRequirements,
+} from '../../features/security-compliance/types/security.types';
+
+/**
+ * Cultural Access Types
+ * A policy is the AccessControlPolicy and CulturalDataRequirements the
+ * community has set for a resource. Every read of a governed document,
+ * business record or analytics dataset asks for an AccessDecision first
+ */
+
+export type GovernedResourceType = 'document' | 'business_record' | 'analytics';
+
+export type ApprovalProtocolType = Extract<CulturalAccessProtocol['type'], 'elder_approval' | 'community_consent'>;
+
+// A ceremony whose dates move from year to year, entered by the community
+export interface CeremonyPeriod {
+  name: string;
+  start: string; // ISO date, inclusive
+  end: string; // ISO date, inclusive
+}
+
+export interface CulturalAccessPolicy {
+  resourceType: GovernedResourceType;
+  resourceId: string; // '*' covers every resource of the type without its own policy
+  policy: AccessControlPolicy;
+  requirements?: CulturalDataRequirements;
+  timeZone: string; // The community's, for seasonal windows and time conditions
+  ceremonies: CeremonyPeriod[];
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export interface AccessSubject {
+  userId: string;
+  businessId?: string;
+  roles: string[];
+  affiliations: string[]; // Nation, community, clan and standing (e.g. "elder"), as verified
+  gender?: string;
+  age?: number;
+  location?: string;
+  device?: string;
+  network?: string;
+  riskScore?: number;
+}
+
+export interface AccessRequest {
+  resourceType: GovernedResourceType;
+  resourceId: string;
+  action: AccessType;
+  subject: AccessSubject;
+  purpose?: string;
+  emergency?: boolean;
+  justification?: string; // Required with emergency
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface RequiredApproval {
+  type: ApprovalProtocolType;
+  description: string;
+  approvers: string[]; // Roles or user ids
+  allOf: boolean; // Community consent needs every approver; Elder approval any one
+}
+
+export interface ApprovalResponse {
+  approverId: string;
+  approver: string; // Which of the required approvers this response speaks for
+  decision: 'approve' | 'reject';
+  comment?: string;
+  respondedAt: string;
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+export interface ApprovalRequest {
+  id: string;
+  resourceType: GovernedResourceType;
+  resourceId: string;
+  action: AccessType;
+  userId: string;
+  businessId?: string;
+  purpose?: string;
+  required: RequiredApproval[];
+  responses: ApprovalResponse[];
+  status: ApprovalStatus;
+  createdAt: string;
+  decidedAt?: string;
+  expiresAt: string;
+}
+
+export interface AccessGrant {
+  id: string;
+  requestId: string;
+  resourceType: GovernedResourceType;
+  resourceId: string;
+  action: AccessType;
+  userId: string;
+  issuedAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+  revokedBy?: string;
+  revokeReason?: string;
+}
+
+export type AccessEffect = 'permit' | 'deny' | 'approval_required';
+
+export interface AccessDecision {
+  effect: AccessEffect;
+  reasons: string[];
+  required: RequiredApproval[]; // Outstanding approvals when approval_required
+  overridden: string[]; // Protocols set aside under emergency access
+  policyId?: string;
+  approvalRequestId?: string;
+  grantId?: string;
+  expiresAt?: string; // When a grant-backed permit lapses
+  decidedAt: string;
+}
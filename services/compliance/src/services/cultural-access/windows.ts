@@ -0,0 +1,96 @@
+import { zoned } from '../../utils/zoned-time';
+import { CeremonyPeriod } from './types';
+
+/**
+ * Seasonal and ceremony restrictions are written by the community in their
+ * own words ("No access during Midwinter Ceremony (January)"). Those that
+ * name months or month-days ("Dec 21 - Jan 6", "06-21") are placed on the
+ * calendar every year; a ceremony named in the policy's ceremony calendar
+ * takes that year's dates instead. Anything else cannot be placed and is
+ * referred to people who know when it applies
+ */
+
+export interface MonthDay {
+  month: number;
+  day: number;
+}
+
+// Inclusive; wraps over the new year when end falls before start
+export interface RestrictionWindow {
+  start: MonthDay;
+  end: MonthDay;
+}
+
+export type RestrictionStatus = 'clear' | 'restricted' | 'unplaced';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const MONTH_DAY = new RegExp(
+  '\\b(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\b\\.?' +
+  '(?:\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b)?|\\b(\\d{2})-(\\d{2})\\b',
+  'gi'
+);
+
+export function parseRestrictionWindow(text: string): RestrictionWindow | null {
+  const points: Array<{ month: number; day?: number }> = [];
+
+  for (const match of text.matchAll(MONTH_DAY)) {
+    if (match[1] === 'may') {
+      continue; // "access may be limited", not the month
+    }
+    points.push(match[1]
+      ? { month: MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()) + 1, day: match[2] ? Number(match[2]) : undefined }
+      : { month: Number(match[3]), day: Number(match[4]) });
+  }
+
+  const valid = points.every(point =>
+    point.month >= 1 && point.month <= 12 &&
+    (point.day === undefined || (point.day >= 1 && point.day <= DAYS_IN_MONTH[point.month - 1]))
+  );
+  if (points.length === 0 || points.length > 2 || !valid) {
+    return null;
+  }
+
+  const [first, last = first] = points;
+  return {
+    start: { month: first.month, day: first.day ?? 1 },
+    end: { month: last.month, day: last.day ?? DAYS_IN_MONTH[last.month - 1] },
+  };
+}
+
+export function inWindow(window: RestrictionWindow, at: Date, timeZone: string): boolean {
+  const local = zoned(at, timeZone);
+  const today = local.month * 100 + local.day;
+  const start = window.start.month * 100 + window.start.day;
+  const end = window.end.month * 100 + window.end.day;
+
+  return start <= end ? today >= start && today <= end : today >= start || today <= end;
+}
+
+export function ceremoniesNamedIn(text: string, ceremonies: CeremonyPeriod[]): CeremonyPeriod[] {
+  const lower = text.toLowerCase();
+  return ceremonies.filter(ceremony => ceremony.name.trim() && lower.includes(ceremony.name.trim().toLowerCase()));
+}
+
+export function checkRestriction(
+  text: string,
+  at: Date,
+  timeZone: string,
+  ceremonies: CeremonyPeriod[] = []
+): RestrictionStatus {
+  const named = ceremoniesNamedIn(text, ceremonies);
+  if (named.length > 0) {
+    const local = zoned(at, timeZone);
+    const today = `${local.year}-${String(local.month).padStart(2, '0')}-${String(local.day).padStart(2, '0')}`;
+    return named.some(ceremony => today >= ceremony.start.slice(0, 10) && today <= ceremony.end.slice(0, 10))
+      ? 'restricted'
+      : 'clear';
+  }
+
+  const window = parseRestrictionWindow(text);
+  if (!window) {
+    return 'unplaced';
+  }
+  return inWindow(window, at, timeZone) ? 'restricted' : 'clear';
+}
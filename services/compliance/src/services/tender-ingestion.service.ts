@@ -0,0 +1,389 @@
+import { logger } from '../utils/logger';
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import {
+  GovernmentRFQ,
+  GovernmentSystem,
+  SyncConfiguration,
+} from '../features/government-integration/types/integration.types';
+import { TenderNotice, TenderSource, TenderSyncResult } from './tender-ingestion/types';
+import { TENDER_PARSERS } from './tender-ingestion/parsers';
+import { toGovernmentRFQ } from './tender-ingestion/normalize';
+import { dedupKeys, mergeTender } from './tender-ingestion/dedup';
+import { PrismaTenderStore, TenderQuery, TenderStore } from './tender-ingestion/tender-store';
+import { nextSyncAt } from './tender-ingestion/schedule';
+
+const CANADABUYS_OPEN_TENDERS_URL =
+  'https://canadabuys.canada.ca/opendata/pub/openTenderNotice-ouvertAvisAppelOffres.csv';
+
+export class TenderIngestionService {
+  private static readonly FETCH_TIMEOUT_MS = 60000;
+  private static store: TenderStore = new PrismaTenderStore();
+  private static sources: TenderSource[] = TenderIngestionService.configuredSources();
+  private static configurations = new Map<GovernmentSystem, SyncConfiguration>();
+  private static timers = new Map<GovernmentSystem, NodeJS.Timeout>();
+  private static syncing = new Set<GovernmentSystem>();
+  private static scheduling = false;
+
+  /**
+   * Replace the tender store (the in-memory store for offline runs)
+   */
+  static useStore(store: TenderStore): void {
+    this.store = store;
+  }
+
+  static registerSource(source: TenderSource): void {
+    this.sources = [...this.sources.filter(existing => existing.name !== source.name), source];
+  }
+
+  static getSources(system?: GovernmentSystem): TenderSource[] {
+    return system ? this.sources.filter(source => source.system === system) : [...this.sources];
+  }
+
+  /**
+   * Replace a system's SyncConfiguration. Throws if its schedule cannot be
+   * placed; if scheduled sync is running the system is rescheduled now
+   */
+  static configure(configuration: SyncConfiguration): void {
+    nextSyncAt(configuration.schedule);
+    this.configurations.set(configuration.system, configuration);
+
+    if (this.scheduling && this.getSources(configuration.system).length > 0) {
+      clearTimeout(this.timers.get(configuration.system));
+      this.timers.delete(configuration.system);
+      this.scheduleNext(configuration.system);
+    }
+  }
+
+  static getConfiguration(system: GovernmentSystem): SyncConfiguration {
+    return this.configurations.get(system) || {
+      system,
+      enabled: true,
+      schedule: { frequency: 'daily', time: '02:00', timezone: 'America/Toronto' },
+      filters: {},
+      notifications: { email: false, sms: false, inApp: true },
+      retryPolicy: { maxRetries: 3, backoffMultiplier: 2, maxBackoffSeconds: 300 },
+    };
+  }
+
+  /**
+   * Fetch, parse and store one source, retrying the fetch per the
+   * system's retry policy
+   */
+  static async syncSource(source: TenderSource): Promise<TenderSyncResult> {
+    const configuration = this.getConfiguration(source.system);
+    const startedAt = new Date().toISOString();
+    let content: string;
+
+    try {
+      content = await this.fetchWithRetry(source, configuration.retryPolicy);
+    } catch (error) {
+      const result = this.emptyResult(source, startedAt);
+      result.errors.push(`Fetch failed: ${(error as Error).message}`);
+      await this.finish(result, configuration);
+      return result;
+    }
+
+    const result = await this.ingest(content, source, configuration, startedAt);
+    await this.finish(result, configuration);
+    return result;
+  }
+
+  /**
+   * Every enabled system's sources, one system at a time
+   */
+  static async syncAll(): Promise<TenderSyncResult[]> {
+    const results: TenderSyncResult[] = [];
+    const systems = Array.from(new Set(this.sources.map(source => source.system)));
+
+    for (const system of systems) {
+      if (this.getConfiguration(system).enabled) {
+        results.push(...await this.syncSystem(system));
+      }
+    }
+    return results;
+  }
+
+  static async syncSystem(system: GovernmentSystem): Promise<TenderSyncResult[]> {
+    if (this.syncing.has(system)) {
+      logger.warn(`Tender sync for ${system} already running, skipped`);
+      return [];
+    }
+
+    this.syncing.add(system);
+    try {
+      const results: TenderSyncResult[] = [];
+      for (const source of this.getSources(system)) {
+        results.push(await this.syncSource(source));
+      }
+      return results;
+    } finally {
+      this.syncing.delete(system);
+    }
+  }
+
+  /**
+   * Parse content already in hand (a fetched feed or a fixture file) and
+   * fold it into the store. Does not record a sync run or notify
+   */
+  static async ingest(
+    content: string,
+    source: TenderSource,
+    configuration: SyncConfiguration = this.getConfiguration(source.system),
+    startedAt: string = new Date().toISOString()
+  ): Promise<TenderSyncResult> {
+    const result = this.emptyResult(source, startedAt);
+    let notices: TenderNotice[];
+
+    try {
+      notices = TENDER_PARSERS[source.format].parse(content, source);
+    } catch (error) {
+      result.errors.push(`Could not parse ${source.format}: ${(error as Error).message}`);
+      result.finishedAt = new Date().toISOString();
+      return result;
+    }
+    result.fetched = notices.length;
+
+    for (const notice of notices) {
+      try {
+        const now = new Date().toISOString();
+        const rfq = toGovernmentRFQ(notice, now);
+
+        if (!this.passesFilters(rfq, configuration.filters)) {
+          result.filteredOut++;
+          continue;
+        }
+
+        const existing = await this.store.findByKeys(dedupKeys(rfq));
+        const { outcome, tender } = mergeTender(existing, rfq, now);
+        await this.store.save(tender);
+
+        if (outcome === 'created') {
+          result.created.push(tender.rfq);
+        } else if (outcome === 'amended') {
+          result.amended.push(tender.rfq);
+        } else if (outcome === 'cross_listed' || outcome === 'replaced') {
+          result.crossListed++;
+        } else {
+          result.unchanged++;
+        }
+      } catch (error) {
+        result.errors.push(`${notice.referenceNumber}: ${(error as Error).message}`);
+      }
+    }
+
+    result.finishedAt = new Date().toISOString();
+    return result;
+  }
+
+  static async listTenders(query: TenderQuery = {}): Promise<GovernmentRFQ[]> {
+    return this.store.list(query);
+  }
+
+  /**
+   * Schedule every enabled system from its SyncConfiguration. Each run
+   * schedules the next; configure() reschedules a system straight away
+   */
+  static startScheduledSync(): void {
+    this.scheduling = true;
+    const systems = Array.from(new Set(this.sources.map(source => source.system)));
+    for (const system of systems) {
+      this.scheduleNext(system);
+    }
+  }
+
+  static stopScheduledSync(): void {
+    this.scheduling = false;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  private static scheduleNext(system: GovernmentSystem): void {
+    const configuration = this.getConfiguration(system);
+    if (!configuration.enabled) {
+      return;
+    }
+
+    let next: Date;
+    try {
+      next = nextSyncAt(configuration.schedule);
+    } catch (error) {
+      logger.error(`Cannot schedule ${system} tender sync; it stays off until reconfigured:`, error);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        await this.syncSystem(system);
+      } catch (error) {
+        logger.error(`Scheduled tender sync for ${system} failed:`, error);
+      } finally {
+        if (this.timers.get(system) === timer) {
+          this.scheduleNext(system);
+        }
+      }
+    }, Math.max(0, next.getTime() - Date.now()));
+
+    this.timers.set(system, timer);
+    logger.info(`Next ${system} tender sync at ${next.toISOString()}`);
+  }
+
+  private static passesFilters(rfq: GovernmentRFQ, filters: SyncConfiguration['filters']): boolean {
+    const text = `${rfq.title}\n${rfq.description}`.toLowerCase();
+
+    if (filters.setAsideOnly && (!rfq.procurement.setAside || rfq.procurement.setAside === 'none')) {
+      return false;
+    }
+    if (filters.excludeKeywords?.some(keyword => text.includes(keyword.toLowerCase()))) {
+      return false;
+    }
+
+    // Category filters match code prefixes (e.g. "8111" or "N70") or keywords
+    if (filters.categories?.length) {
+      const codes = [...(rfq.categories.unspsc || []), ...(rfq.categories.gsin || []), ...(rfq.categories.naics || [])];
+      const keywords = rfq.categories.keywords.map(keyword => keyword.toLowerCase());
+      const matches = filters.categories.some(category =>
+        codes.some(code => code.toUpperCase().startsWith(category.toUpperCase())) ||
+        keywords.some(keyword => keyword.includes(category.toLowerCase()))
+      );
+      if (!matches) {
+        return false;
+      }
+    }
+
+    // Tenders that name no region are taken to be open nationally
+    if (filters.regions?.length && rfq.regions?.length) {
+      const regions = rfq.regions.map(region => region.toLowerCase());
+      if (!filters.regions.some(filter => regions.some(region => region.includes(filter.toLowerCase())))) {
+        return false;
+      }
+    }
+
+    const value = rfq.procurement.estimatedValue;
+    if (value && filters.valueThreshold) {
+      if (filters.valueThreshold.min !== undefined && value.max < filters.valueThreshold.min) {
+        return false;
+      }
+      if (filters.valueThreshold.max !== undefined && value.min > filters.valueThreshold.max) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private static async fetchWithRetry(source: TenderSource, policy: SyncConfiguration['retryPolicy']): Promise<string> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchSource(source);
+      } catch (error) {
+        if (attempt >= policy.maxRetries) {
+          throw error;
+        }
+        const delaySeconds = Math.min(Math.pow(policy.backoffMultiplier, attempt), policy.maxBackoffSeconds);
+        logger.warn(`Fetching ${source.name} failed, retrying in ${delaySeconds}s: ${(error as Error).message}`);
+        await new Promise(resolve => setTimeout(resolve, delaySeconds * 1000));
+      }
+    }
+  }
+
+  /**
+   * http(s) sources are downloaded; file: URLs and plain paths are read
+   * from disk, which is how fixture files are replayed offline
+   */
+  private static async fetchSource(source: TenderSource): Promise<string> {
+    if (/^https?:\/\//i.test(source.url)) {
+      const response = await axios.get<string>(source.url, {
+        responseType: 'text',
+        timeout: this.FETCH_TIMEOUT_MS,
+        transformResponse: (data: string) => data,
+      });
+      return response.data;
+    }
+
+    const location = source.url.startsWith('file:') ? fileURLToPath(source.url) : source.url;
+    return fs.readFile(location, 'utf8');
+  }
+
+  private static async finish(result: TenderSyncResult, configuration: SyncConfiguration): Promise<void> {
+    result.finishedAt = new Date().toISOString();
+
+    try {
+      await this.store.recordRun(result);
+    } catch (error) {
+      logger.error('Failed to record tender sync run:', error);
+    }
+
+    logger.info(
+      `Tender sync ${result.source}: ${result.fetched} notices, ${result.created.length} new, ` +
+      `${result.amended.length} amended, ${result.crossListed} cross-listed, ${result.filteredOut} filtered out`
+    );
+    for (const error of result.errors) {
+      logger.warn(`Tender sync ${result.source}: ${error}`);
+    }
+
+    if (result.created.length === 0 && result.amended.length === 0) {
+      return;
+    }
+    for (const webhook of configuration.notifications.webhooks || []) {
+      try {
+        await axios.post(webhook, {
+          event: 'tenders.synced',
+          system: result.system,
+          source: result.source,
+          created: result.created.map(rfq => ({ id: rfq.id, referenceNumber: rfq.referenceNumber, title: rfq.title })),
+          amended: result.amended.map(rfq => ({
+            id: rfq.id,
+            referenceNumber: rfq.referenceNumber,
+            title: rfq.title,
+            amendment: rfq.amendments[rfq.amendments.length - 1],
+          })),
+        }, { timeout: 10000 });
+      } catch (error) {
+        logger.error(`Tender sync webhook ${webhook} failed:`, error);
+      }
+    }
+  }
+
+  private static emptyResult(source: TenderSource, startedAt: string): TenderSyncResult {
+    return {
+      system: source.system,
+      source: source.name,
+      startedAt,
+      finishedAt: startedAt,
+      fetched: 0,
+      filteredOut: 0,
+      created: [],
+      amended: [],
+      unchanged: 0,
+      crossListed: 0,
+      errors: [],
+    };
+  }
+
+  /**
+   * CanadaBuys open data by default (TENDER_CANADABUYS_URL to override);
+   * MERX, BC Bid and RSS feeds come from TENDER_SOURCES, a JSON array of
+   * { system, format, url, name }
+   */
+  private static configuredSources(): TenderSource[] {
+    const sources: TenderSource[] = [{
+      system: 'BUY_AND_SELL',
+      format: 'canadabuys-csv',
+      url: process.env.TENDER_CANADABUYS_URL || CANADABUYS_OPEN_TENDERS_URL,
+      name: 'CanadaBuys open tender notices',
+    }];
+
+    if (process.env.TENDER_SOURCES) {
+      try {
+        sources.push(...JSON.parse(process.env.TENDER_SOURCES));
+      } catch (error) {
+        logger.error('TENDER_SOURCES is not valid JSON:', error);
+      }
+    }
+    return sources;
+  }
+}
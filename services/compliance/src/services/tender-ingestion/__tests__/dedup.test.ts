@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { dedupKeys, mergeTender, MergeOutcome, normalizeReference } from '../dedup';
+import { toGovernmentRFQ } from '../normalize';
+import { TENDER_FIXTURE_RUNS } from '../fixtures';
+import { StoredTender } from '../types';
+import { fixtureNotices } from './fixture-notices';
+
+const NOW = '2026-10-12T06:00:00.000Z';
+
+function rfqFrom(file: string, index: number) {
+  return toGovernmentRFQ(fixtureNotices(file)[index], NOW);
+}
+
+// The store side of a sync, kept in memory: find by any shared key, then merge
+function replay(files: string[]) {
+  const tenders = new Map<string, StoredTender>();
+  const outcomes: Array<Record<MergeOutcome, number>> = [];
+
+  for (const file of files) {
+    const counts = { created: 0, amended: 0, unchanged: 0, cross_listed: 0, replaced: 0 };
+    for (const notice of fixtureNotices(file)) {
+      const rfq = toGovernmentRFQ(notice, NOW);
+      const keys = dedupKeys(rfq);
+      const existing = Array.from(tenders.values()).find(tender => tender.keys.some(key => keys.includes(key))) || null;
+      const { outcome, tender } = mergeTender(existing, rfq, NOW);
+      tenders.set(tender.id, tender);
+      counts[outcome]++;
+    }
+    outcomes.push(counts);
+  }
+
+  return { tenders, outcomes };
+}
+
+describe('dedup keys', () => {
+  it('match a cross-posted tender on its solicitation number', () => {
+    const canadaBuys = dedupKeys(rfqFrom('canadabuys-open-tenders.csv', 0));
+    const merx = dedupKeys(rfqFrom('merx-notices.xml', 0));
+
+    expect(canadaBuys[0]).toBe('ref:W6369240001');
+    expect(merx[0]).toBe(canadaBuys[0]);
+    expect(merx).toContain('source:MERX:MERX-0000982211');
+  });
+
+  it('include the title and closing day for sources without a shared number', () => {
+    const keys = dedupKeys(rfqFrom('psib-notices.rss', 1));
+
+    expect(keys).toContain('title:it support services montreal region|2026-11-15');
+    expect(dedupKeys({ ...rfqFrom('bc-bid-opportunities.csv', 1), referenceNumber: 'A-1' }))
+      .not.toContain('ref:A1');
+  });
+
+  it('ignore punctuation and case in reference numbers', () => {
+    expect(normalizeReference('w6369-24-0001 ')).toBe('W6369240001');
+  });
+});
+
+describe('fixture replay', () => {
+  it('creates, cross-lists and amends as each fixture run expects', () => {
+    const { tenders, outcomes } = replay(TENDER_FIXTURE_RUNS.map(run => run.source.name));
+
+    outcomes.forEach((counts, index) => {
+      const expected = TENDER_FIXTURE_RUNS[index].expect;
+      expect({
+        created: counts.created,
+        amended: counts.amended,
+        crossListed: counts.cross_listed + counts.replaced,
+        unchanged: counts.unchanged,
+      }).toEqual(expected);
+    });
+    expect(tenders.size).toBe(7);
+  });
+
+  it('keeps the CanadaBuys wording of a cross-posted tender and lists every posting', () => {
+    const { tenders } = replay(['canadabuys-open-tenders.csv', 'merx-notices.xml', 'psib-notices.rss']);
+    const tender = Array.from(tenders.values()).find(held => held.rfq.referenceNumber === 'W6369-24-0001')!;
+
+    expect(tender.rfq.sourceSystem).toBe('BUY_AND_SELL');
+    expect(tender.rfq.title).toBe('IT Support Services - Montreal Region');
+    expect(tender.rfq.metadata.listings!.map(listing => listing.system)).toEqual(['BUY_AND_SELL', 'MERX', 'PSIB']);
+    expect(tender.rfq.amendments).toEqual([]);
+  });
+
+  it('lets the owning source take over a record first seen on an aggregator', () => {
+    const { tenders, outcomes } = replay(['merx-notices.xml', 'canadabuys-open-tenders.csv']);
+    const tender = Array.from(tenders.values()).find(held => held.rfq.referenceNumber === 'W6369-24-0001')!;
+
+    expect(outcomes[1].replaced).toBe(1);
+    expect(tender.rfq.sourceSystem).toBe('BUY_AND_SELL');
+    expect(tender.rfq.metadata.syncVersion).toBe(2);
+    expect(tender.rfq.amendments).toEqual([]);
+  });
+});
+
+describe('amendment detection', () => {
+  it('records what the owning source changed', () => {
+    const { tenders } = replay(['canadabuys-open-tenders.csv', 'canadabuys-open-tenders-amended.csv']);
+    const tender = Array.from(tenders.values()).find(held => held.rfq.referenceNumber === 'W6369-24-0001')!;
+    const [amendment] = tender.rfq.amendments;
+
+    expect(tender.rfq.amendments).toHaveLength(1);
+    expect(amendment.number).toBe(1);
+    expect(amendment.changes.map(change => change.field)).toEqual(['dates.closingDate', 'documents']);
+    expect(amendment.description).toBe('Changed: dates.closingDate, documents');
+    expect(amendment.documents.map(document => document.name)).toEqual(['W6369-24-0001_Amendment_001_eng.pdf']);
+    expect(tender.rfq.metadata.syncVersion).toBe(2);
+  });
+
+  it('leaves a re-posted notice that did not change alone', () => {
+    const { outcomes } = replay(['canadabuys-open-tenders.csv', 'canadabuys-open-tenders.csv']);
+
+    expect(outcomes[1]).toMatchObject({ created: 0, amended: 0, unchanged: 3 });
+  });
+
+  it('ignores wording differences from a less authoritative source', () => {
+    const existing = mergeTender(null, rfqFrom('canadabuys-open-tenders.csv', 0), NOW).tender;
+    const { outcome, tender } = mergeTender(existing, rfqFrom('merx-notices.xml', 0), NOW);
+
+    expect(outcome).toBe('cross_listed');
+    expect(tender.fingerprint).toBe(existing.fingerprint);
+    expect(tender.rfq.description).toBe(existing.rfq.description);
+  });
+});
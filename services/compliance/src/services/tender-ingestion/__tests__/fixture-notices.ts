@@ -0,0 +1,13 @@
+import { readFileSync } from 'fs';
+import { TENDER_FIXTURE_RUNS } from '../fixtures';
+import { TENDER_PARSERS } from '../parsers';
+import { TenderNotice } from '../types';
+
+// Notices parsed from a committed fixture file, by file name
+export function fixtureNotices(file: string): TenderNotice[] {
+  const run = TENDER_FIXTURE_RUNS.find(candidate => candidate.source.name === file);
+  if (!run) {
+    throw new Error(`No fixture named ${file}`);
+  }
+  return TENDER_PARSERS[run.source.format].parse(readFileSync(run.source.url, 'utf8'), run.source);
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  documentTypeFrom,
+  extractGsin,
+  procurementMethodFrom,
+  procurementTypeFrom,
+  setAsideFrom,
+  toAmount,
+  toGovernmentRFQ,
+  toIsoDate,
+} from '../normalize';
+import { fixtureNotices } from './fixture-notices';
+
+const IMPORTED_AT = '2026-10-10T06:00:00.000Z';
+
+describe('toGovernmentRFQ', () => {
+  it('maps a CanadaBuys PSIB set-aside onto GovernmentRFQ', () => {
+    const rfq = toGovernmentRFQ(fixtureNotices('canadabuys-open-tenders.csv')[0], IMPORTED_AT);
+
+    expect(rfq.id).toMatch(/^tender-[0-9a-f]{16}$/);
+    expect(rfq.procurement).toEqual({
+      method: 'open_bidding',
+      type: 'services',
+      estimatedValue: undefined,
+      setAside: 'indigenous_business',
+      securityClearance: 'reliability',
+    });
+    expect(rfq.categories.keywords).toContain('Indigenous');
+    expect(rfq.evaluation.scoringMethod).toBe('highest_score');
+    expect(rfq.dates).toMatchObject({ published: '2026-10-01', contractStartDate: '2027-01-01', contractEndDate: '2027-12-31' });
+    expect(rfq.documents.map(document => [document.name, document.type, document.language])).toEqual([
+      ['W6369-24-0001_RFP_eng.pdf', 'rfq_document', 'en'],
+      ['W6369-24-0001_SOW_eng.pdf', 'statement_of_work', 'en'],
+    ]);
+    expect(rfq.metadata).toMatchObject({
+      importedAt: IMPORTED_AT,
+      syncVersion: 1,
+      sourceAmendmentNumber: 0,
+      listings: [{ system: 'BUY_AND_SELL', sourceId: 'cb-101-12345678', url: rfq.metadata.sourceUrl }],
+    });
+  });
+
+  it('reads MERX method, category, value and zoned dates', () => {
+    const rfq = toGovernmentRFQ(fixtureNotices('merx-notices.xml')[1], IMPORTED_AT);
+
+    expect(rfq.procurement).toMatchObject({
+      method: 'selective_tendering',
+      type: 'construction',
+      estimatedValue: { min: 2500000, max: 4000000, currency: 'CAD' },
+      setAside: 'none',
+      securityClearance: 'reliability',
+    });
+    expect(rfq.dates).toMatchObject({
+      closingDate: '2026-12-04T20:00:00.000Z',
+      questionsDeadline: '2026-11-20T20:00:00.000Z',
+    });
+    expect(rfq.evaluation.scoringMethod).toBe('lowest_price');
+    expect(rfq.issuingOrganization).toMatchObject({ department: 'Regional Operations', branch: 'Ontario Region' });
+    expect(rfq.documents.map(document => document.type)).toEqual(['rfq_document', 'technical_requirements']);
+  });
+
+  it('normalizes RSS dates and marks PSIB items as set aside', () => {
+    const rfq = toGovernmentRFQ(fixtureNotices('psib-notices.rss')[0], IMPORTED_AT);
+
+    expect(rfq.dates.published).toBe('2026-10-09T13:00:00.000Z');
+    expect(rfq.dates.closingDate).toBe('2026-11-25T19:00:00.000Z');
+    expect(rfq.procurement.setAside).toBe('indigenous_business');
+    expect(rfq.procurement.type).toBe('goods_and_services');
+    expect(rfq.categories.keywords).toEqual(['Training', 'Indigenous']);
+  });
+
+  it('gives a single estimated value as both ends of the range', () => {
+    const rfq = toGovernmentRFQ(fixtureNotices('bc-bid-opportunities.csv')[0], IMPORTED_AT);
+
+    expect(rfq.procurement.estimatedValue).toEqual({ min: 750000, max: 750000, currency: 'CAD' });
+    expect(rfq.procurement.method).toBe('open_bidding');
+    expect(rfq.issuingOrganization.department).toBe('Ministry of Forests');
+  });
+
+  it('falls back to the import time when a notice has no publication date', () => {
+    const notice = { ...fixtureNotices('bc-bid-opportunities.csv')[1], dates: { closing: '2026-11-02T14:00:00-08:00' } };
+    const rfq = toGovernmentRFQ(notice, IMPORTED_AT);
+
+    expect(rfq.dates.published).toBe(IMPORTED_AT);
+    expect(rfq.dates.closingDate).toBe('2026-11-02T22:00:00.000Z');
+  });
+});
+
+describe('source wording', () => {
+  it('keeps date-only values as dates and drops what it cannot read', () => {
+    expect(toIsoDate('2026-10-12')).toBe('2026-10-12');
+    expect(toIsoDate('Fri, 09 Oct 2026 13:00:00 GMT')).toBe('2026-10-09T13:00:00.000Z');
+    expect(toIsoDate('')).toBeUndefined();
+    expect(toIsoDate('next Tuesday')).toBeUndefined();
+  });
+
+  it('reads amounts with currency symbols and separators', () => {
+    expect(toAmount('$750,000')).toBe(750000);
+    expect(toAmount('1 250 000.50')).toBe(1250000.5);
+    expect(toAmount('')).toBeUndefined();
+    expect(toAmount('n/a')).toBeUndefined();
+  });
+
+  it('maps procurement methods and categories', () => {
+    expect(procurementMethodFrom('Competitive - Selective Tendering')).toBe('selective_tendering');
+    expect(procurementMethodFrom('Non-Competitive (ACAN)')).toBe('limited_tendering');
+    expect(procurementMethodFrom('Standing Offer')).toBe('standing_offer');
+    expect(procurementMethodFrom(undefined)).toBe('open_bidding');
+    expect(procurementTypeFrom('*GD')).toBe('goods');
+    expect(procurementTypeFrom('*GD, *SRV')).toBe('goods_and_services');
+    expect(procurementTypeFrom('CNST')).toBe('construction');
+  });
+
+  it('recognizes set-aside language', () => {
+    expect(setAsideFrom('Set aside under the Procurement Strategy for Indigenous Business')).toBe('indigenous_business');
+    expect(setAsideFrom('Subject to the Comprehensive Land Claims Agreement')).toBe('comprehensive_land_claim');
+    expect(setAsideFrom('Proponents partnering with local First Nations are encouraged')).toBe('none');
+  });
+
+  it('reads GSINs and document types', () => {
+    expect(extractGsin(['*N7030, R199D', 'Computer services'])).toEqual(['N7030', 'R199D']);
+    expect(documentTypeFrom('W6369-24-0001_Amendment_001_eng.pdf')).toBe('amendment');
+    expect(documentTypeFrom('Questions and Answers')).toBe('q_and_a');
+  });
+});
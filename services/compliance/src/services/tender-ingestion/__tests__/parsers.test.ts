@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { fixtureNotices } from './fixture-notices';
+
+describe('CanadaBuys CSV parser', () => {
+  const notices = fixtureNotices('canadabuys-open-tenders.csv');
+
+  it('reads one notice per row, including quoted multi-line descriptions', () => {
+    expect(notices.map(notice => notice.referenceNumber)).toEqual(['W6369-24-0001', 'T8080-24-0102', 'EN578-24-0103']);
+    expect(notices[0]).toMatchObject({
+      system: 'BUY_AND_SELL',
+      sourceId: 'cb-101-12345678',
+      amendmentNumber: 0,
+      title: 'IT Support Services - Montreal Region',
+      procurementMethod: 'Competitive - Open Bidding',
+      procurementCategory: '*SRV',
+      regions: ['Quebec'],
+      organization: {
+        name: 'Public Services and Procurement Canada',
+        contactName: 'Sarah Johnson',
+        contactEmail: 'sarah.johnson@tpsgc-pwgsc.gc.ca',
+        contactPhone: '1-800-123-4567',
+      },
+    });
+    expect(notices[0].description.split('\n')).toHaveLength(2);
+  });
+
+  it('splits codes and attachment lists', () => {
+    expect(notices[0].codes).toEqual({ unspsc: ['81111800', '81111500'], gsin: ['N7030'], naics: [] });
+    expect(notices[0].attachments).toEqual([
+      { name: 'W6369-24-0001_RFP_eng.pdf', url: 'https://canadabuys.canada.ca/files/W6369-24-0001_RFP_eng.pdf' },
+      { name: 'W6369-24-0001_SOW_eng.pdf', url: 'https://canadabuys.canada.ca/files/W6369-24-0001_SOW_eng.pdf' },
+    ]);
+    expect(notices[1].attachments).toEqual([]);
+  });
+
+  it('reads the amendment number and date from an amended export', () => {
+    const [amended] = fixtureNotices('canadabuys-open-tenders-amended.csv');
+
+    expect(amended.amendmentNumber).toBe(1);
+    expect(amended.dates).toMatchObject({ closing: '2026-11-29 14:00:00', amended: '2026-10-12' });
+    expect(amended.attachments.map(attachment => attachment.name)).toContain('W6369-24-0001_Amendment_001_eng.pdf');
+  });
+});
+
+describe('BC Bid CSV parser', () => {
+  const notices = fixtureNotices('bc-bid-opportunities.csv');
+
+  it('uses the opportunity id as source and reference, and places regions in BC', () => {
+    expect(notices[0]).toMatchObject({
+      system: 'BC_BID',
+      sourceId: 'BCB-2026-0311',
+      referenceNumber: 'BCB-2026-0311',
+      procurementMethod: 'Request for Proposals',
+      regions: ['Cariboo, British Columbia'],
+      codes: { unspsc: ['77101600'], gsin: [], naics: [] },
+      dates: { published: '2026-10-03', closing: '2026-11-18 14:00' },
+    });
+  });
+
+  it('reads currency-formatted values and leaves blank ones out', () => {
+    expect(notices[0].estimatedValue).toEqual({ min: 750000, max: 750000, currency: 'CAD' });
+    expect(notices[1].estimatedValue).toBeUndefined();
+  });
+});
+
+describe('MERX XML parser', () => {
+  const notices = fixtureNotices('merx-notices.xml');
+
+  it('reads entities, CDATA and nested organization and contact elements', () => {
+    expect(notices.map(notice => notice.sourceId)).toEqual(['MERX-0000982211', 'MERX-0000982377']);
+    expect(notices[1]).toMatchObject({
+      referenceNumber: 'ON-2026-4471',
+      title: 'Community Water Treatment Plant Upgrade & Operator Training',
+      organization: {
+        name: 'Indigenous Services Canada',
+        department: 'Regional Operations',
+        branch: 'Ontario Region',
+        contactPhone: '416-555-0199',
+      },
+      procurementMethod: 'Invitational',
+      selectionCriteria: 'Lowest compliant price',
+    });
+    expect(notices[1].description).toMatch(/^Upgrade of the water treatment plant/);
+  });
+
+  it('reads classification, value, keywords and documents', () => {
+    expect(notices[1]).toMatchObject({
+      estimatedValue: { min: 2500000, max: 4000000, currency: 'CAD' },
+      codes: { unspsc: ['72141100'], gsin: [], naics: ['237110'] },
+      keywords: ['water treatment', 'First Nation'],
+      dates: { closing: '2026-12-04T15:00:00-05:00', questionsDeadline: '2026-11-20T15:00:00-05:00' },
+      attachments: [
+        { name: 'Tender Package', url: 'https://www.merx.com/docs/982377/tender_package.pdf' },
+        { name: 'Technical Specifications', url: 'https://www.merx.com/docs/982377/specifications.pdf' },
+      ],
+    });
+  });
+});
+
+describe('RSS parser', () => {
+  const notices = fixtureNotices('psib-notices.rss');
+
+  it('pulls labelled fields out of the item description', () => {
+    expect(notices[0]).toMatchObject({
+      system: 'PSIB',
+      sourceId: 'psib-2026-0042',
+      referenceNumber: '5Z011-26-0042',
+      organization: { name: 'Crown-Indigenous Relations and Northern Affairs Canada' },
+      regions: ['National Capital Region'],
+      codes: { unspsc: ['86101700'], gsin: ['U006A'], naics: [] },
+      keywords: ['Training'],
+      dates: { published: 'Fri, 09 Oct 2026 13:00:00 GMT', closing: '2026-11-25 14:00 EST' },
+    });
+    expect(notices[0].description).not.toContain('<p>');
+  });
+
+  it('falls back to the channel title for the organization', () => {
+    expect(notices[1]).toMatchObject({
+      referenceNumber: 'W6369-24-0001',
+      organization: { name: 'PSIB Set-Aside Opportunities' },
+      regions: [],
+    });
+  });
+});
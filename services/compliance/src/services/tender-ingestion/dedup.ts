@@ -0,0 +1,171 @@
+import { Amendment, GovernmentRFQ, GovernmentSystem, RFQListing } from '../../features/government-integration/types/integration.types';
+import { canonicalJson, sha256Hex } from '../../utils/audit-chain';
+import { StoredTender } from './types';
+
+/**
+ * Tender Deduplication and Amendment Detection
+ * The same tender is often cross-posted (CanadaBuys and MERX, or a
+ * provincial portal and MERX). Tenders are matched on their solicitation
+ * number, falling back to title and closing day, and the most
+ * authoritative source's wording is kept. A change seen from the source
+ * that owns the record is an amendment
+ */
+
+// Most authoritative first: the government's own systems, then the
+// provincial portals, then aggregators
+export const SOURCE_PRIORITY: GovernmentSystem[] = [
+  'BUY_AND_SELL',
+  'GETS',
+  'SAP_ARIBA',
+  'BC_BID',
+  'BIDCENTRAL',
+  'MERX',
+  'PSIB',
+  'ISC',
+];
+
+// Fields whose change from the owning source makes an amendment
+const TRACKED_FIELDS: Array<[string, (rfq: GovernmentRFQ) => unknown]> = [
+  ['title', rfq => rfq.title],
+  ['description', rfq => rfq.description],
+  ['dates.closingDate', rfq => rfq.dates.closingDate],
+  ['dates.questionsDeadline', rfq => rfq.dates.questionsDeadline],
+  ['dates.contractStartDate', rfq => rfq.dates.contractStartDate],
+  ['dates.contractEndDate', rfq => rfq.dates.contractEndDate],
+  ['procurement.method', rfq => rfq.procurement.method],
+  ['procurement.type', rfq => rfq.procurement.type],
+  ['procurement.estimatedValue', rfq => rfq.procurement.estimatedValue],
+  ['procurement.setAside', rfq => rfq.procurement.setAside],
+  ['procurement.securityClearance', rfq => rfq.procurement.securityClearance],
+  ['categories.unspsc', rfq => rfq.categories.unspsc],
+  ['categories.gsin', rfq => rfq.categories.gsin],
+  ['regions', rfq => rfq.regions],
+  ['documents', rfq => rfq.documents.map(document => document.url)],
+];
+
+export type MergeOutcome = 'created' | 'amended' | 'unchanged' | 'cross_listed' | 'replaced';
+
+export interface MergeResult {
+  outcome: MergeOutcome;
+  tender: StoredTender;
+}
+
+export function normalizeReference(reference: string): string {
+  return reference.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Keys a tender can be matched on. Two notices are the same tender when
+ * any key is shared
+ */
+export function dedupKeys(rfq: GovernmentRFQ): string[] {
+  const keys: string[] = [];
+  const reference = normalizeReference(rfq.referenceNumber);
+  if (reference.length >= 4) {
+    keys.push(`ref:${reference}`);
+  }
+  if (rfq.dates.closingDate) {
+    const title = rfq.title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    keys.push(`title:${title}|${rfq.dates.closingDate.slice(0, 10)}`);
+  }
+  keys.push(`source:${rfq.sourceSystem}:${rfq.sourceId}`);
+  return keys;
+}
+
+export function tenderId(rfq: GovernmentRFQ): string {
+  return `tender-${sha256Hex(dedupKeys(rfq)[0]).slice(0, 16)}`;
+}
+
+export function fingerprint(rfq: GovernmentRFQ): string {
+  return sha256Hex(canonicalJson(TRACKED_FIELDS.map(([, read]) => read(rfq) ?? null)));
+}
+
+function priority(system: GovernmentSystem): number {
+  const index = SOURCE_PRIORITY.indexOf(system);
+  return index === -1 ? SOURCE_PRIORITY.length : index;
+}
+
+function withListing(listings: RFQListing[], rfq: GovernmentRFQ): RFQListing[] {
+  const others = listings.filter(listing => !(listing.system === rfq.sourceSystem && listing.sourceId === rfq.sourceId));
+  return [...others, { system: rfq.sourceSystem, sourceId: rfq.sourceId, url: rfq.metadata.sourceUrl }]
+    .sort((a, b) => priority(a.system) - priority(b.system));
+}
+
+function changesBetween(previous: GovernmentRFQ, next: GovernmentRFQ): Amendment['changes'] {
+  return TRACKED_FIELDS
+    .filter(([, read]) => canonicalJson(read(previous) ?? null) !== canonicalJson(read(next) ?? null))
+    .map(([field, read]) => ({ field, oldValue: read(previous) ?? null, newValue: read(next) ?? null }));
+}
+
+/**
+ * Fold a freshly normalized notice into what is already held for it
+ */
+export function mergeTender(existing: StoredTender | null, incoming: GovernmentRFQ, now: string): MergeResult {
+  const keys = dedupKeys(incoming);
+
+  if (!existing) {
+    const id = tenderId(incoming);
+    const rfq = { ...incoming, id, metadata: { ...incoming.metadata, listings: withListing([], incoming) } };
+    return { outcome: 'created', tender: { id, keys, fingerprint: fingerprint(rfq), rfq } };
+  }
+
+  const held = existing.rfq;
+  const listings = withListing(held.metadata.listings || [], incoming);
+  const mergedKeys = Array.from(new Set([...existing.keys, ...keys]));
+  const sameSource = held.sourceSystem === incoming.sourceSystem;
+
+  // A lower-priority source only adds its listing
+  if (!sameSource && priority(incoming.sourceSystem) >= priority(held.sourceSystem)) {
+    const isNewListing = listings.length !== (held.metadata.listings || []).length;
+    return {
+      outcome: isNewListing ? 'cross_listed' : 'unchanged',
+      tender: { ...existing, keys: mergedKeys, rfq: { ...held, metadata: { ...held.metadata, listings } } },
+    };
+  }
+
+  const incomingFingerprint = fingerprint(incoming);
+  if (sameSource && incomingFingerprint === existing.fingerprint) {
+    return { outcome: 'unchanged', tender: { ...existing, keys: mergedKeys, rfq: { ...held, metadata: { ...held.metadata, listings } } } };
+  }
+
+  const carried = {
+    ...incoming,
+    id: existing.id,
+    amendments: held.amendments,
+    metadata: {
+      ...incoming.metadata,
+      importedAt: held.metadata.importedAt,
+      lastUpdated: now,
+      syncVersion: held.metadata.syncVersion + 1,
+      tags: held.metadata.tags,
+      listings,
+    },
+  };
+
+  // A more authoritative source takes the record over; its wording differs
+  // from the aggregator's, which is not an amendment
+  if (!sameSource) {
+    return { outcome: 'replaced', tender: { id: existing.id, keys: mergedKeys, fingerprint: incomingFingerprint, rfq: carried } };
+  }
+
+  const lastNumber = held.amendments.length > 0 ? held.amendments[held.amendments.length - 1].number : 0;
+  const heldUrls = new Set(held.documents.map(document => document.url));
+  const changes = changesBetween(held, incoming);
+  const amendment: Amendment = {
+    number: Math.max(lastNumber + 1, incoming.metadata.sourceAmendmentNumber ?? 0),
+    date: now,
+    description: `Changed: ${changes.map(change => change.field).join(', ')}`,
+    changes,
+    documents: incoming.documents.filter(document => !heldUrls.has(document.url)),
+  };
+
+  return {
+    outcome: 'amended',
+    tender: {
+      id: existing.id,
+      keys: mergedKeys,
+      fingerprint: incomingFingerprint,
+      rfq: { ...carried, amendments: [...held.amendments, amendment] },
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import path from 'path';
+import { TenderSource } from '../types';
+
+/**
+ * Recorded feeds replayed in order by src/scripts/ingest-tender-fixtures.ts,
+ * with what each run should do to the store. W6369-24-0001 is posted on
+ * CanadaBuys, MERX and the PSIB feed, then amended on CanadaBuys
+ */
+
+export interface TenderFixtureRun {
+  source: TenderSource;
+  expect: { created: number; amended: number; crossListed: number; unchanged: number };
+}
+
+function fixture(system: TenderSource['system'], format: TenderSource['format'], file: string): TenderSource {
+  return { system, format, url: path.join(__dirname, file), name: file };
+}
+
+export const TENDER_FIXTURE_RUNS: TenderFixtureRun[] = [
+  {
+    source: fixture('BUY_AND_SELL', 'canadabuys-csv', 'canadabuys-open-tenders.csv'),
+    expect: { created: 3, amended: 0, crossListed: 0, unchanged: 0 },
+  },
+  {
+    source: fixture('MERX', 'merx-xml', 'merx-notices.xml'),
+    expect: { created: 1, amended: 0, crossListed: 1, unchanged: 0 },
+  },
+  {
+    source: fixture('BC_BID', 'bc-bid-csv', 'bc-bid-opportunities.csv'),
+    expect: { created: 2, amended: 0, crossListed: 0, unchanged: 0 },
+  },
+  {
+    source: fixture('PSIB', 'rss', 'psib-notices.rss'),
+    expect: { created: 1, amended: 0, crossListed: 1, unchanged: 0 },
+  },
+  {
+    source: fixture('BUY_AND_SELL', 'canadabuys-csv', 'canadabuys-open-tenders-amended.csv'),
+    expect: { created: 0, amended: 1, crossListed: 0, unchanged: 2 },
+  },
+];
@@ -0,0 +1,203 @@
+import {
+  DocumentType,
+  GovernmentRFQ,
+  ProcurementMethod,
+  ProcurementType,
+  SecurityLevel,
+  SetAsideType,
+} from '../../features/government-integration/types/integration.types';
+import { sha256Hex } from '../../utils/audit-chain';
+import { tenderId } from './dedup';
+import { TenderNotice } from './types';
+
+/**
+ * Tender Normalization
+ * Source wording (procurement method, category, set-aside language,
+ * commodity codes) mapped onto GovernmentRFQ
+ */
+
+export function toIsoDate(value: string | undefined | null): string | undefined {
+  if (!value || !value.trim()) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  // Date-only values are kept as dates rather than shifted by a timezone
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    return trimmed;
+  }
+  const parsed = Date.parse(trimmed);
+  return Number.isNaN(parsed) ? undefined : new Date(parsed).toISOString();
+}
+
+export function toAmount(value: string | undefined | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const digits = value.replace(/[^0-9.-]/g, '');
+  const amount = Number(digits);
+  return digits === '' || Number.isNaN(amount) ? undefined : amount;
+}
+
+/**
+ * Split a multi-valued cell ("a, b; c" or one per line)
+ */
+export function splitList(value: string | undefined | null): string[] {
+  return (value || '').split(/[\n;,|]+/).map(item => item.trim()).filter(Boolean);
+}
+
+export function extractUnspsc(values: string[]): string[] {
+  return unique(values.flatMap(value => value.match(/\b\d{8}\b/g) || []));
+}
+
+// GSINs are a letter code (N7030, R199D, D302A) possibly prefixed with *
+export function extractGsin(values: string[]): string[] {
+  return unique(values.flatMap(value =>
+    splitList(value)
+      .map(item => /^\*?([A-Z]{1,2}\d{1,4}[A-Z]{0,2})\b/.exec(item.trim().toUpperCase())?.[1])
+      .filter((code): code is string => Boolean(code))
+  ));
+}
+
+export function extractNaics(values: string[]): string[] {
+  return unique(values.flatMap(value => value.match(/\b\d{2,6}\b/g) || []));
+}
+
+export function procurementMethodFrom(text: string | undefined): ProcurementMethod {
+  const value = text || '';
+  if (/standing offer/i.test(value)) return 'standing_offer';
+  if (/supply arrangement/i.test(value)) return 'supply_arrangement';
+  if (/limited|sole.?source|non.?competitive|ACAN/i.test(value)) return 'limited_tendering';
+  if (/selective|invitational|pre.?qualified|qualified suppliers/i.test(value)) return 'selective_tendering';
+  return 'open_bidding';
+}
+
+export function procurementTypeFrom(category: string | undefined): ProcurementType {
+  const value = category || '';
+  if (/CNST|construction/i.test(value)) return 'construction';
+  if (/leas/i.test(value)) return 'leasing';
+  const goods = /\bGD\b|\*GD|TGD|goods/i.test(value);
+  const services = /SRV|service/i.test(value);
+  if (goods && services) return 'goods_and_services';
+  if (services) return 'services';
+  if (goods) return 'goods';
+  return 'goods_and_services';
+}
+
+export function setAsideFrom(text: string): SetAsideType {
+  if (/\bPSIB\b|Procurement Strategy for Indigenous Business|set.?aside for Indigenous|Indigenous (business )?set.?aside/i.test(text)) {
+    return 'indigenous_business';
+  }
+  if (/Comprehensive Land Claims?|\bCLCA\b/i.test(text)) return 'comprehensive_land_claim';
+  if (/set.?aside for small business|small business set.?aside/i.test(text)) return 'small_business';
+  return 'none';
+}
+
+export function securityLevelFrom(text: string): SecurityLevel | undefined {
+  if (/top.?secret/i.test(text)) return 'top_secret';
+  if (/\bsecret\b/i.test(text)) return 'secret';
+  if (/\bconfidential\b/i.test(text)) return 'confidential';
+  if (/\breliability\b/i.test(text)) return 'reliability';
+  return undefined;
+}
+
+export function scoringMethodFrom(text: string | undefined): GovernmentRFQ['evaluation']['scoringMethod'] {
+  if (/lowest/i.test(text || '')) return 'lowest_price';
+  if (/highest|point|rated|score/i.test(text || '')) return 'highest_score';
+  return 'value_for_money';
+}
+
+export function documentTypeFrom(name: string): DocumentType {
+  if (/amend|modif/i.test(name)) return 'amendment';
+  if (/(^|[^a-z])sow([^a-z]|$)|statement.of.work/i.test(name)) return 'statement_of_work';
+  if (/q.?&.?a|question/i.test(name)) return 'q_and_a';
+  if (/eval/i.test(name)) return 'evaluation_criteria';
+  if (/terms|conditions/i.test(name)) return 'terms_and_conditions';
+  if (/security|srcl/i.test(name)) return 'security_requirements';
+  if (/form|template/i.test(name)) return 'form_template';
+  if (/technical|spec/i.test(name)) return 'technical_requirements';
+  return 'rfq_document';
+}
+
+function languageFrom(name: string): 'en' | 'fr' | 'bilingual' {
+  if (/[_-](f|fr|fra)\b|french|fran[cç]ais/i.test(name)) return 'fr';
+  if (/[_-](e|en|eng)\b|english/i.test(name)) return 'en';
+  return 'bilingual';
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+export function toGovernmentRFQ(notice: TenderNotice, importedAt: string): GovernmentRFQ {
+  const text = `${notice.title}\n${notice.description}\n${notice.procurementMethod || ''}`;
+  const setAside = setAsideFrom(text);
+  const min = notice.estimatedValue?.min ?? notice.estimatedValue?.max;
+  const max = notice.estimatedValue?.max ?? notice.estimatedValue?.min;
+  const published = toIsoDate(notice.dates.published) || importedAt;
+
+  const rfq: GovernmentRFQ = {
+    id: '',
+    sourceSystem: notice.system,
+    sourceId: notice.sourceId,
+    referenceNumber: notice.referenceNumber,
+    title: notice.title,
+    description: notice.description,
+    issuingOrganization: {
+      name: notice.organization.name,
+      department: notice.organization.department || notice.organization.name,
+      branch: notice.organization.branch,
+      contactName: notice.organization.contactName || '',
+      contactEmail: notice.organization.contactEmail || '',
+      contactPhone: notice.organization.contactPhone,
+    },
+    procurement: {
+      method: procurementMethodFrom(notice.procurementMethod),
+      type: procurementTypeFrom(notice.procurementCategory),
+      estimatedValue: min !== undefined && max !== undefined
+        ? { min, max, currency: notice.estimatedValue?.currency || 'CAD' }
+        : undefined,
+      setAside,
+      securityClearance: securityLevelFrom(text),
+    },
+    categories: {
+      unspsc: notice.codes.unspsc,
+      gsin: notice.codes.gsin,
+      naics: notice.codes.naics,
+      keywords: unique([...notice.keywords, ...(setAside === 'indigenous_business' ? ['Indigenous'] : [])]),
+    },
+    regions: notice.regions,
+    dates: {
+      published,
+      closingDate: toIsoDate(notice.dates.closing) || '',
+      questionsDeadline: toIsoDate(notice.dates.questionsDeadline),
+      contractStartDate: toIsoDate(notice.dates.contractStart),
+      contractEndDate: toIsoDate(notice.dates.contractEnd),
+    },
+    documents: notice.attachments.map(attachment => ({
+      id: `doc-${sha256Hex(attachment.url).slice(0, 16)}`,
+      name: attachment.name,
+      type: documentTypeFrom(attachment.name),
+      url: attachment.url,
+      size: 0, // Not published by the feeds
+      language: languageFrom(attachment.name),
+      uploadedDate: toIsoDate(notice.dates.amended) || published,
+      isMandatory: false,
+    })),
+    amendments: [],
+    requirements: {},
+    evaluation: {
+      criteria: [],
+      scoringMethod: scoringMethodFrom(notice.selectionCriteria),
+    },
+    metadata: {
+      importedAt,
+      lastUpdated: importedAt,
+      syncVersion: 1,
+      sourceUrl: notice.url,
+      sourceAmendmentNumber: notice.amendmentNumber,
+      listings: [{ system: notice.system, sourceId: notice.sourceId, url: notice.url }],
+    },
+  };
+
+  return { ...rfq, id: tenderId(rfq) };
+}
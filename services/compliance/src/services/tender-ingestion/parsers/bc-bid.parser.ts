@@ -0,0 +1,82 @@
+import { parseCsv } from '../csv';
+import { extractUnspsc, splitList, toAmount } from '../normalize';
+import { TenderNotice, TenderParser, TenderSource } from '../types';
+
+/**
+ * BC Bid opportunity export (CSV). Column headings have changed between
+ * exports, so each field is looked up under the headings it has appeared as
+ */
+
+const COLUMNS = {
+  id: ['opportunityid', 'opportunitynumber', 'id'],
+  title: ['opportunitydescription', 'description', 'title'],
+  summary: ['summary', 'details', 'opportunitydetails'],
+  organization: ['organization', 'issuedby', 'ministry'],
+  type: ['opportunitytype', 'solicitationtype', 'type'],
+  category: ['category', 'commoditytype'],
+  commodities: ['commoditycodes', 'commodities', 'unspsc'],
+  region: ['region', 'deliveryregion', 'location'],
+  issued: ['issuedate', 'issueddate', 'publisheddate'],
+  closing: ['closingdate', 'closedate'],
+  amendment: ['amendment', 'amendmentnumber', 'addendum'],
+  amended: ['lastupdated', 'amendmentdate'],
+  contactName: ['contactname', 'contact'],
+  contactEmail: ['contactemail', 'email'],
+  value: ['estimatedvalue', 'value'],
+  url: ['url', 'link', 'opportunityurl'],
+};
+
+function reader(record: Record<string, string>): (field: keyof typeof COLUMNS) => string {
+  const columns = new Map(Object.entries(record).map(([heading, value]) => [heading.toLowerCase().replace(/[^a-z0-9]/g, ''), value.trim()]));
+  return field => COLUMNS[field].map(heading => columns.get(heading)).find(Boolean) || '';
+}
+
+function toNotice(record: Record<string, string>, source: TenderSource): TenderNotice | null {
+  const get = reader(record);
+  const id = get('id');
+  if (!id || !get('title')) {
+    return null;
+  }
+
+  const value = toAmount(get('value'));
+
+  return {
+    system: source.system,
+    sourceId: id,
+    referenceNumber: id,
+    amendmentNumber: toAmount(get('amendment')),
+    title: get('title'),
+    description: get('summary'),
+    url: get('url') || undefined,
+    organization: {
+      name: get('organization') || 'Province of British Columbia',
+      contactName: get('contactName'),
+      contactEmail: get('contactEmail'),
+    },
+    procurementMethod: get('type'),
+    procurementCategory: get('category'),
+    estimatedValue: value !== undefined ? { min: value, max: value, currency: 'CAD' } : undefined,
+    codes: {
+      unspsc: extractUnspsc([get('commodities')]),
+      gsin: [],
+      naics: [],
+    },
+    keywords: [],
+    regions: splitList(get('region')).map(region => /british columbia|\bBC\b/i.test(region) ? region : `${region}, British Columbia`),
+    dates: {
+      published: get('issued'),
+      closing: get('closing'),
+      amended: get('amended') || undefined,
+    },
+    attachments: [],
+  };
+}
+
+export const bcBidCsvParser: TenderParser = {
+  format: 'bc-bid-csv',
+  parse(content: string, source: TenderSource): TenderNotice[] {
+    return parseCsv(content)
+      .map(record => toNotice(record, source))
+      .filter((notice): notice is TenderNotice => notice !== null);
+  },
+};
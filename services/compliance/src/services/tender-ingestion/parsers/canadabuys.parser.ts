@@ -0,0 +1,94 @@
+import { parseCsv } from '../csv';
+import { extractGsin, extractUnspsc, splitList, toAmount } from '../normalize';
+import { TenderNotice, TenderParser, TenderSource } from '../types';
+
+/**
+ * CanadaBuys open data (the tender notice CSV and its JSON rendering).
+ * Columns are bilingual, e.g. "title-titre-eng" / "title-titre-fra" and
+ * "gsin-nibs"; a row is read by the part before the first dash, taking
+ * the English column where there are two
+ */
+
+type CanadaBuysRow = Record<string, string>;
+
+function byField(record: Record<string, unknown>): CanadaBuysRow {
+  const row: CanadaBuysRow = {};
+  for (const [column, value] of Object.entries(record)) {
+    if (/-fra$/i.test(column)) {
+      continue;
+    }
+    const field = column.split('-')[0].trim();
+    if (row[field] === undefined || /-eng$/i.test(column)) {
+      row[field] = value === null || value === undefined ? '' : String(value).trim();
+    }
+  }
+  return row;
+}
+
+function fileName(url: string): string {
+  const path = url.split('?')[0].replace(/\/+$/, '');
+  return decodeURIComponent(path.slice(path.lastIndexOf('/') + 1)) || url;
+}
+
+function toNotice(row: CanadaBuysRow, source: TenderSource): TenderNotice | null {
+  const referenceNumber = row.solicitationNumber || row.referenceNumber;
+  if (!referenceNumber || !row.title) {
+    return null;
+  }
+
+  return {
+    system: source.system,
+    sourceId: row.referenceNumber || referenceNumber,
+    referenceNumber,
+    amendmentNumber: toAmount(row.amendmentNumber),
+    title: row.title,
+    description: row.tenderDescription || '',
+    url: row.noticeURL || undefined,
+    organization: {
+      name: row.contractingEntityName || 'Government of Canada',
+      contactName: row.contactInfoName,
+      contactEmail: row.contactInfoEmail,
+      contactPhone: row.contactInfoPhone,
+    },
+    procurementMethod: [row.procurementMethod, row.limitedTenderingReason].filter(Boolean).join(' - '),
+    procurementCategory: row.procurementCategory,
+    selectionCriteria: row.selectionCriteria,
+    codes: {
+      unspsc: extractUnspsc([row.unspsc || '']),
+      gsin: extractGsin([row.gsin || '']),
+      naics: [],
+    },
+    keywords: splitList(row.gsinDescription).concat(splitList(row.unspscDescription)),
+    regions: splitList(row.regionsOfDelivery || row.regionsOfOpportunity),
+    dates: {
+      published: row.publicationDate,
+      closing: row.tenderClosingDate,
+      contractStart: row.expectedContractStartDate,
+      contractEnd: row.expectedContractEndDate,
+      amended: row.amendmentDate,
+    },
+    attachments: splitList(row.attachment)
+      .filter(url => /^https?:\/\//i.test(url))
+      .map(url => ({ name: fileName(url), url })),
+  };
+}
+
+export const canadaBuysCsvParser: TenderParser = {
+  format: 'canadabuys-csv',
+  parse(content: string, source: TenderSource): TenderNotice[] {
+    return parseCsv(content)
+      .map(record => toNotice(byField(record), source))
+      .filter((notice): notice is TenderNotice => notice !== null);
+  },
+};
+
+export const canadaBuysJsonParser: TenderParser = {
+  format: 'canadabuys-json',
+  parse(content: string, source: TenderSource): TenderNotice[] {
+    const body = JSON.parse(content);
+    const records: Record<string, unknown>[] = Array.isArray(body) ? body : body.data || body.records || [];
+    return records
+      .map(record => toNotice(byField(record), source))
+      .filter((notice): notice is TenderNotice => notice !== null);
+  },
+};
@@ -0,0 +1,13 @@
+import { TenderFormat, TenderParser } from '../types';
+import { canadaBuysCsvParser, canadaBuysJsonParser } from './canadabuys.parser';
+import { merxXmlParser } from './merx.parser';
+import { bcBidCsvParser } from './bc-bid.parser';
+import { rssParser } from './rss.parser';
+
+export const TENDER_PARSERS: Record<TenderFormat, TenderParser> = {
+  'canadabuys-csv': canadaBuysCsvParser,
+  'canadabuys-json': canadaBuysJsonParser,
+  'merx-xml': merxXmlParser,
+  'bc-bid-csv': bcBidCsvParser,
+  rss: rssParser,
+};
@@ -0,0 +1,83 @@
+import { childText, findAll, parseXml, XmlElement } from '../xml';
+import { extractGsin, extractNaics, extractUnspsc, splitList, toAmount } from '../normalize';
+import { TenderNotice, TenderParser, TenderSource } from '../types';
+
+/**
+ * MERX notice export (XML): one <notice> per opportunity, with
+ * <amendment number=".." date=".."/> once a notice has been amended and
+ * <estimatedValue currency=".." min=".." max=".."/> when one is published
+ */
+
+function first(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(child => child.name === name);
+}
+
+function all(element: XmlElement | undefined, name: string): string[] {
+  return element ? element.children.filter(child => child.name === name).map(child => child.text) : [];
+}
+
+function toNotice(notice: XmlElement, source: TenderSource): TenderNotice | null {
+  const referenceNumber = childText(notice, 'solicitationNumber') || notice.attributes.id;
+  const title = childText(notice, 'title');
+  if (!referenceNumber || !title) {
+    return null;
+  }
+
+  const organization = first(notice, 'organization');
+  const contact = first(notice, 'contact');
+  const classification = first(notice, 'classification');
+  const value = first(notice, 'estimatedValue');
+  const amendments = notice.children.filter(child => child.name === 'amendment');
+  const latestAmendment = amendments[amendments.length - 1];
+
+  return {
+    system: source.system,
+    sourceId: notice.attributes.id || referenceNumber,
+    referenceNumber,
+    amendmentNumber: toAmount(latestAmendment?.attributes.number),
+    title,
+    description: childText(notice, 'description'),
+    url: childText(notice, 'url') || undefined,
+    organization: {
+      name: organization ? childText(organization, 'name') : 'Unknown',
+      department: organization ? childText(organization, 'department') || undefined : undefined,
+      branch: organization ? childText(organization, 'branch') || undefined : undefined,
+      contactName: contact ? childText(contact, 'name') : undefined,
+      contactEmail: contact ? childText(contact, 'email') : undefined,
+      contactPhone: contact ? childText(contact, 'phone') || undefined : undefined,
+    },
+    procurementMethod: childText(notice, 'procurementMethod'),
+    procurementCategory: childText(notice, 'category'),
+    selectionCriteria: childText(notice, 'evaluationMethod'),
+    estimatedValue: value
+      ? { min: toAmount(value.attributes.min), max: toAmount(value.attributes.max), currency: value.attributes.currency }
+      : undefined,
+    codes: {
+      unspsc: extractUnspsc(all(classification, 'unspsc')),
+      gsin: extractGsin(all(classification, 'gsin')),
+      naics: extractNaics(all(classification, 'naics')),
+    },
+    keywords: all(first(notice, 'keywords'), 'keyword'),
+    regions: all(first(notice, 'regions'), 'region').flatMap(splitList),
+    dates: {
+      published: childText(notice, 'publishedDate'),
+      closing: childText(notice, 'closingDate'),
+      questionsDeadline: childText(notice, 'questionsDeadline') || undefined,
+      contractStart: childText(notice, 'contractStartDate') || undefined,
+      contractEnd: childText(notice, 'contractEndDate') || undefined,
+      amended: latestAmendment?.attributes.date,
+    },
+    attachments: findAll(notice, 'document')
+      .filter(document => document.attributes.url)
+      .map(document => ({ name: document.text || document.attributes.url, url: document.attributes.url })),
+  };
+}
+
+export const merxXmlParser: TenderParser = {
+  format: 'merx-xml',
+  parse(content: string, source: TenderSource): TenderNotice[] {
+    return findAll(parseXml(content), 'notice')
+      .map(notice => toNotice(notice, source))
+      .filter((notice): notice is TenderNotice => notice !== null);
+  },
+};
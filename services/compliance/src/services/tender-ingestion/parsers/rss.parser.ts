@@ -0,0 +1,75 @@
+import { childText, findAll, parseXml, XmlElement } from '../xml';
+import { extractGsin, extractNaics, extractUnspsc } from '../normalize';
+import { TenderNotice, TenderParser, TenderSource } from '../types';
+
+/**
+ * RSS 2.0 notice feeds. Items carry less structure than the exports, so
+ * the reference number, closing date and codes are read out of the
+ * description where the feed puts them there ("Closing date: ...")
+ */
+
+function labelled(text: string, label: string): string | undefined {
+  return new RegExp(`${label}\\s*:\\s*([^\\n<]+)`, 'i').exec(text)?.[1].trim();
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<br\s*\/?>|<\/p>/gi, '\n').replace(/<[^>]+>/g, '').replace(/[ \t]+/g, ' ').trim();
+}
+
+function toNotice(item: XmlElement, source: TenderSource, channelTitle: string): TenderNotice | null {
+  const title = childText(item, 'title');
+  const description = stripHtml(childText(item, 'description'));
+  const guid = childText(item, 'guid');
+  const link = childText(item, 'link');
+  const referenceNumber = labelled(description, '(?:Solicitation|Reference)(?: number| no\\.?)?') || guid || link;
+  if (!title || !referenceNumber) {
+    return null;
+  }
+
+  const categories = item.children.filter(child => child.name === 'category').map(child => child.text);
+  const codeText = [description, ...categories];
+
+  return {
+    system: source.system,
+    sourceId: guid || link || referenceNumber,
+    referenceNumber,
+    title,
+    description,
+    url: link || undefined,
+    organization: {
+      name: labelled(description, 'Organization') || labelled(description, 'Department') || channelTitle,
+      contactName: labelled(description, 'Contact'),
+      contactEmail: labelled(description, 'Email'),
+    },
+    procurementMethod: labelled(description, 'Procurement method'),
+    procurementCategory: labelled(description, 'Category'),
+    codes: {
+      unspsc: extractUnspsc(codeText),
+      gsin: extractGsin([labelled(description, 'GSIN') || '', ...categories]),
+      naics: extractNaics([labelled(description, 'NAICS') || '']),
+    },
+    keywords: categories.filter(category => !/^\*?[A-Z]{0,2}\d+[A-Z]{0,2}$/.test(category)),
+    regions: (labelled(description, 'Region') || '').split(/[;,]/).map(region => region.trim()).filter(Boolean),
+    dates: {
+      published: childText(item, 'pubDate'),
+      closing: labelled(description, 'Closing date'),
+    },
+    attachments: item.children
+      .filter(child => child.name === 'enclosure' && child.attributes.url)
+      .map(child => ({ name: child.attributes.url.split('/').pop() || child.attributes.url, url: child.attributes.url })),
+  };
+}
+
+export const rssParser: TenderParser = {
+  format: 'rss',
+  parse(content: string, source: TenderSource): TenderNotice[] {
+    const channel = findAll(parseXml(content), 'channel')[0];
+    if (!channel) {
+      throw new Error('Not an RSS feed: no <channel>');
+    }
+    const channelTitle = childText(channel, 'title') || source.name;
+    return findAll(channel, 'item')
+      .map(item => toNotice(item, source, channelTitle))
+      .filter((notice): notice is TenderNotice => notice !== null);
+  },
+};
@@ -0,0 +1,79 @@
+import { SyncConfiguration } from '../../features/government-integration/types/integration.types';
+import { WEEKDAYS, zoned } from '../../utils/zoned-time';
+
+/**
+ * When a source is next due, from its SyncConfiguration schedule, in the
+ * schedule's timezone (so "daily at 06:00 America/Toronto" stays at 06:00
+ * across daylight saving changes).
+ *
+ *   realtime  every REALTIME_INTERVAL_MINUTES
+ *   hourly    each hour, at the minute of `time` if given ("00:15")
+ *   daily     at `time`, default 02:00
+ *   weekly    at `time` with an optional day, e.g. "mon 02:00" (default Monday)
+ */
+
+export const REALTIME_INTERVAL_MINUTES = 5;
+
+function offsetAt(instant: number, timeZone: string): number {
+  const wall = zoned(new Date(instant), timeZone);
+  const seconds = new Date(instant).getUTCSeconds();
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, seconds) - Math.floor(instant / 1000) * 1000;
+}
+
+// The instant a wall-clock time occurs in a timezone. Day overflow
+// (day 32) rolls into the next month as Date.UTC does
+function fromZoned(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const first = guess - offsetAt(guess, timeZone);
+  return new Date(guess - offsetAt(first, timeZone));
+}
+
+function parseTime(time: string | undefined, fallback: string): { weekday?: number; hour: number; minute: number } {
+  const match = /^\s*(?:([a-z]{3})[a-z]*\s+)?(\d{1,2}):(\d{2})\s*$/i.exec(time || fallback);
+  if (!match) {
+    throw new Error(`Unrecognised sync time "${time}"`);
+  }
+  const weekday = match[1] ? WEEKDAYS.indexOf(match[1].toLowerCase()) : undefined;
+  if (weekday === -1) {
+    throw new Error(`Unrecognised day in sync time "${time}"`);
+  }
+  const hour = Number(match[2]);
+  const minute = Number(match[3]);
+  if (hour > 23 || minute > 59) {
+    throw new Error(`Sync time "${time}" is not a time of day`);
+  }
+  return { weekday, hour, minute };
+}
+
+export function nextSyncAt(schedule: SyncConfiguration['schedule'], from: Date = new Date()): Date {
+  const timeZone = schedule.timezone || 'UTC';
+
+  switch (schedule.frequency) {
+    case 'realtime':
+      return new Date(from.getTime() + REALTIME_INTERVAL_MINUTES * 60 * 1000);
+
+    case 'hourly': {
+      const { minute } = parseTime(schedule.time, '00:00');
+      const now = zoned(from, timeZone);
+      const candidate = fromZoned(now.year, now.month, now.day, now.hour, minute, timeZone);
+      return candidate > from ? candidate : new Date(candidate.getTime() + 60 * 60 * 1000);
+    }
+
+    case 'daily':
+    case 'weekly': {
+      const { weekday, hour, minute } = parseTime(schedule.time, schedule.frequency === 'weekly' ? 'mon 02:00' : '02:00');
+      const now = zoned(from, timeZone);
+      const step = schedule.frequency === 'weekly' ? 7 : 1;
+      let ahead = schedule.frequency === 'weekly' ? ((weekday ?? 1) - now.weekday + 7) % 7 : 0;
+      let candidate = fromZoned(now.year, now.month, now.day + ahead, hour, minute, timeZone);
+      if (candidate <= from) {
+        ahead += step;
+        candidate = fromZoned(now.year, now.month, now.day + ahead, hour, minute, timeZone);
+      }
+      return candidate;
+    }
+
+    default:
+      throw new Error(`Unknown sync frequency ${(schedule as any).frequency}`);
+  }
+}
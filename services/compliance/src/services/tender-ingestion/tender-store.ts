@@ -0,0 +1,114 @@
+import { prisma } from '../../config/database';
+import { GovernmentRFQ, GovernmentSystem } from '../../features/government-integration/types/integration.types';
+import { StoredTender, TenderSyncResult } from './types';
+
+/**
+ * Where ingested tenders are kept. Prisma in the service; the in-memory
+ * store lets fixture runs work offline without a database
+ */
+
+export interface TenderQuery {
+  system?: GovernmentSystem;
+  openOnly?: boolean;
+  limit?: number;
+}
+
+export interface TenderStore {
+  findByKeys(keys: string[]): Promise<StoredTender | null>;
+  save(tender: StoredTender): Promise<void>;
+  list(query?: TenderQuery): Promise<GovernmentRFQ[]>;
+  recordRun(result: TenderSyncResult): Promise<void>;
+}
+
+function closingTime(rfq: GovernmentRFQ): number {
+  return rfq.dates.closingDate ? Date.parse(rfq.dates.closingDate) : Number.POSITIVE_INFINITY;
+}
+
+export class PrismaTenderStore implements TenderStore {
+  async findByKeys(keys: string[]): Promise<StoredTender | null> {
+    const row = await prisma.governmentTender.findFirst({
+      where: { keys: { hasSome: keys } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return row ? { id: row.id, keys: row.keys, fingerprint: row.fingerprint, rfq: row.rfq as GovernmentRFQ } : null;
+  }
+
+  async save(tender: StoredTender): Promise<void> {
+    const closing = tender.rfq.dates.closingDate ? new Date(tender.rfq.dates.closingDate) : null;
+    const data = {
+      keys: tender.keys,
+      fingerprint: tender.fingerprint,
+      sourceSystem: tender.rfq.sourceSystem,
+      referenceNumber: tender.rfq.referenceNumber,
+      closingDate: closing,
+      rfq: tender.rfq as any,
+    };
+    await prisma.governmentTender.upsert({
+      where: { id: tender.id },
+      create: { id: tender.id, ...data },
+      update: data,
+    });
+  }
+
+  async list(query: TenderQuery = {}): Promise<GovernmentRFQ[]> {
+    const rows = await prisma.governmentTender.findMany({
+      where: {
+        ...(query.system && { sourceSystem: query.system }),
+        ...(query.openOnly && { OR: [{ closingDate: null }, { closingDate: { gt: new Date() } }] }),
+      },
+      orderBy: { closingDate: 'asc' },
+      take: query.limit,
+    });
+    return rows.map((row: any) => row.rfq as GovernmentRFQ);
+  }
+
+  async recordRun(result: TenderSyncResult): Promise<void> {
+    await prisma.tenderSyncRun.create({
+      data: {
+        system: result.system,
+        source: result.source,
+        startedAt: new Date(result.startedAt),
+        finishedAt: new Date(result.finishedAt),
+        fetched: result.fetched,
+        filteredOut: result.filteredOut,
+        created: result.created.length,
+        amended: result.amended.length,
+        unchanged: result.unchanged,
+        crossListed: result.crossListed,
+        errors: result.errors,
+      },
+    });
+  }
+}
+
+export class MemoryTenderStore implements TenderStore {
+  readonly tenders = new Map<string, StoredTender>();
+  readonly runs: TenderSyncResult[] = [];
+
+  async findByKeys(keys: string[]): Promise<StoredTender | null> {
+    for (const tender of this.tenders.values()) {
+      if (tender.keys.some(key => keys.includes(key))) {
+        return tender;
+      }
+    }
+    return null;
+  }
+
+  async save(tender: StoredTender): Promise<void> {
+    this.tenders.set(tender.id, tender);
+  }
+
+  async list(query: TenderQuery = {}): Promise<GovernmentRFQ[]> {
+    const now = Date.now();
+    return Array.from(this.tenders.values())
+      .map(tender => tender.rfq)
+      .filter(rfq => !query.system || rfq.sourceSystem === query.system)
+      .filter(rfq => !query.openOnly || closingTime(rfq) > now)
+      .sort((a, b) => closingTime(a) - closingTime(b))
+      .slice(0, query.limit);
+  }
+
+  async recordRun(result: TenderSyncResult): Promise<void> {
+    this.runs.push(result);
+  }
+}
@@ -0,0 +1,78 @@
+import { GovernmentRFQ, GovernmentSystem, SyncConfiguration } from '../../features/government-integration/types/integration.types';
+
+/**
+ * Tender Ingestion Types
+ * Every source parser produces TenderNotices in the source's own wording;
+ * normalize.ts turns them into GovernmentRFQs
+ */
+
+export type TenderFormat = 'canadabuys-csv' | 'canadabuys-json' | 'merx-xml' | 'bc-bid-csv' | 'rss';
+
+export interface TenderSource {
+  system: GovernmentSystem;
+  format: TenderFormat;
+  url: string; // http(s) or file: (fixtures, offline runs)
+  name: string;
+}
+
+export interface TenderNotice {
+  system: GovernmentSystem;
+  sourceId: string;
+  referenceNumber: string; // Solicitation number, shared when a tender is cross-posted
+  amendmentNumber?: number;
+  title: string;
+  description: string;
+  url?: string;
+  organization: {
+    name: string;
+    department?: string;
+    branch?: string;
+    contactName?: string;
+    contactEmail?: string;
+    contactPhone?: string;
+  };
+  procurementMethod?: string;
+  procurementCategory?: string;
+  selectionCriteria?: string;
+  estimatedValue?: { min?: number; max?: number; currency?: string };
+  codes: { unspsc: string[]; gsin: string[]; naics: string[] };
+  keywords: string[];
+  regions: string[];
+  dates: {
+    published?: string;
+    closing?: string;
+    questionsDeadline?: string;
+    contractStart?: string;
+    contractEnd?: string;
+    amended?: string;
+  };
+  attachments: Array<{ name: string; url: string }>;
+}
+
+export interface TenderParser {
+  format: TenderFormat;
+  parse(content: string, source: TenderSource): TenderNotice[];
+}
+
+export interface StoredTender {
+  id: string;
+  keys: string[]; // Dedup keys; see dedup.ts
+  fingerprint: string;
+  rfq: GovernmentRFQ;
+}
+
+export interface TenderSyncResult {
+  system: GovernmentSystem;
+  source: string;
+  startedAt: string;
+  finishedAt: string;
+  fetched: number;
+  filteredOut: number;
+  created: GovernmentRFQ[];
+  amended: GovernmentRFQ[];
+  unchanged: number;
+  crossListed: number; // Duplicates of a tender already held from another source
+  errors: string[];
+}
+
+export type { SyncConfiguration };
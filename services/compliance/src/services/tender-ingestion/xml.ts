@@ -0,0 +1,87 @@
+/**
+ * Just enough XML for notice feeds and RSS: elements, attributes, text,
+ * CDATA and the predefined and numeric entities. No DTDs or namespaces
+ * beyond keeping the prefix in the element name
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decode(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+export function parseXml(content: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  const pattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<![^>]*>|<\?[\s\S]*?\?>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(content)) !== null) {
+    const current = stack[stack.length - 1];
+    const [, cdata, closing, opening, attributeText, selfClosing, text] = match;
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closing) {
+      if (current.name !== closing) {
+        throw new Error(`Mismatched </${closing}> inside <${current.name}>`);
+      }
+      current.text = current.text.trim();
+      stack.pop();
+    } else if (opening) {
+      const attributes: Record<string, string> = {};
+      const attributePattern = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+      let attribute: RegExpExecArray | null;
+      while ((attribute = attributePattern.exec(attributeText || '')) !== null) {
+        attributes[attribute[1]] = decode(attribute[3] ?? attribute[4] ?? '');
+      }
+
+      const element: XmlElement = { name: opening, attributes, children: [], text: '' };
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    } else if (text !== undefined) {
+      current.text += decode(text);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed <${stack[stack.length - 1].name}>`);
+  }
+  return root;
+}
+
+/**
+ * Descendants with the given element name, in document order
+ */
+export function findAll(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of element.children) {
+    if (child.name === name) {
+      found.push(child);
+    }
+    found.push(...findAll(child, name));
+  }
+  return found;
+}
+
+/**
+ * Text of the first direct child with the given name
+ */
+export function childText(element: XmlElement, name: string): string {
+  return element.children.find(child => child.name === name)?.text ?? '';
+}
@@ -0,0 +1,260 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import {
+  AuditChainEntry,
+  AuditSegment,
+  canonicalJson,
+  checkCheckpoint,
+  ChainLink,
+  GENESIS,
+  GENESIS_HASH,
+  hashAuditEntry,
+  keyIdFor,
+  merkleRoot,
+  sha256Hex,
+  signCheckpoint,
+  verifyAuditSegment,
+  walkAuditChain,
+} from '../audit-chain';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519', {
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+const other = crypto.generateKeyPairSync('ed25519', {
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+function append(chain: AuditChainEntry[], action: string, metadata: unknown = {}): AuditChainEntry {
+  const previous: ChainLink = chain.length ? chain[chain.length - 1] : GENESIS;
+  const sequence = previous.sequence + 1;
+  const entry: Omit<AuditChainEntry, 'hash'> = {
+    id: `audit-${sequence}`,
+    sequence,
+    eventType: 'COMPLIANCE_CHECK',
+    severity: 'info',
+    userId: 'user-1',
+    businessId: 'biz-1',
+    entityType: 'business',
+    entityId: 'biz-1',
+    action,
+    details: `${action} #${sequence}`,
+    metadata,
+    ipAddress: null,
+    userAgent: null,
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, sequence)).toISOString(),
+    prevHash: previous.hash,
+  };
+  const chained = { ...entry, hash: hashAuditEntry(entry) };
+  chain.push(chained);
+  return chained;
+}
+
+function buildChain(length: number): AuditChainEntry[] {
+  const chain: AuditChainEntry[] = [];
+  for (let i = 0; i < length; i++) {
+    append(chain, i % 2 ? 'VERIFY' : 'CHECK', { step: i });
+  }
+  return chain;
+}
+
+function checkpointFor(entries: AuditChainEntry[], key = privateKey) {
+  return signCheckpoint({
+    fromSequence: entries[0].sequence,
+    toSequence: entries[entries.length - 1].sequence,
+    entryCount: entries.length,
+    merkleRoot: merkleRoot(entries.map(entry => entry.hash)),
+    headHash: entries[entries.length - 1].hash,
+    createdAt: '2026-02-01T00:00:00.000Z',
+  }, key);
+}
+
+function segmentOf(chain: AuditChainEntry[], from: number, to: number): AuditSegment {
+  const entries = chain.filter(entry => entry.sequence >= from && entry.sequence <= to);
+  return {
+    fromSequence: from,
+    toSequence: to,
+    prevHash: from === 1 ? GENESIS_HASH : chain[from - 2].hash,
+    entries,
+    checkpoints: [checkpointFor(entries)],
+    exportedAt: '2026-02-01T00:00:00.000Z',
+  };
+}
+
+describe('canonicalJson', () => {
+  it('sorts keys at every level and normalizes dates and undefined', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { z: 1, y: undefined }], c: 'x' } }))
+      .toBe('{"a":{"c":"x","d":[2,{"z":1}]},"b":1}');
+    expect(canonicalJson({ at: new Date('2026-05-01T00:00:00Z') })).toBe('{"at":"2026-05-01T00:00:00.000Z"}');
+    expect(canonicalJson(undefined)).toBe('null');
+  });
+});
+
+describe('merkleRoot', () => {
+  it('pairs leaves and carries an odd one up unchanged', () => {
+    const [a, b, c] = ['a', 'b', 'c'].map(sha256Hex);
+    expect(merkleRoot([a])).toBe(a);
+    expect(merkleRoot([a, b])).toBe(sha256Hex(a + b));
+    expect(merkleRoot([a, b, c])).toBe(sha256Hex(sha256Hex(a + b) + c));
+  });
+
+  it('refuses an empty range', () => {
+    expect(() => merkleRoot([])).toThrow('no entries');
+  });
+});
+
+describe('walkAuditChain', () => {
+  it('accepts appended entries from the genesis link', () => {
+    const chain = buildChain(5);
+    expect(chain[0].prevHash).toBe(GENESIS_HASH);
+    expect(walkAuditChain(chain, GENESIS)).toEqual({ valid: true, checked: 5, last: { sequence: 5, hash: chain[4].hash } });
+  });
+
+  it('verifies a long range in batches', () => {
+    const chain = buildChain(7);
+    const first = walkAuditChain(chain.slice(0, 3), GENESIS);
+    const second = walkAuditChain(chain.slice(3), first.last);
+    expect(second.valid).toBe(true);
+    expect(second.last.sequence).toBe(7);
+  });
+
+  it('detects an edited entry', () => {
+    const chain = buildChain(4);
+    chain[2] = { ...chain[2], details: 'rewritten' };
+    expect(walkAuditChain(chain, GENESIS)).toMatchObject({
+      valid: false,
+      checked: 2,
+      broken: { sequence: 3, reason: 'Contents do not match the entry hash' },
+    });
+  });
+
+  it('detects an entry rehashed to hide the edit', () => {
+    const chain = buildChain(4);
+    const edited = { ...chain[1], details: 'rewritten' };
+    chain[1] = { ...edited, hash: hashAuditEntry(edited) };
+    expect(walkAuditChain(chain, GENESIS).broken).toEqual({ sequence: 3, reason: 'Does not link to the previous entry' });
+  });
+
+  it('detects deleted and reordered entries', () => {
+    const chain = buildChain(5);
+    expect(walkAuditChain([chain[0], chain[3], chain[4]], GENESIS).broken)
+      .toEqual({ sequence: 2, reason: 'Entries 2 to 3 are missing' });
+    expect(walkAuditChain([chain[0], chain[2]], GENESIS).broken)
+      .toEqual({ sequence: 2, reason: 'Entry 2 is missing' });
+    expect(walkAuditChain([chain[1], chain[0]], { sequence: 1, hash: chain[0].hash }).broken)
+      .toEqual({ sequence: 1, reason: 'Out of order after entry 2' });
+  });
+});
+
+describe('checkpoints', () => {
+  it('holds for the entries it covers', () => {
+    const chain = buildChain(5);
+    const checkpoint = checkpointFor(chain);
+    expect(checkpoint.keyId).toBe(keyIdFor(publicKey));
+    expect(checkCheckpoint(checkpoint, chain.map(entry => entry.hash), publicKey)).toBeNull();
+  });
+
+  it('rejects another key, a forged body and changed entries', () => {
+    const chain = buildChain(5);
+    const hashes = chain.map(entry => entry.hash);
+    const checkpoint = checkpointFor(chain);
+
+    expect(checkCheckpoint(checkpointFor(chain, other.privateKey), hashes, publicKey))
+      .toBe('Checkpoint 1-5 was not signed with the key given');
+    expect(checkCheckpoint({ ...checkpoint, body: { ...checkpoint.body, headHash: hashes[3] } }, hashes, publicKey))
+      .toBe('Checkpoint 1-5 signature does not verify');
+    expect(checkCheckpoint(checkpoint, hashes.slice(0, 4), publicKey))
+      .toBe('Checkpoint 1-5 covers 5 entries but 4 were found');
+    expect(checkCheckpoint(checkpoint, [hashes[1], hashes[0], ...hashes.slice(2)], publicKey))
+      .toBe('Checkpoint 1-5 Merkle root does not match the entries');
+  });
+});
+
+describe('verifyAuditSegment', () => {
+  it('verifies an exported segment with only the public key', () => {
+    const chain = buildChain(6);
+    expect(verifyAuditSegment(segmentOf(chain, 3, 6), publicKey)).toEqual({
+      valid: true,
+      entriesChecked: 4,
+      checkpointsChecked: 1,
+      broken: undefined,
+      errors: [],
+    });
+  });
+
+  it('reports a tampered entry', () => {
+    const chain = buildChain(4);
+    const segment = segmentOf(chain, 1, 4);
+    segment.entries[1] = { ...segment.entries[1], metadata: { step: 99 } };
+
+    const result = verifyAuditSegment(segment, publicKey);
+    expect(result.valid).toBe(false);
+    expect(result.broken).toEqual({ sequence: 2, reason: 'Contents do not match the entry hash' });
+  });
+
+  it('reports entries missing from the segment', () => {
+    const chain = buildChain(4);
+    const segment = segmentOf(chain, 1, 4);
+    segment.entries = segment.entries.filter(entry => entry.sequence !== 4);
+
+    const result = verifyAuditSegment(segment, publicKey);
+    expect(result.errors).toEqual([
+      'Segment should hold entries 1 to 4',
+      'Checkpoint 1-4 covers 4 entries but 3 were found',
+    ]);
+  });
+});
+
+describe('archive before delete', () => {
+  // What cleanOldAuditLogs keeps of a deleted segment: its file and the
+  // link the live chain continues from
+  function archive(segment: AuditSegment) {
+    const content = JSON.stringify(segment);
+    return {
+      fromSequence: segment.fromSequence,
+      toSequence: segment.toSequence,
+      prevHash: segment.prevHash,
+      lastHash: segment.entries[segment.entries.length - 1].hash,
+      checksum: sha256Hex(content),
+      content,
+    };
+  }
+
+  it('lets the live chain verify from the archived head', () => {
+    const chain = buildChain(8);
+    const archived = archive(segmentOf(chain, 1, 4));
+    const live = chain.slice(4);
+
+    expect(verifyAuditSegment(JSON.parse(archived.content), publicKey).valid).toBe(true);
+    expect(walkAuditChain(live, { sequence: archived.toSequence, hash: archived.lastHash }).valid).toBe(true);
+  });
+
+  it('joins each archive on to the one before it', () => {
+    const chain = buildChain(8);
+    const first = archive(segmentOf(chain, 1, 4));
+    const second = archive(segmentOf(chain, 5, 8));
+
+    expect(first.prevHash).toBe(GENESIS_HASH);
+    expect(second.prevHash).toBe(first.lastHash);
+    expect(verifyAuditSegment(JSON.parse(second.content), publicKey).valid).toBe(true);
+  });
+
+  it('breaks the live chain when entries are deleted without an archive', () => {
+    const chain = buildChain(8);
+    const archived = archive(segmentOf(chain, 1, 4));
+
+    expect(walkAuditChain(chain.slice(6), { sequence: archived.toSequence, hash: archived.lastHash }).broken)
+      .toEqual({ sequence: 5, reason: 'Entries 5 to 6 are missing' });
+  });
+
+  it('shows an archive file edited after it was written', () => {
+    const chain = buildChain(4);
+    const archived = archive(segmentOf(chain, 1, 4));
+    const edited = archived.content.replace('CHECK #1', 'CHECK #0');
+
+    expect(sha256Hex(edited)).not.toBe(archived.checksum);
+    expect(verifyAuditSegment(JSON.parse(edited), publicKey).broken)
+      .toEqual({ sequence: 1, reason: 'Contents do not match the entry hash' });
+  });
+});
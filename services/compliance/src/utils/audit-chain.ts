@@ -0,0 +1,291 @@
+import crypto from 'crypto';
+
+/**
+ * Audit Chain
+ * Each audit entry commits to the one before it, so a deleted, inserted
+ * or reordered row breaks every later link. Signed checkpoints fix a
+ * Merkle root and the chain head at intervals, which lets an auditor with
+ * only our public key verify an exported or archived segment
+ */
+
+export const GENESIS_HASH = '0'.repeat(64);
+export const CHECKPOINT_ALGORITHM = 'Ed25519';
+
+// What the first entry (sequence 1) links to
+export const GENESIS: ChainLink = { sequence: 0, hash: GENESIS_HASH };
+
+export interface AuditChainEntry {
+  id: string;
+  sequence: number;
+  eventType: string;
+  severity: string;
+  userId: string | null;
+  businessId: string | null;
+  entityType: string;
+  entityId: string;
+  action: string;
+  details: string;
+  metadata: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  timestamp: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditCheckpointBody {
+  fromSequence: number;
+  toSequence: number;
+  entryCount: number;
+  merkleRoot: string; // Over the entry hashes from..to
+  headHash: string; // Hash of entry toSequence, which commits to all history before it
+  createdAt: string;
+}
+
+export interface SignedAuditCheckpoint {
+  body: AuditCheckpointBody;
+  signature: string; // Base64 Ed25519 signature over the canonical body
+  keyId: string;
+  algorithm: typeof CHECKPOINT_ALGORITHM;
+}
+
+// What is exported or archived: a contiguous run of entries, the hash the
+// first one links to, and the checkpoints covering them
+export interface AuditSegment {
+  fromSequence: number;
+  toSequence: number;
+  prevHash: string;
+  entries: AuditChainEntry[];
+  checkpoints: SignedAuditCheckpoint[];
+  exportedAt: string;
+}
+
+export interface ChainBreak {
+  sequence: number;
+  reason: string;
+}
+
+export interface ChainLink {
+  sequence: number;
+  hash: string;
+}
+
+export interface ChainWalk {
+  valid: boolean;
+  checked: number;
+  last: ChainLink;
+  broken?: ChainBreak;
+}
+
+export interface SegmentVerification {
+  valid: boolean;
+  entriesChecked: number;
+  checkpointsChecked: number;
+  broken?: ChainBreak;
+  errors: string[];
+}
+
+/**
+ * JSON with sorted keys, after a JSON round trip so that Dates and
+ * undefined match what the database gives back
+ */
+export function canonicalJson(value: unknown): string {
+  const normalized = value === undefined ? null : JSON.parse(JSON.stringify(value));
+  return JSON.stringify(sortKeys(normalized));
+}
+
+function sortKeys(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce((sorted: Record<string, unknown>, key) => {
+      sorted[key] = sortKeys(value[key]);
+      return sorted;
+    }, {});
+  }
+  return value;
+}
+
+export function sha256Hex(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+export function hashAuditEntry(entry: Omit<AuditChainEntry, 'hash'>): string {
+  return sha256Hex(canonicalJson({
+    id: entry.id,
+    sequence: entry.sequence,
+    eventType: entry.eventType,
+    severity: entry.severity,
+    userId: entry.userId ?? null,
+    businessId: entry.businessId ?? null,
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    action: entry.action,
+    details: entry.details,
+    metadata: entry.metadata ?? null,
+    ipAddress: entry.ipAddress ?? null,
+    userAgent: entry.userAgent ?? null,
+    timestamp: entry.timestamp,
+    prevHash: entry.prevHash,
+  }));
+}
+
+/**
+ * Pairwise SHA-256 up to a single root. An odd node out is carried up
+ * unchanged rather than paired with itself
+ */
+export function merkleRoot(leaves: string[]): string {
+  if (leaves.length === 0) {
+    throw new Error('Cannot compute a Merkle root of no entries');
+  }
+
+  let level = leaves;
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? sha256Hex(level[i] + level[i + 1]) : level[i]);
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+export function missing(from: number, to: number): string {
+  return from === to ? `Entry ${from} is missing` : `Entries ${from} to ${to} are missing`;
+}
+
+/**
+ * Check entries in sequence order against the entry before them. Feed a
+ * long range through in batches by passing each walk's `last` to the next
+ */
+export function walkAuditChain(entries: AuditChainEntry[], previous: ChainLink): ChainWalk {
+  let last = previous;
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const broken = (reason: string): ChainWalk => ({ valid: false, checked: i, last, broken: { sequence: entry.sequence, reason } });
+
+    if (entry.sequence !== last.sequence + 1) {
+      return {
+        valid: false,
+        checked: i,
+        last,
+        broken: entry.sequence > last.sequence + 1
+          ? { sequence: last.sequence + 1, reason: missing(last.sequence + 1, entry.sequence - 1) }
+          : { sequence: entry.sequence, reason: `Out of order after entry ${last.sequence}` },
+      };
+    }
+    if (entry.prevHash !== last.hash) {
+      return broken('Does not link to the previous entry');
+    }
+    if (hashAuditEntry(entry) !== entry.hash) {
+      return broken('Contents do not match the entry hash');
+    }
+
+    last = { sequence: entry.sequence, hash: entry.hash };
+  }
+
+  return { valid: true, checked: entries.length, last };
+}
+
+export function keyIdFor(publicKeyPem: string): string {
+  const der = crypto.createPublicKey(publicKeyPem).export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(der).digest('hex').slice(0, 16);
+}
+
+export function signCheckpoint(body: AuditCheckpointBody, privateKeyPem: string): SignedAuditCheckpoint {
+  const privateKey = crypto.createPrivateKey(privateKeyPem);
+
+  return {
+    body,
+    signature: crypto.sign(null, Buffer.from(canonicalJson(body)), privateKey).toString('base64'),
+    keyId: keyIdFor(crypto.createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString()),
+    algorithm: CHECKPOINT_ALGORITHM,
+  };
+}
+
+/**
+ * Signature, Merkle root and head of a checkpoint against the hashes of
+ * the entries it covers. Returns the problem, or null if it holds
+ */
+export function checkCheckpoint(
+  checkpoint: SignedAuditCheckpoint,
+  entryHashes: string[],
+  publicKeyPem: string
+): string | null {
+  const { body } = checkpoint;
+  const label = `Checkpoint ${body.fromSequence}-${body.toSequence}`;
+
+  try {
+    if (checkpoint.algorithm !== CHECKPOINT_ALGORITHM || keyIdFor(publicKeyPem) !== checkpoint.keyId) {
+      return `${label} was not signed with the key given`;
+    }
+    const signed = crypto.verify(
+      null,
+      Buffer.from(canonicalJson(body)),
+      crypto.createPublicKey(publicKeyPem),
+      Buffer.from(checkpoint.signature, 'base64')
+    );
+    if (!signed) {
+      return `${label} signature does not verify`;
+    }
+  } catch (error) {
+    return `${label} signature could not be checked: ${(error as Error).message}`;
+  }
+
+  if (entryHashes.length !== body.entryCount || entryHashes.length !== body.toSequence - body.fromSequence + 1) {
+    return `${label} covers ${body.entryCount} entries but ${entryHashes.length} were found`;
+  }
+  if (merkleRoot(entryHashes) !== body.merkleRoot) {
+    return `${label} Merkle root does not match the entries`;
+  }
+  if (entryHashes[entryHashes.length - 1] !== body.headHash) {
+    return `${label} head does not match entry ${body.toSequence}`;
+  }
+  return null;
+}
+
+/**
+ * Everything an auditor can check in a segment without us: the entries
+ * chain from the stated previous hash, and every checkpoint is signed by
+ * our key and matches the entries it covers. Entries after the last
+ * checkpoint are chained but not yet signed for
+ */
+export function verifyAuditSegment(segment: AuditSegment, publicKeyPem: string): SegmentVerification {
+  const errors: string[] = [];
+  const entries = [...segment.entries].sort((a, b) => a.sequence - b.sequence);
+
+  if (entries.length === 0 || entries[0].sequence !== segment.fromSequence || entries[entries.length - 1].sequence !== segment.toSequence) {
+    errors.push(`Segment should hold entries ${segment.fromSequence} to ${segment.toSequence}`);
+  }
+
+  // Whatever came before the segment is taken on the segment's word
+  const walk = walkAuditChain(entries, { sequence: segment.fromSequence - 1, hash: segment.prevHash });
+  if (walk.broken) {
+    errors.push(`Chain broken at entry ${walk.broken.sequence}: ${walk.broken.reason}`);
+  }
+
+  const hashes = new Map(entries.map(entry => [entry.sequence, entry.hash]));
+  for (const checkpoint of segment.checkpoints) {
+    const covered: string[] = [];
+    for (let sequence = checkpoint.body.fromSequence; sequence <= checkpoint.body.toSequence; sequence++) {
+      const hash = hashes.get(sequence);
+      if (hash) {
+        covered.push(hash);
+      }
+    }
+    const problem = checkCheckpoint(checkpoint, covered, publicKeyPem);
+    if (problem) {
+      errors.push(problem);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    entriesChecked: walk.checked,
+    checkpointsChecked: segment.checkpoints.length,
+    broken: walk.broken,
+    errors,
+  };
+}
@@ -1,10 +1,22 @@
-import { Router } from 'express';
+import { Response, Router } from 'express';
 import multer from 'multer';
 import { IndigenousDocumentService } from '../services/indigenous-document.service';
 import { authMiddleware } from '../middleware/auth';
+import { CulturalAccessDeniedError, requesterFrom, requireCulturalAccess } from '../utils/cultural-access';
 
 const router = Router();
 
+// A refusal from the cultural access decision point, with what it needs
+// (e.g. Elder approval) so the client can ask for it
+function culturalAccessDenied(res: Response, error: CulturalAccessDeniedError) {
+  return res.status(error.status).json({
+    success: false,
+    error: error.message,
+    decision: error.decision,
+    culturalRestriction: true
+  });
+}
+
 // Configure multer for file uploads
 const upload = multer({
   dest: '/tmp/uploads/',
@@ -92,6 +104,9 @@ router.post('/indigenous/upload', authMiddleware, upload.single('document'), asy
  */
 router.post('/indigenous/sign/:documentId', authMiddleware, async (req, res) => {
   try {
+    // Signing hands back a download link to the signed document
+    await requireCulturalAccess(requesterFrom(req), [req.params.documentId]);
+
     const result = await IndigenousDocumentService.applyIndigenousSignature({
       documentId: req.params.documentId,
       signerId: req.user.id,
@@ -108,6 +123,9 @@ router.post('/indigenous/sign/:documentId', authMiddleware, async (req, res) =>
         'Document signed successfully'
     });
   } catch (error: any) {
+    if (error instanceof CulturalAccessDeniedError) {
+      return culturalAccessDenied(res, error);
+    }
     res.status(500).json({
       success: false,
       error: error.message
@@ -143,6 +161,8 @@ router.post('/indigenous/templates', authMiddleware, async (req, res) => {
  */
 router.post('/indigenous/access/:documentId', authMiddleware, async (req, res) => {
   try {
+    await requireCulturalAccess(requesterFrom(req), [req.params.documentId]);
+
     const result = await IndigenousDocumentService.trackDocumentAccess({
       documentId: req.params.documentId,
       userId: req.user.id,
@@ -157,6 +177,9 @@ router.post('/indigenous/access/:documentId', authMiddleware, async (req, res) =
       message: 'Access tracked with cultural sensitivity check'
     });
   } catch (error: any) {
+    if (error instanceof CulturalAccessDeniedError) {
+      return culturalAccessDenied(res, error);
+    }
     if (error.message.includes('Cultural sensitivity')) {
       res.status(403).json({
         success: false,
@@ -267,6 +290,8 @@ router.get('/indigenous/documents/:documentId', authMiddleware, async (req, res)
       });
     }
     
+    await requireCulturalAccess(requesterFrom(req), [document.id]);
+    
     // Check cultural permissions
     if (document.culturalSensitivity === 'sacred' || document.culturalSensitivity === 'restricted') {
       const user = await prisma.user.findUnique({
@@ -308,6 +333,9 @@ router.get('/indigenous/documents/:documentId', authMiddleware, async (req, res)
       }
     });
   } catch (error: any) {
+    if (error instanceof CulturalAccessDeniedError) {
+      return culturalAccessDenied(res, error);
+    }
     res.status(500).json({
       success: false,
       error: error.message
@@ -16,6 +16,7 @@ import fs from 'fs/promises';
 import sharp from 'sharp';
 import crypto from 'crypto';
 import { logger } from '../utils/logger';
+import { CulturalAccessRequester, requireCulturalAccess } from '../utils/cultural-access';
 import { redis } from '../config/redis';
 import { prisma } from '../config/database';
 import archiver from 'archiver';
@@ -241,34 +242,11 @@ export class DocumentStorageService {
   }
 
   /**
-   * Get document by ID
+   * Get document by ID, once the cultural access decision point permits it
    */
-  static async getDocument(documentId: string): Promise<DocumentMetadata> {
-    try {
-      // Check cache first
-      const cached = await redis.get(`document:${documentId}`);
-      if (cached) {
-        return JSON.parse(cached);
-      }
-
-      const document = await prisma.document.findUnique({
-        where: { id: documentId },
-      });
-
-      if (!document) {
-        throw new Error('Document not found');
-      }
-
-      const metadata = this.formatDocumentMetadata(document);
-      
-      // Cache for future requests
-      await this.cacheDocumentMetadata(document);
-
-      return metadata;
-    } catch (error) {
-      logger.error('Failed to get document', error);
-      throw error;
-    }
+  static async getDocument(documentId: string, requester: CulturalAccessRequester): Promise<DocumentMetadata> {
+    await requireCulturalAccess(requester, [documentId]);
+    return this.loadDocument(documentId);
   }
 
   /**
@@ -276,11 +254,13 @@ export class DocumentStorageService {
    */
   static async getSignedDownloadUrl(
     documentId: string,
+    requester: CulturalAccessRequester,
     expiresIn: number = this.SIGNED_URL_EXPIRY
   ): Promise<string> {
     try {
-      const document = await this.getDocument(documentId);
-      
+      await requireCulturalAccess(requester, [documentId]);
+      const document = await this.loadDocument(documentId);
+
       const command = new GetObjectCommand({
         Bucket: this.BUCKET_NAME,
         Key: document.filename,
@@ -340,7 +320,7 @@ export class DocumentStorageService {
    */
   static async deleteDocument(documentId: string): Promise<void> {
     try {
-      const document = await this.getDocument(documentId);
+      const document = await this.loadDocument(documentId);
 
       // Delete from S3
       await this.deleteFile(document.filename);
@@ -366,13 +346,16 @@ export class DocumentStorageService {
   }
 
   /**
-   * Create document archive (ZIP)
+   * Create document archive (ZIP). Every document in it must be permitted
    */
   static async createArchive(
     documentIds: string[],
-    archiveName: string
+    archiveName: string,
+    requester: CulturalAccessRequester
   ): Promise<string> {
     try {
+      await requireCulturalAccess(requester, documentIds);
+
       const archive = archiver('zip', {
         zlib: { level: 9 },
       });
@@ -392,7 +375,7 @@ export class DocumentStorageService {
 
       // Add documents to archive
       for (const documentId of documentIds) {
-        const document = await this.getDocument(documentId);
+        const document = await this.loadDocument(documentId);
         
         const command = new GetObjectCommand({
           Bucket: this.BUCKET_NAME,
@@ -505,6 +488,37 @@ export class DocumentStorageService {
     }
   }
 
+  /**
+   * Helper: Document metadata, from the cache when held
+   */
+  private static async loadDocument(documentId: string): Promise<DocumentMetadata> {
+    try {
+      // Check cache first
+      const cached = await redis.get(`document:${documentId}`);
+      if (cached) {
+        return JSON.parse(cached);
+      }
+
+      const document = await prisma.document.findUnique({
+        where: { id: documentId },
+      });
+
+      if (!document) {
+        throw new Error('Document not found');
+      }
+
+      const metadata = this.formatDocumentMetadata(document);
+      
+      // Cache for future requests
+      await this.cacheDocumentMetadata(document);
+
+      return metadata;
+    } catch (error) {
+      logger.error('Failed to get document', error);
+      throw error;
+    }
+  }
+
   /**
    * Helper: Scan file for viruses
    */
@@ -2,6 +2,7 @@ import { prisma } from '../config/database';
 import { redis } from '../config/redis';
 import { S3Service, UploadResult } from './s3.service';
 import { logger } from '../utils/logger';
+import { CulturalAccessRequester, requireCulturalAccess } from '../utils/cultural-access';
 import { v4 as uuidv4 } from 'uuid';
 import mime from 'mime-types';
 import { DocumentStatus, DocumentCategory, AccessLevel } from '../types/document.types';
@@ -112,50 +113,15 @@ export class DocumentService {
   }
 
   /**
-   * Get document by ID
+   * Get document by ID, once the cultural access decision point permits it
    */
-  static async getDocument(documentId: string, incrementView = false): Promise<any> {
-    try {
-      // Check cache first
-      const cached = await redis.get(`document:${documentId}`);
-      if (cached) {
-        const document = JSON.parse(cached);
-        
-        if (incrementView) {
-          // Async increment view count
-          this.incrementViewCount(documentId);
-        }
-        
-        return document;
-      }
-
-      const document = await prisma.document.findUnique({
-        where: { id: documentId },
-        include: {
-          versions: {
-            orderBy: { version: 'desc' },
-            take: 5,
-          },
-          sharedWith: true,
-        },
-      });
-
-      if (!document) {
-        throw new Error('Document not found');
-      }
-
-      if (incrementView) {
-        await this.incrementViewCount(documentId);
-      }
-
-      // Cache document
-      await this.cacheDocument(document);
-
-      return document;
-    } catch (error) {
-      logger.error('Failed to get document', error);
-      throw error;
-    }
+  static async getDocument(
+    documentId: string,
+    requester: CulturalAccessRequester,
+    incrementView = false
+  ): Promise<any> {
+    await requireCulturalAccess(requester, [documentId]);
+    return this.loadDocument(documentId, incrementView);
   }
 
   /**
@@ -444,7 +410,7 @@ export class DocumentService {
    */
   static async generateThumbnail(documentId: string): Promise<string | null> {
     try {
-      const document = await this.getDocument(documentId);
+      const document = await this.loadDocument(documentId);
       
       // Only generate thumbnails for supported types
       const supportedTypes = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
@@ -467,6 +433,53 @@ export class DocumentService {
     }
   }
 
+  /**
+   * Helper: Document with its latest versions, from the cache when held
+   */
+  private static async loadDocument(documentId: string, incrementView = false): Promise<any> {
+    try {
+      // Check cache first
+      const cached = await redis.get(`document:${documentId}`);
+      if (cached) {
+        const document = JSON.parse(cached);
+        
+        if (incrementView) {
+          // Async increment view count
+          this.incrementViewCount(documentId);
+        }
+        
+        return document;
+      }
+
+      const document = await prisma.document.findUnique({
+        where: { id: documentId },
+        include: {
+          versions: {
+            orderBy: { version: 'desc' },
+            take: 5,
+          },
+          sharedWith: true,
+        },
+      });
+
+      if (!document) {
+        throw new Error('Document not found');
+      }
+
+      if (incrementView) {
+        await this.incrementViewCount(documentId);
+      }
+
+      // Cache document
+      await this.cacheDocument(document);
+
+      return document;
+    } catch (error) {
+      logger.error('Failed to get document', error);
+      throw error;
+    }
+  }
+
   /**
    * Helper: Create version record
    */
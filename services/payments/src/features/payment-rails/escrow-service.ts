@@ -7,6 +7,9 @@
 import prisma from '@/lib/prisma';
 import { logger } from '@/lib/monitoring/logger';
 import { z } from 'zod';
+import { LedgerService } from '../../services/ledger.service';
+import { EftPayoutService } from '../../services/eft-payout.service';
+import { DisputeService } from '../../services/dispute.service';
 
 export const EscrowAccountSchema = z.object({
   businessId: z.string(),
@@ -172,6 +175,15 @@ export class EscrowService {
       reference: paymentReference,
     });
     
+    // The up-front escrow fee is earned when the deposit lands
+    await LedgerService.postEscrowDeposit({
+      source: 'escrow',
+      escrowId,
+      amount: escrow.amount,
+      fee: escrow.fee,
+      reference: paymentReference,
+    });
+    
     // Notify parties
     await this.notifyEscrowActivated(updated);
     
@@ -232,7 +244,7 @@ export class EscrowService {
     });
     
     // Process release
-    await this.processRelease(escrowId, releaseAmount, `Milestone: ${milestone.description}`);
+    await this.processRelease(escrowId, milestoneId, releaseAmount, `Milestone: ${milestone.description}`);
     
     // Check if all milestones completed
     const pending = await prisma.escrowMilestone.count({
@@ -254,6 +266,7 @@ export class EscrowService {
    */
   private static async processRelease(
     escrowId: string,
+    milestoneId: string,
     amount: number,
     description: string
   ): Promise<void> {
@@ -280,8 +293,23 @@ export class EscrowService {
       description,
     });
     
+    await LedgerService.postMilestoneRelease({
+      source: 'escrow',
+      escrowId,
+      milestoneId,
+      recipientId: escrow.businessId,
+      grossAmount: amount,
+    });
+    
     // Process actual payment through QuickPay
-    await this.disburseFunds(escrow.businessId, amount, description);
+    await this.disburseFunds(escrowId, milestoneId, escrow.businessId, amount, description);
+    
+    await LedgerService.postDisbursement({
+      source: 'escrow',
+      sourceId: `${escrowId}:${milestoneId}`,
+      recipientId: escrow.businessId,
+      amount,
+    });
   }
   
   /**
@@ -313,24 +341,31 @@ export class EscrowService {
   }
   
   /**
-   * Handle escrow disputes
+   * Handle escrow disputes. When the business itself disputes, name the
+   * party it disputes against (usually the contract issuer)
    */
   static async disputeEscrow(
     escrowId: string,
     disputedBy: string,
     reason: string,
-    evidence?: string[]
-  ): Promise<void> {
+    evidence?: string[],
+    respondentId?: string
+  ): Promise<any> {
     const escrow = await prisma.escrowAccount.findUnique({
       where: { id: escrowId },
     });
     
-    if (!escrow || escrow.status === 'completed') {
+    if (!escrow || escrow.status === 'completed' || escrow.status === 'disputed') {
       throw new Error('Cannot dispute this escrow');
     }
     
+    const respondent = disputedBy === escrow.businessId ? respondentId : escrow.businessId;
+    if (!respondent) {
+      throw new Error('Name the party this escrow dispute is against');
+    }
+    
     // Create dispute record
-    await prisma.escrowDispute.create({
+    const dispute = await prisma.escrowDispute.create({
       data: {
         escrowAccountId: escrowId,
         disputedBy,
@@ -352,8 +387,25 @@ export class EscrowService {
     // Freeze remaining funds
     await this.freezeEscrowFunds(escrowId);
     
-    // Notify all parties
-    await this.notifyDispute(escrow, reason);
+    if (escrow.heldAmount > 0) {
+      await LedgerService.postEscrowFreeze({
+        source: 'escrow',
+        escrowId,
+        disputeId: dispute.id,
+        amount: escrow.heldAmount,
+      });
+    }
+    
+    // Open the case the parties and officers work the dispute through
+    return DisputeService.openCase({
+      subjectType: 'ESCROW',
+      subjectId: escrowId,
+      reference: dispute.id,
+      claimantId: disputedBy,
+      respondentId: respondent,
+      frozenAmount: escrow.heldAmount,
+      reason,
+    });
   }
   
   /**
@@ -445,12 +497,39 @@ export class EscrowService {
   /**
    * Disburse funds through QuickPay
    */
-  private static async disburseFunds(businessId: string, amount: number, description: string): Promise<void> {
-    // This integrates with QuickPayEngine to process the actual payment
-    // Funds are released within 24 hours as promised
+  private static async disburseFunds(
+    escrowId: string,
+    milestoneId: string,
+    businessId: string,
+    amount: number,
+    description: string
+  ): Promise<void> {
+    // Funds are released within 24 hours as promised, in the next EFT batch
+    const business = await prisma.business.findUnique({
+      where: { id: businessId },
+      include: { bankAccount: true },
+    });
+    
+    if (!business?.bankAccount) {
+      throw new Error(`No bank account on file for business ${businessId}`);
+    }
     
-    // For now, simulate the disbursement
     logger.info(`Disbursing $${amount} to business ${businessId}: ${description}`);
+    
+    await EftPayoutService.queuePayout({
+      source: 'escrow',
+      sourceId: `${escrowId}:${milestoneId}`,
+      recipientId: businessId,
+      recipientName: business.name,
+      amount,
+      bankAccount: {
+        institutionNumber: business.bankAccount.institutionNumber,
+        transitNumber: business.bankAccount.transitNumber,
+        accountNumber: business.bankAccount.accountNumber,
+      },
+      remittance: description,
+      approvedBy: 'escrow-release',
+    });
   }
   
   /**
@@ -474,11 +553,6 @@ export class EscrowService {
     logger.info(`Escrow ${escrow.id} activated`);
   }
   
-  private static async notifyDispute(escrow: any, reason: string): Promise<void> {
-    // Send notifications to all parties about the dispute
-    logger.info(`Escrow ${escrow.id} disputed: ${reason}`);
-  }
-  
   /**
    * Get escrow account details
    */
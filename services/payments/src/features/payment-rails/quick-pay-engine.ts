@@ -7,12 +7,16 @@
 import prisma from '@/lib/prisma';
 import { logger } from '@/lib/monitoring/logger';
 import { z } from 'zod';
+import { LedgerService, LedgerAccounts } from '../../services/ledger.service';
+import { EftPayoutService } from '../../services/eft-payout.service';
+import { FxService } from '../../services/fx.service';
 
 // Payment schemas
 export const PaymentRequestSchema = z.object({
   contractId: z.string(),
   businessId: z.string(),
   amount: z.number().positive(),
+  currency: z.string().default('CAD'),
   invoiceNumber: z.string(),
   supportingDocs: z.array(z.string()).optional(),
 });
@@ -33,6 +37,7 @@ export interface PaymentRequest {
   contractId: string;
   businessId: string;
   amount: number;
+  currency: string;
   invoiceNumber: string;
   status: z.infer<typeof PaymentStatusSchema>;
   requestedAt: Date;
@@ -75,6 +80,9 @@ export class QuickPayEngine {
       throw new Error(`Contract not eligible for quick pay: ${contract.reason}`);
     }
     
+    // Advances are paid in the invoice's currency; risk is judged on its CAD value
+    const fx = await FxService.toFunctional(validated.amount, validated.currency);
+    
     // Calculate fees and net amount
     const processingFee = validated.amount * this.PROCESSING_FEE_RATE;
     const netAmount = validated.amount - processingFee;
@@ -85,6 +93,9 @@ export class QuickPayEngine {
         contractId: validated.contractId,
         businessId: validated.businessId,
         amount: validated.amount,
+        currency: fx.currency,
+        fxRate: fx.rate.toNumber(),
+        functionalAmount: fx.functionalAmount.toNumber(),
         invoiceNumber: validated.invoiceNumber,
         status: 'pending_verification',
         processingFee,
@@ -294,7 +305,7 @@ export class QuickPayEngine {
       businessAge: this.calculateBusinessAgeScore(paymentRequest.business.createdAt),
       
       // Transaction factors
-      amountRisk: this.calculateAmountRisk(paymentRequest.amount),
+      amountRisk: this.calculateAmountRisk(paymentRequest.functionalAmount ?? paymentRequest.amount),
       velocityRisk: await this.calculateVelocityRisk(paymentRequest.businessId),
       
       // Network factors
@@ -479,7 +490,11 @@ export class QuickPayEngine {
     try {
       // Integrate with payment processor (Moneris, Interac, etc.)
       const disbursementResult = await this.processActualPayment({
+        paymentRequestId,
+        businessId: paymentRequest.businessId,
+        businessName: paymentRequest.business.name,
         amount: paymentRequest.netAmount,
+        currency: paymentRequest.currency || 'CAD',
         recipientAccount: paymentRequest.business.bankAccount,
         reference: paymentRequest.invoiceNumber,
       });
@@ -492,6 +507,15 @@ export class QuickPayEngine {
         transactionId: disbursementResult.transactionId,
       });
       
+      // Platform cash fronts the invoice; the buyer's payment settles the receivable
+      await LedgerService.postQuickPayAdvance({
+        paymentRequestId,
+        contractId: paymentRequest.contractId,
+        amount: paymentRequest.amount,
+        netAmount: paymentRequest.netAmount,
+        currency: paymentRequest.currency || 'CAD',
+      });
+      
       // Update business metrics
       await this.updateBusinessMetrics(paymentRequest.businessId, paymentRequest.amount);
       
@@ -509,7 +533,41 @@ export class QuickPayEngine {
   /**
    * Process actual payment through payment processor
    */
-  private static async processActualPayment(details: Record<string, unknown>): Promise<unknown> {
+  private static async processActualPayment(details: {
+    paymentRequestId: string;
+    businessId: string;
+    businessName: string;
+    amount: number;
+    currency: string;
+    recipientAccount?: any;
+    reference: string;
+  }): Promise<{ success: boolean; transactionId: string; timestamp: Date }> {
+    // Businesses with a bank account on file are paid in the next EFT batch
+    if (details.recipientAccount) {
+      const payout = await EftPayoutService.queuePayout({
+        source: 'quick_pay',
+        sourceId: details.paymentRequestId,
+        recipientId: details.businessId,
+        recipientName: details.businessName,
+        amount: details.amount,
+        currency: details.currency,
+        bankAccount: {
+          institutionNumber: details.recipientAccount.institutionNumber,
+          transitNumber: details.recipientAccount.transitNumber,
+          accountNumber: details.recipientAccount.accountNumber,
+        },
+        remittance: details.reference,
+        ledgerAccount: LedgerAccounts.operatingCash,
+        approvedBy: 'quick-pay',
+      });
+      
+      return {
+        success: true,
+        transactionId: payout.reference,
+        timestamp: new Date(),
+      };
+    }
+    
     // Integration with Moneris/Interac/Bank APIs
     // This would connect to actual payment rails
     
@@ -625,6 +683,7 @@ export class QuickPayEngine {
       contractId: payment.contractId,
       businessId: payment.businessId,
       amount: payment.amount,
+      currency: payment.currency || 'CAD',
       invoiceNumber: payment.invoiceNumber,
       status: payment.status,
       requestedAt: payment.createdAt,
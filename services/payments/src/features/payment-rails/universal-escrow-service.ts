@@ -17,6 +17,11 @@ import { z } from 'zod';
 import { indigenousLedger } from '@/lib/security/sealed-logs/indigenous-ledger';
 import { AINetworkOrchestrator } from '@/features/admin/network-health/services/ai-network-orchestrator';
 import { PredictionService } from '@/features/predictive-analytics/services/PredictionService';
+import { LedgerService } from '../../services/ledger.service';
+import { FxService } from '../../services/fx.service';
+import { EscrowChainService } from '../../services/escrow-chain.service';
+import { PaymentCertificateService } from '../../services/payment-certificate.service';
+import { normalizeCurrency, roundMoney } from '../../utils/fx';
 
 // Universal Escrow Schema - supports all business types
 export const UniversalEscrowSchema = z.object({
@@ -61,7 +66,8 @@ export const UniversalEscrowSchema = z.object({
     })).optional()
   }),
   
-  // Financial structure
+  // Financial structure, in the escrow's currency
+  currency: z.string().default('CAD').transform(code => normalizeCurrency(code)),
   funding: z.object({
     totalProject: z.number().positive(),
     governmentCommitment: z.number().positive(),
@@ -94,6 +100,17 @@ export const UniversalEscrowSchema = z.object({
   })
 });
 
+// Bid security deposits held on behalf of procurement until award
+export const SecurityDepositSchema = z.object({
+  rfqId: z.string(),
+  bidId: z.string(),
+  businessId: z.string(),
+  amount: z.number().positive(),
+  currency: z.string().default('CAD').transform(code => normalizeCurrency(code)),
+  paymentReference: z.string(),
+  expiryDate: z.coerce.date()
+});
+
 export interface PaymentCertificate {
   id: string;
   escrowId: string;
@@ -102,6 +119,7 @@ export interface PaymentCertificate {
   // Makes it bankable
   guarantee: {
     amount: number;
+    currency: string;
     guarantor: string; // Government entity
     expiryDate: Date;
     conditions: string[];
@@ -115,12 +133,20 @@ export interface PaymentCertificate {
     suggestedRate: number;
   };
   
-  // Blockchain proof
+  // Position in the escrow's hash chain the certificate is anchored to
   ledgerProof: {
-    transactionHash: string;
-    blockNumber: number;
+    transactionHash: string; // Hash of the anchoring chain event
+    blockNumber: number; // Its sequence in the chain
     timestamp: Date;
   };
+  
+  // Lets a lender verify the certificate offline
+  verification: {
+    digest: string;
+    signature: string;
+    keyId: string;
+    algorithm: string;
+  };
 }
 
 export interface CapitalLeverage {
@@ -148,7 +174,7 @@ export interface CapitalLeverage {
 export class UniversalEscrowService {
   private static readonly STANDARD_FEE_RATE = 0.01; // 1%
   private static readonly QUICK_PAY_FEE = 0.005; // 0.5%
-  private static readonly VOLUME_THRESHOLD = 10000000; // $10M
+  private static readonly VOLUME_THRESHOLD = 10000000; // $10M CAD, whatever the escrow's currency
   private static readonly VOLUME_DISCOUNT = 0.25; // 25% off for large contracts
   
   private static aiOrchestrator = AINetworkOrchestrator.getInstance();
@@ -167,8 +193,10 @@ export class UniversalEscrowService {
     const validated = UniversalEscrowSchema.parse(data);
     
     // Calculate fees with volume discount
+    const projectValue = await FxService.toFunctional(validated.funding.totalProject, validated.currency);
+    const volumeDiscount = projectValue.functionalAmount.gte(this.VOLUME_THRESHOLD);
     let transactionRate = validated.fees.transactionRate;
-    if (validated.funding.totalProject >= this.VOLUME_THRESHOLD) {
+    if (volumeDiscount) {
       transactionRate *= (1 - this.VOLUME_DISCOUNT);
     }
     
@@ -192,13 +220,13 @@ export class UniversalEscrowService {
         projectName: validated.projectName,
         projectLocation: validated.projectLocation,
         parties: validated.parties,
+        currency: validated.currency,
         funding: validated.funding,
         milestones: validated.milestones,
         fees: {
           ...validated.fees,
           transactionRate,
-          appliedDiscount: validated.funding.totalProject >= this.VOLUME_THRESHOLD 
-            ? this.VOLUME_DISCOUNT : 0
+          appliedDiscount: volumeDiscount ? this.VOLUME_DISCOUNT : 0
         },
         status: 'pending_funding',
         
@@ -222,6 +250,7 @@ export class UniversalEscrowService {
       {
         escrowId: escrow.id,
         projectValue: validated.funding.totalProject,
+        currency: validated.currency,
         parties: validated.parties,
         isReserve: validated.projectLocation.isReserve
       },
@@ -233,6 +262,15 @@ export class UniversalEscrowService {
       }
     );
     
+    await EscrowChainService.append(EscrowChainService.chainId('universal_escrow', escrow.id), 'created', {
+      contractId: validated.contractId,
+      currency: validated.currency,
+      totalProject: validated.funding.totalProject,
+      governmentCommitment: validated.funding.governmentCommitment,
+      fundingSource: validated.parties.fundingSource.id,
+      primaryContractor: validated.parties.primaryContractor.id
+    });
+    
     // Generate payment certificate if government funded
     let certificate;
     if (validated.parties.fundingSource.type !== 'private') {
@@ -296,14 +334,22 @@ export class UniversalEscrowService {
       throw new Error('Deposit amount must match government commitment');
     }
     
+    // Funds stay in the escrow's currency; the deposit rate is the booked
+    // rate for FX revaluation of what is still held
+    const currency = escrow.currency || 'CAD';
+    const fx = await FxService.toFunctional(amount, currency);
+    
     // Update escrow with deposit
     const updated = await prisma.universalEscrowAccount.update({
       where: { id: escrowId },
       data: {
         status: 'active',
+        fxRate: fx.rate.toNumber(),
         fundingDetails: {
           depositDate: new Date(),
           depositAmount: amount,
+          currency,
+          functionalAmount: fx.functionalAmount.toNumber(),
           reference,
           approvals
         },
@@ -320,11 +366,20 @@ export class UniversalEscrowService {
     await this.recordTransaction(escrowId, {
       type: 'government_deposit',
       amount,
+      currency,
       description: 'Government funding deposited',
       reference,
       partyId: escrow.parties.fundingSource.id
     });
     
+    await LedgerService.postEscrowDeposit({
+      source: 'universal_escrow',
+      escrowId,
+      amount,
+      reference,
+      currency
+    });
+    
     // Log to blockchain
     await indigenousLedger.log(
       'escrow.funded',
@@ -333,11 +388,20 @@ export class UniversalEscrowService {
       {
         escrowId,
         amount,
+        currency,
         reference,
         timestamp: new Date()
       }
     );
     
+    await EscrowChainService.append(EscrowChainService.chainId('universal_escrow', escrowId), 'funded', {
+      amount,
+      currency,
+      reference,
+      governmentAuth: approvals.governmentAuth,
+      communityAuth: approvals.communityAuth
+    });
+    
     // Calculate how much is available for leverage
     const availableForLeverage = amount * 0.8; // Banks can lend against 80%
     
@@ -398,11 +462,14 @@ export class UniversalEscrowService {
       throw new Error('Missing required approvals');
     }
     
-    // Calculate payment amount and fees
-    const paymentAmount = milestone.amount;
-    const transactionFee = paymentAmount * escrow.fees.transactionRate;
-    const quickPayFee = paymentAmount * escrow.fees.quickPayPremium;
-    const netPayment = paymentAmount - transactionFee - quickPayFee;
+    // Calculate payment amount and fees. Each fee is rounded on its own and
+    // the net is what is left, so the payable the ledger credits and the
+    // amount disbursed agree to the cent
+    const currency = escrow.currency || 'CAD';
+    const paymentAmount = roundMoney(milestone.amount, currency).toNumber();
+    const transactionFee = roundMoney(paymentAmount * escrow.fees.transactionRate, currency).toNumber();
+    const quickPayFee = roundMoney(paymentAmount * escrow.fees.quickPayPremium, currency).toNumber();
+    const netPayment = roundMoney(paymentAmount, currency).sub(transactionFee).sub(quickPayFee).toNumber();
     
     // Process payment
     const payment = await this.processPayment(escrow, {
@@ -413,6 +480,7 @@ export class UniversalEscrowService {
         quickPay: quickPayFee
       },
       netAmount: netPayment,
+      currency: escrow.currency || 'CAD',
       recipientId: escrow.parties.primaryContractor.id,
       approvals
     });
@@ -437,6 +505,17 @@ export class UniversalEscrowService {
       }
     });
     
+    await LedgerService.postMilestoneRelease({
+      source: 'universal_escrow',
+      escrowId,
+      milestoneId,
+      recipientId: escrow.parties.primaryContractor.id,
+      grossAmount: paymentAmount,
+      transactionFee,
+      quickPayFee,
+      currency: escrow.currency || 'CAD'
+    });
+    
     // Log to blockchain
     await indigenousLedger.log(
       'payment.released',
@@ -446,13 +525,31 @@ export class UniversalEscrowService {
         escrowId,
         milestoneId,
         amount: netPayment,
+        currency: escrow.currency || 'CAD',
         recipient: escrow.parties.primaryContractor.name
       }
     );
     
+    await EscrowChainService.append(EscrowChainService.chainId('universal_escrow', escrowId), 'milestone_released', {
+      milestoneId,
+      grossAmount: paymentAmount,
+      netAmount: netPayment,
+      currency: escrow.currency || 'CAD',
+      recipientId: escrow.parties.primaryContractor.id,
+      approvers: approvals.map(approval => approval.approverId)
+    });
+    
     // Trigger QuickPay for 24-hour disbursement
     const disbursementTime = await this.triggerQuickPay(payment);
     
+    await LedgerService.postDisbursement({
+      source: 'universal_escrow',
+      sourceId: (payment as any).id,
+      recipientId: escrow.parties.primaryContractor.id,
+      amount: netPayment,
+      currency: escrow.currency || 'CAD'
+    });
+    
     // Get next milestone
     const nextMilestone = escrow.milestones.find(m => 
       !escrow.milestonesCompleted?.some(c => c.milestoneId === m.id)
@@ -466,7 +563,218 @@ export class UniversalEscrowService {
   }
   
   /**
-   * Generate bankable payment certificate
+   * Hold a bidder's security deposit until the contract is awarded
+   */
+  static async holdSecurityDeposit(
+    data: z.infer<typeof SecurityDepositSchema>
+  ): Promise<any> {
+    const validated = SecurityDepositSchema.parse(data);
+    
+    // One deposit per bid; a retried request returns the existing hold.
+    // Serializable so two concurrent requests for a bid cannot both create
+    const { deposit, created } = await prisma.$transaction(async (tx: any) => {
+      const existing = await tx.securityDeposit.findFirst({
+        where: { bidId: validated.bidId, status: 'held' }
+      });
+      
+      if (existing) {
+        return { deposit: existing, created: false };
+      }
+      
+      return {
+        deposit: await tx.securityDeposit.create({
+          data: {
+            ...validated,
+            status: 'held',
+            heldAt: new Date()
+          }
+        }),
+        created: true
+      };
+    }, { isolationLevel: 'Serializable' });
+    
+    if (!created) {
+      return deposit;
+    }
+    
+    await LedgerService.postSecurityDepositHeld({
+      depositId: deposit.id,
+      amount: validated.amount,
+      currency: validated.currency
+    });
+    
+    await EscrowChainService.append(EscrowChainService.chainId('security_deposit', deposit.id), 'held', {
+      rfqId: validated.rfqId,
+      bidId: validated.bidId,
+      businessId: validated.businessId,
+      amount: validated.amount,
+      currency: validated.currency,
+      paymentReference: validated.paymentReference
+    });
+    
+    await indigenousLedger.log(
+      'escrow.security_held',
+      'info',
+      'Bid security deposit held in escrow',
+      {
+        depositId: deposit.id,
+        rfqId: validated.rfqId,
+        bidId: validated.bidId,
+        amount: validated.amount
+      }
+    );
+    
+    return deposit;
+  }
+  
+  /**
+   * Return a security deposit to the bidder
+   */
+  static async releaseSecurityDeposit(
+    depositId: string,
+    reason: string
+  ): Promise<any> {
+    const deposit = await prisma.securityDeposit.findUnique({
+      where: { id: depositId }
+    });
+    
+    if (!deposit) {
+      throw new Error('Security deposit not found');
+    }
+    
+    if (deposit.status === 'released') {
+      return deposit;
+    }
+    
+    if (deposit.status !== 'held') {
+      throw new Error(`Security deposit is ${deposit.status}`);
+    }
+    
+    const payment = await this.disburseSecurityDeposit(deposit, deposit.businessId, reason);
+    
+    const updated = await prisma.securityDeposit.update({
+      where: { id: depositId },
+      data: {
+        status: 'released',
+        releasedAt: new Date(),
+        releaseReason: reason,
+        paymentId: payment.id
+      }
+    });
+    
+    await LedgerService.postSecurityDepositSettled({
+      depositId,
+      recipientId: deposit.businessId,
+      amount: deposit.amount,
+      outcome: 'released',
+      currency: deposit.currency
+    });
+    
+    await LedgerService.postDisbursement({
+      source: 'security_deposit',
+      sourceId: depositId,
+      recipientId: deposit.businessId,
+      amount: deposit.amount,
+      currency: deposit.currency
+    });
+    
+    await EscrowChainService.append(EscrowChainService.chainId('security_deposit', depositId), 'released', {
+      recipientId: deposit.businessId,
+      amount: deposit.amount,
+      currency: deposit.currency,
+      reason
+    });
+    
+    await indigenousLedger.log(
+      'escrow.security_released',
+      'info',
+      'Bid security deposit returned to bidder',
+      { depositId, bidId: deposit.bidId, amount: deposit.amount, reason }
+    );
+    
+    await this.sendNotification(deposit.businessId, {
+      type: 'security_deposit_released',
+      message: `Your bid security deposit of ${deposit.currency} ${deposit.amount.toLocaleString()} has been released`
+    });
+    
+    return updated;
+  }
+  
+  /**
+   * Forfeit a security deposit to the buyer (e.g. a winning bidder who
+   * will not sign the contract)
+   */
+  static async forfeitSecurityDeposit(
+    depositId: string,
+    reason: string,
+    beneficiaryId: string
+  ): Promise<any> {
+    const deposit = await prisma.securityDeposit.findUnique({
+      where: { id: depositId }
+    });
+    
+    if (!deposit) {
+      throw new Error('Security deposit not found');
+    }
+    
+    if (deposit.status !== 'held') {
+      throw new Error(`Security deposit is ${deposit.status}`);
+    }
+    
+    const payment = await this.disburseSecurityDeposit(deposit, beneficiaryId, reason);
+    
+    const updated = await prisma.securityDeposit.update({
+      where: { id: depositId },
+      data: {
+        status: 'forfeited',
+        forfeitedAt: new Date(),
+        forfeitReason: reason,
+        beneficiaryId,
+        paymentId: payment.id
+      }
+    });
+    
+    await LedgerService.postSecurityDepositSettled({
+      depositId,
+      recipientId: beneficiaryId,
+      amount: deposit.amount,
+      outcome: 'forfeited',
+      currency: deposit.currency
+    });
+    
+    await LedgerService.postDisbursement({
+      source: 'security_deposit',
+      sourceId: depositId,
+      recipientId: beneficiaryId,
+      amount: deposit.amount,
+      currency: deposit.currency
+    });
+    
+    await EscrowChainService.append(EscrowChainService.chainId('security_deposit', depositId), 'forfeited', {
+      beneficiaryId,
+      amount: deposit.amount,
+      currency: deposit.currency,
+      reason
+    });
+    
+    await indigenousLedger.log(
+      'escrow.security_forfeited',
+      'warning',
+      'Bid security deposit forfeited',
+      { depositId, bidId: deposit.bidId, amount: deposit.amount, beneficiaryId, reason }
+    );
+    
+    await this.sendNotification(deposit.businessId, {
+      type: 'security_deposit_forfeited',
+      message: `Your bid security deposit of ${deposit.currency} ${deposit.amount.toLocaleString()} has been forfeited: ${reason}`
+    });
+    
+    return updated;
+  }
+  
+  /**
+   * Generate bankable payment certificate, signed and anchored to the
+   * escrow's event chain so lenders can verify it without calling us
    */
   private static async generatePaymentCertificate(
     escrow: any
@@ -478,39 +786,59 @@ export class UniversalEscrowService {
     const ltvRatio = riskScore < 0.2 ? 0.8 : 0.6; // Better risk = higher LTV
     const suggestedRate = 4.5 + (riskScore * 10); // Base rate + risk premium
     
+    const guarantee = {
+      amount: escrow.funding.governmentCommitment,
+      currency: escrow.currency || 'CAD',
+      guarantor: escrow.parties.fundingSource.name,
+      expiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year
+      conditions: [
+        'Valid government appropriation',
+        'Project milestones tracked via platform',
+        'Multi-party approval for releases'
+      ]
+    };
+    
+    const bankingDetails = {
+      acceptable: true,
+      ltvRatio,
+      riskRating: riskScore < 0.2 ? 'A' : riskScore < 0.4 ? 'BBB' : 'BB',
+      suggestedRate
+    };
+    
+    const signed = await PaymentCertificateService.issue({
+      certificateNumber,
+      escrowId: escrow.id,
+      guarantee: { ...guarantee, expiryDate: guarantee.expiryDate.toISOString() },
+      bankingDetails
+    });
+    
     const certificate: PaymentCertificate = {
       id: `cert-${escrow.id}`,
       escrowId: escrow.id,
       certificateNumber,
-      
-      guarantee: {
-        amount: escrow.funding.governmentCommitment,
-        guarantor: escrow.parties.fundingSource.name,
-        expiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year
-        conditions: [
-          'Valid government appropriation',
-          'Project milestones tracked via platform',
-          'Multi-party approval for releases'
-        ]
-      },
-      
-      bankingDetails: {
-        acceptable: true,
-        ltvRatio,
-        riskRating: riskScore < 0.2 ? 'A' : riskScore < 0.4 ? 'BBB' : 'BB',
-        suggestedRate
-      },
-      
+      guarantee,
+      bankingDetails,
       ledgerProof: {
-        transactionHash: `0x${escrow.id}`,
-        blockNumber: 12345678, // Would be real block number
-        timestamp: new Date()
+        transactionHash: signed.body.anchor.hash,
+        blockNumber: signed.body.anchor.sequence,
+        timestamp: new Date(signed.body.issuedAt)
+      },
+      verification: {
+        digest: signed.digest,
+        signature: signed.signature,
+        keyId: signed.keyId,
+        algorithm: signed.algorithm
       }
     };
     
     // Store certificate
     await prisma.paymentCertificate.create({
-      data: certificate as unknown
+      data: {
+        ...certificate,
+        digest: signed.digest,
+        signedCertificate: signed,
+        status: 'ACTIVE'
+      } as unknown
     });
     
     return certificate;
@@ -664,7 +992,7 @@ export class UniversalEscrowService {
     // Notify contractor
     await this.sendNotification(escrow.parties.primaryContractor.id, {
       type: 'funding_complete',
-      message: `Project ${escrow.projectName} funded with $${amount.toLocaleString()}`
+      message: `Project ${escrow.projectName} funded with ${escrow.currency || 'CAD'} ${amount.toLocaleString()}`
     });
     notified.push(escrow.parties.primaryContractor.name);
     
@@ -693,6 +1021,31 @@ export class UniversalEscrowService {
     });
   }
   
+  private static async disburseSecurityDeposit(
+    deposit: any,
+    recipientId: string,
+    reason: string
+  ): Promise<any> {
+    // Deposits carry no platform fees in either direction
+    const payment = await prisma.escrowPayment.create({
+      data: {
+        securityDepositId: deposit.id,
+        grossAmount: deposit.amount,
+        fees: { transaction: 0, quickPay: 0 },
+        netAmount: deposit.amount,
+        currency: deposit.currency,
+        recipientId,
+        description: reason,
+        status: 'processing',
+        initiatedAt: new Date()
+      }
+    });
+    
+    await this.triggerQuickPay(payment);
+    
+    return payment;
+  }
+  
   private static async triggerQuickPay(payment: unknown): Promise<number> {
     // Integrate with QuickPay engine
     // Returns hours until disbursement
@@ -714,6 +1067,7 @@ export class UniversalEscrowService {
       id: escrow.id,
       projectName: escrow.projectName,
       status: escrow.status,
+      currency: escrow.currency || 'CAD',
       funding: escrow.funding,
       balance: escrow.balance,
       parties: {
@@ -11,6 +11,20 @@ import winston from 'winston';
 import cron from 'node-cron';
 import { PrismaClient } from '@prisma/client';
 import { PaymentService } from './services/payment.service';
+import { UniversalEscrowService } from './features/payment-rails/universal-escrow-service';
+import { LedgerService, LedgerInvariantError } from './services/ledger.service';
+import { BankReconciliationService } from './services/bank-reconciliation.service';
+import { EftPayoutService } from './services/eft-payout.service';
+import { TaxService } from './services/tax.service';
+import { ReceivablesService } from './services/receivables.service';
+import { AccountingExportService } from './services/accounting-export.service';
+import { FxService } from './services/fx.service';
+import { DisputeService } from './services/dispute.service';
+import { PaymentCertificateService } from './services/payment-certificate.service';
+import { EscrowChainService } from './services/escrow-chain.service';
+import { invoiceTaxInputFromJson } from './utils/sales-tax';
+import { providerRegistry, sandboxProvider } from './providers';
+import { ProviderEvent } from './types/payment.types';
 import { format, startOfMonth, endOfMonth, subDays } from 'date-fns';
 
 // Load environment variables
@@ -61,182 +75,1373 @@ const logger = winston.createLogger({
 app.use(helmet());
 app.use(cors());
 app.use(compression());
+
+// Provider webhooks need the raw body for signature checks, so they are
+// mounted ahead of the JSON parser
+app.post('/api/webhooks/:provider', express.raw({ type: 'application/json' }), async (req, res) => {
+  try {
+    const adapter = providerRegistry.get(req.params.provider);
+    if (!adapter.parseWebhook) {
+      res.status(404).json({ error: `${adapter.name} does not accept webhooks here` });
+      return;
+    }
+    
+    let event;
+    try {
+      event = adapter.parseWebhook(req.body, req.headers);
+    } catch (error: any) {
+      logger.warn(`Rejected ${adapter.name} webhook: ${error.message}`);
+      res.status(401).json({ error: error.message });
+      return;
+    }
+    
+    if (event) {
+      providerRegistry.dispatch(event);
+    }
+    
+    res.json({ received: true });
+  } catch (error: any) {
+    logger.error('Provider webhook error:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
-// Rate limiting
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000,
-  max: 100
+// Rate limiting
+const limiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 100
+});
+app.use('/api/', limiter);
+
+// Strict rate limiting for payment endpoints
+const paymentLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  message: 'Too many payment requests, please try again later'
+});
+app.use('/api/payments/process', paymentLimiter);
+
+// Health check
+app.get('/health', async (req, res) => {
+  try {
+    await prisma.$queryRaw`SELECT 1`;
+    await redis.ping();
+    
+    res.json({ 
+      status: 'healthy',
+      service: 'payment-service',
+      timestamp: new Date().toISOString(),
+      features: {
+        multiProvider: true,
+        indigenousIncentives: true,
+        reconciliation: true,
+        mandateTracking: true
+      }
+    });
+  } catch (error) {
+    res.status(503).json({ 
+      status: 'unhealthy',
+      error: 'Database or Redis connection failed'
+    });
+  }
+});
+
+// Process payment
+app.post('/api/payments/process', async (req, res) => {
+  try {
+    const result = await PaymentService.processPayment({
+      amount: req.body.amount,
+      currency: req.body.currency || 'CAD',
+      method: req.body.method,
+      provider: req.body.provider,
+      paymentMethod: req.body.paymentMethod,
+      payerId: req.body.payerId,
+      payeeId: req.body.payeeId,
+      invoiceId: req.body.invoiceId,
+      orderId: req.body.orderId,
+      rfqId: req.body.rfqId,
+      description: req.body.description,
+      isIndigenousBusiness: req.body.isIndigenousBusiness,
+      indigenousBusinessId: req.body.indigenousBusinessId,
+      bandNumber: req.body.bandNumber,
+      fxLockId: req.body.fxLockId,
+      metadata: req.body.metadata
+    });
+    
+    // Emit real-time update
+    io.emit('payment:processed', {
+      paymentId: result.paymentId,
+      status: result.status,
+      indigenousContribution: result.indigenousContribution
+    });
+    
+    res.json({
+      success: true,
+      ...result,
+      message: 'Payment processed successfully'
+    });
+  } catch (error: any) {
+    logger.error('Payment processing error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Create payment split
+app.post('/api/payments/:paymentId/split', async (req, res) => {
+  try {
+    const result = await PaymentService.createPaymentSplit({
+      paymentId: req.params.paymentId,
+      splits: req.body.splits
+    });
+    
+    res.json({
+      success: true,
+      ...result,
+      message: 'Payment split created successfully'
+    });
+  } catch (error: any) {
+    logger.error('Payment split error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Process refund
+app.post('/api/payments/:paymentId/refund', async (req, res) => {
+  try {
+    const result = await PaymentService.processRefund({
+      paymentId: req.params.paymentId,
+      amount: req.body.amount,
+      reason: req.body.reason,
+      description: req.body.description,
+      requestedBy: req.body.userId || req.headers['x-user-id'] as string || 'system'
+    });
+    
+    // Emit refund event
+    io.emit('payment:refunded', {
+      paymentId: req.params.paymentId,
+      refundId: result.refundId,
+      indigenousImpact: result.indigenousImpact
+    });
+    
+    res.json({
+      success: true,
+      ...result,
+      message: 'Refund processed successfully'
+    });
+  } catch (error: any) {
+    logger.error('Refund processing error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Handle dispute
+app.post('/api/payments/:paymentId/dispute', async (req, res) => {
+  try {
+    const result = await PaymentService.handleDispute({
+      paymentId: req.params.paymentId,
+      type: req.body.type,
+      reason: req.body.reason,
+      amount: req.body.amount,
+      disputedBy: req.body.userId || req.headers['x-user-id'] as string || 'system',
+      evidence: req.body.evidence
+    });
+    
+    res.json({
+      success: true,
+      ...result,
+      message: 'Dispute filed successfully'
+    });
+  } catch (error: any) {
+    logger.error('Dispute handling error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Dispute cases the user is a party to or mediating (officers see all)
+app.get('/api/disputes', async (req, res) => {
+  try {
+    const cases = await DisputeService.listCases(
+      req.headers['x-user-id'] as string || 'system',
+      { state: req.query.state as string, subjectType: req.query.subjectType as string }
+    );
+    res.json({ success: true, cases });
+  } catch (error: any) {
+    logger.error('Dispute case list error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Dispute case with evidence and timeline
+app.get('/api/disputes/:caseId', async (req, res) => {
+  try {
+    const disputeCase = await DisputeService.getCase(req.params.caseId, req.headers['x-user-id'] as string || 'system');
+    res.json({ success: true, case: disputeCase });
+  } catch (error: any) {
+    logger.error('Dispute case lookup error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Request evidence from one or both parties
+app.post('/api/disputes/:caseId/evidence-requests', async (req, res) => {
+  try {
+    const disputeCase = await DisputeService.requestEvidence(
+      req.params.caseId,
+      req.body.userId || req.headers['x-user-id'] as string || 'system',
+      { from: req.body.from || [], note: req.body.note, dueInDays: req.body.dueInDays }
+    );
+    io.to(`dispute:${disputeCase.id}`).emit('dispute:updated', { caseId: disputeCase.id, state: disputeCase.state });
+    res.json({ success: true, case: disputeCase });
+  } catch (error: any) {
+    logger.error('Dispute evidence request error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Attach a document uploaded to the documents service as evidence
+app.post('/api/disputes/:caseId/evidence', async (req, res) => {
+  try {
+    const evidence = await DisputeService.submitEvidence(
+      req.params.caseId,
+      req.body.userId || req.headers['x-user-id'] as string || 'system',
+      { documentId: req.body.documentId, description: req.body.description }
+    );
+    io.to(`dispute:${req.params.caseId}`).emit('dispute:evidence', { caseId: req.params.caseId, evidenceId: evidence.id });
+    res.json({ success: true, evidence });
+  } catch (error: any) {
+    logger.error('Dispute evidence error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/disputes/:caseId/evidence/:evidenceId/download', async (req, res) => {
+  try {
+    const url = await DisputeService.getEvidenceDownloadUrl(
+      req.params.caseId,
+      req.params.evidenceId,
+      req.headers['x-user-id'] as string || 'system'
+    );
+    res.json({ success: true, url });
+  } catch (error: any) {
+    logger.error('Dispute evidence download error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/disputes/:caseId/review', async (req, res) => {
+  try {
+    const disputeCase = await DisputeService.startReview(
+      req.params.caseId,
+      req.body.userId || req.headers['x-user-id'] as string || 'system',
+      req.body.note
+    );
+    io.to(`dispute:${disputeCase.id}`).emit('dispute:updated', { caseId: disputeCase.id, state: disputeCase.state });
+    res.json({ success: true, case: disputeCase });
+  } catch (error: any) {
+    logger.error('Dispute review error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// A party agrees to platform, external or community Elder mediation
+app.post('/api/disputes/:caseId/mediation/consent', async (req, res) => {
+  try {
+    const disputeCase = await DisputeService.consentToMediation(
+      req.params.caseId,
+      req.body.userId || req.headers['x-user-id'] as string || 'system',
+      req.body.mediatorType
+    );
+    res.json({ success: true, case: disputeCase });
+  } catch (error: any) {
+    logger.error('Dispute mediation consent error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/disputes/:caseId/mediation', async (req, res) => {
+  try {
+    const disputeCase = await DisputeService.assignMediator(
+      req.params.caseId,
+      req.body.userId || req.headers['x-user-id'] as string || 'system',
+      {
+        mediatorId: req.body.mediatorId,
+        mediatorType: req.body.mediatorType,
+        mediatorName: req.body.mediatorName,
+        community: req.body.community
+      }
+    );
+    io.to(`dispute:${disputeCase.id}`).emit('dispute:updated', { caseId: disputeCase.id, state: disputeCase.state });
+    res.json({ success: true, case: disputeCase });
+  } catch (error: any) {
+    logger.error('Dispute mediator assignment error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/disputes/:caseId/mediation/end', async (req, res) => {
+  try {
+    const disputeCase = await DisputeService.endMediation(
+      req.params.caseId,
+      req.body.userId || req.headers['x-user-id'] as string || 'system',
+      req.body.note
+    );
+    io.to(`dispute:${disputeCase.id}`).emit('dispute:updated', { caseId: disputeCase.id, state: disputeCase.state });
+    res.json({ success: true, case: disputeCase });
+  } catch (error: any) {
+    logger.error('Dispute mediation end error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Resolve a case, awarding the claimant all, part or none of the frozen funds
+app.post('/api/disputes/:caseId/resolve', async (req, res) => {
+  try {
+    const disputeCase = await DisputeService.resolve(
+      req.params.caseId,
+      req.body.userId || req.headers['x-user-id'] as string || 'system',
+      { toClaimant: req.body.toClaimant, claimantPercent: req.body.claimantPercent, summary: req.body.summary }
+    );
+    io.to(`dispute:${disputeCase.id}`).emit('dispute:updated', { caseId: disputeCase.id, state: disputeCase.state });
+    res.json({ success: true, case: disputeCase });
+  } catch (error: any) {
+    logger.error('Dispute resolution error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/disputes/:caseId/withdraw', async (req, res) => {
+  try {
+    const disputeCase = await DisputeService.withdraw(
+      req.params.caseId,
+      req.body.userId || req.headers['x-user-id'] as string || 'system',
+      req.body.reason
+    );
+    io.to(`dispute:${disputeCase.id}`).emit('dispute:updated', { caseId: disputeCase.id, state: disputeCase.state });
+    res.json({ success: true, case: disputeCase });
+  } catch (error: any) {
+    logger.error('Dispute withdrawal error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Hold bid security deposit in escrow
+app.post('/api/escrow/security-deposits', async (req, res) => {
+  try {
+    const deposit = await UniversalEscrowService.holdSecurityDeposit(req.body);
+    
+    res.status(201).json({
+      success: true,
+      depositId: deposit.id,
+      status: deposit.status,
+      message: 'Security deposit held'
+    });
+  } catch (error: any) {
+    logger.error('Security deposit hold error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Release bid security deposit to the bidder
+app.post('/api/escrow/security-deposits/:depositId/release', async (req, res) => {
+  try {
+    const deposit = await UniversalEscrowService.releaseSecurityDeposit(
+      req.params.depositId,
+      req.body.reason
+    );
+    
+    res.json({
+      success: true,
+      depositId: deposit.id,
+      status: deposit.status,
+      message: 'Security deposit released'
+    });
+  } catch (error: any) {
+    logger.error('Security deposit release error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Forfeit bid security deposit to the buyer
+app.post('/api/escrow/security-deposits/:depositId/forfeit', async (req, res) => {
+  try {
+    const deposit = await UniversalEscrowService.forfeitSecurityDeposit(
+      req.params.depositId,
+      req.body.reason,
+      req.body.beneficiaryId
+    );
+    
+    res.json({
+      success: true,
+      depositId: deposit.id,
+      status: deposit.status,
+      message: 'Security deposit forfeited'
+    });
+  } catch (error: any) {
+    logger.error('Security deposit forfeiture error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Public key lenders verify payment certificates with
+app.get('/api/certificates/public-key', (_req, res) => {
+  try {
+    res.json({ success: true, ...PaymentCertificateService.publicKey() });
+  } catch (error: any) {
+    logger.error('Certificate public key error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Public verification of a payment certificate by number
+app.get('/api/certificates/:certificateNumber/verify', async (req, res) => {
+  try {
+    const result = await PaymentCertificateService.verifyByNumber(req.params.certificateNumber);
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    logger.error('Certificate verification error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Verify a certificate bundle a lender was given
+app.post('/api/certificates/verify', async (req, res) => {
+  try {
+    const result = await PaymentCertificateService.verifyBundle(req.body.bundle || req.body);
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    logger.error('Certificate bundle verification error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Certificate and escrow chain for offline verification
+app.get('/api/certificates/:certificateNumber/bundle', async (req, res) => {
+  try {
+    const bundle = await PaymentCertificateService.getBundle(req.params.certificateNumber);
+    res.setHeader('Content-Disposition', `attachment; filename="${req.params.certificateNumber}.json"`);
+    res.json(bundle);
+  } catch (error: any) {
+    logger.error('Certificate bundle error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/certificates/:certificateNumber/revoke', async (req, res) => {
+  try {
+    const certificate = await PaymentCertificateService.revoke(
+      req.params.certificateNumber,
+      req.body.reason,
+      req.body.userId || req.headers['x-user-id'] as string || 'system'
+    );
+    res.json({ success: true, certificate });
+  } catch (error: any) {
+    logger.error('Certificate revocation error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Event chain of a universal escrow, with its integrity check
+app.get('/api/escrow/universal/:escrowId/chain', async (req, res) => {
+  try {
+    const chainId = EscrowChainService.chainId('universal_escrow', req.params.escrowId);
+    const [events, verification] = await Promise.all([
+      EscrowChainService.getChain(chainId),
+      EscrowChainService.verify(chainId)
+    ]);
+    res.json({ success: true, chainId, verification, events });
+  } catch (error: any) {
+    logger.error('Escrow chain error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Registered payment providers and the routing policy
+app.get('/api/providers', (_req, res) => {
+  res.json({
+    success: true,
+    providers: providerRegistry.list(),
+    sandboxMode: providerRegistry.isSandboxMode(),
+    routingRules: providerRegistry.getRoutingRules()
+  });
+});
+
+// Complete a sandbox 3-D Secure challenge (only mounted in sandbox mode)
+if (sandboxProvider) {
+  const sandbox = sandboxProvider;
+  app.post('/api/providers/sandbox/3ds/:transactionId', (req, res) => {
+    try {
+      const transaction = sandbox.completeThreeDSecure(
+        req.params.transactionId,
+        req.body.approved !== false
+      );
+
+      res.json({ success: true, transaction });
+    } catch (error: any) {
+      logger.error('Sandbox 3DS error:', error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+}
+
+// Ledger balance for one account
+app.get('/api/ledger/accounts/:account/balance', async (req, res) => {
+  try {
+    const balances = await LedgerService.getAccountBalance(
+      req.params.account,
+      req.query.asOf ? new Date(req.query.asOf as string) : undefined
+    );
+    
+    res.json({ success: true, account: req.params.account, balances });
+  } catch (error: any) {
+    logger.error('Ledger balance error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Ledger balances for every account under a prefix
+app.get('/api/ledger/balances', async (req, res) => {
+  try {
+    const balances = await LedgerService.getBalances(
+      (req.query.prefix as string) || '',
+      req.query.asOf ? new Date(req.query.asOf as string) : undefined
+    );
+    
+    res.json({ success: true, balances });
+  } catch (error: any) {
+    logger.error('Ledger balances error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Trial balance
+app.get('/api/ledger/trial-balance', async (req, res) => {
+  try {
+    const trialBalance = await LedgerService.getTrialBalance(
+      req.query.asOf ? new Date(req.query.asOf as string) : undefined
+    );
+    
+    res.json({ success: true, ...trialBalance });
+  } catch (error: any) {
+    logger.error('Trial balance error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Prove the books balance
+app.get('/api/ledger/verify', async (_req, res) => {
+  try {
+    const result = await LedgerService.verifyInvariants();
+    
+    res.json({
+      success: true,
+      entriesChecked: result.entriesChecked,
+      totals: result.trialBalance.totals
+    });
+  } catch (error: any) {
+    logger.error('Ledger verification error:', error);
+    res.status(500).json({
+      error: error.message,
+      details: error instanceof LedgerInvariantError ? error.details : undefined
+    });
+  }
+});
+
+// Perform reconciliation
+app.post('/api/reconciliation/perform', async (req, res) => {
+  try {
+    const result = await PaymentService.performReconciliation({
+      startDate: new Date(req.body.startDate),
+      endDate: new Date(req.body.endDate),
+      type: req.body.type || 'DAILY',
+      reconciledBy: req.body.userId || req.headers['x-user-id'] as string || 'system'
+    });
+    
+    // Emit reconciliation results
+    io.emit('reconciliation:completed', {
+      reconciliationId: result.reconciliationId,
+      mandate5Compliance: result.mandate5Compliance,
+      indigenousPercentage: result.indigenousPercentage
+    });
+    
+    res.json({
+      success: true,
+      ...result,
+      message: 'Reconciliation completed'
+    });
+  } catch (error: any) {
+    logger.error('Reconciliation error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Import a bank statement (CAMT053, BAI2 or CSV) and auto-match it
+app.post('/api/reconciliation/statements', async (req, res) => {
+  try {
+    if (!['CAMT053', 'BAI2', 'CSV'].includes(req.body.format)) {
+      res.status(400).json({ error: 'format must be CAMT053, BAI2 or CSV' });
+      return;
+    }
+    if (!req.body.content) {
+      res.status(400).json({ error: 'Statement content is required' });
+      return;
+    }
+    
+    const content = req.body.encoding === 'base64'
+      ? Buffer.from(req.body.content, 'base64').toString('utf8')
+      : req.body.content;
+    
+    const result = await BankReconciliationService.importStatement({
+      format: req.body.format,
+      content,
+      accountId: req.body.accountId,
+      csv: req.body.csv,
+      importedBy: req.body.userId || req.headers['x-user-id'] as string || 'system'
+    });
+    
+    io.to('reconciliation:all').emit('reconciliation:statement_imported', result);
+    
+    res.status(201).json({ success: true, ...result });
+  } catch (error: any) {
+    logger.error('Statement import error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Re-run auto-matching for a statement
+app.post('/api/reconciliation/statements/:statementId/auto-match', async (req, res) => {
+  try {
+    const result = await BankReconciliationService.autoMatchStatement(req.params.statementId, req.body);
+    
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    logger.error('Auto-match error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Unmatched statement lines and payments
+app.get('/api/reconciliation/unmatched', async (req, res) => {
+  try {
+    const result = await BankReconciliationService.getUnmatched({
+      startDate: req.query.startDate ? new Date(req.query.startDate as string) : subDays(new Date(), 30),
+      endDate: req.query.endDate ? new Date(req.query.endDate as string) : new Date(),
+      statementId: req.query.statementId as string | undefined
+    });
+    
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    logger.error('Unmatched items error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Manually match a statement line to payments
+app.post('/api/reconciliation/lines/:lineId/match', async (req, res) => {
+  try {
+    if (!Array.isArray(req.body.paymentIds) || req.body.paymentIds.length === 0) {
+      res.status(400).json({ error: 'paymentIds is required' });
+      return;
+    }
+    
+    const result = await BankReconciliationService.manualMatch({
+      lineId: req.params.lineId,
+      paymentIds: req.body.paymentIds,
+      note: req.body.note,
+      differenceReason: req.body.differenceReason,
+      matchedBy: req.body.userId || req.headers['x-user-id'] as string
+    });
+    
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    logger.error('Manual match error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Undo a match
+app.delete('/api/reconciliation/lines/:lineId/match', async (req, res) => {
+  try {
+    await BankReconciliationService.unmatch(
+      req.params.lineId,
+      req.headers['x-user-id'] as string || 'system'
+    );
+    
+    res.json({ success: true });
+  } catch (error: any) {
+    logger.error('Unmatch error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Write off an unmatched statement line or payment
+app.post('/api/reconciliation/write-offs', async (req, res) => {
+  try {
+    if (!req.body.reason) {
+      res.status(400).json({ error: 'A write-off reason is required' });
+      return;
+    }
+    
+    const writeOff = await BankReconciliationService.writeOff({
+      lineId: req.body.lineId,
+      paymentId: req.body.paymentId,
+      reason: req.body.reason,
+      writtenOffBy: req.body.userId || req.headers['x-user-id'] as string
+    });
+    
+    res.status(201).json({ success: true, writeOff });
+  } catch (error: any) {
+    logger.error('Write-off error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Generate a signed reconciliation report
+app.post('/api/reconciliation/reports', async (req, res) => {
+  try {
+    const result = await BankReconciliationService.generateReport({
+      startDate: new Date(req.body.startDate),
+      endDate: new Date(req.body.endDate),
+      reconciliationId: req.body.reconciliationId,
+      generatedBy: req.body.userId || req.headers['x-user-id'] as string || 'system'
+    });
+    
+    res.status(201).json({ success: true, ...result });
+  } catch (error: any) {
+    logger.error('Reconciliation report error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Export a signed reconciliation report as JSON or CSV
+app.get('/api/reconciliation/reports/:reportId', async (req, res) => {
+  try {
+    const { report, signature, algorithm } = await BankReconciliationService.getReport(req.params.reportId);
+    
+    res.setHeader('X-Report-Signature', `${algorithm} ${signature}`);
+    
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="reconciliation-${req.params.reportId}.csv"`);
+      res.send(BankReconciliationService.toCsv(report, signature));
+      return;
+    }
+    
+    res.json({ success: true, report, signature, algorithm });
+  } catch (error: any) {
+    logger.error('Reconciliation report export error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Verify a report has not been altered since it was signed
+app.post('/api/reconciliation/reports/verify', async (req, res) => {
+  try {
+    const valid = BankReconciliationService.verifyReport(req.body.report, req.body.signature || '');
+    
+    res.json({ success: true, valid });
+  } catch (error: any) {
+    logger.error('Reconciliation report verification error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// EFT payouts by status, recipient or batch
+app.get('/api/payouts', async (req, res) => {
+  try {
+    const payouts = await EftPayoutService.listPayouts({
+      status: req.query.status as any,
+      recipientId: req.query.recipientId as string | undefined,
+      batchId: req.query.batchId as string | undefined
+    });
+    
+    res.json({ success: true, payouts });
+  } catch (error: any) {
+    logger.error('Payout list error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Approve a payout for the next batch
+app.post('/api/payouts/:payoutId/approve', async (req, res) => {
+  try {
+    const payout = await EftPayoutService.approvePayout(
+      req.params.payoutId,
+      req.body.userId || req.headers['x-user-id'] as string
+    );
+    
+    res.json({ success: true, payout });
+  } catch (error: any) {
+    logger.error('Payout approval error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Release a held payout, optionally with corrected bank details
+app.post('/api/payouts/:payoutId/requeue', async (req, res) => {
+  try {
+    const payout = await EftPayoutService.requeuePayout(req.params.payoutId, {
+      bankAccount: req.body.bankAccount,
+      requeuedBy: req.body.userId || req.headers['x-user-id'] as string
+    });
+    
+    res.json({ success: true, payout });
+  } catch (error: any) {
+    logger.error('Payout requeue error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Generate a CPA-005 or pain.001 batch from approved payouts
+app.post('/api/payouts/batches', async (req, res) => {
+  try {
+    if (!['CPA005', 'PAIN001'].includes(req.body.format)) {
+      res.status(400).json({ error: 'format must be CPA005 or PAIN001' });
+      return;
+    }
+    
+    const batch = await EftPayoutService.createBatch({
+      format: req.body.format,
+      dueDate: req.body.dueDate ? new Date(req.body.dueDate) : new Date(),
+      currency: req.body.currency,
+      maxItems: req.body.maxItems,
+      createdBy: req.body.userId || req.headers['x-user-id'] as string || 'system'
+    });
+    
+    const { fileContent, ...summary } = batch;
+    res.status(201).json({ success: true, batch: summary });
+  } catch (error: any) {
+    logger.error('Payout batch error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Batch status and its payouts
+app.get('/api/payouts/batches/:batchId', async (req, res) => {
+  try {
+    const { fileContent, ...batch } = await EftPayoutService.getBatch(req.params.batchId);
+    
+    res.json({ success: true, batch });
+  } catch (error: any) {
+    logger.error('Payout batch fetch error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Download the batch file for upload to the bank
+app.get('/api/payouts/batches/:batchId/file', async (req, res) => {
+  try {
+    const batch = await EftPayoutService.getBatch(req.params.batchId);
+    
+    res.setHeader('Content-Type', batch.format === 'CPA005' ? 'text/plain' : 'application/xml');
+    res.setHeader('Content-Disposition', `attachment; filename="${batch.fileName}"`);
+    res.setHeader('X-Checksum-SHA256', batch.checksum);
+    res.send(batch.fileContent);
+  } catch (error: any) {
+    logger.error('Payout batch file error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Record that the batch file was uploaded to the bank
+app.post('/api/payouts/batches/:batchId/submitted', async (req, res) => {
+  try {
+    const batch = await EftPayoutService.markBatchSubmitted(
+      req.params.batchId,
+      req.body.userId || req.headers['x-user-id'] as string
+    );
+    
+    res.json({ success: true, status: batch.status });
+  } catch (error: any) {
+    logger.error('Payout batch submit error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Record that the bank settled the batch
+app.post('/api/payouts/batches/:batchId/settled', async (req, res) => {
+  try {
+    const batch = await EftPayoutService.markBatchSettled(req.params.batchId);
+    
+    io.emit('payouts:settled', { batchId: batch.id, itemCount: batch.itemCount });
+    
+    res.json({ success: true, status: batch.status });
+  } catch (error: any) {
+    logger.error('Payout batch settle error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Ingest a bank return file (CPA005 returned items or pain.002)
+app.post('/api/payouts/returns', async (req, res) => {
+  try {
+    if (!['CPA005', 'PAIN002'].includes(req.body.format)) {
+      res.status(400).json({ error: 'format must be CPA005 or PAIN002' });
+      return;
+    }
+    
+    const result = await EftPayoutService.ingestReturnFile({
+      format: req.body.format,
+      content: req.body.encoding === 'base64'
+        ? Buffer.from(req.body.content, 'base64').toString('utf8')
+        : req.body.content,
+      ingestedBy: req.body.userId || req.headers['x-user-id'] as string || 'system'
+    });
+    
+    if (result.returned > 0) {
+      io.emit('payouts:returned', result);
+    }
+    
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    logger.error('Payout return file error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Latest published FX rates on or before a date
+app.get('/api/fx/rates', async (req, res) => {
+  try {
+    const rates = await FxService.getRates(req.query.date ? new Date(req.query.date as string) : undefined);
+    
+    res.json({ success: true, rates });
+  } catch (error: any) {
+    logger.error('FX rates error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Conversion rate for a currency pair, direct or crossed through CAD
+app.get('/api/fx/rate', async (req, res) => {
+  try {
+    const rate = await FxService.getRate(
+      req.query.from as string,
+      req.query.to as string,
+      req.query.date ? new Date(req.query.date as string) : undefined
+    );
+    
+    res.json({ success: true, rate: { ...rate, rate: rate.rate.toString() } });
+  } catch (error: any) {
+    logger.error('FX rate error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Import a rate file (offline operation)
+app.post('/api/fx/rates/import', async (req, res) => {
+  try {
+    if (!['csv', 'boc_valet_json', 'boc_valet_csv'].includes(req.body.format)) {
+      res.status(400).json({ error: 'format must be csv, boc_valet_json or boc_valet_csv' });
+      return;
+    }
+    
+    const result = await FxService.importRates(
+      req.body.encoding === 'base64'
+        ? Buffer.from(req.body.content, 'base64').toString('utf8')
+        : req.body.content,
+      req.body.format,
+      req.body.userId || req.headers['x-user-id'] as string || 'system'
+    );
+    
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    logger.error('FX rate import error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/fx/rates/refresh', async (req, res) => {
+  try {
+    const result = await FxService.refreshRates(req.body.source);
+    
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    logger.error('FX rate refresh error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Quote a conversion and hold its rate for the transaction that follows
+app.post('/api/fx/locks', async (req, res) => {
+  try {
+    const lock = await FxService.lockRate({
+      from: req.body.from,
+      to: req.body.to,
+      amount: req.body.amount,
+      purpose: req.body.purpose,
+      referenceId: req.body.referenceId,
+      lockedBy: req.body.userId || req.headers['x-user-id'] as string || 'system'
+    });
+    
+    res.json({ success: true, lock });
+  } catch (error: any) {
+    logger.error('FX rate lock error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Realized and unrealized FX gain-loss in CAD
+app.get('/api/fx/gain-loss', async (req, res) => {
+  try {
+    const report = await FxService.getGainLossReport({
+      businessId: req.query.businessId as string | undefined,
+      periodStart: new Date(req.query.periodStart as string),
+      periodEnd: new Date(req.query.periodEnd as string),
+      asOf: req.query.asOf ? new Date(req.query.asOf as string) : undefined
+    });
+    
+    res.json({ success: true, report });
+  } catch (error: any) {
+    logger.error('FX gain-loss report error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Sales tax rates for one province, or all of them
+app.get('/api/tax/rates', async (req, res) => {
+  try {
+    const date = req.query.date ? new Date(req.query.date as string) : new Date();
+    const rates = req.query.province
+      ? TaxService.getTaxRates(req.query.province as string, date)
+      : TaxService.getAllTaxRates(date);
+    
+    res.json({ success: true, rates });
+  } catch (error: any) {
+    logger.error('Tax rate error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Per-line tax for an invoice without recording it
+app.post('/api/tax/calculate', async (req, res) => {
+  try {
+    const result = TaxService.calculateInvoiceTax(invoiceTaxInputFromJson(req.body));
+    
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    logger.error('Tax calculation error:', error);
+    res.status(500).json({ error: error.message });
+  }
 });
-app.use('/api/', limiter);
 
-// Strict rate limiting for payment endpoints
-const paymentLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000,
-  max: 20,
-  message: 'Too many payment requests, please try again later'
+// Tax and record an invoice or credit note, with any exemption evidence
+app.post('/api/tax/transactions', async (req, res) => {
+  try {
+    const input = invoiceTaxInputFromJson(req.body);
+    if (input.exemption) {
+      input.exemption.capturedBy = input.exemption.capturedBy || req.headers['x-user-id'] as string;
+    }
+    
+    const result = await TaxService.recordTaxTransaction({
+      ...input,
+      kind: req.body.kind || 'SALE',
+      supplierId: req.body.supplierId,
+      buyerId: req.body.buyerId,
+      paymentId: req.body.paymentId,
+      invoiceNumber: req.body.invoiceNumber,
+      originalTransactionId: req.body.originalTransactionId,
+      currency: req.body.currency
+    });
+    
+    res.status(201).json({ success: true, ...result });
+  } catch (error: any) {
+    logger.error('Tax transaction error:', error);
+    res.status(500).json({ error: error.message });
+  }
 });
-app.use('/api/payments/process', paymentLimiter);
 
-// Health check
-app.get('/health', async (req, res) => {
+// Exemption evidence kept for audit
+app.get('/api/tax/exemptions/:evidenceId', async (req, res) => {
   try {
-    await prisma.$queryRaw`SELECT 1`;
-    await redis.ping();
+    const evidence = await TaxService.getExemptionEvidence(req.params.evidenceId);
     
-    res.json({ 
-      status: 'healthy',
-      service: 'payment-service',
-      timestamp: new Date().toISOString(),
-      features: {
-        multiProvider: true,
-        indigenousIncentives: true,
-        reconciliation: true,
-        mandateTracking: true
+    res.json({ success: true, evidence });
+  } catch (error: any) {
+    logger.error('Exemption evidence error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GST/HST return (GST34) worksheet for a reporting period
+app.get('/api/tax/returns/gst34', async (req, res) => {
+  try {
+    const worksheet = await TaxService.generateGst34Worksheet({
+      businessId: req.query.businessId as string,
+      periodStart: new Date(req.query.periodStart as string),
+      periodEnd: new Date(req.query.periodEnd as string),
+      adjustments: {
+        instalments: req.query.instalments as string | undefined,
+        rebates: req.query.rebates as string | undefined
       }
     });
-  } catch (error) {
-    res.status(503).json({ 
-      status: 'unhealthy',
-      error: 'Database or Redis connection failed'
-    });
+    
+    res.json({ success: true, worksheet });
+  } catch (error: any) {
+    logger.error('GST34 worksheet error:', error);
+    res.status(500).json({ error: error.message });
   }
 });
 
-// Process payment
-app.post('/api/payments/process', async (req, res) => {
+// Create a draft invoice, optionally issuing it straight away
+app.post('/api/invoices', async (req, res) => {
   try {
-    const result = await PaymentService.processPayment({
-      amount: req.body.amount,
-      currency: req.body.currency || 'CAD',
-      method: req.body.method,
-      provider: req.body.provider,
-      payerId: req.body.payerId,
-      payeeId: req.body.payeeId,
-      invoiceId: req.body.invoiceId,
-      orderId: req.body.orderId,
-      rfqId: req.body.rfqId,
-      description: req.body.description,
-      isIndigenousBusiness: req.body.isIndigenousBusiness,
-      indigenousBusinessId: req.body.indigenousBusinessId,
-      bandNumber: req.body.bandNumber,
-      metadata: req.body.metadata
-    });
+    const { lines, billTo, shipTo, exemption } = invoiceTaxInputFromJson(req.body);
+    const createdBy = req.body.userId || req.headers['x-user-id'] as string || 'system';
     
-    // Emit real-time update
-    io.emit('payment:processed', {
-      paymentId: result.paymentId,
-      status: result.status,
-      indigenousContribution: result.indigenousContribution
+    let invoice = await ReceivablesService.createInvoice({
+      vendorId: req.body.vendorId,
+      clientId: req.body.clientId,
+      lines,
+      billTo,
+      shipTo,
+      exemption,
+      paymentTerms: req.body.paymentTerms || 'net_30',
+      currency: req.body.currency,
+      lateFeePolicy: req.body.lateFeePolicy,
+      notes: req.body.notes,
+      createdBy
     });
     
-    res.json({
-      success: true,
-      ...result,
-      message: 'Payment processed successfully'
-    });
+    if (req.body.issue) {
+      invoice = await ReceivablesService.issueInvoice(invoice.id, createdBy);
+    }
+    
+    res.status(201).json({ success: true, invoice });
   } catch (error: any) {
-    logger.error('Payment processing error:', error);
+    logger.error('Invoice creation error:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
-// Create payment split
-app.post('/api/payments/:paymentId/split', async (req, res) => {
+// Invoices by vendor, client or status
+app.get('/api/invoices', async (req, res) => {
   try {
-    const result = await PaymentService.createPaymentSplit({
-      paymentId: req.params.paymentId,
-      splits: req.body.splits
+    const invoices = await ReceivablesService.listInvoices({
+      vendorId: req.query.vendorId as string | undefined,
+      clientId: req.query.clientId as string | undefined,
+      status: req.query.status as any
     });
     
-    res.json({
-      success: true,
-      ...result,
-      message: 'Payment split created successfully'
-    });
+    res.json({ success: true, invoices });
   } catch (error: any) {
-    logger.error('Payment split error:', error);
+    logger.error('Invoice list error:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
-// Process refund
-app.post('/api/payments/:paymentId/refund', async (req, res) => {
+// Invoice with its payments, late fees and reminders
+app.get('/api/invoices/:invoiceId', async (req, res) => {
   try {
-    const result = await PaymentService.processRefund({
-      paymentId: req.params.paymentId,
-      amount: req.body.amount,
-      reason: req.body.reason,
-      description: req.body.description,
-      requestedBy: req.body.userId || req.headers['x-user-id'] as string || 'system'
-    });
+    const invoice = await ReceivablesService.getInvoice(req.params.invoiceId);
     
-    // Emit refund event
-    io.emit('payment:refunded', {
-      paymentId: req.params.paymentId,
-      refundId: result.refundId,
-      indigenousImpact: result.indigenousImpact
-    });
+    res.json({ success: true, invoice });
+  } catch (error: any) {
+    logger.error('Invoice fetch error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Number, tax and send a draft invoice
+app.post('/api/invoices/:invoiceId/issue', async (req, res) => {
+  try {
+    const invoice = await ReceivablesService.issueInvoice(
+      req.params.invoiceId,
+      req.body.userId || req.headers['x-user-id'] as string || 'system'
+    );
     
-    res.json({
-      success: true,
-      ...result,
-      message: 'Refund processed successfully'
-    });
+    res.json({ success: true, invoice });
   } catch (error: any) {
-    logger.error('Refund processing error:', error);
+    logger.error('Invoice issue error:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
-// Handle dispute
-app.post('/api/payments/:paymentId/dispute', async (req, res) => {
+// Cancel an unpaid invoice
+app.post('/api/invoices/:invoiceId/cancel', async (req, res) => {
   try {
-    const result = await PaymentService.handleDispute({
-      paymentId: req.params.paymentId,
-      type: req.body.type,
-      reason: req.body.reason,
-      amount: req.body.amount,
-      disputedBy: req.body.userId || req.headers['x-user-id'] as string || 'system',
-      evidence: req.body.evidence
-    });
+    if (!req.body.reason) {
+      res.status(400).json({ error: 'A cancellation reason is required' });
+      return;
+    }
     
-    res.json({
-      success: true,
-      ...result,
-      message: 'Dispute filed successfully'
-    });
+    const invoice = await ReceivablesService.cancelInvoice(
+      req.params.invoiceId,
+      req.body.userId || req.headers['x-user-id'] as string || 'system',
+      req.body.reason
+    );
+    
+    res.json({ success: true, invoice });
   } catch (error: any) {
-    logger.error('Dispute handling error:', error);
+    logger.error('Invoice cancel error:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
-// Perform reconciliation
-app.post('/api/reconciliation/perform', async (req, res) => {
+// Recurring invoice schedule
+app.post('/api/invoices/schedules', async (req, res) => {
   try {
-    const result = await PaymentService.performReconciliation({
+    const { lines, billTo, shipTo } = invoiceTaxInputFromJson(req.body.template || {});
+    
+    const schedule = await ReceivablesService.createSchedule({
+      vendorId: req.body.vendorId,
+      clientId: req.body.clientId,
+      frequency: req.body.frequency,
       startDate: new Date(req.body.startDate),
-      endDate: new Date(req.body.endDate),
-      type: req.body.type || 'DAILY',
-      reconciledBy: req.body.userId || req.headers['x-user-id'] as string || 'system'
+      endDate: req.body.endDate ? new Date(req.body.endDate) : undefined,
+      maxOccurrences: req.body.maxOccurrences,
+      autoIssue: req.body.autoIssue,
+      template: {
+        lines,
+        billTo,
+        shipTo,
+        paymentTerms: req.body.template.paymentTerms || 'net_30',
+        currency: req.body.template.currency,
+        lateFeePolicy: req.body.template.lateFeePolicy,
+        notes: req.body.template.notes
+      },
+      createdBy: req.body.userId || req.headers['x-user-id'] as string || 'system'
     });
     
-    // Emit reconciliation results
-    io.emit('reconciliation:completed', {
-      reconciliationId: result.reconciliationId,
-      mandate5Compliance: result.mandate5Compliance,
-      indigenousPercentage: result.indigenousPercentage
+    res.status(201).json({ success: true, schedule });
+  } catch (error: any) {
+    logger.error('Invoice schedule error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Pause, resume or cancel a recurring schedule
+app.post('/api/invoices/schedules/:scheduleId/status', async (req, res) => {
+  try {
+    if (!['ACTIVE', 'PAUSED', 'CANCELLED'].includes(req.body.status)) {
+      res.status(400).json({ error: 'status must be ACTIVE, PAUSED or CANCELLED' });
+      return;
+    }
+    
+    const schedule = await ReceivablesService.setScheduleStatus(req.params.scheduleId, req.body.status);
+    
+    res.json({ success: true, schedule });
+  } catch (error: any) {
+    logger.error('Invoice schedule status error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Apply a client payment against open invoices
+app.post('/api/receivables/payments', async (req, res) => {
+  try {
+    const result = await ReceivablesService.recordPayment({
+      vendorId: req.body.vendorId,
+      clientId: req.body.clientId,
+      amount: req.body.amount,
+      currency: req.body.currency,
+      fxLockId: req.body.fxLockId,
+      paymentId: req.body.paymentId,
+      receivedAt: req.body.receivedAt ? new Date(req.body.receivedAt) : undefined,
+      allocations: req.body.allocations,
+      recordedBy: req.body.userId || req.headers['x-user-id'] as string || 'system'
     });
     
-    res.json({
-      success: true,
-      ...result,
-      message: 'Reconciliation completed'
+    io.to(`receivables:${req.body.vendorId}`).emit('receivables:payment', result);
+    
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    logger.error('Receivables payment error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// AR aging by bucket and client
+app.get('/api/receivables/aging', async (req, res) => {
+  try {
+    const report = await ReceivablesService.getAgingReport(
+      req.query.vendorId as string,
+      req.query.asOf ? new Date(req.query.asOf as string) : undefined,
+      req.query.currency as string
+    );
+    
+    res.json({ success: true, report });
+  } catch (error: any) {
+    logger.error('AR aging error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Chart-of-accounts mapping a business uses for one accounting format
+app.get('/api/accounting/mappings/:businessId/:format', async (req, res) => {
+  try {
+    const mapping = await AccountingExportService.getMapping(req.params.businessId, req.params.format);
+    
+    res.json({ success: true, mapping });
+  } catch (error: any) {
+    logger.error('Accounting mapping error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.put('/api/accounting/mappings/:businessId/:format', async (req, res) => {
+  try {
+    const mapping = await AccountingExportService.saveMapping(
+      req.params.businessId,
+      req.params.format,
+      {
+        accounts: req.body.accounts,
+        taxCodes: req.body.taxCodes,
+        dateFormat: req.body.dateFormat
+      },
+      req.body.userId || req.headers['x-user-id'] as string || 'system'
+    );
+    
+    res.json({ success: true, mapping });
+  } catch (error: any) {
+    logger.error('Accounting mapping update error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Export entries since the business's last export, or since a given date
+app.post('/api/accounting/exports', async (req, res) => {
+  try {
+    const result = await AccountingExportService.runExport({
+      businessId: req.body.businessId,
+      format: req.body.format,
+      since: req.body.since ? new Date(req.body.since) : undefined,
+      requestedBy: req.body.userId || req.headers['x-user-id'] as string || 'system'
     });
+    
+    res.json({ success: true, export: result });
   } catch (error: any) {
-    logger.error('Reconciliation error:', error);
+    logger.error('Accounting export error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/accounting/exports', async (req, res) => {
+  try {
+    const exports = await AccountingExportService.listExports(
+      req.query.businessId as string,
+      req.query.limit ? parseInt(req.query.limit as string) : undefined
+    );
+    
+    res.json({ success: true, exports });
+  } catch (error: any) {
+    logger.error('Accounting export list error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Download one file of an export for import into the accounting package
+app.get('/api/accounting/exports/:exportId/files/:fileName', async (req, res) => {
+  try {
+    const file = await AccountingExportService.getExportFile(req.params.exportId, req.params.fileName);
+    
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.setHeader('X-Checksum-SHA256', file.checksum);
+    res.send(file.content);
+  } catch (error: any) {
+    logger.error('Accounting export file error:', error);
     res.status(500).json({ error: error.message });
   }
 });
@@ -567,11 +1772,37 @@ io.on('connection', (socket) => {
     socket.join('mandate:compliance');
   });
   
+  // Subscribe to a vendor's receivables
+  socket.on('subscribe:receivables', (vendorId: string) => {
+    socket.join(`receivables:${vendorId}`);
+  });
+  
+  // Subscribe to a dispute case
+  socket.on('subscribe:dispute', (caseId: string) => {
+    socket.join(`dispute:${caseId}`);
+  });
+  
   socket.on('disconnect', () => {
     logger.info('Socket disconnected:', socket.id);
   });
 });
 
+// Provider events settle payments left processing by 3-D Secure or delayed capture
+providerRegistry.on('event', async (event: ProviderEvent) => {
+  try {
+    const payment = await PaymentService.handleProviderEvent(event);
+    if (payment) {
+      io.emit('payment:updated', {
+        paymentId: payment.paymentId,
+        status: payment.status,
+        provider: event.provider
+      });
+    }
+  } catch (error) {
+    logger.error(`Failed to apply ${event.provider} event ${event.id}:`, error);
+  }
+});
+
 // Scheduled tasks
 // Daily reconciliation (runs at 2 AM)
 cron.schedule('0 2 * * *', async () => {
@@ -624,6 +1855,21 @@ cron.schedule('0 0 1 * *', async () => {
   }
 });
 
+// Hourly ledger invariant check
+cron.schedule('30 * * * *', async () => {
+  try {
+    const result = await LedgerService.verifyInvariants();
+    logger.info(`Ledger verified: ${result.entriesChecked} entries balance`);
+  } catch (error) {
+    // verifyInvariants has already logged the violation details
+    io.emit('ledger:alert', {
+      type: 'LEDGER_IMBALANCE',
+      message: (error as Error).message,
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
 // Hourly metrics update
 cron.schedule('0 * * * *', async () => {
   logger.info('Updating payment metrics');
@@ -641,6 +1887,29 @@ cron.schedule('0 * * * *', async () => {
   }
 });
 
+// FX rates once the Bank of Canada has published (weekdays at 5:30 PM)
+cron.schedule('30 17 * * 1-5', async () => {
+  try {
+    const result = await FxService.refreshRates();
+    logger.info(`FX rates refreshed: ${result.stored} from ${result.source}`);
+  } catch (error) {
+    logger.error('FX rate refresh failed:', error);
+  }
+});
+
+// Recurring invoices and dunning (daily at 6 AM)
+cron.schedule('0 6 * * *', async () => {
+  logger.info('Running recurring invoices and dunning');
+  try {
+    const schedules = await ReceivablesService.runDueSchedules();
+    const dunning = await ReceivablesService.runDunning();
+    
+    logger.info(`Generated ${schedules.generated} recurring invoices, sent ${dunning.remindersSent} reminders`);
+  } catch (error) {
+    logger.error('Receivables run failed:', error);
+  }
+});
+
 // Process scheduled payments (every 10 minutes)
 cron.schedule('*/10 * * * *', async () => {
   logger.info('Processing scheduled payments');
@@ -686,24 +1955,15 @@ cron.schedule('*/10 * * * *', async () => {
   }
 });
 
-// Clean up old disputes (weekly)
-cron.schedule('0 0 * * 0', async () => {
-  logger.info('Cleaning up expired disputes');
+// Dispute case deadlines (hourly)
+cron.schedule('15 * * * *', async () => {
   try {
-    const expired = await prisma.dispute.updateMany({
-      where: {
-        status: 'OPEN',
-        responseDeadline: { lt: new Date() }
-      },
-      data: {
-        status: 'EXPIRED',
-        outcome: 'WITHDRAWN'
-      }
-    });
-    
-    logger.info(`Marked ${expired.count} disputes as expired`);
+    const result = await DisputeService.processDeadlines();
+    if (result.escalated || result.overdue || result.settled) {
+      logger.info('Dispute deadlines processed', result);
+    }
   } catch (error) {
-    logger.error('Dispute cleanup failed:', error);
+    logger.error('Dispute deadline processing failed:', error);
   }
 });
 
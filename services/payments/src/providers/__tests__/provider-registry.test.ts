@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { ProviderRegistry, selectProvider, SANDBOX_PROVIDER } from '../provider-registry';
+import { SandboxProvider } from '../sandbox.provider';
+import { ChargeResult, PaymentProviderAdapter, ProviderRoutingRule } from '../../types/payment.types';
+
+function stubAdapter(name: string, currencies?: string[]): PaymentProviderAdapter {
+  return {
+    name,
+    ...(currencies ? { currencies } : {}),
+    charge: async (): Promise<ChargeResult> => ({ status: 'succeeded', transactionId: `${name}-1` })
+  };
+}
+
+const adapters = [
+  stubAdapter('STRIPE'),
+  stubAdapter('INTERAC', ['CAD']),
+  stubAdapter('RAZORPAY', ['INR'])
+];
+
+const rules: ProviderRoutingRule[] = [
+  { provider: 'INTERAC', currencies: ['CAD'], methods: ['E_TRANSFER'], maxAmount: 25000 },
+  { provider: 'STRIPE', payerTypes: ['INDIGENOUS_BUSINESS'], minAmount: 100 },
+  { provider: 'RAZORPAY', currencies: ['INR'] }
+];
+
+describe('Provider routing', () => {
+  it('picks the first rule matching currency, amount, method and payer type', () => {
+    expect(selectProvider(rules, { amount: 500, currency: 'cad', payerType: 'BUSINESS', method: 'E_TRANSFER' }, adapters))
+      .toBe('INTERAC');
+    expect(selectProvider(rules, { amount: 50000, currency: 'CAD', payerType: 'INDIGENOUS_BUSINESS', method: 'E_TRANSFER' }, adapters))
+      .toBe('STRIPE');
+    expect(selectProvider(rules, { amount: 500, currency: 'INR', payerType: 'BUSINESS' }, adapters))
+      .toBe('RAZORPAY');
+  });
+
+  it('falls back to the first adapter accepting the currency, never the sandbox', () => {
+    const withSandbox = [stubAdapter(SANDBOX_PROVIDER), stubAdapter('INTERAC', ['CAD'])];
+
+    expect(selectProvider([], { amount: 10, currency: 'CAD', payerType: 'BUSINESS' }, withSandbox)).toBe('INTERAC');
+    expect(selectProvider([], { amount: 10, currency: 'USD', payerType: 'BUSINESS' }, withSandbox)).toBeNull();
+  });
+
+  it('resolves named providers and routes everything to the sandbox in sandbox mode', () => {
+    const registry = new ProviderRegistry(rules);
+    adapters.forEach(adapter => registry.register(adapter));
+    registry.register(new SandboxProvider({ webhookSecret: 'test-secret' }));
+
+    expect(() => registry.register(stubAdapter('stripe'))).toThrow('already registered');
+    expect(() => registry.resolve('INTERAC', { amount: 10, currency: 'USD', payerType: 'BUSINESS' }))
+      .toThrow('does not support USD');
+    expect(registry.resolve('stripe', { amount: 10, currency: 'USD', payerType: 'BUSINESS' }).name).toBe('STRIPE');
+    expect(() => registry.resolve('sandbox', { amount: 10, currency: 'USD', payerType: 'BUSINESS' }))
+      .toThrow('only available in sandbox mode');
+
+    registry.setSandboxMode(true);
+    expect(registry.resolve('STRIPE', { amount: 10, currency: 'USD', payerType: 'BUSINESS' }).name).toBe(SANDBOX_PROVIDER);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SandboxProvider, SandboxWebhook, SANDBOX_TOKENS } from '../sandbox.provider';
+import { ChargeRequest } from '../../types/payment.types';
+
+const request: ChargeRequest = { paymentId: 'PAY-1', amount: 120, currency: 'CAD' };
+
+function nextWebhook(sandbox: SandboxProvider): Promise<SandboxWebhook> {
+  return new Promise(resolve => sandbox.once('webhook', resolve));
+}
+
+describe('Sandbox provider', () => {
+  let sandbox: SandboxProvider;
+
+  beforeEach(() => {
+    sandbox = new SandboxProvider({ delayMs: 10, webhookSecret: 'test-secret' });
+  });
+
+  afterEach(() => sandbox.reset());
+
+  it('succeeds by default and sends a signed webhook', async () => {
+    const webhook = nextWebhook(sandbox);
+    const result = await sandbox.charge(request);
+
+    expect(result.status).toBe('succeeded');
+    const { event, payload, signature } = await webhook;
+    expect(event).toMatchObject({ type: 'payment.succeeded', transactionId: result.transactionId });
+
+    const parsed = sandbox.parseWebhook(Buffer.from(payload), { 'x-sandbox-signature': signature });
+    expect(parsed?.type).toBe('payment.succeeded');
+    expect(() => sandbox.parseWebhook(Buffer.from(payload), { 'x-sandbox-signature': 'bad' }))
+      .toThrow('Invalid sandbox webhook signature');
+  });
+
+  it('declines with a decline code', async () => {
+    const result = await sandbox.charge({ ...request, paymentMethod: SANDBOX_TOKENS.insufficientFunds });
+
+    expect(result).toMatchObject({ status: 'failed', error: 'insufficient_funds' });
+  });
+
+  it('holds 3-D Secure payments until the challenge is completed', async () => {
+    const result = await sandbox.charge({ ...request, paymentMethod: SANDBOX_TOKENS.threeDSecure });
+
+    expect(result.status).toBe('requires_action');
+    expect(result.nextAction?.type).toBe('three_d_secure');
+
+    const webhook = new Promise<SandboxWebhook>(resolve =>
+      sandbox.on('webhook', (w: SandboxWebhook) => w.event.type !== 'payment.action_required' && resolve(w))
+    );
+    sandbox.completeThreeDSecure(result.transactionId!, false);
+
+    expect((await webhook).event).toMatchObject({ type: 'payment.failed', data: { declineCode: 'authentication_failed' } });
+    expect(() => sandbox.completeThreeDSecure(result.transactionId!)).toThrow('No 3-D Secure challenge');
+  });
+
+  it('settles delayed payments later', async () => {
+    const result = await sandbox.charge({ ...request, paymentMethod: SANDBOX_TOKENS.delay });
+    expect(result.status).toBe('processing');
+
+    const { event } = await nextWebhook(sandbox);
+    expect(event.type).toBe('payment.succeeded');
+    expect(sandbox.getTransaction(result.transactionId!)?.status).toBe('succeeded');
+  });
+
+  it('refunds up to the captured amount', async () => {
+    const { transactionId } = await sandbox.charge(request);
+
+    expect((await sandbox.refund(transactionId!, 100)).success).toBe(true);
+    expect((await sandbox.refund(transactionId!, 30)).success).toBe(false);
+    expect((await sandbox.refund('sbx_unknown', 1)).success).toBe(false);
+  });
+
+  it('refuses to start without a webhook secret', () => {
+    const configured = process.env.SANDBOX_WEBHOOK_SECRET;
+    delete process.env.SANDBOX_WEBHOOK_SECRET;
+    try {
+      expect(() => new SandboxProvider()).toThrow('SANDBOX_WEBHOOK_SECRET must be set');
+    } finally {
+      if (configured !== undefined) process.env.SANDBOX_WEBHOOK_SECRET = configured;
+    }
+  });
+});
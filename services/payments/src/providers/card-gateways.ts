@@ -0,0 +1,273 @@
+import Stripe from 'stripe';
+import { Client, Environment } from 'square';
+import * as paypal from '@paypal/checkout-server-sdk';
+import braintree from 'braintree';
+import Razorpay from 'razorpay';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ChargeRequest,
+  ChargeResult,
+  PaymentProviderAdapter,
+  ProviderRefundResult
+} from '../types/payment.types';
+
+/**
+ * Card & Wallet Gateway Adapters
+ * Stripe, Square, PayPal, Braintree and Razorpay behind the provider registry
+ */
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
+  apiVersion: '2023-10-16'
+});
+
+const squareClient = new Client({
+  accessToken: process.env.SQUARE_ACCESS_TOKEN || '',
+  environment: process.env.NODE_ENV === 'production' ? Environment.Production : Environment.Sandbox
+});
+
+const paypalClient = new paypal.core.PayPalHttpClient(
+  process.env.NODE_ENV === 'production'
+    ? new paypal.core.LiveEnvironment(
+        process.env.PAYPAL_CLIENT_ID || '',
+        process.env.PAYPAL_CLIENT_SECRET || ''
+      )
+    : new paypal.core.SandboxEnvironment(
+        process.env.PAYPAL_CLIENT_ID || '',
+        process.env.PAYPAL_CLIENT_SECRET || ''
+      )
+);
+
+const braintreeGateway = new braintree.BraintreeGateway({
+  environment: process.env.NODE_ENV === 'production'
+    ? braintree.Environment.Production
+    : braintree.Environment.Sandbox,
+  merchantId: process.env.BRAINTREE_MERCHANT_ID || '',
+  publicKey: process.env.BRAINTREE_PUBLIC_KEY || '',
+  privateKey: process.env.BRAINTREE_PRIVATE_KEY || ''
+});
+
+const razorpay = new Razorpay({
+  key_id: process.env.RAZORPAY_KEY_ID || '',
+  key_secret: process.env.RAZORPAY_KEY_SECRET || ''
+});
+
+function failed(error: any, response: any): ChargeResult {
+  return {
+    status: 'failed',
+    transactionId: null,
+    response,
+    error: error.message
+  };
+}
+
+export class StripeAdapter implements PaymentProviderAdapter {
+  readonly name = 'STRIPE';
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    try {
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: Math.round(request.amount * 100), // Convert to cents
+        currency: request.currency.toLowerCase(),
+        description: request.description,
+        ...(request.paymentMethod ? { payment_method: request.paymentMethod } : {}),
+        metadata: {
+          paymentId: request.paymentId,
+          isIndigenous: request.isIndigenousBusiness ? 'true' : 'false',
+          bandNumber: request.bandNumber || ''
+        }
+      });
+
+      // Confirm payment (in real scenario, this would be done client-side)
+      const confirmed = await stripe.paymentIntents.confirm(paymentIntent.id);
+
+      if (confirmed.status === 'requires_action' && confirmed.next_action?.redirect_to_url?.url) {
+        return {
+          status: 'requires_action',
+          transactionId: confirmed.id,
+          response: confirmed,
+          nextAction: { type: 'three_d_secure', url: confirmed.next_action.redirect_to_url.url }
+        };
+      }
+
+      return {
+        status: confirmed.status === 'succeeded'
+          ? 'succeeded'
+          : confirmed.status === 'processing' ? 'processing' : 'failed',
+        transactionId: confirmed.id,
+        response: confirmed,
+        error: null
+      };
+    } catch (error: any) {
+      return failed(error, error.raw);
+    }
+  }
+
+  async refund(transactionId: string, amount: number): Promise<ProviderRefundResult> {
+    try {
+      const refund = await stripe.refunds.create({
+        payment_intent: transactionId,
+        amount: Math.round(amount * 100)
+      });
+
+      return {
+        success: refund.status === 'succeeded',
+        refundId: refund.id
+      };
+    } catch (error) {
+      return {
+        success: false,
+        refundId: null
+      };
+    }
+  }
+}
+
+export class SquareAdapter implements PaymentProviderAdapter {
+  readonly name = 'SQUARE';
+  readonly currencies = ['CAD', 'USD', 'GBP', 'EUR', 'AUD', 'JPY'];
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    try {
+      const { result } = await squareClient.paymentsApi.createPayment({
+        sourceId: request.paymentMethod || 'EXTERNAL', // In real scenario, would use actual source
+        idempotencyKey: uuidv4(),
+        amountMoney: {
+          amount: BigInt(Math.round(request.amount * 100)),
+          currency: request.currency
+        },
+        referenceId: request.paymentId,
+        note: request.description
+      });
+
+      return {
+        status: result.payment?.status === 'COMPLETED' ? 'succeeded' : 'failed',
+        transactionId: result.payment?.id || null,
+        response: result.payment,
+        error: null
+      };
+    } catch (error: any) {
+      return failed(error, error.result);
+    }
+  }
+
+  async refund(transactionId: string, amount: number, currency: string): Promise<ProviderRefundResult> {
+    try {
+      const { result } = await squareClient.refundsApi.refundPayment({
+        idempotencyKey: uuidv4(),
+        paymentId: transactionId,
+        amountMoney: {
+          amount: BigInt(Math.round(amount * 100)),
+          currency
+        }
+      });
+
+      return {
+        success: result.refund?.status === 'COMPLETED',
+        refundId: result.refund?.id || null
+      };
+    } catch (error) {
+      return {
+        success: false,
+        refundId: null
+      };
+    }
+  }
+}
+
+export class PayPalAdapter implements PaymentProviderAdapter {
+  readonly name = 'PAYPAL';
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    try {
+      const orderRequest = new paypal.orders.OrdersCreateRequest();
+      orderRequest.prefer("return=representation");
+      orderRequest.requestBody({
+        intent: 'CAPTURE',
+        purchase_units: [{
+          amount: {
+            currency_code: request.currency,
+            value: request.amount.toFixed(2)
+          },
+          reference_id: request.paymentId,
+          description: request.description
+        }]
+      });
+
+      const order = await paypalClient.execute(orderRequest);
+
+      // Capture payment (in real scenario, after buyer approval)
+      const captureRequest = new paypal.orders.OrdersCaptureRequest(order.result.id);
+      const capture = await paypalClient.execute(captureRequest);
+
+      return {
+        status: capture.result.status === 'COMPLETED' ? 'succeeded' : 'failed',
+        transactionId: capture.result.id,
+        response: capture.result,
+        error: null
+      };
+    } catch (error: any) {
+      return failed(error, error);
+    }
+  }
+}
+
+export class BraintreeAdapter implements PaymentProviderAdapter {
+  readonly name = 'BRAINTREE';
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    try {
+      const result = await braintreeGateway.transaction.sale({
+        amount: request.amount.toFixed(2),
+        paymentMethodNonce: request.paymentMethod || 'fake-valid-nonce', // In real scenario, from client
+        options: {
+          submitForSettlement: true
+        },
+        customFields: {
+          payment_id: request.paymentId
+        }
+      });
+
+      return {
+        status: result.success ? 'succeeded' : 'failed',
+        transactionId: result.transaction?.id || null,
+        response: result.transaction,
+        error: result.message
+      };
+    } catch (error: any) {
+      return failed(error, error);
+    }
+  }
+}
+
+export class RazorpayAdapter implements PaymentProviderAdapter {
+  readonly name = 'RAZORPAY';
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    try {
+      const order = await razorpay.orders.create({
+        amount: Math.round(request.amount * 100), // Convert to paise
+        currency: request.currency,
+        receipt: request.paymentId,
+        notes: {
+          isIndigenous: request.isIndigenousBusiness ? 'true' : 'false'
+        }
+      });
+
+      // In real scenario, payment would be captured after customer authorization
+      const capturedPayment = await razorpay.payments.capture(
+        order.id,
+        Math.round(request.amount * 100),
+        request.currency
+      );
+
+      return {
+        status: capturedPayment.status === 'captured' ? 'succeeded' : 'failed',
+        transactionId: capturedPayment.id,
+        response: capturedPayment,
+        error: null
+      };
+    } catch (error: any) {
+      return failed(error, error);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { ProviderRegistry, loadRoutingRules } from './provider-registry';
+import { StripeAdapter, SquareAdapter, PayPalAdapter, BraintreeAdapter, RazorpayAdapter } from './card-gateways';
+import { InteracAdapter } from './interac.adapter';
+import { SandboxProvider, SandboxWebhook } from './sandbox.provider';
+
+export * from './provider-registry';
+export * from './sandbox.provider';
+
+// PAYMENT_PROVIDER_MODE=sandbox routes every payment to the local sandbox
+const sandboxMode = process.env.PAYMENT_PROVIDER_MODE === 'sandbox';
+
+export const providerRegistry = new ProviderRegistry(loadRoutingRules(), sandboxMode);
+
+providerRegistry.register(new StripeAdapter());
+providerRegistry.register(new SquareAdapter());
+providerRegistry.register(new PayPalAdapter());
+providerRegistry.register(new BraintreeAdapter());
+providerRegistry.register(new RazorpayAdapter());
+providerRegistry.register(new InteracAdapter());
+
+// Only offered when explicitly running in sandbox mode; without
+// SANDBOX_WEBHOOK_SECRET the service refuses to start
+export const sandboxProvider = sandboxMode ? new SandboxProvider() : null;
+
+if (sandboxProvider) {
+  providerRegistry.register(sandboxProvider);
+  sandboxProvider.on('webhook', ({ event }: SandboxWebhook) => providerRegistry.dispatch(event));
+}
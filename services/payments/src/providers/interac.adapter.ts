@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import { InteracService } from '../services/interac.service';
+import {
+  ChargeRequest,
+  ChargeResult,
+  PaymentProviderAdapter,
+  ProviderEvent,
+  ProviderEventType,
+  ProviderRefundResult
+} from '../types/payment.types';
+
+/**
+ * Interac e-Transfer Adapter
+ * A transfer is only complete once the recipient deposits it, so charges
+ * stay processing until the transfer.completed webhook arrives
+ */
+
+const EVENT_TYPES: Record<string, ProviderEventType> = {
+  'transfer.completed': 'payment.succeeded',
+  'transfer.cancelled': 'payment.failed',
+  'transfer.expired': 'payment.failed'
+};
+
+export class InteracAdapter implements PaymentProviderAdapter {
+  readonly name = 'INTERAC';
+  readonly currencies = ['CAD'];
+
+  constructor(private readonly interac = new InteracService()) {}
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    try {
+      const intent = await this.interac.createPaymentIntent(request.amount, request.currency, {
+        ...request.metadata,
+        paymentId: request.paymentId
+      });
+
+      return {
+        status: 'processing',
+        transactionId: intent.id,
+        response: intent,
+        error: null
+      };
+    } catch (error: any) {
+      return {
+        status: 'failed',
+        transactionId: null,
+        response: null,
+        error: error.message
+      };
+    }
+  }
+
+  async refund(transactionId: string, amount: number): Promise<ProviderRefundResult> {
+    const success = await this.interac.refundPayment({
+      paymentId: transactionId,
+      amount,
+      reason: 'Refund',
+      requestedBy: 'system',
+      businessId: ''
+    });
+
+    return { success, refundId: success ? `${transactionId}-reversal` : null };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): ProviderEvent | null {
+    const signature = headers['x-interac-signature'] as string;
+    const timestamp = headers['x-interac-timestamp'] as string;
+    const body = JSON.parse(rawBody.toString('utf8'));
+
+    const expected = crypto
+      .createHmac('sha256', process.env.INTERAC_WEBHOOK_SECRET!)
+      .update(`${timestamp}:${JSON.stringify(body)}`)
+      .digest('hex');
+
+    if (signature !== expected) {
+      throw new Error('Invalid Interac webhook signature');
+    }
+
+    const type = EVENT_TYPES[body.type];
+    if (!type) {
+      return null;
+    }
+
+    return {
+      id: body.id || `${body.type}:${body.data.transferId}`,
+      provider: this.name,
+      type,
+      transactionId: body.data.transferId,
+      occurredAt: new Date(body.data.timestamp || Date.now()),
+      data: body.data
+    };
+  }
+}
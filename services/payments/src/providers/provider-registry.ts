@@ -0,0 +1,170 @@
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger';
+import {
+  PaymentProviderAdapter,
+  ProviderEvent,
+  ProviderRoutingContext,
+  ProviderRoutingRule
+} from '../types/payment.types';
+
+/**
+ * Payment Provider Registry
+ * Adapters are plugged in by name; when a caller does not name a provider,
+ * the routing policy picks one by currency, amount, payer type and method.
+ * Provider events (webhooks, sandbox simulations) are re-emitted as 'event'
+ */
+
+export const SANDBOX_PROVIDER = 'SANDBOX';
+
+// First matching rule wins; a rule only matches a registered adapter
+export const DEFAULT_ROUTING_RULES: ProviderRoutingRule[] = [
+  // e-Transfer suits CAD payments between Canadian businesses up to the network limit
+  { provider: 'INTERAC', currencies: ['CAD'], methods: ['E_TRANSFER'], maxAmount: 25000 },
+  { provider: 'RAZORPAY', currencies: ['INR'] },
+  { provider: 'STRIPE', currencies: ['CAD', 'USD', 'EUR', 'GBP', 'AUD', 'NZD'], maxAmount: 999999.99 },
+  { provider: 'SQUARE', currencies: ['CAD', 'USD'] },
+  { provider: 'PAYPAL' }
+];
+
+export function loadRoutingRules(): ProviderRoutingRule[] {
+  if (!process.env.PAYMENT_ROUTING_RULES) {
+    return DEFAULT_ROUTING_RULES;
+  }
+
+  try {
+    const rules = JSON.parse(process.env.PAYMENT_ROUTING_RULES);
+    if (!Array.isArray(rules) || rules.some(rule => typeof rule?.provider !== 'string')) {
+      throw new Error('expected an array of rules with a provider name');
+    }
+    return rules;
+  } catch (error) {
+    logger.error('Invalid PAYMENT_ROUTING_RULES, using defaults', error);
+    return DEFAULT_ROUTING_RULES;
+  }
+}
+
+export function ruleMatches(rule: ProviderRoutingRule, context: ProviderRoutingContext): boolean {
+  const currency = context.currency.toUpperCase();
+
+  if (rule.currencies && !rule.currencies.map(c => c.toUpperCase()).includes(currency)) return false;
+  if (rule.minAmount !== undefined && context.amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && context.amount > rule.maxAmount) return false;
+  if (rule.payerTypes && !rule.payerTypes.includes(context.payerType)) return false;
+  if (rule.methods && (!context.method || !rule.methods.includes(context.method))) return false;
+
+  return true;
+}
+
+/**
+ * Pick a provider for a payment. Falls back to the first registered adapter
+ * that accepts the currency when no rule matches
+ */
+export function selectProvider(
+  rules: ProviderRoutingRule[],
+  context: ProviderRoutingContext,
+  adapters: PaymentProviderAdapter[]
+): string | null {
+  const currency = context.currency.toUpperCase();
+  const accepts = (adapter: PaymentProviderAdapter) =>
+    !adapter.currencies || adapter.currencies.includes(currency);
+  const byName = new Map(adapters.map(adapter => [adapter.name, adapter]));
+
+  for (const rule of rules) {
+    const adapter = byName.get(rule.provider.toUpperCase());
+    if (adapter && accepts(adapter) && ruleMatches(rule, context)) {
+      return adapter.name;
+    }
+  }
+
+  return adapters.find(adapter => adapter.name !== SANDBOX_PROVIDER && accepts(adapter))?.name ?? null;
+}
+
+export class ProviderRegistry extends EventEmitter {
+  private adapters = new Map<string, PaymentProviderAdapter>();
+
+  constructor(
+    private rules: ProviderRoutingRule[] = DEFAULT_ROUTING_RULES,
+    // In sandbox mode every payment goes to the local sandbox provider
+    private sandboxMode = false
+  ) {
+    super();
+  }
+
+  register(adapter: PaymentProviderAdapter): void {
+    const name = adapter.name.toUpperCase();
+    if (this.adapters.has(name)) {
+      throw new Error(`Payment provider already registered: ${name}`);
+    }
+    this.adapters.set(name, adapter);
+    logger.info(`Payment provider registered: ${name}`);
+  }
+
+  unregister(name: string): void {
+    this.adapters.delete(name.toUpperCase());
+  }
+
+  has(name: string): boolean {
+    return this.adapters.has(name.toUpperCase());
+  }
+
+  get(name: string): PaymentProviderAdapter {
+    const adapter = this.adapters.get(name.toUpperCase());
+    if (!adapter) {
+      throw new Error(`Unsupported payment provider: ${name}`);
+    }
+    return adapter;
+  }
+
+  list(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+
+  getRoutingRules(): ProviderRoutingRule[] {
+    return this.rules;
+  }
+
+  setRoutingRules(rules: ProviderRoutingRule[]): void {
+    this.rules = rules;
+  }
+
+  isSandboxMode(): boolean {
+    return this.sandboxMode;
+  }
+
+  setSandboxMode(enabled: boolean): void {
+    this.sandboxMode = enabled;
+  }
+
+  /**
+   * The adapter for a payment: the one requested by name, else the one the
+   * routing policy selects
+   */
+  resolve(requested: string | undefined, context: ProviderRoutingContext): PaymentProviderAdapter {
+    if (this.sandboxMode) {
+      return this.get(SANDBOX_PROVIDER);
+    }
+
+    if (requested) {
+      if (requested.toUpperCase() === SANDBOX_PROVIDER) {
+        throw new Error('The sandbox payment provider is only available in sandbox mode');
+      }
+
+      const adapter = this.get(requested);
+      if (adapter.currencies && !adapter.currencies.includes(context.currency.toUpperCase())) {
+        throw new Error(`${adapter.name} does not support ${context.currency}`);
+      }
+      return adapter;
+    }
+
+    const name = selectProvider(this.rules, context, Array.from(this.adapters.values()));
+    if (!name) {
+      throw new Error(`No payment provider available for ${context.currency} ${context.amount}`);
+    }
+    return this.get(name);
+  }
+
+  dispatch(event: ProviderEvent): void {
+    logger.info(`Provider event ${event.provider} ${event.type}`, { transactionId: event.transactionId });
+    this.emit('event', event);
+  }
+}
@@ -0,0 +1,229 @@
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import {
+  ChargeRequest,
+  ChargeResult,
+  PaymentProviderAdapter,
+  ProviderEvent,
+  ProviderEventType,
+  ProviderRefundResult
+} from '../types/payment.types';
+
+/**
+ * Sandbox Payment Provider
+ * Fully local provider for development and integration tests. The payment
+ * method token picks the outcome, the way card networks use test cards:
+ *
+ *   sandbox_success (default)    succeeds immediately
+ *   sandbox_decline              declined by the issuer
+ *   sandbox_insufficient_funds   declined for insufficient funds
+ *   sandbox_3ds                  requires 3-D Secure; finish with completeThreeDSecure()
+ *   sandbox_delay                processing; settles after `delayMs`
+ *   sandbox_delay_decline        processing; declines after `delayMs`
+ *
+ * Every state change is also delivered as a signed webhook ('webhook' event),
+ * the same payload a real provider would POST
+ */
+
+export const SANDBOX_TOKENS = {
+  success: 'sandbox_success',
+  decline: 'sandbox_decline',
+  insufficientFunds: 'sandbox_insufficient_funds',
+  threeDSecure: 'sandbox_3ds',
+  delay: 'sandbox_delay',
+  delayDecline: 'sandbox_delay_decline'
+};
+
+export type SandboxTransactionStatus = 'succeeded' | 'failed' | 'requires_action' | 'processing';
+
+export interface SandboxTransaction {
+  id: string;
+  paymentId: string;
+  amount: number;
+  currency: string;
+  status: SandboxTransactionStatus;
+  refunded: number;
+  declineCode?: string;
+  createdAt: Date;
+}
+
+export interface SandboxWebhook {
+  event: ProviderEvent;
+  payload: string;
+  signature: string;
+}
+
+export interface SandboxOptions {
+  delayMs?: number;
+  webhookSecret?: string;
+}
+
+export class SandboxProvider extends EventEmitter implements PaymentProviderAdapter {
+  readonly name = 'SANDBOX';
+
+  private readonly transactions = new Map<string, SandboxTransaction>();
+  private readonly timers = new Set<NodeJS.Timeout>();
+  private readonly delayMs: number;
+  private readonly webhookSecret: string;
+
+  constructor(options: SandboxOptions = {}) {
+    super();
+    this.delayMs = options.delayMs ?? parseInt(process.env.SANDBOX_DELAY_MS || '2000', 10);
+    // Signed sandbox webhooks move real payment records, so the secret is
+    // never defaulted
+    const webhookSecret = options.webhookSecret ?? process.env.SANDBOX_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+      throw new Error('SANDBOX_WEBHOOK_SECRET must be set to use the sandbox payment provider');
+    }
+    this.webhookSecret = webhookSecret;
+  }
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    const token = request.paymentMethod || SANDBOX_TOKENS.success;
+    const transaction: SandboxTransaction = {
+      id: `sbx_${crypto.randomBytes(8).toString('hex')}`,
+      paymentId: request.paymentId,
+      amount: request.amount,
+      currency: request.currency,
+      status: 'processing',
+      refunded: 0,
+      createdAt: new Date()
+    };
+    this.transactions.set(transaction.id, transaction);
+
+    switch (token) {
+      case SANDBOX_TOKENS.success:
+        this.settle(transaction, 'succeeded');
+        break;
+
+      case SANDBOX_TOKENS.decline:
+        this.settle(transaction, 'failed', 'card_declined');
+        break;
+
+      case SANDBOX_TOKENS.insufficientFunds:
+        this.settle(transaction, 'failed', 'insufficient_funds');
+        break;
+
+      case SANDBOX_TOKENS.threeDSecure:
+        transaction.status = 'requires_action';
+        this.sendWebhook('payment.action_required', transaction);
+        return {
+          status: 'requires_action',
+          transactionId: transaction.id,
+          response: { ...transaction },
+          nextAction: { type: 'three_d_secure', url: `sandbox://3ds/${transaction.id}` }
+        };
+
+      case SANDBOX_TOKENS.delay:
+      case SANDBOX_TOKENS.delayDecline:
+        this.schedule(() => token === SANDBOX_TOKENS.delay
+          ? this.settle(transaction, 'succeeded')
+          : this.settle(transaction, 'failed', 'card_declined'));
+        break;
+
+      default:
+        throw new Error(`Unknown sandbox payment method: ${token}`);
+    }
+
+    return {
+      status: transaction.status,
+      transactionId: transaction.id,
+      response: { ...transaction },
+      error: transaction.declineCode || null
+    };
+  }
+
+  async refund(transactionId: string, amount: number): Promise<ProviderRefundResult> {
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction || transaction.status !== 'succeeded' || transaction.refunded + amount > transaction.amount) {
+      return { success: false, refundId: null };
+    }
+
+    transaction.refunded += amount;
+    const refundId = `sbx_re_${crypto.randomBytes(8).toString('hex')}`;
+    this.sendWebhook('refund.succeeded', transaction, { refundId, amount });
+
+    return { success: true, refundId };
+  }
+
+  /**
+   * Finish a 3-D Secure challenge as the cardholder would
+   */
+  completeThreeDSecure(transactionId: string, approved = true): SandboxTransaction {
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction || transaction.status !== 'requires_action') {
+      throw new Error(`No 3-D Secure challenge pending for ${transactionId}`);
+    }
+
+    this.settle(transaction, approved ? 'succeeded' : 'failed', approved ? undefined : 'authentication_failed');
+    return { ...transaction };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): ProviderEvent | null {
+    const signature = Buffer.from((headers['x-sandbox-signature'] as string) || '', 'hex');
+    const expected = Buffer.from(this.sign(rawBody.toString('utf8')), 'hex');
+
+    if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) {
+      throw new Error('Invalid sandbox webhook signature');
+    }
+
+    const event = JSON.parse(rawBody.toString('utf8'));
+    return { ...event, occurredAt: new Date(event.occurredAt) };
+  }
+
+  getTransaction(transactionId: string): SandboxTransaction | undefined {
+    const transaction = this.transactions.get(transactionId);
+    return transaction ? { ...transaction } : undefined;
+  }
+
+  /**
+   * Forget all transactions and cancel pending delayed outcomes
+   */
+  reset(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.transactions.clear();
+  }
+
+  private settle(transaction: SandboxTransaction, status: 'succeeded' | 'failed', declineCode?: string): void {
+    transaction.status = status;
+    if (declineCode) transaction.declineCode = declineCode;
+    this.sendWebhook(status === 'succeeded' ? 'payment.succeeded' : 'payment.failed', transaction);
+  }
+
+  private schedule(fn: () => void): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      fn();
+    }, this.delayMs);
+    // Never keep a test runner or the server alive just for a simulation
+    timer.unref();
+    this.timers.add(timer);
+  }
+
+  private sendWebhook(type: ProviderEventType, transaction: SandboxTransaction, data: Record<string, any> = {}): void {
+    const event: ProviderEvent = {
+      id: `sbx_evt_${crypto.randomBytes(8).toString('hex')}`,
+      provider: this.name,
+      type,
+      transactionId: transaction.id,
+      occurredAt: new Date(),
+      data: {
+        paymentId: transaction.paymentId,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        ...(transaction.declineCode ? { declineCode: transaction.declineCode } : {}),
+        ...data
+      }
+    };
+    const payload = JSON.stringify(event);
+    const webhook: SandboxWebhook = { event, payload, signature: this.sign(payload) };
+
+    // Delivered after the current call returns, as a real webhook would be
+    setImmediate(() => this.emit('webhook', webhook));
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac('sha256', this.webhookSecret).update(payload).digest('hex');
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Offline Payment Certificate Verification
+ * For lenders: checks a certificate bundle (GET /api/certificates/:number/bundle)
+ * against the platform's public key (GET /api/certificates/public-key)
+ * with no network access and nothing but node.
+ *
+ *   npx tsx src/scripts/verify-certificate.ts <bundle.json> --public-key <key.pem> [--json]
+ *
+ * Exits 0 when the certificate is valid, 1 when it is not, 2 on bad input
+ */
+
+import fs from 'fs';
+import { verifyCertificateBundle, CertificateBundle } from '../utils/payment-certificates';
+
+function usage(message?: string): never {
+  if (message) {
+    console.error(message);
+  }
+  console.error('Usage: verify-certificate <bundle.json> --public-key <key.pem> [--json]');
+  process.exit(2);
+}
+
+function main(argv: string[]): void {
+  const args = [...argv];
+  const json = args.includes('--json');
+  const keyFlag = args.indexOf('--public-key');
+  if (keyFlag === -1 || !args[keyFlag + 1]) {
+    usage('Missing --public-key');
+  }
+  const keyPath = args[keyFlag + 1];
+  const bundlePath = args.filter((arg, index) => !arg.startsWith('--') && index !== keyFlag + 1)[0];
+  if (!bundlePath) {
+    usage('Missing bundle file');
+  }
+
+  let bundle: CertificateBundle;
+  let publicKey: string;
+  try {
+    bundle = JSON.parse(fs.readFileSync(bundlePath, 'utf8'));
+    publicKey = fs.readFileSync(keyPath, 'utf8');
+  } catch (error) {
+    usage(`Could not read input: ${(error as Error).message}`);
+  }
+  if (!bundle?.certificate?.body || !Array.isArray(bundle.chain)) {
+    usage('Not a certificate bundle');
+  }
+
+  const result = verifyCertificateBundle(bundle, publicKey);
+
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    const { body } = bundle.certificate;
+    console.log(`Certificate ${body.certificateNumber} for escrow ${body.escrowId}`);
+    console.log(`Guarantee ${body.guarantee.currency} ${body.guarantee.amount} by ${body.guarantee.guarantor}, expires ${body.guarantee.expiryDate}`);
+    for (const [check, passed] of Object.entries(result.checks)) {
+      console.log(`  ${passed ? 'PASS' : 'FAIL'}  ${check}`);
+    }
+    for (const error of result.errors) {
+      console.log(`  - ${error}`);
+    }
+    if (result.eventsSinceIssue.length > 0) {
+      console.log('Escrow events since the certificate was issued:');
+      for (const event of result.eventsSinceIssue) {
+        console.log(`  #${event.sequence} ${event.occurredAt} ${event.type}`);
+      }
+    }
+    console.log(result.valid ? 'VALID' : 'NOT VALID');
+  }
+
+  process.exit(result.valid ? 0 : 1);
+}
+
+main(process.argv.slice(2));
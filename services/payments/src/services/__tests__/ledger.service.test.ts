@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const prisma = vi.hoisted(() => ({
+  ledgerJournalEntry: { findUnique: vi.fn(), create: vi.fn() },
+  ledgerLine: { groupBy: vi.fn() }
+}));
+
+vi.mock('../../config/database', () => ({ prisma }));
+
+import {
+  JournalEntryInput,
+  LedgerInvariantError,
+  LedgerService,
+  validateJournalEntry
+} from '../ledger.service';
+
+function entry(lines: JournalEntryInput['lines']): JournalEntryInput {
+  return {
+    source: 'payment',
+    sourceId: 'pay_1',
+    event: 'captured',
+    description: 'Payment pay_1 captured',
+    lines
+  };
+}
+
+type Row = { account: string; currency: string; debit: string; credit: string; journalEntryId?: string };
+
+// Answers groupBy the way Prisma would for the rows given, by the fields asked for
+function mockLines(rows: Row[]) {
+  prisma.ledgerLine.groupBy.mockImplementation(async ({ by }: { by: Array<keyof Row> }) => {
+    const groups = new Map<string, any>();
+    for (const row of rows) {
+      const key = by.map(field => row[field]).join('|');
+      const group = groups.get(key) || {
+        ...Object.fromEntries(by.map(field => [field, row[field]])),
+        _sum: { debit: 0, credit: 0 }
+      };
+      group._sum.debit += parseFloat(row.debit);
+      group._sum.credit += parseFloat(row.credit);
+      groups.set(key, group);
+    }
+    return [...groups.values()].map(group => ({
+      ...group,
+      _sum: { debit: group._sum.debit.toFixed(2), credit: group._sum.credit.toFixed(2) }
+    }));
+  });
+}
+
+describe('validateJournalEntry', () => {
+  it('accepts a balanced entry and drops zero lines', () => {
+    const lines = validateJournalEntry(entry([
+      { account: 'asset:clearing:stripe', debit: '97.10' },
+      { account: 'liability:payable:biz_1', credit: 95.1 },
+      { account: 'revenue:fees:platform', credit: '2.00' },
+      { account: 'revenue:fees:transaction', credit: 0 }
+    ]));
+
+    expect(lines.map(line => [line.account, line.debit.toFixed(2), line.credit.toFixed(2)])).toEqual([
+      ['asset:clearing:stripe', '97.10', '0.00'],
+      ['liability:payable:biz_1', '0.00', '95.10'],
+      ['revenue:fees:platform', '0.00', '2.00']
+    ]);
+  });
+
+  it('rejects entries whose debits and credits differ', () => {
+    expect(() => validateJournalEntry(entry([
+      { account: 'asset:cash:operating', debit: '100.00' },
+      { account: 'liability:payable:biz_1', credit: '99.99' }
+    ]))).toThrow('debits 100.00 != credits 99.99');
+  });
+
+  it('rejects fractions of a cent', () => {
+    expect(() => validateJournalEntry(entry([
+      { account: 'asset:cash:operating', debit: '10.005' },
+      { account: 'liability:payable:biz_1', credit: '10.005' }
+    ]))).toThrow('Amount on asset:cash:operating is not in whole cents');
+  });
+
+  it('rejects negative amounts, even when the entry would balance', () => {
+    expect(() => validateJournalEntry(entry([
+      { account: 'asset:cash:operating', debit: '-50.00' },
+      { account: 'liability:payable:biz_1', credit: '-50.00' }
+    ]))).toThrow('Negative amount on asset:cash:operating');
+  });
+
+  it('rejects lines with both sides, unknown accounts and single-line entries', () => {
+    expect(() => validateJournalEntry(entry([
+      { account: 'asset:cash:operating', debit: '5.00', credit: '5.00' },
+      { account: 'liability:payable:biz_1', credit: '0.00' }
+    ]))).toThrow('has both a debit and a credit');
+    expect(() => validateJournalEntry(entry([
+      { account: 'cash:operating', debit: '5.00' },
+      { account: 'liability:payable:biz_1', credit: '5.00' }
+    ]))).toThrow('Unknown account type for cash:operating');
+    expect(() => validateJournalEntry(entry([
+      { account: 'asset:cash:operating', debit: '5.00' },
+      { account: 'liability:payable:biz_1', credit: '0.00' }
+    ]))).toThrow('A journal entry needs at least two lines');
+  });
+
+  it('raises LedgerInvariantError', () => {
+    expect(() => validateJournalEntry(entry([]))).toThrow(LedgerInvariantError);
+  });
+});
+
+describe('LedgerService.post', () => {
+  const input = entry([
+    { account: 'asset:clearing:stripe', debit: '100.00' },
+    { account: 'liability:payable:biz_1', credit: '100.00' }
+  ]);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the existing entry when the event was already posted', async () => {
+    prisma.ledgerJournalEntry.findUnique.mockResolvedValueOnce({ id: 'je_1' });
+
+    expect(await LedgerService.post(input)).toEqual({ id: 'je_1' });
+    expect(prisma.ledgerJournalEntry.create).not.toHaveBeenCalled();
+  });
+
+  it('returns the winning entry when a concurrent post of the same event got in first', async () => {
+    prisma.ledgerJournalEntry.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: 'je_winner' });
+    prisma.ledgerJournalEntry.create.mockRejectedValueOnce(
+      Object.assign(new Error('Unique constraint failed'), { code: 'P2002' })
+    );
+
+    expect(await LedgerService.post(input)).toEqual({ id: 'je_winner' });
+    expect(prisma.ledgerJournalEntry.findUnique).toHaveBeenLastCalledWith({
+      where: { idempotencyKey: 'payment:pay_1:captured' },
+      include: { lines: true }
+    });
+  });
+
+  it('passes on other database errors', async () => {
+    prisma.ledgerJournalEntry.findUnique.mockResolvedValueOnce(null);
+    prisma.ledgerJournalEntry.create.mockRejectedValueOnce(
+      Object.assign(new Error('Connection lost'), { code: 'P1017' })
+    );
+
+    await expect(LedgerService.post(input)).rejects.toThrow('Connection lost');
+  });
+});
+
+describe('LedgerService trial balance', () => {
+  it('totals and balances each currency separately', async () => {
+    mockLines([
+      { account: 'asset:clearing:stripe', currency: 'CAD', debit: '100.00', credit: '0.00' },
+      { account: 'liability:payable:biz_1', currency: 'CAD', debit: '0.00', credit: '100.00' },
+      { account: 'asset:clearing:stripe', currency: 'USD', debit: '40.00', credit: '0.00' },
+      { account: 'liability:payable:biz_1', currency: 'USD', debit: '10.00', credit: '50.00' }
+    ]);
+
+    const trialBalance = await LedgerService.getTrialBalance();
+
+    expect(trialBalance.totals).toEqual({
+      CAD: { debit: '100.00', credit: '100.00', balanced: true },
+      USD: { debit: '40.00', credit: '40.00', balanced: true }
+    });
+    expect(trialBalance.balanced).toBe(true);
+    expect(trialBalance.accounts.find(a => a.currency === 'USD' && a.type === 'liability')).toMatchObject({
+      debit: '0.00',
+      credit: '40.00',
+      balance: '40.00'
+    });
+  });
+
+  it('does not let one currency offset another', async () => {
+    mockLines([
+      { account: 'asset:cash:operating', currency: 'CAD', debit: '100.00', credit: '0.00' },
+      { account: 'liability:payable:biz_1', currency: 'USD', debit: '0.00', credit: '100.00' }
+    ]);
+
+    const trialBalance = await LedgerService.getTrialBalance();
+
+    expect(trialBalance.totals.CAD!.balanced).toBe(false);
+    expect(trialBalance.totals.USD!.balanced).toBe(false);
+    expect(trialBalance.balanced).toBe(false);
+  });
+});
+
+describe('LedgerService.verifyInvariants', () => {
+  it('proves balanced books', async () => {
+    mockLines([
+      { journalEntryId: 'je_1', account: 'asset:clearing:stripe', currency: 'CAD', debit: '100.00', credit: '0.00' },
+      { journalEntryId: 'je_1', account: 'liability:payable:biz_1', currency: 'CAD', debit: '0.00', credit: '100.00' },
+      { journalEntryId: 'je_2', account: 'liability:payable:biz_1', currency: 'CAD', debit: '25.00', credit: '0.00' },
+      { journalEntryId: 'je_2', account: 'asset:clearing:stripe', currency: 'CAD', debit: '0.00', credit: '25.00' }
+    ]);
+
+    const result = await LedgerService.verifyInvariants();
+
+    expect(result.entriesChecked).toBe(2);
+    expect(result.trialBalance.balanced).toBe(true);
+  });
+
+  it('names the entries that do not balance', async () => {
+    mockLines([
+      { journalEntryId: 'je_1', account: 'asset:clearing:stripe', currency: 'CAD', debit: '100.00', credit: '0.00' },
+      { journalEntryId: 'je_1', account: 'liability:payable:biz_1', currency: 'CAD', debit: '0.00', credit: '100.00' },
+      { journalEntryId: 'je_2', account: 'asset:cash:operating', currency: 'CAD', debit: '10.00', credit: '0.00' },
+      { journalEntryId: 'je_2', account: 'liability:payable:biz_1', currency: 'USD', debit: '0.00', credit: '10.00' }
+    ]);
+
+    const error = await LedgerService.verifyInvariants().catch(e => e);
+
+    expect(error).toBeInstanceOf(LedgerInvariantError);
+    expect(error.message).toBe('Ledger does not balance');
+    expect(error.details.unbalancedEntries.map((e: any) => [e.journalEntryId, e.currency])).toEqual([
+      ['je_2', 'CAD'],
+      ['je_2', 'USD']
+    ]);
+  });
+});
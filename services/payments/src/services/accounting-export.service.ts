@@ -0,0 +1,377 @@
+import Decimal from 'decimal.js';
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { prisma } from '../config/database';
+import { LedgerAccounts } from './ledger.service';
+import {
+  buildAccountingExport,
+  ledgerEntryToJournal,
+  resolveMapping,
+  AccountingFormat,
+  AccountMapping,
+  DateFormat,
+  ExportBundle,
+  ExportInvoice,
+  ExportJournal,
+  ExportPayment,
+  ACCOUNTING_FORMATS
+} from '../utils/accounting-export';
+
+/**
+ * Accounting Exports
+ * Per-business exports of issued invoices, late fees, received payments,
+ * platform fees and escrow movements for QuickBooks, Xero and Sage. Each
+ * run picks up where the business's previous run of the same format
+ * stopped, so nothing is imported twice
+ */
+
+export interface MappingOverrides {
+  accounts?: Record<string, string>;
+  taxCodes?: Record<string, string>;
+  dateFormat?: DateFormat;
+}
+
+// Ledger sources whose movements on a business's payable are exported;
+// card payments come from the payments table instead
+const LEDGER_SOURCES = ['escrow', 'universal_escrow', 'security_deposit', 'eft_payout', 'quick_pay'];
+
+const RECEIVED_PAYMENT_STATUSES = ['COMPLETED', 'PARTIALLY_REFUNDED', 'REFUNDED'];
+
+function assertFormat(format: string): asserts format is AccountingFormat {
+  if (!ACCOUNTING_FORMATS.includes(format as AccountingFormat)) {
+    throw new Error(`Unknown accounting format: ${format}`);
+  }
+}
+
+export class AccountingExportService {
+  /**
+   * A business's chart-of-accounts mapping for a format: its saved
+   * overrides on top of the format defaults
+   */
+  static async getMapping(businessId: string, format: string): Promise<AccountMapping> {
+    assertFormat(format);
+
+    const saved = await prisma.accountingMapping.findUnique({
+      where: { businessId_format: { businessId, format } }
+    });
+
+    return resolveMapping(format, saved ? {
+      accounts: saved.accounts as Record<string, string>,
+      taxCodes: saved.taxCodes as Record<string, string>,
+      dateFormat: saved.dateFormat as DateFormat
+    } : {});
+  }
+
+  static async saveMapping(
+    businessId: string,
+    format: string,
+    overrides: MappingOverrides,
+    updatedBy: string
+  ): Promise<AccountMapping> {
+    assertFormat(format);
+    // Validates the keys before anything is stored
+    const mapping = resolveMapping(format, overrides);
+
+    await prisma.accountingMapping.upsert({
+      where: { businessId_format: { businessId, format } },
+      create: {
+        businessId,
+        format,
+        accounts: overrides.accounts || {},
+        taxCodes: overrides.taxCodes || {},
+        dateFormat: overrides.dateFormat,
+        updatedBy
+      },
+      update: {
+        accounts: overrides.accounts || {},
+        taxCodes: overrides.taxCodes || {},
+        dateFormat: overrides.dateFormat,
+        updatedBy
+      }
+    });
+
+    logger.info(`Accounting mapping saved for ${businessId} (${format})`);
+    return mapping;
+  }
+
+  /**
+   * Export everything recorded since the business's last export in this
+   * format, or since `since` when given (a re-export). The files are kept
+   * with the run for download
+   */
+  static async runExport(params: {
+    businessId: string;
+    format: string;
+    since?: Date;
+    requestedBy: string;
+  }): Promise<any> {
+    const { businessId, format } = params;
+    assertFormat(format);
+
+    const previous = await prisma.accountingExport.findFirst({
+      where: { businessId, format },
+      orderBy: { periodEnd: 'desc' }
+    });
+    const periodStart: Date = params.since || previous?.periodEnd || new Date(0);
+    const periodEnd = new Date();
+
+    if (periodStart >= periodEnd) {
+      throw new Error('Export period start must be in the past');
+    }
+
+    const [mapping, bundle] = await Promise.all([
+      this.getMapping(businessId, format),
+      this.collect(businessId, periodStart, periodEnd)
+    ]);
+
+    const files = buildAccountingExport(format, bundle, mapping).map(file => ({
+      ...file,
+      checksum: crypto.createHash('sha256').update(file.content).digest('hex')
+    }));
+
+    const run = await prisma.accountingExport.create({
+      data: {
+        businessId,
+        format,
+        periodStart,
+        periodEnd,
+        incremental: !params.since,
+        invoiceCount: bundle.invoices.length,
+        paymentCount: bundle.payments.length,
+        journalCount: bundle.journals.length,
+        files: files as any,
+        requestedBy: params.requestedBy
+      }
+    });
+
+    logger.info(`Accounting export ${run.id} for ${businessId} (${format})`, {
+      invoices: bundle.invoices.length,
+      payments: bundle.payments.length,
+      journals: bundle.journals.length
+    });
+
+    return this.summary(run);
+  }
+
+  static async listExports(businessId: string, limit = 20): Promise<any[]> {
+    const runs = await prisma.accountingExport.findMany({
+      where: { businessId },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+    return runs.map((run: any) => this.summary(run));
+  }
+
+  static async getExportFile(exportId: string, fileName: string): Promise<{
+    fileName: string;
+    contentType: string;
+    content: string;
+    checksum: string;
+  }> {
+    const run = await prisma.accountingExport.findUnique({ where: { id: exportId } });
+    if (!run) {
+      throw new Error('Accounting export not found');
+    }
+
+    const file = (run.files as any[]).find(candidate => candidate.fileName === fileName);
+    if (!file) {
+      throw new Error(`Export ${exportId} has no file ${fileName}`);
+    }
+    return file;
+  }
+
+  /**
+   * Everything recorded for the business in (since, until]
+   */
+  private static async collect(businessId: string, since: Date, until: Date): Promise<ExportBundle> {
+    const window = { gt: since, lte: until };
+
+    const [invoices, lateFees, payments, manualPayments, ledgerEntries] = await Promise.all([
+      prisma.invoice.findMany({
+        where: { vendorId: businessId, issueDate: window, status: { not: 'DRAFT' } },
+        orderBy: { issueDate: 'asc' }
+      }),
+      prisma.invoiceLateFee.findMany({
+        where: { createdAt: window, invoice: { vendorId: businessId } },
+        include: { invoice: true },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.payment.findMany({
+        where: { payeeId: businessId, processedAt: window, status: { in: RECEIVED_PAYMENT_STATUSES } },
+        orderBy: { processedAt: 'asc' }
+      }),
+      // Payments recorded against invoices that never went through the platform
+      prisma.invoicePayment.findMany({
+        where: { createdAt: window, paymentId: null, invoice: { vendorId: businessId } },
+        include: { invoice: true },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.ledgerJournalEntry.findMany({
+        where: {
+          createdAt: window,
+          source: { in: LEDGER_SOURCES },
+          lines: { some: { account: LedgerAccounts.payable(businessId) } }
+        },
+        include: { lines: true },
+        orderBy: { createdAt: 'asc' }
+      })
+    ]);
+
+    const taxTransactions = await prisma.taxTransaction.findMany({
+      where: { id: { in: invoices.map((invoice: any) => invoice.taxTransactionId).filter(Boolean) } }
+    });
+    const taxLines = new Map<string, any[]>(taxTransactions.map((tx: any) => [tx.id, tx.lines as any[]]));
+
+    const paidInvoiceIds = payments.map((payment: any) => payment.invoiceId).filter(Boolean);
+    const paidInvoices = await prisma.invoice.findMany({
+      where: { id: { in: paidInvoiceIds } },
+      select: { id: true, invoiceNumber: true }
+    });
+    const invoiceNumbers = new Map<string, string>(paidInvoices.map((invoice: any) => [invoice.id, invoice.invoiceNumber]));
+
+    const exportInvoices: ExportInvoice[] = invoices.map((invoice: any) => {
+      const inputs = invoice.lines as any[];
+      return {
+        id: invoice.id,
+        number: invoice.invoiceNumber,
+        date: invoice.issueDate,
+        dueDate: invoice.dueDate,
+        customer: invoice.clientName,
+        currency: invoice.currency,
+        lines: (taxLines.get(invoice.taxTransactionId) || []).map((line: any, index: number) => ({
+          description: line.description,
+          quantity: inputs[index]?.quantity || 1,
+          unitPrice: inputs[index]?.unitPrice ?? line.amount,
+          amount: line.amount,
+          gstHst: new Decimal(line.gst).add(line.hst),
+          pst: line.pst,
+          qst: line.qst,
+          category: line.category
+        }))
+      };
+    });
+
+    // Late fees are charged to the client as their own small invoices;
+    // interest on overdue accounts is an exempt financial service
+    for (const fee of lateFees) {
+      exportInvoices.push({
+        id: fee.id,
+        number: `${fee.invoice.invoiceNumber}-LF${fee.chargedAt.toISOString().slice(0, 10).replace(/-/g, '')}`,
+        date: fee.chargedAt,
+        dueDate: fee.chargedAt,
+        customer: fee.invoice.clientName,
+        currency: fee.invoice.currency,
+        reference: fee.invoice.invoiceNumber,
+        lines: [{
+          description: `Late payment charge on ${fee.invoice.invoiceNumber}`,
+          quantity: 1,
+          unitPrice: fee.amount.toString(),
+          amount: fee.amount.toString(),
+          gstHst: 0,
+          pst: 0,
+          qst: 0,
+          category: 'exempt',
+          account: 'late_fees'
+        }]
+      });
+    }
+
+    const exportPayments: ExportPayment[] = [];
+    const journals: ExportJournal[] = [];
+
+    // Card and wallet payments land with the platform, which keeps its fees
+    for (const payment of payments) {
+      exportPayments.push({
+        id: payment.paymentId,
+        date: payment.processedAt,
+        customer: payment.payerName,
+        amount: payment.amount.toString(),
+        currency: payment.currency,
+        reference: payment.paymentId,
+        invoiceNumber: invoiceNumbers.get(payment.invoiceId),
+        depositTo: 'platform_clearing'
+      });
+
+      const processingFee = new Decimal(payment.processingFee.toString());
+      const platformFee = new Decimal(payment.platformFee.toString());
+      if (processingFee.add(platformFee).gt(0)) {
+        journals.push({
+          id: `${payment.paymentId}-fees`,
+          date: payment.processedAt,
+          memo: `Fees on payment ${payment.paymentId}`,
+          currency: payment.currency,
+          lines: [
+            ...(processingFee.gt(0) ? [{ account: 'processing_fees' as const, debit: processingFee }] : []),
+            ...(platformFee.gt(0) ? [{ account: 'platform_fees' as const, debit: platformFee }] : []),
+            { account: 'platform_clearing', credit: processingFee.add(platformFee) }
+          ]
+        });
+      }
+    }
+
+    for (const received of manualPayments) {
+      exportPayments.push({
+        id: received.id,
+        date: received.receivedAt,
+        customer: received.invoice.clientName,
+        amount: received.amount.toString(),
+        currency: received.invoice.currency,
+        reference: received.id,
+        invoiceNumber: received.invoice.invoiceNumber
+      });
+
+      // An early payment discount closes the rest of the invoice
+      const discount = new Decimal(received.discountAmount.toString());
+      if (discount.gt(0)) {
+        journals.push({
+          id: `${received.id}-discount`,
+          date: received.receivedAt,
+          memo: `Early payment discount on ${received.invoice.invoiceNumber}`,
+          currency: received.invoice.currency,
+          lines: [
+            { account: 'sales', debit: discount },
+            { account: 'accounts_receivable', credit: discount, name: received.invoice.clientName }
+          ]
+        });
+      }
+    }
+
+    for (const entry of ledgerEntries) {
+      const journal = ledgerEntryToJournal({
+        id: entry.id,
+        source: entry.source,
+        event: entry.event,
+        description: entry.description,
+        currency: entry.currency,
+        effectiveAt: entry.effectiveAt,
+        lines: entry.lines.map((line: any) => ({
+          account: line.account,
+          debit: line.debit.toString(),
+          credit: line.credit.toString()
+        }))
+      }, businessId);
+
+      if (journal) {
+        journals.push(journal);
+      }
+    }
+
+    return { invoices: exportInvoices, payments: exportPayments, journals };
+  }
+
+  private static summary(run: any) {
+    return {
+      exportId: run.id,
+      businessId: run.businessId,
+      format: run.format,
+      periodStart: run.periodStart,
+      periodEnd: run.periodEnd,
+      incremental: run.incremental,
+      invoiceCount: run.invoiceCount,
+      paymentCount: run.paymentCount,
+      journalCount: run.journalCount,
+      files: (run.files as any[]).map(file => ({ fileName: file.fileName, checksum: file.checksum })),
+      createdAt: run.createdAt
+    };
+  }
+}
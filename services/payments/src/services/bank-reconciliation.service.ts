@@ -0,0 +1,645 @@
+import Decimal from 'decimal.js';
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { prisma } from '../config/database';
+import { LedgerService } from './ledger.service';
+import { canonicalJson, sha256Hex } from '../utils/hash-chain';
+import {
+  autoMatch,
+  parseStatement,
+  CsvStatementOptions,
+  MatchCandidate,
+  MatchOptions,
+  StatementFormat,
+  StatementLine
+} from '../utils/bank-statements';
+
+/**
+ * Bank Reconciliation
+ * Imports bank statements, auto-matches their lines to completed payments,
+ * and keeps whatever is left on either side visible until finance matches it
+ * by hand or writes it off. Reports are signed so an export can be verified
+ */
+
+export type StatementLineStatus = 'UNMATCHED' | 'AUTO_MATCHED' | 'MANUALLY_MATCHED' | 'WRITTEN_OFF';
+
+export interface ReconciliationReport {
+  reconciliationId?: string;
+  periodStart: string;
+  periodEnd: string;
+  generatedAt: string;
+  generatedBy: string;
+  summary: {
+    statementLines: number;
+    bankCredits: string;
+    bankDebits: string;
+    matchedLines: number;
+    matchedAmount: string;
+    unmatchedLines: number;
+    unmatchedLineAmount: string;
+    unmatchedPayments: number;
+    unmatchedPaymentAmount: string;
+    writtenOff: number;
+    writtenOffAmount: string;
+  };
+  matched: Array<{ lineId: string; lineRef: string; amount: string; paymentIds: string[]; status: string; score?: number }>;
+  unmatchedLines: Array<{ lineId: string; lineRef: string; bookingDate: string; direction: string; amount: string; reference?: string; description?: string }>;
+  unmatchedPayments: Array<{ paymentId: string; processedAt: string; amount: string; provider: string }>;
+  writeOffs: Array<{ writeOffId: string; lineId?: string; paymentId?: string; amount: string; reason: string; writtenOffBy: string }>;
+}
+
+const SIGNATURE_ALGORITHM = 'HMAC-SHA256';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Providers settle a day or two after capture; older unmatched payments are discrepancies
+const SETTLEMENT_GRACE_DAYS = parseInt(process.env.BANK_SETTLEMENT_GRACE_DAYS || '3', 10);
+
+function signingSecret(): string {
+  const secret = process.env.RECONCILIATION_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('RECONCILIATION_SIGNING_SECRET is not configured');
+  }
+  return secret;
+}
+
+function toStatementLine(line: any): StatementLine {
+  return {
+    lineRef: line.id,
+    bookingDate: line.bookingDate,
+    ...(line.valueDate ? { valueDate: line.valueDate } : {}),
+    direction: line.direction,
+    amount: new Decimal(line.amount),
+    currency: line.currency,
+    ...(line.reference ? { reference: line.reference } : {}),
+    ...(line.description ? { description: line.description } : {})
+  };
+}
+
+function toCandidate(payment: any): MatchCandidate {
+  return {
+    paymentId: payment.id,
+    amount: payment.amount.toString(),
+    processingFee: payment.processingFee?.toString(),
+    currency: payment.currency,
+    processedAt: payment.processedAt,
+    references: [
+      payment.paymentId,
+      payment.providerTransactionId,
+      payment.invoiceId,
+      payment.orderId
+    ].filter(Boolean)
+  };
+}
+
+export class BankReconciliationService {
+  /**
+   * Import a statement file and auto-match it. The same file cannot be
+   * imported twice
+   */
+  static async importStatement(params: {
+    format: StatementFormat;
+    content: string;
+    importedBy: string;
+    accountId?: string;
+    csv?: CsvStatementOptions;
+    matchOptions?: MatchOptions;
+  }) {
+    const statementHash = sha256Hex(params.content);
+
+    const existing = await prisma.bankStatement.findUnique({ where: { statementHash } });
+    if (existing) {
+      throw new Error(`Statement already imported as ${existing.id}`);
+    }
+
+    const parsed = parseStatement(params.format, params.content, params.csv);
+    if (parsed.lines.length === 0) {
+      throw new Error('Statement contains no transactions');
+    }
+
+    const statement = await prisma.bankStatement.create({
+      data: {
+        statementHash,
+        format: parsed.format,
+        bankStatementId: parsed.statementId,
+        accountId: params.accountId || parsed.accountId,
+        currency: parsed.currency,
+        openingBalance: parsed.openingBalance,
+        closingBalance: parsed.closingBalance,
+        fromDate: parsed.fromDate,
+        toDate: parsed.toDate,
+        importedBy: params.importedBy,
+        lines: {
+          create: parsed.lines.map(line => ({
+            lineRef: line.lineRef,
+            bookingDate: line.bookingDate,
+            valueDate: line.valueDate,
+            direction: line.direction,
+            amount: line.amount,
+            currency: line.currency,
+            reference: line.reference,
+            description: line.description,
+            counterparty: line.counterparty,
+            status: 'UNMATCHED'
+          }))
+        }
+      }
+    });
+
+    logger.info(`Bank statement imported: ${statement.id}`, {
+      format: parsed.format,
+      lines: parsed.lines.length
+    });
+
+    const result = await this.autoMatchStatement(statement.id, params.matchOptions);
+
+    return {
+      statementId: statement.id,
+      format: parsed.format,
+      lines: parsed.lines.length,
+      ...result
+    };
+  }
+
+  /**
+   * Match a statement's open lines against completed payments that have not
+   * already been matched or written off
+   */
+  static async autoMatchStatement(statementId: string, options: MatchOptions = {}) {
+    const lines = await prisma.bankStatementLine.findMany({
+      where: { bankStatementId: statementId, status: 'UNMATCHED' }
+    });
+
+    if (lines.length === 0) {
+      return { matched: 0, unmatchedLines: 0 };
+    }
+
+    const window = (options.dateWindowDays ?? 3) * DAY_MS;
+    const times = lines.map(line => line.bookingDate.getTime());
+    const payments = await this.findOpenPayments(
+      new Date(Math.min(...times) - window),
+      new Date(Math.max(...times) + window)
+    );
+
+    const result = autoMatch(lines.map(toStatementLine), payments.map(toCandidate), options);
+
+    for (const match of result.matches) {
+      await prisma.$transaction([
+        prisma.bankStatementMatch.create({
+          data: { lineId: match.lineRef, paymentId: match.paymentId, matchedBy: 'system' }
+        }),
+        prisma.bankStatementLine.update({
+          where: { id: match.lineRef },
+          data: {
+            status: 'AUTO_MATCHED',
+            matchScore: match.score,
+            matchReasons: match.reasons,
+            matchedAt: new Date()
+          }
+        })
+      ]);
+    }
+
+    logger.info(`Auto-matched ${result.matches.length} of ${lines.length} lines on statement ${statementId}`);
+
+    return { matched: result.matches.length, unmatchedLines: result.unmatchedLines.length };
+  }
+
+  /**
+   * Auto-match every statement with open lines in the period and total what
+   * the bank has confirmed
+   */
+  static async reconcilePeriod(startDate: Date, endDate: Date) {
+    const open = await prisma.bankStatementLine.findMany({
+      where: { status: 'UNMATCHED', bookingDate: { gte: startDate, lte: endDate } },
+      select: { bankStatementId: true },
+      distinct: ['bankStatementId']
+    });
+
+    for (const { bankStatementId } of open) {
+      await this.autoMatchStatement(bankStatementId);
+    }
+
+    const matches = await prisma.bankStatementMatch.findMany({
+      where: { payment: { processedAt: { gte: startDate, lte: endDate } } },
+      include: { payment: true }
+    });
+
+    const matchedAmount = matches.reduce(
+      (sum, match) => sum.add(match.payment.amount.toString()),
+      new Decimal(0)
+    );
+
+    return { matchedPayments: matches.length, matchedAmount };
+  }
+
+  /**
+   * Both sides of what is still open for a period (or one statement)
+   */
+  static async getUnmatched(params: { startDate: Date; endDate: Date; statementId?: string }) {
+    const [lines, payments] = await Promise.all([
+      prisma.bankStatementLine.findMany({
+        where: {
+          status: 'UNMATCHED',
+          ...(params.statementId
+            ? { bankStatementId: params.statementId }
+            : { bookingDate: { gte: params.startDate, lte: params.endDate } })
+        },
+        orderBy: { bookingDate: 'asc' }
+      }),
+      this.findOpenPayments(params.startDate, params.endDate)
+    ]);
+
+    return { statementLines: lines, payments };
+  }
+
+  /**
+   * Completed payments older than the settlement grace period that no bank
+   * line accounts for
+   */
+  static async findUnsettledPayments(paymentIds: string[]) {
+    const cutoff = new Date(Date.now() - SETTLEMENT_GRACE_DAYS * DAY_MS);
+    const payments = await prisma.payment.findMany({
+      where: { id: { in: paymentIds }, processedAt: { lte: cutoff } }
+    });
+    const settled = await this.settledPaymentIds(payments.map(p => p.id));
+
+    return payments.filter(payment => !settled.has(payment.id));
+  }
+
+  /**
+   * Match one statement line to one or more payments (a batched deposit).
+   * The line must equal the payments' gross or net-of-fees total unless a
+   * reason is given to write the difference off
+   */
+  static async manualMatch(params: {
+    lineId: string;
+    paymentIds: string[];
+    matchedBy: string;
+    note?: string;
+    differenceReason?: string;
+  }) {
+    const line = await prisma.bankStatementLine.findUnique({ where: { id: params.lineId } });
+    if (!line) {
+      throw new Error('Statement line not found');
+    }
+    if (line.status !== 'UNMATCHED') {
+      throw new Error(`Statement line is already ${line.status.toLowerCase().replace('_', ' ')}`);
+    }
+
+    const payments = await prisma.payment.findMany({ where: { id: { in: params.paymentIds } } });
+    if (payments.length !== params.paymentIds.length) {
+      throw new Error('One or more payments not found');
+    }
+    if (payments.some(payment => payment.status !== 'COMPLETED')) {
+      throw new Error('Only completed payments can be matched');
+    }
+    if (payments.some(payment => payment.currency !== line.currency)) {
+      throw new Error('Payment currency does not match the statement line');
+    }
+
+    const settled = await this.settledPaymentIds(params.paymentIds);
+    if (settled.size > 0) {
+      throw new Error(`Payments already matched or written off: ${Array.from(settled).join(', ')}`);
+    }
+
+    const lineAmount = new Decimal(line.amount.toString());
+    const gross = payments.reduce((sum, p) => sum.add(p.amount.toString()), new Decimal(0));
+    const net = payments.reduce(
+      (sum, p) => sum.add(p.amount.toString()).sub(p.processingFee?.toString() ?? 0),
+      new Decimal(0)
+    );
+    const expected = lineAmount.eq(net) ? net : gross;
+    const difference = lineAmount.sub(expected);
+
+    if (!difference.isZero() && !params.differenceReason) {
+      throw new Error(
+        `Line amount ${lineAmount.toFixed(2)} differs from payments total ${gross.toFixed(2)} ` +
+        `(net ${net.toFixed(2)}); give a reason to write off the difference`
+      );
+    }
+
+    await prisma.$transaction([
+      ...params.paymentIds.map(paymentId => prisma.bankStatementMatch.create({
+        data: { lineId: line.id, paymentId, matchedBy: params.matchedBy }
+      })),
+      prisma.bankStatementLine.update({
+        where: { id: line.id },
+        data: {
+          status: 'MANUALLY_MATCHED',
+          matchedBy: params.matchedBy,
+          matchedAt: new Date(),
+          note: params.note
+        }
+      })
+    ]);
+
+    if (!difference.isZero()) {
+      await this.recordWriteOff({
+        lineId: line.id,
+        amount: difference.abs(),
+        // More arrived than expected is unexplained money in
+        direction: difference.isPositive() ? 'CREDIT' : 'DEBIT',
+        currency: line.currency,
+        reason: params.differenceReason!,
+        writtenOffBy: params.matchedBy
+      });
+    }
+
+    logger.info(`Statement line ${line.id} matched to ${params.paymentIds.length} payment(s) by ${params.matchedBy}`);
+
+    return { lineId: line.id, paymentIds: params.paymentIds, difference: difference.toFixed(2) };
+  }
+
+  static async unmatch(lineId: string, performedBy: string) {
+    const line = await prisma.bankStatementLine.findUnique({ where: { id: lineId } });
+    if (!line) {
+      throw new Error('Statement line not found');
+    }
+    if (line.status !== 'AUTO_MATCHED' && line.status !== 'MANUALLY_MATCHED') {
+      throw new Error('Statement line is not matched');
+    }
+
+    await prisma.$transaction([
+      prisma.bankStatementMatch.deleteMany({ where: { lineId } }),
+      prisma.bankStatementLine.update({
+        where: { id: lineId },
+        data: { status: 'UNMATCHED', matchScore: null, matchReasons: [], matchedBy: null, matchedAt: null }
+      })
+    ]);
+
+    logger.info(`Statement line ${lineId} unmatched by ${performedBy}`);
+  }
+
+  /**
+   * Write off a statement line or a payment nobody can match. The amount is
+   * posted to the ledger so the books still prove out
+   */
+  static async writeOff(params: {
+    lineId?: string;
+    paymentId?: string;
+    reason: string;
+    writtenOffBy: string;
+  }) {
+    if (!!params.lineId === !!params.paymentId) {
+      throw new Error('Write off either a statement line or a payment');
+    }
+
+    if (params.lineId) {
+      const line = await prisma.bankStatementLine.findUnique({ where: { id: params.lineId } });
+      if (!line) {
+        throw new Error('Statement line not found');
+      }
+      if (line.status !== 'UNMATCHED') {
+        throw new Error('Only unmatched statement lines can be written off');
+      }
+
+      await prisma.bankStatementLine.update({
+        where: { id: line.id },
+        data: { status: 'WRITTEN_OFF', matchedBy: params.writtenOffBy, matchedAt: new Date() }
+      });
+
+      return this.recordWriteOff({
+        lineId: line.id,
+        amount: new Decimal(line.amount.toString()),
+        direction: line.direction,
+        currency: line.currency,
+        reason: params.reason,
+        writtenOffBy: params.writtenOffBy
+      });
+    }
+
+    const payment = await prisma.payment.findUnique({ where: { id: params.paymentId } });
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+    if ((await this.settledPaymentIds([payment.id])).size > 0) {
+      throw new Error('Payment is already matched or written off');
+    }
+
+    // The provider owes us a settlement that never reached the bank
+    return this.recordWriteOff({
+      paymentId: payment.id,
+      amount: new Decimal(payment.amount.toString()).sub(payment.processingFee?.toString() ?? 0),
+      direction: 'DEBIT',
+      provider: payment.provider,
+      currency: payment.currency,
+      reason: params.reason,
+      writtenOffBy: params.writtenOffBy
+    });
+  }
+
+  /**
+   * Build, sign and store the reconciliation report for a period
+   */
+  static async generateReport(params: {
+    startDate: Date;
+    endDate: Date;
+    generatedBy: string;
+    reconciliationId?: string;
+  }) {
+    const period = { gte: params.startDate, lte: params.endDate };
+
+    const [lines, openPayments, writeOffs] = await Promise.all([
+      prisma.bankStatementLine.findMany({
+        where: { bookingDate: period },
+        include: { matches: { include: { payment: true } } },
+        orderBy: { bookingDate: 'asc' }
+      }),
+      this.findOpenPayments(params.startDate, params.endDate),
+      prisma.reconciliationWriteOff.findMany({
+        where: { createdAt: period },
+        orderBy: { createdAt: 'asc' }
+      })
+    ]);
+
+    const sum = (values: Array<Decimal.Value>) =>
+      values.reduce<Decimal>((total, value) => total.add(value), new Decimal(0));
+    const amount = (line: any) => line.amount.toString();
+
+    const matchedLines = lines.filter(l => l.status === 'AUTO_MATCHED' || l.status === 'MANUALLY_MATCHED');
+    const unmatchedLines = lines.filter(l => l.status === 'UNMATCHED');
+
+    const report: ReconciliationReport = {
+      reconciliationId: params.reconciliationId,
+      periodStart: params.startDate.toISOString(),
+      periodEnd: params.endDate.toISOString(),
+      generatedAt: new Date().toISOString(),
+      generatedBy: params.generatedBy,
+      summary: {
+        statementLines: lines.length,
+        bankCredits: sum(lines.filter(l => l.direction === 'CREDIT').map(amount)).toFixed(2),
+        bankDebits: sum(lines.filter(l => l.direction === 'DEBIT').map(amount)).toFixed(2),
+        matchedLines: matchedLines.length,
+        matchedAmount: sum(matchedLines.map(amount)).toFixed(2),
+        unmatchedLines: unmatchedLines.length,
+        unmatchedLineAmount: sum(unmatchedLines.map(amount)).toFixed(2),
+        unmatchedPayments: openPayments.length,
+        unmatchedPaymentAmount: sum(openPayments.map(amount)).toFixed(2),
+        writtenOff: writeOffs.length,
+        writtenOffAmount: sum(writeOffs.map(amount)).toFixed(2)
+      },
+      matched: matchedLines.map(line => ({
+        lineId: line.id,
+        lineRef: line.lineRef,
+        amount: new Decimal(amount(line)).toFixed(2),
+        paymentIds: line.matches.map((match: any) => match.payment.paymentId),
+        status: line.status,
+        ...(line.matchScore !== null ? { score: Number(line.matchScore) } : {})
+      })),
+      unmatchedLines: unmatchedLines.map(line => ({
+        lineId: line.id,
+        lineRef: line.lineRef,
+        bookingDate: line.bookingDate.toISOString(),
+        direction: line.direction,
+        amount: new Decimal(amount(line)).toFixed(2),
+        ...(line.reference ? { reference: line.reference } : {}),
+        ...(line.description ? { description: line.description } : {})
+      })),
+      unmatchedPayments: openPayments.map(payment => ({
+        paymentId: payment.paymentId,
+        processedAt: payment.processedAt.toISOString(),
+        amount: new Decimal(amount(payment)).toFixed(2),
+        provider: payment.provider
+      })),
+      writeOffs: writeOffs.map(writeOff => ({
+        writeOffId: writeOff.id,
+        ...(writeOff.lineId ? { lineId: writeOff.lineId } : {}),
+        ...(writeOff.paymentId ? { paymentId: writeOff.paymentId } : {}),
+        amount: new Decimal(amount(writeOff)).toFixed(2),
+        reason: writeOff.reason,
+        writtenOffBy: writeOff.writtenOffBy
+      }))
+    };
+
+    const signature = this.signReport(report);
+
+    const stored = await prisma.reconciliationReport.create({
+      data: {
+        reconciliationId: params.reconciliationId,
+        periodStart: params.startDate,
+        periodEnd: params.endDate,
+        report: report as any,
+        signature,
+        algorithm: SIGNATURE_ALGORITHM,
+        generatedBy: params.generatedBy
+      }
+    });
+
+    logger.info(`Reconciliation report ${stored.id} generated`, report.summary);
+
+    return { reportId: stored.id, report, signature, algorithm: SIGNATURE_ALGORITHM };
+  }
+
+  static async getReport(reportId: string) {
+    const stored = await prisma.reconciliationReport.findUnique({ where: { id: reportId } });
+    if (!stored) {
+      throw new Error('Reconciliation report not found');
+    }
+
+    return {
+      reportId: stored.id,
+      report: stored.report as unknown as ReconciliationReport,
+      signature: stored.signature,
+      algorithm: stored.algorithm
+    };
+  }
+
+  static signReport(report: ReconciliationReport): string {
+    return crypto.createHmac('sha256', signingSecret()).update(canonicalJson(report)).digest('hex');
+  }
+
+  static verifyReport(report: ReconciliationReport, signature: string): boolean {
+    const expected = Buffer.from(this.signReport(report), 'hex');
+    const given = Buffer.from(signature, 'hex');
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+
+  /**
+   * Flat CSV export. The signature covers the JSON report, so it travels in
+   * the header comment for verification against the stored copy
+   */
+  static toCsv(report: ReconciliationReport, signature: string): string {
+    const escape = (value: unknown) => {
+      const text = value === undefined || value === null ? '' : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const row = (...cells: unknown[]) => cells.map(escape).join(',');
+
+    return [
+      `# Reconciliation ${report.reconciliationId || ''} ${report.periodStart} to ${report.periodEnd}`,
+      `# ${SIGNATURE_ALGORITHM} ${signature}`,
+      row('section', 'id', 'reference', 'date', 'direction', 'amount', 'payments', 'status', 'detail'),
+      ...report.matched.map(m => row('MATCHED', m.lineId, m.lineRef, '', 'CREDIT', m.amount, m.paymentIds.join(' '), m.status, m.score ?? '')),
+      ...report.unmatchedLines.map(l => row('UNMATCHED_LINE', l.lineId, l.reference || l.lineRef, l.bookingDate, l.direction, l.amount, '', 'UNMATCHED', l.description)),
+      ...report.unmatchedPayments.map(p => row('UNMATCHED_PAYMENT', p.paymentId, '', p.processedAt, 'CREDIT', p.amount, p.paymentId, 'UNMATCHED', p.provider)),
+      ...report.writeOffs.map(w => row('WRITE_OFF', w.writeOffId, w.lineId || '', '', '', w.amount, w.paymentId || '', 'WRITTEN_OFF', w.reason))
+    ].join('\n');
+  }
+
+  private static async recordWriteOff(params: {
+    lineId?: string;
+    paymentId?: string;
+    amount: Decimal;
+    direction: 'CREDIT' | 'DEBIT';
+    provider?: string;
+    currency: string;
+    reason: string;
+    writtenOffBy: string;
+  }) {
+    const writeOff = await prisma.reconciliationWriteOff.create({
+      data: {
+        lineId: params.lineId,
+        paymentId: params.paymentId,
+        amount: params.amount,
+        direction: params.direction,
+        currency: params.currency,
+        reason: params.reason,
+        writtenOffBy: params.writtenOffBy
+      }
+    });
+
+    await LedgerService.postReconciliationWriteOff({
+      writeOffId: writeOff.id,
+      amount: params.amount,
+      direction: params.direction,
+      provider: params.provider,
+      reason: params.reason,
+      currency: params.currency
+    });
+
+    logger.warn(`Reconciliation write-off ${writeOff.id}: ${params.amount.toFixed(2)} ${params.currency}`, {
+      reason: params.reason,
+      writtenOffBy: params.writtenOffBy
+    });
+
+    return writeOff;
+  }
+
+  private static async findOpenPayments(startDate: Date, endDate: Date) {
+    const payments = await prisma.payment.findMany({
+      where: { status: 'COMPLETED', processedAt: { gte: startDate, lte: endDate } },
+      orderBy: { processedAt: 'asc' }
+    });
+    const settled = await this.settledPaymentIds(payments.map(p => p.id));
+
+    return payments.filter(payment => !settled.has(payment.id));
+  }
+
+  // Payments a bank line already accounts for, or that finance wrote off
+  private static async settledPaymentIds(paymentIds: string[]): Promise<Set<string>> {
+    if (paymentIds.length === 0) return new Set();
+
+    const [matches, writeOffs] = await Promise.all([
+      prisma.bankStatementMatch.findMany({
+        where: { paymentId: { in: paymentIds } },
+        select: { paymentId: true }
+      }),
+      prisma.reconciliationWriteOff.findMany({
+        where: { paymentId: { in: paymentIds } },
+        select: { paymentId: true }
+      })
+    ]);
+
+    return new Set([...matches, ...writeOffs].map(row => row.paymentId as string));
+  }
+}
@@ -0,0 +1,763 @@
+import Decimal from 'decimal.js';
+import { logger } from '../utils/logger';
+import { prisma } from '../config/database';
+import { LedgerService } from './ledger.service';
+import { EftPayoutService } from './eft-payout.service';
+import { providerRegistry } from '../providers';
+import { getDocument, getDocumentDownloadUrl } from '../utils/documents';
+import { notifyDisputeCase } from '../utils/notifications';
+import { normalizeCurrency, roundMoney } from '../utils/fx';
+import {
+  assertMediationConsent,
+  onDeadlineMissed,
+  planAction,
+  splitFrozenFunds,
+  stateAfterEvidence,
+  stateDeadline,
+  CaseAction,
+  CaseParty,
+  CaseRole,
+  DisputeCaseError,
+  DisputeCaseState,
+  DisputeSubjectType,
+  MediatorType,
+  ResolutionOutcome,
+  MEDIATOR_TYPES,
+  OPEN_CASE_STATES
+} from '../utils/disputes';
+
+/**
+ * Dispute Cases
+ * One case for each payment or escrow dispute, from opening through
+ * evidence, review and optional mediation to a resolution that settles the
+ * frozen funds. Every step is written to the case timeline
+ */
+
+export interface OpenCaseParams {
+  subjectType: DisputeSubjectType;
+  subjectId: string; // Payment id or escrow account id
+  reference: string; // The dispute record's id, also used for the ledger hold
+  claimantId: string;
+  respondentId: string;
+  frozenAmount: Decimal.Value;
+  currency?: string;
+  reason: string;
+  priority?: boolean;
+}
+
+interface MediationConsent {
+  party: CaseParty;
+  partyId: string;
+  mediatorType: MediatorType;
+  at: string;
+}
+
+// Scan results that keep a document off the case
+const REJECTED_SCAN_STATUSES = ['infected', 'error'];
+
+// Dispute officers review cases and assign mediators
+function officerIds(): string[] {
+  return (process.env.DISPUTE_OFFICER_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+}
+
+export class DisputeService {
+  static async openCase(params: OpenCaseParams): Promise<any> {
+    const currency = normalizeCurrency(params.currency);
+    const frozenAmount = roundMoney(params.frozenAmount, currency);
+    const now = new Date();
+
+    if (params.claimantId === params.respondentId) {
+      throw new DisputeCaseError('A party cannot open a dispute against itself');
+    }
+
+    const disputeCase = await prisma.disputeCase.create({
+      data: {
+        subjectType: params.subjectType,
+        subjectId: params.subjectId,
+        reference: params.reference,
+        claimantId: params.claimantId,
+        respondentId: params.respondentId,
+        frozenAmount,
+        currency,
+        reason: params.reason,
+        priority: params.priority || false,
+        state: 'OPENED',
+        stateEnteredAt: now,
+        stateDeadline: stateDeadline('OPENED', now),
+        evidenceRequestedFrom: [],
+        mediationConsents: [],
+        openedAt: now
+      }
+    });
+
+    await this.record(disputeCase.id, 'opened', params.claimantId, 'claimant', `Dispute opened: ${params.reason}`, {
+      subjectType: params.subjectType,
+      subjectId: params.subjectId,
+      frozenAmount: frozenAmount.toFixed(),
+      currency
+    });
+
+    await notifyDisputeCase(
+      disputeCase,
+      'dispute.opened',
+      [params.claimantId, params.respondentId],
+      { reason: params.reason, respondBy: disputeCase.stateDeadline },
+      params.priority ? 'high' : 'normal'
+    );
+
+    logger.info(`Dispute case ${disputeCase.id} opened for ${params.subjectType} ${params.subjectId}`);
+    return disputeCase;
+  }
+
+  /**
+   * A case with its evidence and full timeline, for someone involved in it
+   */
+  static async getCase(caseId: string, actorId: string): Promise<any> {
+    const disputeCase = await prisma.disputeCase.findUnique({
+      where: { id: caseId },
+      include: {
+        evidence: { orderBy: { submittedAt: 'asc' } },
+        events: { orderBy: { occurredAt: 'asc' } }
+      }
+    });
+    if (!disputeCase) {
+      throw new DisputeCaseError('Dispute case not found');
+    }
+
+    const role = this.roleOf(disputeCase, actorId);
+    const { events, ...rest } = disputeCase;
+    return { ...rest, viewerRole: role, timeline: events };
+  }
+
+  /**
+   * Cases someone is a party to or mediating; officers see all of them
+   */
+  static async listCases(actorId: string, filters: { state?: string; subjectType?: string } = {}): Promise<any[]> {
+    const isOfficer = officerIds().includes(actorId);
+
+    return prisma.disputeCase.findMany({
+      where: {
+        ...(filters.state ? { state: filters.state } : {}),
+        ...(filters.subjectType ? { subjectType: filters.subjectType } : {}),
+        ...(isOfficer ? {} : {
+          OR: [{ claimantId: actorId }, { respondentId: actorId }, { mediatorId: actorId }]
+        })
+      },
+      orderBy: [{ priority: 'desc' }, { stateDeadline: 'asc' }]
+    });
+  }
+
+  /**
+   * Ask one or both parties for evidence by a deadline
+   */
+  static async requestEvidence(caseId: string, actorId: string, params: {
+    from: CaseParty[];
+    note: string;
+    dueInDays?: number;
+  }): Promise<any> {
+    const from = Array.from(new Set(params.from)).filter(party => party === 'claimant' || party === 'respondent');
+    if (from.length === 0) {
+      throw new DisputeCaseError('Ask the claimant, the respondent or both for evidence');
+    }
+
+    const disputeCase = await this.load(caseId);
+    const updated = await this.advance(disputeCase, 'request_evidence', actorId, {
+      type: 'evidence_requested',
+      summary: params.note,
+      data: { from, dueInDays: params.dueInDays }
+    }, { evidenceRequestedFrom: from }, { days: params.dueInDays });
+
+    await notifyDisputeCase(
+      updated,
+      'dispute.evidence_requested',
+      from.map(party => this.partyId(updated, party)),
+      { note: params.note, dueBy: updated.stateDeadline },
+      'high'
+    );
+    return updated;
+  }
+
+  /**
+   * Attach a document the party has uploaded to the documents service. The
+   * document's checksum is kept so later changes to the file show up
+   */
+  static async submitEvidence(caseId: string, actorId: string, params: {
+    documentId: string;
+    description?: string;
+  }): Promise<any> {
+    const disputeCase = await this.load(caseId);
+    const role = this.roleOf(disputeCase, actorId);
+    planAction('submit_evidence', disputeCase.state, role);
+    const party = role as CaseParty;
+
+    if (disputeCase.state === 'EVIDENCE_REQUESTED' && disputeCase.stateDeadline < new Date()) {
+      throw new DisputeCaseError(`The evidence window closed on ${disputeCase.stateDeadline.toISOString()}`);
+    }
+
+    const document = await getDocument(params.documentId);
+    if (document.userId !== actorId && document.businessId !== actorId) {
+      throw new DisputeCaseError('Evidence must be a document uploaded by the party submitting it');
+    }
+    if (document.scanStatus && REJECTED_SCAN_STATUSES.includes(document.scanStatus)) {
+      throw new DisputeCaseError(`Document ${params.documentId} failed its virus scan`);
+    }
+
+    const duplicate = await prisma.disputeEvidence.findFirst({
+      where: { caseId, documentId: params.documentId }
+    });
+    if (duplicate) {
+      throw new DisputeCaseError('This document is already on the case');
+    }
+
+    const evidence = await prisma.disputeEvidence.create({
+      data: {
+        caseId,
+        documentId: document.id,
+        party,
+        submittedBy: actorId,
+        description: params.description,
+        fileName: document.originalName,
+        mimeType: document.mimeType,
+        size: document.size,
+        checksum: document.checksum,
+        scanStatus: document.scanStatus || 'pending',
+        submittedAt: new Date()
+      }
+    });
+
+    const outstanding = (disputeCase.evidenceRequestedFrom as CaseParty[]) || [];
+    const next = stateAfterEvidence(disputeCase.state, party, outstanding);
+    await this.moveTo(disputeCase, next, {
+      evidenceRequestedFrom: outstanding.filter(requested => requested !== party)
+    });
+
+    await this.record(caseId, 'evidence_submitted', actorId, role, params.description || `Evidence from the ${party}`, {
+      evidenceId: evidence.id,
+      documentId: document.id,
+      fileName: document.originalName,
+      checksum: document.checksum,
+      ...(next !== disputeCase.state ? { from: disputeCase.state, to: next } : {})
+    });
+
+    const other = party === 'claimant' ? disputeCase.respondentId : disputeCase.claimantId;
+    await notifyDisputeCase(
+      { ...disputeCase, state: next },
+      'dispute.evidence_submitted',
+      [other, disputeCase.mediatorId],
+      { party, fileName: document.originalName }
+    );
+
+    return evidence;
+  }
+
+  static async getEvidenceDownloadUrl(caseId: string, evidenceId: string, actorId: string): Promise<string> {
+    const disputeCase = await this.load(caseId);
+    this.roleOf(disputeCase, actorId);
+
+    const evidence = await prisma.disputeEvidence.findFirst({ where: { id: evidenceId, caseId } });
+    if (!evidence) {
+      throw new DisputeCaseError('Evidence not found on this case');
+    }
+
+    const document = await getDocument(evidence.documentId);
+    if (document.checksum !== evidence.checksum) {
+      throw new DisputeCaseError('The document has changed since it was submitted as evidence');
+    }
+    return getDocumentDownloadUrl(evidence.documentId);
+  }
+
+  static async startReview(caseId: string, actorId: string, note?: string): Promise<any> {
+    const disputeCase = await this.load(caseId);
+    return this.advance(disputeCase, 'start_review', actorId, {
+      type: 'review_started',
+      summary: note || 'Case under review'
+    }, { evidenceRequestedFrom: [] });
+  }
+
+  /**
+   * A party agrees to a kind of mediation. An Elder is only asked once
+   * both parties have agreed
+   */
+  static async consentToMediation(caseId: string, actorId: string, mediatorType: MediatorType): Promise<any> {
+    const disputeCase = await this.load(caseId);
+    const role = this.roleOf(disputeCase, actorId);
+    planAction('consent_to_mediation', disputeCase.state, role);
+    if (!MEDIATOR_TYPES.includes(mediatorType)) {
+      throw new DisputeCaseError(`Unknown mediator type: ${mediatorType}`);
+    }
+
+    const consents: MediationConsent[] = [
+      ...((disputeCase.mediationConsents as MediationConsent[]) || []).filter(consent => consent.party !== role),
+      { party: role as CaseParty, partyId: actorId, mediatorType, at: new Date().toISOString() }
+    ];
+
+    const updated = await prisma.disputeCase.update({
+      where: { id: caseId },
+      data: { mediationConsents: consents as any }
+    });
+
+    await this.record(caseId, 'mediation_consent', actorId, role, `The ${role} agreed to ${mediatorType.toLowerCase().replace('_', ' ')} mediation`, {
+      mediatorType
+    });
+
+    const agreed = consents.length === 2 && consents.every(consent => consent.mediatorType === mediatorType);
+    if (agreed) {
+      await notifyDisputeCase(updated, 'dispute.mediation_agreed', officerIds(), { mediatorType });
+    }
+    return updated;
+  }
+
+  static async assignMediator(caseId: string, actorId: string, params: {
+    mediatorId: string;
+    mediatorType: MediatorType;
+    mediatorName?: string;
+    community?: string; // The Nation or community an Elder mediator is from
+  }): Promise<any> {
+    const disputeCase = await this.load(caseId);
+    assertMediationConsent(params.mediatorType, (disputeCase.mediationConsents as MediationConsent[]) || []);
+
+    if (params.mediatorId === disputeCase.claimantId || params.mediatorId === disputeCase.respondentId) {
+      throw new DisputeCaseError('A party cannot mediate its own dispute');
+    }
+    if (params.mediatorType === 'COMMUNITY_ELDER' && !params.community) {
+      throw new DisputeCaseError('Name the community the Elder mediator is from');
+    }
+
+    const updated = await this.advance(disputeCase, 'assign_mediator', actorId, {
+      type: 'mediator_assigned',
+      summary: `${params.mediatorName || params.mediatorId} assigned as ${params.mediatorType === 'COMMUNITY_ELDER' ? 'Elder' : 'mediator'}`,
+      data: { mediatorId: params.mediatorId, mediatorType: params.mediatorType, community: params.community }
+    }, {
+      mediatorId: params.mediatorId,
+      mediatorType: params.mediatorType,
+      mediatorName: params.mediatorName,
+      mediatorCommunity: params.community
+    }, { mediatorType: params.mediatorType });
+
+    await notifyDisputeCase(
+      updated,
+      'dispute.mediator_assigned',
+      [updated.claimantId, updated.respondentId, params.mediatorId],
+      { mediatorType: params.mediatorType, mediatorName: params.mediatorName, community: params.community }
+    );
+    return updated;
+  }
+
+  /**
+   * Mediation that ends without agreement hands the case back for review
+   */
+  static async endMediation(caseId: string, actorId: string, note: string): Promise<any> {
+    const disputeCase = await this.load(caseId);
+    const updated = await this.advance(disputeCase, 'end_mediation', actorId, {
+      type: 'mediation_ended',
+      summary: note
+    });
+
+    await notifyDisputeCase(updated, 'dispute.mediation_ended', [updated.claimantId, updated.respondentId, ...officerIds()], { note });
+    return updated;
+  }
+
+  /**
+   * Decide the case: award the claimant all, none or part of the frozen
+   * funds (by amount or percentage) and the respondent the rest
+   */
+  static async resolve(caseId: string, actorId: string, params: {
+    toClaimant?: Decimal.Value;
+    claimantPercent?: number;
+    summary: string;
+  }): Promise<any> {
+    const disputeCase = await this.load(caseId);
+    const split = splitFrozenFunds(disputeCase.frozenAmount.toString(), params, disputeCase.currency);
+    return this.close(disputeCase, 'resolve', actorId, split.outcome, split.toClaimant, params.summary);
+  }
+
+  /**
+   * The claimant drops the dispute; the frozen funds go back to the respondent
+   */
+  static async withdraw(caseId: string, actorId: string, reason: string): Promise<any> {
+    const disputeCase = await this.load(caseId);
+    return this.close(disputeCase, 'withdraw', actorId, 'WITHDRAWN', new Decimal(0), reason);
+  }
+
+  /**
+   * Move cases whose deadline has passed on, flag overdue decisions once,
+   * and retry settlements that failed
+   */
+  static async processDeadlines(now = new Date()): Promise<{ escalated: number; overdue: number; settled: number }> {
+    const due = await prisma.disputeCase.findMany({
+      where: { state: { in: OPEN_CASE_STATES }, stateDeadline: { lt: now } }
+    });
+    let escalated = 0;
+    let overdue = 0;
+
+    for (const disputeCase of due) {
+      const missed = onDeadlineMissed(disputeCase.state);
+
+      if (missed.escalateTo) {
+        const moved = await this.moveTo(disputeCase, missed.escalateTo, { evidenceRequestedFrom: [] }, now);
+        if (!moved) continue;
+        escalated++;
+        await this.record(disputeCase.id, 'deadline_missed', 'system', 'system', `Deadline passed; moved to ${missed.escalateTo}`, {
+          from: disputeCase.state,
+          to: missed.escalateTo,
+          deadline: disputeCase.stateDeadline
+        });
+        await notifyDisputeCase(
+          { ...disputeCase, state: missed.escalateTo },
+          'dispute.deadline_missed',
+          [disputeCase.claimantId, disputeCase.respondentId, ...officerIds()],
+          { previousState: disputeCase.state }
+        );
+      } else if (missed.overdue && !disputeCase.overdueNotifiedAt) {
+        await prisma.disputeCase.update({ where: { id: disputeCase.id }, data: { overdueNotifiedAt: now } });
+        overdue++;
+        await this.record(disputeCase.id, 'overdue', 'system', 'system', `${disputeCase.state} deadline passed without a decision`, {
+          deadline: disputeCase.stateDeadline
+        });
+        await notifyDisputeCase(disputeCase, 'dispute.overdue', [...officerIds(), disputeCase.mediatorId], {}, 'high');
+      }
+    }
+
+    const unsettled = await prisma.disputeCase.findMany({
+      where: { state: 'RESOLVED', settlementStatus: 'FAILED' }
+    });
+    let settled = 0;
+    for (const disputeCase of unsettled) {
+      if (await this.settle(disputeCase)) settled++;
+    }
+
+    return { escalated, overdue, settled };
+  }
+
+  private static async close(
+    disputeCase: any,
+    action: CaseAction,
+    actorId: string,
+    outcome: ResolutionOutcome,
+    toClaimant: Decimal,
+    summary: string
+  ): Promise<any> {
+    const toRespondent = new Decimal(disputeCase.frozenAmount.toString()).sub(toClaimant);
+
+    const resolved = await this.advance(disputeCase, action, actorId, {
+      type: action === 'withdraw' ? 'withdrawn' : 'resolved',
+      summary,
+      data: { outcome, toClaimant: toClaimant.toFixed(), toRespondent: toRespondent.toFixed() }
+    }, {
+      outcome,
+      awardToClaimant: toClaimant,
+      awardToRespondent: toRespondent,
+      resolutionSummary: summary,
+      resolvedBy: actorId,
+      resolvedAt: new Date(),
+      settlementStatus: 'PENDING'
+    });
+
+    await this.settle(resolved);
+
+    await notifyDisputeCase(
+      resolved,
+      'dispute.resolved',
+      [resolved.claimantId, resolved.respondentId, resolved.mediatorId],
+      { outcome, toClaimant: toClaimant.toFixed(), toRespondent: toRespondent.toFixed(), summary },
+      'high'
+    );
+
+    return this.load(disputeCase.id);
+  }
+
+  /**
+   * Pay out the frozen funds as resolved. Claimed first so two runs never
+   * settle the same case; a failure is recorded and retried by the
+   * deadline job
+   */
+  private static async settle(disputeCase: any): Promise<boolean> {
+    const claimed = await prisma.disputeCase.updateMany({
+      where: { id: disputeCase.id, state: 'RESOLVED', settlementStatus: { in: ['PENDING', 'FAILED'] } },
+      data: { settlementStatus: 'SETTLING' }
+    });
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    try {
+      if (disputeCase.subjectType === 'PAYMENT') {
+        await this.settlePayment(disputeCase);
+      } else {
+        await this.settleEscrow(disputeCase);
+      }
+
+      await prisma.disputeCase.update({
+        where: { id: disputeCase.id },
+        data: { settlementStatus: 'SETTLED', settledAt: new Date(), settlementError: null }
+      });
+      await this.record(disputeCase.id, 'settled', 'system', 'system', 'Frozen funds settled', {
+        toClaimant: disputeCase.awardToClaimant.toString(),
+        toRespondent: disputeCase.awardToRespondent.toString()
+      });
+      return true;
+    } catch (error: any) {
+      logger.error(`Dispute case ${disputeCase.id} settlement failed:`, error);
+      await prisma.disputeCase.update({
+        where: { id: disputeCase.id },
+        data: { settlementStatus: 'FAILED', settlementError: error.message }
+      });
+      return false;
+    }
+  }
+
+  /**
+   * The payer's award is refunded through the provider; the payee's share
+   * goes back into their balance
+   */
+  private static async settlePayment(disputeCase: any): Promise<void> {
+    const payment = await prisma.payment.findUnique({ where: { paymentId: disputeCase.subjectId } });
+    if (!payment) {
+      throw new Error(`Payment ${disputeCase.subjectId} not found`);
+    }
+
+    const toPayer = new Decimal(disputeCase.awardToClaimant.toString());
+    const toPayee = new Decimal(disputeCase.awardToRespondent.toString());
+
+    if (toPayer.gt(0)) {
+      const refundId = `RFD-${disputeCase.reference}`;
+      const existing = await prisma.refund.findUnique({ where: { refundId } });
+
+      if (existing?.status !== 'COMPLETED') {
+        const adapter = providerRegistry.get(payment.provider);
+        if (!adapter.refund) {
+          throw new Error(`Refund not supported for provider: ${payment.provider}`);
+        }
+        const refund = existing || await prisma.refund.create({
+          data: {
+            refundId,
+            paymentId: payment.id,
+            amount: toPayer,
+            reason: 'DISPUTE_RESOLUTION' as any,
+            description: `Dispute ${disputeCase.reference} resolved`,
+            status: 'PENDING',
+            indigenousImpact: payment.isIndigenousBusiness,
+            mandateAdjustment: payment.isIndigenousBusiness ? toPayer : null,
+            requestedBy: disputeCase.resolvedBy
+          }
+        });
+
+        const providerResult = await adapter.refund(payment.providerTransactionId, toPayer.toNumber(), payment.currency);
+        await prisma.refund.update({
+          where: { id: refund.id },
+          data: {
+            status: providerResult.success ? 'COMPLETED' : 'FAILED',
+            processedAt: providerResult.success ? new Date() : null,
+            providerRefundId: providerResult.refundId
+          }
+        });
+        if (!providerResult.success) {
+          throw new Error(`Provider refund for dispute ${disputeCase.reference} failed`);
+        }
+      }
+    }
+
+    await LedgerService.postDisputeSettlement({
+      disputeId: disputeCase.reference,
+      payeeId: payment.payeeId,
+      provider: payment.provider,
+      toPayer,
+      toPayee,
+      currency: payment.currency
+    });
+
+    await prisma.$transaction([
+      prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: toPayer.isZero() ? 'COMPLETED' : toPayer.gte(payment.amount) ? 'REFUNDED' : 'PARTIALLY_REFUNDED'
+        }
+      }),
+      prisma.dispute.update({
+        where: { disputeId: disputeCase.reference },
+        data: { status: 'RESOLVED', outcome: disputeCase.outcome }
+      })
+    ]);
+  }
+
+  /**
+   * The claimant's award is paid from the frozen escrow funds, by EFT in the
+   * next batch; the rest goes back into the escrow, which picks up where it
+   * left off
+   */
+  private static async settleEscrow(disputeCase: any): Promise<void> {
+    const escrowDispute = await prisma.escrowDispute.findUnique({ where: { id: disputeCase.reference } });
+    if (escrowDispute?.status === 'resolved') {
+      return;
+    }
+
+    const toClaimant = new Decimal(disputeCase.awardToClaimant.toString());
+    const returned = new Decimal(disputeCase.awardToRespondent.toString());
+
+    if (toClaimant.add(returned).gt(0)) {
+      await LedgerService.postEscrowDisputeSettlement({
+        source: 'escrow',
+        escrowId: disputeCase.subjectId,
+        disputeId: disputeCase.reference,
+        claimantId: disputeCase.claimantId,
+        toClaimant,
+        returnedToEscrow: returned,
+        currency: disputeCase.currency
+      });
+    }
+    if (toClaimant.gt(0)) {
+      await this.payClaimant(disputeCase, toClaimant);
+    }
+
+    await prisma.$transaction([
+      prisma.escrowAccount.update({
+        where: { id: disputeCase.subjectId },
+        data: {
+          status: 'active',
+          frozen: false,
+          heldAmount: { decrement: toClaimant.toNumber() },
+          releasedAmount: { increment: toClaimant.toNumber() }
+        }
+      }),
+      prisma.escrowDispute.update({
+        where: { id: disputeCase.reference },
+        data: { status: 'resolved', resolvedAt: new Date() }
+      })
+    ]);
+  }
+
+  /**
+   * Queue the claimant's escrow award for payout and book it as disbursed,
+   * as a milestone release is. A retried settlement finds the payout it
+   * already queued; the ledger posting is idempotent
+   */
+  private static async payClaimant(disputeCase: any, amount: Decimal): Promise<void> {
+    const sourceId = `${disputeCase.subjectId}:${disputeCase.reference}`;
+    const queued = await prisma.eftPayout.findFirst({ where: { source: 'escrow', sourceId } });
+
+    if (!queued) {
+      const claimant = await prisma.business.findUnique({
+        where: { id: disputeCase.claimantId },
+        include: { bankAccount: true }
+      });
+      if (!claimant?.bankAccount) {
+        throw new Error(`No bank account on file for claimant ${disputeCase.claimantId}`);
+      }
+
+      await EftPayoutService.queuePayout({
+        source: 'escrow',
+        sourceId,
+        recipientId: disputeCase.claimantId,
+        recipientName: claimant.name,
+        amount,
+        currency: disputeCase.currency,
+        bankAccount: {
+          institutionNumber: claimant.bankAccount.institutionNumber,
+          transitNumber: claimant.bankAccount.transitNumber,
+          accountNumber: claimant.bankAccount.accountNumber
+        },
+        remittance: `Dispute ${disputeCase.reference} award`,
+        approvedBy: 'dispute-resolution'
+      });
+    }
+
+    await LedgerService.postDisbursement({
+      source: 'escrow',
+      sourceId,
+      recipientId: disputeCase.claimantId,
+      amount,
+      currency: disputeCase.currency
+    });
+  }
+
+  /**
+   * Take an action on the case, moving it to the action's state with a
+   * fresh deadline, and write it to the timeline
+   */
+  private static async advance(
+    disputeCase: any,
+    action: CaseAction,
+    actorId: string,
+    event: { type: string; summary: string; data?: Record<string, unknown> },
+    changes: Record<string, unknown> = {},
+    deadline: { mediatorType?: MediatorType; days?: number } = {}
+  ): Promise<any> {
+    const role = this.roleOf(disputeCase, actorId);
+    const next = planAction(action, disputeCase.state, role);
+
+    const moved = await this.moveTo(disputeCase, next, changes, new Date(), deadline);
+    if (!moved) {
+      throw new DisputeCaseError('The case changed while this was being saved; reload it and try again');
+    }
+
+    await this.record(disputeCase.id, event.type, actorId, role, event.summary, {
+      ...event.data,
+      ...(next !== disputeCase.state ? { from: disputeCase.state, to: next } : {})
+    });
+
+    return this.load(disputeCase.id);
+  }
+
+  /**
+   * Conditional on the case still being in the state it was read in, so
+   * concurrent actions cannot both apply. False if it had moved on
+   */
+  private static async moveTo(
+    disputeCase: any,
+    next: DisputeCaseState,
+    changes: Record<string, unknown> = {},
+    now = new Date(),
+    deadline: { mediatorType?: MediatorType; days?: number } = {}
+  ): Promise<boolean> {
+    const entering = next !== disputeCase.state;
+    const result = await prisma.disputeCase.updateMany({
+      where: { id: disputeCase.id, state: disputeCase.state },
+      data: {
+        ...changes,
+        ...(entering ? {
+          state: next,
+          stateEnteredAt: now,
+          stateDeadline: stateDeadline(next, now, deadline),
+          overdueNotifiedAt: null
+        } : {})
+      }
+    });
+    return result.count > 0;
+  }
+
+  private static async record(
+    caseId: string,
+    type: string,
+    actorId: string,
+    actorRole: CaseRole | 'system',
+    summary: string,
+    data: Record<string, unknown> = {}
+  ): Promise<void> {
+    await prisma.disputeCaseEvent.create({
+      data: { caseId, type, actorId, actorRole, summary, data: data as any, occurredAt: new Date() }
+    });
+  }
+
+  private static async load(caseId: string): Promise<any> {
+    const disputeCase = await prisma.disputeCase.findUnique({ where: { id: caseId } });
+    if (!disputeCase) {
+      throw new DisputeCaseError('Dispute case not found');
+    }
+    return disputeCase;
+  }
+
+  private static roleOf(disputeCase: any, actorId: string): CaseRole {
+    if (actorId === disputeCase.claimantId) return 'claimant';
+    if (actorId === disputeCase.respondentId) return 'respondent';
+    if (disputeCase.mediatorId && actorId === disputeCase.mediatorId) return 'mediator';
+    if (officerIds().includes(actorId)) return 'officer';
+    throw new DisputeCaseError('Not a party to this dispute');
+  }
+
+  private static partyId(disputeCase: any, party: CaseParty): string {
+    return party === 'claimant' ? disputeCase.claimantId : disputeCase.respondentId;
+  }
+}
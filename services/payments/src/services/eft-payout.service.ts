@@ -0,0 +1,424 @@
+import Decimal from 'decimal.js';
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { prisma } from '../config/database';
+import { LedgerService, LedgerAccounts, LedgerSource } from './ledger.service';
+import {
+  buildCpa005File,
+  buildPain001File,
+  parseReturnFile,
+  validateBankAccount,
+  CanadianBankAccount,
+  PayoutFileFormat,
+  PayoutOriginator,
+  ReturnFileFormat
+} from '../utils/eft-files';
+
+/**
+ * EFT Payouts
+ * Approved disbursements (QuickPay, escrow releases, deposit refunds) queue
+ * as payouts, go out in CPA-005 or pain.001 batch files, and come back
+ * through bank return files. Returned payouts are re-queued automatically
+ * when the reason is temporary, or held until the payee's bank details change
+ */
+
+export type PayoutStatus =
+  | 'PENDING_APPROVAL'
+  | 'APPROVED'
+  | 'BATCHED'
+  | 'SUBMITTED'
+  | 'PAID'
+  | 'RETURNED'
+  | 'ON_HOLD';
+
+export type BatchStatus = 'GENERATED' | 'SUBMITTED' | 'SETTLED';
+
+const MAX_ATTEMPTS = parseInt(process.env.EFT_MAX_ATTEMPTS || '3', 10);
+
+function originator(): PayoutOriginator {
+  const value = {
+    originatorId: process.env.EFT_ORIGINATOR_ID || '',
+    shortName: process.env.EFT_ORIGINATOR_SHORT_NAME || 'INDIGENIOUS',
+    longName: process.env.EFT_ORIGINATOR_LONG_NAME || 'INDIGENIOUS PLATFORM',
+    destinationDataCentre: process.env.EFT_DATA_CENTRE || '',
+    account: {
+      institutionNumber: process.env.EFT_INSTITUTION_NUMBER || '',
+      transitNumber: process.env.EFT_TRANSIT_NUMBER || '',
+      accountNumber: process.env.EFT_ACCOUNT_NUMBER || ''
+    }
+  };
+
+  if (!value.originatorId || !value.destinationDataCentre) {
+    throw new Error('EFT originator is not configured');
+  }
+  validateBankAccount(value.account);
+  return value;
+}
+
+// Short enough for the 19-character CPA-005 cross reference field
+function payoutReference(): string {
+  return `PO${Date.now().toString(36).toUpperCase()}${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+}
+
+export class EftPayoutService {
+  /**
+   * Queue a payout. Disbursements the platform has already approved (a
+   * verified QuickPay request, a released milestone) pass `approvedBy`
+   */
+  static async queuePayout(params: {
+    source: LedgerSource;
+    sourceId: string;
+    recipientId: string;
+    recipientName: string;
+    amount: Decimal.Value;
+    currency?: string;
+    bankAccount: CanadianBankAccount;
+    remittance?: string;
+    // The cash account the money leaves from, for ledger postings on return
+    ledgerAccount?: string;
+    approvedBy?: string;
+  }) {
+    validateBankAccount(params.bankAccount);
+    const amount = new Decimal(params.amount).toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+    if (amount.lte(0)) {
+      throw new Error('Payout amount must be positive');
+    }
+
+    const payout = await prisma.eftPayout.create({
+      data: {
+        reference: payoutReference(),
+        source: params.source,
+        sourceId: params.sourceId,
+        recipientId: params.recipientId,
+        recipientName: params.recipientName,
+        amount,
+        currency: params.currency || 'CAD',
+        institutionNumber: params.bankAccount.institutionNumber,
+        transitNumber: params.bankAccount.transitNumber,
+        accountNumber: params.bankAccount.accountNumber,
+        remittance: params.remittance,
+        ledgerAccount: params.ledgerAccount || LedgerAccounts.trustCash,
+        attempt: 1,
+        status: params.approvedBy ? 'APPROVED' : 'PENDING_APPROVAL',
+        approvedBy: params.approvedBy,
+        approvedAt: params.approvedBy ? new Date() : null
+      }
+    });
+
+    logger.info(`EFT payout ${payout.reference} queued for ${params.recipientId}`, {
+      amount: amount.toFixed(2),
+      source: params.source,
+      status: payout.status
+    });
+
+    return payout;
+  }
+
+  static async approvePayout(payoutId: string, approvedBy: string) {
+    const payout = await prisma.eftPayout.findUnique({ where: { id: payoutId } });
+    if (!payout) {
+      throw new Error('Payout not found');
+    }
+    if (payout.status !== 'PENDING_APPROVAL') {
+      throw new Error(`Payout is ${payout.status.toLowerCase()}, not awaiting approval`);
+    }
+
+    return prisma.eftPayout.update({
+      where: { id: payoutId },
+      data: { status: 'APPROVED', approvedBy, approvedAt: new Date() }
+    });
+  }
+
+  static async listPayouts(filters: { status?: PayoutStatus; recipientId?: string; batchId?: string }) {
+    return prisma.eftPayout.findMany({
+      where: {
+        ...(filters.status ? { status: filters.status } : {}),
+        ...(filters.recipientId ? { recipientId: filters.recipientId } : {}),
+        ...(filters.batchId ? { batchId: filters.batchId } : {})
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Gather every approved payout in a currency into one batch file
+   */
+  static async createBatch(params: {
+    format: PayoutFileFormat;
+    dueDate: Date;
+    createdBy: string;
+    currency?: string;
+    maxItems?: number;
+  }) {
+    const currency = params.currency || 'CAD';
+    const payouts = await prisma.eftPayout.findMany({
+      where: { status: 'APPROVED', currency },
+      orderBy: { createdAt: 'asc' },
+      ...(params.maxItems ? { take: params.maxItems } : {})
+    });
+
+    if (payouts.length === 0) {
+      throw new Error(`No approved ${currency} payouts to batch`);
+    }
+
+    // File creation numbers run 1-9999 per originator and then wrap
+    const last = await prisma.eftBatch.findFirst({ orderBy: { createdAt: 'desc' } });
+    const fileCreationNumber = last ? (last.fileCreationNumber % 9999) + 1 : 1;
+    const creationDate = new Date();
+
+    const fileParams = {
+      originator: originator(),
+      fileCreationNumber,
+      creationDate,
+      dueDate: params.dueDate,
+      currency,
+      items: payouts.map(payout => ({
+        reference: payout.reference,
+        payeeName: payout.recipientName,
+        amount: payout.amount.toString(),
+        account: {
+          institutionNumber: payout.institutionNumber,
+          transitNumber: payout.transitNumber,
+          accountNumber: payout.accountNumber
+        },
+        remittance: payout.remittance || undefined
+      }))
+    };
+
+    const content = params.format === 'CPA005'
+      ? buildCpa005File(fileParams)
+      : buildPain001File({ ...fileParams, messageId: `EFT${creationDate.getTime()}` });
+
+    const totalAmount = payouts.reduce((sum, payout) => sum.add(payout.amount.toString()), new Decimal(0));
+    const extension = params.format === 'CPA005' ? 'txt' : 'xml';
+
+    const batch = await prisma.eftBatch.create({
+      data: {
+        format: params.format,
+        fileCreationNumber,
+        fileName: `eft-${params.format.toLowerCase()}-${String(fileCreationNumber).padStart(4, '0')}.${extension}`,
+        fileContent: content,
+        checksum: crypto.createHash('sha256').update(content).digest('hex'),
+        currency,
+        itemCount: payouts.length,
+        totalAmount,
+        dueDate: params.dueDate,
+        status: 'GENERATED',
+        createdBy: params.createdBy
+      }
+    });
+
+    await prisma.eftPayout.updateMany({
+      where: { id: { in: payouts.map(payout => payout.id) } },
+      data: { status: 'BATCHED', batchId: batch.id }
+    });
+
+    logger.info(`EFT batch ${batch.fileName} generated`, {
+      items: payouts.length,
+      total: totalAmount.toFixed(2)
+    });
+
+    return batch;
+  }
+
+  static async getBatch(batchId: string) {
+    const batch = await prisma.eftBatch.findUnique({
+      where: { id: batchId },
+      include: { payouts: true }
+    });
+    if (!batch) {
+      throw new Error('Batch not found');
+    }
+    return batch;
+  }
+
+  /**
+   * The file has been uploaded to the bank
+   */
+  static async markBatchSubmitted(batchId: string, submittedBy: string) {
+    const batch = await this.getBatch(batchId);
+    if (batch.status !== 'GENERATED') {
+      throw new Error(`Batch is already ${batch.status.toLowerCase()}`);
+    }
+
+    await prisma.eftPayout.updateMany({
+      where: { batchId, status: 'BATCHED' },
+      data: { status: 'SUBMITTED' }
+    });
+
+    return prisma.eftBatch.update({
+      where: { id: batchId },
+      data: { status: 'SUBMITTED', submittedAt: new Date(), submittedBy }
+    });
+  }
+
+  /**
+   * The bank has settled the batch. Items returned later are handled by
+   * ingestReturnFile
+   */
+  static async markBatchSettled(batchId: string) {
+    const batch = await this.getBatch(batchId);
+    if (batch.status !== 'SUBMITTED') {
+      throw new Error('Only submitted batches can be settled');
+    }
+
+    const paidAt = new Date();
+    for (const payout of batch.payouts.filter(p => p.status === 'SUBMITTED')) {
+      await prisma.eftPayout.update({
+        where: { id: payout.id },
+        data: { status: 'PAID', paidAt }
+      });
+
+      // First attempts were booked by the disbursing flow; a retry pays again
+      // what the return put back on the books
+      if (payout.attempt > 1) {
+        await LedgerService.postDisbursement({
+          source: 'eft_payout',
+          sourceId: payout.id,
+          recipientId: payout.recipientId,
+          amount: payout.amount.toString(),
+          fromAccount: payout.ledgerAccount,
+          currency: payout.currency
+        });
+      }
+    }
+
+    return prisma.eftBatch.update({
+      where: { id: batchId },
+      data: { status: 'SETTLED', settledAt: paidAt }
+    });
+  }
+
+  /**
+   * Apply a bank return file. Each returned payout is marked, its amount
+   * posted back to the ledger, and a follow-up payout queued
+   */
+  static async ingestReturnFile(params: { format: ReturnFileFormat; content: string; ingestedBy: string }) {
+    const contentHash = crypto.createHash('sha256').update(params.content).digest('hex');
+    const existing = await prisma.eftReturnFile.findUnique({ where: { contentHash } });
+    if (existing) {
+      throw new Error(`Return file already ingested as ${existing.id}`);
+    }
+
+    const items = parseReturnFile(params.format, params.content);
+    const results: Array<{ reference: string; status: string; reasonCode: string; requeuedAs?: string }> = [];
+
+    for (const item of items) {
+      const payout = await prisma.eftPayout.findUnique({ where: { reference: item.reference } });
+
+      if (!payout) {
+        logger.warn(`EFT return for unknown payout ${item.reference}`);
+        results.push({ reference: item.reference, status: 'UNKNOWN', reasonCode: item.reasonCode });
+        continue;
+      }
+      if (payout.status === 'RETURNED') {
+        results.push({ reference: item.reference, status: 'ALREADY_RETURNED', reasonCode: item.reasonCode });
+        continue;
+      }
+      if (!item.amount.eq(payout.amount.toString())) {
+        logger.warn(`EFT return amount ${item.amount.toFixed(2)} differs from payout ${payout.reference}`);
+      }
+
+      await prisma.eftPayout.update({
+        where: { id: payout.id },
+        data: {
+          status: 'RETURNED',
+          returnCode: item.reasonCode,
+          returnReason: item.reason,
+          returnedAt: new Date()
+        }
+      });
+
+      await LedgerService.postPayoutReturned({
+        payoutId: payout.id,
+        recipientId: payout.recipientId,
+        amount: payout.amount.toString(),
+        toAccount: payout.ledgerAccount,
+        reasonCode: item.reasonCode,
+        currency: payout.currency
+      });
+
+      const retry = await this.queueRetry(payout, item.retryable);
+      results.push({
+        reference: item.reference,
+        status: 'RETURNED',
+        reasonCode: item.reasonCode,
+        requeuedAs: retry.reference
+      });
+    }
+
+    await prisma.eftReturnFile.create({
+      data: {
+        format: params.format,
+        contentHash,
+        itemCount: items.length,
+        ingestedBy: params.ingestedBy
+      }
+    });
+
+    logger.info(`EFT return file ingested: ${items.length} returned item(s)`);
+
+    return { returned: results.filter(r => r.status === 'RETURNED').length, items: results };
+  }
+
+  /**
+   * Release a held payout, usually after the payee updated their bank details
+   */
+  static async requeuePayout(payoutId: string, params: { requeuedBy: string; bankAccount?: CanadianBankAccount }) {
+    const payout = await prisma.eftPayout.findUnique({ where: { id: payoutId } });
+    if (!payout) {
+      throw new Error('Payout not found');
+    }
+    if (payout.status !== 'ON_HOLD') {
+      throw new Error('Only held payouts can be re-queued');
+    }
+    if (params.bankAccount) {
+      validateBankAccount(params.bankAccount);
+    }
+
+    return prisma.eftPayout.update({
+      where: { id: payoutId },
+      data: {
+        ...(params.bankAccount ? {
+          institutionNumber: params.bankAccount.institutionNumber,
+          transitNumber: params.bankAccount.transitNumber,
+          accountNumber: params.bankAccount.accountNumber
+        } : {}),
+        status: 'APPROVED',
+        approvedBy: params.requeuedBy,
+        approvedAt: new Date()
+      }
+    });
+  }
+
+  // Temporary failures go straight back in the queue; anything else, or too
+  // many attempts, waits on hold for a person to fix the payee's details
+  private static async queueRetry(payout: any, retryable: boolean) {
+    const autoRetry = retryable && payout.attempt < MAX_ATTEMPTS;
+
+    const retry = await prisma.eftPayout.create({
+      data: {
+        reference: payoutReference(),
+        source: payout.source,
+        sourceId: payout.sourceId,
+        recipientId: payout.recipientId,
+        recipientName: payout.recipientName,
+        amount: payout.amount,
+        currency: payout.currency,
+        institutionNumber: payout.institutionNumber,
+        transitNumber: payout.transitNumber,
+        accountNumber: payout.accountNumber,
+        remittance: payout.remittance,
+        ledgerAccount: payout.ledgerAccount,
+        attempt: payout.attempt + 1,
+        previousPayoutId: payout.id,
+        status: autoRetry ? 'APPROVED' : 'ON_HOLD',
+        approvedBy: autoRetry ? 'system' : null,
+        approvedAt: autoRetry ? new Date() : null
+      }
+    });
+
+    logger.info(`EFT payout ${payout.reference} ${autoRetry ? 're-queued' : 'held'} as ${retry.reference}`);
+    return retry;
+  }
+}
@@ -0,0 +1,82 @@
+import { logger } from '../utils/logger';
+import { prisma } from '../config/database';
+import { nextEvent, verifyChain, ChainEvent, ChainVerification } from '../utils/hash-chain';
+
+/**
+ * Escrow Event Chains
+ * One append-only, hash-chained log per escrow account or security
+ * deposit. Payment certificates are anchored to these chains, and lenders
+ * get a copy to check offline. Events are never updated or deleted
+ */
+
+export type ChainSubject = 'universal_escrow' | 'security_deposit';
+
+// Two appends racing for the same sequence: the loser rereads the head
+const MAX_APPEND_ATTEMPTS = 3;
+
+function toChainEvent(row: any): ChainEvent {
+  return {
+    chainId: row.chainId,
+    sequence: row.sequence,
+    type: row.type,
+    payload: row.payload as Record<string, unknown>,
+    occurredAt: new Date(row.occurredAt).toISOString(),
+    prevHash: row.prevHash,
+    hash: row.hash
+  };
+}
+
+export class EscrowChainService {
+  static chainId(subject: ChainSubject, id: string): string {
+    return `${subject}:${id}`;
+  }
+
+  static async append(
+    chainId: string,
+    type: string,
+    payload: Record<string, unknown>,
+    occurredAt: Date = new Date()
+  ): Promise<ChainEvent> {
+    for (let attempt = 1; ; attempt++) {
+      const head = await this.head(chainId);
+      const event = nextEvent(head, { chainId, type, payload, occurredAt: occurredAt.toISOString() });
+
+      try {
+        // Unique on (chainId, sequence), so a concurrent append cannot fork the chain
+        await prisma.escrowChainEvent.create({
+          data: { ...event, payload: event.payload as any, occurredAt }
+        });
+        return event;
+      } catch (error: any) {
+        if (error.code !== 'P2002' || attempt >= MAX_APPEND_ATTEMPTS) {
+          throw error;
+        }
+        logger.warn(`Escrow chain ${chainId} append raced at sequence ${event.sequence}; retrying`);
+      }
+    }
+  }
+
+  static async head(chainId: string): Promise<ChainEvent | null> {
+    const row = await prisma.escrowChainEvent.findFirst({
+      where: { chainId },
+      orderBy: { sequence: 'desc' }
+    });
+    return row ? toChainEvent(row) : null;
+  }
+
+  static async getChain(chainId: string, throughSequence?: number): Promise<ChainEvent[]> {
+    const rows = await prisma.escrowChainEvent.findMany({
+      where: { chainId, ...(throughSequence ? { sequence: { lte: throughSequence } } : {}) },
+      orderBy: { sequence: 'asc' }
+    });
+    return rows.map(toChainEvent);
+  }
+
+  static async verify(chainId: string): Promise<ChainVerification> {
+    const result = verifyChain(await this.getChain(chainId), chainId);
+    if (!result.valid) {
+      logger.error(`ESCROW CHAIN INTEGRITY FAILURE: ${chainId}`, result.error);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,369 @@
+import Decimal from 'decimal.js';
+import axios from 'axios';
+import { logger } from '../utils/logger';
+import { prisma } from '../config/database';
+import {
+  convertAmount,
+  findRate,
+  normalizeCurrency,
+  parseRateFile,
+  realizedGainLoss,
+  revalueOpenItems,
+  FxRate,
+  OpenFxItem,
+  RateFileFormat,
+  ResolvedRate,
+  DEFAULT_MAX_RATE_AGE_DAYS,
+  FUNCTIONAL_CURRENCY
+} from '../utils/fx';
+
+/**
+ * Foreign Exchange
+ * Daily rates from a pluggable source (Bank of Canada by default, or files
+ * imported offline), conversions locked at transaction time, and the
+ * realized and unrealized FX gain-loss report in CAD
+ */
+
+export interface FxRateSource {
+  readonly name: string;
+  fetchRates(from: Date, to: Date): Promise<FxRate[]>;
+}
+
+export type FxLockStatus = 'LOCKED' | 'USED' | 'EXPIRED';
+
+const LOCK_MINUTES = parseInt(process.env.FX_LOCK_MINUTES || '15', 10);
+const MAX_RATE_AGE_DAYS = parseInt(process.env.FX_MAX_RATE_AGE_DAYS || String(DEFAULT_MAX_RATE_AGE_DAYS), 10);
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Bank of Canada daily exchange rates through the Valet API. Every series
+ * is quoted against CAD
+ */
+export class BankOfCanadaRateSource implements FxRateSource {
+  readonly name = 'BANK_OF_CANADA';
+  private readonly apiUrl = process.env.BOC_VALET_URL || 'https://www.bankofcanada.ca/valet';
+
+  async fetchRates(from: Date, to: Date): Promise<FxRate[]> {
+    const response = await axios.get(`${this.apiUrl}/observations/group/FX_RATES_DAILY/json`, {
+      params: { start_date: isoDate(from), end_date: isoDate(to) },
+      timeout: 10000
+    });
+    return parseRateFile(JSON.stringify(response.data), 'boc_valet_json', this.name);
+  }
+}
+
+export class FxService {
+  private static sources = new Map<string, FxRateSource>([['BANK_OF_CANADA', new BankOfCanadaRateSource()]]);
+
+  static registerSource(source: FxRateSource): void {
+    this.sources.set(source.name.toUpperCase(), source);
+  }
+
+  /**
+   * Pull the last few days of rates from the configured source
+   * (FX_RATE_SOURCE) so weekends and holidays are covered
+   */
+  static async refreshRates(sourceName = process.env.FX_RATE_SOURCE || 'BANK_OF_CANADA'): Promise<{ source: string; stored: number }> {
+    const source = this.sources.get(sourceName.toUpperCase());
+    if (!source) {
+      throw new Error(`Unknown FX rate source: ${sourceName}`);
+    }
+
+    const to = new Date();
+    const from = new Date(to.getTime() - MAX_RATE_AGE_DAYS * 24 * 60 * 60 * 1000);
+    const rates = await source.fetchRates(from, to);
+    const stored = await this.storeRates(rates);
+
+    logger.info(`FX rates refreshed from ${source.name}: ${stored} rates`);
+    return { source: source.name, stored };
+  }
+
+  /**
+   * Load rates from a file, for offline operation or rates the source does
+   * not publish
+   */
+  static async importRates(content: string, format: RateFileFormat, importedBy: string): Promise<{ stored: number }> {
+    const rates = parseRateFile(content, format, 'FILE');
+    if (rates.length === 0) {
+      throw new Error('Rate file contains no rates');
+    }
+
+    const stored = await this.storeRates(rates, importedBy);
+    logger.info(`FX rate file imported by ${importedBy}: ${stored} rates`);
+    return { stored };
+  }
+
+  /**
+   * The rate to convert `from` into `to` on a date (today by default)
+   */
+  static async getRate(from: string, to: string, date: Date = new Date()): Promise<ResolvedRate> {
+    const base = normalizeCurrency(from);
+    const quote = normalizeCurrency(to);
+    const day = isoDate(date);
+
+    if (base === quote) {
+      return findRate([], base, quote, day);
+    }
+
+    const earliest = isoDate(new Date(date.getTime() - MAX_RATE_AGE_DAYS * 24 * 60 * 60 * 1000));
+    const currencies = Array.from(new Set([base, quote, FUNCTIONAL_CURRENCY]));
+    const rows = await prisma.fxRate.findMany({
+      where: {
+        base: { in: currencies },
+        quote: { in: currencies },
+        date: { gte: earliest, lte: day }
+      }
+    });
+
+    return findRate(rows.map((row: any) => ({
+      base: row.base,
+      quote: row.quote,
+      rate: row.rate.toString(),
+      date: row.date,
+      source: row.source
+    })), base, quote, day, MAX_RATE_AGE_DAYS);
+  }
+
+  static async getRates(date: Date = new Date()): Promise<any[]> {
+    const day = isoDate(date);
+    const latest = await prisma.fxRate.findFirst({
+      where: { date: { lte: day } },
+      orderBy: { date: 'desc' }
+    });
+    if (!latest) {
+      return [];
+    }
+    return prisma.fxRate.findMany({ where: { date: latest.date }, orderBy: [{ base: 'asc' }, { quote: 'asc' }] });
+  }
+
+  /**
+   * Quote a conversion and hold the rate for FX_LOCK_MINUTES, so the amount
+   * a payer sees is the amount booked
+   */
+  static async lockRate(params: {
+    from: string;
+    to: string;
+    amount: Decimal.Value;
+    purpose: string;
+    referenceId?: string;
+    lockedBy: string;
+  }): Promise<any> {
+    const rate = await this.getRate(params.from, params.to);
+
+    const lock = await prisma.fxRateLock.create({
+      data: {
+        base: rate.base,
+        quote: rate.quote,
+        rate: rate.rate,
+        rateDate: rate.date,
+        source: rate.source,
+        amount: new Decimal(params.amount),
+        convertedAmount: convertAmount(params.amount, rate.rate, rate.quote),
+        purpose: params.purpose,
+        referenceId: params.referenceId,
+        status: 'LOCKED',
+        expiresAt: new Date(Date.now() + LOCK_MINUTES * 60 * 1000),
+        lockedBy: params.lockedBy
+      }
+    });
+
+    logger.info(`FX rate locked: ${rate.base}/${rate.quote} ${rate.rate.toString()} for ${params.purpose}`, { lockId: lock.id });
+    return lock;
+  }
+
+  /**
+   * Spend a lock on the transaction it was quoted for. A lock is used once
+   * and only before it expires
+   */
+  static async useLock(lockId: string, expected: { from: string; to: string; referenceId?: string }): Promise<ResolvedRate> {
+    const lock = await prisma.fxRateLock.findUnique({ where: { id: lockId } });
+    if (!lock) {
+      throw new Error('FX rate lock not found');
+    }
+    if (lock.base !== normalizeCurrency(expected.from) || lock.quote !== normalizeCurrency(expected.to)) {
+      throw new Error(`FX rate lock is for ${lock.base}/${lock.quote}`);
+    }
+    if (lock.status !== 'LOCKED') {
+      throw new Error(`FX rate lock is ${lock.status.toLowerCase()}`);
+    }
+    if (lock.expiresAt < new Date()) {
+      await prisma.fxRateLock.update({ where: { id: lockId }, data: { status: 'EXPIRED' } });
+      throw new Error('FX rate lock has expired');
+    }
+
+    // Conditional update so two transactions cannot spend the same lock
+    const { count } = await prisma.fxRateLock.updateMany({
+      where: { id: lockId, status: 'LOCKED' },
+      data: { status: 'USED', usedAt: new Date(), referenceId: expected.referenceId || lock.referenceId }
+    });
+    if (count === 0) {
+      throw new Error('FX rate lock was already used');
+    }
+
+    return { base: lock.base, quote: lock.quote, rate: new Decimal(lock.rate.toString()), date: lock.rateDate, source: lock.source };
+  }
+
+  /**
+   * CAD value of a foreign amount at transaction time: through the caller's
+   * lock when given, otherwise at the day's rate
+   */
+  static async toFunctional(
+    amount: Decimal.Value,
+    currency: string,
+    options: { lockId?: string; referenceId?: string; date?: Date } = {}
+  ): Promise<{ currency: string; rate: Decimal; rateDate: string; functionalAmount: Decimal }> {
+    const from = normalizeCurrency(currency);
+    const rate = options.lockId
+      ? await this.useLock(options.lockId, { from, to: FUNCTIONAL_CURRENCY, referenceId: options.referenceId })
+      : await this.getRate(from, FUNCTIONAL_CURRENCY, options.date);
+
+    return {
+      currency: from,
+      rate: rate.rate,
+      rateDate: rate.date,
+      functionalAmount: convertAmount(amount, rate.rate, FUNCTIONAL_CURRENCY)
+    };
+  }
+
+  /**
+   * Book the CAD difference when a foreign-currency item settles at a
+   * different rate than it was booked at
+   */
+  static async recordRealization(params: {
+    businessId: string;
+    sourceType: string;
+    sourceId: string;
+    currency: string;
+    amount: Decimal.Value;
+    bookedRate: Decimal.Value;
+    settledRate: Decimal.Value;
+    side: 'receivable' | 'payable';
+    realizedAt?: Date;
+  }): Promise<any> {
+    const gainLoss = realizedGainLoss(params);
+
+    return prisma.fxRealization.create({
+      data: {
+        businessId: params.businessId,
+        sourceType: params.sourceType,
+        sourceId: params.sourceId,
+        currency: normalizeCurrency(params.currency),
+        amount: new Decimal(params.amount),
+        bookedRate: new Decimal(params.bookedRate),
+        settledRate: new Decimal(params.settledRate),
+        side: params.side,
+        gainLoss,
+        realizedAt: params.realizedAt || new Date()
+      }
+    });
+  }
+
+  /**
+   * Realized gain-loss booked in the period and unrealized gain-loss on
+   * what is still open at `asOf`: foreign-currency invoices a business
+   * issued and, for the platform view, escrow accounts held in them
+   */
+  static async getGainLossReport(params: {
+    businessId?: string;
+    periodStart: Date;
+    periodEnd: Date;
+    asOf?: Date;
+  }) {
+    const asOf = params.asOf || params.periodEnd;
+
+    const [realizations, invoices, escrows] = await Promise.all([
+      prisma.fxRealization.findMany({
+        where: {
+          ...(params.businessId ? { businessId: params.businessId } : {}),
+          realizedAt: { gte: params.periodStart, lte: params.periodEnd }
+        }
+      }),
+      prisma.invoice.findMany({
+        where: {
+          ...(params.businessId ? { vendorId: params.businessId } : {}),
+          currency: { not: FUNCTIONAL_CURRENCY },
+          status: { in: ['SENT', 'PARTIAL', 'OVERDUE'] },
+          issueDate: { lte: asOf }
+        },
+        select: { id: true, currency: true, balanceDue: true, fxRate: true }
+      }),
+      params.businessId ? Promise.resolve([]) : prisma.universalEscrowAccount.findMany({
+        where: { currency: { not: FUNCTIONAL_CURRENCY }, status: 'active' },
+        select: { id: true, currency: true, balance: true, fxRate: true }
+      })
+    ]);
+
+    const realizedByCurrency = new Map<string, Decimal>();
+    for (const realization of realizations) {
+      const total = realizedByCurrency.get(realization.currency) || new Decimal(0);
+      realizedByCurrency.set(realization.currency, total.add(realization.gainLoss.toString()));
+    }
+
+    const openItems: OpenFxItem[] = [
+      ...invoices.filter((invoice: any) => invoice.fxRate).map((invoice: any) => ({
+        id: invoice.id,
+        kind: 'invoice',
+        currency: invoice.currency,
+        amount: invoice.balanceDue.toString(),
+        bookedRate: invoice.fxRate.toString(),
+        side: 'receivable' as const
+      })),
+      // Escrow funds are owed onward, so the platform is short the currency
+      ...escrows.filter((escrow: any) => escrow.fxRate).map((escrow: any) => ({
+        id: escrow.id,
+        kind: 'escrow',
+        currency: escrow.currency,
+        amount: String(escrow.balance?.available || 0),
+        bookedRate: escrow.fxRate.toString(),
+        side: 'payable' as const
+      }))
+    ];
+
+    // Rates are loaded up front so the revaluation itself stays synchronous
+    const rates = new Map<string, ResolvedRate | Error>();
+    for (const currency of new Set(openItems.map(item => item.currency))) {
+      try {
+        rates.set(currency, await this.getRate(currency, FUNCTIONAL_CURRENCY, asOf));
+      } catch (error) {
+        rates.set(currency, error as Error);
+      }
+    }
+
+    const unrealized = revalueOpenItems(openItems, currency => {
+      const rate = rates.get(currency);
+      if (!rate || rate instanceof Error) throw rate;
+      return rate;
+    }, asOf);
+
+    const realizedTotal = Array.from(realizedByCurrency.values()).reduce((sum, value) => sum.add(value), new Decimal(0));
+
+    return {
+      businessId: params.businessId,
+      functionalCurrency: FUNCTIONAL_CURRENCY,
+      periodStart: params.periodStart.toISOString(),
+      periodEnd: params.periodEnd.toISOString(),
+      realized: {
+        currencies: Array.from(realizedByCurrency, ([currency, gainLoss]) => ({ currency, gainLoss: gainLoss.toFixed(2) })),
+        count: realizations.length,
+        total: realizedTotal.toFixed(2)
+      },
+      unrealized,
+      total: realizedTotal.add(unrealized.total).toFixed(2)
+    };
+  }
+
+  private static async storeRates(rates: FxRate[], importedBy?: string): Promise<number> {
+    for (const rate of rates) {
+      const key = { base: rate.base, quote: rate.quote, date: rate.date };
+      await prisma.fxRate.upsert({
+        where: { base_quote_date: key },
+        create: { ...key, rate: new Decimal(rate.rate), source: rate.source, importedBy },
+        update: { rate: new Decimal(rate.rate), source: rate.source, importedBy }
+      });
+    }
+    return rates.length;
+  }
+}
@@ -0,0 +1,744 @@
+import Decimal from 'decimal.js';
+import { logger } from '../utils/logger';
+import { prisma } from '../config/database';
+
+/**
+ * Double-Entry Ledger
+ * Every money movement in the payments service (payments, escrow, QuickPay,
+ * fees, refunds, dispute freezes) posts a balanced journal entry here, so
+ * balances can be proven from a single source instead of per-feature rows
+ */
+
+export type AccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+// Account names are `<type>:<category>[:<sub-account>]`; the leading segment
+// is the account type and decides which side is its normal balance
+export const LedgerAccounts = {
+  operatingCash: 'asset:cash:operating',
+  trustCash: 'asset:cash:trust',
+  providerClearing: (provider: string) => `asset:clearing:${provider.toLowerCase()}`,
+  quickPayReceivable: (contractId: string) => `asset:receivable:quick_pay:${contractId}`,
+  payable: (partyId: string) => `liability:payable:${partyId}`,
+  escrowHeld: (escrowId: string) => `liability:escrow:${escrowId}`,
+  escrowFrozen: (escrowId: string) => `liability:escrow_frozen:${escrowId}`,
+  disputeHold: (disputeId: string) => `liability:dispute_hold:${disputeId}`,
+  securityDeposit: (depositId: string) => `liability:security_deposit:${depositId}`,
+  platformFees: 'revenue:fees:platform',
+  escrowFees: 'revenue:fees:escrow',
+  transactionFees: 'revenue:fees:transaction',
+  quickPayFees: 'revenue:fees:quick_pay',
+  reconciliationWriteOff: 'expense:reconciliation:write_off'
+};
+
+export type LedgerSource =
+  | 'payment'
+  | 'refund'
+  | 'dispute'
+  | 'escrow'
+  | 'universal_escrow'
+  | 'security_deposit'
+  | 'quick_pay'
+  | 'reconciliation'
+  | 'eft_payout';
+
+export interface LedgerLineInput {
+  account: string;
+  debit?: Decimal.Value;
+  credit?: Decimal.Value;
+  memo?: string;
+}
+
+export interface JournalEntryInput {
+  source: LedgerSource;
+  sourceId: string;
+  event: string;
+  description: string;
+  currency?: string;
+  lines: LedgerLineInput[];
+  effectiveAt?: Date;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AccountBalance {
+  account: string;
+  type: AccountType;
+  currency: string;
+  debit: string;
+  credit: string;
+  balance: string; // Signed on the account's normal side
+}
+
+export interface TrialBalance {
+  asOf: Date;
+  accounts: AccountBalance[];
+  totals: Record<string, { debit: string; credit: string; balanced: boolean }>;
+  balanced: boolean;
+}
+
+/**
+ * Raised when a subsystem tries to post, or the books contain, an entry whose
+ * debits and credits differ. Never caught and ignored: an unbalanced ledger
+ * means some money movement is unaccounted for
+ */
+export class LedgerInvariantError extends Error {
+  constructor(message: string, public details?: any) {
+    super(message);
+    this.name = 'LedgerInvariantError';
+  }
+}
+
+const ACCOUNT_TYPES: AccountType[] = ['asset', 'liability', 'equity', 'revenue', 'expense'];
+
+export function getAccountType(account: string): AccountType {
+  const type = account.split(':')[0] as AccountType;
+  if (!ACCOUNT_TYPES.includes(type)) {
+    throw new LedgerInvariantError(`Unknown account type for ${account}`);
+  }
+  return type;
+}
+
+function isDebitNormal(type: AccountType): boolean {
+  return type === 'asset' || type === 'expense';
+}
+
+/**
+ * Normalise and check an entry before it is written. Zero lines (e.g. a
+ * waived fee) are dropped; what remains must balance to the cent
+ */
+export function validateJournalEntry(input: JournalEntryInput): Array<{
+  account: string;
+  debit: Decimal;
+  credit: Decimal;
+  memo?: string;
+}> {
+  const lines = input.lines.map(line => {
+    getAccountType(line.account);
+    const debit = new Decimal(line.debit ?? 0);
+    const credit = new Decimal(line.credit ?? 0);
+
+    if (debit.isNegative() || credit.isNegative()) {
+      throw new LedgerInvariantError(`Negative amount on ${line.account}`, { line });
+    }
+    if (!debit.isZero() && !credit.isZero()) {
+      throw new LedgerInvariantError(`Line on ${line.account} has both a debit and a credit`, { line });
+    }
+    if (debit.decimalPlaces() > 2 || credit.decimalPlaces() > 2) {
+      throw new LedgerInvariantError(`Amount on ${line.account} is not in whole cents`, { line });
+    }
+
+    return { account: line.account, debit, credit, ...(line.memo ? { memo: line.memo } : {}) };
+  }).filter(line => !line.debit.isZero() || !line.credit.isZero());
+
+  if (lines.length < 2) {
+    throw new LedgerInvariantError('A journal entry needs at least two lines', {
+      source: input.source,
+      sourceId: input.sourceId,
+      event: input.event
+    });
+  }
+
+  const debits = lines.reduce((sum, line) => sum.add(line.debit), new Decimal(0));
+  const credits = lines.reduce((sum, line) => sum.add(line.credit), new Decimal(0));
+
+  if (!debits.eq(credits)) {
+    throw new LedgerInvariantError(
+      `Unbalanced journal entry from ${input.source} ${input.sourceId} (${input.event}): ` +
+      `debits ${debits.toFixed(2)} != credits ${credits.toFixed(2)}`,
+      { source: input.source, sourceId: input.sourceId, event: input.event, debits, credits }
+    );
+  }
+
+  return lines;
+}
+
+function toMoney(value: Decimal.Value): Decimal {
+  return new Decimal(value).toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+}
+
+export class LedgerService {
+  /**
+   * Post a journal entry. Posting is idempotent per source, source id and
+   * event, so a retried operation never double-counts
+   */
+  static async post(input: JournalEntryInput): Promise<any> {
+    let lines;
+    try {
+      lines = validateJournalEntry(input);
+    } catch (error) {
+      logger.error('LEDGER INVARIANT VIOLATION: rejected journal entry', {
+        source: input.source,
+        sourceId: input.sourceId,
+        event: input.event,
+        error: (error as Error).message
+      });
+      throw error;
+    }
+
+    const idempotencyKey = `${input.source}:${input.sourceId}:${input.event}`;
+    const existing = await prisma.ledgerJournalEntry.findUnique({
+      where: { idempotencyKey },
+      include: { lines: true }
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const currency = input.currency || 'CAD';
+    let entry;
+    try {
+      entry = await prisma.ledgerJournalEntry.create({
+        data: {
+          idempotencyKey,
+          source: input.source,
+          sourceId: input.sourceId,
+          event: input.event,
+          description: input.description,
+          currency,
+          effectiveAt: input.effectiveAt || new Date(),
+          metadata: input.metadata as any,
+          lines: {
+            create: lines.map(line => ({
+              account: line.account,
+              accountType: getAccountType(line.account),
+              currency,
+              debit: line.debit.toFixed(2),
+              credit: line.credit.toFixed(2),
+              memo: line.memo
+            }))
+          }
+        },
+        include: { lines: true }
+      });
+    } catch (error: any) {
+      // Unique on the idempotency key: a concurrent post of the same event
+      // got there first, and its entry is the one that counts
+      if (error.code !== 'P2002') {
+        throw error;
+      }
+      logger.warn(`Ledger entry ${idempotencyKey} posted concurrently; returning the existing entry`);
+      return prisma.ledgerJournalEntry.findUnique({
+        where: { idempotencyKey },
+        include: { lines: true }
+      });
+    }
+
+    logger.info(`Ledger entry posted: ${idempotencyKey}`, { entryId: entry.id });
+    return entry;
+  }
+
+  /**
+   * Balance of one account, per currency
+   */
+  static async getAccountBalance(account: string, asOf?: Date): Promise<AccountBalance[]> {
+    const rows = await prisma.ledgerLine.groupBy({
+      by: ['account', 'currency'],
+      where: {
+        account,
+        ...(asOf ? { journalEntry: { effectiveAt: { lte: asOf } } } : {})
+      },
+      _sum: { debit: true, credit: true }
+    });
+
+    return rows.map(row => this.toBalance(row));
+  }
+
+  /**
+   * Balances of every account under a prefix, e.g. `liability:escrow`
+   */
+  static async getBalances(prefix: string, asOf?: Date): Promise<AccountBalance[]> {
+    const rows = await prisma.ledgerLine.groupBy({
+      by: ['account', 'currency'],
+      where: {
+        account: { startsWith: prefix },
+        ...(asOf ? { journalEntry: { effectiveAt: { lte: asOf } } } : {})
+      },
+      _sum: { debit: true, credit: true },
+      orderBy: { account: 'asc' }
+    });
+
+    return rows.map(row => this.toBalance(row));
+  }
+
+  static async getTrialBalance(asOf: Date = new Date()): Promise<TrialBalance> {
+    const rows = await prisma.ledgerLine.groupBy({
+      by: ['account', 'currency'],
+      where: { journalEntry: { effectiveAt: { lte: asOf } } },
+      _sum: { debit: true, credit: true },
+      orderBy: { account: 'asc' }
+    });
+
+    const totals: Record<string, { debit: Decimal; credit: Decimal }> = {};
+    const accounts = rows.map(row => {
+      // Each account shows its net on one side only
+      const net = new Decimal(row._sum.debit ?? 0).sub(row._sum.credit ?? 0);
+      const total = totals[row.currency] || { debit: new Decimal(0), credit: new Decimal(0) };
+      if (net.isPositive()) total.debit = total.debit.add(net);
+      else total.credit = total.credit.add(net.abs());
+      totals[row.currency] = total;
+
+      return {
+        ...this.toBalance(row),
+        debit: net.isPositive() ? net.toFixed(2) : '0.00',
+        credit: net.isNegative() ? net.abs().toFixed(2) : '0.00'
+      };
+    });
+
+    const formatted = Object.fromEntries(Object.entries(totals).map(([currency, total]) => [
+      currency,
+      { debit: total.debit.toFixed(2), credit: total.credit.toFixed(2), balanced: total.debit.eq(total.credit) }
+    ]));
+
+    return {
+      asOf,
+      accounts,
+      totals: formatted,
+      balanced: Object.values(formatted).every(total => total.balanced)
+    };
+  }
+
+  /**
+   * Prove the books: every entry balances and the trial balance nets to zero.
+   * Throws LedgerInvariantError on any violation
+   */
+  static async verifyInvariants(): Promise<{ entriesChecked: number; trialBalance: TrialBalance }> {
+    const entries = await prisma.ledgerLine.groupBy({
+      by: ['journalEntryId', 'currency'],
+      _sum: { debit: true, credit: true }
+    });
+
+    const unbalanced = entries.filter(entry =>
+      !new Decimal(entry._sum.debit ?? 0).eq(entry._sum.credit ?? 0)
+    );
+
+    const trialBalance = await this.getTrialBalance();
+
+    if (unbalanced.length > 0 || !trialBalance.balanced) {
+      const details = {
+        unbalancedEntries: unbalanced.map(entry => ({
+          journalEntryId: entry.journalEntryId,
+          currency: entry.currency,
+          debit: entry._sum.debit?.toString(),
+          credit: entry._sum.credit?.toString()
+        })),
+        totals: trialBalance.totals
+      };
+      logger.error('LEDGER INVARIANT VIOLATION: books do not balance', details);
+      throw new LedgerInvariantError('Ledger does not balance', details);
+    }
+
+    return { entriesChecked: entries.length, trialBalance };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Postings for each subsystem
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Card/wallet payment captured by a provider. The provider keeps its
+   * processing fee; the payee is owed the rest less the platform fee
+   */
+  static async postPayment(params: {
+    paymentId: string;
+    provider: string;
+    payeeId: string;
+    amount: Decimal.Value;
+    processingFee: Decimal.Value;
+    platformFee: Decimal.Value;
+    currency?: string;
+  }): Promise<any> {
+    const amount = toMoney(params.amount);
+    const processingFee = toMoney(params.processingFee);
+    const platformFee = toMoney(params.platformFee);
+
+    return this.post({
+      source: 'payment',
+      sourceId: params.paymentId,
+      event: 'captured',
+      description: `Payment ${params.paymentId} captured`,
+      ...(params.currency ? { currency: params.currency } : {}),
+      lines: [
+        { account: LedgerAccounts.providerClearing(params.provider), debit: amount.sub(processingFee) },
+        { account: LedgerAccounts.payable(params.payeeId), credit: amount.sub(processingFee).sub(platformFee) },
+        { account: LedgerAccounts.platformFees, credit: platformFee }
+      ]
+    });
+  }
+
+  /**
+   * Refund returned through the provider, reducing what the payee is owed
+   */
+  static async postRefund(params: {
+    refundId: string;
+    paymentId: string;
+    provider: string;
+    payeeId: string;
+    amount: Decimal.Value;
+    currency?: string;
+  }): Promise<any> {
+    const amount = toMoney(params.amount);
+
+    return this.post({
+      source: 'refund',
+      sourceId: params.refundId,
+      event: 'refunded',
+      description: `Refund ${params.refundId} of payment ${params.paymentId}`,
+      ...(params.currency ? { currency: params.currency } : {}),
+      lines: [
+        { account: LedgerAccounts.payable(params.payeeId), debit: amount },
+        { account: LedgerAccounts.providerClearing(params.provider), credit: amount }
+      ]
+    });
+  }
+
+  /**
+   * Move the disputed amount out of the payee's balance until resolved
+   */
+  static async postDisputeFreeze(params: {
+    disputeId: string;
+    payeeId: string;
+    amount: Decimal.Value;
+    currency?: string;
+  }): Promise<any> {
+    const amount = toMoney(params.amount);
+
+    return this.post({
+      source: 'dispute',
+      sourceId: params.disputeId,
+      event: 'frozen',
+      description: `Funds frozen for dispute ${params.disputeId}`,
+      ...(params.currency ? { currency: params.currency } : {}),
+      lines: [
+        { account: LedgerAccounts.payable(params.payeeId), debit: amount },
+        { account: LedgerAccounts.disputeHold(params.disputeId), credit: amount }
+      ]
+    });
+  }
+
+  /**
+   * Settle frozen dispute funds split between the parties: the payer's
+   * share goes out through the provider, the rest back to the payee
+   */
+  static async postDisputeSettlement(params: {
+    disputeId: string;
+    payeeId: string;
+    provider: string;
+    toPayer: Decimal.Value;
+    toPayee: Decimal.Value;
+    currency?: string;
+  }): Promise<any> {
+    const toPayer = toMoney(params.toPayer);
+    const toPayee = toMoney(params.toPayee);
+
+    return this.post({
+      source: 'dispute',
+      sourceId: params.disputeId,
+      event: 'settled',
+      description: `Dispute ${params.disputeId} settled between the parties`,
+      ...(params.currency ? { currency: params.currency } : {}),
+      lines: [
+        { account: LedgerAccounts.disputeHold(params.disputeId), debit: toPayer.add(toPayee) },
+        { account: LedgerAccounts.providerClearing(params.provider), credit: toPayer },
+        { account: LedgerAccounts.payable(params.payeeId), credit: toPayee }
+      ]
+    });
+  }
+
+  /**
+   * Funds received into escrow trust, including any up-front escrow fee
+   */
+  static async postEscrowDeposit(params: {
+    source: 'escrow' | 'universal_escrow';
+    escrowId: string;
+    amount: Decimal.Value;
+    fee?: Decimal.Value;
+    reference?: string;
+    currency?: string;
+  }): Promise<any> {
+    const amount = toMoney(params.amount);
+    const fee = toMoney(params.fee ?? 0);
+
+    return this.post({
+      source: params.source,
+      sourceId: params.escrowId,
+      event: 'deposit',
+      description: `Escrow ${params.escrowId} funded`,
+      ...(params.currency ? { currency: params.currency } : {}),
+      metadata: { reference: params.reference },
+      lines: [
+        { account: LedgerAccounts.trustCash, debit: amount.add(fee) },
+        { account: LedgerAccounts.escrowHeld(params.escrowId), credit: amount },
+        { account: LedgerAccounts.escrowFees, credit: fee }
+      ]
+    });
+  }
+
+  /**
+   * Milestone release: the gross leaves escrow, fees are earned and the
+   * recipient is owed the net until it is disbursed
+   */
+  static async postMilestoneRelease(params: {
+    source: 'escrow' | 'universal_escrow';
+    escrowId: string;
+    milestoneId: string;
+    recipientId: string;
+    grossAmount: Decimal.Value;
+    transactionFee?: Decimal.Value;
+    quickPayFee?: Decimal.Value;
+    currency?: string;
+  }): Promise<any> {
+    const gross = toMoney(params.grossAmount);
+    const transactionFee = toMoney(params.transactionFee ?? 0);
+    const quickPayFee = toMoney(params.quickPayFee ?? 0);
+
+    return this.post({
+      source: params.source,
+      sourceId: params.escrowId,
+      event: `milestone_release:${params.milestoneId}`,
+      description: `Milestone ${params.milestoneId} released from escrow ${params.escrowId}`,
+      ...(params.currency ? { currency: params.currency } : {}),
+      lines: [
+        { account: LedgerAccounts.escrowHeld(params.escrowId), debit: gross },
+        { account: LedgerAccounts.transactionFees, credit: transactionFee },
+        { account: LedgerAccounts.quickPayFees, credit: quickPayFee },
+        { account: LedgerAccounts.payable(params.recipientId), credit: gross.sub(transactionFee).sub(quickPayFee) }
+      ]
+    });
+  }
+
+  /**
+   * Settle a disputed escrow: the claimant's award is paid out of the
+   * frozen funds and the rest goes back into the escrow
+   */
+  static async postEscrowDisputeSettlement(params: {
+    source: 'escrow' | 'universal_escrow';
+    escrowId: string;
+    disputeId: string;
+    claimantId: string;
+    toClaimant: Decimal.Value;
+    returnedToEscrow: Decimal.Value;
+    currency?: string;
+  }): Promise<any> {
+    const toClaimant = toMoney(params.toClaimant);
+    const returned = toMoney(params.returnedToEscrow);
+
+    return this.post({
+      source: params.source,
+      sourceId: params.escrowId,
+      event: `dispute_settled:${params.disputeId}`,
+      description: `Escrow ${params.escrowId} dispute ${params.disputeId} settled`,
+      ...(params.currency ? { currency: params.currency } : {}),
+      lines: [
+        { account: LedgerAccounts.escrowFrozen(params.escrowId), debit: toClaimant.add(returned) },
+        { account: LedgerAccounts.payable(params.claimantId), credit: toClaimant },
+        { account: LedgerAccounts.escrowHeld(params.escrowId), credit: returned }
+      ]
+    });
+  }
+
+  /**
+   * Freeze whatever an escrow still holds while it is disputed
+   */
+  static async postEscrowFreeze(params: {
+    source: 'escrow' | 'universal_escrow';
+    escrowId: string;
+    disputeId: string;
+    amount: Decimal.Value;
+    currency?: string;
+  }): Promise<any> {
+    const amount = toMoney(params.amount);
+
+    return this.post({
+      source: params.source,
+      sourceId: params.escrowId,
+      event: `frozen:${params.disputeId}`,
+      description: `Escrow ${params.escrowId} frozen by dispute ${params.disputeId}`,
+      ...(params.currency ? { currency: params.currency } : {}),
+      lines: [
+        { account: LedgerAccounts.escrowHeld(params.escrowId), debit: amount },
+        { account: LedgerAccounts.escrowFrozen(params.escrowId), credit: amount }
+      ]
+    });
+  }
+
+  static async postSecurityDepositHeld(params: {
+    depositId: string;
+    amount: Decimal.Value;
+    currency?: string;
+  }): Promise<any> {
+    const amount = toMoney(params.amount);
+
+    return this.post({
+      source: 'security_deposit',
+      sourceId: params.depositId,
+      event: 'held',
+      description: `Bid security deposit ${params.depositId} held`,
+      ...(params.currency ? { currency: params.currency } : {}),
+      lines: [
+        { account: LedgerAccounts.trustCash, debit: amount },
+        { account: LedgerAccounts.securityDeposit(params.depositId), credit: amount }
+      ]
+    });
+  }
+
+  /**
+   * A deposit leaves escrow either back to the bidder or forfeited to the buyer
+   */
+  static async postSecurityDepositSettled(params: {
+    depositId: string;
+    recipientId: string;
+    amount: Decimal.Value;
+    outcome: 'released' | 'forfeited';
+    currency?: string;
+  }): Promise<any> {
+    const amount = toMoney(params.amount);
+
+    return this.post({
+      source: 'security_deposit',
+      sourceId: params.depositId,
+      event: params.outcome,
+      description: `Bid security deposit ${params.depositId} ${params.outcome}`,
+      ...(params.currency ? { currency: params.currency } : {}),
+      lines: [
+        { account: LedgerAccounts.securityDeposit(params.depositId), debit: amount },
+        { account: LedgerAccounts.payable(params.recipientId), credit: amount }
+      ]
+    });
+  }
+
+  /**
+   * Money actually leaving the platform to settle what a party is owed
+   */
+  static async postDisbursement(params: {
+    source: LedgerSource;
+    sourceId: string;
+    recipientId: string;
+    amount: Decimal.Value;
+    fromAccount?: string;
+    currency?: string;
+  }): Promise<any> {
+    const amount = toMoney(params.amount);
+
+    return this.post({
+      source: params.source,
+      sourceId: params.sourceId,
+      event: 'disbursed',
+      description: `Disbursement to ${params.recipientId}`,
+      ...(params.currency ? { currency: params.currency } : {}),
+      lines: [
+        { account: LedgerAccounts.payable(params.recipientId), debit: amount },
+        { account: params.fromAccount || LedgerAccounts.trustCash, credit: amount }
+      ]
+    });
+  }
+
+  /**
+   * A bank returned an EFT payout: the cash is back and the recipient is
+   * owed again until a retry is paid
+   */
+  static async postPayoutReturned(params: {
+    payoutId: string;
+    recipientId: string;
+    amount: Decimal.Value;
+    toAccount: string;
+    reasonCode: string;
+    currency?: string;
+  }): Promise<any> {
+    const amount = toMoney(params.amount);
+
+    return this.post({
+      source: 'eft_payout',
+      sourceId: params.payoutId,
+      event: 'returned',
+      description: `EFT payout ${params.payoutId} returned (${params.reasonCode})`,
+      ...(params.currency ? { currency: params.currency } : {}),
+      lines: [
+        { account: params.toAccount, debit: amount },
+        { account: LedgerAccounts.payable(params.recipientId), credit: amount }
+      ]
+    });
+  }
+
+  /**
+   * QuickPay advances an invoice from platform cash before the buyer pays;
+   * the receivable is collected from the buyer later
+   */
+  static async postQuickPayAdvance(params: {
+    paymentRequestId: string;
+    contractId: string;
+    amount: Decimal.Value;
+    netAmount: Decimal.Value;
+    currency?: string;
+  }): Promise<any> {
+    const amount = toMoney(params.amount);
+    const net = toMoney(params.netAmount);
+
+    return this.post({
+      source: 'quick_pay',
+      sourceId: params.paymentRequestId,
+      event: 'advanced',
+      description: `QuickPay advance for contract ${params.contractId}`,
+      ...(params.currency ? { currency: params.currency } : {}),
+      lines: [
+        { account: LedgerAccounts.quickPayReceivable(params.contractId), debit: amount },
+        { account: LedgerAccounts.quickPayFees, credit: amount.sub(net) },
+        { account: LedgerAccounts.operatingCash, credit: net }
+      ]
+    });
+  }
+
+  /**
+   * Write off a reconciliation difference. A bank line nobody can explain
+   * moves operating cash; a payment the bank never settled clears the
+   * provider's clearing account
+   */
+  static async postReconciliationWriteOff(params: {
+    writeOffId: string;
+    amount: Decimal.Value;
+    direction: 'CREDIT' | 'DEBIT';
+    provider?: string;
+    reason: string;
+    currency?: string;
+  }): Promise<any> {
+    const amount = toMoney(params.amount);
+    const counterAccount = params.provider
+      ? LedgerAccounts.providerClearing(params.provider)
+      : LedgerAccounts.operatingCash;
+    // CREDIT is unexplained money in; DEBIT is money out, or a settlement that never came
+    const [debitAccount, creditAccount] = params.direction === 'CREDIT'
+      ? [counterAccount, LedgerAccounts.reconciliationWriteOff]
+      : [LedgerAccounts.reconciliationWriteOff, counterAccount];
+
+    return this.post({
+      source: 'reconciliation',
+      sourceId: params.writeOffId,
+      event: 'written_off',
+      description: `Reconciliation write-off: ${params.reason}`,
+      ...(params.currency ? { currency: params.currency } : {}),
+      lines: [
+        { account: debitAccount, debit: amount },
+        { account: creditAccount, credit: amount }
+      ]
+    });
+  }
+
+  private static toBalance(row: {
+    account: string;
+    currency: string;
+    _sum: { debit: Decimal.Value | null; credit: Decimal.Value | null };
+  }): AccountBalance {
+    const type = getAccountType(row.account);
+    const debit = new Decimal(row._sum.debit ?? 0);
+    const credit = new Decimal(row._sum.credit ?? 0);
+    const balance = isDebitNormal(type) ? debit.sub(credit) : credit.sub(debit);
+
+    return {
+      account: row.account,
+      type,
+      currency: row.currency,
+      debit: debit.toFixed(2),
+      credit: credit.toFixed(2),
+      balance: balance.toFixed(2)
+    };
+  }
+}
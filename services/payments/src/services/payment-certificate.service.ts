@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { prisma } from '../config/database';
+import { EscrowChainService } from './escrow-chain.service';
+import {
+  keyIdFor,
+  signCertificate,
+  verifyCertificateBundle,
+  CertificateBody,
+  CertificateBundle,
+  CertificateVerification,
+  SignedCertificate,
+  CERTIFICATE_ALGORITHM
+} from '../utils/payment-certificates';
+
+/**
+ * Payment Certificates
+ * Issues signed certificates anchored to an escrow's event chain and
+ * verifies them for lenders, either from the certificate number or from a
+ * bundle the lender already holds. The same checks run offline in
+ * scripts/verify-certificate.ts
+ */
+
+export type CertificateStatus = 'ACTIVE' | 'REVOKED';
+
+export interface CertificateCheckResult extends CertificateVerification {
+  certificateNumber: string;
+  escrowId?: string;
+  status?: CertificateStatus;
+  issuedByUs: boolean;
+}
+
+export class PaymentCertificateService {
+  private static signingKey: string | null = null;
+
+  /**
+   * The Ed25519 private key (PEM) from PAYMENT_CERTIFICATE_SIGNING_KEY.
+   * Outside production a throwaway key is made so local escrows still get
+   * certificates; nothing signed with it verifies after a restart
+   */
+  private static signingKeyPem(): string {
+    if (this.signingKey) {
+      return this.signingKey;
+    }
+
+    const configured = process.env.PAYMENT_CERTIFICATE_SIGNING_KEY;
+    if (configured) {
+      this.signingKey = configured.replace(/\\n/g, '\n');
+    } else if (process.env.NODE_ENV === 'production') {
+      throw new Error('PAYMENT_CERTIFICATE_SIGNING_KEY is not configured');
+    } else {
+      logger.warn('PAYMENT_CERTIFICATE_SIGNING_KEY not set; signing certificates with a temporary key');
+      this.signingKey = crypto.generateKeyPairSync('ed25519')
+        .privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+    }
+    return this.signingKey;
+  }
+
+  /**
+   * The key lenders verify certificates with; published so they can keep
+   * their own copy
+   */
+  static publicKey(): { keyId: string; algorithm: string; publicKey: string } {
+    const publicKey = crypto.createPublicKey(this.signingKeyPem()).export({ type: 'spki', format: 'pem' }).toString();
+    return { keyId: keyIdFor(publicKey), algorithm: CERTIFICATE_ALGORITHM, publicKey };
+  }
+
+  /**
+   * Sign a certificate on top of the escrow chain's current head, then
+   * record the issue on the chain itself
+   */
+  static async issue(params: Omit<CertificateBody, 'anchor' | 'issuedAt'>): Promise<SignedCertificate> {
+    const chainId = EscrowChainService.chainId('universal_escrow', params.escrowId);
+    const head = await EscrowChainService.head(chainId);
+    if (!head) {
+      throw new Error(`Escrow ${params.escrowId} has no event chain to anchor a certificate to`);
+    }
+
+    const signed = signCertificate({
+      ...params,
+      issuedAt: new Date().toISOString(),
+      anchor: { chainId, sequence: head.sequence, hash: head.hash }
+    }, this.signingKeyPem());
+
+    await EscrowChainService.append(chainId, 'certificate_issued', {
+      certificateNumber: params.certificateNumber,
+      digest: signed.digest,
+      keyId: signed.keyId
+    });
+
+    logger.info(`Payment certificate ${params.certificateNumber} signed at ${chainId}#${head.sequence}`);
+    return signed;
+  }
+
+  /**
+   * The certificate with its escrow chain as it stands now, for a lender
+   * to keep and verify offline
+   */
+  static async getBundle(certificateNumber: string): Promise<CertificateBundle> {
+    const record = await this.load(certificateNumber);
+    const certificate = record.signedCertificate as SignedCertificate;
+
+    return {
+      certificate,
+      chain: await EscrowChainService.getChain(certificate.body.anchor.chainId)
+    };
+  }
+
+  static async verifyByNumber(certificateNumber: string): Promise<CertificateCheckResult> {
+    const record = await this.load(certificateNumber);
+    const bundle = await this.getBundle(certificateNumber);
+    return this.withStatus(verifyCertificateBundle(bundle, this.publicKey().publicKey), record, true);
+  }
+
+  /**
+   * Check a bundle a lender was handed: it must verify on its own, and be
+   * a certificate we actually issued with that exact content
+   */
+  static async verifyBundle(bundle: CertificateBundle): Promise<CertificateCheckResult> {
+    if (!bundle?.certificate?.body || !Array.isArray(bundle.chain)) {
+      throw new Error('A bundle needs a certificate and its escrow chain');
+    }
+
+    const result = verifyCertificateBundle(bundle, this.publicKey().publicKey);
+    const record = await prisma.paymentCertificate.findUnique({
+      where: { certificateNumber: bundle.certificate.body.certificateNumber }
+    });
+
+    const issuedByUs = Boolean(record) && record.digest === bundle.certificate.digest;
+    if (!issuedByUs) {
+      result.valid = false;
+      result.errors.push('No certificate with this number and content was issued by the platform');
+    }
+
+    return this.withStatus(result, record, issuedByUs, bundle.certificate.body.certificateNumber);
+  }
+
+  static async revoke(certificateNumber: string, reason: string, revokedBy: string): Promise<any> {
+    const record = await this.load(certificateNumber);
+    if (record.status === 'REVOKED') {
+      return record;
+    }
+
+    const updated = await prisma.paymentCertificate.update({
+      where: { certificateNumber },
+      data: { status: 'REVOKED', revokedAt: new Date(), revokedReason: reason, revokedBy }
+    });
+
+    // Offline holders see the revocation the next time they refresh the chain
+    await EscrowChainService.append(
+      EscrowChainService.chainId('universal_escrow', record.escrowId),
+      'certificate_revoked',
+      { certificateNumber, reason }
+    );
+    return updated;
+  }
+
+  private static withStatus(
+    result: CertificateVerification,
+    record: any,
+    issuedByUs: boolean,
+    certificateNumber = record?.certificateNumber
+  ): CertificateCheckResult {
+    // A bundle downloaded before the revocation does not show it
+    if (record?.status === 'REVOKED' && result.checks.notRevoked) {
+      result.valid = false;
+      result.checks.notRevoked = false;
+      result.errors.push(`Certificate revoked: ${record.revokedReason}`);
+    }
+    return {
+      ...result,
+      certificateNumber,
+      escrowId: record?.escrowId,
+      status: record?.status,
+      issuedByUs
+    };
+  }
+
+  private static async load(certificateNumber: string): Promise<any> {
+    const record = await prisma.paymentCertificate.findUnique({ where: { certificateNumber } });
+    if (!record) {
+      throw new Error('Payment certificate not found');
+    }
+    return record;
+  }
+}
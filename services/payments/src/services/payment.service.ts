@@ -1,9 +1,4 @@
 import { PrismaClient } from '@prisma/client';
-import Stripe from 'stripe';
-import { Client, Environment } from 'square';
-import * as paypal from '@paypal/checkout-server-sdk';
-import braintree from 'braintree';
-import Razorpay from 'razorpay';
 import Decimal from 'decimal.js';
 import Currency from 'currency.js';
 import { Redis } from 'ioredis';
@@ -11,46 +6,16 @@ import winston from 'winston';
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
 import { addDays, format, startOfMonth, endOfMonth } from 'date-fns';
+import { LedgerService } from './ledger.service';
+import { FxService } from './fx.service';
+import { DisputeService } from './dispute.service';
+import { BankReconciliationService } from './bank-reconciliation.service';
+import { providerRegistry, SANDBOX_PROVIDER } from '../providers';
+import { ProviderEvent } from '../types/payment.types';
 
 const prisma = new PrismaClient();
 const redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
 
-// Payment provider clients
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
-  apiVersion: '2023-10-16'
-});
-
-const squareClient = new Client({
-  accessToken: process.env.SQUARE_ACCESS_TOKEN || '',
-  environment: process.env.NODE_ENV === 'production' ? Environment.Production : Environment.Sandbox
-});
-
-const paypalClient = new paypal.core.PayPalHttpClient(
-  process.env.NODE_ENV === 'production'
-    ? new paypal.core.LiveEnvironment(
-        process.env.PAYPAL_CLIENT_ID || '',
-        process.env.PAYPAL_CLIENT_SECRET || ''
-      )
-    : new paypal.core.SandboxEnvironment(
-        process.env.PAYPAL_CLIENT_ID || '',
-        process.env.PAYPAL_CLIENT_SECRET || ''
-      )
-);
-
-const braintreeGateway = new braintree.BraintreeGateway({
-  environment: process.env.NODE_ENV === 'production' 
-    ? braintree.Environment.Production 
-    : braintree.Environment.Sandbox,
-  merchantId: process.env.BRAINTREE_MERCHANT_ID || '',
-  publicKey: process.env.BRAINTREE_PUBLIC_KEY || '',
-  privateKey: process.env.BRAINTREE_PRIVATE_KEY || ''
-});
-
-const razorpay = new Razorpay({
-  key_id: process.env.RAZORPAY_KEY_ID || '',
-  key_secret: process.env.RAZORPAY_KEY_SECRET || ''
-});
-
 // Logger
 const logger = winston.createLogger({
   level: 'info',
@@ -67,7 +32,8 @@ export class PaymentService {
     amount: number;
     currency: string;
     method: string;
-    provider: string;
+    provider?: string; // Chosen by the routing policy when omitted
+    paymentMethod?: string;
     payerId: string;
     payeeId: string;
     invoiceId?: string;
@@ -77,22 +43,39 @@ export class PaymentService {
     isIndigenousBusiness?: boolean;
     indigenousBusinessId?: string;
     bandNumber?: string;
+    fxLockId?: string; // Rate quoted to the payer for a non-CAD payment
     metadata?: any;
   }) {
     const paymentId = `PAY-${Date.now()}-${uuidv4().slice(0, 8)}`;
     logger.info(`Processing payment ${paymentId}`, params);
     
     try {
+      // CAD value at transaction time; mandate tracking, incentive tiers
+      // and fixed fees are all in CAD
+      const fx = await FxService.toFunctional(params.amount, params.currency, {
+        lockId: params.fxLockId,
+        referenceId: paymentId
+      });
+      
+
+      const adapter = providerRegistry.resolve(params.provider, {
+        amount: params.amount,
+        currency: params.currency,
+        payerType: params.isIndigenousBusiness ? 'INDIGENOUS_BUSINESS' : 'BUSINESS',
+        method: params.method
+      });
+      
       // Check if Indigenous business for fee reduction
       const indigenousIncentive = params.isIndigenousBusiness 
-        ? await this.getIndigenousIncentive(params.amount)
+        ? await this.getIndigenousIncentive(fx.functionalAmount.toNumber())
         : null;
       
       // Calculate fees
       const fees = await this.calculateFees(
         params.amount,
-        params.provider,
-        params.isIndigenousBusiness
+        adapter.name,
+        params.isIndigenousBusiness,
+        fx.rate
       );
       
       // Create payment record
@@ -100,11 +83,13 @@ export class PaymentService {
         data: {
           paymentId,
           amount: new Decimal(params.amount),
-          currency: params.currency,
+          currency: fx.currency,
+          fxRate: fx.rate,
+          functionalAmount: fx.functionalAmount,
           subtotal: new Decimal(params.amount),
           taxAmount: new Decimal(0), // Will be calculated
           method: params.method as any,
-          provider: params.provider as any,
+          provider: adapter.name as any,
           payerId: params.payerId,
           payerType: params.isIndigenousBusiness ? 'INDIGENOUS_BUSINESS' : 'BUSINESS',
           payerName: await this.getPartyName(params.payerId),
@@ -130,43 +115,35 @@ export class PaymentService {
         }
       });
       
-      // Process with appropriate provider
-      let providerResult;
-      switch (params.provider) {
-        case 'STRIPE':
-          providerResult = await this.processStripePayment(payment, params);
-          break;
-        case 'SQUARE':
-          providerResult = await this.processSquarePayment(payment, params);
-          break;
-        case 'PAYPAL':
-          providerResult = await this.processPayPalPayment(payment, params);
-          break;
-        case 'BRAINTREE':
-          providerResult = await this.processBraintreePayment(payment, params);
-          break;
-        case 'RAZORPAY':
-          providerResult = await this.processRazorpayPayment(payment, params);
-          break;
-        default:
-          throw new Error(`Unsupported payment provider: ${params.provider}`);
-      }
+      // Process with the selected provider
+      const providerResult = await adapter.charge({
+        paymentId,
+        amount: params.amount,
+        currency: params.currency,
+        description: params.description,
+        paymentMethod: params.paymentMethod,
+        isIndigenousBusiness: params.isIndigenousBusiness,
+        bandNumber: params.bandNumber,
+        metadata: params.metadata
+      });
+      
+      // 3-D Secure and delayed settlement finish later through a provider event
+      const pending = providerResult.status === 'requires_action' || providerResult.status === 'processing';
       
       // Update payment with provider response
-      const updatedPayment = await prisma.payment.update({
+      let updatedPayment = await prisma.payment.update({
         where: { id: payment.id },
         data: {
           providerTransactionId: providerResult.transactionId,
           providerResponse: providerResult.response,
-          status: providerResult.success ? 'COMPLETED' : 'FAILED',
-          processedAt: providerResult.success ? new Date() : null,
+          status: pending ? 'PROCESSING' : providerResult.status === 'succeeded' ? 'COMPLETED' : 'FAILED',
+          processedAt: providerResult.status === 'succeeded' ? new Date() : null,
           failureReason: providerResult.error
         }
       });
       
-      // Track Indigenous procurement contribution
-      if (params.isIndigenousBusiness && providerResult.success) {
-        await this.trackIndigenousProcurement(updatedPayment);
+      if (providerResult.status === 'succeeded') {
+        updatedPayment = await this.recordCapturedPayment(updatedPayment);
       }
       
       // Create compliance record
@@ -184,8 +161,11 @@ export class PaymentService {
         paymentId,
         status: updatedPayment.status,
         amount: updatedPayment.amount.toString(),
+        currency: updatedPayment.currency,
         netAmount: updatedPayment.netAmount.toString(),
+        provider: adapter.name,
         transactionId: providerResult.transactionId,
+        ...(providerResult.nextAction ? { nextAction: providerResult.nextAction } : {}),
         indigenousContribution: params.isIndigenousBusiness
       };
       
@@ -205,170 +185,46 @@ export class PaymentService {
     }
   }
   
-  // Process Stripe payment
-  private static async processStripePayment(payment: any, params: any) {
-    try {
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(payment.amount.toNumber() * 100), // Convert to cents
-        currency: payment.currency.toLowerCase(),
-        description: params.description,
-        metadata: {
-          paymentId: payment.paymentId,
-          isIndigenous: params.isIndigenousBusiness ? 'true' : 'false',
-          bandNumber: params.bandNumber || ''
-        }
-      });
-      
-      // Confirm payment (in real scenario, this would be done client-side)
-      const confirmed = await stripe.paymentIntents.confirm(paymentIntent.id);
-      
-      return {
-        success: confirmed.status === 'succeeded',
-        transactionId: confirmed.id,
-        response: confirmed,
-        error: null
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        transactionId: null,
-        response: error.raw,
-        error: error.message
-      };
-    }
-  }
-  
-  // Process Square payment
-  private static async processSquarePayment(payment: any, params: any) {
-    try {
-      const { result } = await squareClient.paymentsApi.createPayment({
-        sourceId: 'EXTERNAL', // In real scenario, would use actual source
-        idempotencyKey: uuidv4(),
-        amountMoney: {
-          amount: BigInt(Math.round(payment.amount.toNumber() * 100)),
-          currency: payment.currency
-        },
-        referenceId: payment.paymentId,
-        note: params.description
-      });
-      
-      return {
-        success: result.payment?.status === 'COMPLETED',
-        transactionId: result.payment?.id,
-        response: result.payment,
-        error: null
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        transactionId: null,
-        response: error.result,
-        error: error.message
-      };
-    }
-  }
-  
-  // Process PayPal payment
-  private static async processPayPalPayment(payment: any, params: any) {
-    try {
-      const request = new paypal.orders.OrdersCreateRequest();
-      request.prefer("return=representation");
-      request.requestBody({
-        intent: 'CAPTURE',
-        purchase_units: [{
-          amount: {
-            currency_code: payment.currency,
-            value: payment.amount.toString()
-          },
-          reference_id: payment.paymentId,
-          description: params.description
-        }]
-      });
-      
-      const order = await paypalClient.execute(request);
-      
-      // Capture payment (in real scenario, after buyer approval)
-      const captureRequest = new paypal.orders.OrdersCaptureRequest(order.result.id);
-      const capture = await paypalClient.execute(captureRequest);
-      
-      return {
-        success: capture.result.status === 'COMPLETED',
-        transactionId: capture.result.id,
-        response: capture.result,
-        error: null
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        transactionId: null,
-        response: error,
-        error: error.message
-      };
+  // Apply a provider event (webhook or sandbox simulation) to its payment
+  static async handleProviderEvent(event: ProviderEvent) {
+    const payment = await prisma.payment.findFirst({
+      where: { provider: event.provider as any, providerTransactionId: event.transactionId }
+    });
+    
+    if (!payment) {
+      logger.warn(`No payment for ${event.provider} transaction ${event.transactionId}`);
+      return null;
     }
-  }
-  
-  // Process Braintree payment
-  private static async processBraintreePayment(payment: any, params: any) {
-    try {
-      const result = await braintreeGateway.transaction.sale({
-        amount: payment.amount.toString(),
-        paymentMethodNonce: 'fake-valid-nonce', // In real scenario, from client
-        options: {
-          submitForSettlement: true
-        },
-        customFields: {
-          payment_id: payment.paymentId
-        }
-      });
-      
-      return {
-        success: result.success,
-        transactionId: result.transaction?.id,
-        response: result.transaction,
-        error: result.message
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        transactionId: null,
-        response: error,
-        error: error.message
-      };
+    
+    // Events can arrive more than once; only a payment still in flight moves
+    if (payment.status !== 'PROCESSING') {
+      return payment;
     }
-  }
-  
-  // Process Razorpay payment
-  private static async processRazorpayPayment(payment: any, params: any) {
-    try {
-      const order = await razorpay.orders.create({
-        amount: Math.round(payment.amount.toNumber() * 100), // Convert to paise
-        currency: payment.currency,
-        receipt: payment.paymentId,
-        notes: {
-          isIndigenous: params.isIndigenousBusiness ? 'true' : 'false'
-        }
-      });
+    
+    switch (event.type) {
+      case 'payment.succeeded': {
+        const completed = await prisma.payment.update({
+          where: { id: payment.id },
+          data: { status: 'COMPLETED', processedAt: event.occurredAt }
+        });
+        await this.logPaymentAudit(completed, 'PAYMENT_COMPLETED', event.provider.toLowerCase());
+        return this.recordCapturedPayment(completed);
+      }
       
-      // In real scenario, payment would be captured after customer authorization
-      const capturedPayment = await razorpay.payments.capture(
-        order.id,
-        Math.round(payment.amount.toNumber() * 100),
-        payment.currency
-      );
+      case 'payment.failed': {
+        const failed = await prisma.payment.update({
+          where: { id: payment.id },
+          data: {
+            status: 'FAILED',
+            failureReason: event.data?.declineCode || 'Declined by provider'
+          }
+        });
+        await this.logPaymentAudit(failed, 'PAYMENT_FAILED', event.provider.toLowerCase());
+        return failed;
+      }
       
-      return {
-        success: capturedPayment.status === 'captured',
-        transactionId: capturedPayment.id,
-        response: capturedPayment,
-        error: null
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        transactionId: null,
-        response: error,
-        error: error.message
-      };
+      default:
+        return payment;
     }
   }
   
@@ -610,18 +466,15 @@ export class PaymentService {
       });
       
       // Process refund with provider
-      let providerResult;
-      switch (payment.provider) {
-        case 'STRIPE':
-          providerResult = await this.processStripeRefund(payment, refundAmount);
-          break;
-        case 'SQUARE':
-          providerResult = await this.processSquareRefund(payment, refundAmount);
-          break;
-        // Add other providers
-        default:
-          throw new Error(`Refund not supported for provider: ${payment.provider}`);
+      const adapter = providerRegistry.get(payment.provider);
+      if (!adapter.refund) {
+        throw new Error(`Refund not supported for provider: ${payment.provider}`);
       }
+      const providerResult = await adapter.refund(
+        payment.providerTransactionId,
+        refundAmount.toNumber(),
+        payment.currency
+      );
       
       // Update refund status
       await prisma.refund.update({
@@ -643,6 +496,15 @@ export class PaymentService {
           }
         });
         
+        await LedgerService.postRefund({
+          refundId,
+          paymentId: payment.paymentId,
+          provider: payment.provider,
+          payeeId: payment.payeeId,
+          amount: refundAmount,
+          currency: payment.currency
+        });
+        
         // Adjust Indigenous metrics if applicable
         if (payment.isIndigenousBusiness) {
           await this.adjustIndigenousMetrics(payment, refundAmount, 'REFUND');
@@ -684,6 +546,10 @@ export class PaymentService {
         throw new Error('Payment not found');
       }
       
+      if (new Decimal(params.amount).gt(payment.amount)) {
+        throw new Error('Dispute amount exceeds payment amount');
+      }
+      
       // Create dispute record
       const dispute = await prisma.dispute.create({
         data: {
@@ -706,8 +572,26 @@ export class PaymentService {
         data: { status: 'DISPUTED' }
       });
       
-      // Notify relevant parties
-      await this.notifyDisputeParties(dispute, payment);
+      // Hold the disputed amount out of the payee's balance
+      await LedgerService.postDisputeFreeze({
+        disputeId,
+        payeeId: payment.payeeId,
+        amount: params.amount,
+        currency: payment.currency
+      });
+      
+      // Open the case the parties and officers work the dispute through
+      const disputeCase = await DisputeService.openCase({
+        subjectType: 'PAYMENT',
+        subjectId: payment.paymentId,
+        reference: disputeId,
+        claimantId: params.disputedBy,
+        respondentId: payment.payeeId,
+        frozenAmount: params.amount,
+        currency: payment.currency,
+        reason: params.reason,
+        priority: payment.isIndigenousBusiness
+      });
       
       // If Indigenous business affected, flag for priority
       if (payment.isIndigenousBusiness) {
@@ -716,6 +600,7 @@ export class PaymentService {
       
       return {
         disputeId,
+        caseId: disputeCase.id,
         status: 'open',
         responseDeadline: dispute.responseDeadline,
         indigenousPriority: payment.isIndigenousBusiness
@@ -772,29 +657,34 @@ export class PaymentService {
     };
   }
   
-  // Calculate payment fees
-  private static async calculateFees(amount: number, provider: string, isIndigenous: boolean) {
+  // Calculate payment fees; fixed fees are configured in CAD
+  private static async calculateFees(amount: number, provider: string, isIndigenous: boolean, fxRate: Decimal.Value = 1) {
     const config = await prisma.paymentGatewayConfig.findUnique({
       where: { provider: provider as any }
     });
     
-    if (!config) {
+    // The sandbox runs without seeded gateway config, at typical card rates
+    if (!config && provider !== SANDBOX_PROVIDER) {
       throw new Error(`Payment provider ${provider} not configured`);
     }
     
     // Use Indigenous rates if applicable
-    const feePercent = isIndigenous && config.indigenousFeePercent
-      ? config.indigenousFeePercent
-      : config.transactionFeePercent;
+    const feePercent = !config
+      ? (isIndigenous ? 1.9 : 2.9)
+      : isIndigenous && config.indigenousFeePercent
+        ? config.indigenousFeePercent
+        : config.transactionFeePercent;
     
-    const fixedFee = isIndigenous && config.indigenousFeeFixed
-      ? config.indigenousFeeFixed
-      : config.transactionFeeFixed;
+    const fixedFee = !config
+      ? 0.3
+      : isIndigenous && config.indigenousFeeFixed
+        ? config.indigenousFeeFixed
+        : config.transactionFeeFixed;
     
     const processingFee = new Decimal(amount)
       .mul(feePercent)
       .div(100)
-      .add(fixedFee);
+      .add(new Decimal(fixedFee).div(fxRate).toDecimalPlaces(2, Decimal.ROUND_HALF_UP));
     
     const platformFee = new Decimal(amount).mul(0.5).div(100); // 0.5% platform fee
     
@@ -809,13 +699,15 @@ export class PaymentService {
   private static async trackIndigenousProcurement(payment: any) {
     const key = `indigenous:procurement:${format(new Date(), 'yyyy-MM')}`;
     
+    const amount = this.functionalAmount(payment);
+    
     await redis.hincrby(key, 'count', 1);
-    await redis.hincrbyfloat(key, 'amount', payment.amount.toNumber());
+    await redis.hincrbyfloat(key, 'amount', amount);
     
     // Update daily metrics
     const dailyKey = `indigenous:daily:${format(new Date(), 'yyyy-MM-dd')}`;
     await redis.hincrby(dailyKey, 'payments', 1);
-    await redis.hincrbyfloat(dailyKey, 'total', payment.amount.toNumber());
+    await redis.hincrbyfloat(dailyKey, 'total', amount);
     
     // Check if approaching or exceeding 5% mandate
     const monthlyTotal = await redis.hget(key, 'amount');
@@ -861,6 +753,26 @@ export class PaymentService {
     return `Party-${partyId}`;
   }
   
+  // Ledger and mandate tracking once the provider has captured the funds
+  private static async recordCapturedPayment(payment: any) {
+    await LedgerService.postPayment({
+      paymentId: payment.paymentId,
+      provider: payment.provider,
+      payeeId: payment.payeeId,
+      amount: payment.amount.toString(),
+      processingFee: payment.processingFee.toString(),
+      platformFee: payment.platformFee.toString(),
+      currency: payment.currency
+    });
+    
+    // Track Indigenous procurement contribution
+    if (payment.isIndigenousBusiness) {
+      await this.trackIndigenousProcurement(payment);
+    }
+    
+    return payment;
+  }
+  
   private static async processSplitPayout(split: any): Promise<void> {
     // Implementation to process split payout
     await prisma.paymentSplit.update({
@@ -873,18 +785,51 @@ export class PaymentService {
   }
   
   private static async performBankReconciliation(reconciliation: any, payments: any[]): Promise<void> {
-    // Implementation for bank reconciliation
     logger.info('Performing bank reconciliation');
+    
+    const result = await BankReconciliationService.reconcilePeriod(
+      reconciliation.startDate,
+      reconciliation.endDate
+    );
+    
+    // Only what the bank has confirmed counts as reconciled
+    await prisma.reconciliation.update({
+      where: { id: reconciliation.id },
+      data: {
+        reconciledAmount: result.matchedAmount,
+        discrepancyAmount: new Decimal(reconciliation.totalAmount).minus(result.matchedAmount)
+      }
+    });
   }
   
   private static async checkDiscrepancies(payments: any[]): Promise<any[]> {
-    // Implementation to check for discrepancies
-    return [];
+    // Without imported statements there is nothing to compare against
+    if (process.env.ENABLE_BANK_RECONCILIATION !== 'true') {
+      return [];
+    }
+    
+    const unsettled = await BankReconciliationService.findUnsettledPayments(payments.map(p => p.id));
+    
+    return unsettled.map(payment => ({
+      paymentId: payment.id,
+      amount: payment.amount.toString(),
+      reason: `No bank statement entry for payment ${payment.paymentId}`
+    }));
   }
   
   private static async generateReconciliationReport(reconciliation: any): Promise<void> {
-    // Implementation to generate report
     logger.info(`Generating reconciliation report ${reconciliation.reconciliationId}`);
+    
+    if (process.env.ENABLE_BANK_RECONCILIATION !== 'true') {
+      return;
+    }
+    
+    await BankReconciliationService.generateReport({
+      startDate: reconciliation.startDate,
+      endDate: reconciliation.endDate,
+      generatedBy: reconciliation.reconciledBy,
+      reconciliationId: reconciliation.reconciliationId
+    });
   }
   
   private static async sendMandateComplianceAlert(percentage: number): Promise<void> {
@@ -892,48 +837,6 @@ export class PaymentService {
     logger.warn(`Indigenous procurement at ${percentage.toFixed(2)}% - Below 5% mandate`);
   }
   
-  private static async processStripeRefund(payment: any, amount: Decimal) {
-    try {
-      const refund = await stripe.refunds.create({
-        payment_intent: payment.providerTransactionId,
-        amount: Math.round(amount.toNumber() * 100)
-      });
-      
-      return {
-        success: refund.status === 'succeeded',
-        refundId: refund.id
-      };
-    } catch (error) {
-      return {
-        success: false,
-        refundId: null
-      };
-    }
-  }
-  
-  private static async processSquareRefund(payment: any, amount: Decimal) {
-    try {
-      const { result } = await squareClient.refundsApi.refundPayment({
-        idempotencyKey: uuidv4(),
-        paymentId: payment.providerTransactionId,
-        amountMoney: {
-          amount: BigInt(Math.round(amount.toNumber() * 100)),
-          currency: payment.currency
-        }
-      });
-      
-      return {
-        success: result.refund?.status === 'COMPLETED',
-        refundId: result.refund?.id
-      };
-    } catch (error) {
-      return {
-        success: false,
-        refundId: null
-      };
-    }
-  }
-  
   private static async adjustIndigenousMetrics(payment: any, amount: Decimal, type: string): Promise<void> {
     const key = `indigenous:procurement:${format(new Date(), 'yyyy-MM')}`;
     
@@ -943,11 +846,6 @@ export class PaymentService {
     }
   }
   
-  private static async notifyDisputeParties(dispute: any, payment: any): Promise<void> {
-    // Send notifications about dispute
-    logger.info(`Notifying parties about dispute ${dispute.disputeId}`);
-  }
-  
   private static async logPaymentAudit(payment: any, action: string, performedBy: string): Promise<void> {
     await prisma.paymentAuditLog.create({
       data: {
@@ -961,12 +859,18 @@ export class PaymentService {
   
   private static async updatePaymentMetrics(payment: any): Promise<void> {
     // Update real-time payment metrics
+    const amount = this.functionalAmount(payment);
     await redis.hincrby('metrics:payments:today', 'count', 1);
-    await redis.hincrbyfloat('metrics:payments:today', 'total', payment.amount.toNumber());
+    await redis.hincrbyfloat('metrics:payments:today', 'total', amount);
     
     if (payment.isIndigenousBusiness) {
       await redis.hincrby('metrics:indigenous:today', 'count', 1);
-      await redis.hincrbyfloat('metrics:indigenous:today', 'total', payment.amount.toNumber());
+      await redis.hincrbyfloat('metrics:indigenous:today', 'total', amount);
     }
   }
+  
+  // Metrics are kept in CAD; payments from before FX support are CAD already
+  private static functionalAmount(payment: any): number {
+    return (payment.functionalAmount ?? payment.amount).toNumber();
+  }
 }
\ No newline at end of file
@@ -0,0 +1,674 @@
+import Decimal from 'decimal.js';
+import { logger } from '../utils/logger';
+import { prisma } from '../config/database';
+import { TaxService } from './tax.service';
+import { FxService } from './fx.service';
+import { ExemptionEvidence, TaxAddress, TaxLineInput } from '../utils/sales-tax';
+import { notifyInvoiceDunning, notifyInvoiceIssued } from '../utils/notifications';
+import { normalizeCurrency, FUNCTIONAL_CURRENCY } from '../utils/fx';
+import {
+  allocatePayment,
+  buildAgingReport,
+  calculateLateFee,
+  daysOverdue,
+  dueDateFor,
+  dueDunningStep,
+  earlyPaymentDiscount,
+  formatInvoiceNumber,
+  loadDunningSequence,
+  nextRunDate,
+  LateFeePolicy,
+  OpenInvoice,
+  PaymentTerms,
+  RecurrenceFrequency
+} from '../utils/receivables';
+
+/**
+ * Receivables
+ * Server-side invoice lifecycle: drafts, numbering on issue, recurring
+ * schedules, payments applied against open invoices, AR aging, late fees
+ * and the dunning sequence sent through the communications service
+ */
+
+export type InvoiceStatus = 'DRAFT' | 'SENT' | 'PARTIAL' | 'OVERDUE' | 'PAID' | 'CANCELLED';
+export type ScheduleStatus = 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'CANCELLED';
+
+export interface InvoiceTemplate {
+  lines: TaxLineInput[];
+  billTo: TaxAddress;
+  shipTo?: TaxAddress;
+  paymentTerms: PaymentTerms;
+  currency?: string;
+  lateFeePolicy?: LateFeePolicy;
+  notes?: string;
+}
+
+type DraftInvoiceParams = InvoiceTemplate & {
+  vendorId: string;
+  clientId: string;
+  createdBy: string;
+  exemption?: ExemptionEvidence;
+  scheduleId?: string;
+  periodStart?: Date;
+  periodEnd?: Date;
+};
+
+const OPEN_STATUSES: InvoiceStatus[] = ['SENT', 'PARTIAL', 'OVERDUE'];
+
+// Recurring schedules never generate more than this many invoices in one run
+const MAX_CATCH_UP_RUNS = 12;
+
+// createdBy and issuedBy on invoices a schedule generates
+const RECURRING_CREATOR = 'recurring-schedule';
+
+function toOpenInvoice(invoice: any): OpenInvoice {
+  return {
+    id: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    clientId: invoice.clientId,
+    clientName: invoice.clientName,
+    dueDate: invoice.dueDate,
+    balanceDue: invoice.balanceDue.toString()
+  };
+}
+
+export class ReceivablesService {
+  /**
+   * Create a draft invoice. Tax is calculated per line now and recorded
+   * when the invoice is issued
+   */
+  static async createInvoice(params: DraftInvoiceParams) {
+    const invoice = await prisma.invoice.create({ data: await this.draftInvoiceData(params) });
+
+    logger.info(`Draft invoice ${invoice.id} created for ${params.clientId}`, {
+      total: invoice.totalAmount.toString()
+    });
+
+    return invoice;
+  }
+
+  // The row for a new draft, with its tax calculated
+  private static async draftInvoiceData(params: DraftInvoiceParams) {
+    const [vendor, client] = await Promise.all([
+      prisma.business.findUnique({ where: { id: params.vendorId }, select: { name: true } }),
+      prisma.business.findUnique({ where: { id: params.clientId }, select: { name: true } })
+    ]);
+    if (!vendor || !client) {
+      throw new Error('Vendor or client not found');
+    }
+
+    const tax = TaxService.calculateInvoiceTax({
+      date: new Date(),
+      lines: params.lines,
+      billTo: params.billTo,
+      shipTo: params.shipTo,
+      exemption: params.exemption
+    });
+
+    return {
+      vendorId: params.vendorId,
+      vendorName: vendor.name,
+      clientId: params.clientId,
+      clientName: client.name,
+      status: 'DRAFT',
+      paymentTerms: params.paymentTerms,
+      currency: normalizeCurrency(params.currency),
+      lines: params.lines as any,
+      taxInput: JSON.parse(JSON.stringify({
+        billTo: params.billTo,
+        shipTo: params.shipTo,
+        exemption: params.exemption
+      })),
+      subtotal: tax.subtotal,
+      taxAmount: tax.totalTax,
+      totalAmount: tax.total,
+      paidAmount: 0,
+      discountAmount: 0,
+      lateFeeAmount: 0,
+      lateFeePeriods: 0,
+      lateFeeFlatCharged: false,
+      balanceDue: tax.total,
+      lateFeePolicy: params.lateFeePolicy as any,
+      notes: params.notes,
+      scheduleId: params.scheduleId,
+      periodStart: params.periodStart,
+      periodEnd: params.periodEnd,
+      createdBy: params.createdBy
+    };
+  }
+
+  /**
+   * Issue a draft: number it, fix its dates, record its tax and send it.
+   * Numbers are only taken on issue so cancelled drafts leave no gaps
+   */
+  static async issueInvoice(invoiceId: string, issuedBy: string) {
+    const invoice = await this.getInvoice(invoiceId);
+    if (invoice.status !== 'DRAFT') {
+      throw new Error(`Invoice is ${invoice.status.toLowerCase()}, not a draft`);
+    }
+
+    const issueDate = new Date();
+    const invoiceNumber = await this.nextInvoiceNumber(invoice.vendorId, issueDate);
+    const taxInput = invoice.taxInput as { billTo: TaxAddress; shipTo?: TaxAddress; exemption?: ExemptionEvidence };
+    // Foreign-currency invoices are booked at the day's rate; payments are
+    // measured against it for FX gain-loss
+    const fxRate = invoice.currency === FUNCTIONAL_CURRENCY
+      ? undefined
+      : (await FxService.getRate(invoice.currency, FUNCTIONAL_CURRENCY, issueDate)).rate;
+
+    const tax = await TaxService.recordTaxTransaction({
+      kind: 'SALE',
+      supplierId: invoice.vendorId,
+      buyerId: invoice.clientId,
+      invoiceNumber,
+      currency: invoice.currency,
+      fxRate,
+      date: issueDate,
+      lines: invoice.lines as TaxLineInput[],
+      ...taxInput
+    });
+
+    const issued = await prisma.invoice.update({
+      where: { id: invoiceId },
+      data: {
+        invoiceNumber,
+        status: 'SENT',
+        issueDate,
+        dueDate: dueDateFor(issueDate, invoice.paymentTerms as PaymentTerms),
+        subtotal: tax.subtotal,
+        taxAmount: tax.totalTax,
+        totalAmount: tax.total,
+        balanceDue: tax.total,
+        taxTransactionId: tax.transactionId,
+        fxRate,
+        issuedBy
+      }
+    });
+
+    await notifyInvoiceIssued(issued);
+    logger.info(`Invoice ${invoiceNumber} issued`, { total: tax.total.toFixed(2) });
+
+    return issued;
+  }
+
+  /**
+   * Cancel a draft, or an issued invoice nothing has been paid on. Issued
+   * invoices get a credit note so the tax comes back off the return
+   */
+  static async cancelInvoice(invoiceId: string, cancelledBy: string, reason: string) {
+    const invoice = await this.getInvoice(invoiceId);
+    if (invoice.status === 'CANCELLED' || invoice.status === 'PAID') {
+      throw new Error(`Invoice is already ${invoice.status.toLowerCase()}`);
+    }
+    if (new Decimal(invoice.paidAmount.toString()).gt(0)) {
+      throw new Error('Invoice has payments applied; refund or reallocate them first');
+    }
+
+    if (invoice.taxTransactionId) {
+      const taxInput = invoice.taxInput as { billTo: TaxAddress; shipTo?: TaxAddress; exemption?: ExemptionEvidence };
+      await TaxService.recordTaxTransaction({
+        kind: 'CREDIT_NOTE',
+        supplierId: invoice.vendorId,
+        buyerId: invoice.clientId,
+        invoiceNumber: `${invoice.invoiceNumber}-CN`,
+        originalTransactionId: invoice.taxTransactionId,
+        currency: invoice.currency,
+        // Reverses the original at the rate it was booked at
+        fxRate: invoice.fxRate?.toString(),
+        date: invoice.issueDate,
+        lines: invoice.lines as TaxLineInput[],
+        billTo: taxInput.billTo,
+        shipTo: taxInput.shipTo,
+        exemption: taxInput.exemption
+      });
+    }
+
+    return prisma.invoice.update({
+      where: { id: invoiceId },
+      data: {
+        status: 'CANCELLED',
+        balanceDue: 0,
+        cancelledBy,
+        cancelledAt: new Date(),
+        cancellationReason: reason
+      }
+    });
+  }
+
+  static async getInvoice(invoiceId: string) {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: { payments: true, lateFees: true, reminders: true }
+    });
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    return invoice;
+  }
+
+  static async listInvoices(filters: { vendorId?: string; clientId?: string; status?: InvoiceStatus }) {
+    return prisma.invoice.findMany({
+      where: {
+        ...(filters.vendorId ? { vendorId: filters.vendorId } : {}),
+        ...(filters.clientId ? { clientId: filters.clientId } : {}),
+        ...(filters.status ? { status: filters.status } : {})
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Apply a client's payment to the vendor's open invoices in the payment's
+   * currency. Explicit allocations go first, then the oldest invoices; any
+   * remainder is kept as a credit on the client's account. Foreign-currency
+   * payments realize FX gain-loss against each invoice's booked rate
+   */
+  static async recordPayment(params: {
+    vendorId: string;
+    clientId: string;
+    amount: Decimal.Value;
+    currency?: string;
+    fxLockId?: string;
+    paymentId?: string;
+    receivedAt?: Date;
+    allocations?: Array<{ invoiceId: string; amount: Decimal.Value }>;
+    recordedBy: string;
+  }) {
+    const receivedAt = params.receivedAt || new Date();
+    const currency = normalizeCurrency(params.currency);
+    const open = await prisma.invoice.findMany({
+      where: {
+        vendorId: params.vendorId,
+        clientId: params.clientId,
+        currency,
+        status: { in: OPEN_STATUSES },
+        balanceDue: { gt: 0 }
+      }
+    });
+
+    const settlement = currency === FUNCTIONAL_CURRENCY
+      ? undefined
+      : await FxService.toFunctional(params.amount, currency, {
+          lockId: params.fxLockId,
+          referenceId: params.paymentId,
+          date: receivedAt
+        });
+
+    // 2/10 net 30: paying the discounted balance in time settles the invoice
+    const discounts = new Map<string, Decimal>(open.map((invoice: any) => [
+      invoice.id,
+      new Decimal(invoice.discountAmount.toString()).gt(0)
+        ? new Decimal(0)
+        : earlyPaymentDiscount(invoice.paymentTerms, invoice.issueDate, receivedAt, invoice.totalAmount.toString())
+    ]));
+
+    const { allocations, unapplied } = allocatePayment(
+      params.amount,
+      open.map((invoice: any) => ({
+        ...toOpenInvoice(invoice),
+        balanceDue: new Decimal(invoice.balanceDue.toString()).sub(discounts.get(invoice.id)!)
+      })),
+      params.allocations
+    );
+
+    const applied = [];
+    for (const allocation of allocations) {
+      const invoice = open.find((candidate: any) => candidate.id === allocation.invoiceId)!;
+      const discount = discounts.get(invoice.id)!;
+      const balance = new Decimal(invoice.balanceDue.toString()).sub(allocation.amount);
+      // The discount only applies when the payment clears the discounted balance
+      const discountTaken = discount.gt(0) && balance.eq(discount) ? discount : new Decimal(0);
+      const balanceDue = balance.sub(discountTaken);
+      const overdue = invoice.dueDate < receivedAt;
+
+      await prisma.invoicePayment.create({
+        data: {
+          invoiceId: invoice.id,
+          paymentId: params.paymentId,
+          amount: allocation.amount,
+          discountAmount: discountTaken,
+          fxRate: settlement?.rate,
+          receivedAt,
+          recordedBy: params.recordedBy
+        }
+      });
+
+      if (settlement && invoice.fxRate) {
+        await FxService.recordRealization({
+          businessId: invoice.vendorId,
+          sourceType: 'invoice_payment',
+          sourceId: invoice.id,
+          currency,
+          amount: allocation.amount,
+          bookedRate: invoice.fxRate.toString(),
+          settledRate: settlement.rate,
+          side: 'receivable',
+          realizedAt: receivedAt
+        });
+      }
+
+      const updated = await prisma.invoice.update({
+        where: { id: invoice.id },
+        data: {
+          paidAmount: { increment: allocation.amount },
+          discountAmount: { increment: discountTaken },
+          balanceDue,
+          status: balanceDue.lte(0) ? 'PAID' : overdue ? 'OVERDUE' : 'PARTIAL',
+          ...(balanceDue.lte(0) ? { paidDate: receivedAt } : {})
+        }
+      });
+
+      applied.push({
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        amount: allocation.amount.toFixed(2),
+        discount: discountTaken.toFixed(2),
+        balanceDue: balanceDue.toFixed(2),
+        status: updated.status
+      });
+    }
+
+    let creditId: string | undefined;
+    if (unapplied.gt(0)) {
+      const credit = await prisma.customerCredit.create({
+        data: {
+          vendorId: params.vendorId,
+          clientId: params.clientId,
+          paymentId: params.paymentId,
+          currency,
+          amount: unapplied,
+          remaining: unapplied,
+          createdBy: params.recordedBy
+        }
+      });
+      creditId = credit.id;
+    }
+
+    logger.info(`Payment applied to ${applied.length} invoice(s) for ${params.clientId}`, {
+      amount: new Decimal(params.amount).toFixed(2),
+      currency,
+      unapplied: unapplied.toFixed(2)
+    });
+
+    return {
+      currency,
+      ...(settlement ? { fxRate: settlement.rate.toString(), functionalAmount: settlement.functionalAmount.toFixed(2) } : {}),
+      applied,
+      unapplied: unapplied.toFixed(2),
+      creditId
+    };
+  }
+
+  /**
+   * AR aging by bucket and client, on current balances in one currency
+   */
+  static async getAgingReport(vendorId: string, asOf: Date = new Date(), currency?: string) {
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        vendorId,
+        currency: normalizeCurrency(currency),
+        status: { in: OPEN_STATUSES },
+        issueDate: { lte: asOf }
+      }
+    });
+
+    return { currency: normalizeCurrency(currency), ...buildAgingReport(invoices.map(toOpenInvoice), asOf) };
+  }
+
+  /**
+   * Invoice a client on a schedule from a fixed template
+   */
+  static async createSchedule(params: {
+    vendorId: string;
+    clientId: string;
+    frequency: RecurrenceFrequency;
+    startDate: Date;
+    endDate?: Date;
+    maxOccurrences?: number;
+    autoIssue?: boolean;
+    template: InvoiceTemplate;
+    createdBy: string;
+  }) {
+    // Fail now rather than on the first run
+    TaxService.calculateInvoiceTax({
+      date: params.startDate,
+      lines: params.template.lines,
+      billTo: params.template.billTo,
+      shipTo: params.template.shipTo
+    });
+    dueDateFor(params.startDate, params.template.paymentTerms);
+
+    return prisma.recurringInvoiceSchedule.create({
+      data: {
+        vendorId: params.vendorId,
+        clientId: params.clientId,
+        frequency: params.frequency,
+        anchorDay: params.startDate.getUTCDate(),
+        nextRunAt: params.startDate,
+        endDate: params.endDate,
+        maxOccurrences: params.maxOccurrences,
+        occurrences: 0,
+        autoIssue: params.autoIssue ?? true,
+        template: JSON.parse(JSON.stringify(params.template)),
+        status: 'ACTIVE',
+        createdBy: params.createdBy
+      }
+    });
+  }
+
+  static async setScheduleStatus(scheduleId: string, status: 'ACTIVE' | 'PAUSED' | 'CANCELLED') {
+    const schedule = await prisma.recurringInvoiceSchedule.findUnique({ where: { id: scheduleId } });
+    if (!schedule) {
+      throw new Error('Schedule not found');
+    }
+    if (schedule.status === 'COMPLETED' || schedule.status === 'CANCELLED') {
+      throw new Error(`Schedule is ${schedule.status.toLowerCase()}`);
+    }
+
+    return prisma.recurringInvoiceSchedule.update({ where: { id: scheduleId }, data: { status } });
+  }
+
+  /**
+   * Generate every invoice that came due. A schedule that missed runs
+   * catches up one billing period per invoice. Each draft is created in the
+   * same transaction that advances its schedule, so a run that fails
+   * partway never bills a period twice; drafts whose issue failed are
+   * issued on the next run
+   */
+  static async runDueSchedules(asOf: Date = new Date()) {
+    const schedules = await prisma.recurringInvoiceSchedule.findMany({
+      where: { status: 'ACTIVE', nextRunAt: { lte: asOf } }
+    });
+    let generated = 0;
+
+    for (const schedule of schedules) {
+      try {
+        if (schedule.autoIssue) {
+          await this.issueScheduledDrafts(schedule.id);
+        }
+
+        let runAt: Date = schedule.nextRunAt;
+        let occurrences: number = schedule.occurrences;
+        const finished = () => Boolean(
+          (schedule.endDate && runAt > schedule.endDate) ||
+          (schedule.maxOccurrences && occurrences >= schedule.maxOccurrences)
+        );
+
+        // A schedule past its end date or occurrence limit closes without
+        // another invoice
+        if (finished()) {
+          await prisma.recurringInvoiceSchedule.update({
+            where: { id: schedule.id },
+            data: { status: 'COMPLETED', lastRunAt: asOf }
+          });
+          continue;
+        }
+
+        for (let i = 0; i < MAX_CATCH_UP_RUNS && runAt <= asOf && !finished(); i++) {
+          const next = nextRunDate(schedule.frequency, runAt, schedule.anchorDay);
+          const template = schedule.template as InvoiceTemplate;
+          const data = await this.draftInvoiceData({
+            ...template,
+            vendorId: schedule.vendorId,
+            clientId: schedule.clientId,
+            createdBy: RECURRING_CREATOR,
+            scheduleId: schedule.id,
+            periodStart: runAt,
+            periodEnd: new Date(next.getTime() - 1)
+          });
+
+          occurrences++;
+          runAt = next;
+          const status: ScheduleStatus = finished() ? 'COMPLETED' : 'ACTIVE';
+
+          const [invoice] = await prisma.$transaction([
+            prisma.invoice.create({ data }),
+            prisma.recurringInvoiceSchedule.update({
+              where: { id: schedule.id },
+              data: { nextRunAt: runAt, occurrences, status, lastRunAt: asOf }
+            })
+          ]);
+          generated++;
+
+          if (schedule.autoIssue) {
+            await this.issueInvoice(invoice.id, RECURRING_CREATOR);
+          }
+        }
+      } catch (error) {
+        logger.error(`Recurring invoice schedule ${schedule.id} failed:`, error);
+      }
+    }
+
+    return { schedules: schedules.length, generated };
+  }
+
+  /**
+   * Daily pass over open invoices: flag the overdue ones, charge late fees
+   * under each invoice's policy and send the next dunning step
+   */
+  static async runDunning(asOf: Date = new Date()) {
+    const sequence = loadDunningSequence();
+    const invoices = await prisma.invoice.findMany({
+      where: { status: { in: OPEN_STATUSES }, balanceDue: { gt: 0 } },
+      include: { reminders: true }
+    });
+    const summary = { invoices: invoices.length, overdue: 0, lateFees: 0, remindersSent: 0 };
+
+    for (const invoice of invoices) {
+      try {
+        const overdueDays = daysOverdue(invoice.dueDate, asOf);
+        let current = invoice;
+
+        if (overdueDays > 0 && invoice.status !== 'OVERDUE') {
+          current = await prisma.invoice.update({ where: { id: invoice.id }, data: { status: 'OVERDUE' } });
+          summary.overdue++;
+        }
+
+        let lateFee: string | undefined;
+        const policy = invoice.lateFeePolicy as LateFeePolicy | null;
+        if (policy && overdueDays > 0) {
+          // Interest runs on what is owed for the supply, not on earlier fees
+          const principal = Decimal.max(
+            0,
+            new Decimal(invoice.balanceDue.toString()).sub(invoice.lateFeeAmount.toString())
+          );
+          const fee = calculateLateFee({
+            policy,
+            balanceDue: principal,
+            dueDate: invoice.dueDate,
+            asOf,
+            periodsCharged: invoice.lateFeePeriods,
+            flatFeeCharged: invoice.lateFeeFlatCharged
+          });
+
+          if (fee.amount.gt(0)) {
+            await prisma.invoiceLateFee.create({
+              data: {
+                invoiceId: invoice.id,
+                amount: fee.amount,
+                periods: fee.periods,
+                flatFee: fee.flatFee,
+                chargedAt: asOf
+              }
+            });
+            current = await prisma.invoice.update({
+              where: { id: invoice.id },
+              data: {
+                lateFeeAmount: { increment: fee.amount },
+                totalAmount: { increment: fee.amount },
+                balanceDue: { increment: fee.amount },
+                lateFeePeriods: { increment: fee.periods },
+                lateFeeFlatCharged: invoice.lateFeeFlatCharged || fee.flatFee
+              }
+            });
+            lateFee = fee.amount.toFixed(2);
+            summary.lateFees++;
+          }
+        }
+
+        // Failed deliveries are tried again on the next run
+        const sent = invoice.reminders
+          .filter((reminder: any) => reminder.status !== 'FAILED')
+          .map((reminder: any) => reminder.stepId);
+        const { step, skipped } = dueDunningStep(sequence, invoice.dueDate, asOf, sent);
+
+        for (const skippedStep of skipped) {
+          await prisma.invoiceReminder.create({
+            data: { invoiceId: invoice.id, stepId: skippedStep.id, type: skippedStep.type, status: 'SKIPPED', sentAt: asOf }
+          });
+        }
+
+        if (step) {
+          const delivered = await notifyInvoiceDunning(current, step, {
+            daysOverdue: overdueDays,
+            lateFee,
+            // Interest Act s.4: a monthly rate must also be stated as a yearly one
+            ...(policy?.monthlyRatePercent ? { annualInterestRatePercent: policy.monthlyRatePercent * 12 } : {})
+          });
+
+          await prisma.invoiceReminder.create({
+            data: {
+              invoiceId: invoice.id,
+              stepId: step.id,
+              type: step.type,
+              status: delivered ? 'SENT' : 'FAILED',
+              sentAt: asOf
+            }
+          });
+          if (delivered) summary.remindersSent++;
+        }
+      } catch (error) {
+        logger.error(`Dunning failed for invoice ${invoice.id}:`, error);
+      }
+    }
+
+    logger.info('Dunning run complete', summary);
+    return summary;
+  }
+
+  // Drafts a schedule created whose issue failed on an earlier run
+  private static async issueScheduledDrafts(scheduleId: string) {
+    const drafts = await prisma.invoice.findMany({
+      where: { scheduleId, status: 'DRAFT', createdBy: RECURRING_CREATOR },
+      orderBy: { periodStart: 'asc' }
+    });
+    for (const draft of drafts) {
+      await this.issueInvoice(draft.id, RECURRING_CREATOR);
+    }
+  }
+
+  // Sequence per vendor and year; the upsert increments atomically
+  private static async nextInvoiceNumber(vendorId: string, issueDate: Date): Promise<string> {
+    const year = issueDate.getUTCFullYear();
+    const [vendor, sequence] = await Promise.all([
+      prisma.business.findUnique({ where: { id: vendorId }, select: { invoicePrefix: true } }),
+      prisma.invoiceSequence.upsert({
+        where: { vendorId_year: { vendorId, year } },
+        create: { vendorId, year, lastNumber: 1 },
+        update: { lastNumber: { increment: 1 } }
+      })
+    ]);
+
+    return formatInvoiceNumber(vendor?.invoicePrefix || 'INV', issueDate, sequence.lastNumber);
+  }
+}
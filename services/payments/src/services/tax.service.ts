@@ -1,18 +1,36 @@
 import Decimal from 'decimal.js';
+import crypto from 'crypto';
 import { logger } from '../utils/logger';
 import { prisma } from '../config/database';
-import { redis } from '../config/redis';
+import { FxService } from './fx.service';
+import { convertAmount, normalizeCurrency, FUNCTIONAL_CURRENCY } from '../utils/fx';
+import {
+  buildGst34Worksheet,
+  calculateInvoiceTax,
+  provincialRates,
+  validateExemptionEvidence,
+  ExemptionEvidence,
+  Gst34Adjustments,
+  Gst34Entry,
+  InvoiceTaxInput,
+  InvoiceTaxResult,
+  PROVINCES,
+  GST_RATE,
+  SupplyCategory,
+  SupplyType
+} from '../utils/sales-tax';
 
 /**
  * Canadian Tax Service
- * Handles GST/HST/PST calculations for all provinces and territories
- * Special handling for Indigenous tax exemptions
+ * Handles GST/HST/QST/PST calculations for all provinces and territories
+ * Section 87 exemptions are only applied against recorded evidence
  */
 
 export interface TaxRate {
   province: string;
   gst: number;
   pst: number;
+  qst: number;
   hst: number;
   total: number;
 }
@@ -21,6 +39,7 @@ export interface TaxCalculation {
   subtotal: number;
   gstAmount: number;
   pstAmount: number;
+  qstAmount: number;
   hstAmount: number;
   totalTax: number;
   total: number;
@@ -28,222 +47,270 @@ export interface TaxCalculation {
   exemptionReason?: string;
 }
 
-// Canadian tax rates by province/territory (as of 2024)
-const TAX_RATES: Record<string, TaxRate> = {
-  // Provinces with HST
-  ON: { province: 'Ontario', gst: 0, pst: 0, hst: 0.13, total: 0.13 },
-  NB: { province: 'New Brunswick', gst: 0, pst: 0, hst: 0.15, total: 0.15 },
-  NS: { province: 'Nova Scotia', gst: 0, pst: 0, hst: 0.15, total: 0.15 },
-  NL: { province: 'Newfoundland and Labrador', gst: 0, pst: 0, hst: 0.15, total: 0.15 },
-  PE: { province: 'Prince Edward Island', gst: 0, pst: 0, hst: 0.15, total: 0.15 },
-  
-  // Provinces with GST + PST
-  BC: { province: 'British Columbia', gst: 0.05, pst: 0.07, hst: 0, total: 0.12 },
-  SK: { province: 'Saskatchewan', gst: 0.05, pst: 0.06, hst: 0, total: 0.11 },
-  MB: { province: 'Manitoba', gst: 0.05, pst: 0.07, hst: 0, total: 0.12 },
-  QC: { province: 'Quebec', gst: 0.05, pst: 0.09975, hst: 0, total: 0.14975 },
-  
-  // Territories with GST only
-  AB: { province: 'Alberta', gst: 0.05, pst: 0, hst: 0, total: 0.05 },
-  NT: { province: 'Northwest Territories', gst: 0.05, pst: 0, hst: 0, total: 0.05 },
-  NU: { province: 'Nunavut', gst: 0.05, pst: 0, hst: 0, total: 0.05 },
-  YT: { province: 'Yukon', gst: 0.05, pst: 0, hst: 0, total: 0.05 },
-};
+export type TaxTransactionKind = 'SALE' | 'CREDIT_NOTE';
+
+// Registration numbers are only ever shown by their last four digits
+function maskStatusCard(number?: string | null): string | undefined {
+  return number ? `******${number.slice(-4)}` : undefined;
+}
+
+function serializeLines(result: InvoiceTaxResult) {
+  return result.lines.map(line => ({
+    ...line,
+    amount: line.amount.toFixed(2),
+    gst: line.gst.toFixed(2),
+    hst: line.hst.toFixed(2),
+    pst: line.pst.toFixed(2),
+    qst: line.qst.toFixed(2),
+    totalTax: line.totalTax.toFixed(2),
+    total: line.total.toFixed(2),
+    relievedTax: line.relievedTax.toFixed(2)
+  }));
+}
 
 export class TaxService {
   /**
-   * Calculate tax for a given amount and province
+   * Calculate tax on a single standard-rated supply made in a province
    */
   static async calculateTax(
     amount: number,
     province: string,
-    businessId?: string,
-    isIndigenous?: boolean
+    options: { supplyType?: SupplyType; category?: SupplyCategory; date?: Date } = {}
   ): Promise<TaxCalculation> {
-    try {
-      // Check for tax exemption
-      const exemption = await this.checkTaxExemption(businessId, isIndigenous);
-      if (exemption.isExempt) {
-        return {
-          subtotal: amount,
-          gstAmount: 0,
-          pstAmount: 0,
-          hstAmount: 0,
-          totalTax: 0,
-          total: amount,
-          isExempt: true,
-          exemptionReason: exemption.reason,
-        };
-      }
+    const result = calculateInvoiceTax({
+      date: options.date || new Date(),
+      billTo: { country: 'CA', province },
+      lines: [{
+        description: 'Supply',
+        unitPrice: amount,
+        supplyType: options.supplyType || 'goods',
+        category: options.category
+      }]
+    });
 
-      // Get tax rates for province
-      const rates = TAX_RATES[province.toUpperCase()] || TAX_RATES.ON; // Default to Ontario
-      
-      // Use Decimal for precise calculations
-      const subtotal = new Decimal(amount);
-      let gstAmount = new Decimal(0);
-      let pstAmount = new Decimal(0);
-      let hstAmount = new Decimal(0);
-
-      if (rates.hst > 0) {
-        // Province uses HST
-        hstAmount = subtotal.mul(rates.hst);
-      } else {
-        // Province uses GST/PST
-        if (rates.gst > 0) {
-          gstAmount = subtotal.mul(rates.gst);
-        }
-        if (rates.pst > 0) {
-          // Quebec calculates PST on subtotal + GST
-          if (province.toUpperCase() === 'QC') {
-            pstAmount = subtotal.plus(gstAmount).mul(rates.pst);
-          } else {
-            pstAmount = subtotal.mul(rates.pst);
-          }
-        }
-      }
-
-      const totalTax = gstAmount.plus(pstAmount).plus(hstAmount);
-      const total = subtotal.plus(totalTax);
-
-      // Cache the calculation
-      const cacheKey = `tax:${province}:${amount}:${businessId || 'none'}`;
-      await redis.setex(
-        cacheKey,
-        3600, // 1 hour
-        JSON.stringify({
-          subtotal: subtotal.toNumber(),
-          gstAmount: gstAmount.toNumber(),
-          pstAmount: pstAmount.toNumber(),
-          hstAmount: hstAmount.toNumber(),
-          totalTax: totalTax.toNumber(),
-          total: total.toNumber(),
-          isExempt: false,
-        })
-      );
+    return {
+      subtotal: result.subtotal.toNumber(),
+      gstAmount: result.gst.toNumber(),
+      pstAmount: result.pst.toNumber(),
+      qstAmount: result.qst.toNumber(),
+      hstAmount: result.hst.toNumber(),
+      totalTax: result.totalTax.toNumber(),
+      total: result.total.toNumber(),
+      isExempt: result.lines[0].category !== 'standard',
+      ...(result.lines[0].category !== 'standard' ? { exemptionReason: result.lines[0].categoryReason } : {})
+    };
+  }
 
-      return {
-        subtotal: subtotal.toNumber(),
-        gstAmount: gstAmount.toNumber(),
-        pstAmount: pstAmount.toNumber(),
-        hstAmount: hstAmount.toNumber(),
-        totalTax: totalTax.toNumber(),
-        total: total.toNumber(),
-        isExempt: false,
-      };
-    } catch (error) {
-      logger.error('Tax calculation error', error);
-      // Return simple calculation as fallback
-      const fallbackRate = 0.13; // Default HST rate
-      return {
-        subtotal: amount,
-        gstAmount: 0,
-        pstAmount: 0,
-        hstAmount: amount * fallbackRate,
-        totalTax: amount * fallbackRate,
-        total: amount * (1 + fallbackRate),
-        isExempt: false,
-      };
-    }
+  /**
+   * Per-line tax for an invoice under place-of-supply rules
+   */
+  static calculateInvoiceTax(input: InvoiceTaxInput): InvoiceTaxResult {
+    return calculateInvoiceTax(input);
   }
 
   /**
-   * Check if business is eligible for tax exemption
+   * Check whether exemption evidence supports the claimed basis.
+   * Business flags alone never exempt a supply
    */
-  static async checkTaxExemption(
-    businessId?: string,
-    isIndigenous?: boolean
-  ): Promise<{ isExempt: boolean; reason?: string }> {
-    try {
-      if (!businessId) {
-        return { isExempt: false };
-      }
+  static checkTaxExemption(
+    evidence: ExemptionEvidence,
+    input: InvoiceTaxInput
+  ): { isExempt: boolean; reason?: string; problems: string[] } {
+    const problems = validateExemptionEvidence(evidence, input);
+    return {
+      isExempt: problems.length === 0,
+      ...(problems.length === 0 ? { reason: `Indian Act s.87 evidence (${evidence.basis})` } : {}),
+      problems
+    };
+  }
 
-      // Check cache first
-      const cacheKey = `tax:exemption:${businessId}`;
-      const cached = await redis.get(cacheKey);
-      if (cached) {
-        return JSON.parse(cached);
-      }
+  /**
+   * Tax an invoice or credit note and store it, together with any exemption
+   * evidence, for the GST34 return and for audit. Foreign-currency
+   * transactions keep the CAD rate of the day the tax became payable
+   */
+  static async recordTaxTransaction(params: InvoiceTaxInput & {
+    kind: TaxTransactionKind;
+    supplierId: string;
+    buyerId?: string;
+    paymentId?: string;
+    invoiceNumber: string;
+    originalTransactionId?: string; // Credit notes only
+    currency?: string;
+    fxRate?: Decimal.Value; // CAD per unit of currency; looked up when omitted
+  }) {
+    if (params.kind === 'CREDIT_NOTE' && !params.originalTransactionId) {
+      throw new Error('A credit note must reference the original transaction');
+    }
 
-      // Check business tax exemption status
-      const business = await prisma.business.findUnique({
-        where: { id: businessId },
-        select: {
-          id: true,
-          isIndigenous: true,
-          taxExemptStatus: true,
-          taxExemptNumber: true,
-          bandNumber: true,
-          isOnReserve: true,
-        },
+    const currency = normalizeCurrency(params.currency);
+    const fxRate = currency === FUNCTIONAL_CURRENCY
+      ? undefined
+      : params.fxRate ?? (await FxService.getRate(currency, FUNCTIONAL_CURRENCY, params.date)).rate;
+
+    const result = calculateInvoiceTax(params);
+    let evidenceId: string | undefined;
+
+    if (params.exemption) {
+      const { deliveryProof, ...evidence } = params.exemption;
+      const record = await prisma.taxExemptionEvidence.create({
+        data: {
+          ...evidence,
+          statusCardNumber: evidence.statusCardNumber?.replace(/[\s-]/g, ''),
+          deliveryProof: deliveryProof ? JSON.parse(JSON.stringify(deliveryProof)) : undefined,
+          shipTo: params.shipTo ? JSON.parse(JSON.stringify(params.shipTo)) : undefined,
+          status: result.exemption!.accepted ? 'ACCEPTED' : 'REJECTED',
+          problems: result.exemption!.problems,
+          relievedTax: result.exemption!.relievedTax,
+          // Fingerprint of what was examined, so later edits are detectable
+          evidenceHash: crypto
+            .createHash('sha256')
+            .update(JSON.stringify({ evidence: params.exemption, shipTo: params.shipTo, invoice: params.invoiceNumber }))
+            .digest('hex')
+        }
       });
+      evidenceId = record.id;
 
-      if (!business) {
-        return { isExempt: false };
+      if (!result.exemption!.accepted) {
+        logger.warn(`Exemption evidence rejected for invoice ${params.invoiceNumber}`, {
+          problems: result.exemption!.problems
+        });
       }
+    }
 
-      let isExempt = false;
-      let reason = '';
-
-      // Check various exemption criteria
-      if (business.taxExemptStatus === 'APPROVED') {
-        isExempt = true;
-        reason = 'Approved tax exempt status';
-      } else if (business.isOnReserve) {
-        // Purchases delivered to reserve are generally tax exempt
-        isExempt = true;
-        reason = 'On-reserve delivery';
-      } else if (business.isIndigenous && business.bandNumber) {
-        // Check if eligible for point-of-sale exemption
-        const exemptionRules = await this.checkProvincialExemptionRules(business);
-        if (exemptionRules.eligible) {
-          isExempt = true;
-          reason = exemptionRules.reason;
-        }
+    const sumCategory = (category: SupplyCategory) => result.lines
+      .filter(line => line.category === category)
+      .reduce((sum, line) => sum.add(line.amount), new Decimal(0));
+
+    const transaction = await prisma.taxTransaction.create({
+      data: {
+        kind: params.kind,
+        supplierId: params.supplierId,
+        buyerId: params.buyerId,
+        paymentId: params.paymentId,
+        invoiceNumber: params.invoiceNumber,
+        originalTransactionId: params.originalTransactionId,
+        transactionDate: params.date,
+        currency,
+        fxRate: fxRate === undefined ? undefined : new Decimal(fxRate),
+        subtotal: result.subtotal,
+        gstAmount: result.gst,
+        hstAmount: result.hst,
+        pstAmount: result.pst,
+        qstAmount: result.qst,
+        totalTax: result.totalTax,
+        total: result.total,
+        zeroRatedAmount: sumCategory('zero_rated'),
+        exemptAmount: sumCategory('exempt'),
+        relievedTax: result.exemption?.relievedTax || 0,
+        lines: serializeLines(result),
+        billTo: JSON.parse(JSON.stringify(params.billTo)),
+        exemptionEvidenceId: evidenceId
       }
+    });
 
-      // Cache the result
-      const result = { isExempt, reason };
-      await redis.setex(cacheKey, 86400, JSON.stringify(result)); // 24 hours
+    logger.info(`Tax recorded for ${params.kind.toLowerCase()} ${params.invoiceNumber}`, {
+      totalTax: result.totalTax.toFixed(2),
+      exemption: result.exemption?.accepted
+    });
 
-      return result;
-    } catch (error) {
-      logger.error('Tax exemption check error', error);
-      return { isExempt: false };
-    }
+    return { transactionId: transaction.id, evidenceId, ...result };
   }
 
   /**
-   * Check provincial tax exemption rules for Indigenous businesses
+   * Stored exemption evidence and the transactions it supports. The full
+   * registration number stays in the database for CRA audits
    */
-  static async checkProvincialExemptionRules(business: any): Promise<{
-    eligible: boolean;
-    reason: string;
-  }> {
-    // Each province has different rules for Indigenous tax exemptions
-    // This is a simplified version - actual implementation would need
-    // to check specific provincial regulations
-
-    if (business.taxExemptNumber) {
-      return {
-        eligible: true,
-        reason: `Valid tax exempt certificate: ${business.taxExemptNumber}`,
-      };
+  static async getExemptionEvidence(evidenceId: string) {
+    const evidence = await prisma.taxExemptionEvidence.findUnique({ where: { id: evidenceId } });
+    if (!evidence) {
+      throw new Error('Exemption evidence not found');
     }
 
-    // Check if business qualifies for automatic exemption
-    if (business.isIndigenous && business.bandNumber) {
-      // Some provinces allow point-of-sale exemption with status card
-      return {
-        eligible: true,
-        reason: 'Indigenous-owned business with valid band number',
-      };
+    const transactions = await prisma.taxTransaction.findMany({
+      where: { exemptionEvidenceId: evidenceId },
+      select: { id: true, invoiceNumber: true, kind: true, transactionDate: true, relievedTax: true }
+    });
+
+    return {
+      ...evidence,
+      statusCardNumber: maskStatusCard(evidence.statusCardNumber),
+      transactions
+    };
+  }
+
+  /**
+   * GST/HST return worksheet (GST34) for a registrant and reporting period.
+   * Tax on the registrant's sales is collected; tax it was charged as a
+   * buyer is claimed as input tax credits
+   */
+  static async generateGst34Worksheet(params: {
+    businessId: string;
+    periodStart: Date;
+    periodEnd: Date;
+    adjustments?: Gst34Adjustments;
+  }) {
+    const period = { gte: params.periodStart, lte: params.periodEnd };
+    const [business, supplies, purchases] = await Promise.all([
+      prisma.business.findUnique({ where: { id: params.businessId }, select: { id: true, name: true, taxNumber: true } }),
+      prisma.taxTransaction.findMany({ where: { supplierId: params.businessId, transactionDate: period } }),
+      prisma.taxTransaction.findMany({ where: { buyerId: params.businessId, kind: 'SALE', transactionDate: period } })
+    ]);
+
+    if (!business) {
+      throw new Error('Business not found');
     }
 
+    // The return is filed in CAD at each transaction's recorded rate
+    const cad = (tx: any, amount: any) =>
+      tx.fxRate ? convertAmount(amount.toString(), tx.fxRate.toString(), FUNCTIONAL_CURRENCY).toString() : amount.toString();
+
+    const entries: Gst34Entry[] = [
+      ...supplies.map((tx: any) => ({
+        kind: tx.kind as TaxTransactionKind,
+        subtotal: cad(tx, tx.subtotal),
+        gst: cad(tx, tx.gstAmount),
+        hst: cad(tx, tx.hstAmount),
+        zeroRated: cad(tx, tx.zeroRatedAmount),
+        exempt: cad(tx, tx.exemptAmount),
+        relievedTax: cad(tx, tx.relievedTax)
+      })),
+      ...purchases.map((tx: any) => ({
+        kind: 'PURCHASE' as const,
+        subtotal: cad(tx, tx.subtotal),
+        gst: cad(tx, tx.gstAmount),
+        hst: cad(tx, tx.hstAmount)
+      }))
+    ];
+
+    const worksheet = buildGst34Worksheet({
+      periodStart: params.periodStart,
+      periodEnd: params.periodEnd,
+      entries,
+      adjustments: params.adjustments
+    });
+
+    // QST goes to Revenu Québec and PST to the other provinces, never on the GST34
+    const provincial = supplies.reduce(
+      (totals: { qst: Decimal; pst: Decimal }, tx: any) => {
+        const sign = tx.kind === 'CREDIT_NOTE' ? -1 : 1;
+        return {
+          qst: totals.qst.add(new Decimal(cad(tx, tx.qstAmount)).mul(sign)),
+          pst: totals.pst.add(new Decimal(cad(tx, tx.pstAmount)).mul(sign))
+        };
+      },
+      { qst: new Decimal(0), pst: new Decimal(0) }
+    );
+
     return {
-      eligible: false,
-      reason: 'Does not meet provincial exemption criteria',
+      businessId: business.id,
+      businessName: business.name,
+      businessNumber: business.taxNumber,
+      ...worksheet,
+      provincialTaxCollected: {
+        qst: provincial.qst.toFixed(2),
+        pst: provincial.pst.toFixed(2)
+      }
     };
   }
 
@@ -252,43 +319,27 @@ export class TaxService {
    */
   static calculateReverseTax(
     totalAmount: number,
-    province: string
+    province: string,
+    date: Date = new Date()
   ): TaxCalculation {
-    const rates = TAX_RATES[province.toUpperCase()] || TAX_RATES.ON;
+    const rates = this.getTaxRates(province, date);
     
     // Calculate subtotal from total
     const total = new Decimal(totalAmount);
-    const taxMultiplier = new Decimal(1).plus(rates.total);
-    const subtotal = total.div(taxMultiplier);
+    const subtotal = total.div(new Decimal(1).plus(rates.total)).toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
     
-    // Calculate tax amounts
-    let gstAmount = new Decimal(0);
-    let pstAmount = new Decimal(0);
-    let hstAmount = new Decimal(0);
-
-    if (rates.hst > 0) {
-      hstAmount = subtotal.mul(rates.hst);
-    } else {
-      if (rates.gst > 0) {
-        gstAmount = subtotal.mul(rates.gst);
-      }
-      if (rates.pst > 0) {
-        if (province.toUpperCase() === 'QC') {
-          // Quebec special calculation
-          const gstPlusSubtotal = subtotal.plus(gstAmount);
-          pstAmount = gstPlusSubtotal.mul(rates.pst);
-        } else {
-          pstAmount = subtotal.mul(rates.pst);
-        }
-      }
-    }
-
-    const totalTax = gstAmount.plus(pstAmount).plus(hstAmount);
+    // Every component is a flat rate on the subtotal, QST included
+    const gstAmount = subtotal.mul(rates.gst).toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+    const pstAmount = subtotal.mul(rates.pst).toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+    const qstAmount = subtotal.mul(rates.qst).toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+    const hstAmount = subtotal.mul(rates.hst).toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+    const totalTax = gstAmount.plus(pstAmount).plus(qstAmount).plus(hstAmount);
 
     return {
       subtotal: subtotal.toNumber(),
       gstAmount: gstAmount.toNumber(),
       pstAmount: pstAmount.toNumber(),
+      qstAmount: qstAmount.toNumber(),
       hstAmount: hstAmount.toNumber(),
       totalTax: totalTax.toNumber(),
       total: totalAmount,
@@ -297,17 +348,26 @@ export class TaxService {
   }
 
   /**
-   * Get tax rates for a province
+   * Get tax rates for a province on a given date
    */
-  static getTaxRates(province: string): TaxRate {
-    return TAX_RATES[province.toUpperCase()] || TAX_RATES.ON;
+  static getTaxRates(province: string, date: Date = new Date()): TaxRate {
+    const rates = provincialRates(province, date);
+    const gst = rates.hst > 0 ? 0 : GST_RATE;
+    return {
+      province: rates.name,
+      gst,
+      pst: rates.pst,
+      qst: rates.qst,
+      hst: rates.hst,
+      total: new Decimal(gst).plus(rates.pst).plus(rates.qst).plus(rates.hst).toNumber()
+    };
   }
 
   /**
    * Get all provincial tax rates
    */
-  static getAllTaxRates(): Record<string, TaxRate> {
-    return TAX_RATES;
+  static getAllTaxRates(date: Date = new Date()): Record<string, TaxRate> {
+    return Object.fromEntries(PROVINCES.map(code => [code, this.getTaxRates(code, date)]));
   }
 
   /**
@@ -335,7 +395,7 @@ export class TaxService {
   }
 
   /**
-   * Generate tax invoice data
+   * Generate tax invoice data from the tax recorded for a payment
    */
   static async generateTaxInvoice(paymentId: string): Promise<any> {
     try {
@@ -350,33 +410,33 @@ export class TaxService {
         throw new Error('Payment not found');
       }
 
-      const taxCalc = await this.calculateTax(
-        payment.amount - (payment.taxAmount || 0),
-        payment.business?.province || 'ON',
-        payment.businessId,
-        payment.business?.isIndigenous
-      );
+      const transaction = await prisma.taxTransaction.findFirst({
+        where: { paymentId, kind: 'SALE' },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      if (!transaction) {
+        throw new Error('No tax has been recorded for this payment');
+      }
 
       return {
-        invoiceNumber: `INV-${payment.id}`,
-        date: payment.createdAt,
+        invoiceNumber: transaction.invoiceNumber,
+        date: transaction.transactionDate,
         business: {
           name: payment.business?.name,
           address: payment.business?.address,
           taxNumber: payment.business?.taxNumber,
         },
-        items: [{
-          description: 'Payment Processing',
-          amount: payment.amount - (payment.taxAmount || 0),
-        }],
-        subtotal: taxCalc.subtotal,
-        gst: taxCalc.gstAmount,
-        pst: taxCalc.pstAmount,
-        hst: taxCalc.hstAmount,
-        totalTax: taxCalc.totalTax,
-        total: taxCalc.total,
-        isExempt: taxCalc.isExempt,
-        exemptionReason: taxCalc.exemptionReason,
+        items: transaction.lines,
+        subtotal: Number(transaction.subtotal),
+        gst: Number(transaction.gstAmount),
+        pst: Number(transaction.pstAmount),
+        qst: Number(transaction.qstAmount),
+        hst: Number(transaction.hstAmount),
+        totalTax: Number(transaction.totalTax),
+        total: Number(transaction.total),
+        isExempt: Number(transaction.relievedTax) > 0,
+        exemptionEvidenceId: transaction.exemptionEvidenceId,
       };
     } catch (error) {
       logger.error('Failed to generate tax invoice', error);
@@ -388,12 +448,10 @@ export class TaxService {
 // Export convenience function
 export async function calculateTax(
   amount: number,
-  province: string,
-  businessId?: string,
-  isIndigenous?: boolean
+  province: string
 ): Promise<number> {
-  const calculation = await TaxService.calculateTax(amount, province, businessId, isIndigenous);
+  const calculation = await TaxService.calculateTax(amount, province);
   return calculation.totalTax;
 }
 
-export default TaxService;
\ No newline at end of file
+export default TaxService;
@@ -138,4 +138,75 @@ export interface TaxExemption {
   reason?: string;
   certificateNumber?: string;
   validUntil?: Date;
-}
\ No newline at end of file
+}
+// Provider adapters plugged into the provider registry
+export type ChargeStatus = 'succeeded' | 'failed' | 'requires_action' | 'processing';
+
+export interface ChargeRequest {
+  paymentId: string;
+  amount: number;
+  currency: string;
+  description?: string;
+  paymentMethod?: string; // Provider token, nonce or sandbox test token
+  isIndigenousBusiness?: boolean;
+  bandNumber?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface ChargeResult {
+  status: ChargeStatus;
+  transactionId: string | null;
+  response?: any;
+  error?: string | null;
+  nextAction?: {
+    type: 'three_d_secure' | 'redirect';
+    url: string;
+  };
+}
+
+export interface ProviderRefundResult {
+  success: boolean;
+  refundId: string | null;
+}
+
+export type ProviderEventType =
+  | 'payment.succeeded'
+  | 'payment.failed'
+  | 'payment.action_required'
+  | 'refund.succeeded'
+  | 'refund.failed';
+
+export interface ProviderEvent {
+  id: string;
+  provider: string;
+  type: ProviderEventType;
+  transactionId: string;
+  occurredAt: Date;
+  data?: Record<string, any>;
+}
+
+export interface PaymentProviderAdapter {
+  readonly name: string;
+  // Omitted means the adapter accepts any currency
+  readonly currencies?: string[];
+  charge(request: ChargeRequest): Promise<ChargeResult>;
+  // Omitted when the provider's refunds are not supported through the platform
+  refund?(transactionId: string, amount: number, currency: string): Promise<ProviderRefundResult>;
+  parseWebhook?(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): ProviderEvent | null;
+}
+
+export interface ProviderRoutingRule {
+  provider: string;
+  currencies?: string[];
+  minAmount?: number;
+  maxAmount?: number;
+  payerTypes?: string[];
+  methods?: string[];
+}
+
+export interface ProviderRoutingContext {
+  amount: number;
+  currency: string;
+  payerType: string;
+  method?: string;
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAccountingExport,
+  formatDate,
+  ledgerEntryToJournal,
+  resolveMapping,
+  ExportBundle,
+  LedgerEntryForExport
+} from '../accounting-export';
+
+const day = (iso: string) => new Date(`${iso}T12:00:00Z`);
+
+const bundle: ExportBundle = {
+  invoices: [{
+    id: 'inv_1',
+    number: 'INV-2026-00001',
+    date: day('2026-03-02'),
+    dueDate: day('2026-04-01'),
+    customer: 'Northern Builders, Ltd.',
+    currency: 'CAD',
+    lines: [
+      { description: 'Site survey', quantity: 2, unitPrice: '500', amount: '1000.00', gstHst: '130.00', pst: 0, qst: 0, category: 'standard' },
+      { description: 'Export freight', quantity: 1, unitPrice: '200', amount: '200.00', gstHst: 0, pst: 0, qst: 0, category: 'zero_rated' }
+    ]
+  }],
+  payments: [
+    { id: 'pay_1', date: day('2026-03-10'), customer: 'Northern Builders, Ltd.', amount: '1330.00', currency: 'CAD', reference: 'pay_1', invoiceNumber: 'INV-2026-00001', depositTo: 'platform_clearing' },
+    { id: 'ip_2', date: day('2026-03-11'), customer: '=HYPERLINK("x")', amount: '50.00', currency: 'CAD', reference: 'cheque 114' }
+  ],
+  journals: [{
+    id: 'fees_pay_1',
+    date: day('2026-03-10'),
+    memo: 'Fees on payment pay_1',
+    currency: 'CAD',
+    lines: [
+      { account: 'processing_fees', debit: '38.87' },
+      { account: 'platform_fees', debit: '13.30' },
+      { account: 'platform_clearing', credit: '52.17' }
+    ]
+  }]
+};
+
+describe('resolveMapping', () => {
+  it('layers overrides on the format defaults', () => {
+    const mapping = resolveMapping('XERO_CSV', { accounts: { sales: '210' }, dateFormat: 'YYYY-MM-DD' });
+    expect(mapping.accounts.sales).toBe('210');
+    expect(mapping.accounts.bank).toBe('090');
+    expect(mapping.dateFormat).toBe('YYYY-MM-DD');
+  });
+
+  it('rejects keys it does not know', () => {
+    expect(() => resolveMapping('SAGE_CSV', { accounts: { slaes: '4000' } })).toThrow('slaes');
+  });
+
+  it('formats dates per region', () => {
+    expect(formatDate(day('2026-03-02'), 'MM/DD/YYYY')).toBe('03/02/2026');
+    expect(formatDate(day('2026-03-02'), 'DD/MM/YYYY')).toBe('02/03/2026');
+  });
+});
+
+describe('buildAccountingExport', () => {
+  it('writes balanced IIF transactions', () => {
+    const [file] = buildAccountingExport('QUICKBOOKS_IIF', bundle);
+    const blocks = file.content.split('ENDTRNS\r\n').slice(1, -1);
+
+    expect(blocks).toHaveLength(4);
+    for (const block of blocks) {
+      const total = block.trim().split('\r\n')
+        .map(row => Number(row.split('\t')[5]))
+        .reduce((sum, amount) => sum + amount, 0);
+      expect(total).toBeCloseTo(0, 2);
+    }
+    expect(file.content).toContain('TRNS\tINVOICE\t03/02/2026\tAccounts Receivable\tNorthern Builders, Ltd.\t1330.00');
+    expect(file.content).toContain('SPL\tINVOICE\t03/02/2026\tGST/HST Payable\tNorthern Builders, Ltd.\t-130.00');
+    expect(file.content).toContain('TRNS\tPAYMENT\t03/10/2026\tDue from Indigenious');
+  });
+
+  it('writes Xero invoices, a statement per receiving account and manual journals', () => {
+    const files = buildAccountingExport('XERO_CSV', bundle);
+    expect(files.map(file => file.fileName)).toEqual([
+      'sales-invoices.csv',
+      'bank-statement-615.csv',
+      'bank-statement-090.csv',
+      'manual-journals.csv'
+    ]);
+
+    const invoices = files[0].content.split('\r\n');
+    expect(invoices[1]).toBe('"Northern Builders, Ltd.",INV-2026-00001,,02/03/2026,01/04/2026,Site survey,2,500,200,Tax on Sales,130.00,CAD');
+    expect(invoices[2]).toContain('Zero Rated,0.00');
+    expect(files[2].content).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(files[3].content).toContain('Fees on payment pay_1,10/03/2026,,615,Tax Exempt,-52.17');
+  });
+
+  it('writes Sage audit trail rows with short account references', () => {
+    const [file] = buildAccountingExport('SAGE_CSV', bundle);
+    const rows = file.content.trim().split('\r\n');
+
+    expect(rows[1]).toBe('SI,NORTHERN,4000,02/03/2026,INV-2026-00001,Site survey,1000.00,T1,130.00');
+    expect(rows[3]).toBe('SR,NORTHERN,1150,10/03/2026,INV-2026-00001,Payment pay_1,1330.00,T9,0.00');
+    expect(rows.filter(row => row.startsWith('JD'))).toHaveLength(2);
+  });
+
+  it('refuses journals that do not balance', () => {
+    const broken = { ...bundle, journals: [{ ...bundle.journals[0], lines: bundle.journals[0].lines.slice(1) }] };
+    expect(() => buildAccountingExport('QUICKBOOKS_CSV', broken)).toThrow('does not balance');
+  });
+});
+
+describe('ledgerEntryToJournal', () => {
+  const entry = (overrides: Partial<LedgerEntryForExport>): LedgerEntryForExport => ({
+    id: 'je_1',
+    source: 'escrow',
+    event: 'milestone_release:ms_1',
+    description: 'Milestone released',
+    currency: 'CAD',
+    effectiveAt: day('2026-05-01'),
+    lines: [],
+    ...overrides
+  });
+
+  it('books a milestone release as income less the fees kept', () => {
+    const journal = ledgerEntryToJournal(entry({
+      lines: [
+        { account: 'liability:escrow:esc_1', debit: '1000.00', credit: 0 },
+        { account: 'revenue:fees:transaction', debit: 0, credit: '25.00' },
+        { account: 'liability:payable:biz_1', debit: 0, credit: '975.00' }
+      ]
+    }), 'biz_1');
+
+    expect(journal?.lines.map(line => [line.account, String(line.debit || ''), String(line.credit || '')])).toEqual([
+      ['platform_clearing', '975', ''],
+      ['escrow_fees', '25', ''],
+      ['escrow_releases', '', '1000']
+    ]);
+  });
+
+  it('moves disbursements to the bank and returned payouts back', () => {
+    const disbursed = ledgerEntryToJournal(entry({
+      event: 'disbursed',
+      lines: [
+        { account: 'liability:payable:biz_1', debit: '975.00', credit: 0 },
+        { account: 'asset:cash:trust', debit: 0, credit: '975.00' }
+      ]
+    }), 'biz_1');
+    expect(disbursed?.lines.map(line => line.account)).toEqual(['bank', 'platform_clearing']);
+
+    const returned = ledgerEntryToJournal(entry({
+      source: 'eft_payout',
+      event: 'returned',
+      lines: [
+        { account: 'asset:cash:trust', debit: '975.00', credit: 0 },
+        { account: 'liability:payable:biz_1', debit: 0, credit: '975.00' }
+      ]
+    }), 'biz_1');
+    expect(returned?.lines.map(line => line.account)).toEqual(['platform_clearing', 'bank']);
+  });
+
+  it('ignores entries for other parties and other events', () => {
+    const lines = [{ account: 'liability:payable:biz_2', debit: 0, credit: '10.00' }];
+    expect(ledgerEntryToJournal(entry({ lines }), 'biz_1')).toBeNull();
+    expect(ledgerEntryToJournal(entry({ source: 'dispute', event: 'released', lines }), 'biz_2')).toBeNull();
+  });
+});
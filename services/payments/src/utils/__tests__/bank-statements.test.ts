@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import Decimal from 'decimal.js';
+import {
+  autoMatch,
+  parseBai2,
+  parseCamt053,
+  parseCsvStatement,
+  referenceSimilarity,
+  MatchCandidate,
+  StatementParseError
+} from '../bank-statements';
+
+const camt = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>STMT-2024-03-05</Id>
+      <FrToDt><FrDtTm>2024-03-05T00:00:00Z</FrDtTm><ToDtTm>2024-03-05T23:59:59Z</ToDtTm></FrToDt>
+      <Acct><Id><Othr><Id>00123-4567890</Id></Othr></Id><Ccy>CAD</Ccy></Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="CAD">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2024-03-05</Dt></Dt>
+      </Bal>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="CAD">2222.50</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2024-03-05</Dt></Dt>
+      </Bal>
+      <Ntry>
+        <Amt Ccy="CAD">1250.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <BookgDt><Dt>2024-03-05</Dt></BookgDt>
+        <ValDt><Dt>2024-03-05</Dt></ValDt>
+        <AcctSvcrRef>BNK-001</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>PAY-1709600000000-ab12cd34</EndToEndId></Refs>
+          <RltdPties><Dbtr><Nm>Northern Supply &amp; Co</Nm></Dbtr></RltdPties>
+          <RmtInf><Ustrd>INV 4471</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="CAD">27.50</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><Dt>2024-03-05</Dt></BookgDt>
+        <AcctSvcrRef>BNK-002</AcctSvcrRef>
+        <AddtlNtryInf>MONTHLY ACCOUNT FEE</AddtlNtryInf>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const bai2 = [
+  '01,BANKID,CUSTID,240305,0600,1,,,2/',
+  '02,CUSTID,BANKID,1,240305,0600,CAD,2/',
+  '03,00123-4567890,CAD,010,100000,,Z,015,222250,,Z/',
+  '16,165,125000,Z,BNK-001,PAY-1709600000000-ab12cd34,Interac e-Transfer from Northern Supply/',
+  '88,INV 4471, March/',
+  '16,475,2750,V,240306,,BNK-002,,MONTHLY ACCOUNT FEE/',
+  '49,544500,4/',
+  '98,544500,1,6/',
+  '99,544500,1,8/'
+].join('\n');
+
+const candidates: MatchCandidate[] = [
+  {
+    paymentId: 'p1',
+    amount: '1250.00',
+    processingFee: '36.55',
+    currency: 'CAD',
+    processedAt: new Date('2024-03-04T16:00:00Z'),
+    references: ['PAY-1709600000000-ab12cd34', 'pi_3Ox1']
+  },
+  {
+    paymentId: 'p2',
+    amount: '480.00',
+    processingFee: '14.22',
+    currency: 'CAD',
+    processedAt: new Date('2024-03-04T18:00:00Z'),
+    references: ['PAY-1709610000000-ef56ab78']
+  }
+];
+
+describe('Bank statement parsing', () => {
+  it('parses CAMT.053 entries, balances and references', () => {
+    const statement = parseCamt053(camt);
+
+    expect(statement.statementId).toBe('STMT-2024-03-05');
+    expect(statement.accountId).toBe('00123-4567890');
+    expect(statement.openingBalance?.toFixed(2)).toBe('1000.00');
+    expect(statement.closingBalance?.toFixed(2)).toBe('2222.50');
+    expect(statement.lines).toHaveLength(2);
+    expect(statement.lines[0]).toMatchObject({
+      lineRef: 'BNK-001',
+      direction: 'CREDIT',
+      reference: 'PAY-1709600000000-ab12cd34',
+      counterparty: 'Northern Supply & Co',
+      description: 'INV 4471'
+    });
+    expect(statement.lines[1].direction).toBe('DEBIT');
+    expect(statement.lines[1].description).toBe('MONTHLY ACCOUNT FEE');
+  });
+
+  it('parses BAI2 detail records with continuations and funds types', () => {
+    const statement = parseBai2(bai2);
+
+    expect(statement.accountId).toBe('00123-4567890');
+    expect(statement.openingBalance?.toFixed(2)).toBe('1000.00');
+    expect(statement.lines).toHaveLength(2);
+    expect(statement.lines[0].amount.toFixed(2)).toBe('1250.00');
+    expect(statement.lines[0].reference).toBe('PAY-1709600000000-ab12cd34');
+    expect(statement.lines[0].description).toBe('Interac e-Transfer from Northern Supply,INV 4471, March');
+    expect(statement.lines[1]).toMatchObject({ lineRef: 'BNK-002', direction: 'DEBIT' });
+    expect(statement.lines[1].valueDate?.toISOString()).toBe('2024-03-06T00:00:00.000Z');
+  });
+
+  it('parses CSV with split debit/credit columns and quoted fields', () => {
+    const statement = parseCsvStatement(
+      [
+        'Posting Date,Description,Withdrawals,Deposits,Reference',
+        '03/05/2024,"Deposit, Northern Supply",,"1,250.00",PAY-1709600000000-ab12cd34',
+        '03/05/2024,Monthly account fee,27.50,,'
+      ].join('\n'),
+      { dateFormat: 'MDY' }
+    );
+
+    expect(statement.lines).toHaveLength(2);
+    expect(statement.lines[0]).toMatchObject({ direction: 'CREDIT', description: 'Deposit, Northern Supply' });
+    expect(statement.lines[0].amount.toFixed(2)).toBe('1250.00');
+    expect(statement.lines[0].bookingDate.toISOString()).toBe('2024-03-05T00:00:00.000Z');
+    expect(statement.lines[1].direction).toBe('DEBIT');
+  });
+
+  it('rejects files that are not the declared format', () => {
+    expect(() => parseCamt053('<Document/>')).toThrow(StatementParseError);
+    expect(() => parseBai2('16,165,100,Z/')).toThrow(StatementParseError);
+    expect(() => parseCsvStatement('Foo,Bar\n1,2')).toThrow(StatementParseError);
+  });
+});
+
+describe('Statement matching', () => {
+  it('scores truncated and mistyped references', () => {
+    expect(referenceSimilarity('Deposit PAY1709600000000AB12CD34', ['PAY-1709600000000-ab12cd34'])).toBe(1);
+    expect(referenceSimilarity('PAY-17096000000', ['PAY-1709600000000-ab12cd34'])).toBeGreaterThan(0);
+    expect(referenceSimilarity('PAY-1709600000000-ab12cd35', ['PAY-1709600000000-ab12cd34'])).toBeGreaterThan(0.8);
+    expect(referenceSimilarity('unrelated text', ['PAY-1709600000000-ab12cd34'])).toBe(0);
+  });
+
+  it('matches by amount, date and reference and leaves the rest unmatched', () => {
+    const statement = parseCamt053(camt);
+    const result = autoMatch(statement.lines, candidates);
+
+    expect(result.matches).toEqual([
+      expect.objectContaining({ lineRef: 'BNK-001', paymentId: 'p1', reasons: expect.arrayContaining(['AMOUNT_EXACT', 'REFERENCE_EXACT']) })
+    ]);
+    expect(result.unmatchedLines).toEqual(['BNK-002']);
+    expect(result.unmatchedPayments).toEqual(['p2']);
+  });
+
+  it('matches deposits settled net of processing fees', () => {
+    const line = {
+      lineRef: 'L1',
+      bookingDate: new Date('2024-03-05T00:00:00Z'),
+      direction: 'CREDIT' as const,
+      amount: new Decimal('465.78'),
+      currency: 'CAD',
+      description: 'STRIPE PAYOUT PAY-1709610000000-ef56ab78'
+    };
+
+    const result = autoMatch([line], candidates);
+
+    expect(result.matches[0]).toMatchObject({ paymentId: 'p2', reasons: expect.arrayContaining(['AMOUNT_NET_OF_FEES']) });
+  });
+
+  it('leaves a line for review when two payments are equally likely', () => {
+    const line = {
+      lineRef: 'L1',
+      bookingDate: new Date('2024-03-05T00:00:00Z'),
+      direction: 'CREDIT' as const,
+      amount: new Decimal('300.00'),
+      currency: 'CAD'
+    };
+    const twins = ['a', 'b'].map(paymentId => ({
+      paymentId,
+      amount: '300.00',
+      currency: 'CAD',
+      processedAt: new Date('2024-03-05T10:00:00Z'),
+      references: []
+    }));
+
+    const result = autoMatch([line], twins);
+
+    expect(result.matches).toHaveLength(0);
+    expect(result.unmatchedLines).toEqual(['L1']);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assertMediationConsent,
+  onDeadlineMissed,
+  planAction,
+  splitFrozenFunds,
+  stateAfterEvidence,
+  stateDeadline,
+  DisputeCaseError
+} from '../disputes';
+
+const opened = new Date('2026-04-01T12:00:00Z');
+
+describe('planAction', () => {
+  it('moves a case through review and mediation', () => {
+    expect(planAction('request_evidence', 'OPENED', 'officer')).toBe('EVIDENCE_REQUESTED');
+    expect(planAction('submit_evidence', 'EVIDENCE_REQUESTED', 'respondent')).toBe('EVIDENCE_REQUESTED');
+    expect(planAction('assign_mediator', 'UNDER_REVIEW', 'officer')).toBe('MEDIATION');
+    expect(planAction('end_mediation', 'MEDIATION', 'mediator')).toBe('UNDER_REVIEW');
+    expect(planAction('resolve', 'MEDIATION', 'mediator')).toBe('RESOLVED');
+  });
+
+  it('keeps each decision with the right role', () => {
+    expect(() => planAction('resolve', 'UNDER_REVIEW', 'claimant')).toThrow('A claimant cannot resolve');
+    expect(() => planAction('resolve', 'MEDIATION', 'officer')).toThrow('resolved by its mediator');
+    expect(() => planAction('resolve', 'UNDER_REVIEW', 'mediator')).toThrow('only resolve a case in mediation');
+    expect(() => planAction('withdraw', 'OPENED', 'respondent')).toThrow(DisputeCaseError);
+  });
+
+  it('refuses actions on resolved cases', () => {
+    expect(() => planAction('submit_evidence', 'RESOLVED', 'claimant')).toThrow('while the case is RESOLVED');
+    expect(() => planAction('assign_mediator', 'OPENED', 'officer')).toThrow('while the case is OPENED');
+  });
+});
+
+describe('deadlines', () => {
+  it('gives each state its window and Elder mediation a longer one', () => {
+    expect(stateDeadline('OPENED', opened)?.toISOString()).toBe('2026-04-08T12:00:00.000Z');
+    expect(stateDeadline('MEDIATION', opened, { mediatorType: 'PLATFORM' })?.toISOString()).toBe('2026-05-01T12:00:00.000Z');
+    expect(stateDeadline('MEDIATION', opened, { mediatorType: 'COMMUNITY_ELDER' })?.toISOString()).toBe('2026-05-31T12:00:00.000Z');
+    expect(stateDeadline('RESOLVED', opened)).toBeNull();
+  });
+
+  it('bounds custom evidence windows', () => {
+    expect(stateDeadline('EVIDENCE_REQUESTED', opened, { days: 5 })?.toISOString()).toBe('2026-04-06T12:00:00.000Z');
+    expect(() => stateDeadline('EVIDENCE_REQUESTED', opened, { days: 1 })).toThrow('3 to 30 days');
+  });
+
+  it('escalates unanswered cases and flags overdue decisions', () => {
+    expect(onDeadlineMissed('OPENED')).toEqual({ escalateTo: 'UNDER_REVIEW', overdue: false });
+    expect(onDeadlineMissed('EVIDENCE_REQUESTED')).toEqual({ escalateTo: 'UNDER_REVIEW', overdue: false });
+    expect(onDeadlineMissed('MEDIATION')).toEqual({ escalateTo: null, overdue: true });
+  });
+});
+
+describe('evidence and mediation', () => {
+  it('moves to review once the requested evidence is in', () => {
+    expect(stateAfterEvidence('OPENED', 'respondent', [])).toBe('UNDER_REVIEW');
+    expect(stateAfterEvidence('OPENED', 'claimant', [])).toBe('OPENED');
+    expect(stateAfterEvidence('EVIDENCE_REQUESTED', 'claimant', ['claimant', 'respondent'])).toBe('EVIDENCE_REQUESTED');
+    expect(stateAfterEvidence('EVIDENCE_REQUESTED', 'respondent', ['respondent'])).toBe('UNDER_REVIEW');
+  });
+
+  it('needs both parties to agree to Elder mediation', () => {
+    expect(() => assertMediationConsent('PLATFORM', [])).not.toThrow();
+    expect(() => assertMediationConsent('COMMUNITY_ELDER', [
+      { party: 'claimant', mediatorType: 'COMMUNITY_ELDER' },
+      { party: 'respondent', mediatorType: 'PLATFORM' }
+    ])).toThrow('consent of the respondent');
+    expect(() => assertMediationConsent('COMMUNITY_ELDER', [
+      { party: 'claimant', mediatorType: 'COMMUNITY_ELDER' },
+      { party: 'respondent', mediatorType: 'COMMUNITY_ELDER' }
+    ])).not.toThrow();
+  });
+});
+
+describe('splitFrozenFunds', () => {
+  it('splits by amount or percentage and always adds back up', () => {
+    const byAmount = splitFrozenFunds('1000.00', { toClaimant: '250.555' }, 'CAD');
+    expect([byAmount.toClaimant.toFixed(2), byAmount.toRespondent.toFixed(2), byAmount.outcome]).toEqual(['250.56', '749.44', 'SPLIT']);
+
+    const byPercent = splitFrozenFunds('333.33', { claimantPercent: 50 }, 'CAD');
+    expect(byPercent.toClaimant.add(byPercent.toRespondent).toFixed(2)).toBe('333.33');
+    expect(byPercent.toClaimant.toFixed(2)).toBe('166.67');
+  });
+
+  it('names whole awards for one side', () => {
+    expect(splitFrozenFunds('500', { claimantPercent: 100 }, 'CAD').outcome).toBe('CLAIMANT');
+    expect(splitFrozenFunds('500', { toClaimant: 0 }, 'CAD').outcome).toBe('RESPONDENT');
+  });
+
+  it('rejects awards outside the frozen amount', () => {
+    expect(() => splitFrozenFunds('500', { toClaimant: '500.01' }, 'CAD')).toThrow('between 0 and 500');
+    expect(() => splitFrozenFunds('500', { toClaimant: 1, claimantPercent: 1 }, 'CAD')).toThrow('either');
+    expect(() => splitFrozenFunds('500', { claimantPercent: 120 }, 'CAD')).toThrow('between 0 and 100');
+  });
+});
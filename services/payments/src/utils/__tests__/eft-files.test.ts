@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCpa005File,
+  buildPain001File,
+  cpaJulianDate,
+  parseCpa005Returns,
+  parsePain002Returns,
+  validateBankAccount,
+  EftFileError,
+  PayoutFileParams
+} from '../eft-files';
+
+const params: PayoutFileParams = {
+  originator: {
+    originatorId: 'INDIG00001',
+    shortName: 'Indigenious',
+    longName: 'Indigenious Platform Inc',
+    destinationDataCentre: '00310',
+    account: { institutionNumber: '003', transitNumber: '00011', accountNumber: '1234567' }
+  },
+  fileCreationNumber: 42,
+  creationDate: new Date('2024-03-05T12:00:00Z'),
+  dueDate: new Date('2024-03-07T00:00:00Z'),
+  currency: 'CAD',
+  items: [
+    {
+      reference: 'PO1A2B3C4D5E6F7G8H9',
+      payeeName: 'Nêhiyaw Construction Ltd',
+      amount: '1250.00',
+      account: { institutionNumber: '001', transitNumber: '12345', accountNumber: '9876543210' },
+      remittance: 'Invoice 1001'
+    },
+    {
+      reference: 'PO2B3C4D5E6F7G8H9I0',
+      payeeName: 'Mi\'kmaq Supply Co',
+      amount: '99.99',
+      account: { institutionNumber: '004', transitNumber: '54321', accountNumber: '5550001' }
+    }
+  ]
+};
+
+describe('cpaJulianDate', () => {
+  it('formats as 0YYDDD', () => {
+    expect(cpaJulianDate(new Date('2024-01-01T00:00:00Z'))).toBe('024001');
+    expect(cpaJulianDate(new Date('2024-12-31T00:00:00Z'))).toBe('024366');
+  });
+});
+
+describe('buildCpa005File', () => {
+  const records = buildCpa005File(params).split('\r\n').filter(Boolean);
+
+  it('writes fixed-length header, credit and trailer records', () => {
+    expect(records.map(record => record[0])).toEqual(['A', 'C', 'Z']);
+    records.forEach(record => expect(record).toHaveLength(1464));
+    expect(records[0].slice(0, 24)).toBe('A000000001INDIG000010042');
+    expect(records[0].slice(24, 30)).toBe('024065');
+  });
+
+  it('lays out each credit segment', () => {
+    const segment = records[1].slice(24, 264);
+    expect(segment.slice(0, 3)).toBe('450');
+    expect(segment.slice(3, 13)).toBe('0000125000');
+    expect(segment.slice(13, 19)).toBe('024067');
+    expect(segment.slice(19, 28)).toBe('000112345');
+    expect(segment.slice(28, 40)).toBe('9876543210  ');
+    expect(segment.slice(80, 110).trim()).toBe('NEHIYAW CONSTRUCTION LTD');
+    expect(segment.slice(150, 169)).toBe('PO1A2B3C4D5E6F7G8H9');
+  });
+
+  it('totals credits in the trailer', () => {
+    const trailer = records[2];
+    expect(trailer.slice(46, 60)).toBe('00000000134999');
+    expect(trailer.slice(60, 68)).toBe('00000002');
+  });
+
+  it('rejects amounts with fractional cents', () => {
+    expect(() => buildCpa005File({
+      ...params,
+      items: [{ ...params.items[0], amount: '10.005' }]
+    })).toThrow(EftFileError);
+  });
+});
+
+describe('buildPain001File', () => {
+  it('writes group and payment totals', () => {
+    const file = buildPain001File({ ...params, messageId: 'EFT1' });
+    expect(file).toContain('pain.001.001.03');
+    expect(file.match(/<CtrlSum>1349.99<\/CtrlSum>/g)).toHaveLength(2);
+    expect(file.match(/<NbOfTxs>2<\/NbOfTxs>/g)).toHaveLength(2);
+    expect(file).toContain('<MmbId>000112345</MmbId>');
+    expect(file).toContain('<Nm>Mi&apos;kmaq Supply Co</Nm>');
+  });
+});
+
+describe('parseCpa005Returns', () => {
+  it('reads returned items with their reason', () => {
+    const credit = buildCpa005File(params).split('\r\n')[1];
+    const segment = credit.slice(24, 264);
+    const returned = 'I' + credit.slice(1, 24) + segment.slice(0, 229) + '00000000905';
+
+    const items = parseCpa005Returns(returned);
+    expect(items).toHaveLength(1);
+    expect(items[0].reference).toBe('PO1A2B3C4D5E6F7G8H9');
+    expect(items[0].amount.toFixed(2)).toBe('1250.00');
+    expect(items[0].reasonCode).toBe('905');
+    expect(items[0].retryable).toBe(false);
+  });
+});
+
+describe('parsePain002Returns', () => {
+  it('keeps only rejected transactions', () => {
+    const report = `<Document><CstmrPmtStsRpt>
+      <OrgnlPmtInfAndSts>
+        <TxInfAndSts>
+          <OrgnlEndToEndId>PO1A2B3C4D5E6F7G8H9</OrgnlEndToEndId>
+          <TxSts>RJCT</TxSts>
+          <StsRsnInf><Rsn><Cd>AM04</Cd></Rsn></StsRsnInf>
+          <OrgnlTxRef><Amt><InstdAmt Ccy="CAD">1250.00</InstdAmt></Amt></OrgnlTxRef>
+        </TxInfAndSts>
+        <TxInfAndSts>
+          <OrgnlEndToEndId>PO2B3C4D5E6F7G8H9I0</OrgnlEndToEndId>
+          <TxSts>ACSC</TxSts>
+        </TxInfAndSts>
+      </OrgnlPmtInfAndSts>
+    </CstmrPmtStsRpt></Document>`;
+
+    const items = parsePain002Returns(report);
+    expect(items).toHaveLength(1);
+    expect(items[0].reasonCode).toBe('AM04');
+    expect(items[0].amount.toFixed(2)).toBe('1250.00');
+    expect(items[0].retryable).toBe(true);
+  });
+});
+
+describe('validateBankAccount', () => {
+  it('rejects malformed routing details', () => {
+    expect(() => validateBankAccount({ institutionNumber: '1', transitNumber: '12345', accountNumber: '1234567' }))
+      .toThrow('Institution number');
+    expect(() => validateBankAccount({ institutionNumber: '001', transitNumber: '123', accountNumber: '1234567' }))
+      .toThrow('Transit number');
+    expect(() => validateBankAccount({ institutionNumber: '001', transitNumber: '12345', accountNumber: '12' }))
+      .toThrow('Account number');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertAmount,
+  findRate,
+  normalizeCurrency,
+  parseRateFile,
+  realizedGainLoss,
+  revalueOpenItems,
+  FxError,
+  FxRate
+} from '../fx';
+
+const rates: FxRate[] = [
+  { base: 'USD', quote: 'CAD', rate: '1.3600', date: '2026-03-02', source: 'BOC' },
+  { base: 'USD', quote: 'CAD', rate: '1.3700', date: '2026-03-06', source: 'BOC' },
+  { base: 'EUR', quote: 'CAD', rate: '1.4800', date: '2026-03-06', source: 'BOC' },
+  { base: 'CAD', quote: 'JPY', rate: '110', date: '2026-03-06', source: 'FILE' }
+];
+
+describe('parseRateFile', () => {
+  it('reads Bank of Canada Valet JSON and skips unknown series', () => {
+    const parsed = parseRateFile(JSON.stringify({
+      observations: [
+        { d: '2026-03-06', FXUSDCAD: { v: '1.3700' }, FXEURCAD: { v: '1.4800' }, FXZARCAD: { v: '0.075' } }
+      ]
+    }), 'boc_valet_json', 'BOC');
+
+    expect(parsed).toEqual([
+      { base: 'USD', quote: 'CAD', rate: '1.37', date: '2026-03-06', source: 'BOC' },
+      { base: 'EUR', quote: 'CAD', rate: '1.48', date: '2026-03-06', source: 'BOC' }
+    ]);
+  });
+
+  it('reads the observations section of a Valet CSV export', () => {
+    const parsed = parseRateFile([
+      '"SERIES"',
+      '"id","label","description"',
+      '"FXUSDCAD","USD/CAD","US dollar to Canadian dollar daily exchange rate"',
+      '',
+      '"OBSERVATIONS"',
+      '"date","FXUSDCAD","FXEURCAD"',
+      '"2026-03-05","1.3650",""',
+      '"2026-03-06","1.3700","1.4800"'
+    ].join('\n'), 'boc_valet_csv');
+
+    expect(parsed.map(rate => `${rate.date} ${rate.base}${rate.quote} ${rate.rate}`)).toEqual([
+      '2026-03-05 USDCAD 1.365',
+      '2026-03-06 USDCAD 1.37',
+      '2026-03-06 EURCAD 1.48'
+    ]);
+  });
+
+  it('rejects plain CSV rows with bad rates or currencies', () => {
+    expect(parseRateFile('date,base,quote,rate\n2026-03-06,usd,cad,1.37', 'csv')[0]).toMatchObject({ base: 'USD', quote: 'CAD' });
+    expect(() => parseRateFile('date,base,quote,rate\n2026-03-06,USD,CAD,-1', 'csv')).toThrow('line 2');
+    expect(() => parseRateFile('date,base,quote,rate\n2026-03-06,USD,XXX,1', 'csv')).toThrow('Unsupported currency');
+    expect(() => parseRateFile('date,base,rate\n', 'csv')).toThrow('quote column');
+  });
+});
+
+describe('findRate', () => {
+  it('uses the latest rate on or before the date, inverted when needed', () => {
+    expect(findRate(rates, 'USD', 'CAD', '2026-03-08').rate.toString()).toBe('1.37');
+    expect(findRate(rates, 'USD', 'CAD', '2026-03-05').rate.toString()).toBe('1.36');
+    expect(findRate(rates, 'CAD', 'USD', '2026-03-06').rate.toFixed(6)).toBe('0.729927');
+  });
+
+  it('crosses through CAD', () => {
+    const rate = findRate(rates, 'USD', 'JPY', '2026-03-06');
+    expect(rate.via).toBe('CAD');
+    expect(rate.rate.toString()).toBe('150.7');
+    expect(rate.source).toBe('BOC+FILE');
+  });
+
+  it('refuses stale or missing rates', () => {
+    expect(() => findRate(rates, 'USD', 'CAD', '2026-03-20')).toThrow(FxError);
+    expect(() => findRate(rates, 'GBP', 'CAD', '2026-03-06')).toThrow('No GBP/CAD rate');
+  });
+});
+
+describe('conversion and gain-loss', () => {
+  it('rounds to the target currency minor units', () => {
+    expect(convertAmount('1000.555', '1.37', 'CAD').toFixed()).toBe('1370.76');
+    expect(convertAmount('10', '150.66', 'JPY').toFixed()).toBe('1507');
+    expect(normalizeCurrency(' usd ')).toBe('USD');
+  });
+
+  it('gains on a receivable when the foreign currency strengthens', () => {
+    expect(realizedGainLoss({ amount: '1000', bookedRate: '1.36', settledRate: '1.37', side: 'receivable' }).toFixed(2)).toBe('10.00');
+    expect(realizedGainLoss({ amount: '1000', bookedRate: '1.36', settledRate: '1.37', side: 'payable' }).toFixed(2)).toBe('-10.00');
+  });
+
+  it('revalues open items by currency and lists unpriced ones', () => {
+    const report = revalueOpenItems([
+      { id: 'inv_1', kind: 'invoice', currency: 'USD', amount: '1000', bookedRate: '1.36', side: 'receivable' },
+      { id: 'inv_2', kind: 'invoice', currency: 'USD', amount: '500', bookedRate: '1.38', side: 'receivable' },
+      { id: 'esc_1', kind: 'escrow', currency: 'GBP', amount: '200', bookedRate: '1.70', side: 'payable' },
+      { id: 'inv_3', kind: 'invoice', currency: 'CAD', amount: '900', bookedRate: '1', side: 'receivable' }
+    ], currency => findRate(rates, currency, 'CAD', '2026-03-06'), new Date('2026-03-06T12:00:00Z'));
+
+    expect(report.currencies).toEqual([{
+      currency: 'USD',
+      rate: '1.37',
+      rateDate: '2026-03-06',
+      exposure: '1500.00',
+      bookedValue: '2050.00',
+      currentValue: '2055.00',
+      gainLoss: '5.00'
+    }]);
+    expect(report.total).toBe('5.00');
+    expect(report.unpriced).toEqual(['GBP']);
+  });
+});
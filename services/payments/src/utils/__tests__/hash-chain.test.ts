@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalJson, nextEvent, verifyChain, ChainEvent, GENESIS_HASH } from '../hash-chain';
+
+function buildChain(types: string[]): ChainEvent[] {
+  const events: ChainEvent[] = [];
+  types.forEach((type, index) => {
+    events.push(nextEvent(events[events.length - 1] || null, {
+      chainId: 'universal_escrow:esc_1',
+      type,
+      payload: { step: index, amount: 1000 * (index + 1) },
+      occurredAt: `2026-05-0${index + 1}T12:00:00.000Z`
+    }));
+  });
+  return events;
+}
+
+describe('canonicalJson', () => {
+  it('sorts keys at every level and drops undefined', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { z: 1, y: undefined }], c: 'x' } }))
+      .toBe('{"a":{"c":"x","d":[2,{"z":1}]},"b":1}');
+    expect(canonicalJson(new Date('2026-05-01T00:00:00Z'))).toBe('"2026-05-01T00:00:00.000Z"');
+  });
+});
+
+describe('hash chains', () => {
+  it('links each event to the one before', () => {
+    const chain = buildChain(['created', 'funded', 'milestone_released']);
+    expect(chain[0].prevHash).toBe(GENESIS_HASH);
+    expect(chain[2].prevHash).toBe(chain[1].hash);
+    expect(verifyChain(chain)).toEqual({ valid: true, length: 3, headHash: chain[2].hash });
+  });
+
+  it('hashes payloads the same after a round trip through storage', () => {
+    const event = nextEvent(null, {
+      chainId: 'security_deposit:dep_1',
+      type: 'held',
+      payload: { heldAt: new Date('2026-05-01T00:00:00Z'), note: undefined },
+      occurredAt: '2026-05-01T00:00:00.000Z'
+    });
+    expect(verifyChain([JSON.parse(JSON.stringify(event))]).valid).toBe(true);
+  });
+
+  it('finds edited, dropped and reordered events', () => {
+    const chain = buildChain(['created', 'funded', 'milestone_released']);
+
+    const edited = chain.map(event => ({ ...event, payload: { ...event.payload } }));
+    edited[1].payload.amount = 1;
+    expect(verifyChain(edited).error).toEqual({ sequence: 2, reason: 'Event contents do not match its hash' });
+
+    expect(verifyChain([chain[0], chain[2]]).error?.reason).toBe('Expected sequence 2, found 3');
+    expect(verifyChain([chain[1], chain[0]]).error?.sequence).toBe(2);
+  });
+
+  it('refuses to mix chains', () => {
+    const chain = buildChain(['created']);
+    expect(() => nextEvent(chain[0], { chainId: 'universal_escrow:esc_2', type: 'funded', payload: {}, occurredAt: '2026-05-02T00:00:00.000Z' }))
+      .toThrow('cannot follow');
+    expect(verifyChain(chain, 'universal_escrow:esc_2').valid).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { nextEvent, ChainEvent } from '../hash-chain';
+import { signCertificate, verifyCertificateBundle, CertificateBody, CertificateBundle } from '../payment-certificates';
+
+const keys = crypto.generateKeyPairSync('ed25519');
+const privateKey = keys.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+const publicKey = keys.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+function append(chain: ChainEvent[], type: string, payload: Record<string, unknown> = {}): ChainEvent[] {
+  return [...chain, nextEvent(chain[chain.length - 1] || null, {
+    chainId: 'universal_escrow:esc_1',
+    type,
+    payload,
+    occurredAt: `2026-05-0${chain.length + 1}T12:00:00.000Z`
+  })];
+}
+
+function issue(): CertificateBundle {
+  let chain = append([], 'created', { governmentCommitment: 500000 });
+  const body: CertificateBody = {
+    certificateNumber: 'PC-1-esc_1',
+    escrowId: 'esc_1',
+    issuedAt: '2026-05-01T12:00:01.000Z',
+    guarantee: { amount: 500000, currency: 'CAD', guarantor: 'ISC', expiryDate: '2027-05-01T00:00:00.000Z', conditions: ['Valid appropriation'] },
+    bankingDetails: { acceptable: true, ltvRatio: 0.8, riskRating: 'A', suggestedRate: 6 },
+    anchor: { chainId: chain[0].chainId, sequence: 1, hash: chain[0].hash }
+  };
+  const certificate = signCertificate(body, privateKey);
+  chain = append(chain, 'certificate_issued', { certificateNumber: body.certificateNumber, digest: certificate.digest });
+  chain = append(chain, 'funded', { amount: 500000 });
+  return { certificate, chain };
+}
+
+const asOf = new Date('2026-06-01T00:00:00Z');
+
+describe('verifyCertificateBundle', () => {
+  it('accepts an untouched bundle and lists later escrow events', () => {
+    const result = verifyCertificateBundle(issue(), publicKey, asOf);
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.eventsSinceIssue.map(event => event.type)).toEqual(['certificate_issued', 'funded']);
+  });
+
+  it('rejects an altered guarantee', () => {
+    const bundle = issue();
+    bundle.certificate.body.guarantee.amount = 5000000;
+    const result = verifyCertificateBundle(bundle, publicKey, asOf);
+    expect(result.checks.digest).toBe(false);
+    expect(result.valid).toBe(false);
+  });
+
+  it('rejects a digest re-signed with another key', () => {
+    const bundle = issue();
+    const forged = signCertificate(bundle.certificate.body, crypto.generateKeyPairSync('ed25519')
+      .privateKey.export({ type: 'pkcs8', format: 'pem' }).toString());
+    const result = verifyCertificateBundle({ ...bundle, certificate: forged }, publicKey, asOf);
+    expect(result.checks.signature).toBe(false);
+    expect(result.errors[0]).toContain('not the key given');
+  });
+
+  it('rejects a rewritten escrow history', () => {
+    const bundle = issue();
+    bundle.chain[0] = { ...bundle.chain[0], payload: { governmentCommitment: 5000000 } };
+    const result = verifyCertificateBundle(bundle, publicKey, asOf);
+    expect(result.checks.chain).toBe(false);
+    expect(result.errors[0]).toContain('broken at event 1');
+  });
+
+  it('reports expiry and revocation', () => {
+    const bundle = issue();
+    expect(verifyCertificateBundle(bundle, publicKey, new Date('2027-06-01T00:00:00Z')).checks.current).toBe(false);
+
+    const revoked = { ...bundle, chain: append(bundle.chain, 'certificate_revoked', { certificateNumber: 'PC-1-esc_1', reason: 'Funding withdrawn' }) };
+    const result = verifyCertificateBundle(revoked, publicKey, asOf);
+    expect(result.checks.notRevoked).toBe(false);
+    expect(result.errors).toEqual(['Certificate revoked on 2026-05-04T12:00:00.000Z: Funding withdrawn']);
+  });
+});
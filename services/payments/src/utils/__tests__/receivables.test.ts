@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  agingBucket,
+  allocatePayment,
+  buildAgingReport,
+  calculateLateFee,
+  dueDateFor,
+  dueDunningStep,
+  earlyPaymentDiscount,
+  formatInvoiceNumber,
+  loadDunningSequence,
+  nextRunDate,
+  DEFAULT_DUNNING_SEQUENCE,
+  OpenInvoice
+} from '../receivables';
+
+const day = (iso: string) => new Date(`${iso}T12:00:00Z`);
+
+describe('invoice numbering and terms', () => {
+  it('formats numbers per year', () => {
+    expect(formatInvoiceNumber('INV', day('2026-03-01'), 42)).toBe('INV-2026-00042');
+  });
+
+  it('derives due dates from payment terms', () => {
+    expect(dueDateFor(day('2026-01-01'), 'net_30')).toEqual(day('2026-01-31'));
+    expect(dueDateFor(day('2026-01-01'), 'due_on_receipt')).toEqual(day('2026-01-01'));
+  });
+
+  it('offers the 2/10 discount only within ten days', () => {
+    expect(earlyPaymentDiscount('2_10_net_30', day('2026-01-01'), day('2026-01-09'), '1000').toFixed(2)).toBe('20.00');
+    expect(earlyPaymentDiscount('2_10_net_30', day('2026-01-01'), day('2026-01-20'), '1000').toFixed(2)).toBe('0.00');
+    expect(earlyPaymentDiscount('net_30', day('2026-01-01'), day('2026-01-02'), '1000').toFixed(2)).toBe('0.00');
+  });
+});
+
+describe('nextRunDate', () => {
+  it('keeps the anchor day across short months', () => {
+    const feb = nextRunDate('MONTHLY', day('2026-01-31'));
+    expect(feb).toEqual(day('2026-02-28'));
+    expect(nextRunDate('MONTHLY', feb, 31)).toEqual(day('2026-03-31'));
+  });
+
+  it('steps weekly, quarterly and yearly', () => {
+    expect(nextRunDate('BIWEEKLY', day('2026-01-01'))).toEqual(day('2026-01-15'));
+    expect(nextRunDate('QUARTERLY', day('2026-11-15'))).toEqual(day('2027-02-15'));
+    expect(nextRunDate('ANNUALLY', day('2028-02-29'))).toEqual(day('2029-02-28'));
+  });
+});
+
+describe('aging', () => {
+  const asOf = day('2026-06-30');
+  const invoices: OpenInvoice[] = [
+    { id: 'a', invoiceNumber: 'INV-1', clientId: 'c1', dueDate: day('2026-07-15'), balanceDue: '100.00' },
+    { id: 'b', invoiceNumber: 'INV-2', clientId: 'c1', dueDate: day('2026-06-10'), balanceDue: '200.00' },
+    { id: 'c', invoiceNumber: 'INV-3', clientId: 'c2', dueDate: day('2026-04-20'), balanceDue: '300.00' },
+    { id: 'd', invoiceNumber: 'INV-4', clientId: 'c2', dueDate: day('2026-01-05'), balanceDue: '400.00' },
+    { id: 'e', invoiceNumber: 'INV-5', clientId: 'c2', dueDate: day('2026-01-05'), balanceDue: '0.00' }
+  ];
+
+  it('places invoices in buckets by days past due', () => {
+    expect(agingBucket(day('2026-06-30'), asOf)).toBe('current');
+    expect(agingBucket(day('2026-05-31'), asOf)).toBe('days_1_30');
+    expect(agingBucket(day('2026-05-30'), asOf)).toBe('days_31_60');
+    expect(agingBucket(day('2026-04-01'), asOf)).toBe('days_61_90');
+    expect(agingBucket(day('2026-03-31'), asOf)).toBe('days_90_plus');
+  });
+
+  it('totals by bucket and client, oldest debt first', () => {
+    const report = buildAgingReport(invoices, asOf);
+    expect(report.totals).toEqual({
+      current: '100.00',
+      days_1_30: '200.00',
+      days_31_60: '0.00',
+      days_61_90: '300.00',
+      days_90_plus: '400.00',
+      total: '1000.00'
+    });
+    expect(report.clients.map(client => client.clientId)).toEqual(['c2', 'c1']);
+    expect(report.invoiceCount).toBe(4);
+  });
+});
+
+describe('calculateLateFee', () => {
+  const base = {
+    balanceDue: '1000.00',
+    dueDate: day('2026-01-01'),
+    periodsCharged: 0,
+    flatFeeCharged: false
+  };
+
+  it('charges nothing within the grace period', () => {
+    const fee = calculateLateFee({ ...base, policy: { monthlyRatePercent: 1.5, graceDays: 5 }, asOf: day('2026-01-05') });
+    expect(fee.amount.toFixed(2)).toBe('0.00');
+  });
+
+  it('charges interest per 30-day period not yet charged', () => {
+    const policy = { monthlyRatePercent: 1.5, flatFee: '25.00' };
+    const first = calculateLateFee({ ...base, policy, asOf: day('2026-01-10') });
+    expect(first).toMatchObject({ periods: 1, flatFee: true });
+    expect(first.amount.toFixed(2)).toBe('40.00');
+
+    const later = calculateLateFee({ ...base, policy, asOf: day('2026-03-15'), periodsCharged: 1, flatFeeCharged: true });
+    expect(later.periods).toBe(2);
+    expect(later.amount.toFixed(2)).toBe('30.00');
+  });
+
+  it('stops at the period cap', () => {
+    const fee = calculateLateFee({
+      ...base,
+      policy: { monthlyRatePercent: 2, maxPeriods: 2 },
+      asOf: day('2026-06-01'),
+      periodsCharged: 2
+    });
+    expect(fee.amount.toFixed(2)).toBe('0.00');
+  });
+});
+
+describe('dueDunningStep', () => {
+  const dueDate = day('2026-03-01');
+
+  it('sends the pre-due reminder, then the overdue notice', () => {
+    expect(dueDunningStep(DEFAULT_DUNNING_SEQUENCE, dueDate, day('2026-02-20'), []).step).toBeUndefined();
+    expect(dueDunningStep(DEFAULT_DUNNING_SEQUENCE, dueDate, day('2026-02-27'), []).step?.id).toBe('upcoming');
+    expect(dueDunningStep(DEFAULT_DUNNING_SEQUENCE, dueDate, day('2026-03-02'), ['upcoming']).step?.id).toBe('overdue');
+  });
+
+  it('jumps to the most advanced step and reports the skipped ones', () => {
+    const { step, skipped } = dueDunningStep(DEFAULT_DUNNING_SEQUENCE, dueDate, day('2026-04-05'), ['upcoming']);
+    expect(step?.id).toBe('final_notice');
+    expect(skipped.map(s => s.id)).toEqual(['overdue', 'second_notice']);
+  });
+
+  it('reads a custom sequence from configuration', () => {
+    const sequence = loadDunningSequence(JSON.stringify([
+      { id: 'late', offsetDays: 7, type: 'invoice.overdue', priority: 'normal' },
+      { id: 'early', offsetDays: -7, type: 'invoice.reminder', priority: 'low' }
+    ]));
+    expect(sequence.map(step => step.id)).toEqual(['early', 'late']);
+    expect(() => loadDunningSequence('[{"id":"x"}]')).toThrow('INVOICE_DUNNING_SEQUENCE');
+  });
+});
+
+describe('allocatePayment', () => {
+  const open: OpenInvoice[] = [
+    { id: 'new', invoiceNumber: 'INV-3', clientId: 'c1', dueDate: day('2026-05-01'), balanceDue: '300.00' },
+    { id: 'old', invoiceNumber: 'INV-1', clientId: 'c1', dueDate: day('2026-03-01'), balanceDue: '100.00' },
+    { id: 'mid', invoiceNumber: 'INV-2', clientId: 'c1', dueDate: day('2026-04-01'), balanceDue: '200.00' }
+  ];
+
+  it('pays the oldest invoices first and keeps the rest as credit', () => {
+    const { allocations, unapplied } = allocatePayment('250.00', open);
+    expect(allocations.map(a => [a.invoiceId, a.amount.toFixed(2)])).toEqual([['old', '100.00'], ['mid', '150.00']]);
+    expect(unapplied.toFixed(2)).toBe('0.00');
+
+    expect(allocatePayment('700.00', open).unapplied.toFixed(2)).toBe('100.00');
+  });
+
+  it('honours requested allocations before the oldest-first rule', () => {
+    const { allocations } = allocatePayment('350.00', open, [{ invoiceId: 'new', amount: '300.00' }]);
+    expect(allocations.map(a => [a.invoiceId, a.amount.toFixed(2)])).toEqual([['new', '300.00'], ['old', '50.00']]);
+  });
+
+  it('rejects allocations larger than the balance or the payment', () => {
+    expect(() => allocatePayment('50.00', open, [{ invoiceId: 'old', amount: '100.00' }])).toThrow();
+    expect(() => allocatePayment('500.00', open, [{ invoiceId: 'old', amount: '150.00' }])).toThrow();
+    expect(() => allocatePayment('10.00', open, [{ invoiceId: 'missing', amount: '5.00' }])).toThrow('not open');
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildGst34Worksheet,
+  calculateInvoiceTax,
+  placeOfSupply,
+  provincialRates,
+  validateExemptionEvidence,
+  ExemptionEvidence,
+  InvoiceTaxInput,
+  TaxEngineError
+} from '../sales-tax';
+
+const date = new Date('2025-06-15T12:00:00Z');
+
+const invoice = (overrides: Partial<InvoiceTaxInput> = {}): InvoiceTaxInput => ({
+  date,
+  billTo: { country: 'CA', province: 'ON' },
+  lines: [{ description: 'Lumber', unitPrice: '100.00', quantity: 2, supplyType: 'goods' }],
+  ...overrides
+});
+
+const statusCard: ExemptionEvidence = {
+  basis: 'section_87_goods',
+  purchaserType: 'status_indian',
+  purchaserName: 'Mary Sinclair',
+  statusCardNumber: '1234567890',
+  reserveName: 'Six Nations of the Grand River',
+  deliveryProof: { method: 'carrier', carrier: 'Purolator', trackingNumber: '329012345678', deliveryAddress: '1695 Chiefswood Rd' },
+  capturedBy: 'clerk-1'
+};
+
+describe('provincialRates', () => {
+  it('picks the rate in force on the date', () => {
+    expect(provincialRates('NS', new Date('2025-03-31T12:00:00Z')).hst).toBe(0.15);
+    expect(provincialRates('NS', new Date('2025-04-01T12:00:00Z')).hst).toBe(0.14);
+  });
+
+  it('does not fall back to another province', () => {
+    expect(() => provincialRates('XX')).toThrow(TaxEngineError);
+  });
+});
+
+describe('placeOfSupply', () => {
+  it('uses the delivery address for goods and the recipient for services', () => {
+    const input = invoice({ shipTo: { country: 'CA', province: 'BC' } });
+    expect(placeOfSupply({ description: 'Goods', unitPrice: 1, supplyType: 'goods' }, input).province).toBe('BC');
+    expect(placeOfSupply({ description: 'Consulting', unitPrice: 1, supplyType: 'services' }, input).province).toBe('ON');
+  });
+
+  it('uses the property location for real property services', () => {
+    const line = {
+      description: 'Roof repair',
+      unitPrice: 1,
+      supplyType: 'real_property' as const,
+      propertyLocation: { country: 'CA', province: 'MB' }
+    };
+    expect(placeOfSupply(line, invoice()).province).toBe('MB');
+    expect(() => placeOfSupply({ ...line, propertyLocation: undefined }, invoice())).toThrow(TaxEngineError);
+  });
+});
+
+describe('calculateInvoiceTax', () => {
+  it('charges HST per line', () => {
+    const result = calculateInvoiceTax(invoice());
+    expect(result.subtotal.toFixed(2)).toBe('200.00');
+    expect(result.hst.toFixed(2)).toBe('26.00');
+    expect(result.total.toFixed(2)).toBe('226.00');
+  });
+
+  it('charges QST on the price before GST', () => {
+    const result = calculateInvoiceTax(invoice({ billTo: { country: 'CA', province: 'QC' } }));
+    expect(result.gst.toFixed(2)).toBe('10.00');
+    expect(result.qst.toFixed(2)).toBe('19.95');
+  });
+
+  it('applies BC PST to goods but not ordinary services', () => {
+    const result = calculateInvoiceTax(invoice({
+      billTo: { country: 'CA', province: 'BC' },
+      lines: [
+        { description: 'Tools', unitPrice: '50.00', supplyType: 'goods' },
+        { description: 'Training', unitPrice: '50.00', supplyType: 'services' }
+      ]
+    }));
+    expect(result.lines[0].pst.toFixed(2)).toBe('3.50');
+    expect(result.lines[1].pst.toFixed(2)).toBe('0.00');
+    expect(result.gst.toFixed(2)).toBe('5.00');
+  });
+
+  it('leaves zero-rated, exempt and exported supplies untaxed', () => {
+    const result = calculateInvoiceTax(invoice({
+      lines: [
+        { description: 'Flour', unitPrice: '20.00', supplyType: 'goods', category: 'zero_rated', categoryReason: 'Basic groceries' },
+        { description: 'Loan fee', unitPrice: '20.00', supplyType: 'services', category: 'exempt' }
+      ]
+    }));
+    expect(result.totalTax.toFixed(2)).toBe('0.00');
+
+    const exported = calculateInvoiceTax(invoice({ shipTo: { country: 'US' } }));
+    expect(exported.lines[0].placeOfSupply).toBe('EXPORT');
+    expect(exported.lines[0].category).toBe('zero_rated');
+  });
+
+  it('relieves goods delivered to a reserve with complete evidence', () => {
+    const result = calculateInvoiceTax(invoice({
+      shipTo: { country: 'CA', province: 'ON', onReserve: true },
+      exemption: statusCard
+    }));
+    expect(result.exemption).toMatchObject({ accepted: true, problems: [] });
+    expect(result.totalTax.toFixed(2)).toBe('0.00');
+    expect(result.exemption!.relievedTax.toFixed(2)).toBe('26.00');
+  });
+
+  it('charges full tax when the evidence is incomplete', () => {
+    const result = calculateInvoiceTax(invoice({
+      shipTo: { country: 'CA', province: 'ON', onReserve: true },
+      exemption: { ...statusCard, statusCardNumber: undefined, deliveryProof: undefined }
+    }));
+    expect(result.exemption!.accepted).toBe(false);
+    expect(result.exemption!.problems).toEqual([
+      'Certificate of Indian Status registration number is required',
+      'Proof of delivery to the reserve is required'
+    ]);
+    expect(result.hst.toFixed(2)).toBe('26.00');
+  });
+
+  it('relieves only the provincial part of HST at an Ontario point of sale', () => {
+    const result = calculateInvoiceTax(invoice({
+      exemption: { ...statusCard, basis: 'ontario_point_of_sale', deliveryProof: undefined }
+    }));
+    expect(result.hst.toFixed(2)).toBe('10.00');
+    expect(result.exemption!.relievedTax.toFixed(2)).toBe('16.00');
+  });
+});
+
+describe('validateExemptionEvidence', () => {
+  it('requires a band certification for band purchases', () => {
+    const problems = validateExemptionEvidence(
+      { ...statusCard, basis: 'band_management', purchaserType: 'band', statusCardNumber: undefined },
+      invoice()
+    );
+    expect(problems).toEqual([
+      'Band name is required for band purchases',
+      'A signed band certification is required for band purchases'
+    ]);
+  });
+});
+
+describe('buildGst34Worksheet', () => {
+  it('nets credit notes and input tax credits', () => {
+    const worksheet = buildGst34Worksheet({
+      periodStart: new Date('2025-04-01T00:00:00Z'),
+      periodEnd: new Date('2025-06-30T00:00:00Z'),
+      entries: [
+        { kind: 'SALE', subtotal: '1000.00', gst: '0', hst: '130.00' },
+        { kind: 'SALE', subtotal: '500.40', gst: '0', hst: '0', zeroRated: '500.40' },
+        { kind: 'CREDIT_NOTE', subtotal: '100.00', gst: '0', hst: '13.00' },
+        { kind: 'PURCHASE', subtotal: '400.00', gst: '20.00', hst: '0' }
+      ],
+      adjustments: { instalments: '50.00' }
+    });
+
+    expect(worksheet.lines).toMatchObject({
+      '101': '1400',
+      '103': '130.00',
+      '104': '-13.00',
+      '105': '117.00',
+      '108': '20.00',
+      '109': '97.00',
+      '113A': '47.00',
+      '113C': '47.00',
+      '114': '0.00',
+      '115': '47.00'
+    });
+    expect(worksheet.supplies.zeroRated).toBe('500.40');
+    expect(worksheet.counts).toEqual({ sales: 2, creditNotes: 1, purchases: 1 });
+  });
+});
@@ -0,0 +1,622 @@
+import Decimal from 'decimal.js';
+
+/**
+ * Accounting Exports
+ * Turns a business's invoices, received payments and journals (fees,
+ * escrow movements) into files its accounting package imports: QuickBooks
+ * Desktop IIF, QuickBooks Online CSV, Xero CSV templates and the Sage
+ * audit trail transaction CSV. Pure functions: AccountingExportService
+ * gathers the records and keeps track of what was already exported
+ */
+
+export type AccountingFormat = 'QUICKBOOKS_IIF' | 'QUICKBOOKS_CSV' | 'XERO_CSV' | 'SAGE_CSV';
+
+export const ACCOUNTING_FORMATS: AccountingFormat[] = ['QUICKBOOKS_IIF', 'QUICKBOOKS_CSV', 'XERO_CSV', 'SAGE_CSV'];
+
+// Platform-side categories a business maps onto its own chart of accounts
+export type AccountKey =
+  | 'accounts_receivable'
+  | 'sales'
+  | 'late_fees'
+  | 'gst_hst_payable'
+  | 'pst_payable'
+  | 'qst_payable'
+  | 'bank'
+  | 'processing_fees'
+  | 'platform_fees'
+  | 'escrow_fees'
+  | 'platform_clearing' // Money the platform holds for the business
+  | 'escrow_releases' // Income from milestone releases; journals cannot post to receivables in Xero
+  | 'security_deposits';
+
+export type TaxCodeKey = 'taxable' | 'zero_rated' | 'exempt' | 'none';
+
+export type DateFormat = 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD';
+
+export interface AccountMapping {
+  accounts: Record<AccountKey, string>;
+  taxCodes: Record<TaxCodeKey, string>;
+  dateFormat: DateFormat;
+}
+
+export interface ExportInvoiceLine {
+  description: string;
+  quantity: Decimal.Value;
+  unitPrice: Decimal.Value;
+  amount: Decimal.Value;
+  gstHst: Decimal.Value;
+  pst: Decimal.Value;
+  qst: Decimal.Value;
+  category: 'standard' | 'zero_rated' | 'exempt';
+  account?: AccountKey; // Defaults to sales
+}
+
+export interface ExportInvoice {
+  id: string;
+  number: string;
+  date: Date;
+  dueDate: Date;
+  customer: string;
+  customerRef?: string; // Account code in the accounting package, where it has one
+  currency: string;
+  reference?: string;
+  lines: ExportInvoiceLine[];
+}
+
+export interface ExportPayment {
+  id: string;
+  date: Date;
+  customer: string;
+  customerRef?: string;
+  amount: Decimal.Value;
+  currency: string;
+  reference: string;
+  invoiceNumber?: string;
+  depositTo?: AccountKey; // Defaults to bank; platform payments land in platform_clearing
+}
+
+export interface ExportJournalLine {
+  account: AccountKey;
+  debit?: Decimal.Value;
+  credit?: Decimal.Value;
+  name?: string; // Customer, where the account needs one (receivables)
+}
+
+export interface ExportJournal {
+  id: string;
+  date: Date;
+  memo: string;
+  currency: string;
+  lines: ExportJournalLine[];
+}
+
+export interface ExportBundle {
+  invoices: ExportInvoice[];
+  payments: ExportPayment[];
+  journals: ExportJournal[];
+}
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
+export class AccountingExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountingExportError';
+  }
+}
+
+const QUICKBOOKS_MAPPING: AccountMapping = {
+  accounts: {
+    accounts_receivable: 'Accounts Receivable',
+    sales: 'Sales',
+    late_fees: 'Late Fee Income',
+    gst_hst_payable: 'GST/HST Payable',
+    pst_payable: 'PST Payable',
+    qst_payable: 'QST Payable',
+    bank: 'Undeposited Funds',
+    processing_fees: 'Merchant Account Fees',
+    platform_fees: 'Platform Fees',
+    escrow_fees: 'Escrow Fees',
+    platform_clearing: 'Due from Indigenious',
+    escrow_releases: 'Contract Revenue',
+    security_deposits: 'Bid Security Deposits'
+  },
+  taxCodes: { taxable: 'TAX', zero_rated: 'Zero-rated', exempt: 'Exempt', none: '' },
+  dateFormat: 'MM/DD/YYYY'
+};
+
+export const DEFAULT_MAPPINGS: Record<AccountingFormat, AccountMapping> = {
+  QUICKBOOKS_IIF: QUICKBOOKS_MAPPING,
+  QUICKBOOKS_CSV: QUICKBOOKS_MAPPING,
+  XERO_CSV: {
+    accounts: {
+      accounts_receivable: '610',
+      sales: '200',
+      late_fees: '270',
+      gst_hst_payable: '820',
+      pst_payable: '825',
+      qst_payable: '826',
+      bank: '090',
+      processing_fees: '404',
+      platform_fees: '404',
+      escrow_fees: '404',
+      platform_clearing: '615',
+      escrow_releases: '200',
+      security_deposits: '620'
+    },
+    taxCodes: { taxable: 'Tax on Sales', zero_rated: 'Zero Rated', exempt: 'Tax Exempt', none: 'Tax Exempt' },
+    dateFormat: 'DD/MM/YYYY'
+  },
+  SAGE_CSV: {
+    accounts: {
+      accounts_receivable: '1100',
+      sales: '4000',
+      late_fees: '4900',
+      gst_hst_payable: '2200',
+      pst_payable: '2210',
+      qst_payable: '2220',
+      bank: '1200',
+      processing_fees: '7900',
+      platform_fees: '7901',
+      escrow_fees: '7902',
+      platform_clearing: '1150',
+      escrow_releases: '4010',
+      security_deposits: '1160'
+    },
+    taxCodes: { taxable: 'T1', zero_rated: 'T0', exempt: 'T2', none: 'T9' },
+    dateFormat: 'DD/MM/YYYY'
+  }
+};
+
+/**
+ * The format's defaults with a business's overrides on top. Unknown keys
+ * are rejected so a typo never silently falls back to a default account
+ */
+export function resolveMapping(
+  format: AccountingFormat,
+  overrides: { accounts?: Record<string, string>; taxCodes?: Record<string, string>; dateFormat?: DateFormat } = {}
+): AccountMapping {
+  const defaults = DEFAULT_MAPPINGS[format];
+  if (!defaults) {
+    throw new AccountingExportError(`Unknown accounting format: ${format}`);
+  }
+
+  const unknown = [
+    ...Object.keys(overrides.accounts || {}).filter(key => !(key in defaults.accounts)),
+    ...Object.keys(overrides.taxCodes || {}).filter(key => !(key in defaults.taxCodes))
+  ];
+  if (unknown.length > 0) {
+    throw new AccountingExportError(`Unknown mapping keys: ${unknown.join(', ')}`);
+  }
+  if (overrides.dateFormat && !['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD'].includes(overrides.dateFormat)) {
+    throw new AccountingExportError(`Unknown date format: ${overrides.dateFormat}`);
+  }
+
+  return {
+    accounts: { ...defaults.accounts, ...overrides.accounts },
+    taxCodes: { ...defaults.taxCodes, ...overrides.taxCodes },
+    dateFormat: overrides.dateFormat || defaults.dateFormat
+  };
+}
+
+export function formatDate(date: Date, format: DateFormat): string {
+  const [year, month, day] = date.toISOString().slice(0, 10).split('-');
+  switch (format) {
+    case 'MM/DD/YYYY': return `${month}/${day}/${year}`;
+    case 'DD/MM/YYYY': return `${day}/${month}/${year}`;
+    default: return `${year}-${month}-${day}`;
+  }
+}
+
+function money(value: Decimal.Value): string {
+  return new Decimal(value).toFixed(2);
+}
+
+// Text cells that a spreadsheet would run as a formula are neutralised
+function csvCell(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csv(header: string[], rows: Array<Array<string | number | undefined>>): string {
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// IIF is tab-delimited with no quoting, so tabs and line breaks cannot survive
+function iifCell(value: string | undefined): string {
+  return (value || '').replace(/[\t\r\n]+/g, ' ');
+}
+
+function lineTotal(line: ExportInvoiceLine): Decimal {
+  return new Decimal(line.amount).add(line.gstHst).add(line.pst).add(line.qst);
+}
+
+function invoiceTotal(invoice: ExportInvoice): Decimal {
+  return invoice.lines.reduce((sum, line) => sum.add(lineTotal(line)), new Decimal(0));
+}
+
+function taxCode(line: ExportInvoiceLine, mapping: AccountMapping): string {
+  return mapping.taxCodes[line.category === 'standard' ? 'taxable' : line.category];
+}
+
+// Tax on an invoice, by the payable account it goes to
+function taxSplits(invoice: ExportInvoice): Array<{ account: AccountKey; amount: Decimal }> {
+  const sum = (field: 'gstHst' | 'pst' | 'qst') =>
+    invoice.lines.reduce((total, line) => total.add(line[field]), new Decimal(0));
+
+  return [
+    { account: 'gst_hst_payable' as const, amount: sum('gstHst') },
+    { account: 'pst_payable' as const, amount: sum('pst') },
+    { account: 'qst_payable' as const, amount: sum('qst') }
+  ].filter(split => split.amount.gt(0));
+}
+
+function assertBalanced(journal: ExportJournal): void {
+  const debits = journal.lines.reduce((sum, line) => sum.add(line.debit || 0), new Decimal(0));
+  const credits = journal.lines.reduce((sum, line) => sum.add(line.credit || 0), new Decimal(0));
+  if (!debits.eq(credits)) {
+    throw new AccountingExportError(`Journal ${journal.id} does not balance: ${debits.toFixed(2)} / ${credits.toFixed(2)}`);
+  }
+}
+
+// Payments as journals, for formats without a receipts import
+function paymentJournal(payment: ExportPayment): ExportJournal {
+  return {
+    id: payment.id,
+    date: payment.date,
+    memo: `Payment ${payment.reference}${payment.invoiceNumber ? ` for ${payment.invoiceNumber}` : ''}`,
+    currency: payment.currency,
+    lines: [
+      { account: payment.depositTo || 'bank', debit: payment.amount },
+      { account: 'accounts_receivable', credit: payment.amount, name: payment.customer }
+    ]
+  };
+}
+
+// ---------------------------------------------------------------------------
+// QuickBooks Desktop IIF
+// ---------------------------------------------------------------------------
+
+function buildIif(bundle: ExportBundle, mapping: AccountMapping): ExportFile[] {
+  const rows: string[] = [
+    '!TRNS\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO',
+    '!SPL\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO',
+    '!ENDTRNS'
+  ];
+  const row = (kind: 'TRNS' | 'SPL', type: string, date: Date, account: string, name: string | undefined, amount: Decimal, docNumber: string, memo?: string) =>
+    [kind, type, formatDate(date, mapping.dateFormat), iifCell(account), iifCell(name), amount.toFixed(2), iifCell(docNumber), iifCell(memo)].join('\t');
+
+  for (const invoice of bundle.invoices) {
+    rows.push(row('TRNS', 'INVOICE', invoice.date, mapping.accounts.accounts_receivable, invoice.customer, invoiceTotal(invoice), invoice.number, invoice.reference));
+    for (const line of invoice.lines) {
+      rows.push(row('SPL', 'INVOICE', invoice.date, mapping.accounts[line.account || 'sales'], invoice.customer, new Decimal(line.amount).neg(), invoice.number, line.description));
+    }
+    for (const split of taxSplits(invoice)) {
+      rows.push(row('SPL', 'INVOICE', invoice.date, mapping.accounts[split.account], invoice.customer, split.amount.neg(), invoice.number));
+    }
+    rows.push('ENDTRNS');
+  }
+
+  for (const payment of bundle.payments) {
+    const amount = new Decimal(payment.amount);
+    rows.push(row('TRNS', 'PAYMENT', payment.date, mapping.accounts[payment.depositTo || 'bank'], payment.customer, amount, payment.reference, payment.invoiceNumber));
+    rows.push(row('SPL', 'PAYMENT', payment.date, mapping.accounts.accounts_receivable, payment.customer, amount.neg(), payment.reference, payment.invoiceNumber));
+    rows.push('ENDTRNS');
+  }
+
+  for (const journal of bundle.journals) {
+    journal.lines.forEach((line, index) => {
+      const amount = new Decimal(line.debit || 0).sub(line.credit || 0);
+      rows.push(row(index === 0 ? 'TRNS' : 'SPL', 'GENERAL JOURNAL', journal.date, mapping.accounts[line.account], line.name, amount, journal.id, journal.memo));
+    });
+    rows.push('ENDTRNS');
+  }
+
+  return [{ fileName: 'quickbooks.iif', contentType: 'text/plain', content: rows.join('\r\n') + '\r\n' }];
+}
+
+// ---------------------------------------------------------------------------
+// QuickBooks Online CSV
+// ---------------------------------------------------------------------------
+
+function buildQuickBooksCsv(bundle: ExportBundle, mapping: AccountMapping): ExportFile[] {
+  const date = (value: Date) => formatDate(value, mapping.dateFormat);
+  const files: ExportFile[] = [];
+
+  if (bundle.invoices.length > 0) {
+    files.push({
+      fileName: 'invoices.csv',
+      contentType: 'text/csv',
+      content: csv(
+        ['InvoiceNo', 'Customer', 'InvoiceDate', 'DueDate', 'Item(Product/Service)', 'ItemDescription', 'ItemQuantity', 'ItemRate', 'ItemAmount', 'ItemTaxCode', 'ItemTaxAmount', 'Currency'],
+        bundle.invoices.flatMap(invoice => invoice.lines.map(line => [
+          invoice.number,
+          invoice.customer,
+          date(invoice.date),
+          date(invoice.dueDate),
+          mapping.accounts[line.account || 'sales'],
+          line.description,
+          new Decimal(line.quantity).toString(),
+          new Decimal(line.unitPrice).toString(),
+          money(line.amount),
+          taxCode(line, mapping),
+          money(new Decimal(line.gstHst).add(line.pst).add(line.qst)),
+          invoice.currency
+        ]))
+      )
+    });
+  }
+
+  const journals = [...bundle.payments.map(paymentJournal), ...bundle.journals];
+  if (journals.length > 0) {
+    files.push({
+      fileName: 'journal-entries.csv',
+      contentType: 'text/csv',
+      content: csv(
+        ['JournalNo', 'JournalDate', 'AccountName', 'Debits', 'Credits', 'Description', 'Name', 'Currency'],
+        journals.flatMap(journal => journal.lines.map(line => [
+          journal.id,
+          date(journal.date),
+          mapping.accounts[line.account],
+          line.debit ? money(line.debit) : '',
+          line.credit ? money(line.credit) : '',
+          journal.memo,
+          line.name,
+          journal.currency
+        ]))
+      )
+    });
+  }
+
+  return files;
+}
+
+// ---------------------------------------------------------------------------
+// Xero CSV templates
+// ---------------------------------------------------------------------------
+
+function buildXeroCsv(bundle: ExportBundle, mapping: AccountMapping): ExportFile[] {
+  const date = (value: Date) => formatDate(value, mapping.dateFormat);
+  const files: ExportFile[] = [];
+
+  if (bundle.invoices.length > 0) {
+    files.push({
+      fileName: 'sales-invoices.csv',
+      contentType: 'text/csv',
+      content: csv(
+        ['*ContactName', '*InvoiceNumber', 'Reference', '*InvoiceDate', '*DueDate', '*Description', '*Quantity', '*UnitAmount', '*AccountCode', '*TaxType', 'TaxAmount', 'Currency'],
+        bundle.invoices.flatMap(invoice => invoice.lines.map(line => [
+          invoice.customer,
+          invoice.number,
+          invoice.reference,
+          date(invoice.date),
+          date(invoice.dueDate),
+          line.description,
+          new Decimal(line.quantity).toString(),
+          new Decimal(line.unitPrice).toString(),
+          mapping.accounts[line.account || 'sales'],
+          taxCode(line, mapping),
+          money(new Decimal(line.gstHst).add(line.pst).add(line.qst)),
+          invoice.currency
+        ]))
+      )
+    });
+  }
+
+  // Receipts go in as bank statement lines and are matched to invoices in
+  // Xero, one statement per account the money landed in
+  const byAccount = new Map<AccountKey, ExportPayment[]>();
+  for (const payment of bundle.payments) {
+    const account = payment.depositTo || 'bank';
+    byAccount.set(account, [...(byAccount.get(account) || []), payment]);
+  }
+  for (const [account, payments] of byAccount) {
+    files.push({
+      fileName: `bank-statement-${mapping.accounts[account]}.csv`,
+      contentType: 'text/csv',
+      content: csv(
+        ['*Date', '*Amount', 'Payee', 'Description', 'Reference'],
+        payments.map(payment => [
+          date(payment.date),
+          money(payment.amount),
+          payment.customer,
+          payment.invoiceNumber ? `Payment for ${payment.invoiceNumber}` : 'Payment received',
+          payment.reference
+        ])
+      )
+    });
+  }
+
+  if (bundle.journals.length > 0) {
+    files.push({
+      fileName: 'manual-journals.csv',
+      contentType: 'text/csv',
+      content: csv(
+        ['*Narration', '*Date', 'Description', '*AccountCode', '*TaxRate', '*Amount'],
+        bundle.journals.flatMap(journal => journal.lines.map(line => [
+          journal.memo,
+          date(journal.date),
+          line.name,
+          mapping.accounts[line.account],
+          mapping.taxCodes.none,
+          new Decimal(line.debit || 0).sub(line.credit || 0).toFixed(2)
+        ]))
+      )
+    });
+  }
+
+  return files;
+}
+
+// ---------------------------------------------------------------------------
+// Sage audit trail transactions
+// ---------------------------------------------------------------------------
+
+// Sage customer account references are at most 8 characters
+function sageAccountRef(name: string, ref?: string): string {
+  return (ref || name.replace(/[^A-Za-z0-9]/g, '').toUpperCase()).slice(0, 8);
+}
+
+function buildSageCsv(bundle: ExportBundle, mapping: AccountMapping): ExportFile[] {
+  const date = (value: Date) => formatDate(value, mapping.dateFormat);
+  const rows: Array<Array<string | number | undefined>> = [];
+
+  for (const invoice of bundle.invoices) {
+    for (const line of invoice.lines) {
+      rows.push([
+        'SI',
+        sageAccountRef(invoice.customer, invoice.customerRef),
+        mapping.accounts[line.account || 'sales'],
+        date(invoice.date),
+        invoice.number,
+        line.description.slice(0, 60),
+        money(line.amount),
+        taxCode(line, mapping),
+        money(new Decimal(line.gstHst).add(line.pst).add(line.qst))
+      ]);
+    }
+  }
+
+  for (const payment of bundle.payments) {
+    rows.push([
+      'SR',
+      sageAccountRef(payment.customer, payment.customerRef),
+      mapping.accounts[payment.depositTo || 'bank'],
+      date(payment.date),
+      payment.invoiceNumber || payment.reference,
+      `Payment ${payment.reference}`.slice(0, 60),
+      money(payment.amount),
+      mapping.taxCodes.none,
+      '0.00'
+    ]);
+  }
+
+  for (const journal of bundle.journals) {
+    for (const line of journal.lines) {
+      const debit = new Decimal(line.debit || 0);
+      rows.push([
+        debit.gt(0) ? 'JD' : 'JC',
+        '',
+        mapping.accounts[line.account],
+        date(journal.date),
+        journal.id,
+        journal.memo.slice(0, 60),
+        money(debit.gt(0) ? debit : line.credit || 0),
+        mapping.taxCodes.none,
+        '0.00'
+      ]);
+    }
+  }
+
+  return rows.length === 0 ? [] : [{
+    fileName: 'sage-transactions.csv',
+    contentType: 'text/csv',
+    content: csv(
+      ['Type', 'Account Reference', 'Nominal A/C Ref', 'Date', 'Reference', 'Details', 'Net Amount', 'Tax Code', 'Tax Amount'],
+      rows
+    )
+  }];
+}
+
+// ---------------------------------------------------------------------------
+// Ledger entries seen from the business's side
+// ---------------------------------------------------------------------------
+
+export interface LedgerEntryForExport {
+  id: string;
+  source: string;
+  event: string;
+  description: string;
+  currency: string;
+  effectiveAt: Date;
+  lines: Array<{ account: string; debit: Decimal.Value; credit: Decimal.Value }>;
+}
+
+const FEE_ACCOUNTS: Record<string, AccountKey> = {
+  'revenue:fees:platform': 'platform_fees',
+  'revenue:fees:escrow': 'escrow_fees',
+  'revenue:fees:transaction': 'escrow_fees',
+  'revenue:fees:quick_pay': 'escrow_fees'
+};
+
+/**
+ * Mirror a platform ledger entry into the business's own books. The
+ * platform owing the business (liability:payable:<id>) is, for the
+ * business, money held at the platform (platform_clearing):
+ * - a milestone release or returned security deposit adds to it, less the
+ *   fees the platform kept
+ * - a disbursement moves it to the bank, and a returned payout moves it back
+ * Entries that are none of these return null
+ */
+export function ledgerEntryToJournal(entry: LedgerEntryForExport, partyId: string): ExportJournal | null {
+  const payableAccount = `liability:payable:${partyId}`;
+  const payable = entry.lines
+    .filter(line => line.account === payableAccount)
+    .reduce((sum, line) => sum.add(line.credit).sub(line.debit), new Decimal(0));
+
+  const journal = (lines: ExportJournalLine[]): ExportJournal => ({
+    id: entry.id,
+    date: entry.effectiveAt,
+    memo: entry.description,
+    currency: entry.currency,
+    lines
+  });
+
+  if (entry.event === 'disbursed' && payable.lt(0)) {
+    return journal([
+      { account: 'bank', debit: payable.neg() },
+      { account: 'platform_clearing', credit: payable.neg() }
+    ]);
+  }
+
+  if (entry.source === 'eft_payout' && entry.event === 'returned' && payable.gt(0)) {
+    return journal([
+      { account: 'platform_clearing', debit: payable },
+      { account: 'bank', credit: payable }
+    ]);
+  }
+
+  const earned = (entry.source === 'escrow' || entry.source === 'universal_escrow') && entry.event.startsWith('milestone_release:');
+  const depositBack = entry.source === 'security_deposit' && entry.event === 'released';
+  if ((!earned && !depositBack) || payable.lte(0)) {
+    return null;
+  }
+
+  const fees = entry.lines
+    .filter(line => FEE_ACCOUNTS[line.account] && new Decimal(line.credit).gt(0))
+    .map(line => ({ account: FEE_ACCOUNTS[line.account], debit: new Decimal(line.credit) }));
+  const gross = fees.reduce((sum, fee) => sum.add(fee.debit), payable);
+
+  return journal([
+    { account: 'platform_clearing', debit: payable },
+    ...fees,
+    { account: earned ? 'escrow_releases' : 'security_deposits', credit: gross }
+  ]);
+}
+
+/**
+ * Render a bundle in an accounting package's import format. Every journal
+ * must balance before anything is written
+ */
+export function buildAccountingExport(
+  format: AccountingFormat,
+  bundle: ExportBundle,
+  mapping: AccountMapping = DEFAULT_MAPPINGS[format]
+): ExportFile[] {
+  bundle.journals.forEach(assertBalanced);
+
+  switch (format) {
+    case 'QUICKBOOKS_IIF': return buildIif(bundle, mapping);
+    case 'QUICKBOOKS_CSV': return buildQuickBooksCsv(bundle, mapping);
+    case 'XERO_CSV': return buildXeroCsv(bundle, mapping);
+    case 'SAGE_CSV': return buildSageCsv(bundle, mapping);
+    default: throw new AccountingExportError(`Unknown accounting format: ${format}`);
+  }
+}
@@ -0,0 +1,628 @@
+import Decimal from 'decimal.js';
+
+/**
+ * Bank Statement Parsing & Matching
+ * Parses ISO 20022 CAMT.053, BAI2 and bank CSV exports into one line shape,
+ * and scores statement lines against payments for reconciliation
+ */
+
+export type StatementFormat = 'CAMT053' | 'BAI2' | 'CSV';
+
+export interface StatementLine {
+  lineRef: string; // Bank reference, or a sequence number when the bank gives none
+  bookingDate: Date;
+  valueDate?: Date;
+  direction: 'CREDIT' | 'DEBIT';
+  amount: Decimal; // Always positive; direction gives the sign
+  currency: string;
+  reference?: string;
+  description?: string;
+  counterparty?: string;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  statementId?: string;
+  accountId?: string;
+  currency: string;
+  openingBalance?: Decimal;
+  closingBalance?: Decimal;
+  fromDate?: Date;
+  toDate?: Date;
+  lines: StatementLine[];
+}
+
+export interface CsvStatementOptions {
+  delimiter?: string;
+  dateFormat?: 'YMD' | 'MDY' | 'DMY';
+  currency?: string;
+  // Header names; a single signed amount column or separate debit/credit columns
+  columns?: {
+    date?: string;
+    valueDate?: string;
+    amount?: string;
+    debit?: string;
+    credit?: string;
+    reference?: string;
+    description?: string;
+    counterparty?: string;
+    currency?: string;
+  };
+}
+
+export class StatementParseError extends Error {
+  constructor(message: string, public line?: number) {
+    super(line ? `${message} (line ${line})` : message);
+    this.name = 'StatementParseError';
+  }
+}
+
+export function parseStatement(
+  format: StatementFormat,
+  content: string,
+  options: CsvStatementOptions = {}
+): ParsedStatement {
+  switch (format) {
+    case 'CAMT053':
+      return parseCamt053(content);
+    case 'BAI2':
+      return parseBai2(content);
+    case 'CSV':
+      return parseCsvStatement(content, options);
+    default:
+      throw new StatementParseError(`Unsupported statement format: ${format}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// ISO 20022 CAMT.053
+// ---------------------------------------------------------------------------
+
+function xmlBlocks(xml: string, name: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${name}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+function xmlValue(xml: string | undefined, name: string): string | undefined {
+  if (!xml) return undefined;
+  const value = xmlBlocks(xml, name)[0];
+  return value === undefined ? undefined : decodeXml(value.trim());
+}
+
+function xmlAttr(xml: string, name: string, attr: string): string | undefined {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${name}\\b[^>]*\\b${attr}="([^"]*)"`));
+  return match?.[1];
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function camtDate(xml: string | undefined): Date | undefined {
+  const value = xmlValue(xml, 'Dt') ?? xmlValue(xml, 'DtTm');
+  return value ? parseIsoDate(value) : undefined;
+}
+
+export function parseCamt053(xml: string): ParsedStatement {
+  const statement = xmlBlocks(xml, 'Stmt')[0];
+  if (!statement) {
+    throw new StatementParseError('Not a CAMT.053 document: no <Stmt> element');
+  }
+
+  const account = xmlBlocks(statement, 'Acct')[0];
+  const accountId = xmlValue(account, 'IBAN') ?? xmlValue(xmlBlocks(account ?? '', 'Othr')[0], 'Id');
+  let currency = xmlValue(account, 'Ccy');
+
+  let openingBalance: Decimal | undefined;
+  let closingBalance: Decimal | undefined;
+  for (const balance of xmlBlocks(statement, 'Bal')) {
+    const code = xmlValue(balance, 'Cd');
+    const amount = new Decimal(xmlValue(balance, 'Amt') ?? 0);
+    const signed = xmlValue(balance, 'CdtDbtInd') === 'DBIT' ? amount.neg() : amount;
+    currency = currency ?? xmlAttr(balance, 'Amt', 'Ccy');
+    if (code === 'OPBD' || code === 'PRCD') openingBalance = signed;
+    if (code === 'CLBD') closingBalance = signed;
+  }
+
+  const period = xmlBlocks(statement, 'FrToDt')[0];
+
+  const lines = xmlBlocks(statement, 'Ntry').map((entry, index) => {
+    const amount = xmlValue(entry, 'Amt');
+    const indicator = xmlValue(entry, 'CdtDbtInd');
+    const bookingDate = camtDate(xmlBlocks(entry, 'BookgDt')[0]);
+    if (!amount || !indicator || !bookingDate) {
+      throw new StatementParseError(`CAMT.053 entry ${index + 1} is missing amount, indicator or booking date`);
+    }
+
+    const details = xmlBlocks(entry, 'TxDtls')[0];
+    const refs = xmlBlocks(details ?? '', 'Refs')[0];
+    const endToEndId = xmlValue(refs, 'EndToEndId');
+    const reference = [endToEndId, xmlValue(refs, 'InstrId'), xmlValue(details, 'Ref')]
+      .find(value => value && value !== 'NOTPROVIDED');
+    const remittance = xmlBlocks(details ?? entry, 'Ustrd').map(value => decodeXml(value.trim()));
+    const parties = xmlBlocks(details ?? '', 'RltdPties')[0];
+    const counterparty = indicator === 'CRDT'
+      ? xmlValue(xmlBlocks(parties ?? '', 'Dbtr')[0], 'Nm')
+      : xmlValue(xmlBlocks(parties ?? '', 'Cdtr')[0], 'Nm');
+
+    return {
+      lineRef: xmlValue(entry, 'AcctSvcrRef') ?? xmlValue(entry, 'NtryRef') ?? String(index + 1),
+      bookingDate,
+      valueDate: camtDate(xmlBlocks(entry, 'ValDt')[0]),
+      direction: indicator === 'DBIT' ? 'DEBIT' : 'CREDIT',
+      amount: new Decimal(amount),
+      currency: xmlAttr(entry, 'Amt', 'Ccy') ?? currency ?? 'CAD',
+      ...(reference ? { reference } : {}),
+      ...(remittance.length > 0 || xmlValue(entry, 'AddtlNtryInf')
+        ? { description: remittance.length > 0 ? remittance.join(' ') : xmlValue(entry, 'AddtlNtryInf') }
+        : {}),
+      ...(counterparty ? { counterparty } : {})
+    } as StatementLine;
+  });
+
+  return {
+    format: 'CAMT053',
+    statementId: xmlValue(statement, 'Id'),
+    accountId,
+    currency: currency ?? lines[0]?.currency ?? 'CAD',
+    openingBalance,
+    closingBalance,
+    fromDate: period && xmlValue(period, 'FrDtTm') ? parseIsoDate(xmlValue(period, 'FrDtTm')!) : undefined,
+    toDate: period && xmlValue(period, 'ToDtTm') ? parseIsoDate(xmlValue(period, 'ToDtTm')!) : undefined,
+    lines
+  };
+}
+
+// ---------------------------------------------------------------------------
+// BAI2
+// ---------------------------------------------------------------------------
+
+// Number of fields that follow each BAI2 funds type code
+function fundsTypeFieldCount(fields: string[], index: number): number {
+  switch (fields[index]) {
+    case 'S':
+      return 3;
+    case 'V':
+      return 2;
+    case 'D':
+      return 1 + 2 * parseInt(fields[index + 1] || '0', 10);
+    default:
+      return 0;
+  }
+}
+
+function bai2Date(value: string, line: number): Date {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2})$/);
+  if (!match) {
+    throw new StatementParseError(`Invalid BAI2 date "${value}"`, line);
+  }
+  return new Date(Date.UTC(2000 + parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)));
+}
+
+function bai2Amount(value: string): Decimal {
+  // Amounts carry two implied decimal places and an optional sign
+  return new Decimal(value || 0).div(100);
+}
+
+export function parseBai2(text: string): ParsedStatement {
+  // Join 88 continuation records onto the record they continue
+  const records: Array<{ fields: string[]; line: number }> = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const record = raw.trim();
+    if (!record) return;
+    const body = record.endsWith('/') ? record.slice(0, -1) : record;
+    if (body.startsWith('88,')) {
+      const previous = records[records.length - 1];
+      if (!previous) throw new StatementParseError('Continuation record without a parent', index + 1);
+      previous.fields.push(...body.slice(3).split(','));
+    } else {
+      records.push({ fields: body.split(','), line: index + 1 });
+    }
+  });
+
+  if (records[0]?.fields[0] !== '01') {
+    throw new StatementParseError('Not a BAI2 file: missing 01 file header');
+  }
+
+  const lines: StatementLine[] = [];
+  let asOfDate: Date | undefined;
+  let groupCurrency = 'CAD';
+  let accountCurrency = 'CAD';
+  let accountId: string | undefined;
+  let openingBalance: Decimal | undefined;
+  let closingBalance: Decimal | undefined;
+
+  for (const { fields, line } of records) {
+    switch (fields[0]) {
+      case '02':
+        asOfDate = bai2Date(fields[4], line);
+        groupCurrency = fields[6] || groupCurrency;
+        break;
+
+      case '03': {
+        accountId = accountId ?? fields[1];
+        accountCurrency = fields[2] || groupCurrency;
+        // Summary triples: type code, amount, item count, funds type (+ extras)
+        let index = 3;
+        while (index + 1 < fields.length && fields[index]) {
+          const typeCode = fields[index];
+          const amount = bai2Amount(fields[index + 1]);
+          if (typeCode === '010' || typeCode === '040') openingBalance = openingBalance ?? amount;
+          if (typeCode === '015') closingBalance = amount;
+          index += 4 + fundsTypeFieldCount(fields, index + 3);
+        }
+        break;
+      }
+
+      case '16': {
+        if (!asOfDate) {
+          throw new StatementParseError('Transaction detail before group header', line);
+        }
+        const typeCode = parseInt(fields[1], 10);
+        const amount = bai2Amount(fields[2]);
+        let index = 3;
+        let valueDate: Date | undefined;
+        if (fields[index] === 'V') {
+          valueDate = bai2Date(fields[index + 1], line);
+        }
+        index += 1 + fundsTypeFieldCount(fields, index);
+
+        const bankRef = fields[index];
+        const customerRef = fields[index + 1];
+        // The free text is the rest of the record and may itself contain commas
+        const description = fields.slice(index + 2).join(',').trim();
+
+        lines.push({
+          lineRef: bankRef || `${line}`,
+          bookingDate: asOfDate,
+          ...(valueDate ? { valueDate } : {}),
+          // 100-399 are credit type codes, 400-699 debits
+          direction: typeCode >= 400 && typeCode < 700 ? 'DEBIT' : 'CREDIT',
+          amount: amount.abs(),
+          currency: accountCurrency,
+          ...(customerRef ? { reference: customerRef } : {}),
+          ...(description ? { description } : {})
+        });
+        break;
+      }
+
+      default:
+        break;
+    }
+  }
+
+  return {
+    format: 'BAI2',
+    statementId: records[0].fields[3],
+    accountId,
+    currency: accountCurrency,
+    openingBalance,
+    closingBalance,
+    fromDate: asOfDate,
+    toDate: asOfDate,
+    lines
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Bank CSV
+// ---------------------------------------------------------------------------
+
+function splitCsvRow(row: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function parseIsoDate(value: string): Date {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new StatementParseError(`Invalid date "${value}"`);
+  }
+  return date;
+}
+
+function parseCsvDate(value: string, format: 'YMD' | 'MDY' | 'DMY', line: number): Date {
+  const parts = value.split(/[-/.]/).map(part => parseInt(part, 10));
+  if (parts.length !== 3 || parts.some(isNaN)) {
+    throw new StatementParseError(`Invalid date "${value}"`, line);
+  }
+  const [year, month, day] = format === 'YMD'
+    ? parts
+    : format === 'MDY' ? [parts[2], parts[0], parts[1]] : [parts[2], parts[1], parts[0]];
+  return new Date(Date.UTC(year < 100 ? 2000 + year : year, month - 1, day));
+}
+
+function parseCsvAmount(value: string | undefined): Decimal | undefined {
+  if (!value) return undefined;
+  // Accept "(12.50)" accounting negatives, currency symbols and thousands separators
+  const negative = /^\(.*\)$/.test(value);
+  const cleaned = value.replace(/[()$\s,]/g, '');
+  if (!cleaned) return undefined;
+  const amount = new Decimal(cleaned);
+  return negative ? amount.neg() : amount;
+}
+
+export function parseCsvStatement(text: string, options: CsvStatementOptions = {}): ParsedStatement {
+  const delimiter = options.delimiter || ',';
+  const rows = text.split(/\r?\n/).filter(row => row.trim());
+  if (rows.length < 2) {
+    throw new StatementParseError('CSV statement has no transactions');
+  }
+
+  const header = splitCsvRow(rows[0], delimiter).map(cell => cell.toLowerCase());
+  const column = (configured: string | undefined, ...fallbacks: string[]): number =>
+    [configured, ...fallbacks]
+      .filter((name): name is string => !!name)
+      .map(name => header.indexOf(name.toLowerCase()))
+      .find(index => index >= 0) ?? -1;
+
+  const columns = options.columns || {};
+  const dateCol = column(columns.date, 'date', 'posting date', 'transaction date', 'booking date');
+  const valueDateCol = column(columns.valueDate, 'value date');
+  const amountCol = column(columns.amount, 'amount');
+  const debitCol = column(columns.debit, 'debit', 'withdrawals', 'withdrawal');
+  const creditCol = column(columns.credit, 'credit', 'deposits', 'deposit');
+  const referenceCol = column(columns.reference, 'reference', 'ref', 'cheque number');
+  const descriptionCol = column(columns.description, 'description', 'details', 'memo');
+  const counterpartyCol = column(columns.counterparty, 'counterparty', 'payee', 'name');
+  const currencyCol = column(columns.currency, 'currency');
+
+  if (dateCol < 0 || (amountCol < 0 && debitCol < 0 && creditCol < 0)) {
+    throw new StatementParseError('CSV statement needs a date column and an amount or debit/credit columns', 1);
+  }
+
+  const currency = options.currency || 'CAD';
+  const lines = rows.slice(1).map((row, index) => {
+    const line = index + 2;
+    const cells = splitCsvRow(row, delimiter);
+    const cell = (col: number) => (col >= 0 ? cells[col] || undefined : undefined);
+
+    let signed = parseCsvAmount(cell(amountCol));
+    if (signed === undefined) {
+      const credit = parseCsvAmount(cell(creditCol));
+      const debit = parseCsvAmount(cell(debitCol));
+      signed = credit && !credit.isZero() ? credit.abs() : debit?.abs().neg();
+    }
+    if (signed === undefined) {
+      throw new StatementParseError('Row has no amount', line);
+    }
+
+    const dateFormat = options.dateFormat || 'YMD';
+    const reference = cell(referenceCol);
+    const description = cell(descriptionCol);
+    const counterparty = cell(counterpartyCol);
+    const valueDate = cell(valueDateCol);
+
+    return {
+      lineRef: `${line}`,
+      bookingDate: parseCsvDate(cell(dateCol) || '', dateFormat, line),
+      ...(valueDate ? { valueDate: parseCsvDate(valueDate, dateFormat, line) } : {}),
+      direction: signed.isNegative() ? 'DEBIT' : 'CREDIT',
+      amount: signed.abs(),
+      currency: cell(currencyCol) || currency,
+      ...(reference ? { reference } : {}),
+      ...(description ? { description } : {}),
+      ...(counterparty ? { counterparty } : {})
+    } as StatementLine;
+  });
+
+  const dates = lines.map(line => line.bookingDate.getTime());
+  return {
+    format: 'CSV',
+    currency,
+    fromDate: new Date(Math.min(...dates)),
+    toDate: new Date(Math.max(...dates)),
+    lines
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+export interface MatchCandidate {
+  paymentId: string;
+  amount: Decimal.Value;
+  processingFee?: Decimal.Value; // Providers that settle net of fees deposit amount - fee
+  currency: string;
+  processedAt: Date;
+  references: string[]; // Payment id, provider transaction id, invoice number...
+}
+
+export interface MatchOptions {
+  dateWindowDays?: number;
+  threshold?: number; // Minimum score to auto-match
+  margin?: number; // Lead the best candidate needs over the runner-up
+}
+
+export interface MatchScore {
+  score: number;
+  reasons: string[];
+}
+
+export interface ProposedMatch extends MatchScore {
+  lineRef: string;
+  paymentId: string;
+}
+
+const DEFAULT_MATCH_OPTIONS: Required<MatchOptions> = {
+  dateWindowDays: 3,
+  threshold: 0.7,
+  margin: 0.1
+};
+
+function normalizeReference(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * How strongly the statement text points at one of the payment's references:
+ * 1 for an exact hit, partial credit for banks truncating or mistyping it
+ */
+export function referenceSimilarity(text: string, references: string[]): number {
+  const haystack = normalizeReference(text);
+  const tokens = text.split(/[\s,;/|]+/).map(normalizeReference).filter(token => token.length >= 6);
+  let best = 0;
+
+  for (const raw of references) {
+    const reference = normalizeReference(raw);
+    if (reference.length < 6) continue;
+    if (haystack.includes(reference)) return 1;
+
+    for (const token of tokens) {
+      // Truncated by the bank's field width
+      if (token.length >= 8 && reference.startsWith(token)) {
+        best = Math.max(best, 0.8);
+      }
+      const similarity = 1 - levenshtein(token, reference) / Math.max(token.length, reference.length);
+      if (similarity >= 0.85) best = Math.max(best, similarity * 0.9);
+    }
+  }
+
+  return best;
+}
+
+export function scoreMatch(
+  line: StatementLine,
+  candidate: MatchCandidate,
+  options: MatchOptions = {}
+): MatchScore {
+  const { dateWindowDays } = { ...DEFAULT_MATCH_OPTIONS, ...options };
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (line.direction !== 'CREDIT' || line.currency !== candidate.currency) {
+    return { score: 0, reasons: [] };
+  }
+
+  const amount = new Decimal(candidate.amount);
+  const net = amount.sub(candidate.processingFee ?? 0);
+  if (line.amount.eq(amount)) {
+    score += 0.5;
+    reasons.push('AMOUNT_EXACT');
+  } else if (!net.eq(amount) && line.amount.eq(net)) {
+    score += 0.4;
+    reasons.push('AMOUNT_NET_OF_FEES');
+  }
+
+  const lineDate = (line.valueDate ?? line.bookingDate).getTime();
+  const days = Math.abs(lineDate - candidate.processedAt.getTime()) / (24 * 60 * 60 * 1000);
+  if (days <= dateWindowDays) {
+    // Same-day settlement scores full marks, fading to nothing past the window
+    score += 0.2 * (1 - Math.floor(days) / (dateWindowDays + 1));
+    reasons.push(days < 1 ? 'DATE_SAME_DAY' : 'DATE_WITHIN_WINDOW');
+  }
+
+  const text = [line.reference, line.description].filter(Boolean).join(' ');
+  const similarity = text ? referenceSimilarity(text, candidate.references) : 0;
+  if (similarity === 1) {
+    score += 0.3;
+    reasons.push('REFERENCE_EXACT');
+  } else if (similarity > 0) {
+    score += 0.3 * similarity;
+    reasons.push('REFERENCE_FUZZY');
+  }
+
+  return { score: Math.round(score * 1000) / 1000, reasons };
+}
+
+/**
+ * One-to-one auto-matching. Pairs are accepted best-first; a line is left for
+ * manual review when it has no candidate over the threshold or two candidates
+ * score too close to tell apart
+ */
+export function autoMatch(
+  lines: StatementLine[],
+  candidates: MatchCandidate[],
+  options: MatchOptions = {}
+): { matches: ProposedMatch[]; unmatchedLines: string[]; unmatchedPayments: string[] } {
+  const { threshold, margin } = { ...DEFAULT_MATCH_OPTIONS, ...options };
+
+  const scored = lines.map(line => ({
+    line,
+    ranked: candidates
+      .map(candidate => ({ candidate, ...scoreMatch(line, candidate, options) }))
+      .filter(result => result.score >= threshold)
+      .sort((a, b) => b.score - a.score)
+  }));
+
+  const ambiguous = new Set(
+    scored
+      .filter(({ ranked }) => ranked.length > 1 && ranked[0].score - ranked[1].score < margin)
+      .map(({ line }) => line.lineRef)
+  );
+
+  const pairs = scored
+    .filter(({ line }) => !ambiguous.has(line.lineRef))
+    .flatMap(({ line, ranked }) => ranked.map(result => ({ line, ...result })))
+    .sort((a, b) => b.score - a.score);
+
+  const usedLines = new Set<string>();
+  const usedPayments = new Set<string>();
+  const matches: ProposedMatch[] = [];
+
+  for (const pair of pairs) {
+    if (usedLines.has(pair.line.lineRef) || usedPayments.has(pair.candidate.paymentId)) continue;
+    usedLines.add(pair.line.lineRef);
+    usedPayments.add(pair.candidate.paymentId);
+    matches.push({
+      lineRef: pair.line.lineRef,
+      paymentId: pair.candidate.paymentId,
+      score: pair.score,
+      reasons: pair.reasons
+    });
+  }
+
+  return {
+    matches,
+    unmatchedLines: lines.map(line => line.lineRef).filter(ref => !usedLines.has(ref)),
+    unmatchedPayments: candidates.map(c => c.paymentId).filter(id => !usedPayments.has(id))
+  };
+}
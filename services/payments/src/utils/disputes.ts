@@ -0,0 +1,228 @@
+import Decimal from 'decimal.js';
+import { roundMoney } from './fx';
+
+/**
+ * Dispute Cases
+ * Case states and who may move a case between them, state deadlines and
+ * what happens when one is missed, mediation consent, and splitting frozen
+ * funds between the parties. Pure functions: DisputeService stores the
+ * cases, evidence and timeline around them
+ */
+
+export type DisputeCaseState = 'OPENED' | 'EVIDENCE_REQUESTED' | 'UNDER_REVIEW' | 'MEDIATION' | 'RESOLVED';
+
+export type DisputeSubjectType = 'PAYMENT' | 'ESCROW';
+
+export type CaseRole = 'claimant' | 'respondent' | 'mediator' | 'officer';
+
+export type CaseParty = 'claimant' | 'respondent';
+
+// COMMUNITY_ELDER mediation is led by an Elder the parties agree on from
+// the community, following its own protocols rather than a platform script
+export type MediatorType = 'PLATFORM' | 'EXTERNAL' | 'COMMUNITY_ELDER';
+
+export const MEDIATOR_TYPES: MediatorType[] = ['PLATFORM', 'EXTERNAL', 'COMMUNITY_ELDER'];
+
+export type CaseAction =
+  | 'request_evidence'
+  | 'submit_evidence'
+  | 'start_review'
+  | 'consent_to_mediation'
+  | 'assign_mediator'
+  | 'end_mediation'
+  | 'resolve'
+  | 'withdraw';
+
+export type ResolutionOutcome = 'CLAIMANT' | 'RESPONDENT' | 'SPLIT' | 'WITHDRAWN';
+
+export const OPEN_CASE_STATES: DisputeCaseState[] = ['OPENED', 'EVIDENCE_REQUESTED', 'UNDER_REVIEW', 'MEDIATION'];
+
+const ACTIONS: Record<CaseAction, { roles: CaseRole[]; from: DisputeCaseState[]; to?: DisputeCaseState }> = {
+  request_evidence: { roles: ['officer'], from: ['OPENED', 'UNDER_REVIEW'], to: 'EVIDENCE_REQUESTED' },
+  submit_evidence: { roles: ['claimant', 'respondent'], from: OPEN_CASE_STATES },
+  start_review: { roles: ['officer'], from: ['OPENED', 'EVIDENCE_REQUESTED'], to: 'UNDER_REVIEW' },
+  consent_to_mediation: { roles: ['claimant', 'respondent'], from: ['OPENED', 'EVIDENCE_REQUESTED', 'UNDER_REVIEW'] },
+  assign_mediator: { roles: ['officer'], from: ['UNDER_REVIEW'], to: 'MEDIATION' },
+  // Mediation that ends without agreement goes back to the officer
+  end_mediation: { roles: ['mediator', 'officer'], from: ['MEDIATION'], to: 'UNDER_REVIEW' },
+  resolve: { roles: ['officer', 'mediator'], from: OPEN_CASE_STATES, to: 'RESOLVED' },
+  withdraw: { roles: ['claimant'], from: OPEN_CASE_STATES, to: 'RESOLVED' }
+};
+
+// Days allowed in each state before the deadline runs out
+export const STATE_DEADLINE_DAYS: Record<Exclude<DisputeCaseState, 'RESOLVED'>, number> = {
+  OPENED: 7, // For the respondent to answer
+  EVIDENCE_REQUESTED: 10,
+  UNDER_REVIEW: 14,
+  MEDIATION: 30
+};
+
+// Elder mediation follows the community's calendar: gatherings, ceremony
+// and travel to the Elder often take longer than a platform mediator
+export const ELDER_MEDIATION_DAYS = 60;
+
+export const EVIDENCE_REQUEST_DAYS = { min: 3, max: 30 };
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class DisputeCaseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DisputeCaseError';
+  }
+}
+
+/**
+ * The state a case moves to when `role` takes `action`, or its current
+ * state when the action does not move it. Throws if the role may not take
+ * the action or the case is not in a state that allows it
+ */
+export function planAction(action: CaseAction, state: DisputeCaseState, role: CaseRole): DisputeCaseState {
+  const rule = ACTIONS[action];
+  if (!rule.roles.includes(role)) {
+    throw new DisputeCaseError(`A ${role} cannot ${action.replace(/_/g, ' ')}`);
+  }
+  if (!rule.from.includes(state)) {
+    throw new DisputeCaseError(`Cannot ${action.replace(/_/g, ' ')} while the case is ${state}`);
+  }
+  // Only the mediator resolves a case in mediation
+  if (action === 'resolve' && (state === 'MEDIATION') !== (role === 'mediator')) {
+    throw new DisputeCaseError(state === 'MEDIATION'
+      ? 'A case in mediation is resolved by its mediator'
+      : 'A mediator can only resolve a case in mediation');
+  }
+  return rule.to || state;
+}
+
+/**
+ * When the case must leave `state`. Evidence requests may set their own
+ * window; Elder mediation gets a longer one
+ */
+export function stateDeadline(
+  state: DisputeCaseState,
+  from: Date,
+  options: { mediatorType?: MediatorType; days?: number } = {}
+): Date | null {
+  if (state === 'RESOLVED') {
+    return null;
+  }
+
+  let days = STATE_DEADLINE_DAYS[state];
+  if (state === 'MEDIATION' && options.mediatorType === 'COMMUNITY_ELDER') {
+    days = ELDER_MEDIATION_DAYS;
+  }
+  if (state === 'EVIDENCE_REQUESTED' && options.days !== undefined) {
+    if (!Number.isInteger(options.days) || options.days < EVIDENCE_REQUEST_DAYS.min || options.days > EVIDENCE_REQUEST_DAYS.max) {
+      throw new DisputeCaseError(`Evidence must be due in ${EVIDENCE_REQUEST_DAYS.min} to ${EVIDENCE_REQUEST_DAYS.max} days`);
+    }
+    days = options.days;
+  }
+
+  return new Date(from.getTime() + days * DAY_MS);
+}
+
+/**
+ * What a missed deadline does. An unanswered case or an evidence window
+ * that has closed goes to review with whatever is on file; a review or
+ * mediation that runs over is flagged to the officers but keeps its state,
+ * since only a person can decide it
+ */
+export function onDeadlineMissed(state: DisputeCaseState): { escalateTo: DisputeCaseState | null; overdue: boolean } {
+  switch (state) {
+    case 'OPENED':
+    case 'EVIDENCE_REQUESTED':
+      return { escalateTo: 'UNDER_REVIEW', overdue: false };
+    case 'UNDER_REVIEW':
+    case 'MEDIATION':
+      return { escalateTo: null, overdue: true };
+    default:
+      return { escalateTo: null, overdue: false };
+  }
+}
+
+/**
+ * Evidence moves a case on by itself in two cases: the respondent's first
+ * answer to an opened case, and the last outstanding submission to an
+ * evidence request
+ */
+export function stateAfterEvidence(
+  state: DisputeCaseState,
+  submittedBy: CaseParty,
+  outstanding: CaseParty[]
+): DisputeCaseState {
+  if (state === 'OPENED' && submittedBy === 'respondent') {
+    return 'UNDER_REVIEW';
+  }
+  if (state === 'EVIDENCE_REQUESTED' && outstanding.every(party => party === submittedBy)) {
+    return 'UNDER_REVIEW';
+  }
+  return state;
+}
+
+/**
+ * Platform and external mediators are assigned by an officer. An Elder
+ * is only asked to mediate when both parties have agreed to it
+ */
+export function assertMediationConsent(
+  mediatorType: MediatorType,
+  consents: Array<{ party: CaseParty; mediatorType: MediatorType }>
+): void {
+  if (!MEDIATOR_TYPES.includes(mediatorType)) {
+    throw new DisputeCaseError(`Unknown mediator type: ${mediatorType}`);
+  }
+  if (mediatorType !== 'COMMUNITY_ELDER') {
+    return;
+  }
+
+  const missing = (['claimant', 'respondent'] as CaseParty[]).filter(party =>
+    !consents.some(consent => consent.party === party && consent.mediatorType === 'COMMUNITY_ELDER')
+  );
+  if (missing.length > 0) {
+    throw new DisputeCaseError(`Elder mediation needs the consent of the ${missing.join(' and ')}`);
+  }
+}
+
+export interface FundsSplit {
+  toClaimant: Decimal;
+  toRespondent: Decimal;
+  outcome: Exclude<ResolutionOutcome, 'WITHDRAWN'>;
+}
+
+/**
+ * Divide frozen funds by an amount or a percentage for the claimant; the
+ * respondent gets the rest, so the two always add back to what was frozen
+ */
+export function splitFrozenFunds(
+  frozen: Decimal.Value,
+  award: { toClaimant?: Decimal.Value; claimantPercent?: number },
+  currency: string
+): FundsSplit {
+  const total = roundMoney(frozen, currency);
+  const byAmount = award.toClaimant !== undefined && award.toClaimant !== null;
+  const byPercent = award.claimantPercent !== undefined && award.claimantPercent !== null;
+
+  if (byAmount === byPercent) {
+    throw new DisputeCaseError('Give either the amount or the percentage awarded to the claimant');
+  }
+
+  let toClaimant: Decimal;
+  if (byPercent) {
+    const percent = Number(award.claimantPercent);
+    if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+      throw new DisputeCaseError('The claimant percentage must be between 0 and 100');
+    }
+    toClaimant = roundMoney(total.mul(percent).div(100), currency);
+  } else {
+    toClaimant = roundMoney(award.toClaimant as Decimal.Value, currency);
+    if (toClaimant.lt(0) || toClaimant.gt(total)) {
+      throw new DisputeCaseError(`The claimant's award must be between 0 and ${total.toFixed()} ${currency}`);
+    }
+  }
+
+  const toRespondent = total.sub(toClaimant);
+  return {
+    toClaimant,
+    toRespondent,
+    outcome: toRespondent.isZero() ? 'CLAIMANT' : toClaimant.isZero() ? 'RESPONDENT' : 'SPLIT'
+  };
+}
@@ -0,0 +1,57 @@
+import axios from 'axios';
+import { logger } from './logger';
+
+export interface StoredDocument {
+  id: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  userId: string;
+  businessId?: string;
+  category?: string;
+  checksum: string;
+  scanStatus?: 'pending' | 'clean' | 'infected' | 'error';
+  createdAt: string;
+}
+
+function documentServiceUrl(): string {
+  return process.env.DOCUMENT_SERVICE_URL || 'http://document-service:3006';
+}
+
+function serviceHeaders() {
+  return {
+    'Content-Type': 'application/json',
+    'X-Service-Token': process.env.INTERNAL_SERVICE_TOKEN
+  };
+}
+
+/**
+ * Metadata for a document uploaded to the documents service. Unlike
+ * notifications this throws: callers rely on the document existing
+ */
+export async function getDocument(documentId: string): Promise<StoredDocument> {
+  try {
+    const response = await axios.get(
+      `${documentServiceUrl()}/api/v1/documents/${encodeURIComponent(documentId)}`,
+      { headers: serviceHeaders() }
+    );
+    return response.data.document || response.data;
+  } catch (error: any) {
+    if (error.response?.status === 404) {
+      throw new Error(`Document ${documentId} not found`);
+    }
+    logger.error(`Failed to fetch document ${documentId}:`, error);
+    throw new Error('Documents service unavailable');
+  }
+}
+
+/**
+ * A short-lived link for a party or mediator to read a document
+ */
+export async function getDocumentDownloadUrl(documentId: string, expiresIn = 3600): Promise<string> {
+  const response = await axios.get(
+    `${documentServiceUrl()}/api/v1/documents/${encodeURIComponent(documentId)}/download-url`,
+    { headers: serviceHeaders(), params: { expiresIn } }
+  );
+  return response.data.url;
+}
@@ -0,0 +1,359 @@
+import Decimal from 'decimal.js';
+
+/**
+ * EFT Payout Files
+ * Builds Payments Canada CPA Standard 005 and ISO 20022 pain.001 credit
+ * transfer files, and reads the return files banks send back (CPA-005
+ * returned items and pain.002 rejections)
+ */
+
+export type PayoutFileFormat = 'CPA005' | 'PAIN001';
+export type ReturnFileFormat = 'CPA005' | 'PAIN002';
+
+export interface CanadianBankAccount {
+  institutionNumber: string; // 3 digits
+  transitNumber: string; // 5 digits
+  accountNumber: string; // 7-12 digits
+}
+
+export interface PayoutOriginator {
+  originatorId: string; // 10 characters, assigned by the bank
+  shortName: string;
+  longName: string;
+  destinationDataCentre: string; // 5 digits, assigned by the bank
+  account: CanadianBankAccount; // Debited for the batch; also receives returns
+}
+
+export interface PayoutItem {
+  reference: string; // Our payout id; comes back on returns
+  payeeName: string;
+  amount: Decimal.Value;
+  account: CanadianBankAccount;
+  remittance?: string;
+}
+
+export interface PayoutFileParams {
+  originator: PayoutOriginator;
+  fileCreationNumber: number; // 1-9999, unique per originator
+  creationDate: Date;
+  dueDate: Date;
+  currency: string;
+  transactionCode?: string; // CPA transaction type, 450 = supplier/accounts payable
+  items: PayoutItem[];
+}
+
+export interface ReturnedItem {
+  reference: string;
+  amount: Decimal;
+  reasonCode: string;
+  reason: string;
+  retryable: boolean;
+}
+
+export class EftFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EftFileError';
+  }
+}
+
+// Return reasons: Payments Canada Rule H1 codes and their ISO 20022 equivalents.
+// Only temporary conditions are worth sending again to the same account
+export const RETURN_REASONS: Record<string, { reason: string; retryable: boolean }> = {
+  '901': { reason: 'NSF (debit only)', retryable: true },
+  '903': { reason: 'Payment stopped/recalled', retryable: false },
+  '905': { reason: 'Account closed', retryable: false },
+  '906': { reason: 'Account transferred', retryable: false },
+  '907': { reason: 'No debit allowed', retryable: false },
+  '908': { reason: 'Funds not cleared', retryable: true },
+  '909': { reason: 'Currency/account mismatch', retryable: false },
+  '910': { reason: 'Payor/payee deceased', retryable: false },
+  '911': { reason: 'Account frozen', retryable: false },
+  '912': { reason: 'Invalid/incorrect account number', retryable: false },
+  '914': { reason: 'Incorrect payor/payee name', retryable: false },
+  '915': { reason: 'Refused by payor/payee', retryable: false },
+  '916': { reason: 'Not in accordance with agreement', retryable: false },
+  '990': { reason: 'Institution in default', retryable: true },
+  AC01: { reason: 'Incorrect account number', retryable: false },
+  AC04: { reason: 'Account closed', retryable: false },
+  AC06: { reason: 'Account blocked', retryable: false },
+  AG01: { reason: 'Transaction forbidden on this account', retryable: false },
+  AM04: { reason: 'Insufficient funds', retryable: true },
+  AM05: { reason: 'Duplicate payment', retryable: false },
+  BE01: { reason: 'Creditor name does not match account', retryable: false },
+  MD07: { reason: 'Account holder deceased', retryable: false },
+  MS03: { reason: 'Reason not specified', retryable: true }
+};
+
+export function describeReturnReason(code: string): { reason: string; retryable: boolean } {
+  return RETURN_REASONS[code] || { reason: `Returned (${code})`, retryable: false };
+}
+
+export function validateBankAccount(account: CanadianBankAccount): void {
+  if (!/^\d{3}$/.test(account.institutionNumber)) {
+    throw new EftFileError(`Institution number must be 3 digits: ${account.institutionNumber}`);
+  }
+  if (!/^\d{5}$/.test(account.transitNumber)) {
+    throw new EftFileError(`Transit number must be 5 digits: ${account.transitNumber}`);
+  }
+  if (!/^\d{7,12}$/.test(account.accountNumber)) {
+    throw new EftFileError('Account number must be 7 to 12 digits');
+  }
+}
+
+// 0IIITTTTT: the routing form used in both CPA-005 and ISO clearing member ids
+function routingNumber(account: CanadianBankAccount): string {
+  return `0${account.institutionNumber}${account.transitNumber}`;
+}
+
+function toCents(amount: Decimal.Value): number {
+  const value = new Decimal(amount);
+  if (value.lte(0) || value.decimalPlaces() > 2) {
+    throw new EftFileError(`Payout amount must be positive and in whole cents: ${value.toString()}`);
+  }
+  return value.mul(100).toNumber();
+}
+
+// ---------------------------------------------------------------------------
+// CPA Standard 005
+// ---------------------------------------------------------------------------
+
+const CPA_RECORD_LENGTH = 1464;
+const CPA_SEGMENT_LENGTH = 240;
+const CPA_SEGMENTS_PER_RECORD = 6;
+
+// Alphanumeric fields: upper case, left-justified, blank-filled
+function alpha(value: string, length: number): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Drop accents: CPA-005 is plain ASCII
+    .toUpperCase()
+    .replace(/[^A-Z0-9 .,&'\-/#]/g, ' ')
+    .slice(0, length)
+    .padEnd(length, ' ');
+}
+
+// Numeric fields: right-justified, zero-filled
+function numeric(value: string | number, length: number): string {
+  const text = String(value);
+  if (!/^\d*$/.test(text) || text.length > length) {
+    throw new EftFileError(`Value ${text} does not fit a ${length}-digit field`);
+  }
+  return text.padStart(length, '0');
+}
+
+// 0YYDDD: zero, two-digit year, day of the year
+export function cpaJulianDate(date: Date): string {
+  const start = Date.UTC(date.getUTCFullYear(), 0, 0);
+  const day = Math.floor((Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) - start) / 86400000);
+  return `0${String(date.getUTCFullYear() % 100).padStart(2, '0')}${String(day).padStart(3, '0')}`;
+}
+
+function cpaSegment(params: PayoutFileParams, item: PayoutItem): string {
+  const { originator } = params;
+  validateBankAccount(item.account);
+
+  const segment = [
+    numeric(params.transactionCode || '450', 3),
+    numeric(toCents(item.amount), 10),
+    cpaJulianDate(params.dueDate),
+    numeric(routingNumber(item.account), 9),
+    alpha(item.account.accountNumber, 12),
+    numeric(0, 22), // Item trace number, assigned by the processing bank
+    numeric(0, 3), // Stored transaction type
+    alpha(originator.shortName, 15),
+    alpha(item.payeeName, 30),
+    alpha(originator.longName, 30),
+    alpha(originator.originatorId, 10),
+    alpha(item.reference, 19),
+    numeric(routingNumber(originator.account), 9),
+    alpha(originator.account.accountNumber, 12),
+    alpha(item.remittance || '', 15),
+    alpha('', 22),
+    alpha('', 2),
+    numeric(0, 11)
+  ].join('');
+
+  if (segment.length !== CPA_SEGMENT_LENGTH) {
+    throw new EftFileError(`CPA-005 segment is ${segment.length} characters`);
+  }
+  return segment;
+}
+
+export function buildCpa005File(params: PayoutFileParams): string {
+  const { originator } = params;
+  if (params.items.length === 0) {
+    throw new EftFileError('A payout file needs at least one item');
+  }
+  if (!['CAD', 'USD'].includes(params.currency)) {
+    throw new EftFileError('CPA-005 files carry CAD or USD only');
+  }
+  if (params.fileCreationNumber < 1 || params.fileCreationNumber > 9999) {
+    throw new EftFileError('File creation number must be between 1 and 9999');
+  }
+
+  const fileNumber = numeric(params.fileCreationNumber, 4);
+  const prefix = (type: string, count: number) =>
+    `${type}${numeric(count, 9)}${alpha(originator.originatorId, 10)}${fileNumber}`;
+
+  const records: string[] = [
+    (prefix('A', 1) +
+      cpaJulianDate(params.creationDate) +
+      numeric(originator.destinationDataCentre, 5) +
+      alpha('', 20) +
+      alpha(params.currency, 3)).padEnd(CPA_RECORD_LENGTH, ' ')
+  ];
+
+  for (let i = 0; i < params.items.length; i += CPA_SEGMENTS_PER_RECORD) {
+    const segments = params.items
+      .slice(i, i + CPA_SEGMENTS_PER_RECORD)
+      .map(item => cpaSegment(params, item))
+      .join('');
+    records.push((prefix('C', records.length + 1) + segments).padEnd(CPA_RECORD_LENGTH, ' '));
+  }
+
+  const total = params.items.reduce((sum, item) => sum + toCents(item.amount), 0);
+  records.push(
+    (prefix('Z', records.length + 1) +
+      numeric(0, 14) + // Value of debits
+      numeric(0, 8) + // Number of debits
+      numeric(total, 14) +
+      numeric(params.items.length, 8) +
+      numeric(0, 44)).padEnd(CPA_RECORD_LENGTH, ' ') // Error-corrected E/F totals
+  );
+
+  return records.join('\r\n') + '\r\n';
+}
+
+/**
+ * Returned credits come back as I records (J for debits) with the usual
+ * segment layout; the return reason sits in the segment's last 11 positions
+ */
+export function parseCpa005Returns(text: string): ReturnedItem[] {
+  const items: ReturnedItem[] = [];
+
+  for (const record of text.split(/\r?\n/)) {
+    if (record[0] !== 'I' && record[0] !== 'J') continue;
+
+    for (let offset = 24; offset + CPA_SEGMENT_LENGTH <= record.length; offset += CPA_SEGMENT_LENGTH) {
+      const segment = record.slice(offset, offset + CPA_SEGMENT_LENGTH);
+      if (!segment.trim() || /^0+$/.test(segment.slice(3, 13))) continue;
+
+      const reasonCode = segment.slice(229, 240).replace(/^0+/, '').trim().slice(0, 3) || '990';
+      items.push({
+        reference: segment.slice(150, 169).trim(),
+        amount: new Decimal(segment.slice(3, 13)).div(100),
+        reasonCode,
+        ...describeReturnReason(reasonCode)
+      });
+    }
+  }
+
+  return items;
+}
+
+// ---------------------------------------------------------------------------
+// ISO 20022 pain.001 / pain.002
+// ---------------------------------------------------------------------------
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function clearingMember(account: CanadianBankAccount): string {
+  return `<FinInstnId><ClrSysMmbId><ClrSysId><Cd>CACPA</Cd></ClrSysId><MmbId>${routingNumber(account)}</MmbId></ClrSysMmbId></FinInstnId>`;
+}
+
+export function buildPain001File(params: PayoutFileParams & { messageId: string }): string {
+  const { originator } = params;
+  if (params.items.length === 0) {
+    throw new EftFileError('A payout file needs at least one item');
+  }
+  params.items.forEach(item => validateBankAccount(item.account));
+  validateBankAccount(originator.account);
+
+  const controlSum = params.items
+    .reduce((sum, item) => sum.add(toCents(item.amount)), new Decimal(0))
+    .div(100)
+    .toFixed(2);
+
+  const transactions = params.items.map(item => `
+      <CdtTrfTxInf>
+        <PmtId><EndToEndId>${xml(item.reference)}</EndToEndId></PmtId>
+        <Amt><InstdAmt Ccy="${params.currency}">${new Decimal(item.amount).toFixed(2)}</InstdAmt></Amt>
+        <CdtrAgt>${clearingMember(item.account)}</CdtrAgt>
+        <Cdtr><Nm>${xml(item.payeeName.slice(0, 140))}</Nm></Cdtr>
+        <CdtrAcct><Id><Othr><Id>${item.account.accountNumber}</Id></Othr></Id></CdtrAcct>${item.remittance ? `
+        <RmtInf><Ustrd>${xml(item.remittance.slice(0, 140))}</Ustrd></RmtInf>` : ''}
+      </CdtTrfTxInf>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03">
+  <CstmrCdtTrfInitn>
+    <GrpHdr>
+      <MsgId>${xml(params.messageId)}</MsgId>
+      <CreDtTm>${params.creationDate.toISOString().slice(0, 19)}</CreDtTm>
+      <NbOfTxs>${params.items.length}</NbOfTxs>
+      <CtrlSum>${controlSum}</CtrlSum>
+      <InitgPty><Nm>${xml(originator.longName)}</Nm><Id><OrgId><Othr><Id>${xml(originator.originatorId)}</Id></Othr></OrgId></Id></InitgPty>
+    </GrpHdr>
+    <PmtInf>
+      <PmtInfId>${xml(params.messageId)}-${numeric(params.fileCreationNumber, 4)}</PmtInfId>
+      <PmtMtd>TRF</PmtMtd>
+      <BtchBookg>true</BtchBookg>
+      <NbOfTxs>${params.items.length}</NbOfTxs>
+      <CtrlSum>${controlSum}</CtrlSum>
+      <PmtTpInf><LclInstrm><Prtry>CPA${numeric(params.transactionCode || '450', 3)}</Prtry></LclInstrm><CtgyPurp><Cd>SUPP</Cd></CtgyPurp></PmtTpInf>
+      <ReqdExctnDt>${isoDate(params.dueDate)}</ReqdExctnDt>
+      <Dbtr><Nm>${xml(originator.longName)}</Nm></Dbtr>
+      <DbtrAcct><Id><Othr><Id>${originator.account.accountNumber}</Id></Othr></Id><Ccy>${params.currency}</Ccy></DbtrAcct>
+      <DbtrAgt>${clearingMember(originator.account)}</DbtrAgt>
+      <ChrgBr>SLEV</ChrgBr>${transactions}
+    </PmtInf>
+  </CstmrCdtTrfInitn>
+</Document>
+`;
+}
+
+function xmlBlocks(source: string, name: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${name}>`, 'g');
+  return Array.from(source.matchAll(pattern), match => match[1]);
+}
+
+function xmlValue(source: string | undefined, name: string): string | undefined {
+  return source ? xmlBlocks(source, name)[0]?.trim() : undefined;
+}
+
+/**
+ * Rejected transactions from a pain.002 payment status report
+ */
+export function parsePain002Returns(text: string): ReturnedItem[] {
+  if (!/CstmrPmtStsRpt/.test(text)) {
+    throw new EftFileError('Not a pain.002 payment status report');
+  }
+
+  return xmlBlocks(text, 'TxInfAndSts')
+    .filter(tx => ['RJCT', 'RTND'].includes(xmlValue(tx, 'TxSts') || ''))
+    .map(tx => {
+      const reasonCode = xmlValue(xmlBlocks(tx, 'Rsn')[0], 'Cd') || 'MS03';
+      return {
+        reference: xmlValue(tx, 'OrgnlEndToEndId') || '',
+        amount: new Decimal(xmlValue(tx, 'InstdAmt') || xmlValue(tx, 'Amt') || 0),
+        reasonCode,
+        ...describeReturnReason(reasonCode)
+      };
+    });
+}
+
+export function parseReturnFile(format: ReturnFileFormat, content: string): ReturnedItem[] {
+  return format === 'CPA005' ? parseCpa005Returns(content) : parsePain002Returns(content);
+}
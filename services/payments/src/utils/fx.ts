@@ -0,0 +1,335 @@
+import Decimal from 'decimal.js';
+
+/**
+ * Foreign Exchange
+ * Currency codes and minor units, rate file parsing (Bank of Canada Valet
+ * exports and plain CSV), rate lookup with inverse and cross rates through
+ * CAD, and realized/unrealized gain-loss arithmetic. Pure functions:
+ * FxService stores the rates and locks around them
+ */
+
+// The platform's books, tax returns and fee thresholds are in CAD
+export const FUNCTIONAL_CURRENCY = 'CAD';
+
+export const CURRENCY_MINOR_UNITS: Record<string, number> = {
+  CAD: 2,
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  AUD: 2,
+  NZD: 2,
+  MXN: 2,
+  CHF: 2,
+  INR: 2,
+  JPY: 0
+};
+
+// Weekends and bank holidays have no published rate; older than this is stale
+export const DEFAULT_MAX_RATE_AGE_DAYS = 5;
+
+export type RateFileFormat = 'csv' | 'boc_valet_json' | 'boc_valet_csv';
+
+export interface FxRate {
+  base: string; // 1 unit of base...
+  quote: string; // ...costs `rate` units of quote
+  rate: Decimal.Value;
+  date: string; // YYYY-MM-DD the rate was published for
+  source: string;
+}
+
+export interface ResolvedRate {
+  base: string;
+  quote: string;
+  rate: Decimal;
+  date: string;
+  source: string;
+  via?: string; // Cross rate computed through this currency
+}
+
+export class FxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FxError';
+  }
+}
+
+export function normalizeCurrency(code: string | undefined): string {
+  const currency = (code || FUNCTIONAL_CURRENCY).trim().toUpperCase();
+  if (CURRENCY_MINOR_UNITS[currency] === undefined) {
+    throw new FxError(`Unsupported currency: ${code}`);
+  }
+  return currency;
+}
+
+export function roundMoney(amount: Decimal.Value, currency: string): Decimal {
+  return new Decimal(amount).toDecimalPlaces(CURRENCY_MINOR_UNITS[normalizeCurrency(currency)], Decimal.ROUND_HALF_UP);
+}
+
+export function convertAmount(amount: Decimal.Value, rate: Decimal.Value, toCurrency: string): Decimal {
+  return roundMoney(new Decimal(amount).mul(rate), toCurrency);
+}
+
+function rateDate(value: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new FxError(`Invalid rate date: ${value}`);
+  }
+  return value;
+}
+
+function positiveRate(value: string, context: string): Decimal {
+  let rate: Decimal;
+  try {
+    rate = new Decimal(value);
+  } catch {
+    throw new FxError(`Invalid rate for ${context}: ${value}`);
+  }
+  if (rate.lte(0)) {
+    throw new FxError(`Invalid rate for ${context}: ${value}`);
+  }
+  return rate;
+}
+
+// Valet series are named FX<base><quote>, e.g. FXUSDCAD
+function valetSeries(name: string): { base: string; quote: string } | null {
+  const match = /^FX([A-Z]{3})([A-Z]{3})$/.exec(name);
+  if (!match || CURRENCY_MINOR_UNITS[match[1]] === undefined || CURRENCY_MINOR_UNITS[match[2]] === undefined) {
+    return null;
+  }
+  return { base: match[1], quote: match[2] };
+}
+
+function splitCsvLine(line: string): string[] {
+  return line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+}
+
+/**
+ * Rates from an offline file. Plain CSV has a `date,base,quote,rate`
+ * header; Valet exports are the Bank of Canada's daily observations, in
+ * which series for currencies we do not support are skipped
+ */
+export function parseRateFile(content: string, format: RateFileFormat, source = 'FILE'): FxRate[] {
+  const rates: FxRate[] = [];
+
+  if (format === 'boc_valet_json') {
+    const observations = JSON.parse(content).observations;
+    if (!Array.isArray(observations)) {
+      throw new FxError('Valet file has no observations');
+    }
+    for (const observation of observations) {
+      for (const [name, value] of Object.entries(observation)) {
+        const series = valetSeries(name);
+        const raw = (value as any)?.v;
+        if (!series || raw === undefined || raw === '') continue;
+        rates.push({ ...series, rate: positiveRate(raw, name).toString(), date: rateDate(observation.d), source });
+      }
+    }
+    return rates;
+  }
+
+  const lines = content.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+  if (format === 'boc_valet_csv') {
+    // Metadata sections come first; the data starts after "OBSERVATIONS"
+    const start = lines.findIndex(line => line.replace(/"/g, '') === 'OBSERVATIONS');
+    if (start === -1 || !lines[start + 1]) {
+      throw new FxError('Valet file has no OBSERVATIONS section');
+    }
+    const header = splitCsvLine(lines[start + 1]);
+    for (const line of lines.slice(start + 2)) {
+      const cells = splitCsvLine(line);
+      header.forEach((name, index) => {
+        const series = valetSeries(name);
+        if (!series || !cells[index]) return;
+        rates.push({ ...series, rate: positiveRate(cells[index], name).toString(), date: rateDate(cells[0]), source });
+      });
+    }
+    return rates;
+  }
+
+  const header = splitCsvLine(lines[0] || '').map(cell => cell.toLowerCase());
+  const column = (name: string) => {
+    const index = header.indexOf(name);
+    if (index === -1) {
+      throw new FxError(`Rate file is missing the ${name} column`);
+    }
+    return index;
+  };
+  const [date, base, quote, rate] = ['date', 'base', 'quote', 'rate'].map(column);
+
+  lines.slice(1).forEach((line, index) => {
+    const cells = splitCsvLine(line);
+    rates.push({
+      base: normalizeCurrency(cells[base]),
+      quote: normalizeCurrency(cells[quote]),
+      rate: positiveRate(cells[rate], `line ${index + 2}`).toString(),
+      date: rateDate(cells[date]),
+      source
+    });
+  });
+  return rates;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * The rate for converting `from` into `to` on `date`: the latest rate
+ * published on or before it, direct, inverted, or crossed through CAD
+ */
+export function findRate(
+  rates: FxRate[],
+  from: string,
+  to: string,
+  date: string,
+  maxAgeDays = DEFAULT_MAX_RATE_AGE_DAYS
+): ResolvedRate {
+  const base = normalizeCurrency(from);
+  const quote = normalizeCurrency(to);
+
+  if (base === quote) {
+    return { base, quote, rate: new Decimal(1), date, source: 'IDENTITY' };
+  }
+
+  const latest = (b: string, q: string): ResolvedRate | null => {
+    let best: { rate: FxRate; inverted: boolean } | null = null;
+    for (const rate of rates) {
+      if (rate.date > date || daysBetween(rate.date, date) > maxAgeDays) continue;
+      const direct = rate.base === b && rate.quote === q;
+      const inverse = rate.base === q && rate.quote === b;
+      if (!direct && !inverse) continue;
+      // Same day: a direct quote beats an inverted one
+      if (!best || rate.date > best.rate.date || (rate.date === best.rate.date && direct && best.inverted)) {
+        best = { rate, inverted: inverse };
+      }
+    }
+    if (!best) return null;
+    const value = new Decimal(best.rate.rate);
+    return {
+      base: b,
+      quote: q,
+      rate: best.inverted ? new Decimal(1).div(value) : value,
+      date: best.rate.date,
+      source: best.rate.source
+    };
+  };
+
+  const direct = latest(base, quote);
+  if (direct) {
+    return direct;
+  }
+
+  if (base !== FUNCTIONAL_CURRENCY && quote !== FUNCTIONAL_CURRENCY) {
+    const first = latest(base, FUNCTIONAL_CURRENCY);
+    const second = latest(FUNCTIONAL_CURRENCY, quote);
+    if (first && second) {
+      return {
+        base,
+        quote,
+        rate: first.rate.mul(second.rate),
+        date: first.date < second.date ? first.date : second.date,
+        source: first.source === second.source ? first.source : `${first.source}+${second.source}`,
+        via: FUNCTIONAL_CURRENCY
+      };
+    }
+  }
+
+  throw new FxError(`No ${base}/${quote} rate within ${maxAgeDays} days of ${date}`);
+}
+
+/**
+ * Gain (positive) or loss in CAD when a foreign-currency item booked at one
+ * rate settles at another. A receivable gains when the currency strengthens;
+ * a payable loses
+ */
+export function realizedGainLoss(params: {
+  amount: Decimal.Value; // In the foreign currency
+  bookedRate: Decimal.Value; // CAD per unit when the item was booked
+  settledRate: Decimal.Value; // CAD per unit when it settled
+  side: 'receivable' | 'payable';
+}): Decimal {
+  const difference = new Decimal(params.settledRate).sub(params.bookedRate);
+  const gain = new Decimal(params.amount).mul(difference);
+  return roundMoney(params.side === 'receivable' ? gain : gain.neg(), FUNCTIONAL_CURRENCY);
+}
+
+export interface OpenFxItem {
+  id: string;
+  kind: string; // e.g. invoice, escrow
+  currency: string;
+  amount: Decimal.Value; // Still open, in the item's currency
+  bookedRate: Decimal.Value;
+  side: 'receivable' | 'payable';
+}
+
+export interface UnrealizedFxReport {
+  asOf: string;
+  currencies: Array<{
+    currency: string;
+    rate: string;
+    rateDate: string;
+    exposure: string;
+    bookedValue: string;
+    currentValue: string;
+    gainLoss: string;
+  }>;
+  items: Array<{ id: string; kind: string; currency: string; amount: string; gainLoss: string }>;
+  total: string;
+}
+
+/**
+ * Revalue open foreign-currency items at today's rates. Items in a
+ * currency with no current rate are left out and listed as unpriced
+ */
+export function revalueOpenItems(
+  items: OpenFxItem[],
+  rateFor: (currency: string) => ResolvedRate,
+  asOf: Date
+): UnrealizedFxReport & { unpriced: string[] } {
+  const byCurrency = new Map<string, { rate: ResolvedRate; exposure: Decimal; booked: Decimal; current: Decimal; gainLoss: Decimal }>();
+  const unpriced = new Set<string>();
+  const reportItems: UnrealizedFxReport['items'] = [];
+
+  for (const item of items) {
+    const currency = normalizeCurrency(item.currency);
+    if (currency === FUNCTIONAL_CURRENCY || new Decimal(item.amount).isZero()) continue;
+
+    let totals = byCurrency.get(currency);
+    if (!totals) {
+      try {
+        totals = { rate: rateFor(currency), exposure: new Decimal(0), booked: new Decimal(0), current: new Decimal(0), gainLoss: new Decimal(0) };
+        byCurrency.set(currency, totals);
+      } catch (error) {
+        if (!(error instanceof FxError)) throw error;
+        unpriced.add(currency);
+        continue;
+      }
+    }
+
+    const gainLoss = realizedGainLoss({ amount: item.amount, bookedRate: item.bookedRate, settledRate: totals.rate.rate, side: item.side });
+    const sign = item.side === 'receivable' ? 1 : -1;
+    totals.exposure = totals.exposure.add(new Decimal(item.amount).mul(sign));
+    totals.booked = totals.booked.add(convertAmount(item.amount, item.bookedRate, FUNCTIONAL_CURRENCY).mul(sign));
+    totals.current = totals.current.add(convertAmount(item.amount, totals.rate.rate, FUNCTIONAL_CURRENCY).mul(sign));
+    totals.gainLoss = totals.gainLoss.add(gainLoss);
+    reportItems.push({ id: item.id, kind: item.kind, currency, amount: new Decimal(item.amount).toFixed(), gainLoss: gainLoss.toFixed(2) });
+  }
+
+  const currencies = Array.from(byCurrency, ([currency, totals]) => ({
+    currency,
+    rate: totals.rate.rate.toString(),
+    rateDate: totals.rate.date,
+    exposure: totals.exposure.toFixed(CURRENCY_MINOR_UNITS[currency]),
+    bookedValue: totals.booked.toFixed(2),
+    currentValue: totals.current.toFixed(2),
+    gainLoss: totals.gainLoss.toFixed(2)
+  })).sort((a, b) => a.currency.localeCompare(b.currency));
+
+  return {
+    asOf: asOf.toISOString(),
+    currencies,
+    items: reportItems,
+    total: currencies.reduce((sum, entry) => sum.add(entry.gainLoss), new Decimal(0)).toFixed(2),
+    unpriced: Array.from(unpriced)
+  };
+}
@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+
+/**
+ * Hash Chains
+ * Append-only event logs where each event's hash covers the one before it,
+ * so changing, dropping or reordering any event breaks every hash after
+ * it. Pure functions with no dependencies beyond node's crypto, so the
+ * offline verification CLI can use them as they are
+ */
+
+// The previous hash of the first event in every chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface ChainEventInput {
+  chainId: string; // e.g. universal_escrow:<id>
+  type: string;
+  payload: Record<string, unknown>;
+  occurredAt: string; // ISO 8601
+}
+
+export interface ChainEvent extends ChainEventInput {
+  sequence: number; // From 1, no gaps
+  prevHash: string;
+  hash: string;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  length: number;
+  headHash: string;
+  error?: { sequence: number; reason: string };
+}
+
+/**
+ * JSON with object keys sorted at every level and no whitespace, so the
+ * same data always hashes the same however it was built or stored
+ */
+export function canonicalJson(value: unknown): string {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as object)
+      .filter(key => (value as any)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as any)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new Error('Cannot hash a non-finite number');
+  }
+  return JSON.stringify(value);
+}
+
+export function sha256Hex(data: string): string {
+  return crypto.createHash('sha256').update(data, 'utf8').digest('hex');
+}
+
+export function hashEvent(event: Omit<ChainEvent, 'hash'>): string {
+  return sha256Hex(canonicalJson({
+    chainId: event.chainId,
+    sequence: event.sequence,
+    type: event.type,
+    payload: event.payload,
+    occurredAt: event.occurredAt,
+    prevHash: event.prevHash
+  }));
+}
+
+/**
+ * The event that follows `previous` (or starts the chain). The payload is
+ * passed through JSON first so it hashes the same once stored and read back
+ */
+export function nextEvent(previous: ChainEvent | null, input: ChainEventInput): ChainEvent {
+  if (previous && previous.chainId !== input.chainId) {
+    throw new Error(`Event for ${input.chainId} cannot follow an event of ${previous.chainId}`);
+  }
+
+  const event = {
+    chainId: input.chainId,
+    sequence: previous ? previous.sequence + 1 : 1,
+    type: input.type,
+    payload: JSON.parse(JSON.stringify(input.payload)),
+    occurredAt: input.occurredAt,
+    prevHash: previous ? previous.hash : GENESIS_HASH
+  };
+  return { ...event, hash: hashEvent(event) };
+}
+
+/**
+ * Check a chain from its first event: sequences run 1, 2, 3..., each event
+ * points at the one before, and every hash matches its contents
+ */
+export function verifyChain(events: ChainEvent[], chainId?: string): ChainVerification {
+  let prevHash = GENESIS_HASH;
+
+  for (let index = 0; index < events.length; index++) {
+    const event = events[index];
+    const fail = (reason: string): ChainVerification => ({
+      valid: false,
+      length: index,
+      headHash: prevHash,
+      error: { sequence: event.sequence ?? index + 1, reason }
+    });
+
+    if (event.chainId !== (chainId ?? events[0].chainId)) {
+      return fail(`Event belongs to chain ${event.chainId}`);
+    }
+    if (event.sequence !== index + 1) {
+      return fail(`Expected sequence ${index + 1}, found ${event.sequence}`);
+    }
+    if (event.prevHash !== prevHash) {
+      return fail('Previous hash does not match the event before it');
+    }
+    if (hashEvent(event) !== event.hash) {
+      return fail('Event contents do not match its hash');
+    }
+    prevHash = event.hash;
+  }
+
+  return { valid: true, length: events.length, headHash: prevHash };
+}
@@ -0,0 +1,102 @@
+import axios from 'axios';
+import { logger } from './logger';
+
+interface NotificationPayload {
+  type: string;
+  recipients: string[];
+  data: any;
+  priority?: 'low' | 'normal' | 'high';
+  channels?: ('email' | 'in_app' | 'sms' | 'push')[];
+}
+
+export async function sendNotification(payload: NotificationPayload): Promise<boolean> {
+  try {
+    const notificationServiceUrl = process.env.NOTIFICATION_SERVICE_URL || 'http://notification-service:3007';
+
+    await axios.post(`${notificationServiceUrl}/api/notifications/send`, {
+      type: payload.type,
+      recipients: payload.recipients,
+      data: payload.data,
+      priority: payload.priority || 'normal',
+      channels: payload.channels,
+      timestamp: new Date().toISOString()
+    }, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Service-Token': process.env.INTERNAL_SERVICE_TOKEN
+      }
+    });
+
+    logger.info(`Notification sent: ${payload.type} to ${payload.recipients.length} recipients`);
+    return true;
+  } catch (error) {
+    logger.error('Failed to send notification:', error);
+    // Don't throw - notifications should not break the main flow
+    return false;
+  }
+}
+
+export async function notifyInvoiceIssued(invoice: any): Promise<boolean> {
+  return sendNotification({
+    type: 'invoice.issued',
+    recipients: [invoice.clientId],
+    data: {
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      vendorName: invoice.vendorName,
+      totalAmount: invoice.totalAmount.toString(),
+      currency: invoice.currency,
+      dueDate: invoice.dueDate
+    },
+    priority: 'normal',
+    channels: ['email', 'in_app']
+  });
+}
+
+export async function notifyInvoiceDunning(
+  invoice: any,
+  step: { type: string; priority: 'low' | 'normal' | 'high'; notifyVendor?: boolean },
+  details: { daysOverdue: number; lateFee?: string; annualInterestRatePercent?: number }
+): Promise<boolean> {
+  return sendNotification({
+    type: step.type,
+    recipients: step.notifyVendor ? [invoice.clientId, invoice.vendorId] : [invoice.clientId],
+    data: {
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      vendorName: invoice.vendorName,
+      balanceDue: invoice.balanceDue.toString(),
+      currency: invoice.currency,
+      dueDate: invoice.dueDate,
+      ...details
+    },
+    priority: step.priority,
+    channels: step.priority === 'high' ? ['email', 'in_app', 'sms'] : ['email', 'in_app']
+  });
+}
+
+export async function notifyDisputeCase(
+  disputeCase: any,
+  type: string,
+  recipients: string[],
+  details: Record<string, unknown> = {},
+  priority: 'low' | 'normal' | 'high' = 'normal'
+): Promise<boolean> {
+  return sendNotification({
+    type,
+    recipients: Array.from(new Set(recipients.filter(Boolean))),
+    data: {
+      caseId: disputeCase.id,
+      reference: disputeCase.reference,
+      subjectType: disputeCase.subjectType,
+      subjectId: disputeCase.subjectId,
+      state: disputeCase.state,
+      stateDeadline: disputeCase.stateDeadline,
+      amount: disputeCase.frozenAmount.toString(),
+      currency: disputeCase.currency,
+      ...details
+    },
+    priority,
+    channels: priority === 'high' ? ['email', 'in_app', 'sms'] : ['email', 'in_app']
+  });
+}
@@ -0,0 +1,171 @@
+import crypto from 'crypto';
+import { canonicalJson, sha256Hex, verifyChain, ChainEvent } from './hash-chain';
+
+/**
+ * Payment Certificates
+ * Signing and offline verification of the payment certificates lenders
+ * take as security. A certificate is anchored to a point in its escrow's
+ * hash chain and signed with the platform's Ed25519 key, so a lender
+ * holding the bundle and our public key needs nothing else from us
+ */
+
+export const CERTIFICATE_ALGORITHM = 'Ed25519';
+
+export interface CertificateBody {
+  certificateNumber: string;
+  escrowId: string;
+  issuedAt: string;
+  guarantee: {
+    amount: number;
+    currency: string;
+    guarantor: string;
+    expiryDate: string;
+    conditions: string[];
+  };
+  bankingDetails: {
+    acceptable: boolean;
+    ltvRatio: number;
+    riskRating: string;
+    suggestedRate: number;
+  };
+  // The escrow chain event the certificate was issued on top of
+  anchor: {
+    chainId: string;
+    sequence: number;
+    hash: string;
+  };
+}
+
+export interface SignedCertificate {
+  body: CertificateBody;
+  digest: string; // SHA-256 of the canonical body
+  signature: string; // Base64 Ed25519 signature over the digest
+  keyId: string;
+  algorithm: typeof CERTIFICATE_ALGORITHM;
+}
+
+// What a lender keeps: the certificate and the escrow's chain up to when
+// the bundle was downloaded
+export interface CertificateBundle {
+  certificate: SignedCertificate;
+  chain: ChainEvent[];
+}
+
+export interface CertificateVerification {
+  valid: boolean;
+  checks: {
+    digest: boolean;
+    signature: boolean;
+    chain: boolean;
+    anchor: boolean;
+    current: boolean; // Not past its expiry date
+    notRevoked: boolean; // No revocation on the chain
+  };
+  errors: string[];
+  eventsSinceIssue: Array<{ sequence: number; type: string; occurredAt: string }>;
+}
+
+/**
+ * Short fingerprint of a public key, printed on certificates so a lender
+ * can tell which of our keys signed one
+ */
+export function keyIdFor(publicKeyPem: string): string {
+  const der = crypto.createPublicKey(publicKeyPem).export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(der).digest('hex').slice(0, 16);
+}
+
+export function certificateDigest(body: CertificateBody): string {
+  return sha256Hex(canonicalJson(body));
+}
+
+export function signCertificate(body: CertificateBody, privateKeyPem: string): SignedCertificate {
+  const privateKey = crypto.createPrivateKey(privateKeyPem);
+  const digest = certificateDigest(body);
+
+  return {
+    body,
+    digest,
+    signature: crypto.sign(null, Buffer.from(digest, 'hex'), privateKey).toString('base64'),
+    keyId: keyIdFor(crypto.createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString()),
+    algorithm: CERTIFICATE_ALGORITHM
+  };
+}
+
+/**
+ * Everything a lender can check without contacting us: the certificate is
+ * unaltered and signed by our key, the chain is intact and contains the
+ * anchor, the guarantee has not expired and the chain records no
+ * revocation. Later chain events (releases, disputes) are listed for the
+ * lender to weigh
+ */
+export function verifyCertificateBundle(
+  bundle: CertificateBundle,
+  publicKeyPem: string,
+  asOf: Date = new Date()
+): CertificateVerification {
+  const { certificate, chain } = bundle;
+  const errors: string[] = [];
+  const checks = { digest: false, signature: false, chain: false, anchor: false, current: false, notRevoked: false };
+
+  checks.digest = certificateDigest(certificate.body) === certificate.digest;
+  if (!checks.digest) {
+    errors.push('Certificate contents do not match its digest');
+  }
+
+  try {
+    if (certificate.algorithm !== CERTIFICATE_ALGORITHM) {
+      errors.push(`Unsupported signature algorithm ${certificate.algorithm}`);
+    } else if (keyIdFor(publicKeyPem) !== certificate.keyId) {
+      errors.push(`Certificate was signed by key ${certificate.keyId}, not the key given`);
+    } else {
+      checks.signature = crypto.verify(
+        null,
+        Buffer.from(certificate.digest, 'hex'),
+        crypto.createPublicKey(publicKeyPem),
+        Buffer.from(certificate.signature, 'base64')
+      );
+      if (!checks.signature) {
+        errors.push('Signature does not verify');
+      }
+    }
+  } catch (error) {
+    errors.push(`Signature could not be checked: ${(error as Error).message}`);
+  }
+
+  const { anchor } = certificate.body;
+  const verification = verifyChain(chain, anchor.chainId);
+  checks.chain = verification.valid && chain.length > 0;
+  if (!verification.valid) {
+    errors.push(`Escrow chain broken at event ${verification.error?.sequence}: ${verification.error?.reason}`);
+  } else if (chain.length === 0) {
+    errors.push('Bundle has no escrow chain');
+  }
+
+  const anchored = chain[anchor.sequence - 1];
+  checks.anchor = Boolean(anchored) && anchored.hash === anchor.hash && anchored.chainId === anchor.chainId;
+  if (!checks.anchor) {
+    errors.push(`Escrow chain does not contain event ${anchor.sequence} with the certificate's hash`);
+  }
+
+  checks.current = asOf.getTime() <= Date.parse(certificate.body.guarantee.expiryDate);
+  if (!checks.current) {
+    errors.push(`Guarantee expired on ${certificate.body.guarantee.expiryDate}`);
+  }
+
+  const revocation = chain.find(event =>
+    event.type === 'certificate_revoked' && event.payload.certificateNumber === certificate.body.certificateNumber
+  );
+  checks.notRevoked = !revocation;
+  if (revocation) {
+    errors.push(`Certificate revoked on ${revocation.occurredAt}: ${revocation.payload.reason}`);
+  }
+
+  return {
+    valid: Object.values(checks).every(Boolean),
+    checks,
+    errors,
+    eventsSinceIssue: chain
+      .slice(anchor.sequence)
+      .map(event => ({ sequence: event.sequence, type: event.type, occurredAt: event.occurredAt }))
+  };
+}
@@ -0,0 +1,305 @@
+import Decimal from 'decimal.js';
+
+/**
+ * Accounts Receivable
+ * Invoice numbering, payment terms, recurrence, aging buckets, late fees,
+ * dunning steps and payment allocation. Pure functions: ReceivablesService
+ * loads and stores the invoices around them
+ */
+
+export type PaymentTerms =
+  | 'due_on_receipt'
+  | 'net_15'
+  | 'net_30'
+  | 'net_45'
+  | 'net_60'
+  | 'net_90'
+  | '2_10_net_30';
+
+export type RecurrenceFrequency = 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'ANNUALLY';
+
+export type AgingBucket = 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_90_plus';
+
+export const AGING_BUCKETS: AgingBucket[] = ['current', 'days_1_30', 'days_31_60', 'days_61_90', 'days_90_plus'];
+
+export interface OpenInvoice {
+  id: string;
+  invoiceNumber: string;
+  clientId: string;
+  clientName?: string;
+  dueDate: Date;
+  balanceDue: Decimal.Value;
+}
+
+export interface LateFeePolicy {
+  monthlyRatePercent?: number; // Interest per 30 days overdue, e.g. 1.5
+  flatFee?: Decimal.Value; // Charged once when the grace period ends
+  graceDays?: number;
+  maxPeriods?: number; // Stop charging interest after this many periods
+}
+
+export interface DunningStep {
+  id: string;
+  offsetDays: number; // Relative to the due date; negative means before it
+  type: string; // Notification type sent through the communications service
+  priority: 'low' | 'normal' | 'high';
+  notifyVendor?: boolean;
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TERM_DAYS: Record<PaymentTerms, number> = {
+  due_on_receipt: 0,
+  net_15: 15,
+  net_30: 30,
+  net_45: 45,
+  net_60: 60,
+  net_90: 90,
+  '2_10_net_30': 30
+};
+
+export const DEFAULT_DUNNING_SEQUENCE: DunningStep[] = [
+  { id: 'upcoming', offsetDays: -3, type: 'invoice.reminder', priority: 'low' },
+  { id: 'overdue', offsetDays: 1, type: 'invoice.overdue', priority: 'normal' },
+  { id: 'second_notice', offsetDays: 15, type: 'invoice.second_notice', priority: 'normal' },
+  { id: 'final_notice', offsetDays: 30, type: 'invoice.final_notice', priority: 'high' },
+  { id: 'collections', offsetDays: 60, type: 'invoice.collections', priority: 'high', notifyVendor: true }
+];
+
+/**
+ * The dunning sequence from INVOICE_DUNNING_SEQUENCE (JSON array of steps),
+ * or the default one
+ */
+export function loadDunningSequence(raw = process.env.INVOICE_DUNNING_SEQUENCE): DunningStep[] {
+  if (!raw) {
+    return DEFAULT_DUNNING_SEQUENCE;
+  }
+
+  const steps = JSON.parse(raw);
+  if (!Array.isArray(steps) || steps.some(step => !step.id || typeof step.offsetDays !== 'number' || !step.type)) {
+    throw new Error('INVOICE_DUNNING_SEQUENCE must be a JSON array of { id, offsetDays, type } steps');
+  }
+  return [...steps].sort((a, b) => a.offsetDays - b.offsetDays);
+}
+
+// INV-2026-00042: per-business prefix, year of issue, sequence within the year
+export function formatInvoiceNumber(prefix: string, issueDate: Date, sequence: number): string {
+  return `${prefix}-${issueDate.getUTCFullYear()}-${String(sequence).padStart(5, '0')}`;
+}
+
+export function dueDateFor(issueDate: Date, terms: PaymentTerms): Date {
+  const days = TERM_DAYS[terms];
+  if (days === undefined) {
+    throw new Error(`Unknown payment terms: ${terms}`);
+  }
+  return new Date(issueDate.getTime() + days * DAY_MS);
+}
+
+/**
+ * 2/10 net 30: the discount the client may take if paid within 10 days
+ */
+export function earlyPaymentDiscount(terms: PaymentTerms, issueDate: Date, paidAt: Date, total: Decimal.Value): Decimal {
+  if (terms !== '2_10_net_30' || paidAt.getTime() > issueDate.getTime() + 10 * DAY_MS) {
+    return new Decimal(0);
+  }
+  return new Decimal(total).mul(0.02).toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+}
+
+/**
+ * The next issue date after `from`. Monthly and longer schedules keep the
+ * anchor day, clamped to the end of shorter months
+ */
+export function nextRunDate(frequency: RecurrenceFrequency, from: Date, anchorDay = from.getUTCDate()): Date {
+  if (frequency === 'WEEKLY' || frequency === 'BIWEEKLY') {
+    return new Date(from.getTime() + (frequency === 'WEEKLY' ? 7 : 14) * DAY_MS);
+  }
+
+  const months = frequency === 'MONTHLY' ? 1 : frequency === 'QUARTERLY' ? 3 : 12;
+  const year = from.getUTCFullYear();
+  const month = from.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  return new Date(Date.UTC(
+    year,
+    month,
+    Math.min(anchorDay, lastDay),
+    from.getUTCHours(),
+    from.getUTCMinutes()
+  ));
+}
+
+export function daysOverdue(dueDate: Date, asOf: Date): number {
+  return Math.max(0, Math.floor((asOf.getTime() - dueDate.getTime()) / DAY_MS));
+}
+
+export function agingBucket(dueDate: Date, asOf: Date): AgingBucket {
+  const days = daysOverdue(dueDate, asOf);
+  if (days === 0) return 'current';
+  if (days <= 30) return 'days_1_30';
+  if (days <= 60) return 'days_31_60';
+  if (days <= 90) return 'days_61_90';
+  return 'days_90_plus';
+}
+
+export interface AgingReport {
+  asOf: string;
+  totals: Record<AgingBucket, string> & { total: string };
+  clients: Array<{
+    clientId: string;
+    clientName?: string;
+    buckets: Record<AgingBucket, string>;
+    total: string;
+    oldestDaysOverdue: number;
+  }>;
+  invoiceCount: number;
+}
+
+export function buildAgingReport(invoices: OpenInvoice[], asOf: Date): AgingReport {
+  const empty = () => Object.fromEntries(AGING_BUCKETS.map(bucket => [bucket, new Decimal(0)])) as Record<AgingBucket, Decimal>;
+  const totals = empty();
+  const clients = new Map<string, { clientName?: string; buckets: Record<AgingBucket, Decimal>; oldest: number }>();
+
+  for (const invoice of invoices) {
+    const balance = new Decimal(invoice.balanceDue);
+    if (balance.lte(0)) continue;
+
+    const bucket = agingBucket(invoice.dueDate, asOf);
+    const client = clients.get(invoice.clientId) || { clientName: invoice.clientName, buckets: empty(), oldest: 0 };
+    client.buckets[bucket] = client.buckets[bucket].add(balance);
+    client.oldest = Math.max(client.oldest, daysOverdue(invoice.dueDate, asOf));
+    clients.set(invoice.clientId, client);
+    totals[bucket] = totals[bucket].add(balance);
+  }
+
+  const money = (buckets: Record<AgingBucket, Decimal>) =>
+    Object.fromEntries(AGING_BUCKETS.map(bucket => [bucket, buckets[bucket].toFixed(2)])) as Record<AgingBucket, string>;
+  const sum = (buckets: Record<AgingBucket, Decimal>) =>
+    AGING_BUCKETS.reduce((total, bucket) => total.add(buckets[bucket]), new Decimal(0));
+
+  return {
+    asOf: asOf.toISOString(),
+    totals: { ...money(totals), total: sum(totals).toFixed(2) },
+    clients: Array.from(clients, ([clientId, client]) => ({
+      clientId,
+      clientName: client.clientName,
+      buckets: money(client.buckets),
+      total: sum(client.buckets).toFixed(2),
+      oldestDaysOverdue: client.oldest
+    })).sort((a, b) => b.oldestDaysOverdue - a.oldestDaysOverdue),
+    invoiceCount: invoices.filter(invoice => new Decimal(invoice.balanceDue).gt(0)).length
+  };
+}
+
+/**
+ * Late fees owed beyond what was already charged. Interest accrues per full
+ * 30 days past the grace period on the balance still due
+ */
+export function calculateLateFee(params: {
+  policy: LateFeePolicy;
+  balanceDue: Decimal.Value;
+  dueDate: Date;
+  asOf: Date;
+  periodsCharged: number;
+  flatFeeCharged: boolean;
+}): { amount: Decimal; periods: number; flatFee: boolean } {
+  const { policy } = params;
+  const overdue = daysOverdue(params.dueDate, params.asOf) - (policy.graceDays || 0);
+  const none = { amount: new Decimal(0), periods: 0, flatFee: false };
+
+  if (overdue <= 0 || new Decimal(params.balanceDue).lte(0)) {
+    return none;
+  }
+
+  const flatFee = !!policy.flatFee && !params.flatFeeCharged;
+  let periods = 0;
+  let amount = flatFee ? new Decimal(policy.flatFee!) : new Decimal(0);
+
+  if (policy.monthlyRatePercent) {
+    const elapsed = Math.ceil(overdue / 30);
+    const limit = policy.maxPeriods ?? Infinity;
+    periods = Math.max(0, Math.min(elapsed, limit) - params.periodsCharged);
+    amount = amount.add(new Decimal(params.balanceDue).mul(policy.monthlyRatePercent).div(100).mul(periods));
+  }
+
+  return { amount: amount.toDecimalPlaces(2, Decimal.ROUND_HALF_UP), periods, flatFee };
+}
+
+/**
+ * The step to send now, if any. When several steps came due since the last
+ * run only the most advanced one is sent; the rest are reported as skipped
+ */
+export function dueDunningStep(
+  sequence: DunningStep[],
+  dueDate: Date,
+  asOf: Date,
+  sentStepIds: string[]
+): { step?: DunningStep; skipped: DunningStep[] } {
+  const eligible = sequence.filter(step =>
+    !sentStepIds.includes(step.id) &&
+    asOf.getTime() >= dueDate.getTime() + step.offsetDays * DAY_MS
+  );
+
+  // Never go back to an earlier step once a later one went out
+  const lastSent = Math.max(-1, ...sentStepIds.map(id => sequence.findIndex(step => step.id === id)));
+  const ahead = eligible.filter(step => sequence.indexOf(step) > lastSent);
+
+  if (ahead.length === 0) {
+    return { skipped: [] };
+  }
+  return { step: ahead[ahead.length - 1], skipped: ahead.slice(0, -1) };
+}
+
+export interface PaymentAllocation {
+  invoiceId: string;
+  amount: Decimal;
+}
+
+/**
+ * Spread a payment over open invoices. Requested allocations are honoured
+ * first; anything left pays the oldest invoices, and the rest stays
+ * unapplied as a credit
+ */
+export function allocatePayment(
+  amount: Decimal.Value,
+  invoices: OpenInvoice[],
+  requested: Array<{ invoiceId: string; amount: Decimal.Value }> = []
+): { allocations: PaymentAllocation[]; unapplied: Decimal } {
+  let remaining = new Decimal(amount);
+  if (remaining.lte(0)) {
+    throw new Error('Payment amount must be positive');
+  }
+
+  const balances = new Map(invoices.map(invoice => [invoice.id, new Decimal(invoice.balanceDue)]));
+  const applied = new Map<string, Decimal>();
+
+  const apply = (invoiceId: string, value: Decimal) => {
+    balances.set(invoiceId, balances.get(invoiceId)!.sub(value));
+    applied.set(invoiceId, (applied.get(invoiceId) || new Decimal(0)).add(value));
+    remaining = remaining.sub(value);
+  };
+
+  for (const request of requested) {
+    const balance = balances.get(request.invoiceId);
+    const value = new Decimal(request.amount);
+    if (!balance) {
+      throw new Error(`Invoice ${request.invoiceId} is not open for this client`);
+    }
+    if (value.lte(0) || value.gt(balance) || value.gt(remaining)) {
+      throw new Error(`Cannot apply ${value.toFixed(2)} to invoice ${request.invoiceId}`);
+    }
+    apply(request.invoiceId, value);
+  }
+
+  const oldestFirst = [...invoices].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  for (const invoice of oldestFirst) {
+    if (remaining.lte(0)) break;
+    const balance = balances.get(invoice.id)!;
+    if (balance.lte(0)) continue;
+    apply(invoice.id, Decimal.min(balance, remaining));
+  }
+
+  return {
+    allocations: Array.from(applied, ([invoiceId, value]) => ({ invoiceId, amount: value })),
+    unapplied: remaining
+  };
+}
@@ -0,0 +1,543 @@
+import Decimal from 'decimal.js';
+
+/**
+ * Canadian Sales Tax Engine
+ * Place-of-supply rules, GST/HST, QST and PST rates, zero-rated and exempt
+ * supplies, Indian Act section 87 relief and the GST34 return worksheet.
+ * Pure functions: TaxService loads and stores the data around them
+ */
+
+export const GST_RATE = 0.05;
+
+export type SupplyType = 'goods' | 'services' | 'intangible' | 'real_property';
+export type SupplyCategory = 'standard' | 'zero_rated' | 'exempt';
+
+export interface TaxAddress {
+  country: string; // ISO 3166 alpha-2
+  province?: string;
+  onReserve?: boolean;
+  reserveName?: string;
+}
+
+export interface ProvincialRates {
+  name: string;
+  hst: number; // Combined rate, federal part included
+  pst: number;
+  qst: number;
+}
+
+export interface TaxLineInput {
+  id?: string;
+  description: string;
+  quantity?: number;
+  unitPrice: Decimal.Value;
+  discount?: Decimal.Value;
+  supplyType: SupplyType;
+  category?: SupplyCategory;
+  categoryReason?: string; // e.g. basic groceries, prescription drugs, financial service
+  propertyLocation?: TaxAddress; // Required for real property and services in relation to it
+  performedOnReserve?: boolean; // Services performed entirely on a reserve
+  provincialTaxable?: boolean; // Services that BC, SK or MB also tax (legal, contractual, etc.)
+}
+
+export type PurchaserType = 'status_indian' | 'band' | 'band_empowered_entity';
+
+export type ExemptionBasis =
+  | 'section_87_goods' // Goods delivered to a reserve by the vendor or its carrier
+  | 'section_87_services' // Services performed entirely on a reserve
+  | 'band_management' // Band purchases for band management activities
+  | 'ontario_point_of_sale'; // Ontario relief of the provincial part of HST
+
+export interface DeliveryProof {
+  method: 'vendor_delivery' | 'carrier';
+  deliveryAddress: string;
+  carrier?: string;
+  trackingNumber?: string;
+  deliveredAt?: Date;
+  documentRef?: string; // Bill of lading, signed delivery receipt
+}
+
+export interface ExemptionEvidence {
+  basis: ExemptionBasis;
+  purchaserType: PurchaserType;
+  purchaserName: string;
+  statusCardNumber?: string; // 10-digit registration number on the Certificate of Indian Status
+  bandName?: string;
+  bandNumber?: string;
+  reserveName?: string;
+  bandCertificateRef?: string; // Signed band certification for band and BEE purchases
+  deliveryProof?: DeliveryProof;
+  capturedBy: string;
+}
+
+export interface InvoiceTaxInput {
+  date: Date;
+  lines: TaxLineInput[];
+  billTo: TaxAddress; // Recipient's address obtained in the ordinary course of business
+  shipTo?: TaxAddress; // Where goods are delivered or made available
+  exemption?: ExemptionEvidence;
+}
+
+export interface TaxLineResult {
+  id?: string;
+  description: string;
+  supplyType: SupplyType;
+  category: SupplyCategory;
+  categoryReason?: string;
+  placeOfSupply: string; // Province code, or EXPORT
+  amount: Decimal;
+  gst: Decimal;
+  hst: Decimal;
+  pst: Decimal;
+  qst: Decimal;
+  totalTax: Decimal;
+  total: Decimal;
+  relievedTax: Decimal;
+}
+
+export interface InvoiceTaxResult {
+  lines: TaxLineResult[];
+  subtotal: Decimal;
+  gst: Decimal;
+  hst: Decimal;
+  pst: Decimal;
+  qst: Decimal;
+  totalTax: Decimal;
+  total: Decimal;
+  exemption?: {
+    basis: ExemptionBasis;
+    accepted: boolean;
+    problems: string[];
+    relievedTax: Decimal;
+  };
+}
+
+export class TaxEngineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaxEngineError';
+  }
+}
+
+// Newest first; `from` is the first day a rate applies
+const PROVINCIAL_RATES: Record<string, Array<ProvincialRates & { from?: string }>> = {
+  ON: [{ name: 'Ontario', hst: 0.13, pst: 0, qst: 0 }],
+  NB: [{ name: 'New Brunswick', hst: 0.15, pst: 0, qst: 0 }],
+  NL: [{ name: 'Newfoundland and Labrador', hst: 0.15, pst: 0, qst: 0 }],
+  NS: [
+    { name: 'Nova Scotia', hst: 0.14, pst: 0, qst: 0, from: '2025-04-01' },
+    { name: 'Nova Scotia', hst: 0.15, pst: 0, qst: 0 }
+  ],
+  PE: [{ name: 'Prince Edward Island', hst: 0.15, pst: 0, qst: 0 }],
+  BC: [{ name: 'British Columbia', hst: 0, pst: 0.07, qst: 0 }],
+  SK: [{ name: 'Saskatchewan', hst: 0, pst: 0.06, qst: 0 }],
+  MB: [{ name: 'Manitoba', hst: 0, pst: 0.07, qst: 0 }],
+  QC: [{ name: 'Quebec', hst: 0, pst: 0, qst: 0.09975 }],
+  AB: [{ name: 'Alberta', hst: 0, pst: 0, qst: 0 }],
+  NT: [{ name: 'Northwest Territories', hst: 0, pst: 0, qst: 0 }],
+  NU: [{ name: 'Nunavut', hst: 0, pst: 0, qst: 0 }],
+  YT: [{ name: 'Yukon', hst: 0, pst: 0, qst: 0 }]
+};
+
+export const PROVINCES = Object.keys(PROVINCIAL_RATES);
+
+export function provincialRates(province: string, date: Date = new Date()): ProvincialRates {
+  const history = PROVINCIAL_RATES[province.toUpperCase()];
+  if (!history) {
+    throw new TaxEngineError(`Unknown province or territory: ${province}`);
+  }
+
+  const day = date.toISOString().slice(0, 10);
+  const { from, ...rates } = history.find(entry => !entry.from || entry.from <= day)!;
+  return rates;
+}
+
+function cents(value: Decimal): Decimal {
+  return value.toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+}
+
+/**
+ * Where a supply is made, following the Place of Supply (GST/HST)
+ * Regulations: goods where they are delivered or made available, real
+ * property and services in relation to it where the property is, and
+ * other services and intangibles at the recipient's address
+ */
+export function placeOfSupply(line: TaxLineInput, input: InvoiceTaxInput): TaxAddress {
+  if (line.supplyType === 'real_property') {
+    if (!line.propertyLocation) {
+      throw new TaxEngineError(`Real property line "${line.description}" needs a property location`);
+    }
+    return line.propertyLocation;
+  }
+  if (line.supplyType === 'goods') {
+    return input.shipTo || input.billTo;
+  }
+  return input.billTo;
+}
+
+/**
+ * Everything missing from the evidence for the claimed basis. An empty list
+ * means the exemption can be applied
+ */
+export function validateExemptionEvidence(evidence: ExemptionEvidence, input: InvoiceTaxInput): string[] {
+  const problems: string[] = [];
+  const isBand = evidence.purchaserType !== 'status_indian';
+
+  if (!evidence.purchaserName?.trim()) {
+    problems.push('Purchaser name is required');
+  }
+  if (!evidence.capturedBy) {
+    problems.push('The person who examined the evidence must be recorded');
+  }
+  if (evidence.bandNumber && !/^\d{3}$/.test(evidence.bandNumber)) {
+    problems.push('Band number must be 3 digits');
+  }
+
+  if (isBand) {
+    if (!evidence.bandName) problems.push('Band name is required for band purchases');
+    if (!evidence.bandCertificateRef) problems.push('A signed band certification is required for band purchases');
+  } else if (!evidence.statusCardNumber) {
+    problems.push('Certificate of Indian Status registration number is required');
+  } else if (!/^\d{10}$/.test(evidence.statusCardNumber.replace(/[\s-]/g, ''))) {
+    problems.push('Status card registration number must be 10 digits');
+  }
+
+  switch (evidence.basis) {
+    case 'section_87_goods': {
+      const proof = evidence.deliveryProof;
+      if (!input.shipTo?.onReserve) {
+        problems.push('Goods must be delivered to a reserve');
+      }
+      if (!evidence.reserveName && !input.shipTo?.reserveName) {
+        problems.push('Reserve name is required');
+      }
+      if (!proof?.deliveryAddress) {
+        problems.push('Proof of delivery to the reserve is required');
+      } else if (proof.method === 'carrier' && !proof.trackingNumber && !proof.documentRef) {
+        problems.push('Carrier deliveries need a tracking number or bill of lading');
+      }
+      if (!input.lines.some(line => line.supplyType === 'goods')) {
+        problems.push('No goods on the invoice');
+      }
+      break;
+    }
+
+    case 'section_87_services':
+      if (!input.lines.some(line => line.supplyType === 'services' && line.performedOnReserve)) {
+        problems.push('No services performed entirely on a reserve');
+      }
+      break;
+
+    case 'band_management':
+      if (!isBand) {
+        problems.push('Band management relief is only available to bands and band-empowered entities');
+      }
+      break;
+
+    case 'ontario_point_of_sale':
+      if (isBand) {
+        problems.push('Ontario point-of-sale relief applies to individuals with a status card');
+      }
+      if (!input.lines.some(line => line.supplyType === 'goods' && placeOfSupply(line, input).province === 'ON')) {
+        problems.push('No goods supplied in Ontario');
+      }
+      break;
+  }
+
+  return problems;
+}
+
+// How much of a line's tax the accepted exemption relieves
+function reliefFor(line: TaxLineInput, evidence: ExemptionEvidence, input: InvoiceTaxInput, tax: {
+  amount: Decimal;
+  hst: Decimal;
+  totalTax: Decimal;
+  province?: string;
+}): Decimal {
+  switch (evidence.basis) {
+    case 'section_87_goods':
+      return line.supplyType === 'goods' && placeOfSupply(line, input).onReserve ? tax.totalTax : new Decimal(0);
+    case 'section_87_services':
+      return line.supplyType === 'services' && line.performedOnReserve ? tax.totalTax : new Decimal(0);
+    case 'band_management':
+      return line.supplyType === 'real_property' ? new Decimal(0) : tax.totalTax;
+    case 'ontario_point_of_sale':
+      // Only the 8% provincial part of HST; the federal 5% is still charged
+      return line.supplyType === 'goods' && tax.province === 'ON' && tax.hst.gt(0)
+        ? tax.hst.sub(cents(tax.amount.mul(GST_RATE)))
+        : new Decimal(0);
+  }
+}
+
+function calculateLine(line: TaxLineInput, input: InvoiceTaxInput, evidence?: ExemptionEvidence): TaxLineResult {
+  const amount = cents(new Decimal(line.unitPrice).mul(line.quantity ?? 1).sub(line.discount ?? 0));
+  if (amount.isNegative()) {
+    throw new TaxEngineError(`Line "${line.description}" has a negative amount`);
+  }
+
+  const place = placeOfSupply(line, input);
+  const exported = place.country.toUpperCase() !== 'CA';
+  // Exports are zero-rated whatever the goods or services are
+  const category: SupplyCategory = exported ? 'zero_rated' : line.category || 'standard';
+  const zero = new Decimal(0);
+
+  const result: TaxLineResult = {
+    id: line.id,
+    description: line.description,
+    supplyType: line.supplyType,
+    category,
+    categoryReason: exported ? 'Export' : line.categoryReason,
+    placeOfSupply: exported ? 'EXPORT' : (place.province || '').toUpperCase(),
+    amount,
+    gst: zero,
+    hst: zero,
+    pst: zero,
+    qst: zero,
+    totalTax: zero,
+    total: amount,
+    relievedTax: zero
+  };
+
+  // Zero-rated and exempt supplies carry no GST/HST, and the provinces
+  // follow the same categories for PST and QST
+  if (category !== 'standard') {
+    return result;
+  }
+  if (!place.province) {
+    throw new TaxEngineError(`No province for the place of supply of "${line.description}"`);
+  }
+
+  const rates = provincialRates(place.province, input.date);
+  if (rates.hst > 0) {
+    result.hst = cents(amount.mul(rates.hst));
+  } else {
+    result.gst = cents(amount.mul(GST_RATE));
+    // PST applies to goods and software; services only where the province lists them
+    if (rates.pst > 0 && (line.supplyType === 'goods' || line.supplyType === 'intangible' || line.provincialTaxable)) {
+      result.pst = cents(amount.mul(rates.pst));
+    }
+    // QST is charged on the price excluding GST, not compounded
+    if (rates.qst > 0) {
+      result.qst = cents(amount.mul(rates.qst));
+    }
+  }
+
+  const totalTax = result.gst.add(result.hst).add(result.pst).add(result.qst);
+
+  if (evidence) {
+    const relieved = reliefFor(line, evidence, input, {
+      amount,
+      hst: result.hst,
+      totalTax,
+      province: result.placeOfSupply
+    });
+
+    if (relieved.gt(0)) {
+      if (relieved.eq(totalTax)) {
+        result.gst = result.hst = result.pst = result.qst = zero;
+      } else {
+        result.hst = result.hst.sub(relieved);
+      }
+      result.relievedTax = relieved;
+    }
+  }
+
+  result.totalTax = totalTax.sub(result.relievedTax);
+  result.total = amount.add(result.totalTax);
+  return result;
+}
+
+/**
+ * Rebuild the dates in an invoice that arrived as JSON
+ */
+export function invoiceTaxInputFromJson(body: any): InvoiceTaxInput {
+  if (!body?.billTo || !Array.isArray(body.lines)) {
+    throw new TaxEngineError('An invoice needs billTo and lines');
+  }
+
+  const proof = body.exemption?.deliveryProof;
+  return {
+    date: body.date ? new Date(body.date) : new Date(),
+    lines: body.lines,
+    billTo: body.billTo,
+    shipTo: body.shipTo,
+    ...(body.exemption ? {
+      exemption: {
+        ...body.exemption,
+        ...(proof ? { deliveryProof: { ...proof, deliveredAt: proof.deliveredAt ? new Date(proof.deliveredAt) : undefined } } : {})
+      }
+    } : {})
+  };
+}
+
+/**
+ * Tax an invoice line by line. Exemption evidence that does not hold up is
+ * reported and the invoice is taxed in full
+ */
+export function calculateInvoiceTax(input: InvoiceTaxInput): InvoiceTaxResult {
+  if (input.lines.length === 0) {
+    throw new TaxEngineError('An invoice needs at least one line');
+  }
+
+  const problems = input.exemption ? validateExemptionEvidence(input.exemption, input) : [];
+  const evidence = input.exemption && problems.length === 0 ? input.exemption : undefined;
+  const lines = input.lines.map(line => calculateLine(line, input, evidence));
+
+  const sum = (field: 'amount' | 'gst' | 'hst' | 'pst' | 'qst' | 'totalTax' | 'total' | 'relievedTax') =>
+    lines.reduce((total, line) => total.add(line[field]), new Decimal(0));
+
+  return {
+    lines,
+    subtotal: sum('amount'),
+    gst: sum('gst'),
+    hst: sum('hst'),
+    pst: sum('pst'),
+    qst: sum('qst'),
+    totalTax: sum('totalTax'),
+    total: sum('total'),
+    ...(input.exemption ? {
+      exemption: {
+        basis: input.exemption.basis,
+        accepted: problems.length === 0,
+        problems,
+        relievedTax: sum('relievedTax')
+      }
+    } : {})
+  };
+}
+
+// ---------------------------------------------------------------------------
+// GST/HST return (GST34)
+// ---------------------------------------------------------------------------
+
+export interface Gst34Entry {
+  kind: 'SALE' | 'CREDIT_NOTE' | 'PURCHASE';
+  subtotal: Decimal.Value;
+  gst: Decimal.Value;
+  hst: Decimal.Value;
+  zeroRated?: Decimal.Value; // Portion of the subtotal that was zero-rated
+  exempt?: Decimal.Value; // Portion of the subtotal that was exempt
+  relievedTax?: Decimal.Value;
+}
+
+export interface Gst34Adjustments {
+  taxAdjustments?: Decimal.Value; // Line 104
+  itcAdjustments?: Decimal.Value; // Line 107
+  instalments?: Decimal.Value; // Line 110
+  rebates?: Decimal.Value; // Line 111
+  realPropertyTax?: Decimal.Value; // Line 205
+  selfAssessedTax?: Decimal.Value; // Line 405
+}
+
+export interface Gst34Worksheet {
+  periodStart: string;
+  periodEnd: string;
+  lines: Record<
+    '101' | '103' | '104' | '105' | '106' | '107' | '108' | '109' | '110' | '111' | '112' |
+    '113A' | '205' | '405' | '113B' | '113C' | '114' | '115',
+    string
+  >;
+  supplies: {
+    taxable: string;
+    zeroRated: string;
+    exempt: string;
+    section87Relieved: string;
+  };
+  counts: { sales: number; creditNotes: number; purchases: number };
+}
+
+/**
+ * Fill in the GST34 lines for a reporting period. Credit notes reduce both
+ * sales and tax collected; purchases give input tax credits. QST and PST are
+ * filed with the provinces and never appear here
+ */
+export function buildGst34Worksheet(params: {
+  periodStart: Date;
+  periodEnd: Date;
+  entries: Gst34Entry[];
+  adjustments?: Gst34Adjustments;
+}): Gst34Worksheet {
+  const zero = new Decimal(0);
+  const adj = params.adjustments || {};
+  let sales = zero;
+  let collected = zero;
+  let creditNoteTax = zero;
+  let itcs = zero;
+  let zeroRated = zero;
+  let exempt = zero;
+  let relieved = zero;
+  const counts = { sales: 0, creditNotes: 0, purchases: 0 };
+
+  for (const entry of params.entries) {
+    const tax = new Decimal(entry.gst).add(entry.hst);
+
+    if (entry.kind === 'PURCHASE') {
+      itcs = itcs.add(tax);
+      counts.purchases++;
+      continue;
+    }
+
+    const sign = entry.kind === 'CREDIT_NOTE' ? -1 : 1;
+    sales = sales.add(new Decimal(entry.subtotal).mul(sign));
+    zeroRated = zeroRated.add(new Decimal(entry.zeroRated || 0).mul(sign));
+    exempt = exempt.add(new Decimal(entry.exempt || 0).mul(sign));
+    relieved = relieved.add(new Decimal(entry.relievedTax || 0).mul(sign));
+
+    if (entry.kind === 'CREDIT_NOTE') {
+      creditNoteTax = creditNoteTax.add(tax);
+      counts.creditNotes++;
+    } else {
+      collected = collected.add(tax);
+      counts.sales++;
+    }
+  }
+
+  const line104 = new Decimal(adj.taxAdjustments || 0).sub(creditNoteTax);
+  const line105 = collected.add(line104);
+  const line107 = new Decimal(adj.itcAdjustments || 0);
+  const line108 = itcs.add(line107);
+  const line109 = line105.sub(line108);
+  const line110 = new Decimal(adj.instalments || 0);
+  const line111 = new Decimal(adj.rebates || 0);
+  const line112 = line110.add(line111);
+  const line113A = line109.sub(line112);
+  const line205 = new Decimal(adj.realPropertyTax || 0);
+  const line405 = new Decimal(adj.selfAssessedTax || 0);
+  const line113B = line205.add(line405);
+  const line113C = line113A.add(line113B);
+
+  // Line 101 is reported in whole dollars; the tax lines keep their cents
+  const money = (value: Decimal) => value.toFixed(2);
+
+  return {
+    periodStart: params.periodStart.toISOString().slice(0, 10),
+    periodEnd: params.periodEnd.toISOString().slice(0, 10),
+    lines: {
+      '101': sales.toDecimalPlaces(0, Decimal.ROUND_HALF_UP).toFixed(0),
+      '103': money(collected),
+      '104': money(line104),
+      '105': money(line105),
+      '106': money(itcs),
+      '107': money(line107),
+      '108': money(line108),
+      '109': money(line109),
+      '110': money(line110),
+      '111': money(line111),
+      '112': money(line112),
+      '113A': money(line113A),
+      '205': money(line205),
+      '405': money(line405),
+      '113B': money(line113B),
+      '113C': money(line113C),
+      '114': money(line113C.isNegative() ? line113C.abs() : zero),
+      '115': money(line113C.isPositive() && !line113C.isZero() ? line113C : zero)
+    },
+    supplies: {
+      taxable: money(sales.sub(zeroRated).sub(exempt)),
+      zeroRated: money(zeroRated),
+      exempt: money(exempt),
+      section87Relieved: money(relieved)
+    },
+    counts
+  };
+}
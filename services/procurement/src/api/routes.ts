@@ -9,13 +9,39 @@ import {
   Permissions,
   AuthenticatedRequest 
 } from '../middleware/auth';
-import { validate, rfqSchemas, bidSchemas, templateSchemas, commonSchemas } from '../middleware/validation';
+import {
+  validate,
+  rfqSchemas,
+  bidSchemas,
+  evaluationSchemas,
+  clarificationSchemas,
+  auctionSchemas,
+  awardChallengeSchemas,
+  contractSchemas,
+  arrangementSchemas,
+  classificationSchemas,
+  performanceSchemas,
+  templateSchemas,
+  commonSchemas
+} from '../middleware/validation';
 import { asyncHandler } from '../middleware/error-handler';
 import { RFQService } from '../services/rfq-service';
 import { BidService } from '../services/bid-service';
 import { TemplateService } from '../services/template-service';
 import { InvitationService } from '../services/invitation-service';
 import { ContractService } from '../services/contract-service';
+import { StandingOfferService } from '../services/standing-offer-service';
+import { ClassificationService } from '../services/classification-service';
+import { EvaluationService } from '../services/evaluation-service';
+import { AddendumService } from '../services/addendum-service';
+import { ClarificationService } from '../services/clarification-service';
+import { MilestoneService } from '../services/milestone-service';
+import { ChangeOrderService } from '../services/change-order-service';
+import { PerformanceService } from '../services/performance-service';
+import { BondService } from '../services/bond-service';
+import { AuctionService } from '../services/auction-service';
+import { DebriefingService } from '../services/debriefing-service';
+import { ProtestService } from '../services/protest-service';
 import { logger } from '../utils/logger';
 
 const router = Router();
@@ -26,6 +52,18 @@ const bidService = new BidService();
 const templateService = new TemplateService();
 const invitationService = new InvitationService();
 const contractService = new ContractService();
+const standingOfferService = new StandingOfferService();
+const classificationService = new ClassificationService();
+const evaluationService = new EvaluationService();
+const addendumService = new AddendumService();
+const clarificationService = new ClarificationService();
+const milestoneService = new MilestoneService();
+const changeOrderService = new ChangeOrderService();
+const performanceService = new PerformanceService();
+const bondService = new BondService();
+const auctionService = new AuctionService();
+const debriefingService = new DebriefingService();
+const protestService = new ProtestService();
 
 // =============================================================================
 // RFQ ROUTES
@@ -80,6 +118,43 @@ router.post('/:id/close',
   })
 );
 
+// Get addenda for RFQ (businesses see their own acknowledgement status)
+router.get('/:rfqId/addenda',
+  validate(commonSchemas.id, 'params'),
+  optionalAuth,
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const addenda = await addendumService.getAddenda(req.params.rfqId, req.user?.businessId);
+    res.json(addenda);
+  })
+);
+
+// Acknowledge addendum
+router.post('/:rfqId/addenda/:addendumId/acknowledge',
+  authMiddleware,
+  requirePermission(Permissions.BID_CREATE),
+  requireBusinessOwnership(),
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const acknowledgement = await addendumService.acknowledgeAddendum(
+      req.params.rfqId,
+      req.params.addendumId,
+      req.user!.businessId!,
+      req.user!.id
+    );
+    res.status(201).json(acknowledgement);
+  })
+);
+
+// Get addendum acknowledgement status (owner only)
+router.get('/:rfqId/addenda/acknowledgements',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const status = await addendumService.getAcknowledgementStatus(req.params.rfqId, req.user!.id);
+    res.json(status);
+  })
+);
+
 // Search RFQs (public with optional auth for personalization)
 router.get('/',
   validate(rfqSchemas.search, 'query'),
@@ -186,6 +261,38 @@ router.post('/bids/:bidId/evaluate',
   })
 );
 
+// Open sealed bids before witnesses (RFQ owner only, after closing)
+router.post('/:rfqId/bid-opening',
+  authMiddleware,
+  requirePermission(Permissions.BID_VIEW_PRIVATE),
+  validate(commonSchemas.id, 'params'),
+  validate(bidSchemas.open),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const opening = await bidService.openSealedBids(req.params.rfqId, req.body, req.user!.id);
+    res.status(201).json(opening);
+  })
+);
+
+// Get bid opening record (RFQ owner, witnesses and bidders only)
+router.get('/:rfqId/bid-opening',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const opening = await bidService.getBidOpening(req.params.rfqId, req.user!.id);
+    res.json(opening);
+  })
+);
+
+// Get bid security register (RFQ owner only)
+router.get('/:rfqId/bid-security',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const securities = await bondService.getBidSecurities(req.params.rfqId, req.user!.id);
+    res.json(securities);
+  })
+);
+
 // Get bids for business
 router.get('/business/:businessId/bids',
   authMiddleware,
@@ -219,6 +326,107 @@ router.get('/bids/statistics',
   })
 );
 
+// =============================================================================
+// EVALUATION ROUTES
+// =============================================================================
+
+// Define weighted evaluation matrix (RFQ owner only)
+router.put('/:rfqId/evaluation/matrix',
+  authMiddleware,
+  requirePermission(Permissions.RFQ_UPDATE),
+  validate(commonSchemas.id, 'params'),
+  validate(evaluationSchemas.matrix),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const criteria = await evaluationService.defineMatrix(
+      req.params.rfqId,
+      req.body.criteria,
+      req.user!.id
+    );
+    res.json(criteria);
+  })
+);
+
+// Get evaluation matrix
+router.get('/:rfqId/evaluation/matrix',
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req, res) => {
+    const criteria = await evaluationService.getMatrix(req.params.rfqId);
+    res.json(criteria);
+  })
+);
+
+// Assign evaluation committee (RFQ owner only)
+router.put('/:rfqId/evaluation/committee',
+  authMiddleware,
+  requirePermission(Permissions.RFQ_UPDATE),
+  validate(commonSchemas.id, 'params'),
+  validate(evaluationSchemas.committee),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const committee = await evaluationService.assignCommittee(
+      req.params.rfqId,
+      req.body.members,
+      req.user!.id
+    );
+    res.json(committee);
+  })
+);
+
+// Get evaluation committee (RFQ owner and committee members only)
+router.get('/:rfqId/evaluation/committee',
+  authMiddleware,
+  requirePermission(Permissions.BID_VIEW_PRIVATE),
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const committee = await evaluationService.getCommittee(req.params.rfqId, req.user!.id);
+    res.json(committee);
+  })
+);
+
+// Submit evaluator scores (committee members only)
+router.post('/bids/:bidId/evaluation/scores',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  validate(evaluationSchemas.scores),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const scores = await evaluationService.submitScores(
+      req.params.bidId,
+      req.body.scores,
+      req.user!.id
+    );
+    res.json(scores);
+  })
+);
+
+// Get own scores for an RFQ
+router.get('/:rfqId/evaluation/my-scores',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const scores = await evaluationService.getEvaluatorScores(req.params.rfqId, req.user!.id);
+    res.json(scores);
+  })
+);
+
+// Get consensus scores and ranking (owner or committee chair)
+router.get('/:rfqId/evaluation/consensus',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const consensus = await evaluationService.calculateConsensus(req.params.rfqId, req.user!.id);
+    res.json(consensus);
+  })
+);
+
+// Finalize consensus ranking
+router.post('/:rfqId/evaluation/finalize',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const consensus = await evaluationService.finalizeConsensus(req.params.rfqId, req.user!.id);
+    res.json(consensus);
+  })
+);
+
 // =============================================================================
 // TEMPLATE ROUTES
 // =============================================================================
@@ -402,178 +610,878 @@ router.get('/:rfqId/invitations',
   })
 );
 
-// Get invitations for business
-router.get('/business/:businessId/invitations',
+// =============================================================================
+// CLARIFICATION ROUTES
+// =============================================================================
+
+// Submit clarification question (private to the buyer)
+router.post('/:rfqId/questions',
   authMiddleware,
+  requirePermission(Permissions.RFQ_BID),
   requireBusinessOwnership(),
   validate(commonSchemas.id, 'params'),
+  validate(clarificationSchemas.question),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { status } = req.query;
-    const invitations = await invitationService.getInvitationsForBusiness(
-      req.params.businessId, 
-      status as string
+    const question = await clarificationService.submitQuestion(
+      req.params.rfqId,
+      req.body,
+      req.user!.businessId!,
+      req.user!.id
     );
-    res.json(invitations);
+    res.status(201).json(question);
   })
 );
 
-// Get invitation statistics
-router.get('/invitations/statistics',
+// Get questions (owner sees all, businesses see their own)
+router.get('/:rfqId/questions',
   authMiddleware,
+  validate(commonSchemas.id, 'params'),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { rfqId, businessId } = req.query;
-    const stats = await invitationService.getInvitationStatistics(
-      rfqId as string, 
-      businessId as string
+    const questions = await clarificationService.getQuestions(
+      req.params.rfqId,
+      req.user!.id,
+      req.user!.businessId
     );
-    res.json(stats);
+    res.json(questions);
+  })
+);
+
+// Answer question (RFQ owner only)
+router.post('/questions/:questionId/answer',
+  authMiddleware,
+  requirePermission(Permissions.RFQ_UPDATE),
+  validate(commonSchemas.id, 'params'),
+  validate(clarificationSchemas.answer),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const answer = await clarificationService.answerQuestion(
+      req.params.questionId,
+      req.body,
+      req.user!.id
+    );
+    res.json(answer);
+  })
+);
+
+// Get published clarifications (public, anonymous)
+router.get('/:rfqId/clarifications',
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req, res) => {
+    const clarifications = await clarificationService.getPublishedClarifications(req.params.rfqId);
+    res.json(clarifications);
   })
 );
 
 // =============================================================================
-// CONTRACT ROUTES
+// REVERSE AUCTION ROUTES
 // =============================================================================
 
-// Award contract
-router.post('/:rfqId/contract/award',
+// Run an RFQ as a live reverse auction among its invited businesses
+router.post('/:rfqId/auction',
   authMiddleware,
   requirePermission(Permissions.RFQ_UPDATE),
   validate(commonSchemas.id, 'params'),
+  validate(auctionSchemas.configure),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const contractData = { ...req.body, rfq_id: req.params.rfqId };
-    const contract = await contractService.awardContract(contractData, req.user!.id);
-    res.status(201).json(contract);
+    const auction = await auctionService.configureAuction(req.params.rfqId, req.body, req.user!.id);
+    res.status(201).json(auction);
   })
 );
 
-// Get contract by ID
-router.get('/contracts/:contractId',
+// Get auction (buyer sees standings, bidders see their own feedback)
+router.get('/auctions/:auctionId',
   authMiddleware,
   validate(commonSchemas.id, 'params'),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const contract = await contractService.getContractById(req.params.contractId, req.user!.id);
-    res.json(contract);
+    const auction = await auctionService.getAuction(
+      req.params.auctionId,
+      req.user!.id,
+      req.user!.businessId
+    );
+    res.json(auction);
   })
 );
 
-// Update contract
-router.put('/contracts/:contractId',
+// Place an auction bid
+router.post('/auctions/:auctionId/bids',
   authMiddleware,
+  requirePermission(Permissions.BID_CREATE),
+  requireBusinessOwnership(),
   validate(commonSchemas.id, 'params'),
+  validate(auctionSchemas.bid),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const contract = await contractService.updateContract(
-      req.params.contractId, 
-      req.body, 
+    const bid = await auctionService.placeBid(
+      req.params.auctionId,
+      req.body.amount,
+      req.user!.businessId!,
       req.user!.id
     );
-    res.json(contract);
+    res.status(201).json(bid);
   })
 );
 
-// Process payment
-router.post('/contracts/:contractId/payments/:milestoneId',
+// Full bid ledger (buyer only)
+router.get('/auctions/:auctionId/ledger',
   authMiddleware,
   validate(commonSchemas.id, 'params'),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { amount } = req.body;
-    const payment = await contractService.processPayment(
-      req.params.contractId, 
-      req.params.milestoneId, 
-      amount, 
+    const ledger = await auctionService.getLedger(req.params.auctionId, req.user!.id);
+    res.json(ledger);
+  })
+);
+
+// =============================================================================
+// DEBRIEFING AND PROTEST ROUTES
+// =============================================================================
+
+// Request debriefing (unsuccessful bidders, during standstill)
+router.post('/:rfqId/debriefings',
+  authMiddleware,
+  requirePermission(Permissions.RFQ_BID),
+  requireBusinessOwnership(),
+  validate(commonSchemas.id, 'params'),
+  validate(awardChallengeSchemas.debriefingRequest),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const debriefing = await debriefingService.requestDebriefing(
+      req.params.rfqId,
+      req.body,
+      req.user!.businessId!,
       req.user!.id
     );
-    res.json(payment);
+    res.status(201).json(debriefing);
   })
 );
 
-// Get contracts for business
-router.get('/business/:businessId/contracts',
+// Get debriefing requests (RFQ owner only)
+router.get('/:rfqId/debriefings',
   authMiddleware,
-  requireBusinessOwnership(),
+  requirePermission(Permissions.RFQ_UPDATE),
   validate(commonSchemas.id, 'params'),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const results = await contractService.getContractsForBusiness(
-      req.params.businessId, 
-      req.query as any
+    const debriefings = await debriefingService.getDebriefings(req.params.rfqId, req.user!.id);
+    res.json(debriefings);
+  })
+);
+
+// Get debriefing with score comparison
+router.get('/debriefings/:debriefingId',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const debriefing = await debriefingService.getDebriefing(
+      req.params.debriefingId,
+      req.user!.id,
+      req.user!.businessId
     );
-    res.json(results);
+    res.json(debriefing);
   })
 );
 
-// Get contracts for RFQ owner
-router.get('/owner/contracts',
+// Provide debriefing (buyer)
+router.post('/debriefings/:debriefingId/provide',
   authMiddleware,
-  requirePermission(Permissions.RFQ_CREATE),
+  requirePermission(Permissions.RFQ_UPDATE),
+  validate(commonSchemas.id, 'params'),
+  validate(awardChallengeSchemas.debriefingResponse),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const results = await contractService.getContractsForRFQOwner(
-      req.user!.id, 
-      req.query as any
+    const debriefing = await debriefingService.provideDebriefing(
+      req.params.debriefingId,
+      req.body,
+      req.user!.id
     );
-    res.json(results);
+    res.json(debriefing);
   })
 );
 
-// Generate contract document
-router.post('/contracts/:contractId/document',
+// File bid protest (unsuccessful bidders, during standstill)
+router.post('/:rfqId/protests',
   authMiddleware,
+  requirePermission(Permissions.RFQ_BID),
+  requireBusinessOwnership(),
   validate(commonSchemas.id, 'params'),
+  validate(awardChallengeSchemas.protest),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const document = await contractService.generateContractDocument(
-      req.params.contractId, 
+    const protest = await protestService.fileProtest(
+      req.params.rfqId,
+      req.body,
+      req.user!.businessId!,
       req.user!.id
     );
-    res.json(document);
+    res.status(201).json(protest);
   })
 );
 
-// Get contract statistics
-router.get('/contracts/statistics',
+// Get protests (owner sees all, businesses see their own)
+router.get('/:rfqId/protests',
   authMiddleware,
+  validate(commonSchemas.id, 'params'),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { businessId, ownerId } = req.query;
-    const stats = await contractService.getContractStatistics(
-      businessId as string, 
-      ownerId as string
+    const protests = await protestService.getProtests(
+      req.params.rfqId,
+      req.user!.id,
+      req.user!.businessId
     );
-    res.json(stats);
+    res.json(protests);
   })
 );
 
-// =============================================================================
-// UTILITY ROUTES
-// =============================================================================
+// Get protest with documents
+router.get('/protests/:protestId',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const protest = await protestService.getProtest(
+      req.params.protestId,
+      req.user!.id,
+      req.user!.businessId,
+      req.user!.permissions.includes(Permissions.PROTEST_RESOLVE)
+    );
+    res.json(protest);
+  })
+);
 
-// Express interest in RFQ
-router.post('/:rfqId/interest',
+// Respond to protest (buyer)
+router.post('/protests/:protestId/response',
   authMiddleware,
-  requireBusinessOwnership(),
+  requirePermission(Permissions.RFQ_UPDATE),
   validate(commonSchemas.id, 'params'),
+  validate(awardChallengeSchemas.protestResponse),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    // This could be a simple interest tracking system
-    res.json({ message: 'Interest recorded' });
+    const protest = await protestService.respondToProtest(
+      req.params.protestId,
+      req.body,
+      req.user!.id
+    );
+    res.json(protest);
   })
 );
 
-// Upload document (placeholder)
-router.post('/documents/upload',
+// Add protest document (either party)
+router.post('/protests/:protestId/documents',
   authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  validate(awardChallengeSchemas.protestDocument),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    // This would integrate with document upload service
-    res.json({ 
-      message: 'Document upload endpoint',
-      note: 'Integrate with S3 or similar service'
-    });
+    const document = await protestService.addDocument(
+      req.params.protestId,
+      req.body,
+      req.user!.id,
+      req.user!.businessId
+    );
+    res.status(201).json(document);
   })
 );
 
-// Search suggestions
-router.get('/search/suggestions',
-  asyncHandler(async (req, res) => {
-    const { q } = req.query;
-    // This would provide search suggestions based on query
-    res.json({
-      query: q,
-      suggestions: [
+// Withdraw protest (protesting business)
+router.post('/protests/:protestId/withdraw',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const protest = await protestService.withdrawProtest(
+      req.params.protestId,
+      req.user!.id,
+      req.user!.businessId
+    );
+    res.json(protest);
+  })
+);
+
+// Resolve protest (independent reviewer)
+router.post('/protests/:protestId/resolve',
+  authMiddleware,
+  requirePermission(Permissions.PROTEST_RESOLVE),
+  validate(commonSchemas.id, 'params'),
+  validate(awardChallengeSchemas.protestResolution),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const protest = await protestService.resolveProtest(
+      req.params.protestId,
+      req.body,
+      req.user!.id
+    );
+    res.json(protest);
+  })
+);
+
+// Get invitations for business
+router.get('/business/:businessId/invitations',
+  authMiddleware,
+  requireBusinessOwnership(),
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const { status } = req.query;
+    const invitations = await invitationService.getInvitationsForBusiness(
+      req.params.businessId, 
+      status as string
+    );
+    res.json(invitations);
+  })
+);
+
+// Get invitation statistics
+router.get('/invitations/statistics',
+  authMiddleware,
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const { rfqId, businessId } = req.query;
+    const stats = await invitationService.getInvitationStatistics(
+      rfqId as string, 
+      businessId as string
+    );
+    res.json(stats);
+  })
+);
+
+// =============================================================================
+// CONTRACT ROUTES
+// =============================================================================
+
+// Award contract
+router.post('/:rfqId/contract/award',
+  authMiddleware,
+  requirePermission(Permissions.RFQ_UPDATE),
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const contractData = { ...req.body, rfq_id: req.params.rfqId };
+    const contract = await contractService.awardContract(contractData, req.user!.id);
+    res.status(201).json(contract);
+  })
+);
+
+// Get contract by ID
+router.get('/contracts/:contractId',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const contract = await contractService.getContractById(req.params.contractId, req.user!.id);
+    res.json(contract);
+  })
+);
+
+// Update contract
+router.put('/contracts/:contractId',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const contract = await contractService.updateContract(
+      req.params.contractId, 
+      req.body, 
+      req.user!.id
+    );
+    res.json(contract);
+  })
+);
+
+// Process payment
+router.post('/contracts/:contractId/payments/:milestoneId',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const { amount } = req.body;
+    const payment = await contractService.processPayment(
+      req.params.contractId, 
+      req.params.milestoneId, 
+      amount, 
+      req.user!.id
+    );
+    res.json(payment);
+  })
+);
+
+// Get contract milestones
+router.get('/contracts/:contractId/milestones',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const milestones = await milestoneService.getMilestones(req.params.contractId, req.user!.id);
+    res.json(milestones);
+  })
+);
+
+// Add milestone (contract awarder only)
+router.post('/contracts/:contractId/milestones',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  validate(contractSchemas.milestone),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const milestone = await milestoneService.addMilestone(
+      req.params.contractId,
+      req.body,
+      req.user!.id
+    );
+    res.status(201).json(milestone);
+  })
+);
+
+// Submit milestone deliverables (contracted business)
+router.post('/contracts/:contractId/milestones/:milestoneId/submit',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  validate(contractSchemas.milestoneSubmission),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const milestone = await milestoneService.submitMilestone(
+      req.params.contractId,
+      req.params.milestoneId,
+      req.body,
+      req.user!.id
+    );
+    res.json(milestone);
+  })
+);
+
+// Accept milestone (buyer sign-off)
+router.post('/contracts/:contractId/milestones/:milestoneId/accept',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  validate(contractSchemas.milestoneAcceptance),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const milestone = await milestoneService.acceptMilestone(
+      req.params.contractId,
+      req.params.milestoneId,
+      req.body,
+      req.user!.id
+    );
+    res.json(milestone);
+  })
+);
+
+// Reject milestone
+router.post('/contracts/:contractId/milestones/:milestoneId/reject',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  validate(contractSchemas.milestoneRejection),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const milestone = await milestoneService.rejectMilestone(
+      req.params.contractId,
+      req.params.milestoneId,
+      req.body.reason,
+      req.user!.id
+    );
+    res.json(milestone);
+  })
+);
+
+// Get change orders with history
+router.get('/contracts/:contractId/change-orders',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const changeOrders = await changeOrderService.getChangeOrders(req.params.contractId, req.user!.id);
+    res.json(changeOrders);
+  })
+);
+
+// Request change order (either contract party)
+router.post('/contracts/:contractId/change-orders',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  validate(contractSchemas.changeOrder),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const changeOrder = await changeOrderService.requestChangeOrder(
+      req.params.contractId,
+      req.body,
+      req.user!.id
+    );
+    res.status(201).json(changeOrder);
+  })
+);
+
+// Approve or reject change order (counterparty only)
+router.post('/contracts/:contractId/change-orders/:changeOrderId/decision',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  validate(contractSchemas.changeOrderDecision),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const changeOrder = await changeOrderService.decideChangeOrder(
+      req.params.contractId,
+      req.params.changeOrderId,
+      req.body.decision,
+      req.user!.id,
+      req.body.notes
+    );
+    res.json(changeOrder);
+  })
+);
+
+// Withdraw change order (requester only)
+router.post('/contracts/:contractId/change-orders/:changeOrderId/withdraw',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const changeOrder = await changeOrderService.withdrawChangeOrder(
+      req.params.contractId,
+      req.params.changeOrderId,
+      req.user!.id
+    );
+    res.json(changeOrder);
+  })
+);
+
+// Evaluate supplier performance on a completed contract (buyer only)
+router.post('/contracts/:contractId/performance-evaluation',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  validate(performanceSchemas.evaluation),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const evaluation = await performanceService.submitEvaluation(
+      req.params.contractId,
+      req.body,
+      req.user!.id
+    );
+    res.status(201).json(evaluation);
+  })
+);
+
+// Get performance evaluation with disputes
+router.get('/contracts/:contractId/performance-evaluation',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const evaluation = await performanceService.getEvaluation(req.params.contractId, req.user!.id);
+    res.json(evaluation);
+  })
+);
+
+// Dispute a performance evaluation (evaluated business only)
+router.post('/performance-evaluations/:evaluationId/disputes',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  validate(performanceSchemas.dispute),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const dispute = await performanceService.disputeEvaluation(
+      req.params.evaluationId,
+      req.body,
+      req.user!.id
+    );
+    res.status(201).json(dispute);
+  })
+);
+
+// Resolve a performance dispute
+router.post('/performance-disputes/:disputeId/resolve',
+  authMiddleware,
+  requirePermission(Permissions.PERFORMANCE_DISPUTE_RESOLVE),
+  validate(commonSchemas.id, 'params'),
+  validate(performanceSchemas.disputeResolution),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const dispute = await performanceService.resolveDispute(
+      req.params.disputeId,
+      req.body,
+      req.user!.id
+    );
+    res.json(dispute);
+  })
+);
+
+// Get supplier scorecard
+router.get('/business/:businessId/scorecard',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const scorecard = await performanceService.getScorecard(req.params.businessId, req.user!.id);
+    res.json(scorecard);
+  })
+);
+
+// Get contract bonds with required amounts and history
+router.get('/contracts/:contractId/bonds',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const bonds = await bondService.getContractBonds(req.params.contractId, req.user!.id);
+    res.json(bonds);
+  })
+);
+
+// Submit performance or labour and material bond (contracted business)
+router.post('/contracts/:contractId/bonds',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  validate(contractSchemas.bond),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const bond = await bondService.submitContractBond(
+      req.params.contractId,
+      req.body,
+      req.user!.id
+    );
+    res.status(201).json(bond);
+  })
+);
+
+// Release bid security or bond (buyer only)
+router.post('/securities/:securityId/release',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  validate(contractSchemas.securityAction),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const security = await bondService.releaseSecurity(
+      req.params.securityId,
+      req.body.reason,
+      req.user!.id
+    );
+    res.json(security);
+  })
+);
+
+// Forfeit bid security or call a bond (buyer only)
+router.post('/securities/:securityId/forfeit',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  validate(contractSchemas.securityAction),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const security = await bondService.forfeitSecurity(
+      req.params.securityId,
+      req.body.reason,
+      req.user!.id
+    );
+    res.json(security);
+  })
+);
+
+// Get contracts for business
+router.get('/business/:businessId/contracts',
+  authMiddleware,
+  requireBusinessOwnership(),
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const results = await contractService.getContractsForBusiness(
+      req.params.businessId, 
+      req.query as any
+    );
+    res.json(results);
+  })
+);
+
+// Get contracts for RFQ owner
+router.get('/owner/contracts',
+  authMiddleware,
+  requirePermission(Permissions.RFQ_CREATE),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const results = await contractService.getContractsForRFQOwner(
+      req.user!.id, 
+      req.query as any
+    );
+    res.json(results);
+  })
+);
+
+// Generate contract document
+router.post('/contracts/:contractId/document',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const document = await contractService.generateContractDocument(
+      req.params.contractId, 
+      req.user!.id
+    );
+    res.json(document);
+  })
+);
+
+// Get contract statistics
+router.get('/contracts/statistics',
+  authMiddleware,
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const { businessId, ownerId } = req.query;
+    const stats = await contractService.getContractStatistics(
+      businessId as string, 
+      ownerId as string
+    );
+    res.json(stats);
+  })
+);
+
+// =============================================================================
+// STANDING OFFER AND SUPPLY ARRANGEMENT ROUTES
+// =============================================================================
+
+// Create a standing offer or supply arrangement
+router.post('/arrangements',
+  authMiddleware,
+  requirePermission(Permissions.RFQ_CREATE),
+  validate(arrangementSchemas.create),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const arrangement = await standingOfferService.createArrangement(
+      req.body,
+      req.user!.id,
+      req.user!.businessId || req.user!.role
+    );
+    res.status(201).json(arrangement);
+  })
+);
+
+// Get arrangement (owner sees pool and spend, suppliers see their rates)
+router.get('/arrangements/:arrangementId',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const arrangement = await standingOfferService.getArrangement(
+      req.params.arrangementId,
+      req.user!.id,
+      req.user!.businessId
+    );
+    res.json(arrangement);
+  })
+);
+
+// Qualify a supplier into the pool
+router.post('/arrangements/:arrangementId/suppliers',
+  authMiddleware,
+  requirePermission(Permissions.RFQ_UPDATE),
+  validate(commonSchemas.id, 'params'),
+  validate(arrangementSchemas.qualification),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const supplier = await standingOfferService.qualifySupplier(
+      req.params.arrangementId,
+      req.body,
+      req.user!.id
+    );
+    res.status(201).json(supplier);
+  })
+);
+
+// Suspend or reinstate a pool supplier
+router.post('/arrangements/:arrangementId/suppliers/:businessId/status',
+  authMiddleware,
+  requirePermission(Permissions.RFQ_UPDATE),
+  validate(commonSchemas.id, 'params'),
+  validate(arrangementSchemas.supplierStatus),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const supplier = await standingOfferService.updateSupplierStatus(
+      req.params.arrangementId,
+      req.params.businessId,
+      req.body.status,
+      req.body.reason,
+      req.user!.id
+    );
+    res.json(supplier);
+  })
+);
+
+// Issue a call-up (direct, or a mini-competition among the pool)
+router.post('/arrangements/:arrangementId/call-ups',
+  authMiddleware,
+  requirePermission(Permissions.RFQ_CREATE),
+  validate(commonSchemas.id, 'params'),
+  validate(arrangementSchemas.callUp),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const callUp = await standingOfferService.issueCallUp(
+      req.params.arrangementId,
+      req.body,
+      req.user!.id
+    );
+    res.status(201).json(callUp);
+  })
+);
+
+// Get call-ups against an arrangement
+router.get('/arrangements/:arrangementId/call-ups',
+  authMiddleware,
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const callUps = await standingOfferService.getCallUps(
+      req.params.arrangementId,
+      req.user!.id,
+      req.user!.businessId
+    );
+    res.json(callUps);
+  })
+);
+
+// Quote on a mini-competition
+router.post('/call-ups/:callUpId/quotes',
+  authMiddleware,
+  requirePermission(Permissions.BID_CREATE),
+  requireBusinessOwnership(),
+  validate(commonSchemas.id, 'params'),
+  validate(arrangementSchemas.quote),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const quote = await standingOfferService.submitQuote(
+      req.params.callUpId,
+      req.body,
+      req.user!.businessId!,
+      req.user!.id
+    );
+    res.status(201).json(quote);
+  })
+);
+
+// Award a mini-competition to a quote
+router.post('/call-ups/:callUpId/award',
+  authMiddleware,
+  requirePermission(Permissions.RFQ_UPDATE),
+  validate(commonSchemas.id, 'params'),
+  validate(arrangementSchemas.award),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const callUp = await standingOfferService.awardCallUp(
+      req.params.callUpId,
+      req.body.quote_id,
+      req.user!.id
+    );
+    res.json(callUp);
+  })
+);
+
+// Accept or decline an issued call-up
+router.post('/call-ups/:callUpId/respond',
+  authMiddleware,
+  requireBusinessOwnership(),
+  validate(commonSchemas.id, 'params'),
+  validate(arrangementSchemas.response),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const callUp = await standingOfferService.respondToCallUp(
+      req.params.callUpId,
+      req.body.response,
+      req.user!.businessId!,
+      req.body.reason
+    );
+    res.json(callUp);
+  })
+);
+
+// Get arrangements a business is qualified on
+router.get('/business/:businessId/arrangements',
+  authMiddleware,
+  requireBusinessOwnership(),
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const arrangements = await standingOfferService.getArrangementsForBusiness(req.params.businessId);
+    res.json(arrangements);
+  })
+);
+
+// =============================================================================
+// UTILITY ROUTES
+// =============================================================================
+
+// Express interest in RFQ
+router.post('/:rfqId/interest',
+  authMiddleware,
+  requireBusinessOwnership(),
+  validate(commonSchemas.id, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    // This could be a simple interest tracking system
+    res.json({ message: 'Interest recorded' });
+  })
+);
+
+// Upload document (placeholder)
+router.post('/documents/upload',
+  authMiddleware,
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    // This would integrate with document upload service
+    res.json({ 
+      message: 'Document upload endpoint',
+      note: 'Integrate with S3 or similar service'
+    });
+  })
+);
+
+// Search suggestions
+router.get('/search/suggestions',
+  asyncHandler(async (req, res) => {
+    const { q } = req.query;
+    // This would provide search suggestions based on query
+    res.json({
+      query: q,
+      suggestions: [
         'Construction services',
         'Consulting services',
         'IT solutions',
@@ -583,4 +1491,85 @@ router.get('/search/suggestions',
   })
 );
 
+// =============================================================================
+// CLASSIFICATION ROUTES (UNSPSC, GSIN, NAICS)
+// =============================================================================
+
+// Suggest codes for free text (a skill, a requirement, an RFQ title)
+router.get('/classification/suggest',
+  optionalAuth,
+  validate(classificationSchemas.search, 'query'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const systems = req.query.systems ? String(req.query.systems).split(',') as any[] : undefined;
+    const suggestions = await classificationService.suggestCodes(
+      String(req.query.q),
+      systems,
+      Number(req.query.limit) || 10
+    );
+    res.json(suggestions);
+  })
+);
+
+// Get a code with its hierarchy and children
+router.get('/classification/:system/:code',
+  optionalAuth,
+  validate(classificationSchemas.code, 'params'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const code = await classificationService.getCode(req.params.system as any, req.params.code);
+    res.json(code);
+  })
+);
+
+// Equivalent codes in the other systems
+router.get('/classification/:system/:code/crosswalk',
+  optionalAuth,
+  validate(classificationSchemas.code, 'params'),
+  validate(classificationSchemas.crosswalk, 'query'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const equivalents = await classificationService.crosswalk(
+      { system: req.params.system as any, code: req.params.code },
+      req.query.to as any
+    );
+    res.json(equivalents);
+  })
+);
+
+// Get a business's capability profile in codes
+router.get('/businesses/:businessId/capabilities',
+  authMiddleware,
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const profile = await classificationService.getCapabilityProfile(req.params.businessId);
+    res.json(profile);
+  })
+);
+
+// Declare the codes a business works in (business owner only)
+router.put('/businesses/:businessId/capabilities',
+  authMiddleware,
+  requireBusinessOwnership(),
+  validate(classificationSchemas.capabilities),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const profile = await classificationService.setDeclaredCapabilities(
+      req.params.businessId,
+      req.body.codes,
+      req.user!.id,
+      req.user!.businessId!
+    );
+    res.json(profile);
+  })
+);
+
+// Re-derive capability codes from the business's listed skills
+router.post('/businesses/:businessId/capabilities/refresh',
+  authMiddleware,
+  requireBusinessOwnership(),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const profile = await classificationService.refreshSkillCapabilities(
+      req.params.businessId,
+      req.user!.businessId!
+    );
+    res.json(profile);
+  })
+);
+
 export { router as rfqRouter };
\ No newline at end of file
@@ -92,6 +92,7 @@ export class AIRFQMatcher {
       location: this.calculateLocationMatch(business, rfq),
       cultural: this.calculateCulturalMatch(business, rfq),
       experience: this.calculateExperienceMatch(business, rfq),
+      performance: this.calculatePerformanceMatch(business),
       strengths: [] as string[],
       gaps: [] as string[],
       recommendations: [] as string[],
@@ -133,6 +134,8 @@ export class AIRFQMatcher {
       winRate: business.stats.winRate,
       avgResponseTime: business.stats.avgResponseTime,
       customerSatisfaction: business.stats.customerSatisfaction,
+      scorecardScore: this.calculatePerformanceMatch(business),
+      scorecardEvaluations: business.scorecard?.evaluation_count || 0,
     };
   }
 
@@ -259,6 +262,18 @@ export class AIRFQMatcher {
     return Math.min(score, 1.0);
   }
 
+  /**
+   * Calculate delivery track record from the supplier scorecard
+   */
+  private calculatePerformanceMatch(business: Business): number {
+    const scorecard = business.scorecard;
+
+    // Not yet evaluated on a completed contract: neutral rather than penalised
+    if (!scorecard || scorecard.overall_score === null) return 0.8;
+
+    return scorecard.overall_score / 100;
+  }
+
   /**
    * Generate human-readable match reasons
    */
@@ -287,6 +302,11 @@ export class AIRFQMatcher {
       reasons.push(`🏆 Won ${similarWins.length} similar projects`);
     }
 
+    // Delivery track record
+    if (scores.performance > 0.85 && business.scorecard?.evaluation_count > 0) {
+      reasons.push(`⭐ Strong delivery record: ${Math.round(business.scorecard.overall_score)}/100 across ${business.scorecard.evaluation_count} evaluated contracts`);
+    }
+
     // Capacity fit
     if (scores.capacity > 0.9) {
       reasons.push(`⚡ Perfect capacity match for project timeline`);
@@ -402,7 +422,8 @@ export class AIRFQMatcher {
         *,
         certifications(*),
         projects(*),
-        stats:business_stats(*)
+        stats:business_stats(*),
+        scorecard:supplier_scorecards(*)
       `)
       .eq('id', businessId)
       .single();
@@ -215,7 +215,8 @@ export class IntelligentRFQEngine {
         capabilities: true,
         certifications: true,
         pastProjects: true,
-        performanceMetrics: true
+        performanceMetrics: true,
+        supplierScorecard: true
       }
     });
 
@@ -267,8 +268,9 @@ export class IntelligentRFQEngine {
     score += locationMatch * 0.15;
     factors++;
 
-    // Performance history (10% weight)
-    const performanceScore = business.performanceMetrics?.averageScore || 0.8;
+    // Performance history (10% weight), from the supplier scorecard built
+    // out of completed contract evaluations; unevaluated businesses are neutral
+    const performanceScore = business.supplierScorecard?.overallScore ?? 80;
     score += (performanceScore / 100) * 0.1;
     factors++;
 
@@ -16,6 +16,7 @@ import cron from 'cron';
 import { RFQService } from './services/rfq-service';
 import { ContractService } from './services/contract-service';
 import { InvitationService } from './services/invitation-service';
+import { AuctionService } from './services/auction-service';
 
 // Load environment variables
 config();
@@ -154,6 +155,7 @@ app.use(errorHandler);
 const rfqService = new RFQService();
 const contractService = new ContractService();
 const invitationService = new InvitationService();
+const auctionService = new AuctionService();
 
 // Schedule deadline reminders (runs every hour)
 const deadlineReminderJob = new cron.CronJob('0 * * * *', async () => {
@@ -165,6 +167,15 @@ const deadlineReminderJob = new cron.CronJob('0 * * * *', async () => {
   }
 });
 
+// Open and close reverse auctions (runs every minute)
+const auctionJob = new cron.CronJob('* * * * *', async () => {
+  try {
+    await auctionService.processAuctions();
+  } catch (error) {
+    logger.error('Failed to process auctions:', error);
+  }
+});
+
 // Schedule contract deadline checks (runs daily at 9 AM)
 const contractDeadlineJob = new cron.CronJob('0 9 * * *', async () => {
   try {
@@ -206,6 +217,7 @@ async function startServer() {
     // Start cron jobs
     logger.info('Starting scheduled jobs...');
     deadlineReminderJob.start();
+    auctionJob.start();
     contractDeadlineJob.start();
     invitationCleanupJob.start();
     
@@ -233,6 +245,7 @@ const gracefulShutdown = async (signal: string) => {
   
   // Stop cron jobs
   deadlineReminderJob.stop();
+  auctionJob.stop();
   contractDeadlineJob.stop();
   invitationCleanupJob.stop();
   
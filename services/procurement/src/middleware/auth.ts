@@ -28,6 +28,12 @@ export const Permissions = {
   BID_DELETE: 'bid.delete',
   BID_VIEW_PRIVATE: 'bid.view_private',
   
+  // Supplier performance permissions
+  PERFORMANCE_DISPUTE_RESOLVE: 'performance.dispute.resolve',
+  
+  // Award challenge permissions
+  PROTEST_RESOLVE: 'protest.resolve',
+  
   // Admin permissions
   ADMIN_FULL_ACCESS: 'admin.full_access',
   ADMIN_BUSINESS_VERIFY: 'admin.business.verify',
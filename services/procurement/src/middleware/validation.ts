@@ -33,6 +33,11 @@ export function validate(schema: Joi.ObjectSchema, source: 'body' | 'params' | '
 }
 
 // RFQ validation schemas
+const classificationCode = Joi.object({
+  system: Joi.string().valid('unspsc', 'gsin', 'naics').required(),
+  code: Joi.string().max(20).required()
+});
+
 export const rfqSchemas = {
   create: Joi.object({
     title: Joi.string().min(10).max(200).required(),
@@ -63,7 +68,21 @@ export const rfqSchemas = {
     deliverables: Joi.string().max(2000).optional(),
     evaluation_criteria: Joi.string().max(1000).optional(),
     indigenous_only: Joi.boolean().default(false),
+    sealed_bids: Joi.boolean().default(false),
+    opening_witnesses_required: Joi.number().integer().min(2).max(10).when('sealed_bids', {
+      is: true,
+      then: Joi.optional(),
+      otherwise: Joi.forbidden()
+    }),
+    bid_security_type: Joi.string().valid('none', 'bid_bond', 'deposit', 'either').default('none'),
+    bid_security_amount: Joi.number().positive().when('bid_security_type', {
+      is: 'none',
+      then: Joi.forbidden(),
+      otherwise: Joi.required()
+    }),
     closing_date: Joi.date().min('now').required(),
+    question_cutoff_date: Joi.date().min('now').less(Joi.ref('closing_date')).optional(),
+    classification_codes: Joi.array().items(classificationCode).max(20).optional(),
     documents: Joi.array().items(Joi.object({
       name: Joi.string().required(),
       url: Joi.string().uri().required(),
@@ -87,11 +106,13 @@ export const rfqSchemas = {
     deliverables: Joi.string().max(2000).optional(),
     evaluation_criteria: Joi.string().max(1000).optional(),
     closing_date: Joi.date().min('now').optional(),
+    question_cutoff_date: Joi.date().min('now').optional(),
     contact_info: Joi.object({
       name: Joi.string().max(100),
       email: Joi.string().email(),
       phone: Joi.string().max(20)
-    }).optional()
+    }).optional(),
+    addendum_summary: Joi.string().max(2000).optional()
   }).min(1),
 
   search: Joi.object({
@@ -138,7 +159,16 @@ export const bidSchemas = {
     questions: Joi.array().items(Joi.object({
       question: Joi.string().max(500).required(),
       answer: Joi.string().max(1000).required()
-    })).max(20).optional()
+    })).max(20).optional(),
+    bid_security: Joi.object({
+      type: Joi.string().valid('bid_bond', 'deposit').required(),
+      amount: Joi.number().positive().required(),
+      surety_name: Joi.string().max(200).when('type', { is: 'bid_bond', then: Joi.required() }),
+      bond_number: Joi.string().max(100).when('type', { is: 'bid_bond', then: Joi.required() }),
+      expiry_date: Joi.date().when('type', { is: 'bid_bond', then: Joi.required() }),
+      document_url: Joi.string().uri().optional(),
+      payment_reference: Joi.string().max(100).when('type', { is: 'deposit', then: Joi.required() })
+    }).optional()
   }),
 
   update: Joi.object({
@@ -169,6 +199,287 @@ export const bidSchemas = {
       Joi.number().min(0).max(100)
     ).optional(),
     notes: Joi.string().max(2000).optional()
+  }),
+
+  open: Joi.object({
+    witnesses: Joi.array().items(Joi.object({
+      name: Joi.string().max(100).required(),
+      title: Joi.string().max(100).optional(),
+      organization: Joi.string().max(200).optional(),
+      user_id: Joi.string().uuid().optional()
+    })).min(2).max(10).required(),
+    notes: Joi.string().max(2000).optional()
+  })
+};
+
+// Clarification validation schemas
+export const clarificationSchemas = {
+  question: Joi.object({
+    question: Joi.string().min(10).max(2000).required(),
+    reference_section: Joi.string().max(200).optional()
+  }),
+
+  answer: Joi.object({
+    answer: Joi.string().min(1).max(5000).required(),
+    public_question: Joi.string().max(2000).optional(),
+    publish: Joi.boolean().default(true),
+    include_in_addendum: Joi.boolean().default(false)
+  })
+};
+
+// Standing offer and supply arrangement validation schemas
+const callUpLine = Joi.object({
+  item_code: Joi.string().max(50).required(),
+  quantity: Joi.number().positive().required()
+});
+
+export const arrangementSchemas = {
+  create: Joi.object({
+    arrangement_type: Joi.string().valid('standing_offer', 'supply_arrangement').required(),
+    title: Joi.string().min(5).max(200).required(),
+    description: Joi.string().max(10000).optional(),
+    category: Joi.string().required(),
+    ceiling_value: Joi.number().positive().required(),
+    valid_from: Joi.date().required(),
+    valid_until: Joi.date().greater(Joi.ref('valid_from')).required(),
+    direct_call_up_limit: Joi.number().positive().optional(),
+    allocation_method: Joi.string().valid('lowest_price', 'rotation').optional(),
+    indigenous_only: Joi.boolean().default(false),
+    call_up_template_id: Joi.string().uuid().optional()
+  }),
+
+  qualification: Joi.object({
+    business_id: Joi.string().uuid().required(),
+    rates: Joi.array().items(Joi.object({
+      item_code: Joi.string().max(50).required(),
+      description: Joi.string().max(500).optional(),
+      unit: Joi.string().max(50).required(),
+      unit_price: Joi.number().positive().precision(2).required()
+    })).min(1).max(500).unique('item_code').required(),
+    notes: Joi.string().max(2000).optional()
+  }),
+
+  supplierStatus: Joi.object({
+    status: Joi.string().valid('qualified', 'suspended').required(),
+    reason: Joi.string().min(10).max(2000).required()
+  }),
+
+  callUp: Joi.object({
+    title: Joi.string().min(5).max(200).optional(),
+    description: Joi.string().max(10000).optional(),
+    template_id: Joi.string().uuid().optional(),
+    lines: Joi.array().items(callUpLine).min(1).max(200).required(),
+    delivery_date: Joi.date().min('now').required(),
+    business_id: Joi.string().uuid().optional(),
+    competition_closing_date: Joi.date().min('now').less(Joi.ref('delivery_date')).optional()
+  }).oxor('business_id', 'competition_closing_date'),
+
+  quote: Joi.object({
+    amount: Joi.number().positive().precision(2).required(),
+    notes: Joi.string().max(2000).optional()
+  }),
+
+  award: Joi.object({
+    quote_id: Joi.string().uuid().required()
+  }),
+
+  response: Joi.object({
+    response: Joi.string().valid('accepted', 'declined').required(),
+    reason: Joi.string().max(2000).when('response', {
+      is: 'declined',
+      then: Joi.required(),
+      otherwise: Joi.optional()
+    })
+  })
+};
+
+// Reverse auction validation schemas
+export const auctionSchemas = {
+  configure: Joi.object({
+    starts_at: Joi.date().min('now').required(),
+    ends_at: Joi.date().greater(Joi.ref('starts_at')).required(),
+    starting_price: Joi.number().positive().precision(2).required(),
+    min_decrement_amount: Joi.number().positive().precision(2).optional(),
+    min_decrement_percent: Joi.number().positive().max(25).optional(),
+    extension_window_seconds: Joi.number().integer().min(0).max(3600).optional(),
+    extension_seconds: Joi.number().integer().min(0).max(3600).optional(),
+    max_extensions: Joi.number().integer().min(0).max(100).optional(),
+    feedback: Joi.string().valid('rank_only', 'price_visible').required()
+  }).or('min_decrement_amount', 'min_decrement_percent'),
+
+  bid: Joi.object({
+    amount: Joi.number().positive().required()
+  })
+};
+
+// Debriefing and protest validation schemas
+const protestDocument = Joi.object({
+  name: Joi.string().max(200).required(),
+  url: Joi.string().uri().required(),
+  description: Joi.string().max(1000).optional()
+});
+
+export const awardChallengeSchemas = {
+  debriefingRequest: Joi.object({
+    questions: Joi.string().max(5000).optional()
+  }),
+
+  debriefingResponse: Joi.object({
+    summary: Joi.string().min(20).max(10000).required(),
+    strengths: Joi.string().max(5000).optional(),
+    weaknesses: Joi.string().max(5000).optional(),
+    meeting_at: Joi.date().min('now').optional()
+  }),
+
+  protest: Joi.object({
+    grounds: Joi.string().min(50).max(10000).required(),
+    remedy_sought: Joi.string().min(10).max(2000).required(),
+    documents: Joi.array().items(protestDocument).max(20).optional()
+  }),
+
+  protestResponse: Joi.object({
+    response: Joi.string().min(20).max(10000).required(),
+    documents: Joi.array().items(protestDocument).max(20).optional()
+  }),
+
+  protestDocument,
+
+  protestResolution: Joi.object({
+    outcome: Joi.string().valid('upheld', 'partially_upheld', 'dismissed').required(),
+    resolution: Joi.string().min(20).max(10000).required(),
+    remedy: Joi.string().max(2000).when('outcome', {
+      is: 'dismissed',
+      then: Joi.forbidden(),
+      otherwise: Joi.required()
+    })
+  })
+};
+
+// Evaluation validation schemas
+export const evaluationSchemas = {
+  matrix: Joi.object({
+    criteria: Joi.array().items(Joi.object({
+      key: Joi.string().pattern(/^[a-z0-9_]+$/).max(50).required(),
+      name: Joi.string().max(100).required(),
+      category: Joi.string().valid(
+        'technical', 'price', 'indigenous_benefit', 'schedule', 'other'
+      ).required(),
+      weight: Joi.number().min(0).max(100).required(),
+      max_points: Joi.number().greater(0).max(1000).required(),
+      scoring_method: Joi.string().valid('evaluator', 'lowest_price', 'pass_fail').default('evaluator'),
+      minimum_points: Joi.number().min(0).optional()
+    })).min(1).max(25).required()
+  }),
+
+  committee: Joi.object({
+    members: Joi.array().items(Joi.object({
+      user_id: Joi.string().uuid().required(),
+      role: Joi.string().valid('chair', 'evaluator').required()
+    })).min(1).max(15).required()
+  }),
+
+  scores: Joi.object({
+    scores: Joi.array().items(Joi.object({
+      criterion_key: Joi.string().max(50).required(),
+      score: Joi.number().min(0).optional(),
+      passed: Joi.boolean().optional(),
+      rationale: Joi.string().max(2000).optional()
+    })).min(1).max(25).required()
+  })
+};
+
+// Contract management validation schemas
+export const contractSchemas = {
+  milestone: Joi.object({
+    title: Joi.string().max(200).required(),
+    description: Joi.string().max(2000).optional(),
+    deliverables: Joi.array().items(Joi.string().max(500)).max(20).optional(),
+    acceptance_criteria: Joi.array().items(Joi.string().max(500)).max(20).optional(),
+    due_date: Joi.date().required(),
+    payment_percentage: Joi.number().min(0).max(100).required()
+  }),
+
+  milestoneSubmission: Joi.object({
+    notes: Joi.string().max(2000).optional(),
+    evidence: Joi.array().items(Joi.object({
+      name: Joi.string().required(),
+      url: Joi.string().uri().required()
+    })).max(20).optional()
+  }),
+
+  milestoneAcceptance: Joi.object({
+    criteria_results: Joi.array().items(Joi.object({
+      criterion: Joi.string().max(500).required(),
+      met: Joi.boolean().required(),
+      note: Joi.string().max(1000).optional()
+    })).max(20).optional(),
+    notes: Joi.string().max(2000).optional()
+  }),
+
+  milestoneRejection: Joi.object({
+    reason: Joi.string().min(10).max(2000).required()
+  }),
+
+  changeOrder: Joi.object({
+    title: Joi.string().max(200).required(),
+    reason: Joi.string().min(10).max(2000).required(),
+    value_change: Joi.number().optional(),
+    new_end_date: Joi.date().optional()
+  }).or('value_change', 'new_end_date'),
+
+  changeOrderDecision: Joi.object({
+    decision: Joi.string().valid('approved', 'rejected').required(),
+    notes: Joi.string().max(2000).optional()
+  }),
+
+  bond: Joi.object({
+    bond_type: Joi.string().valid('performance', 'labour_material').required(),
+    surety_name: Joi.string().max(200).required(),
+    bond_number: Joi.string().max(100).required(),
+    amount: Joi.number().positive().required(),
+    effective_date: Joi.date().required(),
+    expiry_date: Joi.date().greater(Joi.ref('effective_date')).required(),
+    document_url: Joi.string().uri().optional()
+  }),
+
+  securityAction: Joi.object({
+    reason: Joi.string().min(10).max(2000).required()
+  })
+};
+
+// Supplier performance validation schemas
+const performanceRating = Joi.number().integer().min(1).max(5).allow(null).required();
+const performanceRatings = Joi.object({
+  quality: performanceRating,
+  timeliness: performanceRating,
+  communication: performanceRating,
+  indigenous_employment: performanceRating,
+  safety: performanceRating
+});
+const performanceDimensions = ['quality', 'timeliness', 'communication', 'indigenous_employment', 'safety'];
+
+export const performanceSchemas = {
+  evaluation: Joi.object({
+    ratings: performanceRatings.required(),
+    comments: Joi.string().max(5000).optional(),
+    indigenous_employment_percentage: Joi.number().min(0).max(100).optional()
+  }),
+
+  dispute: Joi.object({
+    reason: Joi.string().min(20).max(5000).required(),
+    disputed_dimensions: Joi.array().items(
+      Joi.string().valid(...performanceDimensions)
+    ).min(1).unique().required()
+  }),
+
+  disputeResolution: Joi.object({
+    outcome: Joi.string().valid('upheld', 'rejected').required(),
+    notes: Joi.string().min(10).max(5000).required(),
+    revised_ratings: performanceRatings.when('outcome', {
+      is: 'upheld',
+      then: Joi.optional(),
+      otherwise: Joi.forbidden()
+    })
   })
 };
 
@@ -197,6 +508,28 @@ export const templateSchemas = {
 };
 
 // Common validation schemas
+// Classification code validation schemas
+export const classificationSchemas = {
+  code: Joi.object({
+    system: Joi.string().valid('unspsc', 'gsin', 'naics').required(),
+    code: Joi.string().max(20).required()
+  }),
+
+  search: Joi.object({
+    q: Joi.string().min(2).max(500).required(),
+    systems: Joi.string().pattern(/^(unspsc|gsin|naics)(,(unspsc|gsin|naics))*$/).optional(),
+    limit: Joi.number().integer().min(1).max(50).default(10)
+  }),
+
+  crosswalk: Joi.object({
+    to: Joi.string().valid('unspsc', 'gsin', 'naics').optional()
+  }),
+
+  capabilities: Joi.object({
+    codes: Joi.array().items(classificationCode).max(100).required()
+  })
+};
+
 export const commonSchemas = {
   id: Joi.object({
     id: Joi.string().uuid().required()
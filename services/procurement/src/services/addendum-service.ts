@@ -0,0 +1,170 @@
+import { query } from '../utils/database';
+import { notifyAddendumIssued } from '../utils/notifications';
+import { recordAuditEvent } from '../utils/audit';
+import { AddendumChange } from '../utils/addendum-rules';
+import { v4 as uuidv4 } from 'uuid';
+import { NotFoundError, ConflictError, ForbiddenError, BusinessLogicError } from '../middleware/error-handler';
+
+export class AddendumService {
+  async recordAddendum(client: any, addendum: {
+    rfq_id: string;
+    version: number;
+    summary?: string | undefined;
+    changes: AddendumChange[];
+    issued_by: string;
+  }): Promise<any> {
+    const numberResult = await client.query(
+      `SELECT COALESCE(MAX(addendum_number), 0) + 1 as next_number
+       FROM rfq_addenda WHERE rfq_id = $1`,
+      [addendum.rfq_id]
+    );
+
+    const result = await client.query(
+      `INSERT INTO rfq_addenda (
+        id, rfq_id, addendum_number, rfq_version, summary, changes,
+        issued_by, issued_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+      RETURNING *`,
+      [
+        uuidv4(), addendum.rfq_id, numberResult.rows[0].next_number, addendum.version,
+        addendum.summary, JSON.stringify(addendum.changes), addendum.issued_by
+      ]
+    );
+
+    await recordAuditEvent({
+      entity_type: 'rfq',
+      entity_id: addendum.rfq_id,
+      action: 'rfq.addendum_issued',
+      user_id: addendum.issued_by,
+      details: `Addendum ${result.rows[0].addendum_number} issued`,
+      metadata: { version: addendum.version, changes: addendum.changes }
+    }, client);
+
+    return result.rows[0];
+  }
+
+  async notifyAffectedBusinesses(rfq: any, addendum: any): Promise<void> {
+    const businessIds = await this.getProspectiveBidderIds(rfq.id);
+    if (businessIds.length > 0) {
+      await notifyAddendumIssued(rfq, addendum, businessIds);
+    }
+  }
+
+  // Invited, interested and already-bidding businesses
+  async getProspectiveBidderIds(rfqId: string): Promise<string[]> {
+    const result = await query(
+      `SELECT business_id FROM rfq_invitations WHERE rfq_id = $1
+       UNION
+       SELECT business_id FROM rfq_interests WHERE rfq_id = $1
+       UNION
+       SELECT business_id FROM bids WHERE rfq_id = $1 AND status != 'withdrawn'`,
+      [rfqId]
+    );
+
+    return result.rows.map(row => row.business_id);
+  }
+
+  async getAddenda(rfqId: string, businessId?: string): Promise<any[]> {
+    const result = await query(
+      `SELECT a.*,
+        ack.acknowledged_at
+       FROM rfq_addenda a
+       LEFT JOIN rfq_addendum_acknowledgements ack
+         ON a.id = ack.addendum_id AND ack.business_id = $2
+       WHERE a.rfq_id = $1
+       ORDER BY a.addendum_number ASC`,
+      [rfqId, businessId || null]
+    );
+
+    return result.rows;
+  }
+
+  async acknowledgeAddendum(
+    rfqId: string,
+    addendumId: string,
+    businessId: string,
+    userId: string
+  ): Promise<any> {
+    const addendumResult = await query(
+      `SELECT id, addendum_number FROM rfq_addenda WHERE id = $1 AND rfq_id = $2`,
+      [addendumId, rfqId]
+    );
+
+    if (addendumResult.rows.length === 0) {
+      throw new NotFoundError('Addendum not found');
+    }
+
+    const result = await query(
+      `INSERT INTO rfq_addendum_acknowledgements (
+        id, addendum_id, business_id, acknowledged_by, acknowledged_at
+      ) VALUES ($1, $2, $3, $4, NOW())
+      ON CONFLICT (addendum_id, business_id) DO NOTHING
+      RETURNING *`,
+      [uuidv4(), addendumId, businessId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new ConflictError('Addendum has already been acknowledged');
+    }
+
+    await recordAuditEvent({
+      entity_type: 'rfq',
+      entity_id: rfqId,
+      action: 'rfq.addendum_acknowledged',
+      user_id: userId,
+      details: `Addendum ${addendumResult.rows[0].addendum_number} acknowledged`,
+      metadata: { addendum_id: addendumId, business_id: businessId }
+    });
+
+    return result.rows[0];
+  }
+
+  async assertAddendaAcknowledged(rfqId: string, businessId: string): Promise<void> {
+    const result = await query(
+      `SELECT a.addendum_number
+       FROM rfq_addenda a
+       LEFT JOIN rfq_addendum_acknowledgements ack
+         ON a.id = ack.addendum_id AND ack.business_id = $2
+       WHERE a.rfq_id = $1 AND ack.id IS NULL
+       ORDER BY a.addendum_number ASC`,
+      [rfqId, businessId]
+    );
+
+    if (result.rows.length > 0) {
+      const numbers = result.rows.map(row => row.addendum_number);
+      throw new BusinessLogicError(
+        `Addenda ${numbers.join(', ')} must be acknowledged before bidding`,
+        { unacknowledged_addenda: numbers }
+      );
+    }
+  }
+
+  async getAcknowledgementStatus(rfqId: string, userId: string): Promise<any[]> {
+    const rfqResult = await query(`SELECT created_by FROM rfqs WHERE id = $1`, [rfqId]);
+    if (rfqResult.rows.length === 0) {
+      throw new NotFoundError('RFQ not found');
+    }
+
+    if (rfqResult.rows[0].created_by !== userId) {
+      throw new ForbiddenError('Only RFQ owner can view addendum acknowledgements');
+    }
+
+    const result = await query(
+      `SELECT a.id as addendum_id, a.addendum_number, b.business_id, bs.business_name,
+        ack.acknowledged_at
+       FROM rfq_addenda a
+       CROSS JOIN (
+         SELECT DISTINCT business_id FROM bids
+         WHERE rfq_id = $1 AND status != 'withdrawn'
+       ) b
+       LEFT JOIN businesses bs ON b.business_id = bs.id
+       LEFT JOIN rfq_addendum_acknowledgements ack
+         ON a.id = ack.addendum_id AND ack.business_id = b.business_id
+       WHERE a.rfq_id = $1
+       ORDER BY a.addendum_number ASC, bs.business_name ASC`,
+      [rfqId]
+    );
+
+    return result.rows;
+  }
+}
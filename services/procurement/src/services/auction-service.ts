@@ -0,0 +1,461 @@
+import { query, transaction } from '../utils/database';
+import { invalidateRFQCache } from '../utils/redis';
+import { sendNotification } from '../utils/notifications';
+import { publishRealtimeEvents, RealtimeEvent } from '../utils/realtime';
+import { recordAuditEvent } from '../utils/audit';
+import {
+  AuctionFeedback,
+  AuctionRules,
+  AuctionStanding,
+  validateAuctionBid,
+  extendedEndTime,
+  rankAuctionBids
+} from '../utils/auction-rules';
+import { BidService } from './bid-service';
+import { InvitationService } from './invitation-service';
+import { logger } from '../utils/logger';
+import { v4 as uuidv4 } from 'uuid';
+import { NotFoundError, ConflictError, ValidationError, ForbiddenError, BusinessLogicError } from '../middleware/error-handler';
+
+export interface AuctionConfig {
+  starts_at: Date;
+  ends_at: Date;
+  starting_price: number;
+  min_decrement_amount?: number;
+  min_decrement_percent?: number;
+  extension_window_seconds?: number;
+  extension_seconds?: number;
+  max_extensions?: number;
+  feedback: AuctionFeedback;
+}
+
+// Anti-sniping defaults: a bid in the last two minutes adds two minutes
+export const DEFAULT_EXTENSION_WINDOW_SECONDS = 120;
+export const DEFAULT_EXTENSION_SECONDS = 120;
+
+function toRules(auction: any): AuctionRules {
+  return {
+    starting_price: parseFloat(auction.starting_price),
+    min_decrement_amount: auction.min_decrement_amount === null ? null : parseFloat(auction.min_decrement_amount),
+    min_decrement_percent: auction.min_decrement_percent === null ? null : parseFloat(auction.min_decrement_percent),
+    extension_window_seconds: auction.extension_window_seconds,
+    extension_seconds: auction.extension_seconds,
+    max_extensions: auction.max_extensions
+  };
+}
+
+export class AuctionService {
+  private bidService = new BidService();
+  private invitationService = new InvitationService();
+
+  async configureAuction(rfqId: string, config: AuctionConfig, userId: string): Promise<any> {
+    const rfqResult = await query(`SELECT * FROM rfqs WHERE id = $1`, [rfqId]);
+
+    if (rfqResult.rows.length === 0) {
+      throw new NotFoundError('RFQ not found');
+    }
+
+    const rfq = rfqResult.rows[0];
+
+    if (rfq.created_by !== userId) {
+      throw new ForbiddenError('You can only run auctions on your own RFQs');
+    }
+
+    if (rfq.status !== 'open') {
+      throw new ConflictError('Auctions can only be set up on open RFQs');
+    }
+
+    if (rfq.sealed_bids) {
+      throw new BusinessLogicError('Sealed-bid RFQs cannot be run as a reverse auction');
+    }
+
+    if (new Date(config.ends_at) <= new Date(config.starts_at)) {
+      throw new ValidationError('Auction must end after it starts');
+    }
+
+    const bidCount = await query(
+      `SELECT COUNT(*) as count FROM bids WHERE rfq_id = $1 AND status != 'withdrawn'`,
+      [rfqId]
+    );
+
+    if (parseInt(bidCount.rows[0].count) > 0) {
+      throw new ConflictError('This RFQ already has sealed-price bids');
+    }
+
+    const auction = await transaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO rfq_auctions (
+          id, rfq_id, starts_at, ends_at, original_ends_at, starting_price,
+          min_decrement_amount, min_decrement_percent, extension_window_seconds,
+          extension_seconds, max_extensions, extension_count, feedback, status,
+          created_by, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $4, $5, $6, $7, $8, $9, $10, 0, $11, 'scheduled', $12, NOW(), NOW())
+        ON CONFLICT (rfq_id) DO NOTHING
+        RETURNING *`,
+        [
+          uuidv4(), rfqId, config.starts_at, config.ends_at, config.starting_price,
+          config.min_decrement_amount, config.min_decrement_percent,
+          config.extension_window_seconds ?? DEFAULT_EXTENSION_WINDOW_SECONDS,
+          config.extension_seconds ?? DEFAULT_EXTENSION_SECONDS,
+          config.max_extensions, config.feedback, userId
+        ]
+      );
+
+      if (result.rows.length === 0) {
+        throw new ConflictError('An auction has already been set up for this RFQ');
+      }
+
+      await client.query(
+        `UPDATE rfqs SET bid_mode = 'reverse_auction', updated_at = NOW() WHERE id = $1`,
+        [rfqId]
+      );
+
+      await recordAuditEvent({
+        entity_type: 'rfq',
+        entity_id: rfqId,
+        action: 'rfq.auction_configured',
+        user_id: userId,
+        metadata: {
+          auction_id: result.rows[0].id,
+          starts_at: config.starts_at,
+          ends_at: config.ends_at,
+          starting_price: config.starting_price,
+          feedback: config.feedback
+        }
+      }, client);
+
+      return result.rows[0];
+    });
+
+    await invalidateRFQCache(rfqId);
+
+    const participants = await this.invitationService.getPrequalifiedBusinessIds(rfqId);
+    if (participants.length > 0) {
+      await sendNotification({
+        type: 'rfq.auction_scheduled',
+        recipients: participants,
+        data: {
+          rfqId,
+          auctionId: auction.id,
+          rfqTitle: rfq.title,
+          startsAt: auction.starts_at,
+          endsAt: auction.ends_at,
+          startingPrice: auction.starting_price
+        },
+        priority: 'high'
+      });
+    }
+
+    return auction;
+  }
+
+  async placeBid(auctionId: string, amount: number, businessId: string, userId: string): Promise<any> {
+    const existing = await this.getAuctionRecord(auctionId);
+    const participants = await this.invitationService.getPrequalifiedBusinessIds(existing.rfq_id);
+
+    if (!participants.includes(businessId)) {
+      throw new ForbiddenError('Only pre-qualified invited businesses can bid in this auction');
+    }
+
+    const { auction, entry, standings } = await transaction(async (client) => {
+      // Lock the auction so decrement checks and extensions see every earlier bid
+      const auctionResult = await client.query(
+        `SELECT * FROM rfq_auctions WHERE id = $1 FOR UPDATE`,
+        [auctionId]
+      );
+      const auction = auctionResult.rows[0];
+      const now = new Date();
+
+      if (auction.status === 'closed') {
+        throw new ConflictError('Auction has closed');
+      }
+
+      if (now < new Date(auction.starts_at)) {
+        throw new BusinessLogicError('Auction has not started yet');
+      }
+
+      if (now >= new Date(auction.ends_at)) {
+        throw new BusinessLogicError('Auction has ended');
+      }
+
+      const ledger = await client.query(
+        `SELECT business_id, amount, placed_by, placed_at
+         FROM rfq_auction_bids WHERE auction_id = $1
+         ORDER BY placed_at ASC`,
+        [auctionId]
+      );
+
+      const rules = toRules(auction);
+      const own = rankAuctionBids(ledger.rows).find(s => s.business_id === businessId);
+      const errors = validateAuctionBid(rules, amount, own ? own.best_amount : null);
+      if (errors.length > 0) {
+        throw new ValidationError('Bid rejected', errors);
+      }
+
+      const extendedTo = extendedEndTime(rules, new Date(auction.ends_at), now, auction.extension_count);
+
+      const entryResult = await client.query(
+        `INSERT INTO rfq_auction_bids (
+          id, auction_id, business_id, amount, placed_by, placed_at, extended_ends_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *`,
+        [uuidv4(), auctionId, businessId, amount, userId, now, extendedTo]
+      );
+
+      const updated = await client.query(
+        `UPDATE rfq_auctions SET
+         status = 'live',
+         ends_at = COALESCE($1, ends_at),
+         extension_count = extension_count + $2,
+         updated_at = NOW()
+         WHERE id = $3
+         RETURNING *`,
+        [extendedTo, extendedTo ? 1 : 0, auctionId]
+      );
+
+      return {
+        auction: updated.rows[0],
+        entry: entryResult.rows[0],
+        standings: rankAuctionBids([...ledger.rows, entryResult.rows[0]])
+      };
+    });
+
+    await publishRealtimeEvents(
+      this.buildUpdates(auction, standings, participants, existing.rfq_owner, 'auction.update')
+    );
+
+    return { ...entry, feedback: this.feedbackFor(auction, standings, businessId) };
+  }
+
+  async getAuction(auctionId: string, userId: string, businessId?: string): Promise<any> {
+    const auction = await this.getAuctionRecord(auctionId);
+    const ledger = await this.getLedgerEntries(auctionId);
+    const standings = rankAuctionBids(ledger);
+
+    if (auction.rfq_owner === userId) {
+      const names = new Map(ledger.map(entry => [entry.business_id, entry.business_name]));
+      return {
+        ...auction,
+        standings: standings.map(s => ({ ...s, business_name: names.get(s.business_id) }))
+      };
+    }
+
+    const participants = await this.invitationService.getPrequalifiedBusinessIds(auction.rfq_id);
+    if (!businessId || !participants.includes(businessId)) {
+      throw new ForbiddenError('Only the buyer and pre-qualified bidders can view this auction');
+    }
+
+    return {
+      ...this.publicView(auction),
+      ...this.feedbackFor(auction, standings, businessId),
+      your_bids: ledger
+        .filter(entry => entry.business_id === businessId)
+        .map(({ business_name, ...entry }) => entry)
+    };
+  }
+
+  // The full ledger, including every superseded price, is for the buyer only
+  async getLedger(auctionId: string, userId: string): Promise<any[]> {
+    const auction = await this.getAuctionRecord(auctionId);
+
+    if (auction.rfq_owner !== userId) {
+      throw new ForbiddenError('Only the buyer can view the auction ledger');
+    }
+
+    return this.getLedgerEntries(auctionId);
+  }
+
+  async closeAuction(auctionId: string): Promise<any> {
+    const existing = await this.getAuctionRecord(auctionId);
+
+    const { auction, standings, bids } = await transaction(async (client) => {
+      const auctionResult = await client.query(
+        `SELECT * FROM rfq_auctions WHERE id = $1 FOR UPDATE`,
+        [auctionId]
+      );
+      const auction = auctionResult.rows[0];
+
+      if (auction.status === 'closed') {
+        throw new ConflictError('Auction has already closed');
+      }
+
+      if (new Date(auction.ends_at) > new Date()) {
+        throw new BusinessLogicError('Auction is still running');
+      }
+
+      const ledger = await client.query(
+        `SELECT business_id, amount, placed_by, placed_at
+         FROM rfq_auction_bids WHERE auction_id = $1`,
+        [auctionId]
+      );
+      const standings = rankAuctionBids(ledger.rows);
+
+      const rfqResult = await client.query(`SELECT * FROM rfqs WHERE id = $1`, [auction.rfq_id]);
+      const bids = await this.bidService.recordAuctionBids(client, rfqResult.rows[0], auctionId, standings);
+
+      const updated = await client.query(
+        `UPDATE rfq_auctions SET
+         status = 'closed',
+         closed_at = NOW(),
+         updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [auctionId]
+      );
+
+      await client.query(
+        `UPDATE rfqs SET
+         status = 'closed',
+         closed_at = NOW(),
+         close_reason = 'Reverse auction closed',
+         updated_at = NOW()
+         WHERE id = $1`,
+        [auction.rfq_id]
+      );
+
+      await recordAuditEvent({
+        entity_type: 'rfq',
+        entity_id: auction.rfq_id,
+        action: 'rfq.auction_closed',
+        user_id: auction.created_by,
+        details: `Reverse auction closed with ${standings.length} bidders`,
+        metadata: {
+          auction_id: auctionId,
+          bid_count: ledger.rows.length,
+          extension_count: auction.extension_count,
+          leading_amount: standings[0]?.best_amount ?? null
+        }
+      }, client);
+
+      return { auction: updated.rows[0], standings, bids };
+    });
+
+    await invalidateRFQCache(auction.rfq_id);
+
+    const participants = await this.invitationService.getPrequalifiedBusinessIds(auction.rfq_id);
+    await publishRealtimeEvents(
+      this.buildUpdates(auction, standings, participants, existing.rfq_owner, 'auction.closed')
+    );
+
+    await sendNotification({
+      type: 'rfq.auction_closed',
+      recipients: [existing.rfq_owner],
+      data: {
+        rfqId: auction.rfq_id,
+        auctionId,
+        rfqTitle: existing.rfq_title,
+        bidderCount: standings.length,
+        leadingAmount: standings[0]?.best_amount ?? null
+      },
+      priority: 'high'
+    });
+
+    return { ...auction, standings, bids };
+  }
+
+  // Runs every minute: opens auctions whose start has passed and closes
+  // those whose (possibly extended) end has passed
+  async processAuctions(): Promise<void> {
+    const started = await query(
+      `UPDATE rfq_auctions SET status = 'live', updated_at = NOW()
+       WHERE status = 'scheduled' AND starts_at <= NOW() AND ends_at > NOW()
+       RETURNING *`
+    );
+
+    for (const auction of started.rows) {
+      const record = await this.getAuctionRecord(auction.id);
+      const participants = await this.invitationService.getPrequalifiedBusinessIds(auction.rfq_id);
+      await publishRealtimeEvents(
+        this.buildUpdates(auction, [], participants, record.rfq_owner, 'auction.started')
+      );
+    }
+
+    const ended = await query(
+      `SELECT id FROM rfq_auctions
+       WHERE status IN ('scheduled', 'live') AND ends_at <= NOW()`
+    );
+
+    for (const { id } of ended.rows) {
+      try {
+        await this.closeAuction(id);
+      } catch (error) {
+        logger.error(`Failed to close auction ${id}:`, error);
+      }
+    }
+  }
+
+  private buildUpdates(
+    auction: any,
+    standings: AuctionStanding[],
+    participants: string[],
+    buyerId: string,
+    event: string
+  ): RealtimeEvent[] {
+    const events: RealtimeEvent[] = participants.map(businessId => ({
+      room: `business:${businessId}`,
+      event,
+      data: this.feedbackFor(auction, standings, businessId)
+    }));
+
+    events.push({
+      room: `user:${buyerId}`,
+      event,
+      data: { ...this.publicView(auction), bidder_count: standings.length, standings }
+    });
+
+    return events;
+  }
+
+  // Bidders always see their own rank; other prices only in price-visible auctions
+  private feedbackFor(auction: any, standings: AuctionStanding[], businessId: string): any {
+    const own = standings.find(s => s.business_id === businessId);
+
+    return {
+      auction_id: auction.id,
+      rfq_id: auction.rfq_id,
+      status: auction.status,
+      ends_at: auction.ends_at,
+      extension_count: auction.extension_count,
+      bidder_count: standings.length,
+      your_rank: own ? own.rank : null,
+      your_best_amount: own ? own.best_amount : null,
+      ...(auction.feedback === 'price_visible'
+        ? { leading_amount: standings[0] ? standings[0].best_amount : null }
+        : {})
+    };
+  }
+
+  private publicView(auction: any): any {
+    const { created_by, rfq_owner, ...view } = auction;
+    return view;
+  }
+
+  private async getLedgerEntries(auctionId: string): Promise<any[]> {
+    const result = await query(
+      `SELECT ab.*, bs.business_name
+       FROM rfq_auction_bids ab
+       LEFT JOIN businesses bs ON ab.business_id = bs.id
+       WHERE ab.auction_id = $1
+       ORDER BY ab.placed_at ASC`,
+      [auctionId]
+    );
+
+    return result.rows;
+  }
+
+  private async getAuctionRecord(auctionId: string): Promise<any> {
+    const result = await query(
+      `SELECT a.*, r.title as rfq_title, r.created_by as rfq_owner
+       FROM rfq_auctions a
+       JOIN rfqs r ON a.rfq_id = r.id
+       WHERE a.id = $1`,
+      [auctionId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Auction not found');
+    }
+
+    return result.rows[0];
+  }
+}
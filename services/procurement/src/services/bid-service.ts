@@ -1,6 +1,12 @@
 import { query, transaction } from '../utils/database';
-import { cacheBid, getCachedBid, trackBidSubmission, checkBidRateLimit } from '../utils/redis';
-import { notifyBidSubmission, notifyBidStatusUpdate } from '../utils/notifications';
+import { cacheBid, getCachedBid, trackBidSubmission, checkBidRateLimit, invalidateCache, invalidateRFQCache } from '../utils/redis';
+import { notifyBidSubmission, notifyBidStatusUpdate, notifyBidsOpened } from '../utils/notifications';
+import { sealContents, unsealContents, unwrapSealingKey } from '../utils/bid-sealing';
+import { recordAuditEvent } from '../utils/audit';
+import { EvaluationService } from './evaluation-service';
+import { AddendumService } from './addendum-service';
+import { BondService, BidSecurityData } from './bond-service';
+import { AuctionStanding } from '../utils/auction-rules';
 import { logger } from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
 import moment from 'moment';
@@ -30,6 +36,7 @@ export interface BidData {
     question: string;
     answer: string;
   }[];
+  bid_security?: BidSecurityData;
 }
 
 export interface BidEvaluation {
@@ -39,6 +46,18 @@ export interface BidEvaluation {
   notes?: string;
 }
 
+export interface BidOpeningWitness {
+  name: string;
+  title?: string;
+  organization?: string;
+  user_id?: string;
+}
+
+export interface BidOpeningData {
+  witnesses: BidOpeningWitness[];
+  notes?: string;
+}
+
 export interface BidFilters {
   rfq_id?: string;
   business_id?: string;
@@ -52,6 +71,10 @@ export interface BidFilters {
 }
 
 export class BidService {
+  private evaluationService = new EvaluationService();
+  private addendumService = new AddendumService();
+  private bondService = new BondService();
+
   async submitBid(bidData: BidData, businessId: string, userId: string): Promise<any> {
     // Check rate limiting
     const canSubmit = await checkBidRateLimit(businessId);
@@ -71,6 +94,10 @@ export class BidService {
 
     const rfq = rfqResult.rows[0];
 
+    if (rfq.bid_mode === 'reverse_auction') {
+      throw new BusinessLogicError('Prices for this RFQ are submitted in its reverse auction');
+    }
+
     // Check if business already submitted a bid
     const existingBid = await query(
       `SELECT id FROM bids WHERE rfq_id = $1 AND business_id = $2 AND status != 'withdrawn'`,
@@ -81,6 +108,8 @@ export class BidService {
       throw new ConflictError('You have already submitted a bid for this RFQ');
     }
 
+    await this.addendumService.assertAddendaAcknowledged(bidData.rfq_id, businessId);
+
     // Check indigenous-only requirement
     if (rfq.indigenous_only) {
       const businessCheck = await query(
@@ -93,63 +122,72 @@ export class BidService {
       }
     }
 
+    this.bondService.assertBidSecurity(rfq, bidData.bid_security);
+
+    const bidId = uuidv4();
+    const escrowDepositId = bidData.bid_security
+      ? await this.bondService.holdBidDeposit(rfq, bidId, businessId, bidData.bid_security)
+      : null;
+
+    try {
+      return await this.insertBid(bidData, rfq, bidId, businessId, userId, escrowDepositId);
+    } catch (error) {
+      if (escrowDepositId) {
+        await this.bondService.releaseUncommittedHold(escrowDepositId, bidId);
+      }
+      throw error;
+    }
+  }
+
+  private async insertBid(
+    bidData: BidData,
+    rfq: any,
+    bidId: string,
+    businessId: string,
+    userId: string,
+    escrowDepositId: string | null
+  ): Promise<any> {
     return transaction(async (client) => {
-      const bidId = uuidv4();
+      // Sealed RFQs keep the whole bid encrypted until the formal opening
+      const sealed = rfq.sealed_bids
+        ? sealContents(bidData, await this.getWrappedSealingKey(bidData.rfq_id))
+        : null;
+      const contents: Partial<BidData> = sealed ? {} : bidData;
       
       // Create main bid record
       const bidResult = await client.query(
         `INSERT INTO bids (
           id, rfq_id, business_id, submitted_by, amount, timeline_days,
-          proposal, methodology, team_info, status, submitted_at, updated_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW())
+          proposal, methodology, team_info, sealed_contents, status,
+          submitted_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW(), NOW())
         RETURNING *`,
         [
-          bidId, bidData.rfq_id, businessId, userId, bidData.amount,
-          bidData.timeline_days, bidData.proposal, bidData.methodology,
-          bidData.team_info, 'submitted'
+          bidId, bidData.rfq_id, businessId, userId, contents.amount,
+          contents.timeline_days, contents.proposal, contents.methodology,
+          contents.team_info, sealed ? JSON.stringify(sealed) : null, 'submitted'
         ]
       );
 
       const bid = bidResult.rows[0];
 
-      // Add references
-      if (bidData.references && bidData.references.length > 0) {
-        for (const ref of bidData.references) {
-          await client.query(
-            `INSERT INTO bid_references (
-              id, bid_id, project_name, client_name, contact_email,
-              completion_date, value, description, created_at
-            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())`,
-            [
-              uuidv4(), bidId, ref.project_name, ref.client_name,
-              ref.contact_email, ref.completion_date, ref.value, ref.description
-            ]
-          );
-        }
-      }
-
-      // Add documents
-      if (bidData.documents && bidData.documents.length > 0) {
-        for (const doc of bidData.documents) {
-          await client.query(
-            `INSERT INTO bid_documents (
-              id, bid_id, name, url, document_type, uploaded_at
-            ) VALUES ($1, $2, $3, $4, $5, NOW())`,
-            [uuidv4(), bidId, doc.name, doc.url, doc.type]
-          );
-        }
+      if (bidData.bid_security) {
+        await this.bondService.recordBidSecurity(
+          client, rfq, bidId, businessId, bidData.bid_security, userId, escrowDepositId
+        );
       }
 
-      // Add question responses
-      if (bidData.questions && bidData.questions.length > 0) {
-        for (const qa of bidData.questions) {
-          await client.query(
-            `INSERT INTO bid_questions (
-              id, bid_id, question, answer, created_at
-            ) VALUES ($1, $2, $3, $4, NOW())`,
-            [uuidv4(), bidId, qa.question, qa.answer]
-          );
-        }
+      if (sealed) {
+        await recordAuditEvent({
+          entity_type: 'bid',
+          entity_id: bidId,
+          action: 'bid.sealed_submission',
+          user_id: userId,
+          details: 'Sealed bid received',
+          metadata: { rfq_id: bidData.rfq_id, content_hash: sealed.content_hash }
+        }, client);
+      } else {
+        await this.insertBidDetails(client, bidId, bidData);
       }
 
       // Update RFQ analytics
@@ -181,6 +219,46 @@ export class BidService {
     });
   }
 
+  // A closed reverse auction's final prices become each business's bid
+  async recordAuctionBids(client: any, rfq: any, auctionId: string, standings: AuctionStanding[]): Promise<any[]> {
+    const bids: any[] = [];
+
+    for (const standing of standings) {
+      const bidResult = await client.query(
+        `INSERT INTO bids (
+          id, rfq_id, business_id, submitted_by, amount, timeline_days,
+          proposal, auction_id, auction_rank, status, submitted_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())
+        RETURNING *`,
+        [
+          uuidv4(), rfq.id, standing.business_id, standing.placed_by, standing.best_amount,
+          rfq.timeline_days, `Final price from reverse auction (rank ${standing.rank})`,
+          auctionId, standing.rank, 'submitted', standing.placed_at
+        ]
+      );
+
+      bids.push(bidResult.rows[0]);
+    }
+
+    await client.query(
+      `UPDATE rfq_analytics 
+       SET bid_count = $2,
+           avg_bid_amount = (
+             SELECT AVG(amount) FROM bids 
+             WHERE rfq_id = $1 AND status != 'withdrawn'
+           ),
+           updated_at = NOW()
+       WHERE rfq_id = $1`,
+      [rfq.id, bids.length]
+    );
+
+    for (const bid of bids) {
+      await trackBidSubmission(rfq.id, bid.id);
+    }
+
+    return bids;
+  }
+
   async getBidById(bidId: string, userId?: string): Promise<any> {
     // Check cache first
     const cached = await getCachedBid(bidId);
@@ -192,6 +270,7 @@ export class BidService {
       `SELECT b.*, 
         bs.business_name, bs.indigenous_owned,
         r.title as rfq_title, r.created_by as rfq_owner,
+        r.sealed_bids, r.bids_opened_at,
         array_agg(DISTINCT json_build_object(
           'id', br.id, 'project_name', br.project_name, 'client_name', br.client_name,
           'contact_email', br.contact_email, 'completion_date', br.completion_date,
@@ -211,7 +290,8 @@ export class BidService {
        LEFT JOIN bid_documents bd ON b.id = bd.bid_id
        LEFT JOIN bid_questions bq ON b.id = bq.bid_id
        WHERE b.id = $1
-       GROUP BY b.id, bs.business_name, bs.indigenous_owned, r.title, r.created_by`,
+       GROUP BY b.id, bs.business_name, bs.indigenous_owned, r.title, r.created_by,
+                r.sealed_bids, r.bids_opened_at`,
       [bidId]
     );
 
@@ -240,7 +320,7 @@ export class BidService {
 
     // Check if RFQ is still open
     const rfqResult = await query(
-      `SELECT status, closing_date FROM rfqs WHERE id = $1`,
+      `SELECT status, closing_date, sealed_bids FROM rfqs WHERE id = $1`,
       [existing.rfq_id]
     );
 
@@ -249,6 +329,12 @@ export class BidService {
       throw new ConflictError('Cannot update bid for closed RFQ');
     }
 
+    if (rfqResult.rows[0].sealed_bids) {
+      throw new ConflictError('Sealed bids cannot be amended. Withdraw and resubmit before closing');
+    }
+
+    await this.addendumService.assertAddendaAcknowledged(existing.rfq_id, existing.business_id);
+
     const allowedFields = [
       'amount', 'timeline_days', 'proposal', 'methodology', 'team_info'
     ];
@@ -334,6 +420,8 @@ export class BidService {
       [existing.rfq_id]
     );
 
+    await this.bondService.releaseBidSecurityOnWithdrawal(bidId, userId);
+
     return result.rows[0];
   }
 
@@ -349,6 +437,16 @@ export class BidService {
       throw new ConflictError('Cannot evaluate withdrawn bid');
     }
 
+    if (bid.sealed_contents && !bid.bids_opened_at) {
+      throw new ConflictError('Sealed bids cannot be evaluated before the bid opening');
+    }
+
+    if (await this.evaluationService.hasMatrix(bid.rfq_id)) {
+      throw new ConflictError(
+        'This RFQ uses a weighted evaluation matrix. Scores must be submitted by the evaluation committee'
+      );
+    }
+
     return transaction(async (client) => {
       // Update bid with evaluation
       const result = await client.query(
@@ -387,11 +485,27 @@ export class BidService {
 
   async getBidsForRFQ(rfqId: string, userId: string, includePrivate: boolean = false): Promise<any[]> {
     // Check if user is RFQ owner or has permission to view all bids
-    const rfqResult = await query(`SELECT created_by FROM rfqs WHERE id = $1`, [rfqId]);
+    const rfqResult = await query(
+      `SELECT created_by, sealed_bids, bids_opened_at FROM rfqs WHERE id = $1`,
+      [rfqId]
+    );
     if (rfqResult.rows.length === 0) {
       throw new NotFoundError('RFQ not found');
     }
 
+    // Until the opening, nobody (owner included) sees more than receipt data
+    if (rfqResult.rows[0].sealed_bids && !rfqResult.rows[0].bids_opened_at) {
+      const sealedResult = await query(
+        `SELECT b.id, b.status, b.submitted_at, b.sealed_contents->>'content_hash' as content_hash
+         FROM bids b
+         WHERE b.rfq_id = $1 AND b.status != 'withdrawn'
+         ORDER BY b.submitted_at ASC`,
+        [rfqId]
+      );
+
+      return sealedResult.rows.map(row => ({ ...row, sealed: true }));
+    }
+
     const isOwner = rfqResult.rows[0].created_by === userId;
     
     let selectFields = `
@@ -495,6 +609,276 @@ export class BidService {
     return result.rows[0];
   }
 
+  async openSealedBids(rfqId: string, opening: BidOpeningData, openedBy: string): Promise<any> {
+    const rfqResult = await query(
+      `SELECT r.*, k.wrapped_key
+       FROM rfqs r
+       LEFT JOIN rfq_sealing_keys k ON r.id = k.rfq_id
+       WHERE r.id = $1 AND r.deleted_at IS NULL`,
+      [rfqId]
+    );
+
+    if (rfqResult.rows.length === 0) {
+      throw new NotFoundError('RFQ not found');
+    }
+
+    const rfq = rfqResult.rows[0];
+
+    if (rfq.created_by !== openedBy) {
+      throw new ForbiddenError('Only RFQ owner can conduct the bid opening');
+    }
+
+    if (!rfq.sealed_bids) {
+      throw new ValidationError('RFQ does not use sealed bidding');
+    }
+
+    if (rfq.bids_opened_at) {
+      throw new ConflictError('Sealed bids have already been opened');
+    }
+
+    const requiredWitnesses = rfq.opening_witnesses_required || 2;
+    const distinctWitnesses = new Set(opening.witnesses.map(w => w.name.trim().toLowerCase()));
+    if (distinctWitnesses.size < requiredWitnesses) {
+      throw new ValidationError(
+        `At least ${requiredWitnesses} distinct witnesses must attend the bid opening`
+      );
+    }
+
+    // Throws until the closing date has passed
+    const dataKey = unwrapSealingKey(rfq.wrapped_key, rfq.closing_date);
+
+    const result = await transaction(async (client) => {
+      // Lock the RFQ so concurrent openings cannot both proceed
+      const lockResult = await client.query(
+        `SELECT bids_opened_at FROM rfqs WHERE id = $1 FOR UPDATE`,
+        [rfqId]
+      );
+      if (lockResult.rows[0].bids_opened_at) {
+        throw new ConflictError('Sealed bids have already been opened');
+      }
+
+      const sealedBids = await client.query(
+        `SELECT id, business_id, sealed_contents FROM bids
+         WHERE rfq_id = $1 AND status != 'withdrawn' AND sealed_contents IS NOT NULL
+         ORDER BY submitted_at ASC`,
+        [rfqId]
+      );
+
+      const openedBids = [];
+      for (const sealedBid of sealedBids.rows) {
+        const contents = unsealContents<BidData>(sealedBid.sealed_contents, dataKey);
+
+        await client.query(
+          `UPDATE bids SET
+           amount = $1,
+           timeline_days = $2,
+           proposal = $3,
+           methodology = $4,
+           team_info = $5,
+           updated_at = NOW()
+           WHERE id = $6`,
+          [
+            contents.amount, contents.timeline_days, contents.proposal,
+            contents.methodology, contents.team_info, sealedBid.id
+          ]
+        );
+
+        await this.insertBidDetails(client, sealedBid.id, contents);
+
+        openedBids.push({
+          bid_id: sealedBid.id,
+          business_id: sealedBid.business_id,
+          amount: contents.amount,
+          content_hash: sealedBid.sealed_contents.content_hash
+        });
+      }
+
+      const openingId = uuidv4();
+      const openingResult = await client.query(
+        `INSERT INTO rfq_bid_openings (
+          id, rfq_id, opened_by, bid_count, notes, opened_at
+        ) VALUES ($1, $2, $3, $4, $5, NOW())
+        RETURNING *`,
+        [openingId, rfqId, openedBy, openedBids.length, opening.notes]
+      );
+
+      for (const witness of opening.witnesses) {
+        await client.query(
+          `INSERT INTO rfq_bid_opening_witnesses (
+            id, opening_id, name, title, organization, user_id, created_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, NOW())`,
+          [uuidv4(), openingId, witness.name, witness.title, witness.organization, witness.user_id]
+        );
+      }
+
+      await client.query(
+        `UPDATE rfqs SET bids_opened_at = NOW(), updated_at = NOW() WHERE id = $1`,
+        [rfqId]
+      );
+
+      await client.query(
+        `UPDATE rfq_analytics 
+         SET avg_bid_amount = (
+           SELECT AVG(amount) FROM bids 
+           WHERE rfq_id = $1 AND status != 'withdrawn'
+         ),
+         updated_at = NOW()
+         WHERE rfq_id = $1`,
+        [rfqId]
+      );
+
+      await recordAuditEvent({
+        entity_type: 'rfq',
+        entity_id: rfqId,
+        action: 'rfq.sealed_bids_opened',
+        user_id: openedBy,
+        details: `${openedBids.length} sealed bids opened before ${opening.witnesses.length} witnesses`,
+        metadata: {
+          opening_id: openingId,
+          witnesses: opening.witnesses,
+          bids: openedBids.map(b => ({ bid_id: b.bid_id, content_hash: b.content_hash }))
+        }
+      }, client);
+
+      return {
+        ...openingResult.rows[0],
+        witnesses: opening.witnesses,
+        bids: openedBids
+      };
+    });
+
+    await invalidateRFQCache(rfqId);
+    for (const openedBid of result.bids) {
+      await invalidateCache(`bid:${openedBid.bid_id}`);
+    }
+
+    await notifyBidsOpened(rfq, result.bids.map((b: any) => b.business_id));
+
+    return result;
+  }
+
+  async getBidOpening(rfqId: string, userId: string): Promise<any> {
+    // The opening names every bidder and amount, so only those who had a
+    // part in it may read it: the RFQ owner, the witnesses and the bidders
+    const access = await query(
+      `SELECT r.created_by = $2 as is_owner,
+        EXISTS (
+          SELECT 1 FROM rfq_bid_openings o
+          JOIN rfq_bid_opening_witnesses w ON o.id = w.opening_id
+          WHERE o.rfq_id = r.id AND w.user_id = $2
+        ) as is_witness,
+        EXISTS (
+          SELECT 1 FROM bids b
+          JOIN user_businesses ub ON b.business_id = ub.business_id AND ub.is_primary = true
+          WHERE b.rfq_id = r.id AND ub.user_id = $2
+        ) as is_bidder
+       FROM rfqs r WHERE r.id = $1`,
+      [rfqId, userId]
+    );
+
+    if (access.rows.length === 0) {
+      throw new NotFoundError('RFQ not found');
+    }
+
+    const { is_owner, is_witness, is_bidder } = access.rows[0];
+    if (!is_owner && !is_witness && !is_bidder) {
+      throw new ForbiddenError('Only the RFQ owner, witnesses and bidders can view the bid opening');
+    }
+
+    const result = await query(
+      `SELECT o.*,
+        array_agg(DISTINCT json_build_object(
+          'name', w.name, 'title', w.title, 'organization', w.organization
+        )) FILTER (WHERE w.id IS NOT NULL) as witnesses
+       FROM rfq_bid_openings o
+       LEFT JOIN rfq_bid_opening_witnesses w ON o.id = w.opening_id
+       WHERE o.rfq_id = $1
+       GROUP BY o.id`,
+      [rfqId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Bid opening not found');
+    }
+
+    const bids = await query(
+      `SELECT b.id, b.amount, b.submitted_at, bs.business_name
+       FROM bids b
+       LEFT JOIN businesses bs ON b.business_id = bs.id
+       WHERE b.rfq_id = $1 AND b.status != 'withdrawn'
+       ORDER BY b.amount ASC`,
+      [rfqId]
+    );
+
+    return { ...result.rows[0], bids: bids.rows };
+  }
+
+  private async assertBidsOpened(rfqId: string): Promise<void> {
+    const result = await query(
+      `SELECT sealed_bids, bids_opened_at FROM rfqs WHERE id = $1`,
+      [rfqId]
+    );
+
+    if (result.rows[0]?.sealed_bids && !result.rows[0].bids_opened_at) {
+      throw new ForbiddenError('Bid contents are sealed until the formal bid opening');
+    }
+  }
+
+  private async getWrappedSealingKey(rfqId: string): Promise<string> {
+    const result = await query(
+      `SELECT wrapped_key FROM rfq_sealing_keys WHERE rfq_id = $1`,
+      [rfqId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new BusinessLogicError('Sealing key missing for sealed RFQ');
+    }
+
+    return result.rows[0].wrapped_key;
+  }
+
+  private async insertBidDetails(client: any, bidId: string, bidData: Partial<BidData>): Promise<void> {
+    // Add references
+    if (bidData.references && bidData.references.length > 0) {
+      for (const ref of bidData.references) {
+        await client.query(
+          `INSERT INTO bid_references (
+            id, bid_id, project_name, client_name, contact_email,
+            completion_date, value, description, created_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())`,
+          [
+            uuidv4(), bidId, ref.project_name, ref.client_name,
+            ref.contact_email, ref.completion_date, ref.value, ref.description
+          ]
+        );
+      }
+    }
+
+    // Add documents
+    if (bidData.documents && bidData.documents.length > 0) {
+      for (const doc of bidData.documents) {
+        await client.query(
+          `INSERT INTO bid_documents (
+            id, bid_id, name, url, document_type, uploaded_at
+          ) VALUES ($1, $2, $3, $4, $5, NOW())`,
+          [uuidv4(), bidId, doc.name, doc.url, doc.type]
+        );
+      }
+    }
+
+    // Add question responses
+    if (bidData.questions && bidData.questions.length > 0) {
+      for (const qa of bidData.questions) {
+        await client.query(
+          `INSERT INTO bid_questions (
+            id, bid_id, question, answer, created_at
+          ) VALUES ($1, $2, $3, $4, NOW())`,
+          [uuidv4(), bidId, qa.question, qa.answer]
+        );
+      }
+    }
+  }
+
   private async getBusinessName(businessId: string): Promise<string> {
     const result = await query(
       `SELECT business_name FROM businesses WHERE id = $1`,
@@ -504,6 +888,8 @@ export class BidService {
   }
 
   async getTopBidsForRFQ(rfqId: string, limit: number = 5): Promise<any[]> {
+    await this.assertBidsOpened(rfqId);
+
     const result = await query(
       `SELECT b.*, bs.business_name, bs.indigenous_owned
        FROM bids b
@@ -522,6 +908,8 @@ export class BidService {
       throw new ValidationError('At least one bid ID is required');
     }
 
+    await this.assertBidsOpened(rfqId);
+
     const placeholders = bidIds.map((_, index) => `$${index + 2}`).join(',');
     
     const result = await query(
@@ -544,10 +932,44 @@ export class BidService {
       [rfqId, ...bidIds]
     );
 
+    if (!(await this.evaluationService.hasMatrix(rfqId))) {
+      return {
+        rfq_id: rfqId,
+        compared_at: new Date(),
+        bids: result.rows
+      };
+    }
+
+    // Rank against the whole field, then keep only the requested bids
+    const { criteria, rankings } = await this.evaluationService.computeRanking(rfqId);
+    const bidsById = new Map(result.rows.map(row => [row.id, row]));
+
     return {
       rfq_id: rfqId,
       compared_at: new Date(),
-      bids: result.rows
+      criteria,
+      bids: rankings
+        .filter(ranking => bidsById.has(ranking.bid_id))
+        .map(ranking => {
+          const { score, ...bid } = bidsById.get(ranking.bid_id);
+          return {
+            ...bid,
+            rank: ranking.rank,
+            weighted_score: ranking.total_score,
+            complete: ranking.complete,
+            disqualified: ranking.disqualified,
+            disqualification_reasons: ranking.disqualification_reasons,
+            criteria_breakdown: ranking.criteria.map(c => ({
+              key: c.key,
+              name: c.name,
+              weight: c.weight,
+              max_points: c.max_points,
+              consensus_points: c.consensus_points,
+              weighted_score: c.weighted_score,
+              passed: c.passed
+            }))
+          };
+        })
     };
   }
 }
\ No newline at end of file
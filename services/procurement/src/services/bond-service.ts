@@ -0,0 +1,559 @@
+import { query, transaction } from '../utils/database';
+import { sendNotification } from '../utils/notifications';
+import { recordAuditEvent } from '../utils/audit';
+import { holdSecurityDeposit, releaseSecurityDeposit, forfeitSecurityDeposit } from '../utils/escrow';
+import { isBusinessOwner, getBusinessOwnerId } from '../utils/contract-parties';
+import {
+  bidSecurityExpiry,
+  bidSecurityProblem,
+  bidSecurityReleasesOnAward,
+  outstandingContractBonds,
+  requiredBondAmount,
+  requiresEscrowHold,
+  RELEASABLE_STATUSES,
+  SecurityType
+} from '../utils/bid-security-rules';
+import { logger } from '../utils/logger';
+import { v4 as uuidv4 } from 'uuid';
+import moment from 'moment';
+import { NotFoundError, ConflictError, ValidationError, ForbiddenError, BusinessLogicError } from '../middleware/error-handler';
+
+export interface BidSecurityData {
+  type: 'bid_bond' | 'deposit';
+  amount: number;
+  // Bid bonds
+  surety_name?: string;
+  bond_number?: string;
+  expiry_date?: Date;
+  document_url?: string;
+  // Deposits: reference of the payment funding the escrow hold
+  payment_reference?: string;
+}
+
+export interface ContractBondData {
+  bond_type: 'performance' | 'labour_material';
+  surety_name: string;
+  bond_number: string;
+  amount: number;
+  effective_date: Date;
+  expiry_date: Date;
+  document_url?: string;
+}
+
+export class BondService {
+  assertBidSecurity(rfq: any, security?: BidSecurityData): void {
+    if (!rfq.bid_security_type || rfq.bid_security_type === 'none') {
+      return;
+    }
+
+    if (!security) {
+      throw new BusinessLogicError('This RFQ requires bid security', {
+        bid_security_type: rfq.bid_security_type,
+        bid_security_amount: rfq.bid_security_amount
+      });
+    }
+
+    const problem = bidSecurityProblem(rfq, security);
+    if (problem) {
+      throw new ValidationError(problem);
+    }
+  }
+
+  // Deposits go into the payments service escrow before the bid transaction
+  // opens, keyed on the bid id so a retried hold returns the same deposit.
+  // Bid bonds need no hold
+  async holdBidDeposit(rfq: any, bidId: string, businessId: string, security: BidSecurityData): Promise<string | null> {
+    if (!requiresEscrowHold(security)) {
+      return null;
+    }
+
+    return holdSecurityDeposit({
+      rfqId: rfq.id,
+      bidId,
+      businessId,
+      amount: security.amount,
+      paymentReference: security.payment_reference!,
+      expiryDate: bidSecurityExpiry(rfq.closing_date, security)
+    });
+  }
+
+  // The bid transaction rolled back after the deposit was held: no security
+  // row references the hold, so give it back now
+  async releaseUncommittedHold(depositId: string, bidId: string): Promise<void> {
+    try {
+      await releaseSecurityDeposit(depositId, 'Bid submission did not complete');
+    } catch (error) {
+      logger.error(`Security deposit ${depositId} for uncommitted bid ${bidId} is still held in escrow:`, error);
+    }
+  }
+
+  // Runs inside the bid submission transaction, after any deposit is held
+  async recordBidSecurity(
+    client: any,
+    rfq: any,
+    bidId: string,
+    businessId: string,
+    security: BidSecurityData,
+    userId: string,
+    escrowDepositId: string | null
+  ): Promise<any> {
+    const isDeposit = security.type === 'deposit';
+    const expiryDate = bidSecurityExpiry(rfq.closing_date, security);
+
+    const result = await client.query(
+      `INSERT INTO procurement_securities (
+        id, security_type, rfq_id, bid_id, business_id, surety_name,
+        bond_number, amount, expiry_date, document_url, payment_reference,
+        escrow_deposit_id, status, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW(), NOW())
+      RETURNING *`,
+      [
+        uuidv4(), isDeposit ? 'bid_deposit' : 'bid_bond', rfq.id, bidId, businessId,
+        security.surety_name, security.bond_number, security.amount, expiryDate,
+        security.document_url, security.payment_reference, escrowDepositId, 'held'
+      ]
+    );
+
+    await this.recordEvent(client, result.rows[0], 'received', userId);
+
+    return result.rows[0];
+  }
+
+  async releaseBidSecurityOnAward(rfqId: string, contract: any): Promise<void> {
+    const result = await query(
+      `SELECT * FROM procurement_securities
+       WHERE rfq_id = $1 AND security_type IN ('bid_bond', 'bid_deposit')
+       AND status IN ('held', 'release_failed')`,
+      [rfqId]
+    );
+
+    const releases = bidSecurityReleasesOnAward(
+      result.rows,
+      contract.winning_bid_id,
+      await this.hasOutstandingContractBonds(contract)
+    );
+
+    for (const { security, reason } of releases) {
+      await this.release(security, reason, contract.awarded_by);
+    }
+  }
+
+  async releaseBidSecurityOnWithdrawal(bidId: string, userId: string): Promise<void> {
+    const result = await query(
+      `SELECT * FROM procurement_securities
+       WHERE bid_id = $1 AND status IN ('held', 'release_failed')`,
+      [bidId]
+    );
+
+    for (const security of result.rows) {
+      await this.release(security, 'Bid withdrawn before closing', userId);
+    }
+  }
+
+  async submitContractBond(contractId: string, bond: ContractBondData, userId: string): Promise<any> {
+    const contract = await this.getContract(contractId);
+
+    if (!(await isBusinessOwner(contract.business_id, userId))) {
+      throw new ForbiddenError('Only the contracted business can submit contract bonds');
+    }
+
+    if (['completed', 'terminated', 'cancelled'].includes(contract.status)) {
+      throw new ConflictError('Cannot add bonds to a closed contract');
+    }
+
+    const required = requiredBondAmount(contract, bond.bond_type);
+    if (bond.amount < required) {
+      throw new ValidationError(`The ${bond.bond_type.replace('_', ' and ')} bond must be at least ${required}`);
+    }
+
+    if (moment(bond.expiry_date).isBefore(moment(contract.end_date))) {
+      throw new ValidationError('Contract bonds must remain valid until the contract end date');
+    }
+
+    const securityType: SecurityType = bond.bond_type === 'performance'
+      ? 'performance_bond'
+      : 'labour_material_bond';
+
+    const created = await transaction(async (client) => {
+      // A replacement bond supersedes the one it replaces
+      const superseded = await client.query(
+        `UPDATE procurement_securities SET status = 'superseded', updated_at = NOW()
+         WHERE contract_id = $1 AND security_type = $2 AND status = 'held'
+         RETURNING *`,
+        [contractId, securityType]
+      );
+
+      for (const previous of superseded.rows) {
+        await this.recordEvent(client, previous, 'superseded', userId);
+      }
+
+      const result = await client.query(
+        `INSERT INTO procurement_securities (
+          id, security_type, rfq_id, contract_id, business_id, surety_name,
+          bond_number, amount, effective_date, expiry_date, document_url,
+          status, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW(), NOW())
+        RETURNING *`,
+        [
+          uuidv4(), securityType, contract.rfq_id, contractId, contract.business_id,
+          bond.surety_name, bond.bond_number, bond.amount, bond.effective_date,
+          bond.expiry_date, bond.document_url, 'held'
+        ]
+      );
+
+      await this.recordEvent(client, result.rows[0], 'received', userId);
+
+      return result.rows[0];
+    });
+
+    await sendNotification({
+      type: 'contract.bond_submitted',
+      recipients: [contract.awarded_by],
+      data: {
+        contractId,
+        bondType: bond.bond_type,
+        suretyName: bond.surety_name,
+        amount: bond.amount,
+        expiryDate: bond.expiry_date
+      },
+      priority: 'normal'
+    });
+
+    if (!(await this.hasOutstandingContractBonds(contract))) {
+      await this.releaseWinningBidSecurity(contract);
+    }
+
+    return created;
+  }
+
+  async assertContractBondsInPlace(contract: any): Promise<void> {
+    const missing = await this.getOutstandingContractBonds(contract);
+    if (missing.length > 0) {
+      throw new BusinessLogicError('Required contract bonds have not been provided', {
+        missing_bonds: missing
+      });
+    }
+  }
+
+  async getBidSecurities(rfqId: string, userId: string): Promise<any[]> {
+    const rfqResult = await query(`SELECT created_by FROM rfqs WHERE id = $1`, [rfqId]);
+    if (rfqResult.rows.length === 0) {
+      throw new NotFoundError('RFQ not found');
+    }
+
+    if (rfqResult.rows[0].created_by !== userId) {
+      throw new ForbiddenError('Only RFQ owner can view bid security');
+    }
+
+    return this.getSecuritiesWithEvents(
+      `s.rfq_id = $1 AND s.security_type IN ('bid_bond', 'bid_deposit')`,
+      [rfqId]
+    );
+  }
+
+  async getContractBonds(contractId: string, userId: string): Promise<any> {
+    const contract = await this.getContract(contractId);
+
+    if (contract.awarded_by !== userId && !(await isBusinessOwner(contract.business_id, userId))) {
+      throw new ForbiddenError('Only contract parties can view contract bonds');
+    }
+
+    const bonds = await this.getSecuritiesWithEvents(
+      `s.contract_id = $1`,
+      [contractId]
+    );
+
+    return {
+      contract_id: contractId,
+      required: {
+        performance_bond: contract.performance_bond_required
+          ? requiredBondAmount(contract, 'performance')
+          : null,
+        labour_material_bond: contract.labour_material_bond_required
+          ? requiredBondAmount(contract, 'labour_material')
+          : null
+      },
+      outstanding: await this.getOutstandingContractBonds(contract),
+      bonds
+    };
+  }
+
+  // Buyer-initiated release, e.g. at contract completion or once the
+  // warranty period on a performance bond has run out
+  async releaseSecurity(securityId: string, reason: string, userId: string): Promise<any> {
+    const security = await this.getSecurityForBuyer(securityId, userId);
+
+    if (!RELEASABLE_STATUSES.includes(security.status)) {
+      throw new ConflictError(`Security is already ${security.status}`);
+    }
+
+    if (!(await this.release(security, reason, userId))) {
+      throw new BusinessLogicError('Escrow release failed; it will be retried automatically');
+    }
+
+    return this.getSecurity(securityId);
+  }
+
+  async forfeitSecurity(securityId: string, reason: string, userId: string): Promise<any> {
+    const security = await this.getSecurityForBuyer(securityId, userId);
+
+    if (security.status !== 'held') {
+      throw new ConflictError(`Security is already ${security.status}`);
+    }
+
+    // Deposits are paid out to the buyer by escrow; bonds become a claim
+    // against the surety
+    if (security.escrow_deposit_id) {
+      await forfeitSecurityDeposit(security.escrow_deposit_id, reason, userId);
+    }
+
+    await transaction(async (client) => {
+      await client.query(
+        `UPDATE procurement_securities SET status = 'forfeited', updated_at = NOW()
+         WHERE id = $1`,
+        [securityId]
+      );
+
+      await this.recordEvent(client, security, 'forfeited', userId, reason);
+    });
+
+    await sendNotification({
+      type: 'procurement.security_forfeited',
+      recipients: [await getBusinessOwnerId(security.business_id)],
+      data: {
+        securityId,
+        securityType: security.security_type,
+        amount: security.amount,
+        suretyName: security.surety_name,
+        reason
+      },
+      priority: 'high'
+    });
+
+    return this.getSecurity(securityId);
+  }
+
+  // Daily sweep: retries escrow releases that failed and lapses expired bonds
+  async processSecurityLifecycle(): Promise<void> {
+    const failed = await query(
+      `SELECT * FROM procurement_securities WHERE status = 'release_failed'`,
+      []
+    );
+
+    for (const security of failed.rows) {
+      await this.release(security, security.pending_release_reason || 'Retrying release', 'system');
+    }
+
+    const expired = await query(
+      `SELECT s.*, COALESCE(c.awarded_by, r.created_by) as buyer_id
+       FROM procurement_securities s
+       LEFT JOIN contracts c ON s.contract_id = c.id
+       LEFT JOIN rfqs r ON s.rfq_id = r.id
+       WHERE s.status = 'held' AND s.escrow_deposit_id IS NULL
+       AND s.expiry_date < NOW()`,
+      []
+    );
+
+    for (const security of expired.rows) {
+      await transaction(async (client) => {
+        await client.query(
+          `UPDATE procurement_securities SET status = 'expired', updated_at = NOW() WHERE id = $1`,
+          [security.id]
+        );
+        await this.recordEvent(client, security, 'expired', 'system');
+      });
+
+      await sendNotification({
+        type: 'procurement.security_expired',
+        recipients: [security.buyer_id, await getBusinessOwnerId(security.business_id)],
+        data: {
+          securityId: security.id,
+          securityType: security.security_type,
+          contractId: security.contract_id,
+          suretyName: security.surety_name,
+          bondNumber: security.bond_number,
+          expiryDate: security.expiry_date
+        },
+        priority: 'high'
+      });
+    }
+
+    if (expired.rows.length > 0) {
+      logger.info(`Marked ${expired.rows.length} bonds as expired`);
+    }
+  }
+
+  // Returns false when escrow could not release the deposit; the security
+  // is then left as release_failed for the lifecycle sweep to retry
+  private async release(security: any, reason: string, userId: string): Promise<boolean> {
+    if (security.escrow_deposit_id) {
+      try {
+        await releaseSecurityDeposit(security.escrow_deposit_id, reason);
+      } catch (error) {
+        await query(
+          `UPDATE procurement_securities SET
+           status = 'release_failed',
+           pending_release_reason = $1,
+           updated_at = NOW()
+           WHERE id = $2`,
+          [reason, security.id]
+        );
+        if (security.status !== 'release_failed') {
+          await this.recordEvent(null, security, 'release_failed', userId, reason);
+        }
+        return false;
+      }
+    }
+
+    await transaction(async (client) => {
+      await client.query(
+        `UPDATE procurement_securities SET
+         status = 'released',
+         pending_release_reason = NULL,
+         updated_at = NOW()
+         WHERE id = $1`,
+        [security.id]
+      );
+
+      await this.recordEvent(client, security, 'released', userId, reason);
+    });
+
+    await sendNotification({
+      type: 'procurement.security_released',
+      recipients: [await getBusinessOwnerId(security.business_id)],
+      data: {
+        securityId: security.id,
+        securityType: security.security_type,
+        amount: security.amount,
+        reason
+      },
+      priority: 'normal'
+    });
+
+    return true;
+  }
+
+  private async releaseWinningBidSecurity(contract: any): Promise<void> {
+    const result = await query(
+      `SELECT * FROM procurement_securities
+       WHERE bid_id = $1 AND status IN ('held', 'release_failed')`,
+      [contract.winning_bid_id]
+    );
+
+    for (const security of result.rows) {
+      await this.release(security, 'Contract security in place', contract.awarded_by);
+    }
+  }
+
+  private async hasOutstandingContractBonds(contract: any): Promise<boolean> {
+    return (await this.getOutstandingContractBonds(contract)).length > 0;
+  }
+
+  private async getOutstandingContractBonds(contract: any): Promise<string[]> {
+    if (outstandingContractBonds(contract, []).length === 0) {
+      return [];
+    }
+
+    const result = await query(
+      `SELECT DISTINCT security_type FROM procurement_securities
+       WHERE contract_id = $1 AND status = 'held'`,
+      [contract.id]
+    );
+
+    return outstandingContractBonds(contract, result.rows.map(row => row.security_type));
+  }
+
+  private async recordEvent(
+    client: any,
+    security: any,
+    event: string,
+    userId: string,
+    reason?: string
+  ): Promise<void> {
+    const sql = `INSERT INTO procurement_security_events (
+        id, security_id, event, actor_id, reason, created_at
+      ) VALUES ($1, $2, $3, $4, $5, NOW())`;
+    const params = [uuidv4(), security.id, event, userId, reason];
+
+    if (client) {
+      await client.query(sql, params);
+    } else {
+      await query(sql, params);
+    }
+
+    await recordAuditEvent({
+      entity_type: security.contract_id ? 'contract' : 'bid',
+      entity_id: security.contract_id || security.bid_id,
+      action: `security.${event}`,
+      user_id: userId,
+      details: reason,
+      metadata: {
+        security_id: security.id,
+        security_type: security.security_type,
+        amount: security.amount
+      }
+    }, client || undefined);
+  }
+
+  private async getSecuritiesWithEvents(where: string, params: any[]): Promise<any[]> {
+    const result = await query(
+      `SELECT s.*, bs.business_name,
+        (SELECT json_agg(e ORDER BY e.created_at)
+         FROM procurement_security_events e WHERE e.security_id = s.id) as events
+       FROM procurement_securities s
+       LEFT JOIN businesses bs ON s.business_id = bs.id
+       WHERE ${where}
+       ORDER BY s.created_at ASC`,
+      params
+    );
+
+    return result.rows;
+  }
+
+  private async getSecurity(securityId: string): Promise<any> {
+    const result = await query(`SELECT * FROM procurement_securities WHERE id = $1`, [securityId]);
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Security not found');
+    }
+
+    return result.rows[0];
+  }
+
+  private async getSecurityForBuyer(securityId: string, userId: string): Promise<any> {
+    const result = await query(
+      `SELECT s.*, COALESCE(c.awarded_by, r.created_by) as buyer_id
+       FROM procurement_securities s
+       LEFT JOIN contracts c ON s.contract_id = c.id
+       LEFT JOIN rfqs r ON s.rfq_id = r.id
+       WHERE s.id = $1`,
+      [securityId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Security not found');
+    }
+
+    if (result.rows[0].buyer_id !== userId) {
+      throw new ForbiddenError('Only the buyer can release or forfeit security');
+    }
+
+    return result.rows[0];
+  }
+
+  private async getContract(contractId: string): Promise<any> {
+    const result = await query(
+      `SELECT id, rfq_id, winning_bid_id, awarded_by, business_id, contract_value,
+        end_date, status, performance_bond_required, performance_bond_percentage,
+        labour_material_bond_required, labour_material_bond_percentage
+       FROM contracts WHERE id = $1`,
+      [contractId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Contract not found');
+    }
+
+    return result.rows[0];
+  }
+}
@@ -0,0 +1,291 @@
+import { query, transaction } from '../utils/database';
+import { sendNotification } from '../utils/notifications';
+import { recordAuditEvent, getAuditTrail } from '../utils/audit';
+import { isBusinessOwner, getBusinessOwnerId } from '../utils/contract-parties';
+import { changeOrderProblem, newContractValue } from '../utils/change-order-rules';
+import { v4 as uuidv4 } from 'uuid';
+import { NotFoundError, ConflictError, ValidationError, ForbiddenError } from '../middleware/error-handler';
+
+export interface ChangeOrderData {
+  title: string;
+  reason: string;
+  value_change?: number;
+  new_end_date?: Date;
+}
+
+export class ChangeOrderService {
+  async requestChangeOrder(contractId: string, changeOrder: ChangeOrderData, userId: string): Promise<any> {
+    const contract = await this.getContract(contractId);
+    const party = await this.getParty(contract, userId);
+
+    if (['completed', 'terminated', 'cancelled'].includes(contract.status)) {
+      throw new ConflictError('Cannot change a closed contract');
+    }
+
+    const problem = changeOrderProblem(contract, changeOrder);
+    if (problem) {
+      throw new ValidationError(problem);
+    }
+
+    return transaction(async (client) => {
+      const numberResult = await client.query(
+        `SELECT COALESCE(MAX(change_order_number), 0) + 1 as next_number
+         FROM contract_change_orders WHERE contract_id = $1`,
+        [contractId]
+      );
+
+      const result = await client.query(
+        `INSERT INTO contract_change_orders (
+          id, contract_id, change_order_number, title, reason, value_change,
+          new_end_date, requested_by, requested_by_party, status, requested_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+        RETURNING *`,
+        [
+          uuidv4(), contractId, numberResult.rows[0].next_number, changeOrder.title,
+          changeOrder.reason, changeOrder.value_change || 0, changeOrder.new_end_date,
+          userId, party, 'pending'
+        ]
+      );
+
+      await recordAuditEvent({
+        entity_type: 'contract',
+        entity_id: contractId,
+        action: 'contract.change_order_requested',
+        user_id: userId,
+        metadata: { change_order_id: result.rows[0].id, ...changeOrder }
+      }, client);
+
+      // The counterparty decides
+      const approver = party === 'buyer'
+        ? await getBusinessOwnerId(contract.business_id)
+        : contract.awarded_by;
+
+      await sendNotification({
+        type: 'contract.change_order_requested',
+        recipients: [approver],
+        data: {
+          contractId,
+          changeOrderId: result.rows[0].id,
+          changeOrderNumber: result.rows[0].change_order_number,
+          title: changeOrder.title,
+          valueChange: changeOrder.value_change,
+          newEndDate: changeOrder.new_end_date
+        },
+        priority: 'high'
+      });
+
+      return result.rows[0];
+    });
+  }
+
+  async decideChangeOrder(
+    contractId: string,
+    changeOrderId: string,
+    decision: 'approved' | 'rejected',
+    userId: string,
+    notes?: string
+  ): Promise<any> {
+    const contract = await this.getContract(contractId);
+    const party = await this.getParty(contract, userId);
+    const changeOrder = await this.getChangeOrder(contractId, changeOrderId);
+
+    if (changeOrder.status !== 'pending') {
+      throw new ConflictError(`Change order is already ${changeOrder.status}`);
+    }
+
+    if (changeOrder.requested_by_party === party) {
+      throw new ForbiddenError('Change orders must be decided by the other contract party');
+    }
+
+    return transaction(async (client) => {
+      // Lock the contract so concurrent approvals apply against current values
+      const current = await client.query(
+        `SELECT contract_value, start_date, end_date FROM contracts WHERE id = $1 FOR UPDATE`,
+        [contractId]
+      );
+      const previousValue = parseFloat(current.rows[0].contract_value);
+      const previousEndDate = current.rows[0].end_date;
+      const newValue = newContractValue(previousValue, changeOrder.value_change);
+
+      // Other change orders may have been approved since this one was requested
+      if (decision === 'approved') {
+        const problem = changeOrderProblem(current.rows[0], changeOrder);
+        if (problem) {
+          throw new ConflictError(problem);
+        }
+      }
+
+      const result = await client.query(
+        `UPDATE contract_change_orders SET
+         status = $1,
+         decided_by = $2,
+         decision_notes = $3,
+         previous_value = $4,
+         previous_end_date = $5,
+         decided_at = NOW()
+         WHERE id = $6 AND status = 'pending'
+         RETURNING *`,
+        [decision, userId, notes, previousValue, previousEndDate, changeOrderId]
+      );
+
+      if (result.rows.length === 0) {
+        throw new ConflictError('Change order has already been decided');
+      }
+
+      if (decision === 'approved') {
+        await client.query(
+          `UPDATE contracts SET
+           contract_value = $1,
+           end_date = COALESCE($2, end_date),
+           updated_at = NOW()
+           WHERE id = $3`,
+          [newValue, changeOrder.new_end_date, contractId]
+        );
+
+        // Milestones still to be paid follow the new contract value
+        await client.query(
+          `UPDATE contract_milestones m SET
+           amount = ROUND($1 * m.payment_percentage / 100, 2),
+           updated_at = NOW()
+           WHERE m.contract_id = $2
+           AND NOT EXISTS (
+             SELECT 1 FROM contract_payments cp
+             WHERE cp.id = m.payment_id AND cp.status = 'paid'
+           )`,
+          [newValue, contractId]
+        );
+      }
+
+      await recordAuditEvent({
+        entity_type: 'contract',
+        entity_id: contractId,
+        action: `contract.change_order_${decision}`,
+        user_id: userId,
+        details: notes,
+        metadata: {
+          change_order_id: changeOrderId,
+          previous_value: previousValue,
+          new_value: decision === 'approved' ? newValue : previousValue,
+          previous_end_date: previousEndDate,
+          new_end_date: decision === 'approved'
+            ? changeOrder.new_end_date || previousEndDate
+            : previousEndDate
+        }
+      }, client);
+
+      await sendNotification({
+        type: `contract.change_order_${decision}`,
+        recipients: [changeOrder.requested_by],
+        data: {
+          contractId,
+          changeOrderId,
+          changeOrderNumber: changeOrder.change_order_number,
+          notes
+        },
+        priority: 'high'
+      });
+
+      return result.rows[0];
+    });
+  }
+
+  async withdrawChangeOrder(contractId: string, changeOrderId: string, userId: string): Promise<any> {
+    const changeOrder = await this.getChangeOrder(contractId, changeOrderId);
+
+    if (changeOrder.requested_by !== userId) {
+      throw new ForbiddenError('Only the requester can withdraw a change order');
+    }
+
+    if (changeOrder.status !== 'pending') {
+      throw new ConflictError(`Change order is already ${changeOrder.status}`);
+    }
+
+    const result = await query(
+      `UPDATE contract_change_orders SET status = 'withdrawn', decided_at = NOW()
+       WHERE id = $1 AND status = 'pending'
+       RETURNING *`,
+      [changeOrderId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new ConflictError('Change order has already been decided');
+    }
+
+    await recordAuditEvent({
+      entity_type: 'contract',
+      entity_id: contractId,
+      action: 'contract.change_order_withdrawn',
+      user_id: userId,
+      metadata: { change_order_id: changeOrderId }
+    });
+
+    return result.rows[0];
+  }
+
+  async getChangeOrders(contractId: string, userId: string): Promise<any> {
+    const contract = await this.getContract(contractId);
+    await this.getParty(contract, userId);
+
+    const result = await query(
+      `SELECT * FROM contract_change_orders
+       WHERE contract_id = $1
+       ORDER BY change_order_number ASC`,
+      [contractId]
+    );
+
+    const history = await getAuditTrail('contract', contractId);
+
+    return {
+      contract_id: contractId,
+      original_value: contract.original_value ?? contract.contract_value,
+      current_value: contract.contract_value,
+      current_end_date: contract.end_date,
+      change_orders: result.rows,
+      history: history.filter(event => event.action.startsWith('contract.change_order_'))
+    };
+  }
+
+  private async getParty(contract: any, userId: string): Promise<'buyer' | 'supplier'> {
+    if (contract.awarded_by === userId) {
+      return 'buyer';
+    }
+
+    if (await isBusinessOwner(contract.business_id, userId)) {
+      return 'supplier';
+    }
+
+    throw new ForbiddenError('Only contract parties can manage change orders');
+  }
+
+  private async getContract(contractId: string): Promise<any> {
+    const result = await query(
+      `SELECT c.id, c.awarded_by, c.business_id, c.contract_value, c.start_date,
+        c.end_date, c.status,
+        c.contract_value - COALESCE((
+          SELECT SUM(value_change) FROM contract_change_orders
+          WHERE contract_id = c.id AND status = 'approved'
+        ), 0) as original_value
+       FROM contracts c WHERE c.id = $1`,
+      [contractId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Contract not found');
+    }
+
+    return result.rows[0];
+  }
+
+  private async getChangeOrder(contractId: string, changeOrderId: string): Promise<any> {
+    const result = await query(
+      `SELECT * FROM contract_change_orders WHERE id = $1 AND contract_id = $2`,
+      [changeOrderId, contractId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Change order not found');
+    }
+
+    return result.rows[0];
+  }
+}
@@ -0,0 +1,261 @@
+import { query, transaction } from '../utils/database';
+import { invalidateRFQCache } from '../utils/redis';
+import { notifyQuestionSubmitted, notifyClarificationPublished, sendNotification } from '../utils/notifications';
+import { recordAuditEvent } from '../utils/audit';
+import { applyClosingExtension } from '../utils/addendum-rules';
+import { AddendumService } from './addendum-service';
+import { v4 as uuidv4 } from 'uuid';
+import moment from 'moment';
+import { NotFoundError, ConflictError, ForbiddenError, BusinessLogicError } from '../middleware/error-handler';
+
+export interface QuestionData {
+  question: string;
+  reference_section?: string;
+}
+
+export interface AnswerData {
+  answer: string;
+  // Buyer-edited wording of the question, stripped of anything identifying the asker
+  public_question?: string;
+  publish?: boolean;
+  include_in_addendum?: boolean;
+}
+
+// Questions close this long before bids do unless the RFQ sets its own cut-off
+export const DEFAULT_QUESTION_CUTOFF_DAYS = 3;
+
+export class ClarificationService {
+  private addendumService = new AddendumService();
+
+  async submitQuestion(
+    rfqId: string,
+    questionData: QuestionData,
+    businessId: string,
+    userId: string
+  ): Promise<any> {
+    const rfq = await this.getRFQ(rfqId);
+
+    if (rfq.status !== 'open') {
+      throw new ConflictError('Questions can only be asked on open RFQs');
+    }
+
+    if (moment().isAfter(this.getQuestionCutoff(rfq))) {
+      throw new BusinessLogicError('The question period for this RFQ has closed');
+    }
+
+    const result = await query(
+      `INSERT INTO rfq_clarification_questions (
+        id, rfq_id, business_id, asked_by, question, reference_section,
+        status, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+      RETURNING *`,
+      [
+        uuidv4(), rfqId, businessId, userId, questionData.question,
+        questionData.reference_section, 'pending'
+      ]
+    );
+
+    await notifyQuestionSubmitted(rfq, result.rows[0]);
+
+    return result.rows[0];
+  }
+
+  async answerQuestion(questionId: string, answerData: AnswerData, userId: string): Promise<any> {
+    const questionResult = await query(
+      `SELECT q.*, r.created_by as rfq_owner
+       FROM rfq_clarification_questions q
+       JOIN rfqs r ON q.rfq_id = r.id
+       WHERE q.id = $1`,
+      [questionId]
+    );
+
+    if (questionResult.rows.length === 0) {
+      throw new NotFoundError('Question not found');
+    }
+
+    const question = questionResult.rows[0];
+
+    if (question.rfq_owner !== userId) {
+      throw new ForbiddenError('Only RFQ owner can answer questions');
+    }
+
+    if (question.status !== 'pending') {
+      throw new ConflictError('Question has already been answered');
+    }
+
+    const publish = answerData.publish !== false;
+    const rfq = await this.getRFQ(question.rfq_id);
+
+    const { answered, addendum } = await transaction(async (client) => {
+      // Lock the RFQ so concurrent answers get distinct clarification
+      // numbers and versions
+      const lockedRFQ = await client.query(
+        `SELECT closing_date FROM rfqs WHERE id = $1 FOR UPDATE`,
+        [question.rfq_id]
+      );
+
+      let clarificationNumber = null;
+      if (publish) {
+        const numberResult = await client.query(
+          `SELECT COALESCE(MAX(clarification_number), 0) + 1 as next_number
+           FROM rfq_clarification_questions WHERE rfq_id = $1`,
+          [question.rfq_id]
+        );
+        clarificationNumber = numberResult.rows[0].next_number;
+      }
+
+      const result = await client.query(
+        `UPDATE rfq_clarification_questions SET
+         answer = $1,
+         public_question = $2,
+         status = $3,
+         clarification_number = $4,
+         answered_by = $5,
+         answered_at = NOW(),
+         published_at = CASE WHEN $3 = 'published' THEN NOW() ELSE NULL END,
+         updated_at = NOW()
+         WHERE id = $6 AND status = 'pending'
+         RETURNING *`,
+        [
+          answerData.answer,
+          publish ? (answerData.public_question || question.question) : null,
+          publish ? 'published' : 'answered',
+          clarificationNumber,
+          userId,
+          questionId
+        ]
+      );
+
+      if (result.rows.length === 0) {
+        throw new ConflictError('Question has already been answered');
+      }
+
+      let addendum = null;
+      if (publish && answerData.include_in_addendum) {
+        // Bidders must acknowledge the addendum, so a late one extends
+        // closing the same way any other RFQ change does
+        const changes = applyClosingExtension([{
+          field: 'clarification',
+          from: null,
+          to: { question: result.rows[0].public_question, answer: answerData.answer }
+        }], lockedRFQ.rows[0].closing_date);
+        const closingChange = changes.find(c => c.field === 'closing_date');
+
+        const versionResult = await client.query(
+          `UPDATE rfqs SET current_version = COALESCE(current_version, 1) + 1,
+           closing_date = COALESCE($2, closing_date), updated_at = NOW()
+           WHERE id = $1
+           RETURNING current_version`,
+          [question.rfq_id, closingChange ? closingChange.to : null]
+        );
+
+        addendum = await this.addendumService.recordAddendum(client, {
+          rfq_id: question.rfq_id,
+          version: versionResult.rows[0].current_version,
+          summary: `Clarification ${clarificationNumber}`,
+          changes,
+          issued_by: userId
+        });
+
+        await client.query(
+          `UPDATE rfq_clarification_questions SET addendum_id = $1 WHERE id = $2`,
+          [addendum.id, questionId]
+        );
+      }
+
+      await recordAuditEvent({
+        entity_type: 'rfq',
+        entity_id: question.rfq_id,
+        action: publish ? 'rfq.clarification_published' : 'rfq.question_answered',
+        user_id: userId,
+        metadata: { question_id: questionId, addendum_id: addendum?.id }
+      }, client);
+
+      return { answered: result.rows[0], addendum };
+    });
+
+    if (addendum) {
+      await invalidateRFQCache(question.rfq_id);
+      await this.addendumService.notifyAffectedBusinesses(rfq, addendum);
+    } else if (publish) {
+      const businessIds = await this.addendumService.getProspectiveBidderIds(question.rfq_id);
+      if (!businessIds.includes(question.business_id)) {
+        businessIds.push(question.business_id);
+      }
+      await notifyClarificationPublished(rfq, answered, businessIds);
+    } else {
+      await sendNotification({
+        type: 'rfq.question_answered',
+        recipients: [question.business_id],
+        data: { rfqId: rfq.id, title: rfq.title, questionId },
+        priority: 'normal',
+        channels: ['email', 'in_app']
+      });
+    }
+
+    return { ...answered, addendum };
+  }
+
+  // Public board: never exposes who asked
+  async getPublishedClarifications(rfqId: string): Promise<any[]> {
+    const result = await query(
+      `SELECT id, clarification_number, public_question as question, answer,
+        published_at, addendum_id
+       FROM rfq_clarification_questions
+       WHERE rfq_id = $1 AND status = 'published'
+       ORDER BY clarification_number ASC`,
+      [rfqId]
+    );
+
+    return result.rows;
+  }
+
+  async getQuestions(rfqId: string, userId: string, businessId?: string): Promise<any[]> {
+    const rfq = await this.getRFQ(rfqId);
+
+    if (rfq.created_by === userId) {
+      const result = await query(
+        `SELECT q.*, bs.business_name
+         FROM rfq_clarification_questions q
+         LEFT JOIN businesses bs ON q.business_id = bs.id
+         WHERE q.rfq_id = $1
+         ORDER BY q.created_at ASC`,
+        [rfqId]
+      );
+      return result.rows;
+    }
+
+    if (!businessId) {
+      throw new ForbiddenError('Only RFQ owner or the asking business can view questions');
+    }
+
+    const result = await query(
+      `SELECT * FROM rfq_clarification_questions
+       WHERE rfq_id = $1 AND business_id = $2
+       ORDER BY created_at ASC`,
+      [rfqId, businessId]
+    );
+
+    return result.rows;
+  }
+
+  getQuestionCutoff(rfq: any): Date {
+    return rfq.question_cutoff_date
+      ? new Date(rfq.question_cutoff_date)
+      : moment(rfq.closing_date).subtract(DEFAULT_QUESTION_CUTOFF_DAYS, 'days').toDate();
+  }
+
+  private async getRFQ(rfqId: string): Promise<any> {
+    const result = await query(
+      `SELECT id, title, created_by, status, closing_date, question_cutoff_date
+       FROM rfqs WHERE id = $1 AND deleted_at IS NULL`,
+      [rfqId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('RFQ not found');
+    }
+
+    return result.rows[0];
+  }
+}
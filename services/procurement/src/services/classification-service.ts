@@ -0,0 +1,364 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { query, transaction } from '../utils/database';
+import { recordAuditEvent } from '../utils/audit';
+import { logger } from '../utils/logger';
+import {
+  buildKeywordIndex,
+  capabilityMatch,
+  ClassificationCode,
+  CODE_SYSTEMS,
+  CodeMatch,
+  codePath,
+  CodeRef,
+  CodeSuggestion,
+  CodeSystem,
+  KeywordIndex,
+  normalizeCode,
+  parseCodeTable,
+  parseCrosswalk,
+  suggestCodes,
+  WeightedCode
+} from '../utils/classification-codes';
+import { ForbiddenError, NotFoundError, ValidationError } from '../middleware/error-handler';
+
+// Bundled tables are a working subset; point CLASSIFICATION_DATA_DIR at a
+// directory holding the full published unspsc.csv, gsin.csv, naics.csv and
+// crosswalk*.csv files
+const DATA_DIR = process.env.CLASSIFICATION_DATA_DIR || path.join(__dirname, '../../data/classification');
+
+// Weight of a capability by how we know about it
+const DECLARED_WEIGHT = 1;
+const INDUSTRY_CODE_WEIGHT = 0.9;
+const SKILL_WEIGHT = 0.8;
+
+// Confidence of a crosswalk by how it was reached
+const DIRECT_CONFIDENCE = 0.9;
+const ANCESTOR_CONFIDENCE = 0.75;
+const DESCENDANT_CONFIDENCE = 0.6;
+const TRANSITIVE_FACTOR = 0.8;
+
+// Businesses sharing no code family with an RFQ are not matched on codes
+export const MATCH_THRESHOLD = 0.5;
+
+export type CapabilitySource = 'declared' | 'industry_code' | 'skill';
+
+export interface CapabilityCode extends WeightedCode {
+  source: CapabilitySource;
+  title?: string;
+}
+
+export interface CrosswalkResult extends ClassificationCode {
+  confidence: number;
+  via: 'direct' | 'ancestor' | 'descendant' | 'transitive';
+}
+
+interface CodeTables {
+  codes: Map<string, ClassificationCode>;
+  children: Map<string, ClassificationCode[]>;
+  crosswalk: Map<string, CodeRef[]>;
+  index: KeywordIndex;
+}
+
+let tables: Promise<CodeTables> | null = null;
+
+function key(ref: CodeRef): string {
+  return `${ref.system}:${ref.code}`;
+}
+
+async function loadTables(directory: string): Promise<CodeTables> {
+  const codes = new Map<string, ClassificationCode>();
+  const children = new Map<string, ClassificationCode[]>();
+  const crosswalk = new Map<string, CodeRef[]>();
+  const files = await fs.readdir(directory);
+
+  for (const system of CODE_SYSTEMS) {
+    if (!files.includes(`${system}.csv`)) {
+      logger.warn(`No ${system} code table in ${directory}`);
+      continue;
+    }
+    for (const code of parseCodeTable(system, await fs.readFile(path.join(directory, `${system}.csv`), 'utf8'))) {
+      codes.set(key(code), code);
+    }
+  }
+
+  // Link each code to its nearest ancestor present in the table
+  for (const code of codes.values()) {
+    const ancestors = codePath(code.system, code.code).slice(0, -1).reverse();
+    const parent = ancestors.find(ancestor => codes.has(key({ system: code.system, code: ancestor })));
+    if (parent) {
+      const parentKey = key({ system: code.system, code: parent });
+      children.set(parentKey, [...(children.get(parentKey) || []), code]);
+    }
+  }
+
+  for (const file of files.filter(name => /^crosswalk.*\.csv$/.test(name)).sort()) {
+    for (const entry of parseCrosswalk(await fs.readFile(path.join(directory, file), 'utf8'))) {
+      crosswalk.set(key(entry.from), [...(crosswalk.get(key(entry.from)) || []), entry.to]);
+      crosswalk.set(key(entry.to), [...(crosswalk.get(key(entry.to)) || []), entry.from]);
+    }
+  }
+
+  logger.info(`Loaded ${codes.size} classification codes from ${directory}`);
+  return { codes, children, crosswalk, index: buildKeywordIndex(Array.from(codes.values())) };
+}
+
+export class ClassificationService {
+  private async tables(): Promise<CodeTables> {
+    if (!tables) {
+      tables = loadTables(DATA_DIR).catch(error => {
+        tables = null;
+        throw error;
+      });
+    }
+    return tables;
+  }
+
+  // Reload after the files under CLASSIFICATION_DATA_DIR are replaced
+  async reloadTables(): Promise<number> {
+    tables = null;
+    return (await this.tables()).codes.size;
+  }
+
+  async getCode(system: CodeSystem, code: string): Promise<any> {
+    const { codes, children } = await this.tables();
+    const normalized = normalizeCode(system, code);
+    const found = codes.get(key({ system, code: normalized }));
+    if (!found) {
+      throw new NotFoundError(`${system.toUpperCase()} code ${code} not found`);
+    }
+
+    return {
+      ...found,
+      hierarchy: codePath(system, normalized)
+        .slice(0, -1)
+        .map(ancestor => codes.get(key({ system, code: ancestor })))
+        .filter(Boolean),
+      children: children.get(key(found)) || []
+    };
+  }
+
+  async suggestCodes(text: string, systems?: CodeSystem[], limit = 10): Promise<CodeSuggestion[]> {
+    const { index } = await this.tables();
+    return suggestCodes(index, text, { limit, ...(systems ? { systems } : {}) });
+  }
+
+  // Equivalent codes in the other systems. Where the code itself has no
+  // crosswalk, the nearest ancestor's (or its descendants') is used at
+  // lower confidence, then a hop through the third system
+  async crosswalk(ref: CodeRef, target?: CodeSystem): Promise<CrosswalkResult[]> {
+    const { codes, crosswalk } = await this.tables();
+    const source = { system: ref.system, code: normalizeCode(ref.system, ref.code) };
+    const targets = target ? [target] : CODE_SYSTEMS.filter(system => system !== source.system);
+
+    const direct = (from: CodeRef, systems: CodeSystem[]): Array<{ ref: CodeRef; confidence: number; via: CrosswalkResult['via'] }> => {
+      const lineage = codePath(from.system, from.code);
+      for (let level = lineage.length - 1; level >= 0; level--) {
+        const mapped = (crosswalk.get(key({ system: from.system, code: lineage[level]! })) || [])
+          .filter(to => systems.includes(to.system));
+        if (mapped.length > 0) {
+          const ancestor = level < lineage.length - 1;
+          return mapped.map(to => ({
+            ref: to,
+            confidence: ancestor ? ANCESTOR_CONFIDENCE : DIRECT_CONFIDENCE,
+            via: ancestor ? 'ancestor' as const : 'direct' as const
+          }));
+        }
+      }
+
+      return Array.from(crosswalk.entries())
+        .filter(([fromKey]) => {
+          const [system, code] = fromKey.split(':') as [CodeSystem, string];
+          return system === from.system && code !== from.code &&
+            lineage.every((ancestor, depth) => codePath(system, code)[depth] === ancestor);
+        })
+        .flatMap(([, mapped]) => mapped.filter(to => systems.includes(to.system)))
+        .map(to => ({ ref: to, confidence: DESCENDANT_CONFIDENCE, via: 'descendant' as const }));
+    };
+
+    const results = new Map<string, CrosswalkResult>();
+    const add = (to: CodeRef, confidence: number, via: CrosswalkResult['via']) => {
+      const code = codes.get(key(to));
+      const existing = results.get(key(to));
+      if (!existing || existing.confidence < confidence) {
+        results.set(key(to), { system: to.system, code: to.code, title: code?.title || '', confidence, via });
+      }
+    };
+
+    for (const found of direct(source, targets)) {
+      add(found.ref, found.confidence, found.via);
+    }
+
+    for (const system of targets) {
+      if (Array.from(results.values()).some(result => result.system === system)) continue;
+      const third = CODE_SYSTEMS.filter(other => other !== system && other !== source.system);
+      for (const hop of direct(source, third)) {
+        for (const found of direct(hop.ref, [system])) {
+          add(found.ref, Math.round(hop.confidence * found.confidence * TRANSITIVE_FACTOR * 1000) / 1000, 'transitive');
+        }
+      }
+    }
+
+    return Array.from(results.values()).sort((a, b) => b.confidence - a.confidence);
+  }
+
+  // The codes plus their crosswalks, weighted, so codes in any system can
+  // be compared with a profile or RFQ coded in another
+  async expandCodes(codes: WeightedCode[]): Promise<WeightedCode[]> {
+    const expanded = new Map<string, WeightedCode>();
+    const add = (code: WeightedCode) => {
+      const existing = expanded.get(key(code));
+      if (!existing || existing.weight < code.weight) expanded.set(key(code), code);
+    };
+
+    for (const code of codes) {
+      add(code);
+      for (const mapped of await this.crosswalk(code)) {
+        add({ system: mapped.system, code: mapped.code, weight: Math.round(code.weight * mapped.confidence * 1000) / 1000 });
+      }
+    }
+
+    return Array.from(expanded.values());
+  }
+
+  async getCapabilityProfile(businessId: string): Promise<{ business_id: string; codes: CapabilityCode[] }> {
+    const { codes } = await this.tables();
+    const result = await query(
+      `SELECT code_system, code, source, weight FROM business_capability_codes
+       WHERE business_id = $1
+       UNION ALL
+       SELECT 'naics', industry_code, 'industry_code', $2 FROM business_industries
+       WHERE business_id = $1 AND industry_code ~ '^[0-9]{2,6}$'`,
+      [businessId, INDUSTRY_CODE_WEIGHT]
+    );
+
+    return {
+      business_id: businessId,
+      codes: result.rows.map((row: any) => {
+        const title = codes.get(key({ system: row.code_system, code: row.code }))?.title;
+        return {
+          system: row.code_system,
+          code: row.code,
+          source: row.source,
+          weight: Number(row.weight),
+          ...(title !== undefined ? { title } : {})
+        };
+      })
+    };
+  }
+
+  // Replace the codes a business declares for itself
+  async setDeclaredCapabilities(businessId: string, declared: CodeRef[], userId: string, userBusinessId: string): Promise<any> {
+    if (businessId !== userBusinessId) {
+      throw new ForbiddenError('Only the business can declare its capabilities');
+    }
+
+    const { codes } = await this.tables();
+    const normalized = declared.map(ref => ({ system: ref.system, code: normalizeCode(ref.system, ref.code) }));
+    const unknown = normalized.filter(ref => !codes.has(key(ref)));
+    if (unknown.length > 0) {
+      throw new ValidationError('Unknown classification codes', unknown.map(ref => `${ref.system}:${ref.code}`));
+    }
+
+    await transaction(async (client) => {
+      await client.query(
+        `DELETE FROM business_capability_codes WHERE business_id = $1 AND source = 'declared'`,
+        [businessId]
+      );
+      for (const ref of normalized) {
+        await client.query(
+          `INSERT INTO business_capability_codes (business_id, code_system, code, source, weight, created_at)
+           VALUES ($1, $2, $3, 'declared', $4, NOW())`,
+          [businessId, ref.system, ref.code, DECLARED_WEIGHT]
+        );
+      }
+
+      await recordAuditEvent({
+        entity_type: 'business',
+        entity_id: businessId,
+        action: 'capabilities.declared',
+        user_id: userId,
+        metadata: { codes: normalized.map(ref => `${ref.system}:${ref.code}`) }
+      }, client);
+    });
+
+    return this.getCapabilityProfile(businessId);
+  }
+
+  // Re-derive codes from the business's free-text skills
+  async refreshSkillCapabilities(businessId: string, userBusinessId: string): Promise<any> {
+    if (businessId !== userBusinessId) {
+      throw new ForbiddenError('Only the business can refresh its capabilities');
+    }
+
+    const skills = await query(
+      `SELECT skill_name FROM business_skills WHERE business_id = $1`,
+      [businessId]
+    );
+
+    const inferred = new Map<string, WeightedCode>();
+    for (const { skill_name } of skills.rows) {
+      for (const suggestion of await this.suggestCodes(skill_name, undefined, 3)) {
+        const weight = Math.round(SKILL_WEIGHT * suggestion.score * 1000) / 1000;
+        if (weight >= SKILL_WEIGHT / 2 && (inferred.get(key(suggestion))?.weight || 0) < weight) {
+          inferred.set(key(suggestion), { system: suggestion.system, code: suggestion.code, weight });
+        }
+      }
+    }
+
+    await transaction(async (client) => {
+      await client.query(
+        `DELETE FROM business_capability_codes WHERE business_id = $1 AND source = 'skill'`,
+        [businessId]
+      );
+      for (const code of inferred.values()) {
+        await client.query(
+          `INSERT INTO business_capability_codes (business_id, code_system, code, source, weight, created_at)
+           VALUES ($1, $2, $3, 'skill', $4, NOW())`,
+          [businessId, code.system, code.code, code.weight]
+        );
+      }
+    });
+
+    return this.getCapabilityProfile(businessId);
+  }
+
+  // An RFQ's codes: as given when it was created, otherwise suggested from
+  // its title, description and category
+  async getRFQCodes(rfq: any): Promise<CodeRef[]> {
+    const stored = await query(
+      `SELECT code_system, code FROM rfq_classification_codes WHERE rfq_id = $1`,
+      [rfq.id]
+    );
+    if (stored.rows.length > 0) {
+      return stored.rows.map((row: any) => ({ system: row.code_system, code: row.code }));
+    }
+
+    const suggestions = await this.suggestCodes(
+      [rfq.title, rfq.category, rfq.subcategory, rfq.description].filter(Boolean).join(' '),
+      undefined,
+      5
+    );
+    return suggestions.filter(suggestion => suggestion.score >= 0.5)
+      .map(suggestion => ({ system: suggestion.system, code: suggestion.code }));
+  }
+
+  // Score candidate businesses' capability codes against an RFQ's codes
+  async scoreBusinesses(rfqCodes: CodeRef[], profiles: Map<string, WeightedCode[]>): Promise<Map<string, CodeMatch>> {
+    const expandedRFQ = await this.expandCodes(rfqCodes.map(code => ({ ...code, weight: 1 })));
+    const scores = new Map<string, CodeMatch>();
+
+    for (const [businessId, profile] of profiles) {
+      scores.set(businessId, capabilityMatch(expandedRFQ, profile));
+    }
+
+    return scores;
+  }
+
+  // Top-level groups (UNSPSC segment, GSIN letter, NAICS sector) the
+  // expanded codes fall in, for narrowing candidates in SQL
+  async codeGroups(rfqCodes: CodeRef[]): Promise<string[]> {
+    const expanded = await this.expandCodes(rfqCodes.map(code => ({ ...code, weight: 1 })));
+    return Array.from(new Set(expanded.map(code => `${code.system}:${code.code.slice(0, code.system === 'gsin' ? 1 : 2)}`)));
+  }
+}
@@ -1,6 +1,13 @@
 import { query, transaction } from '../utils/database';
 import { setCache, getCache, invalidateCache } from '../utils/redis';
 import { notifyContractAwarded, sendNotification } from '../utils/notifications';
+import { isBusinessOwner, getBusinessOwnerId } from '../utils/contract-parties';
+import { isInStandstill, standstillEndsAt } from '../utils/challenge-deadlines';
+import { MilestoneService } from './milestone-service';
+import { PerformanceService } from './performance-service';
+import { BondService } from './bond-service';
+import { ProtestService } from './protest-service';
+import { StandingOfferService } from './standing-offer-service';
 import { logger } from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
 import moment from 'moment';
@@ -18,9 +25,17 @@ export interface ContractData {
     milestone: string;
     percentage: number;
     due_date: Date;
+    description?: string;
+    deliverables?: string[];
+    acceptance_criteria?: string[];
   }[];
   performance_bond_required?: boolean;
+  performance_bond_percentage?: number;
+  labour_material_bond_required?: boolean;
+  labour_material_bond_percentage?: number;
   insurance_requirements?: string;
+  // Days after award before the contract may start; 0 disables standstill
+  standstill_days?: number;
 }
 
 export interface ContractUpdate {
@@ -32,6 +47,12 @@ export interface ContractUpdate {
 }
 
 export class ContractService {
+  private milestoneService = new MilestoneService();
+  private performanceService = new PerformanceService();
+  private bondService = new BondService();
+  private protestService = new ProtestService();
+  private standingOfferService = new StandingOfferService();
+
   async awardContract(contractData: ContractData, awardedBy: string): Promise<any> {
     // Verify RFQ and bid
     const rfqBidResult = await query(
@@ -62,7 +83,9 @@ export class ContractService {
       throw new BusinessLogicError('Can only award contracts to submitted bids');
     }
 
-    return transaction(async (client) => {
+    const standstillEnd = standstillEndsAt(contractData.standstill_days);
+
+    const awarded = await transaction(async (client) => {
       const contractId = uuidv4();
 
       // Create contract record
@@ -70,9 +93,10 @@ export class ContractService {
         `INSERT INTO contracts (
           id, rfq_id, winning_bid_id, business_id, awarded_by,
           contract_value, start_date, end_date, terms_conditions,
-          special_clauses, performance_bond_required, insurance_requirements,
-          status, created_at, updated_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW(), NOW())
+          special_clauses, performance_bond_required, performance_bond_percentage,
+          labour_material_bond_required, labour_material_bond_percentage,
+          insurance_requirements, standstill_ends_at, status, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, NOW(), NOW())
         RETURNING *`,
         [
           contractId, contractData.rfq_id, contractData.winning_bid_id,
@@ -80,21 +104,23 @@ export class ContractService {
           contractData.start_date, contractData.end_date,
           contractData.terms_conditions, contractData.special_clauses,
           contractData.performance_bond_required || false,
-          contractData.insurance_requirements, 'draft'
+          contractData.performance_bond_percentage,
+          contractData.labour_material_bond_required || false,
+          contractData.labour_material_bond_percentage,
+          contractData.insurance_requirements, standstillEnd, 'draft'
         ]
       );
 
       const contract = contractResult.rows[0];
 
-      // Add payment schedule
+      // Add payment schedule, each entry backed by a milestone needing sign-off
       if (contractData.payment_schedule && contractData.payment_schedule.length > 0) {
-        for (const payment of contractData.payment_schedule) {
-          await client.query(
-            `INSERT INTO contract_payments (
-              id, contract_id, milestone, percentage, due_date, status, created_at
-            ) VALUES ($1, $2, $3, $4, $5, $6, NOW())`,
-            [uuidv4(), contractId, payment.milestone, payment.percentage, payment.due_date, 'pending']
-          );
+        for (const { milestone, percentage, ...details } of contractData.payment_schedule) {
+          await this.milestoneService.createMilestone(client, contract, {
+            ...details,
+            title: milestone,
+            payment_percentage: percentage
+          });
         }
       }
 
@@ -148,6 +174,12 @@ export class ContractService {
 
       return contract;
     });
+
+    // Escrow releases happen outside the award transaction so a payments
+    // outage cannot undo the award; failures are retried by the daily sweep
+    await this.bondService.releaseBidSecurityOnAward(contractData.rfq_id, awarded);
+
+    return awarded;
   }
 
   async getContractById(contractId: string, userId?: string): Promise<any> {
@@ -183,7 +215,7 @@ export class ContractService {
     
     // Check permissions - only RFQ owner or contract business can update
     const canUpdate = contract.awarded_by === userId || 
-                      await this.isBusinessOwner(contract.business_id, userId);
+                      await isBusinessOwner(contract.business_id, userId);
     
     if (!canUpdate) {
       throw new ForbiddenError('Insufficient permissions to update contract');
@@ -210,6 +242,16 @@ export class ContractService {
       throw new ValidationError('No valid fields to update');
     }
 
+    if (updates.status === 'active' && contract.status !== 'active') {
+      if (isInStandstill(contract)) {
+        throw new BusinessLogicError('Contract cannot start before the standstill period ends', {
+          standstill_ends_at: contract.standstill_ends_at
+        });
+      }
+      await this.protestService.assertNoOpenProtests(contract.rfq_id);
+      await this.bondService.assertContractBondsInPlace(contract);
+    }
+
     updateFields.push(`updated_at = NOW()`);
     updateValues.push(contractId);
 
@@ -234,7 +276,7 @@ export class ContractService {
       if (['active', 'completed', 'terminated'].includes(updates.status)) {
         await sendNotification({
           type: 'contract.status_changed',
-          recipients: [contract.awarded_by, await this.getBusinessOwnerId(contract.business_id)],
+          recipients: [contract.awarded_by, await getBusinessOwnerId(contract.business_id)],
           data: {
             contractId,
             rfqTitle: contract.rfq_title,
@@ -244,6 +286,10 @@ export class ContractService {
           priority: 'normal'
         });
       }
+
+      if (updates.status === 'completed') {
+        await this.performanceService.requestEvaluation(contract);
+      }
     }
 
     return result.rows[0];
@@ -261,6 +307,9 @@ export class ContractService {
       throw new ForbiddenError('Only contract awarder can process payments');
     }
 
+    // Payment is only released once the buyer has accepted the milestone
+    const milestone = await this.milestoneService.getPayableMilestone(contractId, milestoneId);
+
     return transaction(async (client) => {
       // Update payment milestone
       const paymentResult = await client.query(
@@ -272,7 +321,7 @@ export class ContractService {
              updated_at = NOW()
          WHERE id = $3 AND contract_id = $4 AND status = 'pending'
          RETURNING *`,
-        [amount, processedBy, milestoneId, contractId]
+        [amount, processedBy, milestone.payment_id, contractId]
       );
 
       if (paymentResult.rows.length === 0) {
@@ -295,7 +344,7 @@ export class ContractService {
           payment_method, reference_number, processed_by, created_at
         ) VALUES ($1, $2, $3, $4, NOW(), $5, $6, $7, NOW())`,
         [
-          uuidv4(), contractId, milestoneId, amount,
+          uuidv4(), contractId, milestone.payment_id, amount,
           'electronic_transfer', // Default payment method
           `PAY-${Date.now()}`, // Generate reference
           processedBy
@@ -305,7 +354,7 @@ export class ContractService {
       // Send notification
       await sendNotification({
         type: 'contract.payment_processed',
-        recipients: [await this.getBusinessOwnerId(contract.business_id)],
+        recipients: [await getBusinessOwnerId(contract.business_id)],
         data: {
           contractId,
           rfqTitle: contract.rfq_title,
@@ -453,7 +502,7 @@ export class ContractService {
     
     // Check permissions
     const canGenerate = contract.awarded_by === userId || 
-                        await this.isBusinessOwner(contract.business_id, userId);
+                        await isBusinessOwner(contract.business_id, userId);
     
     if (!canGenerate) {
       throw new ForbiddenError('Insufficient permissions to generate contract document');
@@ -474,6 +523,7 @@ export class ContractService {
         special_clauses: contract.special_clauses,
         payment_schedule: contract.payment_schedule,
         performance_bond_required: contract.performance_bond_required,
+        labour_material_bond_required: contract.labour_material_bond_required,
         insurance_requirements: contract.insurance_requirements
       },
       generated_at: new Date(),
@@ -481,26 +531,6 @@ export class ContractService {
     };
   }
 
-  private async isBusinessOwner(businessId: string, userId: string): Promise<boolean> {
-    const result = await query(
-      `SELECT COUNT(*) as count FROM user_businesses 
-       WHERE business_id = $1 AND user_id = $2 AND is_primary = true`,
-      [businessId, userId]
-    );
-    
-    return parseInt(result.rows[0].count) > 0;
-  }
-
-  private async getBusinessOwnerId(businessId: string): Promise<string> {
-    const result = await query(
-      `SELECT user_id FROM user_businesses 
-       WHERE business_id = $1 AND is_primary = true`,
-      [businessId]
-    );
-    
-    return result.rows[0]?.user_id;
-  }
-
   async checkContractDeadlines(): Promise<void> {
     // Find contracts ending soon
     const contractsEndingSoon = await query(
@@ -519,7 +549,7 @@ export class ContractService {
     for (const contract of contractsEndingSoon.rows) {
       await sendNotification({
         type: 'contract.deadline_reminder',
-        recipients: [contract.awarded_by, await this.getBusinessOwnerId(contract.business_id)],
+        recipients: [contract.awarded_by, await getBusinessOwnerId(contract.business_id)],
         data: {
           contractId: contract.id,
           rfqTitle: contract.rfq_title,
@@ -529,5 +559,10 @@ export class ContractService {
         priority: 'high'
       });
     }
+
+    await this.milestoneService.escalateOverdueMilestones();
+    await this.bondService.processSecurityLifecycle();
+    await this.protestService.escalateOverdueProtests();
+    await this.standingOfferService.expireArrangements();
   }
 }
\ No newline at end of file
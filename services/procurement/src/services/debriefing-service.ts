@@ -0,0 +1,253 @@
+import { query } from '../utils/database';
+import { sendNotification } from '../utils/notifications';
+import { recordAuditEvent } from '../utils/audit';
+import { isChallengePeriodOver } from '../utils/challenge-deadlines';
+import { v4 as uuidv4 } from 'uuid';
+import { NotFoundError, ConflictError, ForbiddenError, BusinessLogicError } from '../middleware/error-handler';
+
+export interface DebriefingRequest {
+  questions?: string;
+}
+
+export interface DebriefingResponse {
+  summary: string;
+  strengths?: string;
+  weaknesses?: string;
+  meeting_at?: Date;
+}
+
+function toNumber(value: any): number | null {
+  return value === null || value === undefined ? null : parseFloat(value);
+}
+
+export class DebriefingService {
+  async requestDebriefing(
+    rfqId: string,
+    request: DebriefingRequest,
+    businessId: string,
+    userId: string
+  ): Promise<any> {
+    const { contract, bid } = await this.getUnsuccessfulBid(rfqId, businessId);
+
+    if (isChallengePeriodOver(contract)) {
+      throw new BusinessLogicError('The debriefing request period for this award has ended');
+    }
+
+    const result = await query(
+      `INSERT INTO rfq_debriefings (
+        id, rfq_id, contract_id, bid_id, business_id, requested_by,
+        questions, status, requested_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
+      ON CONFLICT (rfq_id, business_id) DO NOTHING
+      RETURNING *`,
+      [
+        uuidv4(), rfqId, contract.id, bid.id, businessId, userId,
+        request.questions, 'requested'
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      throw new ConflictError('A debriefing has already been requested for this RFQ');
+    }
+
+    await recordAuditEvent({
+      entity_type: 'rfq',
+      entity_id: rfqId,
+      action: 'rfq.debriefing_requested',
+      user_id: userId,
+      metadata: { debriefing_id: result.rows[0].id, business_id: businessId }
+    });
+
+    await sendNotification({
+      type: 'rfq.debriefing_requested',
+      recipients: [contract.awarded_by],
+      data: {
+        rfqId,
+        debriefingId: result.rows[0].id,
+        rfqTitle: contract.rfq_title,
+        standstillEndsAt: contract.standstill_ends_at
+      },
+      priority: 'high'
+    });
+
+    return result.rows[0];
+  }
+
+  async provideDebriefing(debriefingId: string, response: DebriefingResponse, userId: string): Promise<any> {
+    const debriefing = await this.getDebriefingRecord(debriefingId);
+
+    if (debriefing.awarded_by !== userId) {
+      throw new ForbiddenError('Only the buyer can provide a debriefing');
+    }
+
+    if (debriefing.status !== 'requested') {
+      throw new ConflictError('Debriefing has already been provided');
+    }
+
+    // Scores are snapshotted so the debriefing reflects what was said at the time
+    const comparison = await this.buildComparison(debriefing.bid_id, debriefing.winning_bid_id);
+
+    const result = await query(
+      `UPDATE rfq_debriefings SET
+       summary = $1,
+       strengths = $2,
+       weaknesses = $3,
+       meeting_at = $4,
+       score_comparison = $5,
+       provided_by = $6,
+       status = 'provided',
+       provided_at = NOW(),
+       updated_at = NOW()
+       WHERE id = $7
+       RETURNING *`,
+      [
+        response.summary, response.strengths, response.weaknesses, response.meeting_at,
+        JSON.stringify(comparison), userId, debriefingId
+      ]
+    );
+
+    await recordAuditEvent({
+      entity_type: 'rfq',
+      entity_id: debriefing.rfq_id,
+      action: 'rfq.debriefing_provided',
+      user_id: userId,
+      metadata: { debriefing_id: debriefingId, business_id: debriefing.business_id }
+    });
+
+    await sendNotification({
+      type: 'rfq.debriefing_provided',
+      recipients: [debriefing.requested_by],
+      data: {
+        rfqId: debriefing.rfq_id,
+        debriefingId,
+        meetingAt: response.meeting_at
+      },
+      priority: 'high'
+    });
+
+    return result.rows[0];
+  }
+
+  async getDebriefing(debriefingId: string, userId: string, businessId?: string): Promise<any> {
+    const debriefing = await this.getDebriefingRecord(debriefingId);
+
+    const isBuyer = debriefing.awarded_by === userId;
+    if (!isBuyer && debriefing.business_id !== businessId) {
+      throw new ForbiddenError('Only the buyer or the debriefed business can view this debriefing');
+    }
+
+    // The buyer can preview the comparison before the debriefing is given
+    const comparison = debriefing.score_comparison
+      || (isBuyer ? await this.buildComparison(debriefing.bid_id, debriefing.winning_bid_id) : null);
+
+    return { ...debriefing, score_comparison: comparison };
+  }
+
+  async getDebriefings(rfqId: string, userId: string): Promise<any[]> {
+    const result = await query(
+      `SELECT d.*, bs.business_name
+       FROM rfq_debriefings d
+       JOIN rfqs r ON d.rfq_id = r.id
+       LEFT JOIN businesses bs ON d.business_id = bs.id
+       WHERE d.rfq_id = $1 AND r.created_by = $2
+       ORDER BY d.requested_at ASC`,
+      [rfqId, userId]
+    );
+
+    return result.rows;
+  }
+
+  // The bidder's own per-criterion scores against the winning bid's
+  private async buildComparison(bidId: string, winningBidId: string): Promise<any> {
+    const bids = await query(
+      `SELECT id, rfq_id, amount, score, evaluation_rank,
+        (SELECT COUNT(*) FROM bids o WHERE o.rfq_id = b.rfq_id AND o.status != 'withdrawn') as bidder_count
+       FROM bids b WHERE id = ANY($1)`,
+      [[bidId, winningBidId]]
+    );
+
+    const own = bids.rows.find(row => row.id === bidId);
+    const winner = bids.rows.find(row => row.id === winningBidId);
+
+    const scores = await query(
+      `SELECT e.bid_id, e.criterion, e.score, c.name, c.weight, c.position
+       FROM bid_evaluations e
+       JOIN bids b ON e.bid_id = b.id
+       LEFT JOIN rfq_evaluation_criteria c ON c.rfq_id = b.rfq_id AND c.key = e.criterion
+       WHERE e.bid_id = ANY($1)
+       ORDER BY c.position ASC NULLS LAST, e.criterion ASC`,
+      [[bidId, winningBidId]]
+    );
+
+    const criteria = new Map<string, any>();
+    for (const row of scores.rows) {
+      const entry = criteria.get(row.criterion) || {
+        criterion: row.criterion,
+        name: row.name || row.criterion,
+        weight: toNumber(row.weight),
+        your_score: null,
+        winning_score: null
+      };
+      if (row.bid_id === bidId) entry.your_score = toNumber(row.score);
+      if (row.bid_id === winningBidId) entry.winning_score = toNumber(row.score);
+      criteria.set(row.criterion, entry);
+    }
+
+    return {
+      your_total_score: toNumber(own?.score),
+      winning_total_score: toNumber(winner?.score),
+      your_rank: own?.evaluation_rank ?? null,
+      bidder_count: own ? parseInt(own.bidder_count) : null,
+      your_amount: toNumber(own?.amount),
+      winning_amount: toNumber(winner?.amount),
+      criteria: Array.from(criteria.values())
+    };
+  }
+
+  // Shared with protests: both are open only to bidders who lost the award
+  async getUnsuccessfulBid(rfqId: string, businessId: string): Promise<{ contract: any; bid: any }> {
+    const contractResult = await query(
+      `SELECT c.*, r.title as rfq_title
+       FROM contracts c
+       JOIN rfqs r ON c.rfq_id = r.id
+       WHERE c.rfq_id = $1`,
+      [rfqId]
+    );
+
+    if (contractResult.rows.length === 0) {
+      throw new BusinessLogicError('This RFQ has not been awarded');
+    }
+
+    const bidResult = await query(
+      `SELECT id, status FROM bids
+       WHERE rfq_id = $1 AND business_id = $2 AND status != 'withdrawn'`,
+      [rfqId, businessId]
+    );
+
+    if (bidResult.rows.length === 0) {
+      throw new ForbiddenError('Only businesses that bid on this RFQ can do this');
+    }
+
+    if (bidResult.rows[0].status === 'awarded') {
+      throw new ConflictError('The successful bidder cannot request a debriefing or protest');
+    }
+
+    return { contract: contractResult.rows[0], bid: bidResult.rows[0] };
+  }
+
+  private async getDebriefingRecord(debriefingId: string): Promise<any> {
+    const result = await query(
+      `SELECT d.*, c.awarded_by, c.winning_bid_id
+       FROM rfq_debriefings d
+       JOIN contracts c ON d.contract_id = c.id
+       WHERE d.id = $1`,
+      [debriefingId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Debriefing not found');
+    }
+
+    return result.rows[0];
+  }
+}
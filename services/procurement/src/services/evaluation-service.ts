@@ -0,0 +1,458 @@
+import { query, transaction } from '../utils/database';
+import { invalidateCache } from '../utils/redis';
+import { sendNotification } from '../utils/notifications';
+import { recordAuditEvent } from '../utils/audit';
+import {
+  EvaluationCriterion,
+  EvaluatorScore,
+  BidRanking,
+  validateMatrix,
+  calculateConsensusRanking
+} from '../utils/evaluation-scoring';
+import { v4 as uuidv4 } from 'uuid';
+import { NotFoundError, ConflictError, ValidationError, ForbiddenError } from '../middleware/error-handler';
+
+export interface CommitteeMember {
+  user_id: string;
+  role: 'chair' | 'evaluator';
+}
+
+export interface EvaluatorScoreInput {
+  criterion_key: string;
+  score?: number;
+  passed?: boolean;
+  rationale?: string;
+}
+
+export class EvaluationService {
+  async defineMatrix(rfqId: string, criteria: EvaluationCriterion[], userId: string): Promise<any[]> {
+    const rfq = await this.getOwnedRFQ(rfqId, userId);
+
+    const errors = validateMatrix(criteria);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid evaluation matrix', errors);
+    }
+
+    await this.assertScoringNotStarted(rfq.id);
+
+    return transaction(async (client) => {
+      await client.query(`DELETE FROM rfq_evaluation_criteria WHERE rfq_id = $1`, [rfqId]);
+
+      const rows = [];
+      for (const [position, criterion] of criteria.entries()) {
+        const result = await client.query(
+          `INSERT INTO rfq_evaluation_criteria (
+            id, rfq_id, key, name, category, weight, max_points,
+            scoring_method, minimum_points, position, created_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+          RETURNING *`,
+          [
+            uuidv4(), rfqId, criterion.key, criterion.name, criterion.category,
+            criterion.weight, criterion.max_points, criterion.scoring_method,
+            criterion.minimum_points, position
+          ]
+        );
+        rows.push(result.rows[0]);
+      }
+
+      await recordAuditEvent({
+        entity_type: 'rfq',
+        entity_id: rfqId,
+        action: 'rfq.evaluation_matrix_defined',
+        user_id: userId,
+        metadata: { criteria }
+      }, client);
+
+      return rows;
+    });
+  }
+
+  async getMatrix(rfqId: string): Promise<EvaluationCriterion[]> {
+    const result = await query(
+      `SELECT key, name, category, weight, max_points, scoring_method, minimum_points
+       FROM rfq_evaluation_criteria
+       WHERE rfq_id = $1
+       ORDER BY position ASC`,
+      [rfqId]
+    );
+
+    return result.rows.map(row => ({
+      ...row,
+      weight: parseFloat(row.weight),
+      max_points: parseFloat(row.max_points),
+      minimum_points: row.minimum_points === null ? undefined : parseFloat(row.minimum_points)
+    }));
+  }
+
+  async hasMatrix(rfqId: string): Promise<boolean> {
+    const result = await query(
+      `SELECT COUNT(*) as count FROM rfq_evaluation_criteria WHERE rfq_id = $1`,
+      [rfqId]
+    );
+    return parseInt(result.rows[0].count) > 0;
+  }
+
+  async assignCommittee(rfqId: string, members: CommitteeMember[], userId: string): Promise<any[]> {
+    await this.getOwnedRFQ(rfqId, userId);
+
+    if (new Set(members.map(m => m.user_id)).size !== members.length) {
+      throw new ValidationError('Committee members must be unique');
+    }
+
+    if (members.filter(m => m.role === 'chair').length !== 1) {
+      throw new ValidationError('Evaluation committee must have exactly one chair');
+    }
+
+    await this.assertScoringNotStarted(rfqId);
+
+    return transaction(async (client) => {
+      await client.query(`DELETE FROM rfq_evaluation_committee WHERE rfq_id = $1`, [rfqId]);
+
+      const rows = [];
+      for (const member of members) {
+        const result = await client.query(
+          `INSERT INTO rfq_evaluation_committee (
+            id, rfq_id, user_id, role, assigned_by, assigned_at
+          ) VALUES ($1, $2, $3, $4, $5, NOW())
+          RETURNING *`,
+          [uuidv4(), rfqId, member.user_id, member.role, userId]
+        );
+        rows.push(result.rows[0]);
+      }
+
+      await recordAuditEvent({
+        entity_type: 'rfq',
+        entity_id: rfqId,
+        action: 'rfq.evaluation_committee_assigned',
+        user_id: userId,
+        metadata: { members }
+      }, client);
+
+      await sendNotification({
+        type: 'rfq.evaluation_assigned',
+        recipients: members.map(m => m.user_id),
+        data: { rfqId },
+        priority: 'normal'
+      });
+
+      return rows;
+    });
+  }
+
+  async getCommittee(rfqId: string, userId: string): Promise<any[]> {
+    await this.assertCanViewCommittee(rfqId, userId);
+
+    const result = await query(
+      `SELECT c.user_id, c.role, c.assigned_at,
+        EXISTS (
+          SELECT 1 FROM bid_evaluator_scores s
+          JOIN bids b ON s.bid_id = b.id
+          WHERE b.rfq_id = c.rfq_id AND s.evaluator_id = c.user_id
+        ) as has_scored
+       FROM rfq_evaluation_committee c
+       WHERE c.rfq_id = $1
+       ORDER BY c.role ASC, c.assigned_at ASC`,
+      [rfqId]
+    );
+
+    return result.rows;
+  }
+
+  async submitScores(bidId: string, scores: EvaluatorScoreInput[], evaluatorId: string): Promise<any[]> {
+    const bidResult = await query(
+      `SELECT b.id, b.rfq_id, b.status, b.sealed_contents, r.bids_opened_at, r.evaluation_finalized_at
+       FROM bids b
+       JOIN rfqs r ON b.rfq_id = r.id
+       WHERE b.id = $1`,
+      [bidId]
+    );
+
+    if (bidResult.rows.length === 0) {
+      throw new NotFoundError('Bid not found');
+    }
+
+    const bid = bidResult.rows[0];
+
+    if (bid.status === 'withdrawn') {
+      throw new ConflictError('Cannot evaluate withdrawn bid');
+    }
+
+    if (bid.sealed_contents && !bid.bids_opened_at) {
+      throw new ConflictError('Sealed bids cannot be evaluated before the bid opening');
+    }
+
+    if (bid.evaluation_finalized_at) {
+      throw new ConflictError('Evaluation has already been finalized for this RFQ');
+    }
+
+    const membership = await query(
+      `SELECT role FROM rfq_evaluation_committee WHERE rfq_id = $1 AND user_id = $2`,
+      [bid.rfq_id, evaluatorId]
+    );
+
+    if (membership.rows.length === 0) {
+      throw new ForbiddenError('Only evaluation committee members can score bids');
+    }
+
+    const criteria = await this.getMatrix(bid.rfq_id);
+    for (const entry of scores) {
+      const criterion = criteria.find(c => c.key === entry.criterion_key);
+      if (!criterion) {
+        throw new ValidationError(`Unknown evaluation criterion: ${entry.criterion_key}`);
+      }
+      if (criterion.scoring_method === 'lowest_price') {
+        throw new ValidationError(`${criterion.name} is calculated from the bid price`);
+      }
+      if (criterion.scoring_method === 'pass_fail' && entry.passed === undefined) {
+        throw new ValidationError(`${criterion.name} requires a pass/fail decision`);
+      }
+      if (
+        criterion.scoring_method === 'evaluator' &&
+        (entry.score === undefined || entry.score < 0 || entry.score > criterion.max_points)
+      ) {
+        throw new ValidationError(
+          `Score for ${criterion.name} must be between 0 and ${criterion.max_points}`
+        );
+      }
+    }
+
+    return transaction(async (client) => {
+      const rows = [];
+      for (const entry of scores) {
+        const result = await client.query(
+          `INSERT INTO bid_evaluator_scores (
+            id, bid_id, evaluator_id, criterion_key, score, passed, rationale,
+            created_at, updated_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+          ON CONFLICT (bid_id, evaluator_id, criterion_key)
+          DO UPDATE SET score = $5, passed = $6, rationale = $7, updated_at = NOW()
+          RETURNING *`,
+          [
+            uuidv4(), bidId, evaluatorId, entry.criterion_key,
+            entry.score, entry.passed, entry.rationale
+          ]
+        );
+        rows.push(result.rows[0]);
+      }
+
+      await recordAuditEvent({
+        entity_type: 'bid',
+        entity_id: bidId,
+        action: 'bid.evaluator_scored',
+        user_id: evaluatorId,
+        metadata: { scores }
+      }, client);
+
+      return rows;
+    });
+  }
+
+  // Evaluators only ever see their own scores so each assessment stays independent
+  async getEvaluatorScores(rfqId: string, evaluatorId: string): Promise<any[]> {
+    const result = await query(
+      `SELECT s.bid_id, s.criterion_key, s.score, s.passed, s.rationale, s.updated_at
+       FROM bid_evaluator_scores s
+       JOIN bids b ON s.bid_id = b.id
+       WHERE b.rfq_id = $1 AND s.evaluator_id = $2
+       ORDER BY s.bid_id, s.criterion_key`,
+      [rfqId, evaluatorId]
+    );
+
+    return result.rows;
+  }
+
+  async calculateConsensus(rfqId: string, userId: string): Promise<{
+    rfq_id: string;
+    criteria: EvaluationCriterion[];
+    evaluators: string[];
+    rankings: BidRanking[];
+  }> {
+    await this.assertCanViewConsensus(rfqId, userId);
+    return this.computeRanking(rfqId);
+  }
+
+  async computeRanking(rfqId: string): Promise<{
+    rfq_id: string;
+    criteria: EvaluationCriterion[];
+    evaluators: string[];
+    rankings: BidRanking[];
+  }> {
+    const criteria = await this.getMatrix(rfqId);
+    if (criteria.length === 0) {
+      throw new NotFoundError('No evaluation matrix defined for this RFQ');
+    }
+
+    const committee = await query(
+      `SELECT user_id FROM rfq_evaluation_committee WHERE rfq_id = $1`,
+      [rfqId]
+    );
+    const evaluators = committee.rows.map(row => row.user_id);
+
+    const bidsResult = await query(
+      `SELECT id, amount FROM bids WHERE rfq_id = $1 AND status != 'withdrawn'`,
+      [rfqId]
+    );
+
+    const scoresResult = await query(
+      `SELECT s.bid_id, s.evaluator_id, s.criterion_key, s.score, s.passed
+       FROM bid_evaluator_scores s
+       JOIN bids b ON s.bid_id = b.id
+       WHERE b.rfq_id = $1 AND b.status != 'withdrawn'`,
+      [rfqId]
+    );
+
+    const scoresByBid = new Map<string, EvaluatorScore[]>();
+    for (const row of scoresResult.rows) {
+      const entries = scoresByBid.get(row.bid_id) || [];
+      entries.push({
+        evaluator_id: row.evaluator_id,
+        criterion_key: row.criterion_key,
+        score: row.score === null ? null : parseFloat(row.score),
+        passed: row.passed
+      });
+      scoresByBid.set(row.bid_id, entries);
+    }
+
+    const rankings = calculateConsensusRanking(
+      criteria,
+      bidsResult.rows.map(row => ({
+        bid_id: row.id,
+        amount: parseFloat(row.amount) || 0,
+        scores: scoresByBid.get(row.id) || []
+      })),
+      evaluators
+    );
+
+    return { rfq_id: rfqId, criteria, evaluators, rankings };
+  }
+
+  async finalizeConsensus(rfqId: string, userId: string): Promise<any> {
+    const consensus = await this.calculateConsensus(rfqId, userId);
+
+    const incomplete = consensus.rankings.filter(r => !r.complete);
+    if (incomplete.length > 0) {
+      throw new ConflictError(
+        `${incomplete.length} bids are still missing committee scores`
+      );
+    }
+
+    await transaction(async (client) => {
+      for (const ranking of consensus.rankings) {
+        await client.query(
+          `UPDATE bids SET
+           score = $1,
+           evaluation_rank = $2,
+           evaluated_at = NOW(),
+           updated_at = NOW()
+           WHERE id = $3`,
+          [ranking.total_score, ranking.rank, ranking.bid_id]
+        );
+
+        for (const criterion of ranking.criteria) {
+          await client.query(
+            `INSERT INTO bid_evaluations (
+              id, bid_id, criterion, score, created_at
+            ) VALUES ($1, $2, $3, $4, NOW())
+            ON CONFLICT (bid_id, criterion)
+            DO UPDATE SET score = $4, updated_at = NOW()`,
+            [uuidv4(), ranking.bid_id, criterion.key, criterion.weighted_score]
+          );
+        }
+      }
+
+      await client.query(
+        `UPDATE rfqs SET evaluation_finalized_at = NOW(), updated_at = NOW() WHERE id = $1`,
+        [rfqId]
+      );
+
+      await recordAuditEvent({
+        entity_type: 'rfq',
+        entity_id: rfqId,
+        action: 'rfq.evaluation_finalized',
+        user_id: userId,
+        metadata: {
+          rankings: consensus.rankings.map(r => ({
+            bid_id: r.bid_id,
+            rank: r.rank,
+            total_score: r.total_score,
+            disqualified: r.disqualified
+          }))
+        }
+      }, client);
+    });
+
+    for (const ranking of consensus.rankings) {
+      await invalidateCache(`bid:${ranking.bid_id}`);
+    }
+
+    return consensus;
+  }
+
+  private async getOwnedRFQ(rfqId: string, userId: string): Promise<any> {
+    const result = await query(
+      `SELECT id, created_by, status FROM rfqs WHERE id = $1 AND deleted_at IS NULL`,
+      [rfqId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('RFQ not found');
+    }
+
+    if (result.rows[0].created_by !== userId) {
+      throw new ForbiddenError('Only RFQ owner can manage the evaluation');
+    }
+
+    return result.rows[0];
+  }
+
+  private async assertScoringNotStarted(rfqId: string): Promise<void> {
+    const result = await query(
+      `SELECT COUNT(*) as count FROM bid_evaluator_scores s
+       JOIN bids b ON s.bid_id = b.id
+       WHERE b.rfq_id = $1`,
+      [rfqId]
+    );
+
+    if (parseInt(result.rows[0].count) > 0) {
+      throw new ConflictError('Evaluation setup cannot change once scoring has started');
+    }
+  }
+
+  private async assertCanViewCommittee(rfqId: string, userId: string): Promise<void> {
+    const result = await query(
+      `SELECT r.created_by, c.role
+       FROM rfqs r
+       LEFT JOIN rfq_evaluation_committee c ON c.rfq_id = r.id AND c.user_id = $2
+       WHERE r.id = $1 AND r.deleted_at IS NULL`,
+      [rfqId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('RFQ not found');
+    }
+
+    const row = result.rows[0];
+    if (row.created_by !== userId && !row.role) {
+      throw new ForbiddenError('Only the RFQ owner or committee members can view the committee');
+    }
+  }
+
+  private async assertCanViewConsensus(rfqId: string, userId: string): Promise<void> {
+    const result = await query(
+      `SELECT r.created_by, c.role
+       FROM rfqs r
+       LEFT JOIN rfq_evaluation_committee c ON c.rfq_id = r.id AND c.user_id = $2
+       WHERE r.id = $1`,
+      [rfqId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('RFQ not found');
+    }
+
+    const row = result.rows[0];
+    if (row.created_by !== userId && row.role !== 'chair') {
+      throw new ForbiddenError('Only the RFQ owner or committee chair can view consensus scores');
+    }
+  }
+}
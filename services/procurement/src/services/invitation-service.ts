@@ -325,6 +325,17 @@ export class InvitationService {
     return result.rows;
   }
 
+  // Businesses that accepted an invitation count as pre-qualified for the RFQ
+  async getPrequalifiedBusinessIds(rfqId: string): Promise<string[]> {
+    const result = await query(
+      `SELECT business_id FROM rfq_invitations
+       WHERE rfq_id = $1 AND status = 'accepted'`,
+      [rfqId]
+    );
+
+    return result.rows.map(row => row.business_id);
+  }
+
   async getInvitationStatistics(rfqId?: string, businessId?: string): Promise<any> {
     let whereClause = '1=1';
     let params: any[] = [];
@@ -0,0 +1,423 @@
+import { query, transaction } from '../utils/database';
+import { sendNotification } from '../utils/notifications';
+import { recordAuditEvent } from '../utils/audit';
+import { isBusinessOwner, getBusinessOwnerId } from '../utils/contract-parties';
+import { milestoneAmount } from '../utils/change-order-rules';
+import { logger } from '../utils/logger';
+import { v4 as uuidv4 } from 'uuid';
+import moment from 'moment';
+import { NotFoundError, ConflictError, ValidationError, ForbiddenError, BusinessLogicError } from '../middleware/error-handler';
+
+export interface MilestoneData {
+  title: string;
+  description?: string;
+  deliverables?: string[];
+  acceptance_criteria?: string[];
+  due_date: Date;
+  payment_percentage: number;
+}
+
+export interface MilestoneSubmission {
+  notes?: string;
+  evidence?: {
+    name: string;
+    url: string;
+  }[];
+}
+
+export interface MilestoneAcceptance {
+  criteria_results?: {
+    criterion: string;
+    met: boolean;
+    note?: string;
+  }[];
+  notes?: string;
+}
+
+// Days overdue at which each escalation level is reached
+const ESCALATION_THRESHOLDS = [0, 7, 30];
+
+export class MilestoneService {
+  // Creates the payment row and its milestone together; used at award time
+  // and when milestones are added to a running contract
+  async createMilestone(client: any, contract: any, milestone: MilestoneData): Promise<any> {
+    const paymentId = uuidv4();
+    const amount = milestoneAmount(contract.contract_value, milestone.payment_percentage);
+
+    await client.query(
+      `INSERT INTO contract_payments (
+        id, contract_id, milestone, percentage, due_date, status, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, NOW())`,
+      [paymentId, contract.id, milestone.title, milestone.payment_percentage, milestone.due_date, 'pending']
+    );
+
+    const result = await client.query(
+      `INSERT INTO contract_milestones (
+        id, contract_id, payment_id, title, description, deliverables,
+        acceptance_criteria, due_date, payment_percentage, amount,
+        status, escalation_level, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 0, NOW(), NOW())
+      RETURNING *`,
+      [
+        uuidv4(), contract.id, paymentId, milestone.title, milestone.description,
+        JSON.stringify(milestone.deliverables || []),
+        JSON.stringify(milestone.acceptance_criteria || []),
+        milestone.due_date, milestone.payment_percentage, amount, 'pending'
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  async addMilestone(contractId: string, milestone: MilestoneData, userId: string): Promise<any> {
+    const contract = await this.getContract(contractId);
+
+    if (contract.awarded_by !== userId) {
+      throw new ForbiddenError('Only contract awarder can add milestones');
+    }
+
+    if (['completed', 'terminated', 'cancelled'].includes(contract.status)) {
+      throw new ConflictError('Cannot add milestones to a closed contract');
+    }
+
+    const totalResult = await query(
+      `SELECT COALESCE(SUM(payment_percentage), 0) as total
+       FROM contract_milestones WHERE contract_id = $1`,
+      [contractId]
+    );
+
+    if (parseFloat(totalResult.rows[0].total) + milestone.payment_percentage > 100) {
+      throw new ValidationError('Milestone payments cannot exceed 100% of the contract value');
+    }
+
+    return transaction(async (client) => {
+      const created = await this.createMilestone(client, contract, milestone);
+
+      await recordAuditEvent({
+        entity_type: 'contract',
+        entity_id: contractId,
+        action: 'contract.milestone_added',
+        user_id: userId,
+        metadata: { milestone_id: created.id, title: milestone.title }
+      }, client);
+
+      return created;
+    });
+  }
+
+  async getMilestones(contractId: string, userId: string): Promise<any[]> {
+    const contract = await this.getContract(contractId);
+    await this.assertParty(contract, userId);
+
+    const result = await query(
+      `SELECT m.*, cp.status as payment_status, cp.paid_at
+       FROM contract_milestones m
+       LEFT JOIN contract_payments cp ON m.payment_id = cp.id
+       WHERE m.contract_id = $1
+       ORDER BY m.due_date ASC`,
+      [contractId]
+    );
+
+    return result.rows;
+  }
+
+  async submitMilestone(
+    contractId: string,
+    milestoneId: string,
+    submission: MilestoneSubmission,
+    userId: string
+  ): Promise<any> {
+    const contract = await this.getContract(contractId);
+
+    if (!(await isBusinessOwner(contract.business_id, userId))) {
+      throw new ForbiddenError('Only the contracted business can submit milestones');
+    }
+
+    const milestone = await this.getMilestone(contractId, milestoneId);
+    if (!['pending', 'in_progress', 'rejected'].includes(milestone.status)) {
+      throw new ConflictError(`Milestone is already ${milestone.status}`);
+    }
+
+    return transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE contract_milestones SET
+         status = 'submitted',
+         submission_notes = $1,
+         submission_evidence = $2,
+         submitted_by = $3,
+         submitted_at = NOW(),
+         updated_at = NOW()
+         WHERE id = $4 AND status IN ('pending', 'in_progress', 'rejected')
+         RETURNING *`,
+        [submission.notes, JSON.stringify(submission.evidence || []), userId, milestoneId]
+      );
+
+      if (result.rows.length === 0) {
+        throw new ConflictError('Milestone has already been submitted');
+      }
+
+      await recordAuditEvent({
+        entity_type: 'contract',
+        entity_id: contractId,
+        action: 'contract.milestone_submitted',
+        user_id: userId,
+        metadata: { milestone_id: milestoneId, evidence: submission.evidence }
+      }, client);
+
+      await sendNotification({
+        type: 'contract.milestone_submitted',
+        recipients: [contract.awarded_by],
+        data: { contractId, milestoneId, title: milestone.title },
+        priority: 'normal'
+      });
+
+      return result.rows[0];
+    });
+  }
+
+  async acceptMilestone(
+    contractId: string,
+    milestoneId: string,
+    acceptance: MilestoneAcceptance,
+    userId: string
+  ): Promise<any> {
+    const contract = await this.getContract(contractId);
+
+    if (contract.awarded_by !== userId) {
+      throw new ForbiddenError('Only the buyer can sign off milestones');
+    }
+
+    const milestone = await this.getMilestone(contractId, milestoneId);
+    if (milestone.status !== 'submitted') {
+      throw new ConflictError('Only submitted milestones can be accepted');
+    }
+
+    // Every acceptance criterion must be explicitly confirmed as met
+    const criteria: string[] = milestone.acceptance_criteria || [];
+    const results = acceptance.criteria_results || [];
+    const unmet = criteria.filter(criterion =>
+      !results.some(r => r.criterion === criterion && r.met)
+    );
+    if (unmet.length > 0) {
+      throw new BusinessLogicError('All acceptance criteria must be met before sign-off', { unmet });
+    }
+
+    return transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE contract_milestones SET
+         status = 'accepted',
+         acceptance_results = $1,
+         acceptance_notes = $2,
+         accepted_by = $3,
+         accepted_at = NOW(),
+         updated_at = NOW()
+         WHERE id = $4 AND status = 'submitted'
+         RETURNING *`,
+        [JSON.stringify(results), acceptance.notes, userId, milestoneId]
+      );
+
+      if (result.rows.length === 0) {
+        throw new ConflictError('Only submitted milestones can be accepted');
+      }
+
+      await recordAuditEvent({
+        entity_type: 'contract',
+        entity_id: contractId,
+        action: 'contract.milestone_accepted',
+        user_id: userId,
+        metadata: { milestone_id: milestoneId, criteria_results: results }
+      }, client);
+
+      await sendNotification({
+        type: 'contract.milestone_accepted',
+        recipients: [await getBusinessOwnerId(contract.business_id)],
+        data: { contractId, milestoneId, title: milestone.title },
+        priority: 'high'
+      });
+
+      return result.rows[0];
+    });
+  }
+
+  async rejectMilestone(
+    contractId: string,
+    milestoneId: string,
+    reason: string,
+    userId: string
+  ): Promise<any> {
+    const contract = await this.getContract(contractId);
+
+    if (contract.awarded_by !== userId) {
+      throw new ForbiddenError('Only the buyer can reject milestones');
+    }
+
+    const milestone = await this.getMilestone(contractId, milestoneId);
+    if (milestone.status !== 'submitted') {
+      throw new ConflictError('Only submitted milestones can be rejected');
+    }
+
+    return transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE contract_milestones SET
+         status = 'rejected',
+         rejection_reason = $1,
+         updated_at = NOW()
+         WHERE id = $2 AND status = 'submitted'
+         RETURNING *`,
+        [reason, milestoneId]
+      );
+
+      if (result.rows.length === 0) {
+        throw new ConflictError('Only submitted milestones can be rejected');
+      }
+
+      await recordAuditEvent({
+        entity_type: 'contract',
+        entity_id: contractId,
+        action: 'contract.milestone_rejected',
+        user_id: userId,
+        details: reason,
+        metadata: { milestone_id: milestoneId }
+      }, client);
+
+      await sendNotification({
+        type: 'contract.milestone_rejected',
+        recipients: [await getBusinessOwnerId(contract.business_id)],
+        data: { contractId, milestoneId, title: milestone.title, reason },
+        priority: 'high'
+      });
+
+      return result.rows[0];
+    });
+  }
+
+  // Resolves a milestone by its own id or by its payment schedule id
+  async getPayableMilestone(contractId: string, milestoneOrPaymentId: string): Promise<any> {
+    const result = await query(
+      `SELECT * FROM contract_milestones
+       WHERE contract_id = $1 AND (id = $2 OR payment_id = $2)`,
+      [contractId, milestoneOrPaymentId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Milestone not found');
+    }
+
+    if (result.rows[0].status !== 'accepted') {
+      throw new BusinessLogicError('Payment can only be released for an accepted milestone');
+    }
+
+    return result.rows[0];
+  }
+
+  async escalateOverdueMilestones(): Promise<number> {
+    const overdue = await query(
+      `SELECT m.*, c.awarded_by, c.business_id, r.title as rfq_title
+       FROM contract_milestones m
+       JOIN contracts c ON m.contract_id = c.id
+       LEFT JOIN rfqs r ON c.rfq_id = r.id
+       WHERE c.status = 'active'
+       AND m.status IN ('pending', 'in_progress', 'rejected')
+       AND m.due_date < NOW()`,
+      []
+    );
+
+    let escalated = 0;
+    for (const milestone of overdue.rows) {
+      const daysOverdue = moment().diff(moment(milestone.due_date), 'days');
+      const level = ESCALATION_THRESHOLDS.filter(days => daysOverdue >= days).length;
+
+      if (level <= (milestone.escalation_level || 0)) {
+        continue;
+      }
+
+      await query(
+        `UPDATE contract_milestones SET
+         escalation_level = $1,
+         last_escalated_at = NOW(),
+         updated_at = NOW()
+         WHERE id = $2`,
+        [level, milestone.id]
+      );
+
+      // Level 1 reminds the supplier, level 2 brings in the buyer, level 3
+      // flags the contract itself as at risk
+      const recipients = [await getBusinessOwnerId(milestone.business_id)];
+      if (level >= 2) {
+        recipients.push(milestone.awarded_by);
+      }
+
+      if (level >= 3) {
+        await query(
+          `UPDATE contracts SET at_risk = true, updated_at = NOW() WHERE id = $1`,
+          [milestone.contract_id]
+        );
+      }
+
+      await recordAuditEvent({
+        entity_type: 'contract',
+        entity_id: milestone.contract_id,
+        action: 'contract.milestone_escalated',
+        user_id: 'system',
+        details: `Milestone ${daysOverdue} days overdue`,
+        metadata: { milestone_id: milestone.id, escalation_level: level }
+      });
+
+      await sendNotification({
+        type: 'contract.milestone_overdue',
+        recipients,
+        data: {
+          contractId: milestone.contract_id,
+          milestoneId: milestone.id,
+          rfqTitle: milestone.rfq_title,
+          title: milestone.title,
+          dueDate: milestone.due_date,
+          daysOverdue,
+          escalationLevel: level
+        },
+        priority: level >= 2 ? 'high' : 'normal'
+      });
+
+      escalated++;
+    }
+
+    if (escalated > 0) {
+      logger.info(`Escalated ${escalated} overdue contract milestones`);
+    }
+
+    return escalated;
+  }
+
+  private async getContract(contractId: string): Promise<any> {
+    const result = await query(
+      `SELECT id, awarded_by, business_id, contract_value, end_date, status
+       FROM contracts WHERE id = $1`,
+      [contractId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Contract not found');
+    }
+
+    return result.rows[0];
+  }
+
+  private async getMilestone(contractId: string, milestoneId: string): Promise<any> {
+    const result = await query(
+      `SELECT * FROM contract_milestones WHERE id = $1 AND contract_id = $2`,
+      [milestoneId, contractId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Milestone not found');
+    }
+
+    return result.rows[0];
+  }
+
+  private async assertParty(contract: any, userId: string): Promise<void> {
+    if (contract.awarded_by !== userId && !(await isBusinessOwner(contract.business_id, userId))) {
+      throw new ForbiddenError('Only contract parties can view milestones');
+    }
+  }
+}
@@ -0,0 +1,413 @@
+import { query, transaction } from '../utils/database';
+import { sendNotification } from '../utils/notifications';
+import { recordAuditEvent } from '../utils/audit';
+import { isBusinessOwner, getBusinessOwnerId } from '../utils/contract-parties';
+import {
+  PerformanceDimension,
+  PerformanceRatings,
+  Scorecard,
+  validateRatings,
+  calculateScorecard
+} from '../utils/performance-scoring';
+import { v4 as uuidv4 } from 'uuid';
+import moment from 'moment';
+import { NotFoundError, ConflictError, ValidationError, ForbiddenError, BusinessLogicError } from '../middleware/error-handler';
+
+export interface PerformanceEvaluationData {
+  ratings: PerformanceRatings;
+  comments?: string;
+  // Share of contract labour performed by Indigenous workers, as delivered
+  indigenous_employment_percentage?: number;
+}
+
+export interface DisputeData {
+  reason: string;
+  disputed_dimensions: PerformanceDimension[];
+}
+
+export interface DisputeResolution {
+  outcome: 'upheld' | 'rejected';
+  notes: string;
+  // Replacement ratings when an upheld dispute corrects rather than voids the evaluation
+  revised_ratings?: PerformanceRatings;
+}
+
+// Businesses have this long after an evaluation is published to dispute it
+export const DISPUTE_WINDOW_DAYS = 30;
+
+export class PerformanceService {
+  // Called when a contract moves to completed
+  async requestEvaluation(contract: any): Promise<void> {
+    await sendNotification({
+      type: 'contract.performance_evaluation_requested',
+      recipients: [contract.awarded_by],
+      data: {
+        contractId: contract.id,
+        rfqTitle: contract.rfq_title,
+        businessName: contract.business_name
+      },
+      priority: 'normal'
+    });
+  }
+
+  async submitEvaluation(
+    contractId: string,
+    evaluation: PerformanceEvaluationData,
+    userId: string
+  ): Promise<any> {
+    const contract = await this.getContract(contractId);
+
+    if (contract.awarded_by !== userId) {
+      throw new ForbiddenError('Only the buyer can evaluate supplier performance');
+    }
+
+    if (contract.status !== 'completed') {
+      throw new ConflictError('Performance can only be evaluated on completed contracts');
+    }
+
+    const errors = validateRatings(evaluation.ratings);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid performance ratings', errors);
+    }
+
+    const created = await transaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO supplier_performance_evaluations (
+          id, contract_id, business_id, evaluator_id, ratings, comments,
+          indigenous_employment_percentage, status, submitted_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
+        ON CONFLICT (contract_id) DO NOTHING
+        RETURNING *`,
+        [
+          uuidv4(), contractId, contract.business_id, userId,
+          JSON.stringify(evaluation.ratings), evaluation.comments,
+          evaluation.indigenous_employment_percentage, 'submitted'
+        ]
+      );
+
+      if (result.rows.length === 0) {
+        throw new ConflictError('This contract has already been evaluated');
+      }
+
+      await recordAuditEvent({
+        entity_type: 'contract',
+        entity_id: contractId,
+        action: 'contract.performance_evaluated',
+        user_id: userId,
+        metadata: { evaluation_id: result.rows[0].id, ratings: evaluation.ratings }
+      }, client);
+
+      return result.rows[0];
+    });
+
+    const scorecard = await this.refreshScorecard(contract.business_id);
+
+    await sendNotification({
+      type: 'business.performance_evaluated',
+      recipients: [await getBusinessOwnerId(contract.business_id)],
+      data: {
+        contractId,
+        evaluationId: created.id,
+        rfqTitle: contract.rfq_title,
+        overallScore: scorecard.overall_score,
+        disputeDeadline: moment().add(DISPUTE_WINDOW_DAYS, 'days').toDate()
+      },
+      priority: 'normal'
+    });
+
+    return created;
+  }
+
+  async getEvaluation(contractId: string, userId: string): Promise<any> {
+    const contract = await this.getContract(contractId);
+
+    if (contract.awarded_by !== userId && !(await isBusinessOwner(contract.business_id, userId))) {
+      throw new ForbiddenError('Only contract parties can view the performance evaluation');
+    }
+
+    const result = await query(
+      `SELECT * FROM supplier_performance_evaluations WHERE contract_id = $1`,
+      [contractId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Contract has not been evaluated');
+    }
+
+    const disputes = await query(
+      `SELECT * FROM performance_evaluation_disputes
+       WHERE evaluation_id = $1
+       ORDER BY created_at ASC`,
+      [result.rows[0].id]
+    );
+
+    return { ...result.rows[0], disputes: disputes.rows };
+  }
+
+  // The business sees its individual evaluations; everyone else only the aggregate
+  async getScorecard(businessId: string, userId: string): Promise<any> {
+    const result = await query(
+      `SELECT * FROM supplier_scorecards WHERE business_id = $1`,
+      [businessId]
+    );
+
+    const scorecard = result.rows[0] || {
+      business_id: businessId,
+      overall_score: null,
+      evaluation_count: 0,
+      disputed_count: 0,
+      dimensions: []
+    };
+
+    if (!(await isBusinessOwner(businessId, userId))) {
+      return scorecard;
+    }
+
+    const evaluations = await query(
+      `SELECT e.*, r.title as rfq_title,
+        (SELECT json_agg(d ORDER BY d.created_at)
+         FROM performance_evaluation_disputes d WHERE d.evaluation_id = e.id) as disputes
+       FROM supplier_performance_evaluations e
+       JOIN contracts c ON e.contract_id = c.id
+       LEFT JOIN rfqs r ON c.rfq_id = r.id
+       WHERE e.business_id = $1
+       ORDER BY e.submitted_at DESC`,
+      [businessId]
+    );
+
+    return { ...scorecard, evaluations: evaluations.rows };
+  }
+
+  async disputeEvaluation(evaluationId: string, dispute: DisputeData, userId: string): Promise<any> {
+    const evaluation = await this.getEvaluationById(evaluationId);
+
+    if (!(await isBusinessOwner(evaluation.business_id, userId))) {
+      throw new ForbiddenError('Only the evaluated business can dispute its scores');
+    }
+
+    if (evaluation.status === 'voided') {
+      throw new ConflictError('Evaluation has been voided');
+    }
+
+    if (moment().isAfter(moment(evaluation.submitted_at).add(DISPUTE_WINDOW_DAYS, 'days'))) {
+      throw new BusinessLogicError(`Evaluations can only be disputed within ${DISPUTE_WINDOW_DAYS} days`);
+    }
+
+    const openResult = await query(
+      `SELECT id FROM performance_evaluation_disputes
+       WHERE evaluation_id = $1 AND status = 'open'`,
+      [evaluationId]
+    );
+
+    if (openResult.rows.length > 0) {
+      throw new ConflictError('A dispute is already open for this evaluation');
+    }
+
+    const created = await transaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO performance_evaluation_disputes (
+          id, evaluation_id, business_id, raised_by, reason,
+          disputed_dimensions, status, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+        RETURNING *`,
+        [
+          uuidv4(), evaluationId, evaluation.business_id, userId, dispute.reason,
+          JSON.stringify(dispute.disputed_dimensions), 'open'
+        ]
+      );
+
+      await client.query(
+        `UPDATE supplier_performance_evaluations SET status = 'disputed', updated_at = NOW()
+         WHERE id = $1`,
+        [evaluationId]
+      );
+
+      await recordAuditEvent({
+        entity_type: 'contract',
+        entity_id: evaluation.contract_id,
+        action: 'contract.performance_disputed',
+        user_id: userId,
+        details: dispute.reason,
+        metadata: { evaluation_id: evaluationId, dispute_id: result.rows[0].id }
+      }, client);
+
+      return result.rows[0];
+    });
+
+    await this.refreshScorecard(evaluation.business_id);
+
+    await sendNotification({
+      type: 'contract.performance_disputed',
+      recipients: [evaluation.evaluator_id],
+      data: {
+        contractId: evaluation.contract_id,
+        evaluationId,
+        disputeId: created.id,
+        disputedDimensions: dispute.disputed_dimensions
+      },
+      priority: 'high'
+    });
+
+    return created;
+  }
+
+  async resolveDispute(disputeId: string, resolution: DisputeResolution, userId: string): Promise<any> {
+    const disputeResult = await query(
+      `SELECT d.*, e.contract_id, e.evaluator_id
+       FROM performance_evaluation_disputes d
+       JOIN supplier_performance_evaluations e ON d.evaluation_id = e.id
+       WHERE d.id = $1`,
+      [disputeId]
+    );
+
+    if (disputeResult.rows.length === 0) {
+      throw new NotFoundError('Dispute not found');
+    }
+
+    const dispute = disputeResult.rows[0];
+
+    if (dispute.status !== 'open') {
+      throw new ConflictError(`Dispute is already ${dispute.status}`);
+    }
+
+    if (dispute.evaluator_id === userId) {
+      throw new ForbiddenError('The evaluator cannot resolve a dispute of their own evaluation');
+    }
+
+    if (resolution.revised_ratings) {
+      const errors = validateRatings(resolution.revised_ratings);
+      if (errors.length > 0) {
+        throw new ValidationError('Invalid revised ratings', errors);
+      }
+    }
+
+    // An upheld dispute either corrects the ratings or, without revised
+    // ratings, voids the evaluation; a rejected one reinstates it as scored
+    const evaluationStatus = resolution.outcome === 'rejected'
+      ? 'submitted'
+      : resolution.revised_ratings ? 'revised' : 'voided';
+
+    const resolved = await transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE performance_evaluation_disputes SET
+         status = $1,
+         resolution_notes = $2,
+         resolved_by = $3,
+         resolved_at = NOW()
+         WHERE id = $4
+         RETURNING *`,
+        [resolution.outcome, resolution.notes, userId, disputeId]
+      );
+
+      await client.query(
+        `UPDATE supplier_performance_evaluations SET
+         status = $1,
+         original_ratings = CASE WHEN $2::jsonb IS NULL THEN original_ratings ELSE COALESCE(original_ratings, ratings) END,
+         ratings = COALESCE($2::jsonb, ratings),
+         updated_at = NOW()
+         WHERE id = $3`,
+        [
+          evaluationStatus,
+          resolution.outcome === 'upheld' && resolution.revised_ratings
+            ? JSON.stringify(resolution.revised_ratings)
+            : null,
+          dispute.evaluation_id
+        ]
+      );
+
+      await recordAuditEvent({
+        entity_type: 'contract',
+        entity_id: dispute.contract_id,
+        action: `contract.performance_dispute_${resolution.outcome}`,
+        user_id: userId,
+        details: resolution.notes,
+        metadata: {
+          evaluation_id: dispute.evaluation_id,
+          dispute_id: disputeId,
+          evaluation_status: evaluationStatus,
+          revised_ratings: resolution.revised_ratings
+        }
+      }, client);
+
+      return result.rows[0];
+    });
+
+    const scorecard = await this.refreshScorecard(dispute.business_id);
+
+    await sendNotification({
+      type: 'contract.performance_dispute_resolved',
+      recipients: [dispute.raised_by, dispute.evaluator_id],
+      data: {
+        contractId: dispute.contract_id,
+        disputeId,
+        outcome: resolution.outcome,
+        notes: resolution.notes,
+        overallScore: scorecard.overall_score
+      },
+      priority: 'high'
+    });
+
+    return resolved;
+  }
+
+  // Recomputes the rolling scorecard the RFQ matchers read
+  async refreshScorecard(businessId: string): Promise<Scorecard> {
+    const result = await query(
+      `SELECT id, ratings, status, submitted_at
+       FROM supplier_performance_evaluations
+       WHERE business_id = $1`,
+      [businessId]
+    );
+
+    const scorecard = calculateScorecard(result.rows);
+
+    await query(
+      `INSERT INTO supplier_scorecards (
+        business_id, overall_score, evaluation_count, disputed_count,
+        dimensions, window_start, calculated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, NOW())
+      ON CONFLICT (business_id) DO UPDATE SET
+        overall_score = EXCLUDED.overall_score,
+        evaluation_count = EXCLUDED.evaluation_count,
+        disputed_count = EXCLUDED.disputed_count,
+        dimensions = EXCLUDED.dimensions,
+        window_start = EXCLUDED.window_start,
+        calculated_at = NOW()`,
+      [
+        businessId, scorecard.overall_score, scorecard.evaluation_count,
+        scorecard.disputed_count, JSON.stringify(scorecard.dimensions), scorecard.window_start
+      ]
+    );
+
+    return scorecard;
+  }
+
+  private async getContract(contractId: string): Promise<any> {
+    const result = await query(
+      `SELECT c.id, c.awarded_by, c.business_id, c.status, r.title as rfq_title
+       FROM contracts c
+       LEFT JOIN rfqs r ON c.rfq_id = r.id
+       WHERE c.id = $1`,
+      [contractId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Contract not found');
+    }
+
+    return result.rows[0];
+  }
+
+  private async getEvaluationById(evaluationId: string): Promise<any> {
+    const result = await query(
+      `SELECT * FROM supplier_performance_evaluations WHERE id = $1`,
+      [evaluationId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Performance evaluation not found');
+    }
+
+    return result.rows[0];
+  }
+}
@@ -0,0 +1,424 @@
+import { query, transaction } from '../utils/database';
+import { sendNotification } from '../utils/notifications';
+import { recordAuditEvent } from '../utils/audit';
+import { isChallengePeriodOver, isProtestResponseLate, protestResponseDueAt } from '../utils/challenge-deadlines';
+import { DebriefingService } from './debriefing-service';
+import { logger } from '../utils/logger';
+import { v4 as uuidv4 } from 'uuid';
+import { NotFoundError, ConflictError, ForbiddenError, BusinessLogicError } from '../middleware/error-handler';
+
+export interface ProtestDocument {
+  name: string;
+  url: string;
+  description?: string;
+}
+
+export interface ProtestData {
+  grounds: string;
+  remedy_sought: string;
+  documents?: ProtestDocument[];
+}
+
+export interface ProtestResponse {
+  response: string;
+  documents?: ProtestDocument[];
+}
+
+export interface ProtestResolution {
+  outcome: 'upheld' | 'partially_upheld' | 'dismissed';
+  resolution: string;
+  remedy?: string;
+}
+
+const OPEN_PROTEST_STATUSES = ['filed', 'under_review'];
+
+export class ProtestService {
+  private debriefingService = new DebriefingService();
+
+  async fileProtest(rfqId: string, protest: ProtestData, businessId: string, userId: string): Promise<any> {
+    const { contract, bid } = await this.debriefingService.getUnsuccessfulBid(rfqId, businessId);
+
+    if (isChallengePeriodOver(contract)) {
+      throw new BusinessLogicError('The protest period for this award has ended');
+    }
+
+    const existing = await query(
+      `SELECT id FROM rfq_protests
+       WHERE rfq_id = $1 AND business_id = $2 AND status = ANY($3)`,
+      [rfqId, businessId, OPEN_PROTEST_STATUSES]
+    );
+
+    if (existing.rows.length > 0) {
+      throw new ConflictError('You already have an open protest on this award');
+    }
+
+    const responseDueAt = protestResponseDueAt();
+
+    const created = await transaction(async (client) => {
+      const numberResult = await client.query(
+        `SELECT COALESCE(MAX(protest_number), 0) + 1 as next_number
+         FROM rfq_protests WHERE rfq_id = $1`,
+        [rfqId]
+      );
+
+      const result = await client.query(
+        `INSERT INTO rfq_protests (
+          id, rfq_id, contract_id, bid_id, business_id, filed_by, protest_number,
+          grounds, remedy_sought, status, response_due_at, filed_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW(), NOW())
+        RETURNING *`,
+        [
+          uuidv4(), rfqId, contract.id, bid.id, businessId, userId,
+          numberResult.rows[0].next_number, protest.grounds, protest.remedy_sought,
+          'filed', responseDueAt
+        ]
+      );
+
+      for (const document of protest.documents || []) {
+        await this.insertDocument(client, result.rows[0].id, document, 'protester', userId);
+      }
+
+      await recordAuditEvent({
+        entity_type: 'rfq',
+        entity_id: rfqId,
+        action: 'rfq.protest_filed',
+        user_id: userId,
+        details: protest.grounds,
+        metadata: {
+          protest_id: result.rows[0].id,
+          business_id: businessId,
+          remedy_sought: protest.remedy_sought,
+          response_due_at: responseDueAt
+        }
+      }, client);
+
+      return result.rows[0];
+    });
+
+    await sendNotification({
+      type: 'rfq.protest_filed',
+      recipients: [contract.awarded_by],
+      data: {
+        rfqId,
+        protestId: created.id,
+        protestNumber: created.protest_number,
+        rfqTitle: contract.rfq_title,
+        responseDueAt
+      },
+      priority: 'high'
+    });
+
+    return created;
+  }
+
+  async respondToProtest(protestId: string, response: ProtestResponse, userId: string): Promise<any> {
+    const protest = await this.getProtestRecord(protestId);
+
+    if (protest.awarded_by !== userId) {
+      throw new ForbiddenError('Only the buyer can respond to a protest');
+    }
+
+    if (protest.status !== 'filed') {
+      throw new ConflictError(`Protest is already ${protest.status}`);
+    }
+
+    const updated = await transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE rfq_protests SET
+         buyer_response = $1,
+         responded_by = $2,
+         responded_at = NOW(),
+         status = 'under_review',
+         updated_at = NOW()
+         WHERE id = $3
+         RETURNING *`,
+        [response.response, userId, protestId]
+      );
+
+      for (const document of response.documents || []) {
+        await this.insertDocument(client, protestId, document, 'buyer', userId);
+      }
+
+      await recordAuditEvent({
+        entity_type: 'rfq',
+        entity_id: protest.rfq_id,
+        action: 'rfq.protest_responded',
+        user_id: userId,
+        metadata: {
+          protest_id: protestId,
+          late: isProtestResponseLate(protest.response_due_at)
+        }
+      }, client);
+
+      return result.rows[0];
+    });
+
+    await sendNotification({
+      type: 'rfq.protest_responded',
+      recipients: [protest.filed_by],
+      data: { rfqId: protest.rfq_id, protestId, protestNumber: protest.protest_number },
+      priority: 'high'
+    });
+
+    return updated;
+  }
+
+  async addDocument(protestId: string, document: ProtestDocument, userId: string, businessId?: string): Promise<any> {
+    const protest = await this.getProtestRecord(protestId);
+    const party = this.getParty(protest, userId, businessId);
+
+    if (!OPEN_PROTEST_STATUSES.includes(protest.status)) {
+      throw new ConflictError('Documents can only be added to an open protest');
+    }
+
+    const created = await transaction(async (client) => {
+      const row = await this.insertDocument(client, protestId, document, party, userId);
+
+      await recordAuditEvent({
+        entity_type: 'rfq',
+        entity_id: protest.rfq_id,
+        action: 'rfq.protest_document_added',
+        user_id: userId,
+        metadata: { protest_id: protestId, document_id: row.id, party, name: document.name }
+      }, client);
+
+      return row;
+    });
+
+    await sendNotification({
+      type: 'rfq.protest_document_added',
+      recipients: [party === 'buyer' ? protest.filed_by : protest.awarded_by],
+      data: { rfqId: protest.rfq_id, protestId, documentName: document.name },
+      priority: 'normal'
+    });
+
+    return created;
+  }
+
+  async withdrawProtest(protestId: string, userId: string, businessId?: string): Promise<any> {
+    const protest = await this.getProtestRecord(protestId);
+
+    if (this.getParty(protest, userId, businessId) !== 'protester') {
+      throw new ForbiddenError('Only the protesting business can withdraw a protest');
+    }
+
+    if (!OPEN_PROTEST_STATUSES.includes(protest.status)) {
+      throw new ConflictError(`Protest is already ${protest.status}`);
+    }
+
+    return this.close(protest, 'withdrawn', userId, { resolution: 'Withdrawn by protester' });
+  }
+
+  // Decided by a reviewer independent of the buyer who made the award
+  async resolveProtest(protestId: string, resolution: ProtestResolution, userId: string): Promise<any> {
+    const protest = await this.getProtestRecord(protestId);
+
+    if (protest.awarded_by === userId || protest.filed_by === userId) {
+      throw new ForbiddenError('Protests must be resolved by an independent reviewer');
+    }
+
+    if (!OPEN_PROTEST_STATUSES.includes(protest.status)) {
+      throw new ConflictError(`Protest is already ${protest.status}`);
+    }
+
+    return this.close(protest, 'resolved', userId, resolution);
+  }
+
+  async getProtest(protestId: string, userId: string, businessId?: string, isReviewer: boolean = false): Promise<any> {
+    const protest = await this.getProtestRecord(protestId);
+
+    if (!isReviewer) {
+      this.getParty(protest, userId, businessId);
+    }
+
+    const documents = await query(
+      `SELECT * FROM rfq_protest_documents WHERE protest_id = $1 ORDER BY submitted_at ASC`,
+      [protestId]
+    );
+
+    return { ...protest, documents: documents.rows };
+  }
+
+  async getProtests(rfqId: string, userId: string, businessId?: string): Promise<any[]> {
+    const rfqResult = await query(`SELECT created_by FROM rfqs WHERE id = $1`, [rfqId]);
+    if (rfqResult.rows.length === 0) {
+      throw new NotFoundError('RFQ not found');
+    }
+
+    const isBuyer = rfqResult.rows[0].created_by === userId;
+    if (!isBuyer && !businessId) {
+      throw new ForbiddenError('Only the buyer or protesting businesses can view protests');
+    }
+
+    const result = await query(
+      `SELECT p.*, bs.business_name
+       FROM rfq_protests p
+       LEFT JOIN businesses bs ON p.business_id = bs.id
+       WHERE p.rfq_id = $1 ${isBuyer ? '' : 'AND p.business_id = $2'}
+       ORDER BY p.protest_number ASC`,
+      isBuyer ? [rfqId] : [rfqId, businessId]
+    );
+
+    return result.rows;
+  }
+
+  // Open protests suspend standstill: the contract cannot start until they close
+  async assertNoOpenProtests(rfqId: string): Promise<void> {
+    const result = await query(
+      `SELECT protest_number FROM rfq_protests
+       WHERE rfq_id = $1 AND status = ANY($2)
+       ORDER BY protest_number ASC`,
+      [rfqId, OPEN_PROTEST_STATUSES]
+    );
+
+    if (result.rows.length > 0) {
+      throw new BusinessLogicError('The award is under protest', {
+        open_protests: result.rows.map(row => row.protest_number)
+      });
+    }
+  }
+
+  // Reminds buyers of protests past their response deadline, once
+  async escalateOverdueProtests(): Promise<number> {
+    const overdue = await query(
+      `SELECT p.*, c.awarded_by
+       FROM rfq_protests p
+       JOIN contracts c ON p.contract_id = c.id
+       WHERE p.status = 'filed' AND p.response_due_at < NOW()
+       AND p.escalated_at IS NULL`,
+      []
+    );
+
+    for (const protest of overdue.rows) {
+      await query(
+        `UPDATE rfq_protests SET escalated_at = NOW(), updated_at = NOW() WHERE id = $1`,
+        [protest.id]
+      );
+
+      await recordAuditEvent({
+        entity_type: 'rfq',
+        entity_id: protest.rfq_id,
+        action: 'rfq.protest_response_overdue',
+        user_id: 'system',
+        metadata: { protest_id: protest.id, response_due_at: protest.response_due_at }
+      });
+
+      await sendNotification({
+        type: 'rfq.protest_response_overdue',
+        recipients: [protest.awarded_by, protest.filed_by],
+        data: {
+          rfqId: protest.rfq_id,
+          protestId: protest.id,
+          protestNumber: protest.protest_number,
+          responseDueAt: protest.response_due_at
+        },
+        priority: 'high'
+      });
+    }
+
+    if (overdue.rows.length > 0) {
+      logger.info(`Escalated ${overdue.rows.length} overdue bid protests`);
+    }
+
+    return overdue.rows.length;
+  }
+
+  private async close(
+    protest: any,
+    status: 'resolved' | 'withdrawn',
+    userId: string,
+    resolution: Partial<ProtestResolution>
+  ): Promise<any> {
+    const updated = await transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE rfq_protests SET
+         status = $1,
+         outcome = $2,
+         resolution = $3,
+         remedy = $4,
+         resolved_by = $5,
+         resolved_at = NOW(),
+         updated_at = NOW()
+         WHERE id = $6
+         RETURNING *`,
+        [status, resolution.outcome, resolution.resolution, resolution.remedy, userId, protest.id]
+      );
+
+      await recordAuditEvent({
+        entity_type: 'rfq',
+        entity_id: protest.rfq_id,
+        action: `rfq.protest_${status}`,
+        user_id: userId,
+        details: resolution.resolution,
+        metadata: {
+          protest_id: protest.id,
+          outcome: resolution.outcome,
+          remedy: resolution.remedy
+        }
+      }, client);
+
+      return result.rows[0];
+    });
+
+    await sendNotification({
+      type: `rfq.protest_${status}`,
+      recipients: [protest.awarded_by, protest.filed_by],
+      data: {
+        rfqId: protest.rfq_id,
+        protestId: protest.id,
+        protestNumber: protest.protest_number,
+        outcome: resolution.outcome,
+        remedy: resolution.remedy
+      },
+      priority: 'high'
+    });
+
+    return updated;
+  }
+
+  private getParty(protest: any, userId: string, businessId?: string): 'buyer' | 'protester' {
+    if (protest.awarded_by === userId) {
+      return 'buyer';
+    }
+
+    if (businessId && protest.business_id === businessId) {
+      return 'protester';
+    }
+
+    throw new ForbiddenError('Only parties to the protest can do this');
+  }
+
+  private async insertDocument(
+    client: any,
+    protestId: string,
+    document: ProtestDocument,
+    party: 'buyer' | 'protester',
+    userId: string
+  ): Promise<any> {
+    const result = await client.query(
+      `INSERT INTO rfq_protest_documents (
+        id, protest_id, name, url, description, party, submitted_by, submitted_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+      RETURNING *`,
+      [uuidv4(), protestId, document.name, document.url, document.description, party, userId]
+    );
+
+    return result.rows[0];
+  }
+
+  private async getProtestRecord(protestId: string): Promise<any> {
+    const result = await query(
+      `SELECT p.*, c.awarded_by
+       FROM rfq_protests p
+       JOIN contracts c ON p.contract_id = c.id
+       WHERE p.id = $1`,
+      [protestId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Protest not found');
+    }
+
+    return result.rows[0];
+  }
+}
@@ -2,6 +2,11 @@ import { query, transaction } from '../utils/database';
 import { cacheRFQ, getCachedRFQ, invalidateRFQCache, getCachedRFQMatches, cacheRFQMatches } from '../utils/redis';
 import { indexRFQ, searchRFQs, findMatchingRFQs } from '../utils/elasticsearch';
 import { notifyNewRFQ, notifyRFQClosure, notifyRFQDeadlineReminder } from '../utils/notifications';
+import { generateSealingKey } from '../utils/bid-sealing';
+import { AddendumService } from './addendum-service';
+import { applyClosingExtension, diffFields } from '../utils/addendum-rules';
+import { ClassificationService, MATCH_THRESHOLD } from './classification-service';
+import { CodeRef, normalizeCode, WeightedCode } from '../utils/classification-codes';
 import { logger } from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
 import slug from 'slug';
@@ -25,11 +30,17 @@ export interface RFQData {
   budget_max?: number;
   timeline_days: number;
   skills_required?: string[];
+  classification_codes?: CodeRef[]; // UNSPSC, GSIN or NAICS
   requirements?: string;
   deliverables?: string;
   evaluation_criteria?: string;
   indigenous_only?: boolean;
+  sealed_bids?: boolean;
+  opening_witnesses_required?: number;
+  bid_security_type?: 'none' | 'bid_bond' | 'deposit' | 'either';
+  bid_security_amount?: number;
   closing_date: Date;
+  question_cutoff_date?: Date;
   documents?: {
     name: string;
     url: string;
@@ -57,7 +68,14 @@ export interface RFQFilters {
   order?: string;
 }
 
+export interface RFQUpdate extends Partial<RFQData> {
+  addendum_summary?: string;
+}
+
 export class RFQService {
+  private addendumService = new AddendumService();
+  private classificationService = new ClassificationService();
+
   async createRFQ(rfqData: RFQData, createdBy: string, governmentEntity: string): Promise<any> {
     return transaction(async (client) => {
       const rfqId = uuidv4();
@@ -69,20 +87,36 @@ export class RFQService {
           id, created_by, government_entity, title, slug, description,
           category, subcategory, budget_min, budget_max, timeline_days,
           requirements, deliverables, evaluation_criteria,
-          indigenous_only, closing_date, status, created_at, updated_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, NOW(), NOW())
+          indigenous_only, sealed_bids, opening_witnesses_required,
+          bid_security_type, bid_security_amount,
+          closing_date, question_cutoff_date, status, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, NOW(), NOW())
         RETURNING *`,
         [
           rfqId, createdBy, governmentEntity, rfqData.title, rfqSlug,
           rfqData.description, rfqData.category, rfqData.subcategory,
           rfqData.budget_min, rfqData.budget_max, rfqData.timeline_days,
           rfqData.requirements, rfqData.deliverables, rfqData.evaluation_criteria,
-          rfqData.indigenous_only || false, rfqData.closing_date, 'open'
+          rfqData.indigenous_only || false, rfqData.sealed_bids || false,
+          rfqData.opening_witnesses_required || 2,
+          rfqData.bid_security_type || 'none', rfqData.bid_security_amount,
+          rfqData.closing_date,
+          rfqData.question_cutoff_date, 'open'
         ]
       );
 
       const rfq = rfqResult.rows[0];
 
+      // Sealed RFQs keep their bid data key apart from the rfqs row so it
+      // never leaves the service with the RFQ itself
+      if (rfqData.sealed_bids) {
+        await client.query(
+          `INSERT INTO rfq_sealing_keys (rfq_id, wrapped_key, created_at)
+           VALUES ($1, $2, NOW())`,
+          [rfqId, generateSealingKey()]
+        );
+      }
+
       // Add location
       await client.query(
         `INSERT INTO rfq_locations (
@@ -113,6 +147,15 @@ export class RFQService {
         }
       }
 
+      // Add classification codes
+      for (const ref of rfqData.classification_codes || []) {
+        await client.query(
+          `INSERT INTO rfq_classification_codes (rfq_id, code_system, code) VALUES ($1, $2, $3)
+           ON CONFLICT DO NOTHING`,
+          [rfqId, ref.system, normalizeCode(ref.system, ref.code)]
+        );
+      }
+
       // Add documents
       if (rfqData.documents && rfqData.documents.length > 0) {
         for (const doc of rfqData.documents) {
@@ -145,7 +188,7 @@ export class RFQService {
       await cacheRFQ(rfqId, rfq);
 
       // Send notifications to matching businesses
-      const matchingBusinesses = await this.findMatchingBusinesses(rfq);
+      const matchingBusinesses = await this.findMatchingBusinesses(rfq, rfqData.classification_codes);
       if (matchingBusinesses.length > 0) {
         await notifyNewRFQ(rfq, matchingBusinesses.map(b => b.id));
       }
@@ -201,7 +244,7 @@ export class RFQService {
     return rfq;
   }
 
-  async updateRFQ(rfqId: string, updates: Partial<RFQData>, userId: string): Promise<any> {
+  async updateRFQ(rfqId: string, updates: RFQUpdate, userId: string): Promise<any> {
     // Check if RFQ exists and user has permission
     const existing = await this.getRFQById(rfqId);
     if (existing.created_by !== userId) {
@@ -214,38 +257,55 @@ export class RFQService {
 
     const allowedFields = [
       'title', 'description', 'budget_min', 'budget_max', 'timeline_days',
-      'requirements', 'deliverables', 'evaluation_criteria', 'closing_date'
+      'requirements', 'deliverables', 'evaluation_criteria', 'closing_date',
+      'question_cutoff_date'
     ];
 
-    const updateFields = [];
-    const updateValues = [];
-    let paramCount = 1;
-
-    for (const [key, value] of Object.entries(updates)) {
-      if (allowedFields.includes(key) && value !== undefined) {
-        updateFields.push(`${key} = $${paramCount}`);
-        updateValues.push(value);
-        paramCount++;
-      }
+    // Every change to an open RFQ is issued as a numbered addendum
+    const requested = diffFields(existing, updates, allowedFields);
+    if (requested.length === 0) {
+      throw new ValidationError('No valid fields to update');
     }
 
-    if (updateFields.length === 0) {
-      throw new ValidationError('No valid fields to update');
+    // Late addenda push the closing date out so bidders can respond
+    const changes = applyClosingExtension(requested, existing.closing_date);
+
+    const updateFields: string[] = [];
+    const updateValues: any[] = [];
+    let paramCount = 1;
+
+    for (const change of changes) {
+      updateFields.push(`${change.field} = $${paramCount}`);
+      updateValues.push(change.to);
+      paramCount++;
     }
 
+    updateFields.push(`current_version = COALESCE(current_version, 1) + 1`);
     updateFields.push(`updated_at = NOW()`);
     updateValues.push(rfqId);
 
-    const result = await query(
-      `UPDATE rfqs SET ${updateFields.join(', ')} 
-       WHERE id = $${paramCount} AND deleted_at IS NULL
-       RETURNING *`,
-      updateValues
-    );
+    const { rfq, addendum } = await transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE rfqs SET ${updateFields.join(', ')} 
+         WHERE id = $${paramCount} AND deleted_at IS NULL
+         RETURNING *`,
+        updateValues
+      );
 
-    if (result.rows.length === 0) {
-      throw new NotFoundError('RFQ not found');
-    }
+      if (result.rows.length === 0) {
+        throw new NotFoundError('RFQ not found');
+      }
+
+      const addendum = await this.addendumService.recordAddendum(client, {
+        rfq_id: rfqId,
+        version: result.rows[0].current_version,
+        summary: updates.addendum_summary,
+        changes,
+        issued_by: userId
+      });
+
+      return { rfq: result.rows[0], addendum };
+    });
 
     // Invalidate cache
     await invalidateRFQCache(rfqId);
@@ -254,7 +314,9 @@ export class RFQService {
     const updatedRFQ = await this.getRFQById(rfqId);
     await indexRFQ(updatedRFQ);
 
-    return result.rows[0];
+    await this.addendumService.notifyAffectedBusinesses(rfq, addendum);
+
+    return { ...rfq, addendum };
   }
 
   async closeRFQ(rfqId: string, userId: string, reason?: string): Promise<any> {
@@ -527,8 +589,10 @@ export class RFQService {
     }
   }
 
-  private async findMatchingBusinesses(rfq: any): Promise<any[]> {
-    const result = await query(
+  // Businesses whose capability codes sit close to the RFQ's in the UNSPSC,
+  // GSIN or NAICS hierarchies, plus exact industry or skill matches
+  private async findMatchingBusinesses(rfq: any, codes?: CodeRef[]): Promise<any[]> {
+    const exact = await query(
       `SELECT DISTINCT b.id, b.business_name
        FROM businesses b
        LEFT JOIN business_industries i ON b.id = i.business_id
@@ -540,7 +604,60 @@ export class RFQService {
       [rfq.category, rfq.skills_required || [], rfq.indigenous_only]
     );
 
-    return result.rows;
+    const matches = new Map<string, any>();
+    for (const row of exact.rows) {
+      matches.set(row.id, { ...row, match_score: 1, matched_on: 'industry_or_skill' });
+    }
+
+    try {
+      const rfqCodes = codes && codes.length > 0 ? codes : await this.classificationService.getRFQCodes(rfq);
+      if (rfqCodes.length > 0) {
+        // Narrow to businesses with a code in the same top-level groups
+        const candidates = await query(
+          `SELECT b.id, b.business_name, c.code_system, c.code, c.weight
+           FROM businesses b
+           JOIN (
+             SELECT business_id, code_system, code, weight FROM business_capability_codes
+             UNION ALL
+             SELECT business_id, 'naics', industry_code, 0.9 FROM business_industries
+             WHERE industry_code ~ '^[0-9]{2,6}$'
+           ) c ON c.business_id = b.id
+           WHERE b.status = 'verified'
+           AND ($1 = false OR b.indigenous_owned = true)
+           AND c.code_system || ':' || left(c.code, CASE WHEN c.code_system = 'gsin' THEN 1 ELSE 2 END) = ANY($2)`,
+          [rfq.indigenous_only, await this.classificationService.codeGroups(rfqCodes)]
+        );
+
+        const names = new Map<string, string>();
+        const profiles = new Map<string, WeightedCode[]>();
+        for (const row of candidates.rows) {
+          names.set(row.id, row.business_name);
+          profiles.set(row.id, [
+            ...(profiles.get(row.id) || []),
+            { system: row.code_system, code: row.code, weight: Number(row.weight) }
+          ]);
+        }
+
+        const scores = await this.classificationService.scoreBusinesses(rfqCodes, profiles);
+        for (const [businessId, match] of scores) {
+          if (match.score < MATCH_THRESHOLD || matches.has(businessId)) continue;
+          matches.set(businessId, {
+            id: businessId,
+            business_name: names.get(businessId),
+            match_score: match.score,
+            matched_on: 'classification',
+            rfq_code: match.rfq_code,
+            business_code: match.business_code
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Classification matching failed, using industry and skill matches only:', error);
+    }
+
+    return Array.from(matches.values())
+      .sort((a, b) => b.match_score - a.match_score)
+      .slice(0, 100);
   }
 
   async scheduleDeadlineReminders(): Promise<void> {
@@ -0,0 +1,752 @@
+import { query, transaction } from '../utils/database';
+import { sendNotification } from '../utils/notifications';
+import { recordAuditEvent } from '../utils/audit';
+import { getBusinessOwnerId } from '../utils/contract-parties';
+import {
+  AllocationMethod,
+  ArrangementRate,
+  CallUpLine,
+  PoolSupplier,
+  priceCallUp,
+  selectSupplier
+} from '../utils/arrangement-pricing';
+import { TemplateService } from './template-service';
+import { v4 as uuidv4 } from 'uuid';
+import { NotFoundError, ConflictError, ValidationError, ForbiddenError, BusinessLogicError } from '../middleware/error-handler';
+
+export interface ArrangementData {
+  // Standing offers fix prices for direct call-ups; supply arrangements
+  // qualify suppliers at ceiling prices and compete every requirement
+  arrangement_type: 'standing_offer' | 'supply_arrangement';
+  title: string;
+  description?: string;
+  category: string;
+  ceiling_value: number;
+  valid_from: Date;
+  valid_until: Date;
+  direct_call_up_limit?: number;
+  allocation_method?: AllocationMethod;
+  indigenous_only?: boolean;
+  call_up_template_id?: string;
+}
+
+export interface SupplierQualification {
+  business_id: string;
+  rates: ArrangementRate[];
+  notes?: string;
+}
+
+export interface CallUpData {
+  title?: string;
+  description?: string;
+  template_id?: string;
+  lines: CallUpLine[];
+  delivery_date: Date;
+  // Direct call-ups only; otherwise the allocation method picks the supplier
+  business_id?: string;
+  // Mini-competitions only
+  competition_closing_date?: Date;
+}
+
+export interface CallUpQuote {
+  amount: number;
+  notes?: string;
+}
+
+// Call-ups in these states count against the arrangement ceiling
+const COMMITTED_CALL_UP_STATUSES = ['issued', 'accepted', 'completed'];
+
+// The buyer is warned once committed spend crosses this share of the ceiling
+export const CEILING_ALERT_THRESHOLD = 0.8;
+
+export class StandingOfferService {
+  private templateService = new TemplateService();
+
+  async createArrangement(data: ArrangementData, userId: string, governmentEntity: string): Promise<any> {
+    if (new Date(data.valid_until) <= new Date(data.valid_from)) {
+      throw new ValidationError('Arrangement must expire after it takes effect');
+    }
+
+    if (data.call_up_template_id) {
+      // Confirms the buyer can use the template
+      await this.templateService.getTemplateById(data.call_up_template_id, userId);
+    }
+
+    const result = await query(
+      `INSERT INTO procurement_arrangements (
+        id, arrangement_type, title, description, category, ceiling_value,
+        valid_from, valid_until, direct_call_up_limit, allocation_method,
+        indigenous_only, call_up_template_id, government_entity, status,
+        created_by, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, 'active', $14, NOW(), NOW())
+      RETURNING *`,
+      [
+        uuidv4(), data.arrangement_type, data.title, data.description, data.category,
+        data.ceiling_value, data.valid_from, data.valid_until, data.direct_call_up_limit,
+        data.allocation_method || 'lowest_price', data.indigenous_only || false,
+        data.call_up_template_id, governmentEntity, userId
+      ]
+    );
+
+    await recordAuditEvent({
+      entity_type: 'arrangement',
+      entity_id: result.rows[0].id,
+      action: 'arrangement.created',
+      user_id: userId,
+      metadata: {
+        arrangement_type: data.arrangement_type,
+        ceiling_value: data.ceiling_value
+      }
+    });
+
+    return result.rows[0];
+  }
+
+  async qualifySupplier(arrangementId: string, qualification: SupplierQualification, userId: string): Promise<any> {
+    const arrangement = await this.getArrangementRecord(arrangementId);
+    this.assertOwner(arrangement, userId);
+
+    if (arrangement.status !== 'active') {
+      throw new ConflictError('Suppliers can only be qualified on active arrangements');
+    }
+
+    const businessResult = await query(
+      `SELECT id, business_name, indigenous_owned FROM businesses WHERE id = $1`,
+      [qualification.business_id]
+    );
+
+    if (businessResult.rows.length === 0) {
+      throw new NotFoundError('Business not found');
+    }
+
+    if (arrangement.indigenous_only && !businessResult.rows[0].indigenous_owned) {
+      throw new BusinessLogicError('This arrangement is restricted to Indigenous-owned businesses');
+    }
+
+    const result = await query(
+      `INSERT INTO arrangement_suppliers (
+        id, arrangement_id, business_id, rates, notes, status,
+        qualified_by, qualified_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, 'qualified', $6, NOW(), NOW())
+      ON CONFLICT (arrangement_id, business_id) DO NOTHING
+      RETURNING *`,
+      [
+        uuidv4(), arrangementId, qualification.business_id,
+        JSON.stringify(qualification.rates), qualification.notes, userId
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      throw new ConflictError('Business is already in this arrangement\'s supplier pool');
+    }
+
+    await recordAuditEvent({
+      entity_type: 'arrangement',
+      entity_id: arrangementId,
+      action: 'arrangement.supplier_qualified',
+      user_id: userId,
+      metadata: { business_id: qualification.business_id, rate_count: qualification.rates.length }
+    });
+
+    await sendNotification({
+      type: 'arrangement.supplier_qualified',
+      recipients: [await getBusinessOwnerId(qualification.business_id)],
+      data: {
+        arrangementId,
+        arrangementTitle: arrangement.title,
+        arrangementType: arrangement.arrangement_type,
+        validUntil: arrangement.valid_until
+      },
+      priority: 'normal'
+    });
+
+    return result.rows[0];
+  }
+
+  async updateSupplierStatus(
+    arrangementId: string,
+    businessId: string,
+    status: 'qualified' | 'suspended',
+    reason: string,
+    userId: string
+  ): Promise<any> {
+    const arrangement = await this.getArrangementRecord(arrangementId);
+    this.assertOwner(arrangement, userId);
+
+    const result = await query(
+      `UPDATE arrangement_suppliers SET
+       status = $1,
+       status_reason = $2,
+       updated_at = NOW()
+       WHERE arrangement_id = $3 AND business_id = $4
+       RETURNING *`,
+      [status, reason, arrangementId, businessId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Business is not in this arrangement\'s supplier pool');
+    }
+
+    await recordAuditEvent({
+      entity_type: 'arrangement',
+      entity_id: arrangementId,
+      action: status === 'suspended' ? 'arrangement.supplier_suspended' : 'arrangement.supplier_reinstated',
+      user_id: userId,
+      details: reason,
+      metadata: { business_id: businessId }
+    });
+
+    return result.rows[0];
+  }
+
+  async getArrangement(arrangementId: string, userId: string, businessId?: string): Promise<any> {
+    const arrangement = await this.getArrangementRecord(arrangementId);
+    const spend = await this.getSpendSummary(arrangementId, arrangement.ceiling_value);
+
+    if (arrangement.created_by === userId) {
+      const suppliers = await query(
+        `SELECT s.*, b.business_name, b.indigenous_owned
+         FROM arrangement_suppliers s
+         LEFT JOIN businesses b ON s.business_id = b.id
+         WHERE s.arrangement_id = $1
+         ORDER BY s.qualified_at ASC`,
+        [arrangementId]
+      );
+
+      return { ...arrangement, spend, suppliers: suppliers.rows };
+    }
+
+    const membership = businessId ? await this.getPoolMember(arrangementId, businessId) : null;
+    if (!membership) {
+      throw new ForbiddenError('Only the buyer and qualified suppliers can view this arrangement');
+    }
+
+    // Suppliers see their own standing, not the rest of the pool or overall spend
+    return { ...arrangement, your_rates: membership.rates, your_status: membership.status };
+  }
+
+  async getArrangementsForBusiness(businessId: string): Promise<any[]> {
+    const result = await query(
+      `SELECT a.*, s.status as supplier_status, s.rates,
+        (SELECT COUNT(*) FROM arrangement_call_ups c
+         WHERE c.arrangement_id = a.id AND c.business_id = s.business_id) as call_up_count
+       FROM arrangement_suppliers s
+       JOIN procurement_arrangements a ON s.arrangement_id = a.id
+       WHERE s.business_id = $1
+       ORDER BY a.valid_until DESC`,
+      [businessId]
+    );
+
+    return result.rows;
+  }
+
+  async issueCallUp(arrangementId: string, data: CallUpData, userId: string): Promise<any> {
+    const arrangement = await this.getArrangementRecord(arrangementId);
+    this.assertOwner(arrangement, userId);
+    this.assertInEffect(arrangement);
+
+    const details = await this.fillFromTemplate(arrangement, data, userId);
+    const pool = await this.getQualifiedPool(arrangementId);
+
+    // Estimate against the cheapest rated supplier to decide if a direct call-up is allowed
+    const cheapest = selectSupplier(pool, data.lines, 'lowest_price');
+    if (!cheapest) {
+      throw new BusinessLogicError('No qualified supplier has rates for every item on this call-up');
+    }
+
+    const competition = arrangement.arrangement_type === 'supply_arrangement'
+      || (arrangement.direct_call_up_limit !== null
+        && cheapest.priced.total > parseFloat(arrangement.direct_call_up_limit));
+
+    if (competition) {
+      return this.openMiniCompetition(arrangement, data, details, pool, userId);
+    }
+
+    let chosen = selectSupplier(pool, data.lines, arrangement.allocation_method);
+    if (data.business_id) {
+      const supplier = pool.find(s => s.business_id === data.business_id);
+      const priced = supplier ? priceCallUp(supplier.rates, data.lines) : null;
+      if (!priced || priced.errors.length > 0) {
+        throw new ValidationError('Business is not qualified for every item on this call-up', priced?.errors);
+      }
+      chosen = { business_id: data.business_id, priced };
+    }
+
+    const { business_id, priced } = chosen!;
+
+    const callUp = await transaction(async (client) => {
+      const spend = await this.assertWithinCeiling(client, arrangement, priced.total);
+
+      const result = await client.query(
+        `INSERT INTO arrangement_call_ups (
+          id, arrangement_id, call_up_number, title, description, requirements,
+          template_id, lines, business_id, amount, delivery_date, call_up_type,
+          status, issued_by, issued_at, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 'direct', 'issued', $12, NOW(), NOW(), NOW())
+        RETURNING *`,
+        [
+          uuidv4(), arrangement.id, spend.call_up_count + 1, details.title, details.description,
+          details.requirements, details.template_id, JSON.stringify(priced.lines), business_id,
+          priced.total, data.delivery_date, userId
+        ]
+      );
+
+      await recordAuditEvent({
+        entity_type: 'arrangement',
+        entity_id: arrangement.id,
+        action: 'arrangement.call_up_issued',
+        user_id: userId,
+        metadata: {
+          call_up_id: result.rows[0].id,
+          business_id,
+          amount: priced.total,
+          committed_before: spend.committed
+        }
+      }, client);
+
+      return { callUp: result.rows[0], committedBefore: spend.committed };
+    });
+
+    await this.notifyCallUpIssued(arrangement, callUp.callUp);
+    await this.checkCeilingAlert(arrangement, callUp.committedBefore, priced.total);
+
+    return callUp.callUp;
+  }
+
+  async submitQuote(callUpId: string, quote: CallUpQuote, businessId: string, userId: string): Promise<any> {
+    const callUp = await this.getCallUpRecord(callUpId);
+
+    if (callUp.status !== 'competing') {
+      throw new ConflictError('This call-up is not open for quotes');
+    }
+
+    if (new Date(callUp.competition_closing_date) <= new Date()) {
+      throw new BusinessLogicError('The mini-competition for this call-up has closed');
+    }
+
+    const member = await this.getPoolMember(callUp.arrangement_id, businessId);
+    if (!member || member.status !== 'qualified') {
+      throw new ForbiddenError('Only qualified suppliers in the pool can quote');
+    }
+
+    // Qualified rates are the ceiling for second-stage pricing
+    const lines: CallUpLine[] = callUp.lines.map((line: any) => ({
+      item_code: line.item_code,
+      quantity: line.quantity
+    }));
+    const ceiling = priceCallUp(member.rates, lines);
+    if (ceiling.errors.length > 0) {
+      throw new ForbiddenError('Your qualification does not cover every item on this call-up');
+    }
+
+    if (quote.amount > ceiling.total) {
+      throw new ValidationError(`Quote cannot exceed your qualified ceiling price of ${ceiling.total}`);
+    }
+
+    const result = await query(
+      `INSERT INTO call_up_quotes (
+        id, call_up_id, business_id, amount, notes, submitted_by, submitted_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())
+      ON CONFLICT (call_up_id, business_id) DO UPDATE SET
+        amount = EXCLUDED.amount,
+        notes = EXCLUDED.notes,
+        submitted_by = EXCLUDED.submitted_by,
+        updated_at = NOW()
+      RETURNING *`,
+      [uuidv4(), callUpId, businessId, quote.amount, quote.notes, userId]
+    );
+
+    return result.rows[0];
+  }
+
+  async awardCallUp(callUpId: string, quoteId: string, userId: string): Promise<any> {
+    const callUp = await this.getCallUpRecord(callUpId);
+    const arrangement = await this.getArrangementRecord(callUp.arrangement_id);
+    this.assertOwner(arrangement, userId);
+
+    if (callUp.status !== 'competing') {
+      throw new ConflictError('This call-up has already been awarded');
+    }
+
+    if (new Date(callUp.competition_closing_date) > new Date()) {
+      throw new BusinessLogicError('Quotes cannot be awarded before the mini-competition closes');
+    }
+
+    const quoteResult = await query(
+      `SELECT * FROM call_up_quotes WHERE id = $1 AND call_up_id = $2`,
+      [quoteId, callUpId]
+    );
+
+    if (quoteResult.rows.length === 0) {
+      throw new NotFoundError('Quote not found');
+    }
+
+    const quote = quoteResult.rows[0];
+    const amount = parseFloat(quote.amount);
+
+    const awarded = await transaction(async (client) => {
+      const spend = await this.assertWithinCeiling(client, arrangement, amount);
+
+      const result = await client.query(
+        `UPDATE arrangement_call_ups SET
+         business_id = $1,
+         amount = $2,
+         awarded_quote_id = $3,
+         status = 'issued',
+         issued_at = NOW(),
+         updated_at = NOW()
+         WHERE id = $4
+         RETURNING *`,
+        [quote.business_id, amount, quoteId, callUpId]
+      );
+
+      await client.query(
+        `UPDATE call_up_quotes SET
+         status = CASE WHEN id = $1 THEN 'accepted' ELSE 'unsuccessful' END,
+         updated_at = NOW()
+         WHERE call_up_id = $2`,
+        [quoteId, callUpId]
+      );
+
+      await recordAuditEvent({
+        entity_type: 'arrangement',
+        entity_id: arrangement.id,
+        action: 'arrangement.call_up_awarded',
+        user_id: userId,
+        metadata: {
+          call_up_id: callUpId,
+          quote_id: quoteId,
+          business_id: quote.business_id,
+          amount,
+          committed_before: spend.committed
+        }
+      }, client);
+
+      return { callUp: result.rows[0], committedBefore: spend.committed };
+    });
+
+    await this.notifyCallUpIssued(arrangement, awarded.callUp);
+    await this.checkCeilingAlert(arrangement, awarded.committedBefore, amount);
+
+    return awarded.callUp;
+  }
+
+  async respondToCallUp(
+    callUpId: string,
+    response: 'accepted' | 'declined',
+    businessId: string,
+    reason?: string
+  ): Promise<any> {
+    const callUp = await this.getCallUpRecord(callUpId);
+
+    if (callUp.business_id !== businessId) {
+      throw new ForbiddenError('This call-up was not issued to your business');
+    }
+
+    if (callUp.status !== 'issued') {
+      throw new ConflictError('This call-up has already been responded to');
+    }
+
+    // A declined call-up stops counting against the ceiling
+    const result = await query(
+      `UPDATE arrangement_call_ups SET
+       status = $1,
+       response_reason = $2,
+       responded_at = NOW(),
+       updated_at = NOW()
+       WHERE id = $3
+       RETURNING *`,
+      [response, reason, callUpId]
+    );
+
+    await sendNotification({
+      type: `arrangement.call_up_${response}`,
+      recipients: [callUp.issued_by],
+      data: {
+        arrangementId: callUp.arrangement_id,
+        callUpId,
+        callUpNumber: callUp.call_up_number,
+        title: callUp.title,
+        reason
+      },
+      priority: response === 'declined' ? 'high' : 'normal'
+    });
+
+    return result.rows[0];
+  }
+
+  async getCallUps(arrangementId: string, userId: string, businessId?: string): Promise<any[]> {
+    const arrangement = await this.getArrangementRecord(arrangementId);
+
+    if (arrangement.created_by === userId) {
+      const result = await query(
+        `SELECT c.*, b.business_name,
+          (SELECT COUNT(*) FROM call_up_quotes q WHERE q.call_up_id = c.id) as quote_count
+         FROM arrangement_call_ups c
+         LEFT JOIN businesses b ON c.business_id = b.id
+         WHERE c.arrangement_id = $1
+         ORDER BY c.call_up_number ASC`,
+        [arrangementId]
+      );
+      return result.rows;
+    }
+
+    if (!businessId || !(await this.getPoolMember(arrangementId, businessId))) {
+      throw new ForbiddenError('Only the buyer and qualified suppliers can view call-ups');
+    }
+
+    // Suppliers see their own call-ups and any competition they can quote on
+    const result = await query(
+      `SELECT c.id, c.call_up_number, c.title, c.description, c.requirements, c.lines,
+        c.delivery_date, c.call_up_type, c.competition_closing_date, c.status,
+        CASE WHEN c.business_id = $2 THEN c.amount END as amount,
+        c.business_id = $2 as issued_to_you
+       FROM arrangement_call_ups c
+       WHERE c.arrangement_id = $1 AND (c.business_id = $2 OR c.status = 'competing')
+       ORDER BY c.call_up_number ASC`,
+      [arrangementId, businessId]
+    );
+
+    return result.rows;
+  }
+
+  async expireArrangements(): Promise<number> {
+    const result = await query(
+      `UPDATE procurement_arrangements SET status = 'expired', updated_at = NOW()
+       WHERE status = 'active' AND valid_until < NOW()`
+    );
+
+    return result.rowCount || 0;
+  }
+
+  private async openMiniCompetition(
+    arrangement: any,
+    data: CallUpData,
+    details: any,
+    pool: PoolSupplier[],
+    userId: string
+  ): Promise<any> {
+    if (!data.competition_closing_date) {
+      throw new ValidationError('This call-up needs a mini-competition; a competition closing date is required');
+    }
+
+    const invited = pool.filter(supplier => priceCallUp(supplier.rates, data.lines).errors.length === 0);
+    const lines = data.lines.map(line => ({ item_code: line.item_code, quantity: line.quantity }));
+
+    const callUp = await transaction(async (client) => {
+      // Numbered under the arrangement lock, as direct call-ups are
+      await this.lockArrangement(client, arrangement.id);
+      const spend = await this.getSpendSummary(arrangement.id, arrangement.ceiling_value, client);
+
+      const result = await client.query(
+        `INSERT INTO arrangement_call_ups (
+          id, arrangement_id, call_up_number, title, description, requirements,
+          template_id, lines, delivery_date, call_up_type, competition_closing_date,
+          status, issued_by, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'mini_competition', $10, 'competing', $11, NOW(), NOW())
+        RETURNING *`,
+        [
+          uuidv4(), arrangement.id, spend.call_up_count + 1, details.title,
+          details.description, details.requirements, details.template_id, JSON.stringify(lines),
+          data.delivery_date, data.competition_closing_date, userId
+        ]
+      );
+
+      await recordAuditEvent({
+        entity_type: 'arrangement',
+        entity_id: arrangement.id,
+        action: 'arrangement.mini_competition_opened',
+        user_id: userId,
+        metadata: { call_up_id: result.rows[0].id, invited_count: invited.length }
+      }, client);
+
+      return result.rows[0];
+    });
+
+    const recipients = await Promise.all(invited.map(s => getBusinessOwnerId(s.business_id)));
+    await sendNotification({
+      type: 'arrangement.mini_competition_opened',
+      recipients: recipients.filter(Boolean),
+      data: {
+        arrangementId: arrangement.id,
+        arrangementTitle: arrangement.title,
+        callUpId: callUp.id,
+        title: callUp.title,
+        closingDate: callUp.competition_closing_date
+      },
+      priority: 'high'
+    });
+
+    return callUp;
+  }
+
+  // Call-up text comes from the chosen or the arrangement's default template,
+  // with anything given on the call-up itself taking precedence
+  private async fillFromTemplate(arrangement: any, data: CallUpData, userId: string): Promise<any> {
+    const templateId = data.template_id || arrangement.call_up_template_id;
+    const overrides = {
+      ...(data.title ? { title: data.title } : {}),
+      ...(data.description ? { description: data.description } : {})
+    };
+
+    if (!templateId) {
+      if (!data.title) {
+        throw new ValidationError('A call-up needs a title or a call-up template');
+      }
+      return { title: data.title, description: data.description, requirements: null, template_id: null };
+    }
+
+    const { rfq_data } = await this.templateService.createRFQFromTemplate(templateId, overrides, userId);
+    return {
+      title: rfq_data.title || arrangement.title,
+      description: rfq_data.description,
+      requirements: rfq_data.requirements,
+      template_id: templateId
+    };
+  }
+
+  private async assertWithinCeiling(client: any, arrangement: any, amount: number): Promise<any> {
+    // Lock the arrangement so concurrent call-ups can't both fit under the ceiling
+    await this.lockArrangement(client, arrangement.id);
+
+    const spend = await this.getSpendSummary(arrangement.id, arrangement.ceiling_value, client);
+    if (spend.committed + amount > spend.ceiling_value) {
+      throw new BusinessLogicError('Call-up would exceed the arrangement ceiling', {
+        ceiling_value: spend.ceiling_value,
+        committed: spend.committed,
+        remaining: spend.remaining,
+        requested: amount
+      });
+    }
+
+    return spend;
+  }
+
+  private async lockArrangement(client: any, arrangementId: string): Promise<void> {
+    await client.query(
+      `SELECT id FROM procurement_arrangements WHERE id = $1 FOR UPDATE`,
+      [arrangementId]
+    );
+  }
+
+  private async getSpendSummary(arrangementId: string, ceilingValue: any, client?: any): Promise<any> {
+    const runner = client || { query };
+    const result = await runner.query(
+      `SELECT
+        COALESCE(SUM(amount) FILTER (WHERE status = ANY($2)), 0) as committed,
+        COUNT(*) as call_up_count
+       FROM arrangement_call_ups WHERE arrangement_id = $1`,
+      [arrangementId, COMMITTED_CALL_UP_STATUSES]
+    );
+
+    const ceiling = parseFloat(ceilingValue);
+    const committed = parseFloat(result.rows[0].committed);
+
+    return {
+      ceiling_value: ceiling,
+      committed,
+      remaining: Math.round((ceiling - committed) * 100) / 100,
+      utilization_percent: ceiling > 0 ? Math.round((committed / ceiling) * 10000) / 100 : 0,
+      call_up_count: parseInt(result.rows[0].call_up_count)
+    };
+  }
+
+  private async checkCeilingAlert(arrangement: any, committedBefore: number, amount: number): Promise<void> {
+    const ceiling = parseFloat(arrangement.ceiling_value);
+    const threshold = ceiling * CEILING_ALERT_THRESHOLD;
+
+    if (committedBefore < threshold && committedBefore + amount >= threshold) {
+      await sendNotification({
+        type: 'arrangement.ceiling_threshold_reached',
+        recipients: [arrangement.created_by],
+        data: {
+          arrangementId: arrangement.id,
+          arrangementTitle: arrangement.title,
+          ceilingValue: ceiling,
+          committed: committedBefore + amount
+        },
+        priority: 'high'
+      });
+    }
+  }
+
+  private async notifyCallUpIssued(arrangement: any, callUp: any): Promise<void> {
+    await sendNotification({
+      type: 'arrangement.call_up_issued',
+      recipients: [await getBusinessOwnerId(callUp.business_id)],
+      data: {
+        arrangementId: arrangement.id,
+        arrangementTitle: arrangement.title,
+        callUpId: callUp.id,
+        callUpNumber: callUp.call_up_number,
+        title: callUp.title,
+        amount: callUp.amount,
+        deliveryDate: callUp.delivery_date
+      },
+      priority: 'high'
+    });
+  }
+
+  private async getQualifiedPool(arrangementId: string): Promise<PoolSupplier[]> {
+    const result = await query(
+      `SELECT s.business_id, s.rates,
+        (SELECT MAX(c.issued_at) FROM arrangement_call_ups c
+         WHERE c.arrangement_id = s.arrangement_id AND c.business_id = s.business_id) as last_call_up_at
+       FROM arrangement_suppliers s
+       WHERE s.arrangement_id = $1 AND s.status = 'qualified'`,
+      [arrangementId]
+    );
+
+    return result.rows;
+  }
+
+  private async getPoolMember(arrangementId: string, businessId: string): Promise<any> {
+    const result = await query(
+      `SELECT * FROM arrangement_suppliers WHERE arrangement_id = $1 AND business_id = $2`,
+      [arrangementId, businessId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  private assertOwner(arrangement: any, userId: string): void {
+    if (arrangement.created_by !== userId) {
+      throw new ForbiddenError('Only the arrangement owner can do this');
+    }
+  }
+
+  private assertInEffect(arrangement: any): void {
+    const now = new Date();
+    if (arrangement.status !== 'active'
+      || now < new Date(arrangement.valid_from)
+      || now > new Date(arrangement.valid_until)) {
+      throw new BusinessLogicError('Call-ups can only be issued while the arrangement is in effect');
+    }
+  }
+
+  private async getArrangementRecord(arrangementId: string): Promise<any> {
+    const result = await query(
+      `SELECT * FROM procurement_arrangements WHERE id = $1`,
+      [arrangementId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Arrangement not found');
+    }
+
+    return result.rows[0];
+  }
+
+  private async getCallUpRecord(callUpId: string): Promise<any> {
+    const result = await query(
+      `SELECT * FROM arrangement_call_ups WHERE id = $1`,
+      [callUpId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Call-up not found');
+    }
+
+    return result.rows[0];
+  }
+}
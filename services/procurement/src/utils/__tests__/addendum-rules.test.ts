@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyClosingExtension,
+  calculateClosingExtension,
+  DEFAULT_ADDENDUM_RESPONSE_DAYS,
+  diffFields,
+} from '../addendum-rules'
+
+const NOW = new Date('2026-05-01T12:00:00Z')
+const FIELDS = ['title', 'budget_max', 'requirements', 'closing_date']
+
+const existing = {
+  title: 'Winter road maintenance',
+  budget_max: 250000,
+  requirements: ['COR certified'],
+  closing_date: new Date('2026-05-20T17:00:00Z'),
+}
+
+describe('Addendum field diff', () => {
+  it('lists only the fields that change', () => {
+    expect(diffFields(existing, {
+      title: 'Winter road maintenance',
+      budget_max: 300000,
+      requirements: ['COR certified', 'Class 1 drivers'],
+    }, FIELDS)).toEqual([
+      { field: 'budget_max', from: 250000, to: 300000 },
+      { field: 'requirements', from: ['COR certified'], to: ['COR certified', 'Class 1 drivers'] },
+    ])
+  })
+
+  it('compares closing dates as instants, whatever their format', () => {
+    expect(diffFields(existing, { closing_date: '2026-05-20T13:00:00-04:00' }, FIELDS)).toEqual([])
+    expect(diffFields(existing, { closing_date: '2026-05-22T17:00:00Z' }, FIELDS)).toEqual([
+      { field: 'closing_date', from: '2026-05-20T17:00:00.000Z', to: '2026-05-22T17:00:00.000Z' },
+    ])
+  })
+
+  it('ignores fields it is not given or not allowed to change', () => {
+    expect(diffFields(existing, { budget_max: undefined, status: 'closed' }, FIELDS)).toEqual([])
+    expect(diffFields({ ...existing, title: undefined }, { title: 'Named' }, FIELDS))
+      .toEqual([{ field: 'title', from: null, to: 'Named' }])
+  })
+})
+
+describe('Addendum closing extension', () => {
+  it('extends a closing date that leaves bidders too little time', () => {
+    const extended = calculateClosingExtension(new Date('2026-05-03T12:00:00Z'), NOW)
+    expect(extended!.toISOString()).toBe('2026-05-06T12:00:00.000Z')
+    expect(DEFAULT_ADDENDUM_RESPONSE_DAYS).toBe(5)
+  })
+
+  it('leaves a closing date with enough response time alone', () => {
+    expect(calculateClosingExtension(new Date('2026-05-06T12:00:00Z'), NOW)).toBeNull()
+    expect(calculateClosingExtension('2026-06-01T00:00:00Z', NOW)).toBeNull()
+    expect(calculateClosingExtension(new Date('2026-05-08T12:00:00Z'), NOW, 10)!.toISOString())
+      .toBe('2026-05-11T12:00:00.000Z')
+  })
+
+  it('adds a closing date change to a late addendum', () => {
+    const changes = [{ field: 'budget_max', from: 250000, to: 300000 }]
+    expect(applyClosingExtension(changes, '2026-05-02T17:00:00Z', NOW)).toEqual([
+      ...changes,
+      { field: 'closing_date', from: '2026-05-02T17:00:00.000Z', to: '2026-05-06T12:00:00.000Z', auto_extended: true },
+    ])
+    expect(changes).toHaveLength(1)
+  })
+
+  it('overrides a requested closing date that is too soon', () => {
+    const changes = [{ field: 'closing_date', from: '2026-05-20T17:00:00.000Z', to: '2026-05-04T17:00:00.000Z' }]
+    expect(applyClosingExtension(changes, existing.closing_date, NOW)).toEqual([
+      { field: 'closing_date', from: '2026-05-20T17:00:00.000Z', to: '2026-05-06T12:00:00.000Z', auto_extended: true },
+    ])
+  })
+
+  it('keeps an addendum that already leaves enough time unchanged', () => {
+    const changes = [{ field: 'closing_date', from: '2026-05-20T17:00:00.000Z', to: '2026-05-25T17:00:00.000Z' }]
+    expect(applyClosingExtension(changes, existing.closing_date, NOW)).toBe(changes)
+    expect(applyClosingExtension([], existing.closing_date, NOW)).toEqual([])
+  })
+})
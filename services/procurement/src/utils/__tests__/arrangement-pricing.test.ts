@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { PoolSupplier, priceCallUp, selectSupplier } from '../arrangement-pricing'
+
+const pool: PoolSupplier[] = [
+  {
+    business_id: 'north',
+    last_call_up_at: '2025-05-01T00:00:00Z',
+    rates: [
+      { item_code: 'PPE-01', unit: 'box', unit_price: 12.5 },
+      { item_code: 'PPE-02', unit: 'case', unit_price: 40 },
+    ],
+  },
+  {
+    business_id: 'river',
+    last_call_up_at: null,
+    rates: [
+      { item_code: 'PPE-01', unit: 'box', unit_price: 13 },
+      { item_code: 'PPE-02', unit: 'case', unit_price: 41 },
+    ],
+  },
+  {
+    business_id: 'lake',
+    rates: [{ item_code: 'PPE-01', unit: 'box', unit_price: 9 }],
+  },
+]
+
+describe('Arrangement call-up pricing', () => {
+  it('prices lines at the qualified rates and flags unrated items', () => {
+    const priced = priceCallUp(pool[0]!.rates, [
+      { item_code: 'PPE-01', quantity: 3 },
+      { item_code: 'PPE-99', quantity: 1 },
+    ])
+
+    expect(priced.total).toBe(37.5)
+    expect(priced.errors).toEqual(['No qualified rate for item PPE-99'])
+  })
+
+  it('only considers suppliers rated for every line', () => {
+    const lines = [
+      { item_code: 'PPE-01', quantity: 10 },
+      { item_code: 'PPE-02', quantity: 1 },
+    ]
+
+    expect(selectSupplier(pool, lines, 'lowest_price')?.business_id).toBe('north')
+    expect(selectSupplier(pool, lines, 'rotation')?.business_id).toBe('river')
+    expect(selectSupplier(pool, [{ item_code: 'PPE-03', quantity: 1 }], 'rotation')).toBeNull()
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import {
+  AuctionRules,
+  minimumDecrement,
+  validateAuctionBid,
+  extendedEndTime,
+  rankAuctionBids,
+} from '../auction-rules'
+
+const rules: AuctionRules = {
+  starting_price: 10000,
+  min_decrement_amount: 50,
+  min_decrement_percent: 1,
+  extension_window_seconds: 120,
+  extension_seconds: 180,
+  max_extensions: 2,
+}
+
+describe('Reverse auction rules', () => {
+  it('applies the larger of the fixed and percentage decrements', () => {
+    expect(minimumDecrement(rules, 10000)).toBe(100)
+    expect(minimumDecrement(rules, 2000)).toBe(50)
+  })
+
+  it('caps the first bid at the starting price and requires later bids to step down', () => {
+    expect(validateAuctionBid(rules, 10500, null)).toContain(
+      'Bid cannot exceed the starting price of 10000'
+    )
+    expect(validateAuctionBid(rules, 10000, null)).toEqual([])
+    expect(validateAuctionBid(rules, 9950, 10000)).toContain(
+      'Bid must be at most 9900 to improve on your previous bid of 10000'
+    )
+    expect(validateAuctionBid(rules, 9900, 10000)).toEqual([])
+  })
+
+  it('extends the close only for bids inside the closing window', () => {
+    const endsAt = new Date('2025-06-01T12:00:00Z')
+
+    expect(extendedEndTime(rules, endsAt, new Date('2025-06-01T11:55:00Z'), 0)).toBeNull()
+    expect(extendedEndTime(rules, endsAt, new Date('2025-06-01T11:59:00Z'), 0)).toEqual(
+      new Date('2025-06-01T12:02:00Z')
+    )
+    expect(extendedEndTime(rules, endsAt, new Date('2025-06-01T11:59:00Z'), 2)).toBeNull()
+  })
+
+  it('ranks businesses on their best price with ties going to the earlier bid', () => {
+    const standings = rankAuctionBids([
+      { business_id: 'a', amount: 9500, placed_by: 'u1', placed_at: '2025-06-01T11:00:00Z' },
+      { business_id: 'b', amount: 9400, placed_by: 'u2', placed_at: '2025-06-01T11:01:00Z' },
+      { business_id: 'a', amount: 9400, placed_by: 'u1', placed_at: '2025-06-01T11:02:00Z' },
+      { business_id: 'c', amount: 9800, placed_by: 'u3', placed_at: '2025-06-01T11:03:00Z' },
+    ])
+
+    expect(standings.map(s => [s.rank, s.business_id, s.best_amount])).toEqual([
+      [1, 'b', 9400],
+      [2, 'a', 9400],
+      [3, 'c', 9800],
+    ])
+    expect(standings[1]!.bid_count).toBe(2)
+  })
+})
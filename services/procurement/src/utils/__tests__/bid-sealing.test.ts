@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import crypto from 'crypto'
+import {
+  generateSealingKey,
+  hashContents,
+  sealContents,
+  unsealContents,
+  unwrapSealingKey,
+} from '../bid-sealing'
+
+const CLOSING = new Date('2026-06-30T17:00:00Z')
+const AFTER_CLOSING = new Date('2026-06-30T17:00:01Z')
+
+const bid = {
+  amount: 184250.5,
+  technical_proposal: 'Winter road maintenance, 3 crews',
+  pricing_breakdown: [{ item: 'Grading', amount: 120000 }],
+}
+
+function flipFirstByte(base64: string): string {
+  const bytes = Buffer.from(base64, 'base64')
+  bytes[0] ^= 0xff
+  return bytes.toString('base64')
+}
+
+describe('Bid sealing', () => {
+  const original = process.env.BID_SEALING_MASTER_KEY
+
+  beforeEach(() => {
+    process.env.BID_SEALING_MASTER_KEY = crypto.randomBytes(32).toString('hex')
+  })
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.BID_SEALING_MASTER_KEY
+    } else {
+      process.env.BID_SEALING_MASTER_KEY = original
+    }
+  })
+
+  it('opens sealed contents with the unwrapped key after closing', () => {
+    const wrappedKey = generateSealingKey()
+    const sealed = sealContents(bid, wrappedKey)
+
+    expect(sealed.ciphertext).not.toContain('Winter road')
+    expect(sealed.content_hash).toBe(hashContents(JSON.stringify(bid)))
+    expect(unsealContents(sealed, unwrapSealingKey(wrappedKey, CLOSING, AFTER_CLOSING))).toEqual(bid)
+  })
+
+  it('uses a fresh IV for every seal', () => {
+    const wrappedKey = generateSealingKey()
+    const first = sealContents(bid, wrappedKey)
+    const second = sealContents(bid, wrappedKey)
+
+    expect(first.iv).not.toBe(second.iv)
+    expect(first.ciphertext).not.toBe(second.ciphertext)
+  })
+
+  it('rejects a tampered tag, ciphertext or content hash', () => {
+    const wrappedKey = generateSealingKey()
+    const sealed = sealContents(bid, wrappedKey)
+    const dataKey = unwrapSealingKey(wrappedKey, CLOSING, AFTER_CLOSING)
+
+    expect(() => unsealContents({ ...sealed, auth_tag: flipFirstByte(sealed.auth_tag) }, dataKey)).toThrow()
+    expect(() => unsealContents({ ...sealed, ciphertext: flipFirstByte(sealed.ciphertext) }, dataKey)).toThrow()
+    expect(() => unsealContents({ ...sealed, content_hash: hashContents('{}') }, dataKey)).toThrow(
+      'Sealed bid contents failed integrity verification'
+    )
+  })
+
+  it('does not open with another RFQ\'s key', () => {
+    const sealed = sealContents(bid, generateSealingKey())
+    const otherKey = unwrapSealingKey(generateSealingKey(), CLOSING, AFTER_CLOSING)
+
+    expect(() => unsealContents(sealed, otherKey)).toThrow()
+  })
+
+  it('refuses to unwrap the key before the closing date', () => {
+    const wrappedKey = generateSealingKey()
+
+    expect(() => unwrapSealingKey(wrappedKey, CLOSING, new Date('2026-06-30T16:59:59Z'))).toThrow(
+      'Sealed bids cannot be opened before the RFQ closing date'
+    )
+    expect(unwrapSealingKey(wrappedKey, CLOSING, CLOSING)).toHaveLength(32)
+  })
+
+  it('fails without a well-formed master key', () => {
+    delete process.env.BID_SEALING_MASTER_KEY
+    expect(() => generateSealingKey()).toThrow('BID_SEALING_MASTER_KEY is not configured')
+
+    process.env.BID_SEALING_MASTER_KEY = 'abc123'
+    expect(() => generateSealingKey()).toThrow('BID_SEALING_MASTER_KEY must be 32 bytes encoded as hex')
+
+    process.env.BID_SEALING_MASTER_KEY = 'zz'.repeat(32)
+    expect(() => generateSealingKey()).toThrow('BID_SEALING_MASTER_KEY must be 32 bytes encoded as hex')
+  })
+
+  it('cannot unwrap a key wrapped under a different master key', () => {
+    const wrappedKey = generateSealingKey()
+    process.env.BID_SEALING_MASTER_KEY = crypto.randomBytes(32).toString('hex')
+
+    expect(() => unwrapSealingKey(wrappedKey, CLOSING, AFTER_CLOSING)).toThrow()
+  })
+})
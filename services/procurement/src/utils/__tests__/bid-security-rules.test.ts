@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import {
+  BidSecurityTerms,
+  bidSecurityExpiry,
+  bidSecurityProblem,
+  bidSecurityReleasesOnAward,
+  outstandingContractBonds,
+  requiredBondAmount,
+  requiresEscrowHold,
+} from '../bid-security-rules'
+
+const rfq = {
+  closing_date: '2026-06-30T17:00:00Z',
+  bid_security_type: 'either' as const,
+  bid_security_amount: '5000.00',
+}
+
+const bond: BidSecurityTerms = {
+  type: 'bid_bond',
+  amount: 5000,
+  surety_name: 'Northern Surety',
+  bond_number: 'BB-1042',
+  expiry_date: '2026-08-29T17:00:00Z',
+}
+
+const deposit: BidSecurityTerms = {
+  type: 'deposit',
+  amount: 5000,
+  payment_reference: 'pay_123',
+}
+
+describe('Bid security requirements', () => {
+  it('accepts a bond or deposit that meets the requirement', () => {
+    expect(bidSecurityProblem(rfq, bond)).toBeNull()
+    expect(bidSecurityProblem(rfq, deposit)).toBeNull()
+    expect(bidSecurityProblem({ ...rfq, bid_security_type: 'none' }, { ...deposit, amount: 0 })).toBeNull()
+  })
+
+  it('enforces the form and amount of security', () => {
+    expect(bidSecurityProblem({ ...rfq, bid_security_type: 'bid_bond' }, deposit)).toBe(
+      'This RFQ requires bid security as a bid bond'
+    )
+    expect(bidSecurityProblem(rfq, { ...deposit, amount: 4999.99 })).toBe(
+      'Bid security must be at least 5000.00'
+    )
+    expect(bidSecurityProblem(rfq, { ...deposit, payment_reference: undefined })).toBe(
+      'Deposits require the reference of the funding payment'
+    )
+    expect(bidSecurityProblem(rfq, { ...bond, bond_number: undefined })).toBe(
+      'Bid bonds require a surety, bond number and expiry date'
+    )
+  })
+
+  it('requires bid bonds to outlast the evaluation period', () => {
+    expect(bidSecurityProblem(rfq, { ...bond, expiry_date: '2026-08-29T16:59:59Z' })).toBe(
+      'Bid bond must remain valid 60 days past the closing date'
+    )
+  })
+
+  it('holds only deposits in escrow, until the bond expiry or 60 days past closing', () => {
+    expect(requiresEscrowHold(deposit)).toBe(true)
+    expect(requiresEscrowHold(bond)).toBe(false)
+    expect(bidSecurityExpiry(rfq.closing_date, deposit).toISOString()).toBe('2026-08-29T17:00:00.000Z')
+    expect(bidSecurityExpiry(rfq.closing_date, bond).toISOString()).toBe('2026-08-29T17:00:00.000Z')
+    expect(bidSecurityExpiry(rfq.closing_date, { expiry_date: '2026-12-31T00:00:00Z' }).toISOString())
+      .toBe('2026-12-31T00:00:00.000Z')
+  })
+})
+
+describe('Bid security release at award', () => {
+  const securities = [
+    { id: 's1', bid_id: 'winner', status: 'held' },
+    { id: 's2', bid_id: 'loser', status: 'held' },
+    { id: 's3', bid_id: 'retry', status: 'release_failed' },
+    { id: 's4', bid_id: 'gone', status: 'released' },
+    { id: 's5', bid_id: 'kept', status: 'forfeited' },
+  ]
+
+  it('releases unsuccessful bidders and keeps the winner until bonds are in place', () => {
+    expect(bidSecurityReleasesOnAward(securities, 'winner', true).map(r => [r.security.id, r.reason])).toEqual([
+      ['s2', 'Contract awarded to another bidder'],
+      ['s3', 'Contract awarded to another bidder'],
+    ])
+  })
+
+  it('releases the winner too when no contract bonds are outstanding', () => {
+    expect(bidSecurityReleasesOnAward(securities, 'winner', false).map(r => [r.security.id, r.reason])).toEqual([
+      ['s1', 'Contract security in place'],
+      ['s2', 'Contract awarded to another bidder'],
+      ['s3', 'Contract awarded to another bidder'],
+    ])
+  })
+})
+
+describe('Contract bonds', () => {
+  const contract = {
+    contract_value: '240000.00',
+    performance_bond_required: true,
+    performance_bond_percentage: null,
+    labour_material_bond_required: true,
+    labour_material_bond_percentage: '10',
+  }
+
+  it('lists the required bonds not yet held', () => {
+    expect(outstandingContractBonds(contract, [])).toEqual(['performance_bond', 'labour_material_bond'])
+    expect(outstandingContractBonds(contract, ['performance_bond', 'bid_deposit'])).toEqual(['labour_material_bond'])
+    expect(outstandingContractBonds({ contract_value: 1000 }, [])).toEqual([])
+  })
+
+  it('sizes bonds from the award percentage or the default', () => {
+    expect(requiredBondAmount(contract, 'performance')).toBe(120000)
+    expect(requiredBondAmount(contract, 'labour_material')).toBe(24000)
+    expect(requiredBondAmount({ contract_value: 1000.01, performance_bond_percentage: 33 }, 'performance')).toBe(330)
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import {
+  challengeDeadline,
+  isChallengePeriodOver,
+  isInStandstill,
+  isProtestResponseLate,
+  protestResponseDueAt,
+  standstillEndsAt,
+} from '../challenge-deadlines'
+
+const AWARDED_AT = new Date('2026-04-01T15:00:00Z')
+
+describe('Standstill', () => {
+  it('runs for the award\'s standstill or the default ten days', () => {
+    expect(standstillEndsAt(5, AWARDED_AT)!.toISOString()).toBe('2026-04-06T15:00:00.000Z')
+    expect(standstillEndsAt(undefined, AWARDED_AT)!.toISOString()).toBe('2026-04-11T15:00:00.000Z')
+    expect(standstillEndsAt(null, AWARDED_AT)!.toISOString()).toBe('2026-04-11T15:00:00.000Z')
+  })
+
+  it('can be waived with a zero-day standstill', () => {
+    expect(standstillEndsAt(0, AWARDED_AT)).toBeNull()
+    expect(isInStandstill({ created_at: AWARDED_AT, standstill_ends_at: null }, AWARDED_AT)).toBe(false)
+  })
+
+  it('holds the contract until it ends', () => {
+    const contract = { created_at: AWARDED_AT, standstill_ends_at: '2026-04-11T15:00:00Z' }
+
+    expect(isInStandstill(contract, new Date('2026-04-11T14:59:59Z'))).toBe(true)
+    expect(isInStandstill(contract, new Date('2026-04-11T15:00:00Z'))).toBe(false)
+  })
+})
+
+describe('Debriefing and protest period', () => {
+  it('ends with standstill, counted from award when none was recorded', () => {
+    expect(challengeDeadline({ created_at: AWARDED_AT, standstill_ends_at: '2026-04-06T15:00:00Z' }).toISOString())
+      .toBe('2026-04-06T15:00:00.000Z')
+    expect(challengeDeadline({ created_at: '2026-04-01T15:00:00Z' }).toISOString())
+      .toBe('2026-04-11T15:00:00.000Z')
+  })
+
+  it('still accepts a challenge at the deadline itself', () => {
+    const contract = { created_at: AWARDED_AT, standstill_ends_at: '2026-04-06T15:00:00Z' }
+
+    expect(isChallengePeriodOver(contract, new Date('2026-04-06T15:00:00Z'))).toBe(false)
+    expect(isChallengePeriodOver(contract, new Date('2026-04-06T15:00:01Z'))).toBe(true)
+  })
+})
+
+describe('Protest response', () => {
+  it('is due ten days after filing and late only once that passes', () => {
+    const dueAt = protestResponseDueAt(new Date('2026-04-03T09:30:00Z'))
+
+    expect(dueAt.toISOString()).toBe('2026-04-13T09:30:00.000Z')
+    expect(isProtestResponseLate(dueAt, new Date('2026-04-13T09:30:00Z'))).toBe(false)
+    expect(isProtestResponseLate('2026-04-13T09:30:00Z', new Date('2026-04-13T09:30:01Z'))).toBe(true)
+  })
+})
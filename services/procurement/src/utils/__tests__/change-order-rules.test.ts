@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { changeOrderProblem, milestoneAmount, newContractValue } from '../change-order-rules'
+
+const contract = {
+  contract_value: '120000.00',
+  start_date: '2026-03-01T00:00:00Z',
+}
+
+describe('Change order rules', () => {
+  it('requires a change to the value or the end date', () => {
+    expect(changeOrderProblem(contract, {})).toBe(
+      'A change order must modify the contract value or end date'
+    )
+    expect(changeOrderProblem(contract, { value_change: '0.00', new_end_date: null })).toBe(
+      'A change order must modify the contract value or end date'
+    )
+    expect(changeOrderProblem(contract, { value_change: 15000 })).toBeNull()
+    expect(changeOrderProblem(contract, { value_change: '0.00', new_end_date: '2026-12-31' })).toBeNull()
+  })
+
+  it('keeps the contract value above zero', () => {
+    expect(changeOrderProblem(contract, { value_change: -120000 })).toBe(
+      'Change order would reduce the contract value below zero'
+    )
+    expect(changeOrderProblem(contract, { value_change: '-119999.99' })).toBeNull()
+    expect(changeOrderProblem({ ...contract, contract_value: 100000 }, { value_change: '-119999.99' })).toBe(
+      'Change order would reduce the contract value below zero'
+    )
+  })
+
+  it('keeps the end date after the start date', () => {
+    expect(changeOrderProblem(contract, { new_end_date: '2026-03-01T00:00:00Z' })).toBe(
+      'New end date must be after the contract start date'
+    )
+    expect(changeOrderProblem(contract, { new_end_date: new Date('2026-03-02T00:00:00Z') })).toBeNull()
+  })
+
+  it('applies value changes to the cent', () => {
+    expect(newContractValue('120000.00', '-0.10')).toBe(119999.9)
+    expect(newContractValue(0.1, 0.2)).toBe(0.3)
+    expect(newContractValue('5000', null)).toBe(5000)
+  })
+
+  it('prices milestones as a share of the contract value', () => {
+    expect(milestoneAmount('135000.00', '25')).toBe(33750)
+    expect(milestoneAmount(1000.01, 33.33)).toBe(333.3)
+  })
+})
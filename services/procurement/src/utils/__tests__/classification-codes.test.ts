@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildKeywordIndex,
+  capabilityMatch,
+  codePath,
+  codeProximity,
+  normalizeCode,
+  parseCodeTable,
+  parseCrosswalk,
+  suggestCodes
+} from '../classification-codes'
+
+const unspsc = parseCodeTable('unspsc', [
+  'code,title,keywords',
+  '81000000,Engineering and Research and Technology Based Services,',
+  '81110000,Computer services,IT services',
+  '81111500,Software or hardware engineering,software development;programming',
+  '81111800,System and system component administration services,IT support;help desk',
+  '72102900,Facility maintenance and repair services,snow removal;snow clearing',
+  '56101700,Office furniture,desks;chairs',
+].join('\n'))
+
+describe('Classification code hierarchies', () => {
+  it('walks UNSPSC from segment to commodity', () => {
+    expect(codePath('unspsc', '81111803')).toEqual(['81000000', '81110000', '81111800', '81111803'])
+    expect(normalizeCode('unspsc', '8111')).toBe('81110000')
+  })
+
+  it('puts NAICS codes under their range sectors', () => {
+    expect(codePath('naics', '337214')).toEqual(['31-33', '337', '3372', '33721', '337214'])
+    expect(codeProximity({ system: 'naics', code: '311111' }, { system: 'naics', code: '337214' })).toBeGreaterThan(0)
+  })
+
+  it('scores proximity by the closest shared level', () => {
+    const help = { system: 'unspsc' as const, code: '81111801' }
+    expect(codeProximity(help, help)).toBe(1)
+    expect(codeProximity(help, { system: 'unspsc', code: '81111802' })).toBe(0.75)
+    expect(codeProximity(help, { system: 'unspsc', code: '81111501' })).toBe(0.5)
+    expect(codeProximity(help, { system: 'unspsc', code: '72102900' })).toBe(0)
+    expect(codeProximity(help, { system: 'gsin', code: 'D399' })).toBe(0)
+  })
+
+  it('matches a business on its best weighted code', () => {
+    const match = capabilityMatch(
+      [{ system: 'unspsc', code: '81111800' }, { system: 'naics', code: '541513', weight: 0.9 }],
+      [
+        { system: 'unspsc', code: '81111500', weight: 1 },
+        { system: 'naics', code: '541513', weight: 0.9 },
+      ]
+    )
+    expect(match.score).toBe(0.81)
+    expect(match.business_code).toEqual({ system: 'naics', code: '541513' })
+  })
+})
+
+describe('Classification code tables', () => {
+  it('reads the Statistics Canada NAICS layout', () => {
+    const naics = parseCodeTable('naics', [
+      'Level,Hierarchical structure,Code,Class title',
+      '1,Sector,31-33,Manufacturing',
+      '5,Canadian industry,337214,"Office furniture (except wood) manufacturing"',
+    ].join('\r\n'))
+    expect(naics.map(code => code.code)).toEqual(['31-33', '337214'])
+    expect(naics[1]!.title).toBe('Office furniture (except wood) manufacturing')
+  })
+
+  it('skips crosswalk rows for unknown systems', () => {
+    const entries = parseCrosswalk('from_system,from_code,to_system,to_code\nunspsc,81111800,gsin,*D399\ncpv,72000000,naics,23')
+    expect(entries).toEqual([{ from: { system: 'unspsc', code: '81111800' }, to: { system: 'gsin', code: 'D399' } }])
+  })
+
+  it('suggests codes from keywords and titles', () => {
+    const index = buildKeywordIndex(unspsc)
+    expect(suggestCodes(index, 'Help desk support for regional offices')[0]!.code).toBe('81111800')
+    expect(suggestCodes(index, 'Snow clearing at the airport', { limit: 1 })[0]!.code).toBe('72102900')
+    expect(suggestCodes(index, 'desks', { systems: ['gsin'] })).toEqual([])
+  })
+})
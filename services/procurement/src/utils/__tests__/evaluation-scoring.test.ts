@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import {
+  EvaluationCriterion,
+  validateMatrix,
+  detectOutliers,
+  calculateConsensusRanking,
+} from '../evaluation-scoring'
+
+const criteria: EvaluationCriterion[] = [
+  { key: 'mandatory', name: 'Mandatory requirements', category: 'other', weight: 0, max_points: 1, scoring_method: 'pass_fail' },
+  { key: 'technical', name: 'Technical approach', category: 'technical', weight: 50, max_points: 100, scoring_method: 'evaluator', minimum_points: 60 },
+  { key: 'benefit', name: 'Indigenous benefit', category: 'indigenous_benefit', weight: 20, max_points: 20, scoring_method: 'evaluator' },
+  { key: 'price', name: 'Price', category: 'price', weight: 30, max_points: 30, scoring_method: 'lowest_price' },
+]
+
+const evaluators = ['e1', 'e2', 'e3']
+
+function scores(bidScores: Record<string, [number, number, number]>, passed = [true, true, true]) {
+  return evaluators.flatMap((evaluator, i) => [
+    { evaluator_id: evaluator, criterion_key: 'mandatory', passed: passed[i] },
+    ...Object.entries(bidScores).map(([key, values]) => ({
+      evaluator_id: evaluator,
+      criterion_key: key,
+      score: values[i],
+    })),
+  ])
+}
+
+describe('Evaluation matrix scoring', () => {
+  it('accepts a matrix whose weights sum to 100', () => {
+    expect(validateMatrix(criteria)).toEqual([])
+  })
+
+  it('rejects weighted pass/fail gates and bad totals', () => {
+    const errors = validateMatrix([
+      { ...criteria[0]!, weight: 10 },
+      criteria[1]!,
+    ])
+
+    expect(errors).toContain('Pass/fail criterion mandatory cannot carry weight')
+    expect(errors).toContain('Criterion weights must sum to 100 (got 60)')
+  })
+
+  it('flags scores far from the committee median', () => {
+    expect(detectOutliers([70, 75, 20], 100)).toEqual([false, false, true])
+    expect(detectOutliers([70, 20], 100)).toEqual([false, false])
+  })
+
+  it('excludes outliers from consensus and ranks by weighted score', () => {
+    const rankings = calculateConsensusRanking(criteria, [
+      { bid_id: 'a', amount: 100000, scores: scores({ technical: [80, 80, 20], benefit: [10, 10, 10] }) },
+      { bid_id: 'b', amount: 80000, scores: scores({ technical: [70, 70, 70], benefit: [20, 20, 20] }) },
+    ], evaluators)
+
+    const a = rankings.find(r => r.bid_id === 'a')!
+    const technical = a.criteria.find(c => c.key === 'technical')!
+    expect(technical.consensus_points).toBe(80)
+    expect(technical.evaluator_scores.map(s => s.outlier)).toEqual([false, false, true])
+
+    // b: 35 technical + 20 benefit + 30 price; a: 40 + 10 + 24
+    expect(rankings.map(r => [r.bid_id, r.rank, r.total_score])).toEqual([
+      ['b', 1, 85],
+      ['a', 2, 74],
+    ])
+  })
+
+  it('screens out bids failing a gate or minimum points', () => {
+    const rankings = calculateConsensusRanking(criteria, [
+      { bid_id: 'a', amount: 100000, scores: scores({ technical: [50, 55, 50], benefit: [10, 10, 10] }) },
+      { bid_id: 'b', amount: 90000, scores: scores({ technical: [90, 90, 90], benefit: [10, 10, 10] }, [false, false, true]) },
+    ], evaluators)
+
+    expect(rankings.every(r => r.disqualified && r.rank === null)).toBe(true)
+    expect(rankings.find(r => r.bid_id === 'a')!.disqualification_reasons)
+      .toEqual(['Below minimum points for Technical approach'])
+    expect(rankings.find(r => r.bid_id === 'b')!.disqualification_reasons)
+      .toEqual(['Failed mandatory requirement: Mandatory requirements'])
+  })
+
+  it('sets the price baseline from compliant bids only', () => {
+    const compliant = { technical: [70, 70, 70] as [number, number, number], benefit: [10, 10, 10] as [number, number, number] }
+    const rankings = calculateConsensusRanking(criteria, [
+      { bid_id: 'a', amount: 100000, scores: scores(compliant) },
+      { bid_id: 'b', amount: 80000, scores: scores({ technical: [90, 90, 90], benefit: [0, 0, 0] }) },
+      // Low-ball bids screened out by the gate and by minimum points
+      { bid_id: 'c', amount: 20000, scores: scores(compliant, [false, false, true]) },
+      { bid_id: 'd', amount: 40000, scores: scores({ technical: [40, 40, 40], benefit: [20, 20, 20] }) },
+    ], evaluators)
+
+    // b: 45 technical + 0 benefit + 30 price; a: 35 + 10 + 24
+    expect(rankings.map(r => [r.bid_id, r.rank, r.total_score])).toEqual([
+      ['b', 1, 75],
+      ['a', 2, 69],
+      ['c', null, 75],
+      ['d', null, 70],
+    ])
+  })
+
+  it('reports bids missing committee scores as incomplete', () => {
+    const partial = scores({ technical: [70, 70, 70], benefit: [10, 10, 10] })
+      .filter(s => s.evaluator_id !== 'e3')
+
+    const [ranking] = calculateConsensusRanking(criteria, [
+      { bid_id: 'a', amount: 100000, scores: partial },
+    ], evaluators)
+
+    expect(ranking!.complete).toBe(false)
+  })
+})
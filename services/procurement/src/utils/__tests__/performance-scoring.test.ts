@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import {
+  PerformanceEvaluation,
+  validateRatings,
+  calculateScorecard,
+} from '../performance-scoring'
+
+const now = new Date('2025-06-01T00:00:00Z')
+
+function evaluation(
+  id: string,
+  rating: number,
+  submittedAt: string,
+  status: PerformanceEvaluation['status'] = 'submitted'
+): PerformanceEvaluation {
+  return {
+    id,
+    status,
+    submitted_at: submittedAt,
+    ratings: {
+      quality: rating,
+      timeliness: rating,
+      communication: rating,
+      indigenous_employment: rating,
+      safety: rating,
+    },
+  }
+}
+
+describe('Supplier scorecard', () => {
+  it('requires every dimension to be rated or marked not applicable', () => {
+    const errors = validateRatings({ quality: 6, timeliness: 3, communication: null, safety: 4 })
+
+    expect(errors).toContain('Missing rating for indigenous_employment')
+    expect(errors).toContain('Rating for quality must be a whole number from 1 to 5')
+  })
+
+  it('weights recent evaluations more heavily and drops expired ones', () => {
+    const scorecard = calculateScorecard([
+      evaluation('recent', 5, '2025-05-01T00:00:00Z'),
+      evaluation('older', 1, '2024-05-01T00:00:00Z'),
+      evaluation('expired', 1, '2021-01-01T00:00:00Z'),
+    ], now)
+
+    expect(scorecard.evaluation_count).toBe(2)
+    expect(scorecard.overall_score).toBeGreaterThan(50)
+  })
+
+  it('re-weights around dimensions that did not apply', () => {
+    const scorecard = calculateScorecard([{
+      id: 'a',
+      status: 'submitted',
+      submitted_at: '2025-05-01T00:00:00Z',
+      ratings: { quality: 5, timeliness: 5, communication: 5, indigenous_employment: null, safety: 5 },
+    }], now)
+
+    expect(scorecard.overall_score).toBe(100)
+    expect(scorecard.dimensions.find(d => d.dimension === 'indigenous_employment')!.score).toBeNull()
+  })
+
+  it('excludes voided evaluations and counts open disputes', () => {
+    const scorecard = calculateScorecard([
+      evaluation('voided', 1, '2025-05-01T00:00:00Z', 'voided'),
+      evaluation('revised', 3, '2025-05-01T00:00:00Z', 'revised'),
+      evaluation('disputed', 3, '2025-05-01T00:00:00Z', 'disputed'),
+    ], now)
+
+    expect(scorecard.evaluation_count).toBe(1)
+    expect(scorecard.disputed_count).toBe(1)
+    expect(scorecard.overall_score).toBe(50)
+  })
+
+  it('leaves disputed evaluations out of the score until resolved', () => {
+    const evaluations = [
+      evaluation('settled', 5, '2025-05-01T00:00:00Z'),
+      evaluation('disputed', 1, '2025-05-01T00:00:00Z', 'disputed'),
+    ]
+
+    const disputed = calculateScorecard(evaluations, now)
+    expect(disputed.overall_score).toBe(100)
+    expect(disputed.evaluation_count).toBe(1)
+    expect(disputed.dimensions.every(d => d.evaluation_count === 1)).toBe(true)
+
+    const resolved = calculateScorecard([evaluations[0]!, { ...evaluations[1]!, status: 'revised' }], now)
+    expect(resolved.overall_score).toBe(50)
+    expect(resolved.evaluation_count).toBe(2)
+    expect(resolved.disputed_count).toBe(0)
+  })
+
+  it('has no score while its only evaluation is disputed', () => {
+    const scorecard = calculateScorecard([evaluation('disputed', 4, '2025-05-01T00:00:00Z', 'disputed')], now)
+
+    expect(scorecard.overall_score).toBeNull()
+    expect(scorecard.disputed_count).toBe(1)
+  })
+})
@@ -0,0 +1,77 @@
+export interface AddendumChange {
+  field: string;
+  from: any;
+  to: any;
+  auto_extended?: boolean;
+}
+
+// Bidders always get at least this long to respond to an addendum
+export const DEFAULT_ADDENDUM_RESPONSE_DAYS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function normalize(value: any): any {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+}
+
+export function diffFields(existing: any, updates: Record<string, any>, fields: string[]): AddendumChange[] {
+  const changes: AddendumChange[] = [];
+
+  for (const field of fields) {
+    if (updates[field] === undefined) continue;
+
+    const from = field === 'closing_date' && existing[field]
+      ? new Date(existing[field]).toISOString()
+      : normalize(existing[field]);
+    const to = field === 'closing_date'
+      ? new Date(updates[field]).toISOString()
+      : normalize(updates[field]);
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  }
+
+  return changes;
+}
+
+// Returns the closing date bidders must be given, or null if the
+// requested one already leaves enough time to respond
+export function calculateClosingExtension(
+  closingDate: Date | string,
+  now: Date = new Date(),
+  responseDays: number = DEFAULT_ADDENDUM_RESPONSE_DAYS
+): Date | null {
+  const minimumClosing = new Date(now.getTime() + responseDays * DAY_MS);
+  return new Date(closingDate).getTime() < minimumClosing.getTime() ? minimumClosing : null;
+}
+
+// Late addenda push the closing date out so bidders can respond. A closing
+// date change already in the addendum is overridden; otherwise one is added
+export function applyClosingExtension(
+  changes: AddendumChange[],
+  currentClosing: Date | string,
+  now: Date = new Date()
+): AddendumChange[] {
+  const closingChange = changes.find(c => c.field === 'closing_date');
+  const extendedClosing = calculateClosingExtension(closingChange ? closingChange.to : currentClosing, now);
+  if (!extendedClosing) {
+    return changes;
+  }
+
+  if (closingChange) {
+    return changes.map(change => change === closingChange
+      ? { ...change, to: extendedClosing.toISOString(), auto_extended: true }
+      : change
+    );
+  }
+
+  return [...changes, {
+    field: 'closing_date',
+    from: new Date(currentClosing).toISOString(),
+    to: extendedClosing.toISOString(),
+    auto_extended: true
+  }];
+}
@@ -0,0 +1,91 @@
+// Rates a supplier was qualified at. For standing offers the unit price is
+// firm; for supply arrangements it is a ceiling that call-up quotes may undercut
+export interface ArrangementRate {
+  item_code: string;
+  description?: string;
+  unit: string;
+  unit_price: number;
+}
+
+export interface CallUpLine {
+  item_code: string;
+  quantity: number;
+}
+
+export interface PricedCallUpLine extends CallUpLine {
+  description?: string;
+  unit: string;
+  unit_price: number;
+  extended_price: number;
+}
+
+export interface PricedCallUp {
+  lines: PricedCallUpLine[];
+  total: number;
+  errors: string[];
+}
+
+export interface PoolSupplier {
+  business_id: string;
+  rates: ArrangementRate[];
+  last_call_up_at?: Date | string | null;
+}
+
+export type AllocationMethod = 'lowest_price' | 'rotation';
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function priceCallUp(rates: ArrangementRate[], lines: CallUpLine[]): PricedCallUp {
+  const byCode = new Map(rates.map(rate => [rate.item_code, rate]));
+  const errors: string[] = [];
+  const priced: PricedCallUpLine[] = [];
+
+  for (const line of lines) {
+    const rate = byCode.get(line.item_code);
+    if (!rate) {
+      errors.push(`No qualified rate for item ${line.item_code}`);
+      continue;
+    }
+
+    priced.push({
+      ...line,
+      ...(rate.description !== undefined ? { description: rate.description } : {}),
+      unit: rate.unit,
+      unit_price: Number(rate.unit_price),
+      extended_price: round(Number(rate.unit_price) * line.quantity)
+    });
+  }
+
+  return {
+    lines: priced,
+    total: round(priced.reduce((sum, line) => sum + line.extended_price, 0)),
+    errors
+  };
+}
+
+// Picks the supplier for a direct call-up among those rated for every line:
+// the cheapest total, or whoever has gone longest without a call-up
+export function selectSupplier(
+  pool: PoolSupplier[],
+  lines: CallUpLine[],
+  method: AllocationMethod
+): { business_id: string; priced: PricedCallUp } | null {
+  const eligible = pool
+    .map(supplier => ({ supplier, priced: priceCallUp(supplier.rates, lines) }))
+    .filter(({ priced }) => priced.errors.length === 0);
+
+  if (eligible.length === 0) return null;
+
+  const lastCallUp = (supplier: PoolSupplier) =>
+    supplier.last_call_up_at ? new Date(supplier.last_call_up_at).getTime() : 0;
+
+  eligible.sort((a, b) => method === 'rotation'
+    ? lastCallUp(a.supplier) - lastCallUp(b.supplier) || a.priced.total - b.priced.total
+    : a.priced.total - b.priced.total || lastCallUp(a.supplier) - lastCallUp(b.supplier)
+  );
+
+  const chosen = eligible[0]!;
+  return { business_id: chosen.supplier.business_id, priced: chosen.priced };
+}
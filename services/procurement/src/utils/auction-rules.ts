@@ -0,0 +1,126 @@
+export type AuctionFeedback = 'rank_only' | 'price_visible';
+
+export interface AuctionRules {
+  starting_price: number;
+  min_decrement_amount?: number | null;
+  min_decrement_percent?: number | null;
+  extension_window_seconds: number;
+  extension_seconds: number;
+  max_extensions?: number | null;
+}
+
+export interface AuctionLedgerEntry {
+  business_id: string;
+  amount: number;
+  placed_by: string;
+  placed_at: Date | string;
+}
+
+export interface AuctionStanding {
+  rank: number;
+  business_id: string;
+  best_amount: number;
+  placed_by: string;
+  placed_at: Date;
+  bid_count: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// The larger of the fixed and percentage decrements applies
+export function minimumDecrement(rules: AuctionRules, reference: number): number {
+  const fixed = rules.min_decrement_amount || 0;
+  const percent = rules.min_decrement_percent
+    ? (reference * rules.min_decrement_percent) / 100
+    : 0;
+  return round(Math.max(fixed, percent));
+}
+
+// A bidder's first price must not exceed the starting price; each later
+// price must undercut their own previous best by the minimum decrement
+export function validateAuctionBid(
+  rules: AuctionRules,
+  amount: number,
+  ownBest: number | null
+): string[] {
+  const errors: string[] = [];
+
+  if (amount <= 0) {
+    errors.push('Bid amount must be positive');
+  }
+
+  if (round(amount) !== amount) {
+    errors.push('Bid amount cannot have more than two decimal places');
+  }
+
+  if (amount > rules.starting_price) {
+    errors.push(`Bid cannot exceed the starting price of ${rules.starting_price}`);
+  }
+
+  if (ownBest !== null) {
+    const maximum = round(ownBest - minimumDecrement(rules, ownBest));
+    if (amount > maximum) {
+      errors.push(`Bid must be at most ${maximum} to improve on your previous bid of ${ownBest}`);
+    }
+  }
+
+  return errors;
+}
+
+// Anti-sniping: a bid inside the closing window pushes the close out so
+// other bidders always get time to respond. Returns null when no extension applies
+export function extendedEndTime(
+  rules: AuctionRules,
+  endsAt: Date,
+  placedAt: Date,
+  extensionsUsed: number
+): Date | null {
+  if (rules.max_extensions !== null && rules.max_extensions !== undefined
+    && extensionsUsed >= rules.max_extensions) {
+    return null;
+  }
+
+  const windowStart = endsAt.getTime() - rules.extension_window_seconds * 1000;
+  if (placedAt.getTime() < windowStart || placedAt.getTime() >= endsAt.getTime()) {
+    return null;
+  }
+
+  const extended = placedAt.getTime() + rules.extension_seconds * 1000;
+  return extended > endsAt.getTime() ? new Date(extended) : null;
+}
+
+// Each business ranks on its best price; equal prices rank by who got there first
+export function rankAuctionBids(ledger: AuctionLedgerEntry[]): AuctionStanding[] {
+  const best = new Map<string, Omit<AuctionStanding, 'rank'>>();
+
+  for (const entry of ledger) {
+    const amount = Number(entry.amount);
+    const placedAt = new Date(entry.placed_at);
+    const current = best.get(entry.business_id);
+
+    if (!current) {
+      best.set(entry.business_id, {
+        business_id: entry.business_id,
+        best_amount: amount,
+        placed_by: entry.placed_by,
+        placed_at: placedAt,
+        bid_count: 1
+      });
+      continue;
+    }
+
+    current.bid_count++;
+    if (amount < current.best_amount
+      || (amount === current.best_amount && placedAt < current.placed_at)) {
+      current.best_amount = amount;
+      current.placed_by = entry.placed_by;
+      current.placed_at = placedAt;
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => a.best_amount - b.best_amount || a.placed_at.getTime() - b.placed_at.getTime())
+    .map((standing, index) => ({ rank: index + 1, ...standing }));
+}
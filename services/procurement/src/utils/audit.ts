@@ -0,0 +1,46 @@
+import { query } from './database';
+import { logger } from './logger';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface ProcurementAuditEvent {
+  entity_type: 'rfq' | 'bid' | 'contract' | string;
+  entity_id: string;
+  action: string;
+  user_id: string;
+  details?: string | undefined;
+  metadata?: Record<string, any>;
+}
+
+// Procurement audit trail. Pass the transaction client when the event must
+// commit or roll back together with the change it describes.
+export async function recordAuditEvent(event: ProcurementAuditEvent, client?: any): Promise<void> {
+  const sql = `INSERT INTO procurement_audit_log (
+      id, entity_type, entity_id, action, user_id, details, metadata, created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())`;
+  const params = [
+    uuidv4(), event.entity_type, event.entity_id, event.action,
+    event.user_id, event.details, JSON.stringify(event.metadata || {})
+  ];
+
+  if (client) {
+    await client.query(sql, params);
+  } else {
+    await query(sql, params);
+  }
+
+  logger.info(`Audit event recorded: ${event.action}`, {
+    entityType: event.entity_type,
+    entityId: event.entity_id
+  });
+}
+
+export async function getAuditTrail(entityType: string, entityId: string): Promise<any[]> {
+  const result = await query(
+    `SELECT * FROM procurement_audit_log
+     WHERE entity_type = $1 AND entity_id = $2
+     ORDER BY created_at ASC`,
+    [entityType, entityId]
+  );
+
+  return result.rows;
+}
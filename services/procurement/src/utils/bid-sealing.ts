@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import { BusinessLogicError } from '../middleware/error-handler';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+export interface SealedPayload {
+  ciphertext: string;
+  iv: string;
+  auth_tag: string;
+  content_hash: string;
+}
+
+function getMasterKey(): Buffer {
+  const key = process.env.BID_SEALING_MASTER_KEY;
+  if (!key) {
+    throw new Error('BID_SEALING_MASTER_KEY is not configured');
+  }
+
+  const buffer = Buffer.from(key, 'hex');
+  if (buffer.length !== 32) {
+    throw new Error('BID_SEALING_MASTER_KEY must be 32 bytes encoded as hex');
+  }
+  return buffer;
+}
+
+function encrypt(key: Buffer, plaintext: Buffer): Omit<SealedPayload, 'content_hash'> {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return {
+    ciphertext: ciphertext.toString('base64'),
+    iv: iv.toString('base64'),
+    auth_tag: cipher.getAuthTag().toString('base64')
+  };
+}
+
+function decrypt(key: Buffer, payload: Omit<SealedPayload, 'content_hash'>): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(payload.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(payload.auth_tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(payload.ciphertext, 'base64')),
+    decipher.final()
+  ]);
+}
+
+export function hashContents(contents: string): string {
+  return crypto.createHash('sha256').update(contents).digest('hex');
+}
+
+// Each sealed RFQ gets its own data key, stored only in wrapped form.
+export function generateSealingKey(): string {
+  const dataKey = crypto.randomBytes(32);
+  return JSON.stringify(encrypt(getMasterKey(), dataKey));
+}
+
+// The data key can only be unwrapped once the RFQ has closed, so nothing
+// sealed against it is readable before the formal opening.
+export function unwrapSealingKey(wrappedKey: string, closingDate: Date, now: Date = new Date()): Buffer {
+  if (now.getTime() < new Date(closingDate).getTime()) {
+    throw new BusinessLogicError('Sealed bids cannot be opened before the RFQ closing date');
+  }
+
+  return decrypt(getMasterKey(), JSON.parse(wrappedKey));
+}
+
+export function sealContents(contents: any, wrappedKey: string): SealedPayload {
+  // Sealing needs the data key but must work before closing
+  const dataKey = decrypt(getMasterKey(), JSON.parse(wrappedKey));
+  const serialized = JSON.stringify(contents);
+
+  return {
+    ...encrypt(dataKey, Buffer.from(serialized, 'utf8')),
+    content_hash: hashContents(serialized)
+  };
+}
+
+export function unsealContents<T = any>(payload: SealedPayload, dataKey: Buffer): T {
+  const serialized = decrypt(dataKey, payload).toString('utf8');
+
+  if (hashContents(serialized) !== payload.content_hash) {
+    throw new BusinessLogicError('Sealed bid contents failed integrity verification');
+  }
+
+  return JSON.parse(serialized);
+}
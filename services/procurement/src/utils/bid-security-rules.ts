@@ -0,0 +1,120 @@
+export type BidSecurityRequirement = 'none' | 'bid_bond' | 'deposit' | 'either';
+export type SecurityType = 'bid_bond' | 'bid_deposit' | 'performance_bond' | 'labour_material_bond';
+
+export interface BidSecurityTerms {
+  type: 'bid_bond' | 'deposit';
+  amount: number;
+  surety_name?: string;
+  bond_number?: string;
+  expiry_date?: Date | string;
+  payment_reference?: string;
+}
+
+export interface BidSecurityRFQ {
+  closing_date: Date | string;
+  bid_security_type?: BidSecurityRequirement | null;
+  bid_security_amount?: number | string | null;
+}
+
+export interface BondedContract {
+  contract_value: number | string;
+  performance_bond_required?: boolean;
+  performance_bond_percentage?: number | string | null;
+  labour_material_bond_required?: boolean;
+  labour_material_bond_percentage?: number | string | null;
+}
+
+export interface HeldBidSecurity {
+  bid_id: string;
+  status: string;
+}
+
+// Bid security must stay valid this long past closing so the buyer can
+// evaluate and award without it lapsing
+export const BID_SECURITY_VALIDITY_DAYS = 60;
+
+// Bond amounts as a share of contract value when the award does not say otherwise
+export const DEFAULT_PERFORMANCE_BOND_PERCENTAGE = 50;
+export const DEFAULT_LABOUR_MATERIAL_BOND_PERCENTAGE = 50;
+
+// Securities in these states are still with the buyer or escrow
+export const RELEASABLE_STATUSES = ['held', 'release_failed'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function bidSecurityExpiry(closingDate: Date | string, security: Pick<BidSecurityTerms, 'expiry_date'>): Date {
+  return security.expiry_date
+    ? new Date(security.expiry_date)
+    : new Date(new Date(closingDate).getTime() + BID_SECURITY_VALIDITY_DAYS * DAY_MS);
+}
+
+// Returns why the security offered does not meet the RFQ's requirement, or
+// null when it does. A missing security is for the caller to report
+export function bidSecurityProblem(rfq: BidSecurityRFQ, security: BidSecurityTerms): string | null {
+  const requirement: BidSecurityRequirement = rfq.bid_security_type || 'none';
+  if (requirement === 'none') {
+    return null;
+  }
+
+  if (requirement !== 'either' && security.type !== requirement) {
+    return `This RFQ requires bid security as a ${requirement.replace('_', ' ')}`;
+  }
+
+  if (security.amount < Number(rfq.bid_security_amount || 0)) {
+    return `Bid security must be at least ${rfq.bid_security_amount}`;
+  }
+
+  if (security.type === 'bid_bond') {
+    if (!security.surety_name || !security.bond_number || !security.expiry_date) {
+      return 'Bid bonds require a surety, bond number and expiry date';
+    }
+
+    const minimumExpiry = bidSecurityExpiry(rfq.closing_date, {});
+    if (new Date(security.expiry_date) < minimumExpiry) {
+      return `Bid bond must remain valid ${BID_SECURITY_VALIDITY_DAYS} days past the closing date`;
+    }
+  } else if (!security.payment_reference) {
+    return 'Deposits require the reference of the funding payment';
+  }
+
+  return null;
+}
+
+// Only deposits are held in escrow; bid bonds are a promise from the surety
+export function requiresEscrowHold(security: Pick<BidSecurityTerms, 'type'>): boolean {
+  return security.type === 'deposit';
+}
+
+// Unsuccessful bidders get their security back at award; the winner's is
+// kept until any required contract bonds are in place
+export function bidSecurityReleasesOnAward<T extends HeldBidSecurity>(
+  securities: T[],
+  winningBidId: string,
+  contractBondsOutstanding: boolean
+): { security: T; reason: string }[] {
+  return securities
+    .filter(security => RELEASABLE_STATUSES.includes(security.status))
+    .filter(security => security.bid_id !== winningBidId || !contractBondsOutstanding)
+    .map(security => ({
+      security,
+      reason: security.bid_id === winningBidId
+        ? 'Contract security in place'
+        : 'Contract awarded to another bidder'
+    }));
+}
+
+export function outstandingContractBonds(contract: BondedContract, heldTypes: string[]): SecurityType[] {
+  const required: SecurityType[] = [];
+  if (contract.performance_bond_required) required.push('performance_bond');
+  if (contract.labour_material_bond_required) required.push('labour_material_bond');
+
+  return required.filter(type => !heldTypes.includes(type));
+}
+
+export function requiredBondAmount(contract: BondedContract, bondType: 'performance' | 'labour_material'): number {
+  const percentage = bondType === 'performance'
+    ? contract.performance_bond_percentage ?? DEFAULT_PERFORMANCE_BOND_PERCENTAGE
+    : contract.labour_material_bond_percentage ?? DEFAULT_LABOUR_MATERIAL_BOND_PERCENTAGE;
+
+  return Math.round(Number(contract.contract_value) * Number(percentage)) / 100;
+}
@@ -0,0 +1,49 @@
+export interface AwardedContract {
+  created_at: Date | string;
+  standstill_ends_at?: Date | string | null;
+}
+
+// Standstill applied when the award does not set its own; unsuccessful
+// bidders can ask for a debriefing or protest until it ends
+export const DEFAULT_STANDSTILL_DAYS = 10;
+
+// The buyer must answer a protest within this many days of filing
+export const PROTEST_RESPONSE_DAYS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(from: Date | string, days: number): Date {
+  return new Date(new Date(from).getTime() + days * DAY_MS);
+}
+
+// A standstill of zero days lets the contract start at once
+export function standstillEndsAt(
+  standstillDays: number | null | undefined,
+  awardedAt: Date = new Date()
+): Date | null {
+  const days = standstillDays ?? DEFAULT_STANDSTILL_DAYS;
+  return days > 0 ? addDays(awardedAt, days) : null;
+}
+
+export function isInStandstill(contract: AwardedContract, now: Date = new Date()): boolean {
+  return !!contract.standstill_ends_at && now < new Date(contract.standstill_ends_at);
+}
+
+// Debriefing and protest deadlines both run to the end of standstill
+export function challengeDeadline(contract: AwardedContract): Date {
+  return contract.standstill_ends_at
+    ? new Date(contract.standstill_ends_at)
+    : addDays(contract.created_at, DEFAULT_STANDSTILL_DAYS);
+}
+
+export function isChallengePeriodOver(contract: AwardedContract, now: Date = new Date()): boolean {
+  return now > challengeDeadline(contract);
+}
+
+export function protestResponseDueAt(filedAt: Date = new Date()): Date {
+  return addDays(filedAt, PROTEST_RESPONSE_DAYS);
+}
+
+export function isProtestResponseLate(responseDueAt: Date | string, respondedAt: Date = new Date()): boolean {
+  return respondedAt > new Date(responseDueAt);
+}
@@ -0,0 +1,39 @@
+export interface ContractTerms {
+  contract_value: number | string;
+  start_date: Date | string;
+}
+
+export interface ChangeOrderTerms {
+  value_change?: number | string | null;
+  new_end_date?: Date | string | null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function newContractValue(contractValue: number | string, valueChange?: number | string | null): number {
+  return round(Number(contractValue) + Number(valueChange || 0));
+}
+
+// Returns why a change order cannot apply to the contract as it stands now,
+// or null when it can
+export function changeOrderProblem(contract: ContractTerms, changeOrder: ChangeOrderTerms): string | null {
+  if (!Number(changeOrder.value_change || 0) && !changeOrder.new_end_date) {
+    return 'A change order must modify the contract value or end date';
+  }
+
+  if (newContractValue(contract.contract_value, changeOrder.value_change) <= 0) {
+    return 'Change order would reduce the contract value below zero';
+  }
+
+  if (changeOrder.new_end_date && new Date(changeOrder.new_end_date) <= new Date(contract.start_date)) {
+    return 'New end date must be after the contract start date';
+  }
+
+  return null;
+}
+
+export function milestoneAmount(contractValue: number | string, paymentPercentage: number | string): number {
+  return round((Number(contractValue) * Number(paymentPercentage)) / 100);
+}
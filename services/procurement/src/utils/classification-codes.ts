@@ -0,0 +1,302 @@
+// Commodity and industry classification: UNSPSC (8-digit segment / family /
+// class / commodity), GSIN (the federal goods and services codes, e.g. N7030,
+// R199D) and NAICS (2- to 6-digit, with the 31-33, 44-45 and 48-49 sectors)
+
+export type CodeSystem = 'unspsc' | 'gsin' | 'naics';
+
+export const CODE_SYSTEMS: CodeSystem[] = ['unspsc', 'gsin', 'naics'];
+
+export interface CodeRef {
+  system: CodeSystem;
+  code: string;
+}
+
+export interface ClassificationCode extends CodeRef {
+  title: string;
+  keywords?: string[];
+}
+
+export interface CrosswalkEntry {
+  from: CodeRef;
+  to: CodeRef;
+}
+
+export interface WeightedCode extends CodeRef {
+  weight: number; // How sure we are the business does this, 0..1
+}
+
+export interface CodeMatch {
+  score: number;
+  rfq_code?: CodeRef;
+  business_code?: CodeRef;
+}
+
+const NAICS_SECTORS: Record<string, string> = {
+  '31': '31-33', '32': '31-33', '33': '31-33',
+  '44': '44-45', '45': '44-45',
+  '48': '48-49', '49': '48-49'
+};
+
+export function normalizeCode(system: CodeSystem, code: string): string {
+  const trimmed = code.trim().toUpperCase().replace(/^\*/, '');
+  if (system === 'unspsc') {
+    const digits = trimmed.replace(/\D/g, '');
+    return digits.length >= 2 && digits.length < 8 && digits.length % 2 === 0 ? digits.padEnd(8, '0') : digits;
+  }
+  if (system === 'naics') {
+    return /^\d{2}-\d{2}$/.test(trimmed) ? trimmed : trimmed.replace(/\D/g, '');
+  }
+  return trimmed.replace(/\s+/g, '');
+}
+
+export function isValidCode(system: CodeSystem, code: string): boolean {
+  switch (system) {
+    case 'unspsc': return /^\d{8}$/.test(code) && code.slice(0, 2) !== '00';
+    case 'naics': return /^\d{2,6}$/.test(code) || /^\d{2}-\d{2}$/.test(code);
+    case 'gsin': return /^[A-Z][A-Z0-9]{0,7}$/.test(code);
+  }
+}
+
+// The code one level up, or null at the top of the hierarchy
+export function parentCode(system: CodeSystem, code: string): string | null {
+  if (system === 'unspsc') {
+    if (code.endsWith('000000')) return null;
+    if (code.endsWith('0000')) return `${code.slice(0, 2)}000000`;
+    if (code.endsWith('00')) return `${code.slice(0, 4)}0000`;
+    return `${code.slice(0, 6)}00`;
+  }
+  if (system === 'naics') {
+    if (code.includes('-') || code.length <= 2) return null;
+    const parent = code.slice(0, -1);
+    return parent.length === 2 ? NAICS_SECTORS[parent] || parent : parent;
+  }
+  return code.length > 1 ? code.slice(0, -1) : null;
+}
+
+// From the top of the hierarchy down to the code itself
+export function codePath(system: CodeSystem, code: string): string[] {
+  const path = [code];
+  for (let parent = parentCode(system, code); parent; parent = parentCode(system, parent)) {
+    path.unshift(parent);
+  }
+  return path;
+}
+
+// 1 for the same code, falling with each level to the closest shared
+// ancestor: two commodities in the same UNSPSC class score 0.75, in the
+// same family 0.5. Codes from different systems score 0
+export function codeProximity(a: CodeRef, b: CodeRef): number {
+  if (a.system !== b.system) return 0;
+  if (a.code === b.code) return 1;
+
+  const pathA = codePath(a.system, a.code);
+  const pathB = codePath(b.system, b.code);
+  let shared = 0;
+  while (shared < pathA.length && shared < pathB.length && pathA[shared] === pathB[shared]) {
+    shared++;
+  }
+  return shared / Math.max(pathA.length, pathB.length);
+}
+
+// How well a business's capability codes cover an RFQ's codes: the best
+// proximity between any RFQ code and any business code, weighted by both
+// (an RFQ code reached through a crosswalk carries its confidence)
+export function capabilityMatch(rfqCodes: Array<CodeRef & { weight?: number }>, businessCodes: WeightedCode[]): CodeMatch {
+  let best: CodeMatch = { score: 0 };
+
+  for (const rfqCode of rfqCodes) {
+    for (const businessCode of businessCodes) {
+      const score = codeProximity(rfqCode, businessCode) * businessCode.weight * (rfqCode.weight ?? 1);
+      if (score > best.score) {
+        best = {
+          score: Math.round(score * 1000) / 1000,
+          rfq_code: { system: rfqCode.system, code: rfqCode.code },
+          business_code: { system: businessCode.system, code: businessCode.code }
+        };
+      }
+    }
+  }
+
+  return best;
+}
+
+// RFC 4180 rows, quoted fields allowed to hold commas, quotes and newlines
+export function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some(value => value.trim() !== '')) rows.push(row);
+
+  return rows;
+}
+
+function column(headers: string[], patterns: RegExp[]): number {
+  for (const pattern of patterns) {
+    const index = headers.findIndex(header => pattern.test(header) && !/fra|french|fr$/i.test(header));
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+// A code table as published (Statistics Canada NAICS, CanadaBuys GSIN,
+// UNSPSC) or in our own code,title[,keywords] layout. The code and title
+// columns are found by heading; keywords are ;-separated
+export function parseCodeTable(system: CodeSystem, content: string): ClassificationCode[] {
+  const [headers, ...rows] = parseCsvRows(content);
+  if (!headers) return [];
+
+  const names = headers.map(header => header.trim().toLowerCase());
+  const codeColumn = column(names, [/^code$/, new RegExp(`^${system}`), /code/]);
+  const titleColumn = column(names, [/^title$/, /class title/, /title/, /description|name/]);
+  const keywordColumn = column(names, [/keyword|synonym/]);
+  if (codeColumn === -1 || titleColumn === -1) {
+    throw new Error(`No code and title columns in ${system} table (headings: ${headers.join(', ')})`);
+  }
+
+  const codes: ClassificationCode[] = [];
+  for (const row of rows) {
+    const code = normalizeCode(system, row[codeColumn] || '');
+    const title = (row[titleColumn] || '').trim();
+    if (!isValidCode(system, code) || !title) continue;
+
+    const keywords = keywordColumn === -1
+      ? []
+      : (row[keywordColumn] || '').split(';').map(keyword => keyword.trim()).filter(Boolean);
+    codes.push({ system, code, title, ...(keywords.length > 0 ? { keywords } : {}) });
+  }
+
+  return codes;
+}
+
+// from_system,from_code,to_system,to_code
+export function parseCrosswalk(content: string): CrosswalkEntry[] {
+  const [, ...rows] = parseCsvRows(content);
+  const entries: CrosswalkEntry[] = [];
+
+  for (const [fromSystem, fromCode, toSystem, toCode] of rows) {
+    const from = fromSystem?.trim().toLowerCase() as CodeSystem;
+    const to = toSystem?.trim().toLowerCase() as CodeSystem;
+    if (!CODE_SYSTEMS.includes(from) || !CODE_SYSTEMS.includes(to) || !fromCode || !toCode) continue;
+
+    entries.push({
+      from: { system: from, code: normalizeCode(from, fromCode) },
+      to: { system: to, code: normalizeCode(to, toCode) }
+    });
+  }
+
+  return entries;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'by', 'for', 'from', 'in', 'including', 'into',
+  'not', 'of', 'on', 'or', 'other', 'the', 'to', 'with', 'without', 'services',
+  'service', 'supply', 'supplies', 'related', 'general', 'misc', 'miscellaneous'
+]);
+
+// Lower-cased word stems, stop words dropped
+export function keywordTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word) && !/^\d+$/.test(word))
+    .map(word => word
+      .replace(/ies$/, 'y')
+      .replace(/(ing|ment|ers?|ed)$/, match => word.length > 5 ? '' : match)
+      .replace(/([^s])s$/, '$1'));
+}
+
+export interface KeywordIndex {
+  codes: Map<string, { code: ClassificationCode; tokens: number }>;
+  postings: Map<string, string[]>; // token -> keys of codes whose title or keywords hold it
+}
+
+function key(ref: CodeRef): string {
+  return `${ref.system}:${ref.code}`;
+}
+
+export function buildKeywordIndex(codes: ClassificationCode[]): KeywordIndex {
+  const index: KeywordIndex = { codes: new Map(), postings: new Map() };
+
+  for (const code of codes) {
+    const tokens = Array.from(new Set(keywordTokens([code.title, ...(code.keywords || [])].join(' '))));
+    index.codes.set(key(code), { code, tokens: tokens.length });
+    for (const token of tokens) {
+      const posting = index.postings.get(token) || [];
+      posting.push(key(code));
+      index.postings.set(token, posting);
+    }
+  }
+
+  return index;
+}
+
+export interface CodeSuggestion extends ClassificationCode {
+  score: number;
+  matched: string[];
+}
+
+// Codes whose titles and keywords share words with the text, rarer words
+// counting for more and shorter titles (closer fits) ahead of longer ones
+export function suggestCodes(
+  index: KeywordIndex,
+  text: string,
+  options: { systems?: CodeSystem[]; limit?: number } = {}
+): CodeSuggestion[] {
+  const tokens = Array.from(new Set(keywordTokens(text)));
+  const total = index.codes.size || 1;
+  const scores = new Map<string, { score: number; matched: string[] }>();
+
+  for (const token of tokens) {
+    const posting = index.postings.get(token) || [];
+    const rarity = Math.log(1 + total / (posting.length || 1));
+    for (const codeKey of posting) {
+      const entry = scores.get(codeKey) || { score: 0, matched: [] };
+      entry.score += rarity;
+      entry.matched.push(token);
+      scores.set(codeKey, entry);
+    }
+  }
+
+  const best = Math.max(0, ...Array.from(scores.values()).map(entry => entry.score));
+
+  return Array.from(scores.entries())
+    .map(([codeKey, entry]) => {
+      const { code, tokens: titleTokens } = index.codes.get(codeKey)!;
+      const coverage = entry.matched.length / Math.max(titleTokens, 1);
+      return { ...code, score: (entry.score / best) * (0.5 + 0.5 * coverage), matched: entry.matched };
+    })
+    .filter(suggestion => !options.systems || options.systems.includes(suggestion.system))
+    .sort((a, b) => b.score - a.score || b.code.length - a.code.length)
+    .slice(0, options.limit ?? 10)
+    .map(suggestion => ({ ...suggestion, score: Math.round(suggestion.score * 1000) / 1000 }));
+}
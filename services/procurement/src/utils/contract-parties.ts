@@ -0,0 +1,21 @@
+import { query } from './database';
+
+export async function isBusinessOwner(businessId: string, userId: string): Promise<boolean> {
+  const result = await query(
+    `SELECT COUNT(*) as count FROM user_businesses 
+     WHERE business_id = $1 AND user_id = $2 AND is_primary = true`,
+    [businessId, userId]
+  );
+  
+  return parseInt(result.rows[0].count) > 0;
+}
+
+export async function getBusinessOwnerId(businessId: string): Promise<string> {
+  const result = await query(
+    `SELECT user_id FROM user_businesses 
+     WHERE business_id = $1 AND is_primary = true`,
+    [businessId]
+  );
+  
+  return result.rows[0]?.user_id;
+}
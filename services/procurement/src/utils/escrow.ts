@@ -0,0 +1,74 @@
+import axios from 'axios';
+import { logger } from './logger';
+
+export interface SecurityDepositHold {
+  rfqId: string;
+  bidId: string;
+  businessId: string;
+  amount: number;
+  paymentReference: string;
+  expiryDate: Date;
+}
+
+// Unlike notifications, escrow calls must succeed: a deposit that was never
+// held or released has to surface to the caller
+function paymentsServiceUrl(): string {
+  return process.env.PAYMENTS_SERVICE_URL || 'http://payments-service:3025';
+}
+
+function serviceHeaders(): Record<string, string | undefined> {
+  return {
+    'Content-Type': 'application/json',
+    'X-Service-Token': process.env.INTERNAL_SERVICE_TOKEN
+  };
+}
+
+export async function holdSecurityDeposit(deposit: SecurityDepositHold): Promise<string> {
+  try {
+    const response = await axios.post(
+      `${paymentsServiceUrl()}/api/escrow/security-deposits`,
+      deposit,
+      { headers: serviceHeaders() }
+    );
+
+    logger.info(`Security deposit held in escrow for bid ${deposit.bidId}`);
+    return response.data.depositId;
+  } catch (error) {
+    logger.error('Failed to hold security deposit:', error);
+    throw error;
+  }
+}
+
+export async function releaseSecurityDeposit(depositId: string, reason: string): Promise<void> {
+  try {
+    await axios.post(
+      `${paymentsServiceUrl()}/api/escrow/security-deposits/${depositId}/release`,
+      { reason },
+      { headers: serviceHeaders() }
+    );
+
+    logger.info(`Security deposit released: ${depositId}`);
+  } catch (error) {
+    logger.error(`Failed to release security deposit ${depositId}:`, error);
+    throw error;
+  }
+}
+
+export async function forfeitSecurityDeposit(
+  depositId: string,
+  reason: string,
+  beneficiaryId: string
+): Promise<void> {
+  try {
+    await axios.post(
+      `${paymentsServiceUrl()}/api/escrow/security-deposits/${depositId}/forfeit`,
+      { reason, beneficiaryId },
+      { headers: serviceHeaders() }
+    );
+
+    logger.info(`Security deposit forfeited: ${depositId}`);
+  } catch (error) {
+    logger.error(`Failed to forfeit security deposit ${depositId}:`, error);
+    throw error;
+  }
+}
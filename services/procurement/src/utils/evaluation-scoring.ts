@@ -0,0 +1,244 @@
+export type CriterionCategory = 'technical' | 'price' | 'indigenous_benefit' | 'schedule' | 'other';
+
+export interface EvaluationCriterion {
+  key: string;
+  name: string;
+  category: CriterionCategory;
+  weight: number; // percentage of the total score; 0 for pass/fail gates
+  max_points: number;
+  scoring_method: 'evaluator' | 'lowest_price' | 'pass_fail';
+  minimum_points?: number; // bids below this consensus are screened out
+}
+
+export interface EvaluatorScore {
+  evaluator_id: string;
+  criterion_key: string;
+  score?: number | null;
+  passed?: boolean | null;
+}
+
+export interface ScoredBid {
+  bid_id: string;
+  amount: number;
+  scores: EvaluatorScore[];
+}
+
+export interface CriterionResult {
+  key: string;
+  name: string;
+  category: CriterionCategory;
+  weight: number;
+  max_points: number;
+  consensus_points: number | null;
+  weighted_score: number;
+  passed?: boolean;
+  spread: number;
+  evaluator_scores: {
+    evaluator_id: string;
+    score: number | null;
+    passed?: boolean | null;
+    outlier: boolean;
+  }[];
+}
+
+export interface BidRanking {
+  bid_id: string;
+  amount: number;
+  rank: number | null;
+  total_score: number;
+  complete: boolean;
+  disqualified: boolean;
+  disqualification_reasons: string[];
+  criteria: CriterionResult[];
+}
+
+// A score deviating from the committee median by more than this share of
+// the criterion's points is flagged for discussion and left out of consensus
+export const DEFAULT_OUTLIER_THRESHOLD = 0.2;
+
+export function validateMatrix(criteria: EvaluationCriterion[]): string[] {
+  const errors: string[] = [];
+  const keys = new Set<string>();
+
+  for (const criterion of criteria) {
+    if (keys.has(criterion.key)) {
+      errors.push(`Duplicate criterion key: ${criterion.key}`);
+    }
+    keys.add(criterion.key);
+
+    if (criterion.scoring_method === 'pass_fail' && criterion.weight !== 0) {
+      errors.push(`Pass/fail criterion ${criterion.key} cannot carry weight`);
+    }
+
+    if (criterion.minimum_points !== undefined && criterion.minimum_points > criterion.max_points) {
+      errors.push(`Minimum points for ${criterion.key} exceed its maximum`);
+    }
+  }
+
+  if (criteria.filter(c => c.scoring_method === 'lowest_price').length > 1) {
+    errors.push('Only one criterion can be scored by lowest price');
+  }
+
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  if (Math.abs(totalWeight - 100) > 0.001) {
+    errors.push(`Criterion weights must sum to 100 (got ${totalWeight})`);
+  }
+
+  return errors;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1]! + sorted[middle]!) / 2
+    : sorted[middle]!;
+}
+
+export function detectOutliers(
+  scores: number[],
+  maxPoints: number,
+  threshold: number = DEFAULT_OUTLIER_THRESHOLD
+): boolean[] {
+  if (scores.length < 3) {
+    // Two scores have no majority to deviate from
+    return scores.map(() => false);
+  }
+
+  const mid = median(scores);
+  return scores.map(score => Math.abs(score - mid) > threshold * maxPoints);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function scoreCriterion(
+  criterion: EvaluationCriterion,
+  bid: ScoredBid,
+  lowestAmount: number,
+  threshold: number
+): CriterionResult {
+  const entries = bid.scores.filter(s => s.criterion_key === criterion.key);
+  const base = {
+    key: criterion.key,
+    name: criterion.name,
+    category: criterion.category,
+    weight: criterion.weight,
+    max_points: criterion.max_points
+  };
+
+  if (criterion.scoring_method === 'lowest_price') {
+    // Capped so a screened-out bid below the baseline cannot exceed full points
+    const points = bid.amount > 0 ? criterion.max_points * Math.min(1, lowestAmount / bid.amount) : 0;
+    return {
+      ...base,
+      consensus_points: round(points),
+      weighted_score: round((points / criterion.max_points) * criterion.weight),
+      spread: 0,
+      evaluator_scores: []
+    };
+  }
+
+  if (criterion.scoring_method === 'pass_fail') {
+    const votes = entries.filter(e => e.passed !== null && e.passed !== undefined);
+    const passes = votes.filter(e => e.passed).length;
+    return {
+      ...base,
+      consensus_points: null,
+      weighted_score: 0,
+      passed: votes.length > 0 && passes > votes.length / 2,
+      spread: 0,
+      evaluator_scores: entries.map(e => ({
+        evaluator_id: e.evaluator_id,
+        score: null,
+        passed: e.passed ?? null,
+        outlier: false
+      }))
+    };
+  }
+
+  const scored = entries.filter(e => e.score !== null && e.score !== undefined);
+  const values = scored.map(e => Math.min(e.score as number, criterion.max_points));
+  const outliers = detectOutliers(values, criterion.max_points, threshold);
+  const retained = values.filter((_, i) => !outliers[i]);
+  const pool = retained.length > 0 ? retained : values;
+  const consensus = pool.length > 0 ? pool.reduce((a, b) => a + b, 0) / pool.length : null;
+
+  return {
+    ...base,
+    consensus_points: consensus === null ? null : round(consensus),
+    weighted_score: consensus === null ? 0 : round((consensus / criterion.max_points) * criterion.weight),
+    spread: values.length > 0 ? round(Math.max(...values) - Math.min(...values)) : 0,
+    evaluator_scores: scored.map((e, i) => ({
+      evaluator_id: e.evaluator_id,
+      score: values[i]!,
+      outlier: outliers[i]!
+    }))
+  };
+}
+
+function disqualificationReasons(criteria: EvaluationCriterion[], results: CriterionResult[]): string[] {
+  const reasons: string[] = [];
+
+  for (const result of results) {
+    const criterion = criteria.find(c => c.key === result.key)!;
+    if (result.passed === false) {
+      reasons.push(`Failed mandatory requirement: ${criterion.name}`);
+    }
+    if (
+      criterion.minimum_points !== undefined &&
+      result.consensus_points !== null &&
+      result.consensus_points < criterion.minimum_points
+    ) {
+      reasons.push(`Below minimum points for ${criterion.name}`);
+    }
+  }
+
+  return reasons;
+}
+
+export function calculateConsensusRanking(
+  criteria: EvaluationCriterion[],
+  bids: ScoredBid[],
+  evaluatorIds: string[],
+  threshold: number = DEFAULT_OUTLIER_THRESHOLD
+): BidRanking[] {
+  const evaluated = criteria.filter(c => c.scoring_method !== 'lowest_price');
+
+  // Price points are relative to the lowest compliant bid: a bid screened
+  // out by a gate or minimum points must not lower everyone else's score
+  const compliant = bids.filter(bid =>
+    disqualificationReasons(evaluated, evaluated.map(c => scoreCriterion(c, bid, 0, threshold))).length === 0
+  );
+  const amounts = compliant.map(b => b.amount).filter(a => a > 0);
+  const lowestAmount = amounts.length > 0 ? Math.min(...amounts) : 0;
+
+  const results: BidRanking[] = bids.map(bid => {
+    const criterionResults = criteria.map(c => scoreCriterion(c, bid, lowestAmount, threshold));
+    const reasons = disqualificationReasons(criteria, criterionResults);
+
+    // Every committee member must have scored every evaluator-scored criterion
+    const complete = evaluated.every(c => evaluatorIds.every(id =>
+      bid.scores.some(s => s.criterion_key === c.key && s.evaluator_id === id)
+    ));
+
+    return {
+      bid_id: bid.bid_id,
+      amount: bid.amount,
+      rank: null,
+      total_score: round(criterionResults.reduce((sum, r) => sum + r.weighted_score, 0)),
+      complete,
+      disqualified: reasons.length > 0,
+      disqualification_reasons: reasons,
+      criteria: criterionResults
+    };
+  });
+
+  const ranked = results
+    .filter(r => !r.disqualified)
+    .sort((a, b) => b.total_score - a.total_score || a.amount - b.amount);
+  ranked.forEach((r, index) => { r.rank = index + 1; });
+
+  return [...ranked, ...results.filter(r => r.disqualified)];
+}
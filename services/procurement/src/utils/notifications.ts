@@ -6,6 +6,7 @@ interface NotificationPayload {
   recipients: string[];
   data: any;
   priority?: 'low' | 'normal' | 'high';
+  channels?: ('email' | 'in_app' | 'sms' | 'push')[];
 }
 
 export async function sendNotification(payload: NotificationPayload): Promise<void> {
@@ -17,6 +18,7 @@ export async function sendNotification(payload: NotificationPayload): Promise<vo
       recipients: payload.recipients,
       data: payload.data,
       priority: payload.priority || 'normal',
+      channels: payload.channels,
       timestamp: new Date().toISOString()
     }, {
       headers: {
@@ -114,6 +116,74 @@ export async function notifyRFQClosure(rfq: any, bidderBusinessIds: string[]): P
   });
 }
 
+export async function notifyBidsOpened(rfq: any, bidderBusinessIds: string[]): Promise<void> {
+  if (bidderBusinessIds.length === 0) {
+    return;
+  }
+
+  await sendNotification({
+    type: 'rfq.bids_opened',
+    recipients: bidderBusinessIds,
+    data: {
+      rfqId: rfq.id,
+      title: rfq.title,
+      openedAt: new Date().toISOString()
+    },
+    priority: 'normal'
+  });
+}
+
+export async function notifyAddendumIssued(rfq: any, addendum: any, businessIds: string[]): Promise<void> {
+  await sendNotification({
+    type: 'rfq.addendum_issued',
+    recipients: businessIds,
+    data: {
+      rfqId: rfq.id,
+      title: rfq.title,
+      addendumId: addendum.id,
+      addendumNumber: addendum.addendum_number,
+      summary: addendum.summary,
+      closingDate: rfq.closing_date,
+      acknowledgementRequired: true
+    },
+    priority: 'high'
+  });
+}
+
+export async function notifyQuestionSubmitted(rfq: any, question: any): Promise<void> {
+  await sendNotification({
+    type: 'rfq.question_submitted',
+    recipients: [rfq.created_by],
+    data: {
+      rfqId: rfq.id,
+      title: rfq.title,
+      questionId: question.id
+    },
+    priority: 'normal',
+    channels: ['email', 'in_app']
+  });
+}
+
+export async function notifyClarificationPublished(
+  rfq: any,
+  clarification: any,
+  businessIds: string[]
+): Promise<void> {
+  await sendNotification({
+    type: 'rfq.clarification_published',
+    recipients: businessIds,
+    data: {
+      rfqId: rfq.id,
+      title: rfq.title,
+      clarificationNumber: clarification.clarification_number,
+      question: clarification.public_question,
+      answer: clarification.answer
+    },
+    priority: 'normal',
+    channels: ['email', 'in_app']
+  });
+}
+
 export async function notifyContractAwarded(contract: any, winnerId: string, loserIds: string[]): Promise<void> {
   // Notify winner
   await sendNotification({
@@ -137,7 +207,9 @@ export async function notifyContractAwarded(contract: any, winnerId: string, los
       data: {
         rfqId: contract.rfq_id,
         title: contract.rfq_title,
-        closedAt: contract.created_at
+        closedAt: contract.created_at,
+        // Debriefing requests and protests are accepted until standstill ends
+        standstillEndsAt: contract.standstill_ends_at
       },
       priority: 'normal'
     });
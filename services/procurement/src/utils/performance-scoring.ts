@@ -0,0 +1,129 @@
+export type PerformanceDimension =
+  | 'quality'
+  | 'timeliness'
+  | 'communication'
+  | 'indigenous_employment'
+  | 'safety';
+
+// Ratings are 1-5; null means the dimension did not apply to the contract
+export type PerformanceRatings = Partial<Record<PerformanceDimension, number | null>>;
+
+export interface PerformanceEvaluation {
+  id: string;
+  ratings: PerformanceRatings;
+  status: 'submitted' | 'disputed' | 'revised' | 'voided';
+  submitted_at: Date | string;
+}
+
+export interface DimensionScore {
+  dimension: PerformanceDimension;
+  weight: number;
+  average_rating: number | null;
+  score: number | null; // 0-100
+  evaluation_count: number;
+}
+
+export interface Scorecard {
+  overall_score: number | null; // 0-100, null until the business has been evaluated
+  evaluation_count: number;
+  disputed_count: number;
+  dimensions: DimensionScore[];
+  window_start: Date;
+}
+
+export const PERFORMANCE_DIMENSION_WEIGHTS: Record<PerformanceDimension, number> = {
+  quality: 30,
+  timeliness: 25,
+  communication: 15,
+  indigenous_employment: 20,
+  safety: 10
+};
+
+// Evaluations older than the window drop off the scorecard; within it an
+// evaluation loses half its influence every half-life
+export const SCORECARD_WINDOW_MONTHS = 36;
+export const SCORECARD_HALF_LIFE_MONTHS = 12;
+
+const MONTH_MS = 30.44 * 24 * 60 * 60 * 1000;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function ratingToScore(rating: number): number {
+  return ((rating - 1) / 4) * 100;
+}
+
+export function validateRatings(ratings: PerformanceRatings): string[] {
+  const errors: string[] = [];
+
+  for (const dimension of Object.keys(PERFORMANCE_DIMENSION_WEIGHTS) as PerformanceDimension[]) {
+    const rating = ratings[dimension];
+    if (rating === undefined) {
+      errors.push(`Missing rating for ${dimension}`);
+    } else if (rating !== null && (!Number.isInteger(rating) || rating < 1 || rating > 5)) {
+      errors.push(`Rating for ${dimension} must be a whole number from 1 to 5`);
+    }
+  }
+
+  if (Object.values(ratings).every(rating => rating === null || rating === undefined)) {
+    errors.push('At least one dimension must be rated');
+  }
+
+  return errors;
+}
+
+export function calculateScorecard(
+  evaluations: PerformanceEvaluation[],
+  now: Date = new Date()
+): Scorecard {
+  const windowStart = new Date(now.getTime() - SCORECARD_WINDOW_MONTHS * MONTH_MS);
+  const inWindow = evaluations.filter(e =>
+    e.status !== 'voided' && new Date(e.submitted_at) >= windowStart
+  );
+  // A disputed evaluation counts again once the dispute is resolved
+  const counted = inWindow.filter(e => e.status !== 'disputed');
+
+  const dimensions: DimensionScore[] = (
+    Object.entries(PERFORMANCE_DIMENSION_WEIGHTS) as [PerformanceDimension, number][]
+  ).map(([dimension, weight]) => {
+    let weightedSum = 0;
+    let totalWeight = 0;
+    let count = 0;
+
+    for (const evaluation of counted) {
+      const rating = evaluation.ratings[dimension];
+      if (rating === null || rating === undefined) continue;
+
+      const ageMonths = Math.max(0, (now.getTime() - new Date(evaluation.submitted_at).getTime()) / MONTH_MS);
+      const recency = Math.pow(0.5, ageMonths / SCORECARD_HALF_LIFE_MONTHS);
+      weightedSum += rating * recency;
+      totalWeight += recency;
+      count++;
+    }
+
+    const average = totalWeight > 0 ? weightedSum / totalWeight : null;
+    return {
+      dimension,
+      weight,
+      average_rating: average === null ? null : round(average),
+      score: average === null ? null : round(ratingToScore(average)),
+      evaluation_count: count
+    };
+  });
+
+  // Dimensions nobody could rate are left out and the rest re-weighted
+  const rated = dimensions.filter(d => d.score !== null);
+  const ratedWeight = rated.reduce((sum, d) => sum + d.weight, 0);
+  const overall = ratedWeight > 0
+    ? rated.reduce((sum, d) => sum + (d.score as number) * d.weight, 0) / ratedWeight
+    : null;
+
+  return {
+    overall_score: overall === null ? null : round(overall),
+    evaluation_count: counted.length,
+    disputed_count: inWindow.filter(e => e.status === 'disputed').length,
+    dimensions,
+    window_start: windowStart
+  };
+}
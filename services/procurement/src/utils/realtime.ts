@@ -0,0 +1,27 @@
+import axios from 'axios';
+import { logger } from './logger';
+
+export interface RealtimeEvent {
+  room: string; // user:<id> or business:<id>
+  event: string;
+  data: any;
+}
+
+// Live updates go out through the communications socket server. Like
+// notifications they are best-effort: the caller's records stay authoritative
+export async function publishRealtimeEvents(events: RealtimeEvent[]): Promise<void> {
+  if (events.length === 0) return;
+
+  try {
+    const notificationServiceUrl = process.env.NOTIFICATION_SERVICE_URL || 'http://notification-service:3007';
+
+    await axios.post(`${notificationServiceUrl}/api/v1/realtime/events`, { events }, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Service-Token': process.env.INTERNAL_SERVICE_TOKEN
+      }
+    });
+  } catch (error) {
+    logger.error('Failed to publish realtime events:', error);
+  }
+}